@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "nation_snapshots" (
+    "id" SERIAL NOT NULL,
+    "nation_id" INTEGER NOT NULL,
+    "snapshot_at" TIMESTAMP(3) NOT NULL,
+    "strength" DOUBLE PRECISION NOT NULL,
+    "technology" DOUBLE PRECISION NOT NULL,
+    "infrastructure" DOUBLE PRECISION NOT NULL,
+    "land" DOUBLE PRECISION NOT NULL,
+    "nuclear_weapons" INTEGER NOT NULL,
+    "defcon" INTEGER,
+    "warchest" DOUBLE PRECISION,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "nation_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "nation_snapshots_nation_id_snapshot_at_idx" ON "nation_snapshots"("nation_id", "snapshot_at");
+
+-- CreateIndex
+CREATE INDEX "nation_snapshots_snapshot_at_idx" ON "nation_snapshots"("snapshot_at");
+
+-- AddForeignKey
+ALTER TABLE "nation_snapshots" ADD CONSTRAINT "nation_snapshots_nation_id_fkey" FOREIGN KEY ("nation_id") REFERENCES "nations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
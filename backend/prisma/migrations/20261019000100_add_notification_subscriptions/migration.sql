@@ -0,0 +1,52 @@
+-- CreateTable
+CREATE TABLE "notification_subscriptions" (
+    "id" SERIAL NOT NULL,
+    "alliance_id" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "webhook_url" TEXT NOT NULL,
+    "event_types" TEXT[],
+    "target_alliance_ids" INTEGER[],
+    "min_strength" DOUBLE PRECISION,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "last_event_id" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "notification_subscriptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "notification_deliveries" (
+    "id" SERIAL NOT NULL,
+    "subscription_id" INTEGER NOT NULL,
+    "event_ids" INTEGER[],
+    "payload" JSONB NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "response_status" INTEGER,
+    "last_error" TEXT,
+    "next_attempt_at" TIMESTAMP(3),
+    "delivered_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "notification_deliveries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "notification_subscriptions_alliance_id_idx" ON "notification_subscriptions"("alliance_id");
+
+-- CreateIndex
+CREATE INDEX "notification_deliveries_subscription_id_idx" ON "notification_deliveries"("subscription_id");
+
+-- CreateIndex
+CREATE INDEX "notification_deliveries_status_next_attempt_at_idx" ON "notification_deliveries"("status", "next_attempt_at");
+
+-- CreateIndex
+CREATE INDEX "notification_deliveries_created_at_idx" ON "notification_deliveries"("created_at");
+
+-- AddForeignKey
+ALTER TABLE "notification_subscriptions" ADD CONSTRAINT "notification_subscriptions_alliance_id_fkey" FOREIGN KEY ("alliance_id") REFERENCES "alliances"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "notification_deliveries" ADD CONSTRAINT "notification_deliveries_subscription_id_fkey" FOREIGN KEY ("subscription_id") REFERENCES "notification_subscriptions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,53 @@
+-- CreateTable
+CREATE TABLE "battle_reports" (
+    "id" SERIAL NOT NULL,
+    "key" TEXT NOT NULL,
+    "war_id" INTEGER,
+    "attacking_nation_id" INTEGER,
+    "defending_nation_id" INTEGER,
+    "attacker_name" TEXT NOT NULL,
+    "defender_name" TEXT NOT NULL,
+    "battle_type" TEXT NOT NULL,
+    "message_type" TEXT NOT NULL,
+    "attacker_won" BOOLEAN,
+    "attacker_soldiers_lost" INTEGER NOT NULL DEFAULT 0,
+    "attacker_tanks_lost" INTEGER NOT NULL DEFAULT 0,
+    "defender_soldiers_lost" INTEGER NOT NULL DEFAULT 0,
+    "defender_tanks_lost" INTEGER NOT NULL DEFAULT 0,
+    "infrastructure_destroyed" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "land_destroyed" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "technology_destroyed" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "money_looted" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "money_destroyed" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "details" JSONB,
+    "sent_at" TEXT NOT NULL,
+    "battle_at" TIMESTAMP(3) NOT NULL,
+    "submitted_by_user_id" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "battle_reports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "battle_reports_key_key" ON "battle_reports"("key");
+
+-- CreateIndex
+CREATE INDEX "battle_reports_war_id_idx" ON "battle_reports"("war_id");
+
+-- CreateIndex
+CREATE INDEX "battle_reports_attacking_nation_id_idx" ON "battle_reports"("attacking_nation_id");
+
+-- CreateIndex
+CREATE INDEX "battle_reports_defending_nation_id_idx" ON "battle_reports"("defending_nation_id");
+
+-- CreateIndex
+CREATE INDEX "battle_reports_battle_at_idx" ON "battle_reports"("battle_at");
+
+-- AddForeignKey
+ALTER TABLE "battle_reports" ADD CONSTRAINT "battle_reports_war_id_fkey" FOREIGN KEY ("war_id") REFERENCES "wars"("war_id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "battle_reports" ADD CONSTRAINT "battle_reports_attacking_nation_id_fkey" FOREIGN KEY ("attacking_nation_id") REFERENCES "nations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "battle_reports" ADD CONSTRAINT "battle_reports_defending_nation_id_fkey" FOREIGN KEY ("defending_nation_id") REFERENCES "nations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
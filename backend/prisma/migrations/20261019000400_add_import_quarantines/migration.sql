@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "import_quarantines" (
+    "id" SERIAL NOT NULL,
+    "sync_run_id" INTEGER,
+    "file_type" TEXT NOT NULL,
+    "filename" TEXT,
+    "content_hash" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "rows" INTEGER NOT NULL,
+    "previous_rows" INTEGER,
+    "issues" JSONB NOT NULL DEFAULT '[]',
+    "status" TEXT NOT NULL DEFAULT 'quarantined',
+    "resolved_by_user_id" INTEGER,
+    "resolved_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "import_quarantines_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "import_quarantines_status_idx" ON "import_quarantines"("status");
+
+-- CreateIndex
+CREATE INDEX "import_quarantines_file_type_content_hash_idx" ON "import_quarantines"("file_type", "content_hash");
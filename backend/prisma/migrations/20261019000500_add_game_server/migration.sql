@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "alliances" ADD COLUMN "game_server" TEXT NOT NULL DEFAULT 'SE';
+
+-- AlterTable
+ALTER TABLE "nations" ADD COLUMN "game_server" TEXT NOT NULL DEFAULT 'SE';
+
+-- AlterTable
+ALTER TABLE "aid_offers" ADD COLUMN "game_server" TEXT NOT NULL DEFAULT 'SE';
+
+-- AlterTable
+ALTER TABLE "wars" ADD COLUMN "game_server" TEXT NOT NULL DEFAULT 'SE';
+
+-- AlterTable
+ALTER TABLE "sync_runs" ADD COLUMN "game_server" TEXT NOT NULL DEFAULT 'SE';
+
+-- AlterTable
+ALTER TABLE "import_quarantines" ADD COLUMN "game_server" TEXT NOT NULL DEFAULT 'SE';
+
+-- CreateIndex
+CREATE INDEX "alliances_game_server_idx" ON "alliances"("game_server");
+
+-- CreateIndex
+CREATE INDEX "nations_game_server_idx" ON "nations"("game_server");
+
+-- CreateIndex
+CREATE INDEX "aid_offers_game_server_idx" ON "aid_offers"("game_server");
+
+-- CreateIndex
+CREATE INDEX "wars_game_server_idx" ON "wars"("game_server");
@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "aid_offer_transitions" (
+    "id" SERIAL NOT NULL,
+    "aid_id" INTEGER NOT NULL,
+    "game_server" TEXT NOT NULL DEFAULT 'SE',
+    "declaring_nation_id" INTEGER NOT NULL,
+    "receiving_nation_id" INTEGER NOT NULL,
+    "declaring_alliance_id" INTEGER,
+    "receiving_alliance_id" INTEGER,
+    "from_status" TEXT,
+    "to_status" TEXT NOT NULL,
+    "outcome" TEXT,
+    "aid_timestamp" TEXT NOT NULL,
+    "observed_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "aid_offer_transitions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "aid_offer_transitions_aid_id_idx" ON "aid_offer_transitions"("aid_id");
+
+-- CreateIndex
+CREATE INDEX "aid_offer_transitions_declaring_alliance_id_observed_at_idx" ON "aid_offer_transitions"("declaring_alliance_id", "observed_at");
+
+-- CreateIndex
+CREATE INDEX "aid_offer_transitions_receiving_alliance_id_observed_at_idx" ON "aid_offer_transitions"("receiving_alliance_id", "observed_at");
+
+-- CreateIndex
+CREATE INDEX "aid_offer_transitions_outcome_observed_at_idx" ON "aid_offer_transitions"("outcome", "observed_at");
+
+-- AddForeignKey
+ALTER TABLE "aid_offer_transitions" ADD CONSTRAINT "aid_offer_transitions_aid_id_fkey" FOREIGN KEY ("aid_id") REFERENCES "aid_offers"("aid_id") ON DELETE CASCADE ON UPDATE CASCADE;
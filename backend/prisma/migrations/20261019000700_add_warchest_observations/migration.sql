@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "warchest_observations" (
+    "id" SERIAL NOT NULL,
+    "nation_id" INTEGER NOT NULL,
+    "warchest" DOUBLE PRECISION NOT NULL,
+    "days_old" INTEGER NOT NULL,
+    "observed_at" TIMESTAMP(3) NOT NULL,
+    "uploaded_at" TIMESTAMP(3) NOT NULL,
+    "uploaded_by_user_id" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "warchest_observations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "warchest_observations_nation_id_observed_at_key" ON "warchest_observations"("nation_id", "observed_at");
+
+-- CreateIndex
+CREATE INDEX "warchest_observations_observed_at_idx" ON "warchest_observations"("observed_at");
+
+-- AddForeignKey
+ALTER TABLE "warchest_observations" ADD CONSTRAINT "warchest_observations_nation_id_fkey" FOREIGN KEY ("nation_id") REFERENCES "nations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,50 @@
+-- AlterTable
+ALTER TABLE "wars" ADD COLUMN "source" TEXT NOT NULL DEFAULT 'csv',
+ADD COLUMN "confirmed_at" TIMESTAMP(3),
+ADD COLUMN "scraped_at" TIMESTAMP(3);
+
+-- Wars already stored came through an export, or were overwritten by one
+UPDATE "wars" SET "confirmed_at" = "first_seen_at";
+
+-- Move scraped wars still only in the legacy table into wars as unconfirmed scrapes
+INSERT INTO "wars" (
+    "war_id", "declaring_nation_id", "receiving_nation_id", "declaring_alliance_id", "receiving_alliance_id",
+    "status", "date", "end_date", "reason", "destruction", "attack_percent", "defend_percent",
+    "first_seen_at", "last_seen_at", "is_active", "version", "updated_at", "source", "scraped_at"
+)
+SELECT
+    d."war_id", d."declaring_nation_id", d."receiving_nation_id", dn."alliance_id", rn."alliance_id",
+    d."status", d."date", d."end_date", d."reason", d."destruction", d."attack_percent", d."defend_percent",
+    d."added_at", d."added_at", false, 1, d."updated_at", 'dynamic', d."updated_at"
+FROM "dynamic_wars" d
+JOIN "nations" dn ON dn."id" = d."declaring_nation_id"
+JOIN "nations" rn ON rn."id" = d."receiving_nation_id"
+ON CONFLICT ("war_id") DO NOTHING;
+
+-- DropTable
+DROP TABLE "dynamic_wars";
+
+-- CreateTable
+CREATE TABLE "war_discrepancies" (
+    "id" SERIAL NOT NULL,
+    "war_id" INTEGER NOT NULL,
+    "game_server" TEXT NOT NULL DEFAULT 'SE',
+    "field" TEXT NOT NULL,
+    "csv_value" TEXT,
+    "dynamic_value" TEXT,
+    "resolved_value" TEXT,
+    "resolved_from" TEXT NOT NULL,
+    "detected_by" TEXT NOT NULL,
+    "detected_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "war_discrepancies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "war_discrepancies_war_id_idx" ON "war_discrepancies"("war_id");
+
+-- CreateIndex
+CREATE INDEX "war_discrepancies_game_server_detected_at_idx" ON "war_discrepancies"("game_server", "detected_at");
+
+-- AddForeignKey
+ALTER TABLE "war_discrepancies" ADD CONSTRAINT "war_discrepancies_war_id_fkey" FOREIGN KEY ("war_id") REFERENCES "wars"("war_id") ON DELETE CASCADE ON UPDATE CASCADE;
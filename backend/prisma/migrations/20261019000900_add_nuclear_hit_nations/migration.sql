@@ -0,0 +1,36 @@
+-- AlterTable
+ALTER TABLE "nuclear_hits" ADD COLUMN "attacking_nation_id" INTEGER,
+ADD COLUMN "defending_nation_id" INTEGER;
+
+-- Resolve stored reports: numeric values are nation ids, anything else a ruler or nation name
+UPDATE "nuclear_hits" h SET "attacking_nation_id" = (
+    SELECT n."id" FROM "nations" n
+    WHERE (h."attacking_nation" ~ '^[0-9]+$' AND n."id" = h."attacking_nation"::bigint)
+        OR lower(n."ruler_name") = lower(h."attacking_nation")
+        OR lower(n."nation_name") = lower(h."attacking_nation")
+    ORDER BY (h."attacking_nation" ~ '^[0-9]+$' AND n."id" = h."attacking_nation"::bigint) DESC,
+        (lower(n."ruler_name") = lower(h."attacking_nation")) DESC, n."is_active" DESC
+    LIMIT 1
+);
+
+UPDATE "nuclear_hits" h SET "defending_nation_id" = (
+    SELECT n."id" FROM "nations" n
+    WHERE (h."defending_nation" ~ '^[0-9]+$' AND n."id" = h."defending_nation"::bigint)
+        OR lower(n."ruler_name") = lower(h."defending_nation")
+        OR lower(n."nation_name") = lower(h."defending_nation")
+    ORDER BY (h."defending_nation" ~ '^[0-9]+$' AND n."id" = h."defending_nation"::bigint) DESC,
+        (lower(n."ruler_name") = lower(h."defending_nation")) DESC, n."is_active" DESC
+    LIMIT 1
+);
+
+-- CreateIndex
+CREATE INDEX "nuclear_hits_attacking_nation_id_idx" ON "nuclear_hits"("attacking_nation_id");
+
+-- CreateIndex
+CREATE INDEX "nuclear_hits_defending_nation_id_idx" ON "nuclear_hits"("defending_nation_id");
+
+-- AddForeignKey
+ALTER TABLE "nuclear_hits" ADD CONSTRAINT "nuclear_hits_attacking_nation_id_fkey" FOREIGN KEY ("attacking_nation_id") REFERENCES "nations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "nuclear_hits" ADD CONSTRAINT "nuclear_hits_defending_nation_id_fkey" FOREIGN KEY ("defending_nation_id") REFERENCES "nations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
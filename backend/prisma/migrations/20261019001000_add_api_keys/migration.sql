@@ -0,0 +1,43 @@
+-- CreateTable
+CREATE TABLE "api_keys" (
+    "id" SERIAL NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "prefix" TEXT NOT NULL,
+    "key_hash" TEXT NOT NULL,
+    "scopes" TEXT[],
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "last_used_at" TIMESTAMP(3),
+    "revoked_at" TIMESTAMP(3),
+
+    CONSTRAINT "api_keys_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "api_keys_key_hash_key" ON "api_keys"("key_hash");
+
+-- CreateIndex
+CREATE INDEX "api_keys_user_id_idx" ON "api_keys"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "api_keys" ADD CONSTRAINT "api_keys_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Capabilities for the ingest and sync endpoints, which used to be open to anyone
+INSERT INTO "capabilities" ("name", "description") VALUES
+    ('ingest_nuclear', 'Submit nuclear attack reports'),
+    ('ingest_wars', 'Submit scraped wars'),
+    ('ingest_warchest', 'Submit spy operation warchest reports'),
+    ('sync_data', 'Download, parse and import the game''s data files')
+ON CONFLICT ("name") DO NOTHING;
+
+-- Every role keeps submitting reports; only admins run data syncs by hand
+INSERT INTO "role_capabilities" ("role", "capability_id")
+SELECT r."role"::"UserRole", c."id"
+FROM (VALUES ('ADMIN'), ('ALLIANCE_MANAGER'), ('WAR_MANAGER'), ('USER')) AS r("role")
+CROSS JOIN "capabilities" c
+WHERE c."name" IN ('ingest_nuclear', 'ingest_wars', 'ingest_warchest')
+ON CONFLICT DO NOTHING;
+
+INSERT INTO "role_capabilities" ("role", "capability_id")
+SELECT 'ADMIN'::"UserRole", c."id" FROM "capabilities" c WHERE c."name" = 'sync_data'
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "audit_logs" (
+    "id" SERIAL NOT NULL,
+    "actor_user_id" INTEGER,
+    "action" TEXT NOT NULL,
+    "target_type" TEXT NOT NULL,
+    "target_id" TEXT,
+    "alliance_ids" INTEGER[],
+    "before" JSONB,
+    "after" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "audit_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "audit_logs_created_at_idx" ON "audit_logs"("created_at");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_actor_user_id_idx" ON "audit_logs"("actor_user_id");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_action_idx" ON "audit_logs"("action");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_alliance_ids_idx" ON "audit_logs" USING GIN ("alliance_ids");
+
+-- AddForeignKey
+ALTER TABLE "audit_logs" ADD CONSTRAINT "audit_logs_actor_user_id_fkey" FOREIGN KEY ("actor_user_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Admins can read the audit log
+INSERT INTO "capabilities" ("name", "description") VALUES
+    ('view_audit_log', 'View the log of manager and admin changes')
+ON CONFLICT ("name") DO NOTHING;
+
+INSERT INTO "role_capabilities" ("role", "capability_id")
+SELECT 'ADMIN'::"UserRole", c."id" FROM "capabilities" c WHERE c."name" = 'view_audit_log'
+ON CONFLICT DO NOTHING;
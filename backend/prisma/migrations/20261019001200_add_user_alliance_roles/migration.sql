@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "user_alliance_roles" (
+    "user_id" INTEGER NOT NULL,
+    "alliance_id" INTEGER NOT NULL,
+    "role" "UserRole" NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "user_alliance_roles_pkey" PRIMARY KEY ("user_id","alliance_id","role")
+);
+
+-- CreateIndex
+CREATE INDEX "user_alliance_roles_user_id_idx" ON "user_alliance_roles"("user_id");
+
+-- CreateIndex
+CREATE INDEX "user_alliance_roles_alliance_id_idx" ON "user_alliance_roles"("alliance_id");
+
+-- AddForeignKey
+ALTER TABLE "user_alliance_roles" ADD CONSTRAINT "user_alliance_roles_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "user_alliance_roles" ADD CONSTRAINT "user_alliance_roles_alliance_id_fkey" FOREIGN KEY ("alliance_id") REFERENCES "alliances"("id") ON DELETE CASCADE ON UPDATE CASCADE;
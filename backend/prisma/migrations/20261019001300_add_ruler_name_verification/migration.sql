@@ -0,0 +1,5 @@
+-- Ruler names are claims until the user proves they own the nation; existing claims start unverified
+ALTER TABLE "users" ADD COLUMN "ruler_name_verification_code" TEXT;
+ALTER TABLE "users" ADD COLUMN "ruler_name_code_issued_at" TIMESTAMP(3);
+ALTER TABLE "users" ADD COLUMN "ruler_name_verified_at" TIMESTAMP(3);
+ALTER TABLE "users" ADD COLUMN "ruler_name_verified_by" TEXT;
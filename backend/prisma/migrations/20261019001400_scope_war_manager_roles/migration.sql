@@ -0,0 +1,17 @@
+-- Global war managers could assign attackers from any alliance. Keep them as war managers of the
+-- alliances they manage and of their own nation's alliance; admins can grant a global role again.
+INSERT INTO "user_alliance_roles" ("user_id", "alliance_id", "role")
+SELECT ura."user_id", uam."alliance_id", 'WAR_MANAGER'::"UserRole"
+FROM "user_role_assignments" ura
+JOIN "user_alliance_managers" uam ON uam."user_id" = ura."user_id"
+WHERE ura."role" = 'WAR_MANAGER'
+UNION
+SELECT ura."user_id", n."alliance_id", 'WAR_MANAGER'::"UserRole"
+FROM "user_role_assignments" ura
+JOIN "users" u ON u."id" = ura."user_id"
+JOIN "nations" n ON LOWER(n."ruler_name") = LOWER(u."ruler_name") AND n."is_active" = true
+JOIN "alliances" a ON a."id" = n."alliance_id"
+WHERE ura."role" = 'WAR_MANAGER'
+ON CONFLICT DO NOTHING;
+
+DELETE FROM "user_role_assignments" WHERE "role" = 'WAR_MANAGER';
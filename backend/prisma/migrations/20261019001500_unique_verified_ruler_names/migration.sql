@@ -0,0 +1,5 @@
+-- Unverified ruler names are only claims, so several accounts may hold one until an account verifies
+-- it, which clears the others. Verified names stay unique.
+DROP INDEX "users_ruler_name_key";
+
+CREATE UNIQUE INDEX "users_verified_ruler_name_key" ON "users"(LOWER("ruler_name")) WHERE "ruler_name_verified_at" IS NOT NULL;
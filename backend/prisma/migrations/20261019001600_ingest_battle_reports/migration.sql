@@ -0,0 +1,2 @@
+-- Battle report ingest, which used to be open to anyone, now needs ingest_wars
+UPDATE "capabilities" SET "description" = 'Submit scraped wars and battle reports' WHERE "name" = 'ingest_wars';
@@ -0,0 +1,8 @@
+-- Every Discord login gets USER, so ingest capabilities on USER let any account submit reports
+-- and mint keys for them. Admins, alliance managers and war managers (globally or in an alliance)
+-- keep them; admins can grant them to other roles on the role capabilities page.
+DELETE FROM "role_capabilities" rc
+USING "capabilities" c
+WHERE rc."capability_id" = c."id"
+  AND rc."role" = 'USER'
+  AND c."name" IN ('ingest_nuclear', 'ingest_wars', 'ingest_warchest');
@@ -0,0 +1,53 @@
+import 'dotenv/config';
+import { prisma } from '../src/utils/prisma.js';
+import { replayArchives } from '../src/services/archiveBackfillService.js';
+
+/**
+ * Replay a directory of archived CyberNations_SE_*_*.zip downloads in chronological order.
+ * Usage: npm run backfill:archives -- <directory> [--from YYYY-MM-DD] [--to YYYY-MM-DD] [--dry-run] [--allow-overlap]
+ * Pause the sync cron while this runs; a live sync in the middle would interleave current data.
+ */
+function parseArgs(argv: string[]) {
+  const args = { directory: '', from: undefined as Date | undefined, to: undefined as Date | undefined, dryRun: false, allowOverlap: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--from' || arg === '--to') {
+      const value = argv[++i];
+      const date = new Date(`${value}T00:00:00-06:00`);
+      if (!value || isNaN(date.getTime())) {
+        throw new Error(`${arg} expects a date as YYYY-MM-DD`);
+      }
+      args[arg === '--from' ? 'from' : 'to'] = arg === '--to' ? new Date(date.getTime() + 24 * 60 * 60 * 1000 - 1) : date;
+    } else if (arg === '--dry-run') {
+      args.dryRun = true;
+    } else if (arg === '--allow-overlap') {
+      args.allowOverlap = true;
+    } else if (!args.directory) {
+      args.directory = arg;
+    } else {
+      throw new Error(`Unexpected argument: ${arg}`);
+    }
+  }
+  if (!args.directory) {
+    throw new Error('Usage: backfill-archives <directory> [--from YYYY-MM-DD] [--to YYYY-MM-DD] [--dry-run] [--allow-overlap]');
+  }
+  return args;
+}
+
+async function main() {
+  try {
+    const { directory, ...options } = parseArgs(process.argv.slice(2));
+    const summary = await replayArchives(directory, options);
+    console.log(
+      `Backfill finished: ${summary.slots} slots, ${summary.filesImported} files imported, ` +
+      `${summary.filesFailed} failed, ${summary.eventsCreated} events created`
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main().catch((error) => {
+  console.error('Backfill failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,74 @@
+import 'dotenv/config';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { prisma, pool } from '../src/utils/prisma.js';
+import { importCsvFile } from '../src/services/csvImportService.js';
+import { runAtImportTime } from '../src/utils/importClock.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const DATA_DIR = path.join(__dirname, '..', 'src', 'data');
+
+const FILES = [
+  { fileType: 'Nation_Stats', fileName: 'nations.csv' },
+  { fileType: 'Aid_Stats', fileName: 'aid_offers.csv' },
+  { fileType: 'War_Stats', fileName: 'wars.csv' },
+];
+
+/**
+ * Time the CSV importers against the sample files in src/data.
+ * Usage: npm run benchmark:import -- [--force]
+ * The first pass loads an empty database (every row is new), the second re-imports the same
+ * files an hour later (every row already exists). It writes to DATABASE_URL, so point that at a
+ * scratch database; without --force it refuses to run if nations are already loaded.
+ */
+async function main() {
+  const force = process.argv.includes('--force');
+  try {
+    // Count statements sent to the database, since round trips dominate on a remote database
+    let statements = 0;
+    pool.on('connect', (client) => {
+      const query = client.query.bind(client) as (...args: unknown[]) => unknown;
+      (client as { query: unknown }).query = (...args: unknown[]) => {
+        statements++;
+        return query(...args);
+      };
+    });
+
+    const existing = await prisma.nation.count();
+    if (existing > 0 && !force) {
+      throw new Error(`Database already has ${existing} nations; use a scratch database or pass --force`);
+    }
+
+    const start = new Date();
+    const passes = [
+      { label: 'initial load', at: start },
+      { label: 're-import', at: new Date(start.getTime() + 60 * 60 * 1000) },
+    ];
+
+    for (const pass of passes) {
+      for (const file of FILES) {
+        const before = statements;
+        const startedAt = Date.now();
+        const result = await runAtImportTime(pass.at, () =>
+          importCsvFile(file.fileType, path.join(DATA_DIR, file.fileName))
+        );
+        const ms = Date.now() - startedAt;
+        console.log(
+          `[Benchmark] ${pass.label.padEnd(12)} ${file.fileType.padEnd(12)} ${String(ms).padStart(7)} ms  ` +
+          `${String(statements - before).padStart(6)} statements  ` +
+          `(${result.imported} imported, ${result.updated} updated)`
+        );
+      }
+    }
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main()
+  // Exit explicitly: the war stats cache keeps an interval running
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Benchmark failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
@@ -3,6 +3,8 @@ import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { prisma } from '../src/utils/prisma.js';
+import { DynamicWarService } from '../src/services/dynamicWarService.js';
+import { resolveNuclearNation } from '../src/services/nuclearHitsService.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -180,49 +182,22 @@ async function importDynamicWars() {
     console.log(`Found ${data.length} dynamic wars`);
 
     for (const war of data) {
-      // Ensure nations exist
-      const declaringNation = await prisma.nation.findUnique({
-        where: { id: war.declaringId },
-      });
-      const receivingNation = await prisma.nation.findUnique({
-        where: { id: war.receivingId },
-      });
-
-      if (!declaringNation || !receivingNation) {
-        console.warn(`Skipping dynamic war ${war.warId}: nations not found`);
-        continue;
-      }
-
-      await prisma.dynamicWar.upsert({
-        where: { warId: war.warId },
-        update: {
-          declaringNationId: war.declaringId,
-          receivingNationId: war.receivingId,
-          status: war.status,
-          date: war.date,
-          endDate: war.endDate,
-          reason: war.reason || null,
-          destruction: war.destruction || null,
-          attackPercent: war.attackPercent || null,
-          defendPercent: war.defendPercent || null,
-          addedAt: new Date(war.addedAt),
-          source: war.source,
-        },
-        create: {
+      try {
+        await DynamicWarService.addDynamicWar({
           warId: war.warId,
-          declaringNationId: war.declaringId,
-          receivingNationId: war.receivingId,
+          declaringId: war.declaringId,
+          receivingId: war.receivingId,
           status: war.status,
           date: war.date,
           endDate: war.endDate,
-          reason: war.reason || null,
-          destruction: war.destruction || null,
-          attackPercent: war.attackPercent || null,
-          defendPercent: war.defendPercent || null,
-          addedAt: new Date(war.addedAt),
-          source: war.source,
-        },
-      });
+          reason: war.reason || undefined,
+          destruction: war.destruction || undefined,
+          attackPercent: war.attackPercent || undefined,
+          defendPercent: war.defendPercent || undefined,
+        });
+      } catch (error) {
+        console.warn(`Skipping dynamic war ${war.warId}:`, error instanceof Error ? error.message : error);
+      }
     }
 
     console.log(`Successfully imported ${data.length} dynamic wars`);
@@ -247,11 +222,15 @@ async function importNuclearHits() {
     console.log(`Found ${entries.length} nuclear hits`);
 
     for (const [key, record] of entries) {
+      const attackingNationId = await resolveNuclearNation(record.attackingNation);
+      const defendingNationId = await resolveNuclearNation(record.defendingNation);
       await prisma.nuclearHit.upsert({
         where: { key },
         update: {
           attackingNation: record.attackingNation,
           defendingNation: record.defendingNation,
+          attackingNationId,
+          defendingNationId,
           result: record.result || null,
           sentAt: record.sentAt,
         },
@@ -259,6 +238,8 @@ async function importNuclearHits() {
           key,
           attackingNation: record.attackingNation,
           defendingNation: record.defendingNation,
+          attackingNationId,
+          defendingNationId,
           result: record.result || null,
           sentAt: record.sentAt,
         },
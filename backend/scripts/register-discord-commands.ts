@@ -0,0 +1,41 @@
+import 'dotenv/config';
+import { DISCORD_COMMANDS } from '../src/services/discordBotService.js';
+
+/**
+ * Register the bot's slash commands with Discord (global commands, overwrites existing ones).
+ * Requires DISCORD_CLIENT_ID (application ID) and DISCORD_BOT_TOKEN.
+ * Pass a guild ID as the first argument to register for one server only (updates instantly).
+ */
+async function main() {
+  const applicationId = process.env.DISCORD_CLIENT_ID;
+  const botToken = process.env.DISCORD_BOT_TOKEN;
+  if (!applicationId || !botToken) {
+    throw new Error('DISCORD_CLIENT_ID and DISCORD_BOT_TOKEN must be set in environment variables');
+  }
+
+  const guildId = process.argv[2];
+  const url = guildId
+    ? `https://discord.com/api/v10/applications/${applicationId}/guilds/${guildId}/commands`
+    : `https://discord.com/api/v10/applications/${applicationId}/commands`;
+
+  const response = await fetch(url, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bot ${botToken}`,
+    },
+    body: JSON.stringify(DISCORD_COMMANDS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Discord responded with ${response.status}: ${await response.text()}`);
+  }
+
+  console.log(`Registered ${DISCORD_COMMANDS.length} commands${guildId ? ` for guild ${guildId}` : ''}`);
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error('Failed to register Discord commands:', error);
+  process.exit(1);
+});
@@ -1,5 +1,12 @@
 import { Request, Response } from 'express';
 import { AdminService } from '../services/adminService.js';
+import { getSyncRun, listSyncRuns } from '../services/syncRunService.js';
+import { discardQuarantinedFile, importQuarantinedFile, listQuarantinedImports } from '../services/importSafeguardService.js';
+import { WAR_DISCREPANCY_FIELDS } from '../services/warReconciliation.js';
+import { AUDIT_ACTIONS, listAuditActors, listAuditLogs, recordAudit } from '../services/auditLogService.js';
+import { prisma } from '../utils/prisma.js';
+
+const warAuditSelect = { declaringAllianceId: true, receivingAllianceId: true, excludedFromStats: true } as const;
 
 export class AdminController {
   /**
@@ -59,8 +66,22 @@ export class AdminController {
         });
       }
 
+      const before = await prisma.nation.findUnique({
+        where: { id: nationId },
+        select: { targetingAllianceId: true }
+      });
+
       const result = await AdminService.setNationTargetingAlliance(nationId, allianceId);
 
+      await recordAudit(req.session.userId, {
+        action: AUDIT_ACTIONS.NATION_TARGETING_ALLIANCE,
+        targetType: 'nation',
+        targetId: nationId,
+        allianceIds: [result.allianceId, before?.targetingAllianceId, result.targetingAllianceId],
+        before,
+        after: { targetingAllianceId: result.targetingAllianceId }
+      });
+
       res.json({
         success: true,
         nation: result
@@ -171,6 +192,8 @@ export class AdminController {
         });
       }
 
+      const before = await prisma.war.findUnique({ where: { warId }, select: warAuditSelect });
+
       const result = await AdminService.updateWarAllianceIds(
         warId,
         parsedDeclaringAllianceId,
@@ -178,6 +201,24 @@ export class AdminController {
         parsedExcludedFromStats
       );
 
+      await recordAudit(req.session.userId, {
+        action: AUDIT_ACTIONS.WAR_ALLIANCE_IDS,
+        targetType: 'war',
+        targetId: warId,
+        allianceIds: [
+          before?.declaringAllianceId,
+          before?.receivingAllianceId,
+          result.declaringAllianceId,
+          result.receivingAllianceId
+        ],
+        before,
+        after: {
+          declaringAllianceId: result.declaringAllianceId,
+          receivingAllianceId: result.receivingAllianceId,
+          excludedFromStats: result.excludedFromStats
+        }
+      });
+
       res.json({
         success: true,
         war: result
@@ -213,11 +254,22 @@ export class AdminController {
         });
       }
 
+      const before = await prisma.war.findUnique({ where: { warId }, select: warAuditSelect });
+
       const result = await AdminService.setWarExcludedFromStats(
         warId,
         excludedFromStats
       );
 
+      await recordAudit(req.session.userId, {
+        action: AUDIT_ACTIONS.WAR_EXCLUDED_FROM_STATS,
+        targetType: 'war',
+        targetId: warId,
+        allianceIds: [result.declaringAllianceId, result.receivingAllianceId],
+        before: before && { excludedFromStats: before.excludedFromStats },
+        after: { excludedFromStats: result.excludedFromStats }
+      });
+
       res.json({
         success: true,
         war: result
@@ -230,5 +282,255 @@ export class AdminController {
       });
     }
   }
-}
 
+  /**
+   * List recent sync runs (without diffs)
+   */
+  static async listSyncRuns(req: Request, res: Response) {
+    try {
+      const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 50;
+      if (isNaN(limit) || limit < 1 || limit > 500) {
+        return res.status(400).json({
+          success: false,
+          error: 'limit must be between 1 and 500'
+        });
+      }
+
+      const runs = await listSyncRuns(limit);
+
+      res.json({
+        success: true,
+        runs
+      });
+    } catch (error) {
+      console.error('Error in listSyncRuns:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to list sync runs'
+      });
+    }
+  }
+
+  /**
+   * Get a single sync run with its diff
+   */
+  static async getSyncRun(req: Request, res: Response) {
+    try {
+      const runId = parseInt(req.params.runId);
+      if (isNaN(runId)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid sync run ID'
+        });
+      }
+
+      const run = await getSyncRun(runId);
+      if (!run) {
+        return res.status(404).json({
+          success: false,
+          error: 'Sync run not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        run
+      });
+    } catch (error) {
+      console.error('Error in getSyncRun:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get sync run'
+      });
+    }
+  }
+
+  /**
+   * List data files rejected by import validation
+   */
+  static async listImportQuarantine(req: Request, res: Response) {
+    try {
+      const status = req.query.status as string | undefined;
+      const quarantine = await listQuarantinedImports(status || undefined);
+
+      res.json({
+        success: true,
+        quarantine
+      });
+    } catch (error) {
+      console.error('Error in listImportQuarantine:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to list quarantined imports'
+      });
+    }
+  }
+
+  /**
+   * Import a quarantined data file, overriding the validation that rejected it
+   */
+  static async importQuarantinedFile(req: Request, res: Response) {
+    try {
+      const quarantineId = parseInt(req.params.quarantineId);
+      if (isNaN(quarantineId)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid quarantine ID'
+        });
+      }
+
+      const result = await importQuarantinedFile(quarantineId, req.session.userId!);
+
+      await recordAudit(req.session.userId, {
+        action: AUDIT_ACTIONS.IMPORT_QUARANTINE_IMPORT,
+        targetType: 'import_quarantine',
+        targetId: quarantineId,
+        before: { status: 'quarantined' },
+        after: { status: 'imported', fileType: result.fileType, imported: result.imported, updated: result.updated }
+      });
+
+      res.json({
+        success: true,
+        result
+      });
+    } catch (error) {
+      console.error('Error in importQuarantinedFile:', error);
+      res.status(400).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to import quarantined file'
+      });
+    }
+  }
+
+  /**
+   * Discard a quarantined data file without importing it
+   */
+  static async discardQuarantinedFile(req: Request, res: Response) {
+    try {
+      const quarantineId = parseInt(req.params.quarantineId);
+      if (isNaN(quarantineId)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid quarantine ID'
+        });
+      }
+
+      await discardQuarantinedFile(quarantineId, req.session.userId!);
+
+      await recordAudit(req.session.userId, {
+        action: AUDIT_ACTIONS.IMPORT_QUARANTINE_DISCARD,
+        targetType: 'import_quarantine',
+        targetId: quarantineId,
+        before: { status: 'quarantined' },
+        after: { status: 'discarded' }
+      });
+
+      res.json({
+        success: true
+      });
+    } catch (error) {
+      console.error('Error in discardQuarantinedFile:', error);
+      res.status(400).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to discard quarantined file'
+      });
+    }
+  }
+
+  /**
+   * Disagreements between the war file and scraped wars, and scraped wars awaiting confirmation
+   * GET /api/admin/war-reconciliation?days=7&field=status
+   */
+  static async getWarReconciliation(req: Request, res: Response) {
+    try {
+      const days = req.query.days ? parseInt(req.query.days as string, 10) : 7;
+      if (isNaN(days) || days < 1 || days > 90) {
+        return res.status(400).json({
+          success: false,
+          error: 'days must be between 1 and 90'
+        });
+      }
+
+      const field = req.query.field as string | undefined;
+      const fields: string[] = Object.values(WAR_DISCREPANCY_FIELDS);
+      if (field && !fields.includes(field)) {
+        return res.status(400).json({
+          success: false,
+          error: `field must be one of: ${fields.join(', ')}`
+        });
+      }
+
+      const report = await AdminService.getWarReconciliation(days, field || undefined);
+
+      res.json({
+        success: true,
+        ...report
+      });
+    } catch (error) {
+      console.error('Error in getWarReconciliation:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get war reconciliation'
+      });
+    }
+  }
+
+  /**
+   * Manager and admin changes, newest first
+   * GET /api/admin/audit-log?userId=&allianceId=&action=&beforeId=&limit=
+   */
+  static async getAuditLog(req: Request, res: Response) {
+    try {
+      const parseOptionalId = (value: unknown): number | undefined | null => {
+        if (value === undefined || value === '') return undefined;
+        const id = parseInt(String(value), 10);
+        return isNaN(id) ? null : id;
+      };
+
+      const actorUserId = parseOptionalId(req.query.userId);
+      const allianceId = parseOptionalId(req.query.allianceId);
+      const beforeId = parseOptionalId(req.query.beforeId);
+      if (actorUserId === null || allianceId === null || beforeId === null) {
+        return res.status(400).json({
+          success: false,
+          error: 'userId, allianceId and beforeId must be numbers'
+        });
+      }
+
+      const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 100;
+      if (isNaN(limit) || limit < 1 || limit > 500) {
+        return res.status(400).json({
+          success: false,
+          error: 'limit must be between 1 and 500'
+        });
+      }
+
+      const action = req.query.action as string | undefined;
+      const actions: string[] = Object.values(AUDIT_ACTIONS);
+      if (action && !actions.includes(action)) {
+        return res.status(400).json({
+          success: false,
+          error: `action must be one of: ${actions.join(', ')}`
+        });
+      }
+
+      const [entries, actors] = await Promise.all([
+        listAuditLogs({ actorUserId, allianceId, action: action || undefined, beforeId, limit }),
+        listAuditActors()
+      ]);
+
+      res.json({
+        success: true,
+        entries,
+        actors,
+        actions
+      });
+    } catch (error) {
+      console.error('Error in getAuditLog:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get audit log'
+      });
+    }
+  }
+}
@@ -1,7 +1,12 @@
 import { Request, Response } from 'express';
-import { AidService } from '../services/aidService.js';
+import { AidService, AidRecommendationMode } from '../services/aidService.js';
 import { calculateAidDateInfo } from '../utils/dateUtils.js';
 
+const AID_CALENDAR_DEFAULT_DAYS = 14;
+const AID_CALENDAR_MAX_DAYS = 30;
+const EARLY_AID_CANCELLATIONS_DEFAULT_DAYS = 30;
+const EARLY_AID_CANCELLATIONS_MAX_DAYS = 365;
+
 export class AidController {
   /**
    * Get aid slots for a specific alliance
@@ -158,11 +163,13 @@ export class AidController {
 
   /**
    * Get aid recommendations for an alliance
+   * GET /api/alliances/:allianceId/recommendations?crossAlliance=true&mode=optimal
    */
   static async getAidRecommendations(req: Request, res: Response) {
     try {
       const allianceId = parseInt(req.params.allianceId);
       const crossAllianceEnabled = req.query.crossAlliance === 'true';
+      const mode = (req.query.mode ?? 'greedy') as AidRecommendationMode;
       
       if (isNaN(allianceId)) {
         return res.status(400).json({
@@ -171,14 +178,22 @@ export class AidController {
         });
       }
 
-      const result = await AidService.getAidRecommendations(allianceId, crossAllianceEnabled);
+      if (mode !== 'greedy' && mode !== 'optimal') {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid mode. Must be "greedy" or "optimal"'
+        });
+      }
+
+      const result = await AidService.getAidRecommendations(allianceId, crossAllianceEnabled, mode);
 
       const recommendationCount = result.recommendations?.length || 0;
-      console.log(`[API] getAidRecommendations (allianceId: ${allianceId}, crossAlliance: ${crossAllianceEnabled}): Returning ${recommendationCount} recommendations`);
+      console.log(`[API] getAidRecommendations (allianceId: ${allianceId}, crossAlliance: ${crossAllianceEnabled}, mode: ${mode}): Returning ${recommendationCount} recommendations`);
 
       res.json({
         success: true,
         allianceId,
+        mode,
         ...result
       });
     } catch (error) {
@@ -190,6 +205,85 @@ export class AidController {
     }
   }
 
+  /**
+   * Get the aid slot calendar (freed slots and schedulable pairings per day)
+   * GET /api/alliances/:allianceId/aid-calendar?days=14
+   */
+  static async getAidCalendar(req: Request, res: Response) {
+    try {
+      const allianceId = parseInt(req.params.allianceId);
+      const days = req.query.days !== undefined ? parseInt(req.query.days as string) : AID_CALENDAR_DEFAULT_DAYS;
+
+      if (isNaN(allianceId)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid alliance ID'
+        });
+      }
+
+      if (isNaN(days) || days < 1 || days > AID_CALENDAR_MAX_DAYS) {
+        return res.status(400).json({
+          success: false,
+          error: `Invalid days. Must be between 1 and ${AID_CALENDAR_MAX_DAYS}`
+        });
+      }
+
+      const calendar = await AidService.getAidCalendar(allianceId, days);
+
+      res.json({
+        success: true,
+        allianceId,
+        ...calendar
+      });
+    } catch (error) {
+      console.error('Error fetching aid calendar:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Get the per-nation report of aid offers cancelled or reneged on before expiring
+   * GET /api/alliances/:allianceId/early-aid-cancellations?days=30
+   */
+  static async getEarlyAidCancellations(req: Request, res: Response) {
+    try {
+      const allianceId = parseInt(req.params.allianceId);
+      const days = req.query.days !== undefined ? parseInt(req.query.days as string) : EARLY_AID_CANCELLATIONS_DEFAULT_DAYS;
+
+      if (isNaN(allianceId)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid alliance ID'
+        });
+      }
+
+      if (isNaN(days) || days < 1 || days > EARLY_AID_CANCELLATIONS_MAX_DAYS) {
+        return res.status(400).json({
+          success: false,
+          error: `Invalid days. Must be between 1 and ${EARLY_AID_CANCELLATIONS_MAX_DAYS}`
+        });
+      }
+
+      const report = await AidService.getEarlyAidCancellations(allianceId, days);
+
+      res.json({
+        success: true,
+        allianceId,
+        days,
+        ...report
+      });
+    } catch (error) {
+      console.error('Error fetching early aid cancellations:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
   /**
    * Get categorized nations with slots for a specific alliance
    */
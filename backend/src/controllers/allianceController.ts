@@ -2,6 +2,7 @@ import { Request, Response } from 'express';
 import { loadDataFromFilesWithUpdate, groupNationsByAlliance } from '../services/dataProcessingService.js';
 import { AllianceService } from '../services/allianceService.js';
 import { syncAllianceFiles } from '../utils/dataDownloader.js';
+import { currentGameServer, type GameServer } from '../utils/gameServer.js';
 
 // Cache for alliances list
 interface AlliancesCache {
@@ -9,7 +10,8 @@ interface AlliancesCache {
   timestamp: number;
 }
 
-let alliancesCache: AlliancesCache | null = null;
+// Keyed by game server
+const alliancesCache = new Map<GameServer, AlliancesCache>();
 const ALLIANCES_CACHE_TTL_MS = 300000; // 5 minutes cache TTL
 
 export class AllianceController {
@@ -50,11 +52,13 @@ export class AllianceController {
     try {
       // Check cache first
       const now = Date.now();
-      if (alliancesCache && (now - alliancesCache.timestamp) < ALLIANCES_CACHE_TTL_MS) {
+      const server = currentGameServer();
+      const cached = alliancesCache.get(server);
+      if (cached && (now - cached.timestamp) < ALLIANCES_CACHE_TTL_MS) {
         console.log('Returning cached alliances list');
         return res.json({
           success: true,
-          alliances: alliancesCache.data
+          alliances: cached.data
         });
       }
       
@@ -67,7 +71,8 @@ export class AllianceController {
       const alliances = await prisma.alliance.findMany({
         where: {
           id: { gt: 0 },
-          name: { not: '' }
+          name: { not: '' },
+          gameServer: server
         },
         select: {
           id: true,
@@ -99,10 +104,10 @@ export class AllianceController {
         .sort((a, b) => b.nationCount - a.nationCount);
       
       // Update cache
-      alliancesCache = {
+      alliancesCache.set(server, {
         data: filteredAlliances,
         timestamp: now
-      };
+      });
       
       console.log(`Loaded ${filteredAlliances.length} alliances from database (with nation counts)`);
       
@@ -130,7 +135,8 @@ export class AllianceController {
       const alliances = await prisma.alliance.findMany({
         where: {
           id: { gt: 0 },
-          name: { not: '' }
+          name: { not: '' },
+          gameServer: currentGameServer()
         },
         select: {
           id: true,
@@ -0,0 +1,101 @@
+import { Request, Response } from 'express';
+import {
+  BattleMessage,
+  getBattleNationStats,
+  getBattleWarStats,
+  ingestBattleMessages,
+  parseBattleMessages,
+} from '../services/battleReportService.js';
+
+const isBattleMessage = (value: any): value is BattleMessage =>
+  value &&
+  typeof value.to === 'string' &&
+  typeof value.from === 'string' &&
+  typeof value.type === 'string' &&
+  typeof value.date === 'string' &&
+  typeof value.content === 'string';
+
+export class BattleReportController {
+  /**
+   * Ingest battle reports from pasted inbox text or a JSON array of messages
+   * POST /api/battles/ingest
+   * Body: { text: string } or { messages: [{ to, from, type, date, content }] }
+   */
+  static ingest = async (req: Request, res: Response) => {
+    try {
+      const { text, messages } = req.body ?? {};
+      let battleMessages: BattleMessage[];
+
+      if (typeof text === 'string' && text.trim()) {
+        battleMessages = parseBattleMessages(text);
+      } else if (Array.isArray(messages) && messages.every(isBattleMessage)) {
+        battleMessages = messages;
+      } else {
+        return res.status(400).json({
+          success: false,
+          error: 'Expected "text" with pasted battle messages or a "messages" array of { to, from, type, date, content }',
+        });
+      }
+
+      if (battleMessages.length === 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'No battle messages found. Paste messages starting with a "TO: ... | FROM: ..." line.',
+        });
+      }
+
+      const result = await ingestBattleMessages(battleMessages, req.session?.userId);
+
+      return res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error ingesting battle reports:', error);
+      return res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  };
+
+  /**
+   * Per-nation battle totals
+   * GET /api/battles/nation-stats
+   */
+  static nationStats = async (_req: Request, res: Response) => {
+    try {
+      const data = await getBattleNationStats();
+      return res.json({
+        success: true,
+        data,
+      });
+    } catch (error) {
+      console.error('Error fetching battle nation stats:', error);
+      return res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  };
+
+  /**
+   * Per-war battle totals
+   * GET /api/battles/war-stats
+   */
+  static warStats = async (_req: Request, res: Response) => {
+    try {
+      const data = await getBattleWarStats();
+      return res.json({
+        success: true,
+        data,
+      });
+    } catch (error) {
+      console.error('Error fetching battle war stats:', error);
+      return res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  };
+}
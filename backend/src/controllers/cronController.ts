@@ -1,6 +1,8 @@
 import { Request, Response } from 'express';
 import { CsvController } from './csvController.js';
 import { ensureRecentFiles } from '../utils/dataDownloader.js';
+import { beginSyncRun, finishSyncRun } from '../services/syncRunService.js';
+import { enabledGameServers, runOnGameServer } from '../utils/gameServer.js';
 
 export class CronController {
   /**
@@ -61,11 +63,17 @@ export class CronController {
       // 2. Downloads new files if needed
       // 3. Imports CSV data into database
       // 4. Syncs alliance files
+      // once for each server in GAME_SERVERS
       try {
-        const downloadResults = await ensureRecentFiles(force);
+        const downloadResults = [];
+        for (const server of enabledGameServers()) {
+          const serverResults = await runOnGameServer(server, () => ensureRecentFiles(force, 'cron-sync-all'));
+          downloadResults.push(...serverResults.map(result => ({ ...result, server })));
+        }
         
         // Format results for response
         const results = downloadResults.map(result => ({
+          server: result.server,
           fileType: result.fileType,
           success: result.success,
           filename: result.filename,
@@ -198,6 +206,7 @@ export class CronController {
       console.log('[Cron] Starting detailed sync-all job at', new Date().toISOString());
 
       const results: Record<string, any> = {};
+      const syncRun = await beginSyncRun('cron-sync-all-detailed', force);
 
       // Create mock request/response objects for CsvController.syncCsv
       // We'll call the sync logic directly instead
@@ -243,6 +252,18 @@ export class CronController {
       const allSuccess = Object.values(results).every((r: any) => r.success);
       const statusCode = allSuccess ? 200 : 500;
 
+      await finishSyncRun(syncRun, Object.entries(results).map(([type, r]: [string, any]) => ({
+        fileType: r.fileType ?? type,
+        filename: r.filename ?? r.lastDownloaded ?? null,
+        success: !!r.success,
+        skipped: r.isFresh === true,
+        rows: r.rows ?? null,
+        imported: r.imported ?? 0,
+        updated: r.updated ?? 0,
+        error: r.error ?? null,
+        quarantineId: r.quarantineId ?? null,
+      })));
+
       // If all syncs succeeded and at least one actually updated data (isFresh === false),
       // run the post-processing SQL script, mirroring the behavior of sync-all.
       if (allSuccess) {
@@ -1,11 +1,7 @@
 import { Request, Response } from 'express';
 import * as fs from 'fs';
 import * as path from 'path';
-import { 
-  importNationsFromCsv, 
-  importAidOffersFromCsv, 
-  importWarsFromCsv 
-} from '../services/csvImportService.js';
+import { importCsvFileSafely } from '../services/csvImportService.js';
 import { 
   getFileDownload,
   upsertFileDownload
@@ -16,6 +12,7 @@ import {
   downloadFileWithFallback,
   extractCsvToStandardFile 
 } from '../utils/dataDownloader.js';
+import { gameServerDataPath } from '../utils/gameServer.js';
 
 const FILE_TYPE_MAP: Record<string, { type: FileType; outputFile: string }> = {
   nations: {
@@ -37,10 +34,10 @@ function getDataPath(): string {
   
   if (isVercel) {
     // Vercel serverless functions can only write to /tmp
-    return '/tmp/cybernations_data';
+    return gameServerDataPath('/tmp/cybernations_data');
   } else {
     // Local development: use project directory
-    return path.join(process.cwd(), 'src', 'data');
+    return gameServerDataPath(path.join(process.cwd(), 'src', 'data'));
   }
 }
 
@@ -70,13 +67,11 @@ export class CsvController {
       const tempZipPath = path.join(dataPath, `temp_${config.type}_${Date.now()}.zip`);
       const outputPath = path.join(dataPath, config.outputFile);
 
-      const baseUrl = 'https://www.cybernations.net/assets/';
-      
       console.log(`Downloading ${config.type}...`);
       
       try {
         // Use the same download logic as dataDownloader
-        const result = await downloadFileWithFallback(baseUrl, config.type, tempZipPath);
+        const result = await downloadFileWithFallback(config.type, tempZipPath);
         console.log(`Downloaded ${config.type}: ${result.filename}`);
         
         // Extract CSV from zip
@@ -212,17 +207,14 @@ export class CsvController {
         });
       }
 
-      let result;
-      if (type === 'nations') {
-        result = await importNationsFromCsv(csvPath);
-      } else if (type === 'aid-offers') {
-        result = await importAidOffersFromCsv(csvPath);
-      } else if (type === 'wars') {
-        result = await importWarsFromCsv(csvPath);
-      } else {
-        return res.status(400).json({
+      const result = await importCsvFileSafely(config.type, csvPath);
+      if (!result.success) {
+        return res.status(422).json({
           success: false,
-          error: 'Invalid type'
+          error: result.error,
+          quarantineId: result.quarantineId,
+          rows: result.rows,
+          file: config.outputFile
         });
       }
 
@@ -285,6 +277,7 @@ export class CsvController {
           success: true,
           message: `Data is fresh for ${config.type}`,
           isFresh: true,
+          fileType: config.type,
           expectedFilename,
           lastDownloaded: lastDownload.originalFile,
           lastDownloadTime: lastDownload.downloadTime.toISOString()
@@ -311,10 +304,8 @@ export class CsvController {
       const tempZipPath = path.join(dataPath, `temp_${config.type}_${Date.now()}.zip`);
       const outputPath = path.join(dataPath, config.outputFile);
 
-      const baseUrl = 'https://www.cybernations.net/assets/';
-      
       // Step 1: Download
-      const downloadResult = await downloadFileWithFallback(baseUrl, config.type, tempZipPath);
+      const downloadResult = await downloadFileWithFallback(config.type, tempZipPath);
       console.log(`[Sync] Downloaded ${config.type}: ${downloadResult.filename}`);
       
       // Step 2: Extract
@@ -345,17 +336,17 @@ export class CsvController {
 
       // Step 3: Update database
       console.log(`[Sync] Starting database import from ${outputPath}...`);
-      let importResult: { imported: number; updated: number };
-      if (type === 'nations') {
-        importResult = await importNationsFromCsv(outputPath);
-      } else if (type === 'aid-offers') {
-        importResult = await importAidOffersFromCsv(outputPath);
-      } else if (type === 'wars') {
-        importResult = await importWarsFromCsv(outputPath);
-      } else {
-        return res.status(400).json({
+      const importResult = await importCsvFileSafely(config.type, outputPath, { filename: downloadResult.filename });
+      if (!importResult.success) {
+        console.warn(`[Sync] ${importResult.error}`);
+        return res.status(422).json({
           success: false,
-          error: 'Invalid type'
+          error: importResult.error,
+          quarantineId: importResult.quarantineId,
+          rows: importResult.rows,
+          fileType: config.type,
+          file: config.outputFile,
+          filename: downloadResult.filename
         });
       }
 
@@ -372,6 +363,8 @@ export class CsvController {
         },
         imported: importResult.imported,
         updated: importResult.updated,
+        rows: importResult.rows,
+        fileType: config.type,
         file: config.outputFile,
         filename: downloadResult.filename,
         fileSize: fileStats.size
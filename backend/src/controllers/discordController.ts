@@ -0,0 +1,75 @@
+import { Request, Response } from 'express';
+import { waitUntil } from '@vercel/functions';
+import {
+  DiscordInteraction,
+  INTERACTION_TYPE,
+  completeDeferredCommand,
+  getInitialResponse,
+  isFreshSignatureTimestamp,
+  verifyDiscordSignature,
+} from '../services/discordBotService.js';
+
+export class DiscordController {
+  /**
+   * Discord interactions endpoint (slash commands)
+   * POST /api/discord/interactions
+   *
+   * The body arrives unparsed (express.raw in index.ts) because the Ed25519 signature
+   * covers the exact bytes Discord sent. Requests with an invalid signature or a stale
+   * timestamp get 401, which Discord also uses to validate the endpoint URL.
+   * Commands are answered after the deferred response is sent; waitUntil keeps a
+   * serverless function running until the answer has been posted.
+   */
+  static async handleInteraction(req: Request, res: Response) {
+    try {
+      const publicKey = process.env.DISCORD_PUBLIC_KEY;
+      if (!publicKey) {
+        console.error('[Discord] DISCORD_PUBLIC_KEY is not configured');
+        return res.status(500).json({
+          success: false,
+          error: 'Discord interactions are not configured'
+        });
+      }
+
+      const signature = req.header('x-signature-ed25519');
+      const timestamp = req.header('x-signature-timestamp');
+      const rawBody: Buffer | undefined = Buffer.isBuffer(req.body) ? req.body : undefined;
+      if (
+        !signature ||
+        !timestamp ||
+        !rawBody ||
+        !isFreshSignatureTimestamp(timestamp) ||
+        !verifyDiscordSignature(publicKey, signature, timestamp, rawBody)
+      ) {
+        return res.status(401).json({
+          success: false,
+          error: 'Invalid request signature'
+        });
+      }
+
+      let interaction: DiscordInteraction;
+      try {
+        interaction = JSON.parse(rawBody.toString('utf8'));
+      } catch {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid JSON body'
+        });
+      }
+
+      res.json(getInitialResponse(interaction));
+
+      if (interaction.type === INTERACTION_TYPE.APPLICATION_COMMAND) {
+        waitUntil(completeDeferredCommand(interaction));
+      }
+    } catch (error) {
+      console.error('Error handling Discord interaction:', error);
+      if (!res.headersSent) {
+        res.status(500).json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  }
+}
@@ -3,8 +3,8 @@ import { DynamicWarService } from '../services/dynamicWarService.js';
 
 export class DynamicWarController {
   /**
-   * Add wars to the War table (only creates new wars, does not update existing ones)
-   * This prevents overwriting accurate CSV data with potentially incomplete scraper data
+   * Add scraped wars to the War table. New wars wait for a war file to confirm them; existing
+   * wars are reconciled with the file field by field (see warReconciliation)
    */
   static async addDynamicWar(req: Request, res: Response) {
     try {
@@ -19,7 +19,9 @@ export class DynamicWarController {
       }
 
       const newWars = [];
+      const updatedWars = [];
       const skippedWars = [];
+      let discrepancies = 0;
       const errors = [];
 
       for (let i = 0; i < warsToProcess.length; i++) {
@@ -83,10 +85,13 @@ export class DynamicWarController {
 
           const result = await DynamicWarService.addDynamicWar(processedWarData);
           
+          discrepancies += result.discrepancies;
           if (result.wasNew) {
             newWars.push(result.war);
+          } else if (result.wasUpdated) {
+            updatedWars.push(result.war);
           } else {
-            skippedWars.push({ warId: processedWarData.warId, reason: 'Already exists' });
+            skippedWars.push({ warId: processedWarData.warId, reason: 'No changes' });
           }
         } catch (error) {
           errors.push({
@@ -101,9 +106,12 @@ export class DynamicWarController {
         success: true,
         total: warsToProcess.length,
         created: newWars.length,
+        updated: updatedWars.length,
         skipped: skippedWars.length,
         failed: errors.length,
+        discrepancies,
         newWars: newWars,
+        updatedWars: updatedWars,
         skippedWars: skippedWars
       };
 
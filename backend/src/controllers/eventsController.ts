@@ -1,5 +1,6 @@
 import { Request, Response } from 'express';
 import { prisma } from '../utils/prisma.js';
+import { currentGameServer, storedIdRange } from '../utils/gameServer.js';
 
 // Cache for events queries
 interface EventsCache {
@@ -39,10 +40,43 @@ function clearExpiredCache(): void {
   }
 }
 
+type WarDirection = 'offensive' | 'defensive';
+
+/**
+ * Conditions (any of) for events involving an alliance. Aid and war events carry the declaring
+ * alliance on the event and the receiving alliance in metadata. A direction keeps only war
+ * events the alliance declared (offensive) or had declared on it (defensive).
+ */
+function allianceConditions(allianceId: number, direction?: WarDirection): any[] {
+  const receiving = { metadata: { path: ['receivingAllianceId'], equals: allianceId } };
+  if (direction === 'offensive') {
+    return [{ type: 'war', allianceId }];
+  }
+  if (direction === 'defensive') {
+    return [{ type: 'war', ...receiving }];
+  }
+  return [
+    // Regular events: match by allianceId field
+    { allianceId },
+    // Nation events: match by nation's allianceId
+    {
+      AND: [
+        { type: 'nation' },
+        { nation: { allianceId } },
+      ],
+    },
+    // Aid and war events: match the receiving side too
+    { type: { in: ['aid', 'war'] }, ...receiving },
+    // Include all alliance_change events - we'll filter in memory
+    { eventType: 'alliance_change' },
+  ];
+}
+
 export class EventsController {
   /**
    * Get all events with optional filtering
    * GET /api/events?type=nation&eventType=new_nation&limit=100&offset=0
+   * With allianceId, direction=offensive|defensive narrows to that alliance's war events.
    */
   static async getEvents(req: Request, res: Response) {
     try {
@@ -54,6 +88,14 @@ export class EventsController {
       const allianceId = req.query.allianceId ? parseInt(req.query.allianceId as string) : undefined;
       const minStrength = req.query.minStrength ? parseInt(req.query.minStrength as string) : undefined;
       const search = req.query.search as string | undefined;
+      const direction = req.query.direction as WarDirection | undefined;
+
+      if (direction !== undefined && direction !== 'offensive' && direction !== 'defensive') {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid direction. Must be offensive or defensive',
+        });
+      }
 
       // Build cache key from query parameters
       const cacheParams: any = {
@@ -65,6 +107,8 @@ export class EventsController {
         allianceId: allianceId || 'all',
         minStrength: minStrength || 'all',
         search: search || 'all',
+        direction: direction || 'all',
+        server: currentGameServer(),
       };
       const cacheKey = getCacheKey(cacheParams);
 
@@ -84,7 +128,10 @@ export class EventsController {
         clearExpiredCache();
       }
 
-      const where: any = {};
+      // Only the selected server's events: nation events by nation id, alliance events by alliance id
+      const where: any = {
+        AND: [{ OR: [{ nationId: storedIdRange() }, { nationId: null, allianceId: storedIdRange() }] }],
+      };
       
       if (type) {
         where.type = type;
@@ -102,25 +149,9 @@ export class EventsController {
       // which should match if either the old or new alliance matches
       let finalWhere = where;
       if (allianceId && !isNaN(allianceId)) {
-        // For alliance filtering:
-        // 1. Events with allianceId matching (for alliance events)
-        // 2. Nation events where the nation's allianceId matches
-        // 3. Alliance change events - we'll fetch all and filter in memory
         finalWhere = {
           ...where,
-          OR: [
-            // Regular events: match by allianceId field
-            { allianceId: allianceId },
-            // Nation events: match by nation's allianceId
-            {
-              AND: [
-                { type: 'nation' },
-                { nation: { allianceId: allianceId } },
-              ],
-            },
-            // Include all alliance_change events - we'll filter in memory
-            { eventType: 'alliance_change' },
-          ],
+          OR: allianceConditions(allianceId, direction),
         };
       }
       
@@ -236,16 +267,7 @@ export class EventsController {
         // Build countWhere the same way as finalWhere
         let countWhere: any = { ...where };
         if (allianceId && !isNaN(allianceId)) {
-          countWhere.OR = [
-            { allianceId: allianceId },
-            {
-              AND: [
-                { type: 'nation' },
-                { nation: { allianceId: allianceId } },
-              ],
-            },
-            { eventType: 'alliance_change' },
-          ];
+          countWhere.OR = allianceConditions(allianceId, direction);
         }
         
         // Apply search filter to countWhere the same way as finalWhere
@@ -0,0 +1,201 @@
+import { Request, Response } from 'express';
+import { getUserDashboard } from '../services/userDashboardService.js';
+import { API_KEY_SCOPES, createApiKey, listApiKeys, revokeApiKey } from '../services/apiKeyService.js';
+import {
+  checkVerificationCode,
+  getRulerNameVerification,
+  issueVerificationCode,
+} from '../services/rulerNameVerificationService.js';
+
+export class MeController {
+  /**
+   * Get the logged-in user's personal dashboard (nation resolved by ruler name)
+   * GET /api/me/dashboard
+   */
+  static async getDashboard(req: Request, res: Response) {
+    try {
+      const result = await getUserDashboard(req.session.userId!);
+
+      if (result.status === 'no_ruler_name') {
+        return res.status(404).json({
+          success: false,
+          error: 'Set your ruler name to see your dashboard',
+          code: 'NO_RULER_NAME'
+        });
+      }
+      if (result.status === 'nation_not_found') {
+        return res.status(404).json({
+          success: false,
+          error: `No active nation found for ruler name "${result.rulerName}"`,
+          code: 'NATION_NOT_FOUND'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: result.dashboard
+      });
+    } catch (error) {
+      console.error('Error fetching user dashboard:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * List the logged-in user's API keys and the scopes a key can have
+   * GET /api/me/api-keys
+   */
+  static async listApiKeys(req: Request, res: Response) {
+    try {
+      const apiKeys = await listApiKeys(req.session.userId!);
+      res.json({
+        success: true,
+        apiKeys,
+        scopes: API_KEY_SCOPES
+      });
+    } catch (error) {
+      console.error('Error listing API keys:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Create an API key for the logged-in user. The key is only in this response.
+   * POST /api/me/api-keys
+   * Body: { name: string, scopes: string[] }
+   */
+  static async createApiKey(req: Request, res: Response) {
+    const { name, scopes } = req.body ?? {};
+    if (typeof name !== 'string' || !name.trim() || name.trim().length > 100) {
+      return res.status(400).json({
+        success: false,
+        error: 'Name is required (up to 100 characters)'
+      });
+    }
+    if (!Array.isArray(scopes) || !scopes.every((scope) => typeof scope === 'string')) {
+      return res.status(400).json({
+        success: false,
+        error: 'Scopes must be an array of capability names'
+      });
+    }
+
+    try {
+      const { key, apiKey } = await createApiKey(req.session.userId!, name.trim(), scopes);
+      res.status(201).json({
+        success: true,
+        key,
+        apiKey
+      });
+    } catch (error) {
+      console.error('Error creating API key:', error);
+      res.status(400).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to create API key'
+      });
+    }
+  }
+
+  /**
+   * Revoke one of the logged-in user's API keys
+   * DELETE /api/me/api-keys/:keyId
+   */
+  static async revokeApiKey(req: Request, res: Response) {
+    const keyId = parseInt(req.params.keyId, 10);
+    if (isNaN(keyId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid key ID'
+      });
+    }
+
+    try {
+      const revoked = await revokeApiKey(req.session.userId!, keyId);
+      if (!revoked) {
+        return res.status(404).json({
+          success: false,
+          error: 'API key not found or already revoked'
+        });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error revoking API key:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Verification state of the logged-in user's ruler name, with their code while it is usable
+   * GET /api/me/ruler-name-verification
+   */
+  static async getRulerNameVerification(req: Request, res: Response) {
+    try {
+      const verification = await getRulerNameVerification(req.session.userId!);
+      res.json({
+        success: true,
+        verification
+      });
+    } catch (error) {
+      console.error('Error fetching ruler name verification:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Issue a one-time code for the logged-in user to put in their nation bio or send to an admin
+   * POST /api/me/ruler-name-verification
+   */
+  static async issueRulerNameCode(req: Request, res: Response) {
+    try {
+      const verification = await issueVerificationCode(req.session.userId!);
+      res.status(201).json({
+        success: true,
+        verification
+      });
+    } catch (error) {
+      console.error('Error issuing ruler name verification code:', error);
+      res.status(400).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to issue verification code'
+      });
+    }
+  }
+
+  /**
+   * Look for the logged-in user's code on their nation page
+   * POST /api/me/ruler-name-verification/check
+   */
+  static async checkRulerNameCode(req: Request, res: Response) {
+    try {
+      const result = await checkVerificationCode(req.session.userId!);
+      if (result.status === 'page_unavailable') {
+        return res.status(500).json({
+          success: false,
+          error: result.error
+        });
+      }
+      res.json({
+        success: true,
+        found: result.status === 'verified',
+        verification: result.verification
+      });
+    } catch (error) {
+      console.error('Error checking ruler name verification code:', error);
+      res.status(400).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to check verification code'
+      });
+    }
+  }
+}
@@ -0,0 +1,137 @@
+import { Request, Response } from 'express';
+import {
+  getNationHistory,
+  NATION_SNAPSHOT_FIELDS,
+  NationSnapshotField,
+  parseHistoryDate,
+} from '../services/nationSnapshotService.js';
+import { getNationProfile } from '../services/nationProfileService.js';
+import { getVerifiedRulerName } from '../services/rulerNameVerificationService.js';
+import { findNationByRulerName } from '../services/userDashboardService.js';
+import { getWarchestTimeline } from '../services/warchestSubmissionService.js';
+
+export class NationController {
+  /**
+   * Get the stat history for a nation
+   * GET /api/nations/:nationId/history?from=2026-01-01&to=2026-02-01&fields=strength,technology
+   * A `to` date without a time includes that whole day.
+   */
+  static async getNationHistory(req: Request, res: Response) {
+    try {
+      const nationId = parseInt(req.params.nationId);
+      if (isNaN(nationId)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid nation ID'
+        });
+      }
+
+      const from = parseHistoryDate(req.query.from);
+      const to = parseHistoryDate(req.query.to, true);
+      if (from === null || to === null) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid date. Use an ISO date such as 2026-01-31'
+        });
+      }
+
+      let fields: NationSnapshotField[] | undefined;
+      if (typeof req.query.fields === 'string' && req.query.fields.trim() !== '') {
+        const requested = req.query.fields.split(',').map(f => f.trim()).filter(Boolean);
+        const invalid = requested.filter(f => !NATION_SNAPSHOT_FIELDS.includes(f as NationSnapshotField));
+        if (invalid.length > 0) {
+          return res.status(400).json({
+            success: false,
+            error: `Invalid fields: ${invalid.join(', ')}. Allowed: ${NATION_SNAPSHOT_FIELDS.join(', ')}`
+          });
+        }
+        fields = requested as NationSnapshotField[];
+      }
+
+      const history = await getNationHistory(nationId, { from, to, fields });
+
+      res.json({
+        success: true,
+        data: history
+      });
+    } catch (error) {
+      console.error('Error fetching nation history:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Get everything we know about one nation in a single response
+   * GET /api/nations/:nationId/profile
+   * NationConfig is only returned to users who can manage the nation's alliance, and war
+   * assignments to users who can manage the attacking alliance's assignments, or to the nation's
+   * verified owner for the assignments it attacks in.
+   */
+  static async getNationProfile(req: Request, res: Response) {
+    try {
+      // validateNationId has already checked the parameter
+      const nationId = parseInt(req.params.nationId);
+      const userId = req.session.userId;
+      const verifiedRulerName = userId != null ? await getVerifiedRulerName({ id: userId }) : null;
+      const ownNation = verifiedRulerName ? await findNationByRulerName(verifiedRulerName) : null;
+      const profile = await getNationProfile(nationId, { userId, ownsNation: ownNation?.id === nationId });
+      if (!profile) {
+        return res.status(404).json({
+          success: false,
+          error: 'Nation not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: profile
+      });
+    } catch (error) {
+      console.error('Error fetching nation profile:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Get a nation's warchest readings from spyglass uploads and spy operations, newest first
+   * GET /api/nations/:nationId/warchest-timeline?limit=200
+   */
+  static async getWarchestTimeline(req: Request, res: Response) {
+    try {
+      const nationId = parseInt(req.params.nationId);
+      if (isNaN(nationId)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid nation ID'
+        });
+      }
+
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : 200;
+      if (isNaN(limit) || limit < 1 || limit > 1000) {
+        return res.status(400).json({
+          success: false,
+          error: 'limit must be between 1 and 1000'
+        });
+      }
+
+      const timeline = await getWarchestTimeline(nationId, limit);
+
+      res.json({
+        success: true,
+        data: timeline
+      });
+    } catch (error) {
+      console.error('Error fetching warchest timeline:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+}
@@ -1,7 +1,27 @@
 import { Request, Response } from 'express';
+import type { NationConfig } from '@prisma/client';
 import { AllianceService } from '../services/allianceService.js';
 import { updateDiscordHandle, getDiscordHandle } from '../utils/nationDiscordHandles.js';
 import { hasCapability } from '../services/authService.js';
+import { AUDIT_ACTIONS, recordAudit } from '../services/auditLogService.js';
+
+// The parts of a nation's config the editor changes, for the audit log
+function editableConfig(config: NationConfig | null) {
+  return {
+    discord_handle: config?.discordHandle ?? null,
+    has_dra: config?.hasDra ?? false,
+    notes: config?.notes ?? null,
+    slots: config ? {
+      sendTech: config.sendTechSlots,
+      sendCash: config.sendCashSlots,
+      getTech: config.getTechSlots,
+      getCash: config.getCashSlots,
+      external: config.externalSlots,
+      send_priority: config.sendPriority,
+      receive_priority: config.receivePriority
+    } : null
+  };
+}
 
 export class NationEditorController {
   /**
@@ -169,6 +189,8 @@ export class NationEditorController {
         });
       }
 
+      const before = editableConfig(await prisma.nationConfig.findUnique({ where: { nationId } }));
+
       // Prepare updates (excluding discord_handle which is saved separately)
       const updates: any = {};
       
@@ -213,6 +235,15 @@ export class NationEditorController {
       });
 
       const discordHandleValue = await getDiscordHandle(nationId);
+
+      await recordAudit(userId, {
+        action: AUDIT_ACTIONS.NATION_CONFIG_UPDATE,
+        targetType: 'nation',
+        targetId: nationId,
+        allianceIds: [allianceId],
+        before,
+        after: editableConfig(updatedNationConfig)
+      });
       
       // Build response with updated data
       const defaultSlots = {
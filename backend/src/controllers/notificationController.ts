@@ -0,0 +1,375 @@
+import { Request, Response } from 'express';
+import {
+  NOTIFIABLE_EVENT_TYPES,
+  SubscriptionInput,
+  createSubscription,
+  deleteSubscription,
+  getDeliveries,
+  getSubscriptions,
+  retryDelivery,
+  sendTestNotification,
+  updateSubscription,
+} from '../services/notificationService.js';
+import { AUDIT_ACTIONS, recordAudit } from '../services/auditLogService.js';
+
+const DISCORD_WEBHOOK_HOSTS = ['discord.com', 'discordapp.com', 'ptb.discord.com', 'canary.discord.com'];
+
+// A subscription as the audit log records it. The webhook URL is left out since it works as a password.
+const subscriptionAuditState = (subscription: {
+  name: string;
+  eventTypes: string[];
+  targetAllianceIds: number[];
+  minStrength: number | null;
+  isActive: boolean;
+}) => ({
+  name: subscription.name,
+  eventTypes: subscription.eventTypes,
+  targetAllianceIds: subscription.targetAllianceIds,
+  minStrength: subscription.minStrength,
+  isActive: subscription.isActive
+});
+
+/**
+ * Only Discord webhook URLs are accepted so subscriptions can't be used to POST to arbitrary hosts
+ */
+function isDiscordWebhookUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' &&
+      DISCORD_WEBHOOK_HOSTS.includes(url.hostname) &&
+      url.pathname.startsWith('/api/webhooks/');
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate a create/update body. Returns an error message, or the parsed input.
+ */
+function parseSubscriptionBody(body: any, partial: boolean): { error: string } | { input: Partial<SubscriptionInput> } {
+  const input: Partial<SubscriptionInput> = {};
+
+  if (body.name !== undefined || !partial) {
+    if (typeof body.name !== 'string' || body.name.trim() === '') {
+      return { error: 'name is required' };
+    }
+    input.name = body.name.trim();
+  }
+
+  if (body.webhookUrl !== undefined || !partial) {
+    if (typeof body.webhookUrl !== 'string' || !isDiscordWebhookUrl(body.webhookUrl)) {
+      return { error: 'webhookUrl must be a Discord webhook URL (https://discord.com/api/webhooks/...)' };
+    }
+    input.webhookUrl = body.webhookUrl;
+  }
+
+  if (body.eventTypes !== undefined || !partial) {
+    if (!Array.isArray(body.eventTypes) || body.eventTypes.length === 0) {
+      return { error: 'eventTypes must be a non-empty array' };
+    }
+    const invalid = body.eventTypes.filter((t: unknown) => typeof t !== 'string' || !NOTIFIABLE_EVENT_TYPES.includes(t));
+    if (invalid.length > 0) {
+      return { error: `Invalid eventTypes: ${invalid.join(', ')}. Allowed: ${NOTIFIABLE_EVENT_TYPES.join(', ')}` };
+    }
+    input.eventTypes = body.eventTypes;
+  }
+
+  if (body.targetAllianceIds !== undefined) {
+    if (!Array.isArray(body.targetAllianceIds)) {
+      return { error: 'targetAllianceIds must be an array of alliance IDs' };
+    }
+    const ids = body.targetAllianceIds.map((id: unknown) => parseInt(String(id), 10));
+    if (ids.some((id: number) => isNaN(id))) {
+      return { error: 'targetAllianceIds must be an array of alliance IDs' };
+    }
+    input.targetAllianceIds = ids;
+  }
+
+  if (body.minStrength !== undefined) {
+    if (body.minStrength === null || body.minStrength === '') {
+      input.minStrength = null;
+    } else {
+      const minStrength = Number(body.minStrength);
+      if (isNaN(minStrength) || minStrength < 0) {
+        return { error: 'minStrength must be a non-negative number' };
+      }
+      input.minStrength = minStrength;
+    }
+  }
+
+  if (body.isActive !== undefined) {
+    input.isActive = Boolean(body.isActive);
+  }
+
+  return { input };
+}
+
+export class NotificationController {
+  /**
+   * Get the event types a subscription can listen to
+   * GET /api/notifications/event-types
+   */
+  static async getEventTypes(_req: Request, res: Response) {
+    res.json({
+      success: true,
+      eventTypes: NOTIFIABLE_EVENT_TYPES
+    });
+  }
+
+  /**
+   * Get an alliance's notification subscriptions
+   * GET /api/alliances/:allianceId/notification-subscriptions
+   */
+  static async getSubscriptions(req: Request, res: Response) {
+    try {
+      const allianceId = parseInt(req.params.allianceId);
+      const subscriptions = await getSubscriptions(allianceId);
+      res.json({
+        success: true,
+        subscriptions
+      });
+    } catch (error) {
+      console.error('Error fetching notification subscriptions:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Create a notification subscription
+   * POST /api/alliances/:allianceId/notification-subscriptions
+   * Body: { name, webhookUrl, eventTypes, targetAllianceIds?, minStrength?, isActive? }
+   */
+  static async createSubscription(req: Request, res: Response) {
+    try {
+      const allianceId = parseInt(req.params.allianceId);
+      const parsed = parseSubscriptionBody(req.body ?? {}, false);
+      if ('error' in parsed) {
+        return res.status(400).json({
+          success: false,
+          error: parsed.error
+        });
+      }
+
+      const subscription = await createSubscription(allianceId, parsed.input as SubscriptionInput);
+      await recordAudit(req.session.userId, {
+        action: AUDIT_ACTIONS.NOTIFICATION_SUBSCRIPTION_CREATE,
+        targetType: 'notification_subscription',
+        targetId: subscription.id,
+        allianceIds: [allianceId],
+        after: subscriptionAuditState(subscription)
+      });
+      res.status(201).json({
+        success: true,
+        subscription
+      });
+    } catch (error) {
+      console.error('Error creating notification subscription:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Update a notification subscription
+   * PUT /api/alliances/:allianceId/notification-subscriptions/:subscriptionId
+   */
+  static async updateSubscription(req: Request, res: Response) {
+    try {
+      const allianceId = parseInt(req.params.allianceId);
+      const subscriptionId = parseInt(req.params.subscriptionId);
+      if (isNaN(subscriptionId)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid subscription ID'
+        });
+      }
+
+      const parsed = parseSubscriptionBody(req.body ?? {}, true);
+      if ('error' in parsed) {
+        return res.status(400).json({
+          success: false,
+          error: parsed.error
+        });
+      }
+
+      const previous = (await getSubscriptions(allianceId)).find((s) => s.id === subscriptionId);
+      const subscription = await updateSubscription(allianceId, subscriptionId, parsed.input);
+      if (!subscription) {
+        return res.status(404).json({
+          success: false,
+          error: 'Subscription not found'
+        });
+      }
+
+      await recordAudit(req.session.userId, {
+        action: AUDIT_ACTIONS.NOTIFICATION_SUBSCRIPTION_UPDATE,
+        targetType: 'notification_subscription',
+        targetId: subscriptionId,
+        allianceIds: [allianceId],
+        before: previous && subscriptionAuditState(previous),
+        after: subscriptionAuditState(subscription)
+      });
+
+      res.json({
+        success: true,
+        subscription
+      });
+    } catch (error) {
+      console.error('Error updating notification subscription:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Delete a notification subscription
+   * DELETE /api/alliances/:allianceId/notification-subscriptions/:subscriptionId
+   */
+  static async deleteSubscription(req: Request, res: Response) {
+    try {
+      const allianceId = parseInt(req.params.allianceId);
+      const subscriptionId = parseInt(req.params.subscriptionId);
+      if (isNaN(subscriptionId)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid subscription ID'
+        });
+      }
+
+      const previous = (await getSubscriptions(allianceId)).find((s) => s.id === subscriptionId);
+      const deleted = await deleteSubscription(allianceId, subscriptionId);
+      if (!deleted) {
+        return res.status(404).json({
+          success: false,
+          error: 'Subscription not found'
+        });
+      }
+
+      await recordAudit(req.session.userId, {
+        action: AUDIT_ACTIONS.NOTIFICATION_SUBSCRIPTION_DELETE,
+        targetType: 'notification_subscription',
+        targetId: subscriptionId,
+        allianceIds: [allianceId],
+        before: previous && subscriptionAuditState(previous)
+      });
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting notification subscription:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Post a test message to a subscription's webhook
+   * POST /api/alliances/:allianceId/notification-subscriptions/:subscriptionId/test
+   */
+  static async sendTestNotification(req: Request, res: Response) {
+    try {
+      const allianceId = parseInt(req.params.allianceId);
+      const subscriptionId = parseInt(req.params.subscriptionId);
+      if (isNaN(subscriptionId)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid subscription ID'
+        });
+      }
+
+      const result = await sendTestNotification(allianceId, subscriptionId);
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          error: 'Subscription not found'
+        });
+      }
+
+      res.status(result.ok ? 200 : 502).json({
+        success: result.ok,
+        status: result.status,
+        ...(result.error && { error: result.error })
+      });
+    } catch (error) {
+      console.error('Error sending test notification:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Get the delivery log for an alliance's subscriptions
+   * GET /api/alliances/:allianceId/notification-deliveries?subscriptionId=1&limit=100
+   */
+  static async getDeliveries(req: Request, res: Response) {
+    try {
+      const allianceId = parseInt(req.params.allianceId);
+      const subscriptionId = req.query.subscriptionId ? parseInt(req.query.subscriptionId as string) : undefined;
+      const limit = req.query.limit ? Math.min(parseInt(req.query.limit as string) || 100, 500) : 100;
+      if (subscriptionId !== undefined && isNaN(subscriptionId)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid subscription ID'
+        });
+      }
+
+      const deliveries = await getDeliveries(allianceId, { subscriptionId, limit });
+      res.json({
+        success: true,
+        deliveries
+      });
+    } catch (error) {
+      console.error('Error fetching notification deliveries:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Retry a delivery now
+   * POST /api/alliances/:allianceId/notification-deliveries/:deliveryId/retry
+   */
+  static async retryDelivery(req: Request, res: Response) {
+    try {
+      const allianceId = parseInt(req.params.allianceId);
+      const deliveryId = parseInt(req.params.deliveryId);
+      if (isNaN(deliveryId)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid delivery ID'
+        });
+      }
+
+      const delivery = await retryDelivery(allianceId, deliveryId);
+      if (!delivery) {
+        return res.status(404).json({
+          success: false,
+          error: 'Delivery not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        delivery
+      });
+    } catch (error) {
+      console.error('Error retrying notification delivery:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+}
@@ -1,6 +1,17 @@
 import { Request, Response } from 'express';
-import { NuclearReportInput, readNuclearHits, upsertNuclearReports, computeNuclearAttemptDistribution, computeNuclearTimeline } from '../services/nuclearHitsService.js';
+import {
+  NuclearReportInput,
+  readNuclearHits,
+  upsertNuclearReports,
+  computeNuclearAttemptDistribution,
+  computeNuclearTimeline,
+  computeNuclearSuccessStats,
+  getUnmatchedNuclearNames,
+  resolveUnmatchedNuclearName,
+} from '../services/nuclearHitsService.js';
 import { loadDataFromFilesWithUpdate, createNationsDictionary } from '../services/dataProcessingService.js';
+import { AUDIT_ACTIONS, recordAudit } from '../services/auditLogService.js';
+import { getCapabilityScope } from '../services/authService.js';
 
 export class NuclearHitsController {
   static ingest = async (req: Request, res: Response) => {
@@ -16,8 +27,8 @@ export class NuclearHitsController {
     return res.json(result);
   };
 
-  static all = (_req: Request, res: Response) => {
-    const store = readNuclearHits();
+  static all = async (_req: Request, res: Response) => {
+    const store = await readNuclearHits();
     return res.json(store);
   };
 
@@ -48,7 +59,7 @@ export class NuclearHitsController {
     }
   };
 
-  static timeline = (req: Request, res: Response) => {
+  static timeline = async (req: Request, res: Response) => {
     const intervalParam = req.query.intervalMinutes;
     let intervalMinutes = 5;
     if (typeof intervalParam === 'string') {
@@ -57,9 +68,85 @@ export class NuclearHitsController {
         intervalMinutes = n;
       }
     }
-    const result = computeNuclearTimeline(intervalMinutes);
+    const result = await computeNuclearTimeline(intervalMinutes);
     return res.json(result);
   };
+
+  /**
+   * Nuke success rates, inferred SDIs and daily caps per nation
+   * GET /api/nuclear/nations
+   */
+  static nationStats = async (_req: Request, res: Response) => {
+    try {
+      const { nations, dailyCaps } = await computeNuclearSuccessStats();
+      return res.json({ nations, dailyCaps });
+    } catch (error) {
+      console.error('Error computing nuclear nation stats:', error);
+      return res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to compute nuclear nation stats' });
+    }
+  };
+
+  /**
+   * Nuke success rates per alliance
+   * GET /api/nuclear/alliances
+   */
+  static allianceStats = async (_req: Request, res: Response) => {
+    try {
+      const { alliances, dailyCaps } = await computeNuclearSuccessStats();
+      return res.json({ alliances, dailyCaps });
+    } catch (error) {
+      console.error('Error computing nuclear alliance stats:', error);
+      return res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to compute nuclear alliance stats' });
+    }
+  };
+
+  /**
+   * Attacker and defender names that matched no nation
+   * GET /api/nuclear/unmatched
+   */
+  static unmatched = async (_req: Request, res: Response) => {
+    try {
+      const names = await getUnmatchedNuclearNames();
+      return res.json({ names });
+    } catch (error) {
+      console.error('Error listing unmatched nuclear names:', error);
+      return res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to list unmatched names' });
+    }
+  };
+
+  /**
+   * Attach an unmatched name to a nation, or look it up again when no nation is given
+   * POST /api/nuclear/unmatched/resolve
+   * Body: { name: string, nationId?: number }
+   */
+  static resolveUnmatched = async (req: Request, res: Response) => {
+    const { name, nationId } = req.body ?? {};
+    if (typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ error: 'Expected "name" of an unmatched attacker or defender' });
+    }
+    if (nationId !== undefined && (!Number.isInteger(nationId) || nationId <= 0)) {
+      return res.status(400).json({ error: '"nationId" must be a positive integer' });
+    }
+
+    try {
+      const scope = await getCapabilityScope(req.session.userId!, 'manage_war_assignments');
+      const result = await resolveUnmatchedNuclearName(name, nationId, scope.global ? null : scope.allianceIds);
+      if (!result.nationId) {
+        return res.status(404).json({ error: `No nation matches "${name}"` });
+      }
+      await recordAudit(req.session.userId, {
+        action: AUDIT_ACTIONS.NUCLEAR_NAME_RESOLVE,
+        targetType: 'nuclear_name',
+        targetId: name,
+        before: { nationId: null },
+        after: result,
+      });
+      return res.json(result);
+    } catch (error) {
+      console.error('Error resolving unmatched nuclear name:', error);
+      return res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to resolve name' });
+    }
+  };
 }
 
 
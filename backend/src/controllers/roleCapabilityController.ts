@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { prisma } from '../utils/prisma.js';
 import { UserRole } from '@prisma/client';
+import { AUDIT_ACTIONS, recordAudit } from '../services/auditLogService.js';
 
 const VALID_ROLES = Object.values(UserRole);
 
@@ -32,7 +33,8 @@ export class RoleCapabilityController {
   }
 
   /**
-   * Get capability IDs for a role. Requires manage_users.
+   * Get capability IDs for a role, with how many users hold it everywhere and who holds it
+   * only in specific alliances. Requires manage_users.
    */
   static async getRoleCapabilities(req: Request, res: Response) {
     try {
@@ -49,11 +51,30 @@ export class RoleCapabilityController {
       });
       const capabilityIds = rows.map((r) => r.capabilityId);
       const capabilityNames = rows.map((r) => r.capability.name);
+      const [globalUserCount, grants] = await Promise.all([
+        prisma.userRoleAssignment.count({ where: { role } }),
+        prisma.userAllianceRole.findMany({
+          where: { role },
+          select: {
+            user: { select: { id: true, discordUsername: true, rulerName: true } },
+            alliance: { select: { id: true, name: true } },
+          },
+          orderBy: [{ allianceId: 'asc' }, { userId: 'asc' }],
+        }),
+      ]);
       res.json({
         success: true,
         role,
         capabilityIds,
         capabilityNames,
+        globalUserCount,
+        allianceGrants: grants.map((g) => ({
+          userId: g.user.id,
+          discordUsername: g.user.discordUsername,
+          rulerName: g.user.rulerName,
+          allianceId: g.alliance.id,
+          allianceName: g.alliance.name,
+        })),
       });
     } catch (error) {
       console.error('Error getting role capabilities:', error);
@@ -89,6 +110,10 @@ export class RoleCapabilityController {
         select: { id: true },
       });
       const validIds = existing.map((c) => c.id);
+      const previousNames = await prisma.roleCapability.findMany({
+        where: { role },
+        select: { capability: { select: { name: true } } },
+      }).then((rows) => rows.map((r) => r.capability.name));
       await prisma.roleCapability.deleteMany({ where: { role } });
       if (validIds.length > 0) {
         await prisma.roleCapability.createMany({
@@ -100,6 +125,13 @@ export class RoleCapabilityController {
         where: { role },
         select: { capability: { select: { name: true } } },
       }).then((rows) => rows.map((r) => r.capability.name));
+      await recordAudit(req.session.userId, {
+        action: AUDIT_ACTIONS.ROLE_CAPABILITIES,
+        targetType: 'role',
+        targetId: role,
+        before: { capabilities: previousNames.sort() },
+        after: { capabilities: [...capabilityNames].sort() },
+      });
       res.json({
         success: true,
         role,
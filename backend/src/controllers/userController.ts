@@ -1,6 +1,33 @@
 import { Request, Response } from 'express';
 import { prisma } from '../utils/prisma.js';
-import { UserRole } from '@prisma/client';
+import { UserAllianceRole, UserRole } from '@prisma/client';
+import { AUDIT_ACTIONS, recordAudit } from '../services/auditLogService.js';
+import {
+  setRulerNameVerified,
+  toRulerNameVerification,
+  UNVERIFIED_RULER_NAME,
+  verificationSelect,
+} from '../services/rulerNameVerificationService.js';
+
+type AllianceRoleGrant = Pick<UserAllianceRole, 'allianceId' | 'role'>;
+
+// The parts of a user an admin can change, for the audit log
+const editableUser = (user: {
+  rulerName: string | null;
+  roleAssignments: { role: UserRole }[];
+  managedAlliances: { allianceId: number }[];
+  allianceRoles: AllianceRoleGrant[];
+}) => ({
+  rulerName: user.rulerName,
+  roles: user.roleAssignments.map((r) => r.role).sort(),
+  managedAllianceIds: user.managedAlliances.map((ma) => ma.allianceId).sort((a, b) => a - b),
+  allianceRoles: user.allianceRoles.map((ar) => `${ar.role}@${ar.allianceId}`).sort(),
+});
+
+const allianceRolesSelect = {
+  select: { allianceId: true, role: true },
+  orderBy: [{ allianceId: 'asc' as const }, { role: 'asc' as const }],
+};
 
 export class UserController {
   /**
@@ -14,10 +41,11 @@ export class UserController {
           id: true,
           discordId: true,
           discordUsername: true,
-          rulerName: true,
+          ...verificationSelect,
           createdAt: true,
           updatedAt: true,
           roleAssignments: { select: { role: true } },
+          allianceRoles: allianceRolesSelect,
           managedAlliances: {
             select: {
               allianceId: true,
@@ -41,10 +69,12 @@ export class UserController {
         discordId: user.discordId,
         discordUsername: user.discordUsername,
         rulerName: user.rulerName,
+        rulerNameVerification: toRulerNameVerification(user),
         roles: user.roleAssignments.map((r) => r.role),
         createdAt: user.createdAt,
         updatedAt: user.updatedAt,
         managedAllianceIds: user.managedAlliances.map((ma) => ma.allianceId),
+        allianceRoles: user.allianceRoles,
       }));
 
       res.json({
@@ -74,7 +104,7 @@ export class UserController {
         });
       }
 
-      const { rulerName, roles, managedAllianceIds } = req.body;
+      const { rulerName, roles, managedAllianceIds, allianceRoles } = req.body;
 
       // Validate roles if provided
       if (roles !== undefined) {
@@ -95,9 +125,41 @@ export class UserController {
         }
       }
 
+      // Validate alliance-scoped roles if provided: [{ allianceId, role }]
+      if (allianceRoles !== undefined) {
+        if (!Array.isArray(allianceRoles)) {
+          return res.status(400).json({
+            success: false,
+            error: 'allianceRoles must be an array',
+          });
+        }
+        const validRoles = Object.values(UserRole);
+        for (const grant of allianceRoles) {
+          if (!Number.isInteger(grant?.allianceId) || !validRoles.includes(grant?.role)) {
+            return res.status(400).json({
+              success: false,
+              error: 'Each alliance role needs an integer allianceId and a valid role',
+            });
+          }
+        }
+        const allianceIds = Array.from(new Set((allianceRoles as AllianceRoleGrant[]).map((grant) => grant.allianceId)));
+        const found = await prisma.alliance.count({ where: { id: { in: allianceIds } } });
+        if (found !== allianceIds.length) {
+          return res.status(400).json({
+            success: false,
+            error: 'allianceRoles refers to an unknown alliance',
+          });
+        }
+      }
+
       // Check if user exists
       const existingUser = await prisma.user.findUnique({
         where: { id: userId },
+        include: {
+          roleAssignments: { select: { role: true } },
+          managedAlliances: { select: { allianceId: true } },
+          allianceRoles: allianceRolesSelect,
+        },
       });
 
       if (!existingUser) {
@@ -109,7 +171,13 @@ export class UserController {
 
       // Prepare update data
       const updateData: any = {};
-      if (rulerName !== undefined) updateData.rulerName = rulerName || null; // Allow clearing rulerName
+      if (rulerName !== undefined) {
+        updateData.rulerName = rulerName || null; // Allow clearing rulerName
+        // A different name is a new claim that has to be verified again
+        if ((existingUser.rulerName ?? '').toLowerCase() !== (rulerName || '').toLowerCase()) {
+          Object.assign(updateData, UNVERIFIED_RULER_NAME);
+        }
+      }
 
       // Update user
       await prisma.user.update({
@@ -149,6 +217,23 @@ export class UserController {
         }
       }
 
+      // Replace alliance-scoped roles if provided
+      if (allianceRoles !== undefined) {
+        await prisma.userAllianceRole.deleteMany({
+          where: { userId },
+        });
+        if (allianceRoles.length > 0) {
+          await prisma.userAllianceRole.createMany({
+            data: (allianceRoles as AllianceRoleGrant[]).map((grant) => ({
+              userId,
+              allianceId: grant.allianceId,
+              role: grant.role,
+            })),
+            skipDuplicates: true,
+          });
+        }
+      }
+
       // Fetch updated user with roles and managed alliances
       const userWithAlliances = await prisma.user.findUnique({
         where: { id: userId },
@@ -156,10 +241,11 @@ export class UserController {
           id: true,
           discordId: true,
           discordUsername: true,
-          rulerName: true,
+          ...verificationSelect,
           createdAt: true,
           updatedAt: true,
           roleAssignments: { select: { role: true } },
+          allianceRoles: allianceRolesSelect,
           managedAlliances: {
             select: {
               allianceId: true,
@@ -168,6 +254,22 @@ export class UserController {
         },
       });
 
+      const before = editableUser(existingUser);
+      const after = editableUser(userWithAlliances!);
+      await recordAudit(req.session.userId, {
+        action: AUDIT_ACTIONS.USER_UPDATE,
+        targetType: 'user',
+        targetId: userId,
+        allianceIds: [
+          ...before.managedAllianceIds,
+          ...after.managedAllianceIds,
+          ...existingUser.allianceRoles.map((ar) => ar.allianceId),
+          ...userWithAlliances!.allianceRoles.map((ar) => ar.allianceId),
+        ],
+        before,
+        after,
+      });
+
       res.json({
         success: true,
         user: {
@@ -175,12 +277,14 @@ export class UserController {
           discordId: userWithAlliances!.discordId,
           discordUsername: userWithAlliances!.discordUsername,
           rulerName: userWithAlliances!.rulerName,
+          rulerNameVerification: toRulerNameVerification(userWithAlliances!),
           roles: userWithAlliances!.roleAssignments.map((r) => r.role),
           createdAt: userWithAlliances!.createdAt,
           updatedAt: userWithAlliances!.updatedAt,
           managedAllianceIds: userWithAlliances!.managedAlliances.map(
             (ma) => ma.allianceId
           ),
+          allianceRoles: userWithAlliances!.allianceRoles,
         },
       });
     } catch (error: any) {
@@ -201,5 +305,61 @@ export class UserController {
       });
     }
   }
-}
 
+  /**
+   * Confirm that a user owns the nation their ruler name points at (e.g. after they sent their
+   * code by in-game message), or withdraw the verification
+   * PUT /api/users/:id/ruler-name-verification
+   * Body: { verified: boolean }
+   */
+  static async setRulerNameVerification(req: Request, res: Response) {
+    const userId = parseInt(req.params.id, 10);
+    if (isNaN(userId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid user ID',
+      });
+    }
+    const { verified } = req.body ?? {};
+    if (typeof verified !== 'boolean') {
+      return res.status(400).json({
+        success: false,
+        error: 'verified must be a boolean',
+      });
+    }
+
+    try {
+      const existingUser = await prisma.user.findUnique({
+        where: { id: userId },
+        select: verificationSelect,
+      });
+      if (!existingUser) {
+        return res.status(404).json({
+          success: false,
+          error: 'User not found',
+        });
+      }
+
+      const before = toRulerNameVerification(existingUser);
+      const verification = await setRulerNameVerified(userId, verified);
+      await recordAudit(req.session.userId, {
+        action: AUDIT_ACTIONS.USER_RULER_NAME_VERIFICATION,
+        targetType: 'user',
+        targetId: userId,
+        before: { rulerName: before.rulerName, verified: before.verified, verifiedBy: before.verifiedBy },
+        after: { rulerName: verification.rulerName, verified: verification.verified, verifiedBy: verification.verifiedBy },
+      });
+
+      res.json({
+        success: true,
+        verification,
+      });
+    } catch (error) {
+      console.error('Error setting ruler name verification:', error);
+      res.status(400).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to set ruler name verification',
+      });
+    }
+  }
+}
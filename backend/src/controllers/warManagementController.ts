@@ -1,6 +1,47 @@
 import { Request, Response } from 'express';
 import { WarManagementService } from '../services/warManagementService.js';
-import { WarAssignmentService } from '../services/warAssignmentService.js';
+import {
+  WarAssignmentService,
+  inAttackerScope,
+  type AttackerAllianceScope,
+  type WarAssignmentDto,
+} from '../services/warAssignmentService.js';
+import { AUDIT_ACTIONS, recordAudit, type AuditEntry } from '../services/auditLogService.js';
+import { getCapabilityScope } from '../services/authService.js';
+
+const STAGGER_SCHEDULE_DEFAULT_DAYS = 7;
+const STAGGER_SCHEDULE_MAX_DAYS = 14;
+
+// An assignment as the audit log records it
+const assignmentAuditState = (assignment: WarAssignmentDto) => ({
+  assignmentDate: assignment.assignmentDate,
+  attackerNationId: assignment.attackerNation.id,
+  attackerRulerName: assignment.attackerNation.rulerName,
+  defenderNationId: assignment.defenderNation.id,
+  defenderRulerName: assignment.defenderNation.rulerName,
+  note: assignment.note ?? null
+});
+
+// Alliances the user may assign attackers from; null when they manage war assignments everywhere
+const attackerScope = async (userId: number): Promise<AttackerAllianceScope> => {
+  const scope = await getCapabilityScope(userId, 'manage_war_assignments');
+  return scope.global ? null : scope.allianceIds;
+};
+
+const OUTSIDE_ATTACKER_SCOPE = "You don't manage war assignments for the attacking alliance";
+
+const assignmentAuditEntry = (
+  action: AuditEntry['action'],
+  allianceId: number,
+  assignment: WarAssignmentDto,
+  change: Pick<AuditEntry, 'before' | 'after'>
+): AuditEntry => ({
+  action,
+  targetType: 'war_assignment',
+  targetId: assignment.id,
+  allianceIds: [allianceId, assignment.attackerNation.allianceId],
+  ...change
+});
 
 export class WarManagementController {
   /**
@@ -45,7 +86,8 @@ export class WarManagementController {
   }
 
   /**
-   * Get active war assignments for an alliance
+   * Get active war assignments against an alliance, limited to attackers from alliances the user
+   * manages war assignments for
    */
   static async getWarAssignments(req: Request, res: Response) {
     try {
@@ -57,7 +99,10 @@ export class WarManagementController {
         });
       }
 
-      const assignments = await WarAssignmentService.listActiveAssignmentsForAlliance(allianceId);
+      const assignments = await WarAssignmentService.listActiveAssignmentsForAlliance(
+        allianceId,
+        await attackerScope(req.session.userId!)
+      );
 
       res.json({
         success: true,
@@ -108,9 +153,14 @@ export class WarManagementController {
         defenderNationId: Number(defenderNationId),
         assignmentDate: String(assignmentDate),
         note: note ? String(note) : undefined,
-        createdByUserId: userId
+        createdByUserId: userId,
+        attackerAllianceIds: await attackerScope(userId)
       });
 
+      await recordAudit(userId, assignmentAuditEntry(
+        AUDIT_ACTIONS.WAR_ASSIGNMENT_CREATE, allianceId, assignment, { after: assignmentAuditState(assignment) }
+      ));
+
       res.status(201).json({
         success: true,
         assignment
@@ -125,6 +175,190 @@ export class WarManagementController {
     }
   }
 
+  /**
+   * Propose a blitz against an alliance: attackers from attackingAllianceId assigned to its nations
+   */
+  static async getBlitzPlan(req: Request, res: Response) {
+    try {
+      const allianceId = parseInt(req.params.allianceId);
+      const attackingAllianceId = parseInt(String(req.query.attackingAllianceId ?? ''));
+      const assignmentDate = typeof req.query.date === 'string' ? req.query.date : '';
+
+      if (isNaN(allianceId)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid alliance ID'
+        });
+      }
+
+      if (isNaN(attackingAllianceId) || attackingAllianceId === allianceId) {
+        return res.status(400).json({
+          success: false,
+          error: 'attackingAllianceId must be a different alliance'
+        });
+      }
+
+      if (!inAttackerScope(attackingAllianceId, await attackerScope(req.session.userId!))) {
+        return res.status(403).json({
+          success: false,
+          error: OUTSIDE_ATTACKER_SCOPE
+        });
+      }
+
+      if (!assignmentDate) {
+        return res.status(400).json({
+          success: false,
+          error: 'date is required'
+        });
+      }
+
+      const plan = await WarAssignmentService.planBlitz(allianceId, attackingAllianceId, assignmentDate);
+
+      res.json({
+        success: true,
+        plan
+      });
+    } catch (error: any) {
+      console.error('Error in getBlitzPlan:', error);
+      const message = error instanceof Error ? error.message : 'Failed to plan blitz';
+      res.status(400).json({
+        success: false,
+        error: message
+      });
+    }
+  }
+
+  /**
+   * Multi-day stagger schedule against an alliance: one wave per day so each target's wars expire on different days
+   */
+  static async getStaggerSchedule(req: Request, res: Response) {
+    try {
+      const allianceId = parseInt(req.params.allianceId);
+      const attackingAllianceId = parseInt(String(req.query.attackingAllianceId ?? ''));
+      const startDate = typeof req.query.startDate === 'string' ? req.query.startDate : '';
+      const days = req.query.days !== undefined
+        ? parseInt(String(req.query.days), 10)
+        : STAGGER_SCHEDULE_DEFAULT_DAYS;
+
+      if (isNaN(allianceId)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid alliance ID'
+        });
+      }
+
+      if (isNaN(attackingAllianceId) || attackingAllianceId === allianceId) {
+        return res.status(400).json({
+          success: false,
+          error: 'attackingAllianceId must be a different alliance'
+        });
+      }
+
+      if (!inAttackerScope(attackingAllianceId, await attackerScope(req.session.userId!))) {
+        return res.status(403).json({
+          success: false,
+          error: OUTSIDE_ATTACKER_SCOPE
+        });
+      }
+
+      if (!startDate) {
+        return res.status(400).json({
+          success: false,
+          error: 'startDate is required'
+        });
+      }
+
+      if (isNaN(days) || days < 1 || days > STAGGER_SCHEDULE_MAX_DAYS) {
+        return res.status(400).json({
+          success: false,
+          error: `days must be between 1 and ${STAGGER_SCHEDULE_MAX_DAYS}`
+        });
+      }
+
+      const schedule = await WarAssignmentService.planStaggerSchedule(allianceId, attackingAllianceId, startDate, days);
+
+      res.json({
+        success: true,
+        schedule
+      });
+    } catch (error: any) {
+      console.error('Error in getStaggerSchedule:', error);
+      const message = error instanceof Error ? error.message : 'Failed to plan stagger schedule';
+      res.status(400).json({
+        success: false,
+        error: message
+      });
+    }
+  }
+
+  /**
+   * Create a batch of war assignments (e.g. a reviewed blitz plan or stagger schedule)
+   */
+  static async createWarAssignmentsBatch(req: Request, res: Response) {
+    try {
+      const allianceId = parseInt(req.params.allianceId);
+      if (isNaN(allianceId)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid alliance ID'
+        });
+      }
+
+      const userId = req.session.userId;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'Authentication required'
+        });
+      }
+
+      const { assignmentDate, assignments } = req.body || {};
+
+      if (!Array.isArray(assignments)) {
+        return res.status(400).json({
+          success: false,
+          error: 'An assignments array is required'
+        });
+      }
+
+      if (assignments.some((a: any) => !a?.attackerNationId || !a?.defenderNationId)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Every assignment needs attackerNationId and defenderNationId'
+        });
+      }
+
+      const created = await WarAssignmentService.createAssignmentsBatch({
+        allianceId,
+        assignmentDate: assignmentDate ? String(assignmentDate) : undefined,
+        assignments: assignments.map((a: any) => ({
+          attackerNationId: Number(a.attackerNationId),
+          defenderNationId: Number(a.defenderNationId),
+          assignmentDate: a.assignmentDate ? String(a.assignmentDate) : undefined,
+          note: a.note ? String(a.note) : undefined
+        })),
+        createdByUserId: userId,
+        attackerAllianceIds: await attackerScope(userId)
+      });
+
+      await recordAudit(userId, created.map((assignment) => assignmentAuditEntry(
+        AUDIT_ACTIONS.WAR_ASSIGNMENT_CREATE, allianceId, assignment, { after: assignmentAuditState(assignment) }
+      )));
+
+      res.status(201).json({
+        success: true,
+        assignments: created
+      });
+    } catch (error: any) {
+      console.error('Error in createWarAssignmentsBatch:', error);
+      const message = error instanceof Error ? error.message : 'Failed to create war assignments';
+      res.status(400).json({
+        success: false,
+        error: message
+      });
+    }
+  }
+
   /**
    * Delete a war assignment for an alliance
    */
@@ -147,7 +381,15 @@ export class WarManagementController {
         });
       }
 
-      await WarAssignmentService.deleteAssignment(assignmentId, allianceId);
+      const deleted = await WarAssignmentService.deleteAssignment(
+        assignmentId,
+        allianceId,
+        await attackerScope(req.session.userId!)
+      );
+
+      await recordAudit(req.session.userId, assignmentAuditEntry(
+        AUDIT_ACTIONS.WAR_ASSIGNMENT_DELETE, allianceId, deleted, { before: assignmentAuditState(deleted) }
+      ));
 
       res.json({
         success: true,
@@ -5,6 +5,7 @@ import {
   getWarchestSubmissions,
   updateKilledGeneralsForNation,
 } from '../services/warchestSubmissionService.js';
+import { recordSpyglassUpload } from '../services/spyglassService.js';
 
 export class WarchestSubmissionController {
   /**
@@ -121,5 +122,41 @@ export class WarchestSubmissionController {
       });
     }
   };
-}
 
+  /**
+   * Upload a spyglass export and store each nation's warchest reading as a dated observation
+   * POST /api/spyglass/upload
+   * Body: { text: string } with the export contents
+   */
+  static uploadSpyglass = async (req: Request, res: Response) => {
+    try {
+      const { text } = req.body ?? {};
+
+      if (!text || typeof text !== 'string') {
+        return res.status(400).json({
+          success: false,
+          error: 'Text is required',
+        });
+      }
+
+      const result = await recordSpyglassUpload(text, new Date(), req.session.userId);
+      if (result.parsed === 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'No nations found. Upload a spyglass export with numbered nations and "Warchest:" lines.',
+        });
+      }
+
+      return res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error uploading spyglass data:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to upload spyglass data',
+      });
+    }
+  };
+}
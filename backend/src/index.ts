@@ -6,6 +6,7 @@ import session from 'express-session';
 import connectPgSimple from 'connect-pg-simple';
 import { apiRoutes } from './routes/api.js';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler.js';
+import { gameServerContext } from './middleware/gameServer.js';
 import { pool } from './utils/prisma.js';
 import { getCookieConfig } from './utils/cookieConfig.js';
 
@@ -36,6 +37,10 @@ app.use(cors({
   ],
   credentials: true
 }));
+// Discord interactions need the raw body for signature verification (express.json skips already-read bodies)
+app.use('/api/discord/interactions', express.raw({ type: 'application/json' }));
+// Spyglass exports list every nation in range and run past the default 100kb limit
+app.use('/api/spyglass', express.json({ limit: '5mb' }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
@@ -63,7 +68,7 @@ app.use(
 );
 
 // Routes
-app.use('/api', apiRoutes);
+app.use('/api', gameServerContext, apiRoutes);
 
 // Health check endpoint
 app.get('/health', (req, res) => {
@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
-import { hasCapability } from '../services/authService.js';
+import { getCapabilityScope, hasCapability } from '../services/authService.js';
+import { authenticateApiKey } from '../services/apiKeyService.js';
 
 /**
  * Middleware to require that the user is authenticated.
@@ -21,12 +22,30 @@ export const requireAuth = (
 
 export interface RequireCapabilityOptions {
   paramKey?: string;
+  /** Let through users holding the capability in any alliance; the handler checks which ones */
+  anyAlliance?: boolean;
+}
+
+/**
+ * API key sent with a request, as an X-API-Key header or an Authorization: Bearer header
+ */
+function readApiKey(req: Request): string | null {
+  const header = req.get('x-api-key');
+  if (header) return header.trim();
+  const authorization = req.get('authorization');
+  if (authorization?.toLowerCase().startsWith('bearer ')) {
+    return authorization.slice('bearer '.length).trim();
+  }
+  return null;
 }
 
 /**
  * Middleware to require that the user has the given capability.
- * Must be used after requireAuth so req.session.userId exists.
- * For scoped capabilities (e.g. manage_alliance), set paramKey to the route param name (e.g. 'allianceId').
+ * The user is the session user, or else the owner of the request's API key; a key must also be
+ * scoped to the capability. Routes open to API keys use this without requireAuth.
+ * On alliance routes, set paramKey to the route param name (e.g. 'allianceId') so roles the user holds only
+ * in that alliance count, and manage_alliance is checked against the alliances they manage. With
+ * anyAlliance, a role held in any one alliance is enough.
  */
 export const requireCapability = (
   capability: string,
@@ -34,13 +53,32 @@ export const requireCapability = (
 ) => {
   return async (req: Request, res: Response, next: NextFunction) => {
     try {
-      if (!req.session.userId) {
-        return res.status(401).json({
-          success: false,
-          error: 'Authentication required',
-        });
+      let userId = req.session.userId;
+      if (!userId) {
+        const key = readApiKey(req);
+        const apiKey = key ? await authenticateApiKey(key) : null;
+        if (key && !apiKey) {
+          return res.status(401).json({
+            success: false,
+            error: 'Invalid or revoked API key',
+          });
+        }
+        if (!apiKey) {
+          return res.status(401).json({
+            success: false,
+            error: 'Authentication required',
+          });
+        }
+        if (!apiKey.scopes.includes(capability)) {
+          return res.status(403).json({
+            success: false,
+            error: `API key is not scoped for ${capability}`,
+          });
+        }
+        req.apiKey = apiKey;
+        userId = apiKey.userId;
       }
-      const userId = req.session.userId;
+
       let allowed: boolean;
       if (options?.paramKey != null) {
         const raw = req.params[options.paramKey];
@@ -52,6 +90,9 @@ export const requireCapability = (
           });
         }
         allowed = await hasCapability(userId, capability, { allianceId });
+      } else if (options?.anyAlliance) {
+        const scope = await getCapabilityScope(userId, capability);
+        allowed = scope.global || scope.allianceIds.length > 0;
       } else {
         allowed = await hasCapability(userId, capability);
       }
@@ -0,0 +1,11 @@
+import { Request, Response, NextFunction } from 'express';
+import { parseGameServer, runOnGameServer } from '../utils/gameServer.js';
+
+/**
+ * Runs the rest of the request on the game server picked in the UI
+ * (X-Game-Server header, or ?server= for links), defaulting to SE
+ */
+export const gameServerContext = (req: Request, res: Response, next: NextFunction) => {
+  const requested = req.header('x-game-server') ?? req.query.server;
+  runOnGameServer(parseGameServer(requested), next);
+};
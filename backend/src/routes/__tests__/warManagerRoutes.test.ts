@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import express from 'express';
+import http from 'http';
+import { AddressInfo } from 'net';
+
+vi.mock('../../services/authService.js', () => ({
+  getCapabilityScope: vi.fn(),
+  hasCapability: vi.fn(),
+}));
+
+vi.mock('../../services/apiKeyService.js', () => ({
+  authenticateApiKey: vi.fn(),
+}));
+
+vi.mock('../../services/auditLogService.js', () => ({
+  AUDIT_ACTIONS: { NUCLEAR_NAME_RESOLVE: 'nuclear.name_resolve' },
+  recordAudit: vi.fn(),
+}));
+
+vi.mock('../../services/nuclearHitsService.js', () => ({
+  resolveUnmatchedNuclearName: vi.fn(),
+}));
+
+vi.mock('../../services/spyglassService.js', () => ({
+  recordSpyglassUpload: vi.fn(),
+}));
+
+vi.mock('../../services/warchestSubmissionService.js', () => ({}));
+vi.mock('../../services/dataProcessingService.js', () => ({}));
+
+import { getCapabilityScope, hasCapability } from '../../services/authService.js';
+import { resolveUnmatchedNuclearName } from '../../services/nuclearHitsService.js';
+import { recordSpyglassUpload } from '../../services/spyglassService.js';
+import { nuclearHitsRoutes } from '../nuclearHitsRoutes.js';
+import { warchestSubmissionRoutes } from '../warchestSubmissionRoutes.js';
+
+// A war manager whose only grant is WAR_MANAGER in alliance 10
+const ALLIANCE_SCOPE = { global: false, allianceIds: [10] };
+
+describe('war manager routes for an alliance-scoped war manager', () => {
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use((req, _res, next) => {
+      (req as any).session = { userId: 5 };
+      next();
+    });
+    app.use('/api', nuclearHitsRoutes);
+    app.use('/api', warchestSubmissionRoutes);
+    server = app.listen(0, '127.0.0.1');
+    await new Promise<void>(resolve => server.once('listening', () => resolve()));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    vi.mocked(getCapabilityScope).mockReset().mockResolvedValue(ALLIANCE_SCOPE);
+    vi.mocked(hasCapability).mockReset().mockResolvedValue(false);
+  });
+
+  const post = (path: string, body: unknown) =>
+    fetch(`${baseUrl}/api${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+  it('can upload spyglass exports', async () => {
+    vi.mocked(recordSpyglassUpload).mockResolvedValue({ parsed: 1, recorded: 1, unmatched: [] } as any);
+
+    const response = await post('/spyglass/upload', { text: '1. Ruler / Nation Warchest: $1' });
+
+    expect(response.status).toBe(200);
+    expect(recordSpyglassUpload).toHaveBeenCalled();
+  });
+
+  it('resolves nuclear names within its own alliances', async () => {
+    vi.mocked(resolveUnmatchedNuclearName).mockResolvedValue({ nationId: 7, updated: 2 });
+
+    const response = await post('/nuclear/unmatched/resolve', { name: 'Some Ruler', nationId: 7 });
+
+    expect(response.status).toBe(200);
+    expect(resolveUnmatchedNuclearName).toHaveBeenCalledWith('Some Ruler', 7, [10]);
+  });
+
+  it('is refused by users without the capability in any alliance', async () => {
+    vi.mocked(getCapabilityScope).mockResolvedValue({ global: false, allianceIds: [] });
+
+    expect((await post('/spyglass/upload', { text: 'x' })).status).toBe(403);
+    expect((await post('/nuclear/unmatched/resolve', { name: 'Some Ruler' })).status).toBe(403);
+  });
+});
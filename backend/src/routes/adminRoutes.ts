@@ -13,6 +13,9 @@ adminRoutes.get('/capabilities', requireCapability('manage_users'), RoleCapabili
 adminRoutes.get('/roles/:role/capabilities', requireCapability('manage_users'), RoleCapabilityController.getRoleCapabilities);
 adminRoutes.put('/roles/:role/capabilities', requireCapability('manage_users'), RoleCapabilityController.setRoleCapabilities);
 
+// Log of manager and admin changes (view_audit_log)
+adminRoutes.get('/audit-log', requireCapability('view_audit_log'), AdminController.getAuditLog);
+
 // Rest of admin routes require manage_all_alliance capability
 adminRoutes.use(requireCapability('manage_all_alliance'));
 
@@ -34,3 +37,14 @@ adminRoutes.put('/wars/:warId/alliance-ids', AdminController.updateWarAllianceId
 // Update war excluded-from-stats flag
 adminRoutes.put('/wars/:warId/excluded-from-stats', AdminController.setWarExcludedFromStats);
 
+// Disagreements between the war file and scraped wars
+adminRoutes.get('/war-reconciliation', AdminController.getWarReconciliation);
+
+// Sync run history and per-run diffs
+adminRoutes.get('/sync-runs', AdminController.listSyncRuns);
+adminRoutes.get('/sync-runs/:runId', AdminController.getSyncRun);
+
+// Data files rejected by import validation, with admin override
+adminRoutes.get('/import-quarantine', AdminController.listImportQuarantine);
+adminRoutes.post('/import-quarantine/:quarantineId/import', AdminController.importQuarantinedFile);
+adminRoutes.post('/import-quarantine/:quarantineId/discard', AdminController.discardQuarantinedFile);
@@ -16,6 +16,12 @@ aidRoutes.get('/alliances/:allianceId/active-aid-by-alliance', validateAllianceI
 // Get aid recommendations for an alliance
 aidRoutes.get('/alliances/:allianceId/recommendations', validateAllianceId, AidController.getAidRecommendations);
 
+// Get projected aid slot calendar for an alliance
+aidRoutes.get('/alliances/:allianceId/aid-calendar', validateAllianceId, AidController.getAidCalendar);
+
+// Get offers the alliance's nations cancelled or reneged on before expiring
+aidRoutes.get('/alliances/:allianceId/early-aid-cancellations', validateAllianceId, AidController.getEarlyAidCancellations);
+
 // Get categorized nations with slots for a specific alliance
 aidRoutes.get('/alliances/:allianceId/categorized-nations', validateAllianceId, AidController.getCategorizedNations);
 
@@ -2,6 +2,7 @@ import { Router } from 'express';
 import { StatsController } from '../controllers/statsController.js';
 import { AllianceController } from '../controllers/allianceController.js';
 import { CronController } from '../controllers/cronController.js';
+import { DiscordController } from '../controllers/discordController.js';
 import { AidEfficiencyController } from '../controllers/aidEfficiencyController.js';
 import { aidRoutes } from './aidRoutes.js';
 import { nationEditorRoutes } from './nationEditorRoutes.js';
@@ -20,6 +21,10 @@ import { userRoutes } from './userRoutes.js';
 import { warchestSubmissionRoutes } from './warchestSubmissionRoutes.js';
 import { authRoutes } from './authRoutes.js';
 import { adminRoutes } from './adminRoutes.js';
+import { nationRoutes } from './nationRoutes.js';
+import { notificationRoutes } from './notificationRoutes.js';
+import { meRoutes } from './meRoutes.js';
+import { battleReportRoutes } from './battleReportRoutes.js';
 import { validateAllianceId } from '../middleware/validation.js';
 
 export const apiRoutes = Router();
@@ -32,6 +37,9 @@ apiRoutes.post('/cron/sync-all', CronController.syncAll);
 apiRoutes.post('/cron/sync-all-detailed', CronController.syncAllDetailed);
 apiRoutes.post('/cron/run-post-processing', CronController.runPostProcessing);
 
+// Discord bot interactions endpoint (protected by Discord request signature, not session auth)
+apiRoutes.post('/discord/interactions', DiscordController.handleInteraction);
+
 // Dashboard API endpoints - register public routes first (no authentication required)
 apiRoutes.get('/alliances', AllianceController.getAlliances);
 apiRoutes.get('/alliance-nation-stats', AllianceController.getAllianceNationStats);
@@ -41,6 +49,12 @@ apiRoutes.get('/alliances/:allianceId/nuclear-stats', validateAllianceId, Allian
 // Use aid routes
 apiRoutes.use('/', aidRoutes);
 
+// Nation history and profile routes
+apiRoutes.use('/', nationRoutes);
+
+// Personal dashboard routes (authenticated users only)
+apiRoutes.use('/', meRoutes);
+
 // Use nation editor routes
 apiRoutes.use('/', nationEditorRoutes);
 
@@ -71,6 +85,9 @@ apiRoutes.use('/', donationsRoutes);
 // War statistics routes
 apiRoutes.use('/', warStatisticsRoutes);
 
+// Battle report routes
+apiRoutes.use('/', battleReportRoutes);
+
 // Casualties routes
 apiRoutes.use('/', casualtiesRoutes);
 
@@ -86,6 +103,9 @@ apiRoutes.use('/admin', adminRoutes);
 // Warchest submission routes (authenticated users only)
 apiRoutes.use('/', warchestSubmissionRoutes);
 
+// Discord webhook notification routes (alliance managers only)
+apiRoutes.use('/', notificationRoutes);
+
 
 
 // Stats decode endpoint - extract zip files from raw_data folder
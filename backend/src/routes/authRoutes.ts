@@ -2,6 +2,7 @@ import { Router, Request, Response } from 'express';
 import { findOrCreateUser, getEffectiveCapabilities, getUserRoles } from '../services/authService.js';
 import { getAuthUrl, generateState, getTokens, getUserInfo } from '../config/discordOAuth.js';
 import { prisma } from '../utils/prisma.js';
+import { findVerifiedRulerNameHolder, UNVERIFIED_RULER_NAME } from '../services/rulerNameVerificationService.js';
 import { requireAuth } from '../middleware/authMiddleware.js';
 import { getClearCookieOptions } from '../utils/cookieConfig.js';
 
@@ -149,6 +150,7 @@ authRoutes.get('/me', async (req: Request, res: Response) => {
         id: true,
         discordUsername: true,
         rulerName: true,
+        rulerNameVerifiedAt: true,
       },
     });
 
@@ -161,7 +163,7 @@ authRoutes.get('/me', async (req: Request, res: Response) => {
       });
     }
 
-    const [roles, { capabilities, managedAllianceIds }] = await Promise.all([
+    const [roles, { capabilities, managedAllianceIds, allianceCapabilities }] = await Promise.all([
       getUserRoles(userId),
       getEffectiveCapabilities(userId),
     ]);
@@ -172,9 +174,11 @@ authRoutes.get('/me', async (req: Request, res: Response) => {
         id: user.id,
         discordUsername: user.discordUsername,
         rulerName: user.rulerName,
+        rulerNameVerified: !!user.rulerName && !!user.rulerNameVerifiedAt,
         roles,
         capabilities,
         managedAllianceIds,
+        allianceCapabilities,
       },
     });
   } catch (error) {
@@ -198,7 +202,8 @@ authRoutes.get('/verify', (req: Request, res: Response) => {
 
 /**
  * Update user's rulerName
- * Only updates the rulerName field in the users table
+ * Only updates the rulerName field in the users table; changing the name (beyond its case)
+ * makes it an unverified claim again
  * Uses requireAuth middleware to ensure only the authenticated user can update their own rulerName
  */
 authRoutes.post('/update-rulername', requireAuth, async (req: Request, res: Response) => {
@@ -235,17 +240,28 @@ authRoutes.post('/update-rulername', requireAuth, async (req: Request, res: Resp
     }
 
     try {
+      const current = await prisma.user.findUnique({ where: { id: userId }, select: { rulerName: true } });
+      const nameChanged = current?.rulerName?.toLowerCase() !== trimmedRulerName.toLowerCase();
+      // Unverified claims may overlap until one of them is verified; verified names are taken
+      if (nameChanged && (await findVerifiedRulerNameHolder(trimmedRulerName, userId))) {
+        return res.status(409).json({
+          success: false,
+          error: 'This ruler name is already taken. Please choose a different one.',
+        });
+      }
+
       const updatedUser = await prisma.user.update({
         where: { id: userId },
-        data: { rulerName: trimmedRulerName },
+        data: { rulerName: trimmedRulerName, ...(nameChanged ? UNVERIFIED_RULER_NAME : {}) },
         select: {
           id: true,
           discordUsername: true,
           rulerName: true,
+          rulerNameVerifiedAt: true,
         },
       });
 
-      const [roles, { capabilities, managedAllianceIds }] = await Promise.all([
+      const [roles, { capabilities, managedAllianceIds, allianceCapabilities }] = await Promise.all([
         getUserRoles(userId),
         getEffectiveCapabilities(userId),
       ]);
@@ -256,13 +272,15 @@ authRoutes.post('/update-rulername', requireAuth, async (req: Request, res: Resp
           id: updatedUser.id,
           discordUsername: updatedUser.discordUsername,
           rulerName: updatedUser.rulerName,
+          rulerNameVerified: !!updatedUser.rulerNameVerifiedAt,
           roles,
           capabilities,
           managedAllianceIds,
+          allianceCapabilities,
         },
       });
     } catch (error: any) {
-      // Handle unique constraint violation (rulerName must be unique)
+      // Handle unique constraint violation (verified ruler names must be unique)
       if (error.code === 'P2002' && error.meta?.target?.includes('ruler_name')) {
         return res.status(409).json({
           success: false,
@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { BattleReportController } from '../controllers/battleReportController.js';
+import { requireCapability } from '../middleware/authMiddleware.js';
+
+export const battleReportRoutes = Router();
+
+// Ingest battle messages (pasted inbox text or JSON; session or API key with ingest_wars)
+battleReportRoutes.post('/battles/ingest', requireCapability('ingest_wars', { anyAlliance: true }), BattleReportController.ingest);
+
+// Battle totals per nation
+battleReportRoutes.get('/battles/nation-stats', BattleReportController.nationStats);
+
+// Battle totals per war
+battleReportRoutes.get('/battles/war-stats', BattleReportController.warStats);
@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { CsvController } from '../controllers/csvController.js';
+import { requireCapability } from '../middleware/authMiddleware.js';
 
 export const csvRoutes = Router();
 
@@ -7,9 +8,10 @@ export const csvRoutes = Router();
 // Format: /api/csv/:type/:action
 // Types: nations, aid-offers, wars
 // Actions: download, parse, update, sync
+// All require sync_data (session or API key)
 
-csvRoutes.post('/csv/:type/download', CsvController.downloadCsv);
-csvRoutes.get('/csv/:type/parse', CsvController.parseCsv);
-csvRoutes.post('/csv/:type/update', CsvController.updateFromCsv);
-csvRoutes.post('/:type/sync', CsvController.syncCsv);
+csvRoutes.post('/csv/:type/download', requireCapability('sync_data'), CsvController.downloadCsv);
+csvRoutes.get('/csv/:type/parse', requireCapability('sync_data'), CsvController.parseCsv);
+csvRoutes.post('/csv/:type/update', requireCapability('sync_data'), CsvController.updateFromCsv);
+csvRoutes.post('/:type/sync', requireCapability('sync_data'), CsvController.syncCsv);
 
@@ -1,8 +1,8 @@
 import { Router } from 'express';
 import { DynamicWarController } from '../controllers/dynamicWarController.js';
+import { requireCapability } from '../middleware/authMiddleware.js';
 
 export const dynamicWarRoutes = Router();
 
-// Add or update wars in the War table (same as CSV sync process)
-// This endpoint now updates the wars table directly instead of a separate dynamic_wars table
-dynamicWarRoutes.post('/dynamic-wars/ingest', DynamicWarController.addDynamicWar);
+// Add or update scraped wars in the War table, reconciled with the war file (session or API key with ingest_wars)
+dynamicWarRoutes.post('/dynamic-wars/ingest', requireCapability('ingest_wars', { anyAlliance: true }), DynamicWarController.addDynamicWar);
@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import { MeController } from '../controllers/meController.js';
+import { requireAuth } from '../middleware/authMiddleware.js';
+
+export const meRoutes = Router();
+
+// Personal dashboard for the logged-in user
+meRoutes.get('/me/dashboard', requireAuth, MeController.getDashboard);
+
+// API keys for userscripts, managed with the Discord session only
+meRoutes.get('/me/api-keys', requireAuth, MeController.listApiKeys);
+meRoutes.post('/me/api-keys', requireAuth, MeController.createApiKey);
+meRoutes.delete('/me/api-keys/:keyId', requireAuth, MeController.revokeApiKey);
+
+// Proving the logged-in user owns the nation their ruler name points at
+meRoutes.get('/me/ruler-name-verification', requireAuth, MeController.getRulerNameVerification);
+meRoutes.post('/me/ruler-name-verification', requireAuth, MeController.issueRulerNameCode);
+meRoutes.post('/me/ruler-name-verification/check', requireAuth, MeController.checkRulerNameCode);
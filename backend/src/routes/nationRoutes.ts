@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { NationController } from '../controllers/nationController.js';
+import { validateNationId } from '../middleware/validation.js';
+
+export const nationRoutes = Router();
+
+// Get stat snapshot history for a nation
+nationRoutes.get('/nations/:nationId/history', validateNationId, NationController.getNationHistory);
+
+// Get the aggregated profile for a nation
+nationRoutes.get('/nations/:nationId/profile', validateNationId, NationController.getNationProfile);
+
+// Get the warchest timeline for a nation (spyglass readings and spy operations)
+nationRoutes.get('/nations/:nationId/warchest-timeline', validateNationId, NationController.getWarchestTimeline);
@@ -0,0 +1,59 @@
+import { Router } from 'express';
+import { NotificationController } from '../controllers/notificationController.js';
+import { validateAllianceId } from '../middleware/validation.js';
+import { requireCapability } from '../middleware/authMiddleware.js';
+
+export const notificationRoutes = Router();
+
+const requireAllianceManager = requireCapability('manage_alliance', { paramKey: 'allianceId' });
+
+// Event types that can be subscribed to
+notificationRoutes.get('/notifications/event-types', NotificationController.getEventTypes);
+
+// Discord webhook subscriptions for an alliance (manage_alliance for that alliance)
+notificationRoutes.get(
+  '/alliances/:allianceId/notification-subscriptions',
+  validateAllianceId,
+  requireAllianceManager,
+  NotificationController.getSubscriptions
+);
+notificationRoutes.post(
+  '/alliances/:allianceId/notification-subscriptions',
+  validateAllianceId,
+  requireAllianceManager,
+  NotificationController.createSubscription
+);
+notificationRoutes.put(
+  '/alliances/:allianceId/notification-subscriptions/:subscriptionId',
+  validateAllianceId,
+  requireAllianceManager,
+  NotificationController.updateSubscription
+);
+notificationRoutes.delete(
+  '/alliances/:allianceId/notification-subscriptions/:subscriptionId',
+  validateAllianceId,
+  requireAllianceManager,
+  NotificationController.deleteSubscription
+);
+
+// Send a test message to a subscription's webhook
+notificationRoutes.post(
+  '/alliances/:allianceId/notification-subscriptions/:subscriptionId/test',
+  validateAllianceId,
+  requireAllianceManager,
+  NotificationController.sendTestNotification
+);
+
+// Delivery log and manual retry
+notificationRoutes.get(
+  '/alliances/:allianceId/notification-deliveries',
+  validateAllianceId,
+  requireAllianceManager,
+  NotificationController.getDeliveries
+);
+notificationRoutes.post(
+  '/alliances/:allianceId/notification-deliveries/:deliveryId/retry',
+  validateAllianceId,
+  requireAllianceManager,
+  NotificationController.retryDelivery
+);
@@ -1,10 +1,11 @@
 import { Router } from 'express';
 import { NuclearHitsController } from '../controllers/nuclearHitsController.js';
+import { requireAuth, requireCapability } from '../middleware/authMiddleware.js';
 
 export const nuclearHitsRoutes = Router();
 
-// Ingest a list of nuclear hit reports
-nuclearHitsRoutes.post('/nuclear/ingest', NuclearHitsController.ingest);
+// Ingest a list of nuclear hit reports (session or API key with ingest_nuclear)
+nuclearHitsRoutes.post('/nuclear/ingest', requireCapability('ingest_nuclear', { anyAlliance: true }), NuclearHitsController.ingest);
 
 // Retrieve all stored nuclear hits (keyed object)
 nuclearHitsRoutes.get('/nuclear', NuclearHitsController.all);
@@ -15,4 +16,19 @@ nuclearHitsRoutes.get('/nuclear/stats', NuclearHitsController.stats);
 // Retrieve timeline aggregated counts by interval (default 5 minutes)
 nuclearHitsRoutes.get('/nuclear/timeline', NuclearHitsController.timeline);
 
+// Nuke success rates, inferred SDIs and daily caps per nation
+nuclearHitsRoutes.get('/nuclear/nations', NuclearHitsController.nationStats);
 
+// Nuke success rates per alliance
+nuclearHitsRoutes.get('/nuclear/alliances', NuclearHitsController.allianceStats);
+
+// Attacker and defender names that matched no nation
+nuclearHitsRoutes.get('/nuclear/unmatched', NuclearHitsController.unmatched);
+
+// Attach an unmatched name to a nation (war managers, globally or in an alliance on the reports)
+nuclearHitsRoutes.post(
+  '/nuclear/unmatched/resolve',
+  requireAuth,
+  requireCapability('manage_war_assignments', { anyAlliance: true }),
+  NuclearHitsController.resolveUnmatched
+);
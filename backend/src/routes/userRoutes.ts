@@ -10,3 +10,6 @@ userRoutes.get('/users', requireAuth, requireCapability('manage_users'), UserCon
 // Update a user
 userRoutes.put('/users/:id', requireAuth, requireCapability('manage_users'), UserController.updateUser);
 
+
+// Confirm or withdraw a user's ruler name verification
+userRoutes.put('/users/:id/ruler-name-verification', requireAuth, requireCapability('manage_users'), UserController.setRulerNameVerification);
@@ -14,12 +14,12 @@ warManagementRoutes.get('/alliances/:allianceId/defending-wars', validateAllianc
 // Get defending wars statistics for an alliance
 warManagementRoutes.get('/alliances/:allianceId/defending-wars-stats', validateAllianceId, WarManagementController.getDefendingWarsStats);
 
-// War assignments for an alliance (manage_war_assignments capability)
+// War assignments against an alliance (manage_war_assignments, globally or in the attacking alliances)
 warManagementRoutes.get(
   '/alliances/:allianceId/war-assignments',
   validateAllianceId,
   requireAuth,
-  requireCapability('manage_war_assignments'),
+  requireCapability('manage_war_assignments', { anyAlliance: true }),
   WarManagementController.getWarAssignments
 );
 
@@ -27,15 +27,42 @@ warManagementRoutes.post(
   '/alliances/:allianceId/war-assignments',
   validateAllianceId,
   requireAuth,
-  requireCapability('manage_war_assignments'),
+  requireCapability('manage_war_assignments', { anyAlliance: true }),
   WarManagementController.createWarAssignment
 );
 
+// Create several war assignments at once, e.g. a committed blitz plan
+warManagementRoutes.post(
+  '/alliances/:allianceId/war-assignments/batch',
+  validateAllianceId,
+  requireAuth,
+  requireCapability('manage_war_assignments', { anyAlliance: true }),
+  WarManagementController.createWarAssignmentsBatch
+);
+
+// Proposed blitz against this alliance (?attackingAllianceId=&date=YYYY-MM-DD)
+warManagementRoutes.get(
+  '/alliances/:allianceId/blitz-plan',
+  validateAllianceId,
+  requireAuth,
+  requireCapability('manage_war_assignments', { anyAlliance: true }),
+  WarManagementController.getBlitzPlan
+);
+
+// Multi-day stagger waves against this alliance (?attackingAllianceId=&startDate=YYYY-MM-DD&days=)
+warManagementRoutes.get(
+  '/alliances/:allianceId/stagger-schedule',
+  validateAllianceId,
+  requireAuth,
+  requireCapability('manage_war_assignments', { anyAlliance: true }),
+  WarManagementController.getStaggerSchedule
+);
+
 warManagementRoutes.delete(
   '/alliances/:allianceId/war-assignments/:assignmentId',
   validateAllianceId,
   requireAuth,
-  requireCapability('manage_war_assignments'),
+  requireCapability('manage_war_assignments', { anyAlliance: true }),
   WarManagementController.deleteWarAssignment
 );
 
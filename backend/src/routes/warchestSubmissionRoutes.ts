@@ -1,11 +1,20 @@
 import { Router } from 'express';
 import { WarchestSubmissionController } from '../controllers/warchestSubmissionController.js';
+import { requireAuth, requireCapability } from '../middleware/authMiddleware.js';
 
 export const warchestSubmissionRoutes = Router();
 
-// Submit a warchest entry (publicly accessible)
-warchestSubmissionRoutes.post('/warchest-submissions', WarchestSubmissionController.submit);
+// Submit a warchest entry (session or API key with ingest_warchest)
+warchestSubmissionRoutes.post('/warchest-submissions', requireCapability('ingest_warchest', { anyAlliance: true }), WarchestSubmissionController.submit);
 
 // Get warchest submissions (publicly accessible)
 warchestSubmissionRoutes.get('/warchest-submissions', WarchestSubmissionController.list);
 
+// Upload a spyglass export (war managers, globally or in any alliance: exports are intel on
+// other alliances' nations, so there is no alliance of their own to check)
+warchestSubmissionRoutes.post(
+  '/spyglass/upload',
+  requireAuth,
+  requireCapability('manage_war_assignments', { anyAlliance: true }),
+  WarchestSubmissionController.uploadSpyglass
+);
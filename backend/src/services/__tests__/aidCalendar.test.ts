@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { projectAidCalendar, AidCalendarNation, AidCalendarOffer } from '../aidCalendar.js';
+
+const nation = (
+  id: number,
+  slots: { sendCash?: number; sendTech?: number; getCash?: number; getTech?: number },
+  inWarMode = true
+): AidCalendarNation => ({
+  id,
+  rulerName: `Ruler ${id}`,
+  nationName: `Nation ${id}`,
+  inWarMode,
+  slots: {
+    sendCash: slots.sendCash ?? 0,
+    sendTech: slots.sendTech ?? 0,
+    getCash: slots.getCash ?? 0,
+    getTech: slots.getTech ?? 0,
+    external: 0,
+    send_priority: 1,
+    receive_priority: 1,
+  },
+});
+
+const dates = (count: number) => Array.from({ length: count }, (_, i) => `day-${i}`);
+
+describe('projectAidCalendar', () => {
+  it('frees slots on the day an offer expires and re-establishes the pair', () => {
+    const nations = [nation(1, { sendCash: 1 }), nation(2, { getCash: 1 })];
+    const offers: AidCalendarOffer[] = [
+      { aidId: 10, declaringId: 1, receivingId: 2, type: 'cash', daysUntilExpiration: 3 },
+    ];
+
+    const calendar = projectAidCalendar(nations, offers, dates(5));
+
+    expect(calendar.map(day => day.pairings.length)).toEqual([0, 0, 0, 1, 0]);
+    expect(calendar[3].expiringOffers).toBe(1);
+    expect(calendar[3].freedSlots).toEqual([
+      { nationId: 1, rulerName: 'Ruler 1', nationName: 'Nation 1', send: 1, receive: 0 },
+      { nationId: 2, rulerName: 'Ruler 2', nationName: 'Nation 2', send: 0, receive: 1 },
+    ]);
+    expect(calendar[3].pairings[0]).toMatchObject({
+      kind: 'reestablish',
+      type: 'cash',
+      sender: { id: 1 },
+      recipient: { id: 2 },
+      expiresInDays: 13,
+    });
+  });
+
+  it('fills open slots today and keeps scheduled pairings occupied afterwards', () => {
+    const nations = [nation(1, { sendTech: 1 }), nation(2, { getTech: 1 }), nation(3, { getTech: 1 })];
+
+    const calendar = projectAidCalendar(nations, [], dates(12));
+
+    expect(calendar[0].pairings).toHaveLength(1);
+    expect(calendar[0].pairings[0].kind).toBe('new');
+    expect(calendar[0].openReceiveSlots).toBe(1);
+    // Nation 1's only send slot is taken until the scheduled offer expires on day 10
+    expect(calendar.slice(1, 10).every(day => day.pairings.length === 0)).toBe(true);
+    expect(calendar[10].pairings).toHaveLength(1);
+  });
+
+  it('does not schedule senders in peace mode and counts external offers against the total', () => {
+    const nations = [nation(1, { sendCash: 1 }, false), nation(2, { getCash: 6 }), nation(3, { sendCash: 2 })];
+    const offers: AidCalendarOffer[] = Array.from({ length: 6 }, (_, i) => ({
+      aidId: 100 + i,
+      declaringId: 900 + i,
+      receivingId: 2,
+      type: null,
+      daysUntilExpiration: 2,
+    }));
+
+    const calendar = projectAidCalendar(nations, offers, dates(3));
+
+    expect(calendar[0].pairings).toHaveLength(0);
+    expect(calendar[2].freedSlots).toEqual([
+      { nationId: 2, rulerName: 'Ruler 2', nationName: 'Nation 2', send: 0, receive: 6 },
+    ]);
+    expect(calendar[2].pairings.map(p => p.sender.id)).toEqual([3]);
+  });
+});
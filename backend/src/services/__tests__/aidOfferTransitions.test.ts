@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import {
+  classifyAidOfferTransition,
+  summarizeEarlyAidCancellations,
+  EndedAidOfferTransition,
+} from '../aidOfferTransitions.js';
+
+// Offer dates are Central Time (UTC-6): four and eleven days before `now`
+const now = new Date('2026-10-19T12:00:00Z');
+const fourDaysAgo = '10/15/2026 6:00:00 AM';
+const elevenDaysAgo = '10/8/2026 6:00:00 AM';
+
+describe('classifyAidOfferTransition', () => {
+  it('calls pending offers that end early cancelled and approved ones reneged', () => {
+    expect(classifyAidOfferTransition('Pending', 'Cancelled', fourDaysAgo, now)).toBe('cancelled');
+    expect(classifyAidOfferTransition('Approved', 'Cancelled', fourDaysAgo, now)).toBe('reneged');
+    expect(classifyAidOfferTransition('Approved', 'Disappeared', fourDaysAgo, now)).toBe('reneged');
+  });
+
+  it('calls offers that reach their expiry expired', () => {
+    expect(classifyAidOfferTransition('Approved', 'Expired', fourDaysAgo, now)).toBe('expired');
+    expect(classifyAidOfferTransition('Approved', 'Disappeared', elevenDaysAgo, now)).toBe('expired');
+  });
+
+  it('ignores new offers, live status changes and offers that had already ended', () => {
+    expect(classifyAidOfferTransition(null, 'Cancelled', fourDaysAgo, now)).toBeNull();
+    expect(classifyAidOfferTransition('Pending', 'Approved', fourDaysAgo, now)).toBeNull();
+    expect(classifyAidOfferTransition('Cancelled', 'Disappeared', fourDaysAgo, now)).toBeNull();
+    expect(classifyAidOfferTransition('Disappeared', 'Approved', fourDaysAgo, now)).toBeNull();
+  });
+});
+
+describe('summarizeEarlyAidCancellations', () => {
+  const transition = (partial: Partial<EndedAidOfferTransition>): EndedAidOfferTransition => ({
+    aidId: 1,
+    declaringNationId: 1,
+    receivingNationId: 2,
+    declaringAllianceId: 10,
+    receivingAllianceId: 10,
+    fromStatus: 'Approved',
+    toStatus: 'Cancelled',
+    outcome: 'reneged',
+    date: fourDaysAgo,
+    observedAt: now,
+    money: 6000000,
+    technology: 0,
+    soldiers: 0,
+    ...partial,
+  });
+  const nations = new Map([1, 2, 3].map(id => [id, { id, rulerName: `Ruler ${id}`, nationName: `Nation ${id}` }]));
+
+  it('counts early ends for alliance nations on either side of the offer', () => {
+    const report = summarizeEarlyAidCancellations(10, [
+      transition({ aidId: 1 }),
+      transition({ aidId: 2, fromStatus: 'Pending', outcome: 'cancelled', receivingNationId: 3, receivingAllianceId: 20 }),
+      transition({ aidId: 3, toStatus: 'Expired', outcome: 'expired', date: elevenDaysAgo }),
+    ], nations);
+
+    expect(report.map(n => [n.nationId, n.cancelled, n.reneged, n.ended])).toEqual([
+      [1, 1, 1, 3],
+      [2, 0, 1, 2],
+    ]);
+    expect(report[1].offers[0]).toMatchObject({ aidId: 1, direction: 'received', otherNation: { id: 1 } });
+    expect(report[1].offers[0].daysActive).toBeCloseTo(4);
+  });
+
+  it('leaves out nations whose offers all expired', () => {
+    const report = summarizeEarlyAidCancellations(10, [transition({ outcome: 'expired', toStatus: 'Expired' })], nations);
+    expect(report).toEqual([]);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { solveAidSlotAssignment, AidSlotCapacity, AidSlotCandidate } from '../aidSlotSolver.js';
+
+const capacity = (nationId: number, slots: Partial<AidSlotCapacity>): AidSlotCapacity => ({
+  nationId,
+  sendCash: 0,
+  sendTech: 0,
+  getCash: 0,
+  getTech: 0,
+  total: 6,
+  ...slots,
+});
+
+const candidate = (senderId: number, recipientId: number, type: 'cash' | 'tech', cost: number): AidSlotCandidate => ({
+  senderId,
+  recipientId,
+  type,
+  cost,
+});
+
+const pairs = (result: AidSlotCandidate[]) =>
+  result.map(c => `${c.senderId}->${c.recipientId}:${c.type}`).sort();
+
+describe('solveAidSlotAssignment', () => {
+  it('fills more slots than a cheapest-first greedy pass', () => {
+    const capacities = [
+      capacity(1, { sendCash: 1 }),
+      capacity(2, { sendCash: 1 }),
+      capacity(10, { getCash: 1 }),
+      capacity(11, { getCash: 1 }),
+    ];
+    // Greedy would take 1->10 first and leave nation 2 with nobody to send to
+    const candidates = [
+      candidate(1, 10, 'cash', 1),
+      candidate(1, 11, 'cash', 5),
+      candidate(2, 10, 'cash', 1),
+    ];
+
+    const result = solveAidSlotAssignment(capacities, candidates);
+
+    expect(pairs(result)).toEqual(['1->11:cash', '2->10:cash']);
+  });
+
+  it('prefers lower cost when the fill is the same', () => {
+    const capacities = [
+      capacity(1, { sendTech: 1 }),
+      capacity(10, { getTech: 1 }),
+      capacity(11, { getTech: 1 }),
+    ];
+    const candidates = [
+      candidate(1, 10, 'tech', 8),
+      candidate(1, 11, 'tech', 2),
+    ];
+
+    expect(pairs(solveAidSlotAssignment(capacities, candidates))).toEqual(['1->11:tech']);
+  });
+
+  it('respects per-type and total capacity', () => {
+    const capacities = [
+      capacity(1, { sendCash: 3, total: 2 }),
+      capacity(10, { getCash: 1 }),
+      capacity(11, { getCash: 1 }),
+      capacity(12, { getCash: 1 }),
+      capacity(13, { getTech: 1 }),
+    ];
+    const candidates = [
+      candidate(1, 10, 'cash', 1),
+      candidate(1, 11, 'cash', 1),
+      candidate(1, 12, 'cash', 1),
+      candidate(1, 13, 'tech', 1),
+    ];
+
+    const result = solveAidSlotAssignment(capacities, candidates);
+
+    expect(result).toHaveLength(2);
+    expect(result.every(c => c.type === 'cash')).toBe(true);
+  });
+
+  it('never recommends the same nation pair twice', () => {
+    const capacities = [
+      capacity(1, { sendCash: 1, getTech: 1 }),
+      capacity(2, { sendTech: 1, getCash: 1 }),
+    ];
+    const candidates = [
+      candidate(1, 2, 'cash', 1),
+      candidate(2, 1, 'tech', 1),
+    ];
+
+    expect(solveAidSlotAssignment(capacities, candidates)).toHaveLength(1);
+  });
+
+  it('ignores candidates for nations without capacity entries', () => {
+    const capacities = [capacity(1, { sendCash: 1 })];
+    expect(solveAidSlotAssignment(capacities, [candidate(1, 99, 'cash', 1)])).toEqual([]);
+  });
+});
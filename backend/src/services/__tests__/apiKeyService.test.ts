@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../utils/prisma.js', () => ({
+  prisma: {
+    apiKey: {
+      create: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('../authService.js', () => ({
+  getCapabilityScope: vi.fn(),
+}));
+
+import { prisma } from '../../utils/prisma.js';
+import { getCapabilityScope } from '../authService.js';
+import { authenticateApiKey, createApiKey, hashApiKey } from '../apiKeyService.js';
+
+describe('createApiKey', () => {
+  beforeEach(() => {
+    vi.mocked(prisma.apiKey.create).mockReset().mockImplementation((async (args: any) => ({ id: 1, ...args.data })) as any);
+    vi.mocked(getCapabilityScope).mockReset().mockResolvedValue({ global: true, allianceIds: [] });
+  });
+
+  it('stores only the hash of the key it returns', async () => {
+    const { key } = await createApiKey(7, 'Nuke reporter', ['ingest_nuclear']);
+
+    const data = vi.mocked(prisma.apiKey.create).mock.calls[0][0].data;
+    expect(key.startsWith('cnk_')).toBe(true);
+    expect(data.keyHash).toBe(hashApiKey(key));
+    expect(Object.values(data)).not.toContain(key);
+    expect(key.startsWith(data.prefix)).toBe(true);
+  });
+
+  it('rejects scopes keys cannot have and scopes the user lacks', async () => {
+    await expect(createApiKey(7, 'Admin key', ['manage_users'])).rejects.toThrow('Unknown scopes: manage_users');
+
+    vi.mocked(getCapabilityScope).mockResolvedValue({ global: false, allianceIds: [] });
+    await expect(createApiKey(7, 'Sync key', ['sync_data'])).rejects.toThrow("You don't have the sync_data capability");
+    expect(prisma.apiKey.create).not.toHaveBeenCalled();
+  });
+
+  it('accepts ingest scopes held through a role in one alliance', async () => {
+    vi.mocked(getCapabilityScope).mockResolvedValue({ global: false, allianceIds: [10] });
+
+    await createApiKey(7, 'War scraper', ['ingest_wars']);
+
+    expect(prisma.apiKey.create).toHaveBeenCalled();
+  });
+});
+
+describe('authenticateApiKey', () => {
+  beforeEach(() => {
+    vi.mocked(prisma.apiKey.findUnique).mockReset();
+    vi.mocked(prisma.apiKey.update).mockReset();
+  });
+
+  it('accepts an active key and records its use', async () => {
+    vi.mocked(prisma.apiKey.findUnique).mockResolvedValue({
+      id: 3, userId: 7, scopes: ['ingest_wars'], lastUsedAt: null, revokedAt: null,
+    } as any);
+
+    expect(await authenticateApiKey('cnk_secret')).toEqual({ id: 3, userId: 7, scopes: ['ingest_wars'] });
+    expect(vi.mocked(prisma.apiKey.findUnique).mock.calls[0][0].where).toEqual({ keyHash: hashApiKey('cnk_secret') });
+    expect(prisma.apiKey.update).toHaveBeenCalledOnce();
+  });
+
+  it('turns away revoked keys', async () => {
+    vi.mocked(prisma.apiKey.findUnique).mockResolvedValue({
+      id: 3, userId: 7, scopes: ['ingest_wars'], lastUsedAt: null, revokedAt: new Date(),
+    } as any);
+
+    expect(await authenticateApiKey('cnk_secret')).toBeNull();
+    expect(prisma.apiKey.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../utils/prisma.js', () => ({
+  prisma: {
+    auditLog: {
+      createMany: vi.fn(),
+    },
+  },
+}));
+
+import { prisma } from '../../utils/prisma.js';
+import { AUDIT_ACTIONS, recordAudit } from '../auditLogService.js';
+
+describe('recordAudit', () => {
+  beforeEach(() => {
+    vi.mocked(prisma.auditLog.createMany).mockReset().mockResolvedValue({ count: 1 } as any);
+  });
+
+  it('stores each entry with its alliances deduplicated and dates as JSON', async () => {
+    await recordAudit(4, [
+      {
+        action: AUDIT_ACTIONS.WAR_ALLIANCE_IDS,
+        targetType: 'war',
+        targetId: 123,
+        allianceIds: [10, null, 20, 10, undefined],
+        before: { declaringAllianceId: 10 },
+        after: { declaringAllianceId: 20, checkedAt: new Date('2026-10-19T12:00:00Z') },
+      },
+      { action: AUDIT_ACTIONS.ROLE_CAPABILITIES, targetType: 'role', targetId: 'USER' },
+    ]);
+
+    const { data } = vi.mocked(prisma.auditLog.createMany).mock.calls[0][0] as { data: any[] };
+    expect(data[0]).toEqual({
+      actorUserId: 4,
+      action: 'war.alliance_ids',
+      targetType: 'war',
+      targetId: '123',
+      allianceIds: [10, 20],
+      before: { declaringAllianceId: 10 },
+      after: { declaringAllianceId: 20, checkedAt: '2026-10-19T12:00:00.000Z' },
+    });
+    expect(data[1]).toMatchObject({ targetId: 'USER', allianceIds: [], before: undefined, after: undefined });
+  });
+
+  it("doesn't fail the change it records when the log can't be written", async () => {
+    vi.mocked(prisma.auditLog.createMany).mockRejectedValue(new Error('connection lost'));
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(
+      recordAudit(4, { action: AUDIT_ACTIONS.USER_UPDATE, targetType: 'user', targetId: 9 })
+    ).resolves.toBeUndefined();
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
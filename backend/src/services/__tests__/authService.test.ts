@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../utils/prisma.js', () => ({
+  prisma: {
+    userRoleAssignment: { findMany: vi.fn() },
+    userAllianceManager: { findUnique: vi.fn() },
+    userAllianceRole: { findMany: vi.fn() },
+  },
+}));
+
+vi.mock('../capabilityService.js', () => ({
+  getCapabilitiesForRoles: vi.fn(),
+}));
+
+import { prisma } from '../../utils/prisma.js';
+import { getCapabilitiesForRoles } from '../capabilityService.js';
+import { getCapabilityScope, hasCapability } from '../authService.js';
+
+const ROLE_CAPABILITIES: Record<string, string[]> = {
+  ADMIN: ['manage_all_alliance', 'manage_war_assignments'],
+  ALLIANCE_MANAGER: ['manage_alliance'],
+  WAR_MANAGER: ['manage_war_assignments'],
+  USER: [],
+};
+
+// Alliance 10 grants WAR_MANAGER, alliance 20 grants ALLIANCE_MANAGER
+const ALLIANCE_ROLES = [
+  { allianceId: 10, role: 'WAR_MANAGER' },
+  { allianceId: 20, role: 'ALLIANCE_MANAGER' },
+];
+
+describe('hasCapability', () => {
+  beforeEach(() => {
+    vi.mocked(prisma.userRoleAssignment.findMany).mockReset().mockResolvedValue([{ role: 'USER' }] as any);
+    vi.mocked(prisma.userAllianceManager.findUnique).mockReset().mockResolvedValue(null);
+    vi.mocked(prisma.userAllianceRole.findMany).mockReset().mockImplementation((async (args: any) =>
+      ALLIANCE_ROLES.filter((grant) => grant.allianceId === args.where.allianceId)) as any);
+    vi.mocked(getCapabilitiesForRoles).mockReset().mockImplementation(async (roles) =>
+      Array.from(new Set(roles.flatMap((role) => ROLE_CAPABILITIES[role]))));
+  });
+
+  it('limits a role granted in one alliance to that alliance', async () => {
+    expect(await hasCapability(1, 'manage_war_assignments', { allianceId: 10 })).toBe(true);
+    expect(await hasCapability(1, 'manage_war_assignments', { allianceId: 30 })).toBe(false);
+    expect(await hasCapability(1, 'manage_war_assignments')).toBe(false);
+  });
+
+  it('lets an alliance-scoped manager role manage that alliance', async () => {
+    expect(await hasCapability(1, 'manage_alliance', { allianceId: 20 })).toBe(true);
+    expect(await hasCapability(1, 'manage_alliance', { allianceId: 10 })).toBe(false);
+  });
+
+  it('keeps roles assigned without an alliance global', async () => {
+    vi.mocked(prisma.userRoleAssignment.findMany).mockResolvedValue([{ role: 'WAR_MANAGER' }] as any);
+
+    expect(await hasCapability(1, 'manage_war_assignments', { allianceId: 30 })).toBe(true);
+    expect(await hasCapability(1, 'manage_war_assignments')).toBe(true);
+    expect(prisma.userAllianceRole.findMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('getCapabilityScope', () => {
+  beforeEach(() => {
+    vi.mocked(prisma.userRoleAssignment.findMany).mockReset().mockResolvedValue([{ role: 'USER' }] as any);
+    vi.mocked(prisma.userAllianceRole.findMany).mockReset().mockResolvedValue(ALLIANCE_ROLES as any);
+    vi.mocked(getCapabilitiesForRoles).mockReset().mockImplementation(async (roles) =>
+      Array.from(new Set(roles.flatMap((role) => ROLE_CAPABILITIES[role]))));
+  });
+
+  it('lists the alliances whose scoped roles grant the capability', async () => {
+    expect(await getCapabilityScope(1, 'manage_war_assignments')).toEqual({ global: false, allianceIds: [10] });
+  });
+
+  it('is global when a role assigned without an alliance grants it', async () => {
+    vi.mocked(prisma.userRoleAssignment.findMany).mockResolvedValue([{ role: 'WAR_MANAGER' }] as any);
+
+    expect(await getCapabilityScope(1, 'manage_war_assignments')).toEqual({ global: true, allianceIds: [] });
+  });
+});
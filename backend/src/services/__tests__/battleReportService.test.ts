@@ -0,0 +1,89 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../utils/prisma.js', () => ({
+  prisma: {},
+}));
+
+import { addBattleToTotals, parseBattleMessages, toBattleReport, BattleTotals } from '../battleReportService.js';
+
+const INBOX = `
+TO: Defender Ruler | FROM: Attacker Ruler
+TYPE: Ground Battle Attack | DATE: 10/5/2025 5:18:15 PM
+Your ground battle was a Defeat.
+You lost 1,200 soldiers and 30 tanks. You killed 800 soldiers and 10 tanks.
+Your enemy destroyed 12.50 infrastructure and looted $45,000.00.
+
+TO: Defender Ruler | FROM: Attacker Ruler
+TYPE: Bombing Attack | DATE: 10/5/2025 5:20:00 PM
+An escorted bombing run hit your nation: you lost 25 defending tanks, 0 cruise missiles and 3.25 infrastructure.
+
+TO: Someone | FROM: Someone Else
+TYPE: Private Message | DATE: 10/5/2025 6:00:00 PM
+hello
+`;
+
+describe('battleReportService', () => {
+  describe('parseBattleMessages', () => {
+    it('splits pasted inbox text into messages', () => {
+      const messages = parseBattleMessages(INBOX);
+      expect(messages).toHaveLength(3);
+      expect(messages[0]).toMatchObject({
+        to: 'Defender Ruler',
+        from: 'Attacker Ruler',
+        type: 'Ground Battle Attack',
+        date: '10/5/2025 5:18:15 PM',
+      });
+      expect(messages[2].type).toBe('Private Message');
+    });
+  });
+
+  describe('toBattleReport', () => {
+    const [ground, air, other] = parseBattleMessages(INBOX);
+
+    it('maps ground battle losses to attacker and defender', () => {
+      const report = toBattleReport(ground)!;
+      expect(report.battleType).toBe('ground');
+      expect(report.attackerWon).toBe(true);
+      expect(report.defenderSoldiersLost).toBe(1200);
+      expect(report.defenderTanksLost).toBe(30);
+      expect(report.attackerSoldiersLost).toBe(800);
+      expect(report.attackerTanksLost).toBe(10);
+      expect(report.infrastructureDestroyed).toBe(12.5);
+      expect(report.moneyLooted).toBe(45000);
+    });
+
+    it('parses air attacks and ignores non-battle messages', () => {
+      const report = toBattleReport(air)!;
+      expect(report.battleType).toBe('air');
+      expect(report.attackerWon).toBe(true);
+      expect(report.defenderTanksLost).toBe(25);
+      expect(report.infrastructureDestroyed).toBe(3.25);
+      expect(toBattleReport(other)).toBeNull();
+    });
+
+    it('produces the same key for the same message', () => {
+      expect(toBattleReport(ground)!.key).toBe(toBattleReport({ ...ground })!.key);
+      expect(toBattleReport(ground)!.key).not.toBe(toBattleReport(air)!.key);
+    });
+  });
+
+  describe('addBattleToTotals', () => {
+    it('counts damage as dealt for the attacker and lost for the defender', () => {
+      const report = toBattleReport(parseBattleMessages(INBOX)[0])!;
+      const stored = { ...report, warId: null, attackingNationId: 1, defendingNationId: 2 };
+      const empty = (): BattleTotals => ({
+        battles: 0, wins: 0, soldiersKilled: 0, tanksKilled: 0, soldiersLost: 0, tanksLost: 0,
+        infrastructureDestroyed: 0, infrastructureLost: 0, landDestroyed: 0, technologyDestroyed: 0,
+        moneyLooted: 0, moneyLost: 0,
+      });
+      const attacker = empty();
+      const defender = empty();
+
+      addBattleToTotals(attacker, stored, true);
+      addBattleToTotals(defender, stored, false);
+
+      expect(attacker).toMatchObject({ battles: 1, wins: 1, soldiersKilled: 1200, soldiersLost: 800, infrastructureDestroyed: 12.5, moneyLooted: 45000 });
+      expect(defender).toMatchObject({ battles: 1, wins: 0, soldiersKilled: 800, soldiersLost: 1200, infrastructureLost: 12.5, moneyLost: 45000 });
+    });
+  });
+});
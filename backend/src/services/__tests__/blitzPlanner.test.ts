@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { planBlitz, blitzPairKey, BlitzAttacker, BlitzDefender } from '../blitzPlanner.js';
+
+const attacker = (id: number, strength: number, nuclearWeapons = 0, openSlots = 3): BlitzAttacker => ({
+  id,
+  rulerName: `Attacker ${id}`,
+  nationName: `Attacking Nation ${id}`,
+  strength,
+  technology: '0',
+  nuclearWeapons,
+  openSlots,
+});
+
+const defender = (id: number, strength: number, openSlots = 3): BlitzDefender => ({
+  id,
+  rulerName: `Defender ${id}`,
+  nationName: `Defending Nation ${id}`,
+  strength,
+  technology: '0',
+  nuclearWeapons: 0,
+  openSlots,
+});
+
+const assignedIds = (plan: ReturnType<typeof planBlitz>, defenderId: number) =>
+  plan.targets.find(t => t.defender.id === defenderId)!.attackers.map(a => a.attackerId);
+
+describe('planBlitz', () => {
+  it('assigns three in-range attackers per defender and respects attacker slots', () => {
+    const attackers = [attacker(1, 100000), attacker(2, 95000), attacker(3, 90000), attacker(4, 10000)];
+    const defenders = [defender(10, 100000), defender(11, 92000)];
+
+    const plan = planBlitz(attackers, defenders);
+
+    expect(assignedIds(plan, 10).sort()).toEqual([1, 2, 3]);
+    expect(assignedIds(plan, 11).sort()).toEqual([1, 2, 3]);
+    expect(plan.totalAssignments).toBe(6);
+    // Attacker 4 is far out of range of both defenders
+    expect(plan.targets.every(t => !t.candidateIds.includes(4))).toBe(true);
+    expect(plan.remainingSlots).toEqual({ 1: 1, 2: 1, 3: 1, 4: 3 });
+  });
+
+  it('spreads scarce attackers so every defender gets one before any gets a second', () => {
+    const attackers = [attacker(1, 100000, 0, 1), attacker(2, 100000, 0, 1)];
+    const defenders = [defender(10, 100000), defender(11, 100000)];
+
+    const plan = planBlitz(attackers, defenders);
+
+    expect(assignedIds(plan, 10)).toHaveLength(1);
+    expect(assignedIds(plan, 11)).toHaveLength(1);
+  });
+
+  it('prefers an attacker with nukes first, then the strongest ratio', () => {
+    const attackers = [attacker(1, 120000), attacker(2, 90000, 25), attacker(3, 110000)];
+    const defenders = [defender(10, 100000)];
+
+    const plan = planBlitz(attackers, defenders);
+
+    expect(assignedIds(plan, 10)).toEqual([2, 1, 3]);
+    expect(plan.targets[0].attackers[0]).toMatchObject({ hasNukes: true, strengthRatio: 0.9 });
+  });
+
+  it('skips full defenders, limits partially open ones and excluded pairs', () => {
+    const attackers = [attacker(1, 100000), attacker(2, 100000), attacker(3, 100000)];
+    const defenders = [defender(10, 100000, 0), defender(11, 100000, 1), defender(12, 100000)];
+
+    const plan = planBlitz(attackers, defenders, new Set([blitzPairKey(1, 12)]));
+
+    expect(plan.targets.map(t => t.defender.id)).not.toContain(10);
+    expect(assignedIds(plan, 11)).toHaveLength(1);
+    expect(assignedIds(plan, 12).sort()).toEqual([2, 3]);
+  });
+});
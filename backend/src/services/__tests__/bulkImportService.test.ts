@@ -0,0 +1,60 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const tx = {
+  $executeRawUnsafe: vi.fn(),
+  $queryRawUnsafe: vi.fn(),
+};
+
+vi.mock('../../utils/prisma.js', () => ({
+  prisma: {
+    $transaction: vi.fn((fn: (client: typeof tx) => unknown) => fn(tx)),
+  },
+  Prisma: {},
+}));
+
+import { loadNations, type NationImportRow } from '../bulkImportService.js';
+
+const row = (id: number, allianceId: number, alliance: string): NationImportRow => ({
+  id,
+  rulerName: `Ruler ${id}`,
+  nationName: `Nation ${id}`,
+  alliance,
+  allianceId,
+  team: 'Aqua',
+  rank: id,
+  strength: 1000,
+  activity: 'Active This Week',
+  technology: '100',
+  infrastructure: '1000',
+  land: '500',
+  nuclearWeapons: 0,
+  governmentType: 'Democracy',
+  inWarMode: false,
+  defcon: 5,
+  attackingCasualties: null,
+  defensiveCasualties: null,
+});
+
+describe('loadNations', () => {
+  beforeEach(() => {
+    tx.$executeRawUnsafe.mockReset().mockResolvedValue(0);
+    // The staging delete reports the nation whose alliance has no name in the file
+    tx.$queryRawUnsafe.mockReset().mockImplementation(async (sql: string) =>
+      sql.startsWith('DELETE FROM staged_nations') ? [{ id: 3 }] : []
+    );
+  });
+
+  it('returns one loaded row per nation, without the skipped ones', async () => {
+    const first = row(1, 10, 'Named Alliance');
+    const result = await loadNations(
+      [first, row(2, 0, ''), { ...first, rank: 4 }, row(3, 20, '')],
+      'SE',
+      new Date('2026-10-19T00:00:00Z')
+    );
+
+    expect(result.skipped).toBe(1);
+    expect(result.updated).toBe(2);
+    expect(result.loaded.map((n) => n.id)).toEqual([1, 2]);
+    expect(result.loaded[0]).toBe(first);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { CSV_FILE_RULES, validateCsvContent } from '../csvValidation.js';
+
+const warHeader = CSV_FILE_RULES.War_Stats.headers.join('|') + '|';
+
+const warRow = (warId: number, attackPercent = '50') =>
+  `1|Ruler A|Nation A|Alliance A|10|Red|2|Ruler B|Nation B|Alliance B|20|Blue|Active|3/30/2026 2:17:09 PM|4/6/2026 2:17:09 PM|Raid|${warId}|530.29|${attackPercent}|50|`;
+
+const warFile = (rows: string[]) => [warHeader, ...rows].join('\n');
+
+describe('validateCsvContent', () => {
+  it('accepts a well-formed file', () => {
+    const result = validateCsvContent('War_Stats', warFile([warRow(1), warRow(2), warRow(3)]), 3);
+
+    expect(result).toEqual({ valid: true, rows: 3, previousRows: 3, invalidRows: 0, issues: [] });
+  });
+
+  it('rejects a changed header', () => {
+    const content = warFile([warRow(1)]).replace('War ID', 'Conflict ID');
+
+    const result = validateCsvContent('War_Stats', content, null);
+
+    expect(result.valid).toBe(false);
+    expect(result.issues).toEqual(['Header is missing War ID']);
+  });
+
+  it('rejects a file much smaller than the previous import', () => {
+    const rows = Array.from({ length: 50 }, (_, i) => warRow(i + 1));
+
+    const result = validateCsvContent('War_Stats', warFile(rows), 100);
+
+    expect(result.valid).toBe(false);
+    expect(result.issues).toEqual(['50 rows is 50% fewer than the previous import (100)']);
+  });
+
+  it('rejects truncated or out-of-range rows', () => {
+    const rows = Array.from({ length: 20 }, (_, i) => warRow(i + 1));
+    rows.push('1|Ruler A|Nation A|Alli');
+    rows.push(warRow(99, '250'));
+
+    const result = validateCsvContent('War_Stats', warFile(rows), null);
+
+    expect(result.valid).toBe(false);
+    expect(result.invalidRows).toBe(2);
+    expect(result.issues).toEqual(['2 of 22 rows are malformed or out of range']);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import crypto from 'crypto';
+
+vi.mock('../../utils/prisma.js', () => ({
+  prisma: {
+    nationConfig: { findMany: vi.fn() },
+  },
+}));
+
+vi.mock('../rulerNameVerificationService.js', () => ({
+  getVerifiedRulerName: vi.fn(),
+}));
+
+vi.mock('../aidService.js', () => ({
+  AidService: { getAidRecommendations: vi.fn() },
+}));
+
+vi.mock('../warManagementService.js', () => ({
+  WarManagementService: { getNationWars: vi.fn() },
+}));
+
+vi.mock('../staggerEligibilityService.js', () => ({
+  StaggerEligibilityService: { getStaggerEligibility: vi.fn(), isAttackerEligibleForDefender: vi.fn() },
+}));
+
+import { prisma } from '../../utils/prisma.js';
+import { getVerifiedRulerName } from '../rulerNameVerificationService.js';
+import {
+  getInitialResponse,
+  isFreshSignatureTimestamp,
+  resolveNationForDiscordUser,
+  verifyDiscordSignature,
+  INTERACTION_RESPONSE_TYPE,
+  INTERACTION_TYPE,
+  DiscordInteraction,
+} from '../discordBotService.js';
+
+const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+// Raw 32-byte key as shown in the Discord developer portal
+const publicKeyHex = (publicKey.export({ format: 'der', type: 'spki' }) as Buffer).subarray(-32).toString('hex');
+
+const sign = (timestamp: string, body: string) =>
+  crypto.sign(null, Buffer.from(timestamp + body), privateKey).toString('hex');
+
+const interaction = (type: number): DiscordInteraction => ({
+  id: '1',
+  application_id: '2',
+  type,
+  token: 'token',
+});
+
+describe('discordBotService', () => {
+  describe('verifyDiscordSignature', () => {
+    const timestamp = '1760870400';
+    const body = JSON.stringify({ type: 1 });
+
+    it('accepts a valid signature', () => {
+      expect(verifyDiscordSignature(publicKeyHex, sign(timestamp, body), timestamp, Buffer.from(body))).toBe(true);
+    });
+
+    it('rejects a tampered body or timestamp', () => {
+      const signature = sign(timestamp, body);
+      expect(verifyDiscordSignature(publicKeyHex, signature, timestamp, JSON.stringify({ type: 2 }))).toBe(false);
+      expect(verifyDiscordSignature(publicKeyHex, signature, '1760870401', body)).toBe(false);
+    });
+
+    it('rejects malformed signatures and keys without throwing', () => {
+      expect(verifyDiscordSignature(publicKeyHex, 'not-hex', timestamp, body)).toBe(false);
+      expect(verifyDiscordSignature('abcd', sign(timestamp, body), timestamp, body)).toBe(false);
+    });
+  });
+
+  describe('isFreshSignatureTimestamp', () => {
+    const now = new Date(1760870400 * 1000);
+
+    it('accepts timestamps within five minutes either way', () => {
+      expect(isFreshSignatureTimestamp('1760870400', now)).toBe(true);
+      expect(isFreshSignatureTimestamp('1760870100', now)).toBe(true);
+      expect(isFreshSignatureTimestamp('1760870700', now)).toBe(true);
+    });
+
+    it('rejects stale, future and malformed timestamps', () => {
+      expect(isFreshSignatureTimestamp('1760870099', now)).toBe(false);
+      expect(isFreshSignatureTimestamp('1760870701', now)).toBe(false);
+      expect(isFreshSignatureTimestamp('yesterday', now)).toBe(false);
+    });
+  });
+
+  describe('resolveNationForDiscordUser', () => {
+    const nation = { id: 1, rulerName: 'Ruler', nationName: 'Nation', allianceId: 10, strength: 1000, rank: 1 };
+
+    beforeEach(() => {
+      vi.mocked(getVerifiedRulerName).mockReset().mockResolvedValue(null);
+      vi.mocked(prisma.nationConfig.findMany).mockReset().mockResolvedValue([
+        { discordHandle: '@Ruler', nation },
+      ] as any);
+    });
+
+    it('falls back to the nation whose Discord handle is the username', async () => {
+      await expect(resolveNationForDiscordUser({ id: '9', username: 'ruler' })).resolves.toEqual(nation);
+    });
+
+    it('ignores display names, which anyone can set', async () => {
+      const impostor = { id: '9', username: 'someone', global_name: 'Ruler' };
+      await expect(resolveNationForDiscordUser(impostor)).resolves.toBeNull();
+    });
+  });
+
+  describe('getInitialResponse', () => {
+    it('answers pings with a pong', () => {
+      expect(getInitialResponse(interaction(INTERACTION_TYPE.PING))).toEqual({ type: INTERACTION_RESPONSE_TYPE.PONG });
+    });
+
+    it('defers slash commands with an ephemeral response', () => {
+      const response = getInitialResponse(interaction(INTERACTION_TYPE.APPLICATION_COMMAND));
+      expect(response.type).toBe(INTERACTION_RESPONSE_TYPE.DEFERRED_CHANNEL_MESSAGE_WITH_SOURCE);
+      expect(response.data?.flags).toBe(64);
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../utils/prisma.js', () => ({
+  prisma: {},
+}));
+
+import {
+  buildAidOfferEvents,
+  buildNationEvents,
+  buildWarEvents,
+  NationChange,
+  DeactivatedNation,
+  EndedAidOffer,
+  WarChange,
+} from '../eventService.js';
+
+const now = new Date('2026-10-19T12:00:00Z');
+
+const change = (partial: Partial<NationChange>): NationChange => ({
+  nationId: 1,
+  rulerName: 'Ruler',
+  nationName: 'Nation',
+  allianceId: 10,
+  allianceName: 'Alpha',
+  strength: 5000,
+  isNew: false,
+  oldAllianceId: 10,
+  oldAllianceName: 'Alpha',
+  oldInWarMode: false,
+  inWarMode: false,
+  oldDefcon: 5,
+  defcon: 5,
+  oldTechnology: '100.00',
+  oldInfrastructure: '1,000.00',
+  oldLand: '500.000',
+  technology: '100.00',
+  infrastructure: '1,000.00',
+  land: '500.000',
+  ...partial,
+});
+
+const deactivated = (nationId: number, lastSeenAt: Date): DeactivatedNation => ({
+  nationId,
+  rulerName: 'Ruler',
+  nationName: 'Nation',
+  allianceId: 10,
+  allianceName: 'Alpha',
+  strength: 5000,
+  lastSeenAt,
+});
+
+describe('buildNationEvents', () => {
+  it('reports new nations without comparing their stats', () => {
+    const events = buildNationEvents([change({ isNew: true, oldAllianceId: null, oldDefcon: null, oldInWarMode: null })], [], now);
+
+    expect(events.map(e => e.eventType)).toEqual(['new_nation']);
+    expect(events[0].description).toBe('Ruler (Nation) from Alpha appeared with 5,000 NS');
+  });
+
+  it('builds alliance, war mode, DEFCON and donation events from one changed row', () => {
+    const events = buildNationEvents([change({
+      allianceId: 20,
+      allianceName: 'Beta',
+      inWarMode: true,
+      defcon: 1,
+      technology: '150.00',
+      infrastructure: '1,600.00',
+      land: '1,100.000',
+    })], [], now);
+
+    expect(events.map(e => e.eventType)).toEqual([
+      'alliance_change',
+      'war_mode_change',
+      'defcon_change',
+      'possible_donation',
+    ]);
+    expect(events[0].description).toBe('Ruler (Nation) changed from Alpha to Beta');
+    expect((events[3].metadata as Record<string, unknown>).suspectedDonationUsd).toBe(5);
+  });
+
+  it('skips alliance changes of small nations and nations that were already gone', () => {
+    const events = buildNationEvents(
+      [change({ allianceId: 20, allianceName: 'Beta', strength: 999 })],
+      [deactivated(2, new Date(now.getTime() - 60 * 60 * 1000)), deactivated(3, new Date('2026-10-01T00:00:00Z'))],
+      now
+    );
+
+    expect(events.map(e => [e.eventType, e.nationId])).toEqual([['nation_inactive', 2]]);
+  });
+});
+
+describe('buildAidOfferEvents', () => {
+  it('records ended offers on the declaring nation with the receiving side in metadata', () => {
+    const offer: EndedAidOffer = {
+      aidId: 7,
+      outcome: 'reneged',
+      fromStatus: 'Approved',
+      toStatus: 'Cancelled',
+      declaringNationId: 1,
+      declaringRulerName: 'Sender',
+      declaringNationName: 'Senderland',
+      declaringAllianceId: 10,
+      declaringAllianceName: 'Alpha',
+      receivingNationId: 2,
+      receivingRulerName: 'Receiver',
+      receivingNationName: 'Receiverland',
+      receivingAllianceId: 20,
+      receivingAllianceName: 'Beta',
+      money: 6000000,
+      technology: 0,
+      soldiers: 0,
+      date: '10/15/2026 6:00:00 AM',
+      daysActive: 4,
+    };
+
+    const [event] = buildAidOfferEvents([offer], now);
+
+    expect(event).toMatchObject({ type: 'aid', eventType: 'aid_offer_reneged', nationId: 1, allianceId: 10 });
+    expect(event.description).toBe(
+      'Approved aid offer from Sender (Senderland) of Alpha to Receiver (Receiverland) of Beta ($6,000,000) was cancelled after 4.0 days, before its 10-day expiry'
+    );
+    expect((event.metadata as Record<string, unknown>).receivingAllianceId).toBe(20);
+  });
+});
+
+describe('buildWarEvents', () => {
+  const war = (partial: Partial<WarChange>): WarChange => ({
+    warId: 1,
+    oldStatus: 'Active',
+    status: 'Active',
+    date: '10/18/2026 6:00:00 AM',
+    endDate: '10/25/2026 6:00:00 AM',
+    reason: null,
+    declaringNationId: 1,
+    declaringRulerName: 'Attacker',
+    declaringNationName: 'Attackland',
+    declaringAllianceId: 10,
+    declaringAllianceName: 'Alpha',
+    receivingNationId: 2,
+    receivingRulerName: 'Defender',
+    receivingNationName: 'Defendland',
+    receivingAllianceId: 20,
+    receivingAllianceName: 'Beta',
+    ...partial,
+  });
+
+  it('reports new active wars, peace and expiry', () => {
+    const events = buildWarEvents([
+      war({ warId: 1, oldStatus: null, reason: 'Raid' }),
+      war({ warId: 2, status: 'Peace' }),
+      war({ warId: 3, status: 'Expired' }),
+    ], 'csv', now);
+
+    expect(events.map(e => e.eventType)).toEqual(['war_declared', 'war_peace', 'war_expired']);
+    expect(events[0].description).toBe('Attacker (Attackland) of Alpha declared war on Defender (Defendland) of Beta: Raid');
+    expect(events[0]).toMatchObject({ type: 'war', nationId: 1, allianceId: 10 });
+    expect((events[0].metadata as Record<string, unknown>).receivingAllianceId).toBe(20);
+  });
+
+  it('skips wars first seen already over and status changes after a war ended', () => {
+    const events = buildWarEvents([
+      war({ oldStatus: null, status: 'Expired' }),
+      war({ oldStatus: 'Expired', status: 'Peace' }),
+    ], 'csv', now);
+
+    expect(events).toEqual([]);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../utils/prisma.js', () => ({
+  prisma: {
+    nation: { findUnique: vi.fn() },
+    aidOffer: { findMany: vi.fn() },
+    war: { findMany: vi.fn() },
+    event: { findMany: vi.fn() },
+    $queryRaw: vi.fn(),
+  },
+}));
+
+vi.mock('../authService.js', () => ({
+  hasCapability: vi.fn(),
+}));
+
+vi.mock('../warAssignmentService.js', () => ({
+  WarAssignmentService: { listActiveAssignmentsForNation: vi.fn() },
+}));
+
+vi.mock('../warchestSubmissionService.js', () => ({
+  getWarchestSubmissions: vi.fn(),
+}));
+
+import { prisma } from '../../utils/prisma.js';
+import { hasCapability } from '../authService.js';
+import { WarAssignmentService } from '../warAssignmentService.js';
+import { getWarchestSubmissions } from '../warchestSubmissionService.js';
+import { getNationProfile } from '../nationProfileService.js';
+
+const NATION = {
+  id: 1,
+  rulerName: 'Ruler One',
+  nationName: 'Nation One',
+  allianceId: 10,
+  alliance: { id: 10, name: 'Home' },
+  team: 'Aqua',
+  strength: 1000,
+  activity: 'Active',
+  technology: '100',
+  infrastructure: '1000',
+  land: '500',
+  nuclearWeapons: 0,
+  governmentType: 'Democracy',
+  inWarMode: true,
+  defcon: 5,
+  warchest: null,
+  rank: 1,
+  attackingCasualties: 0,
+  defensiveCasualties: 0,
+  isActive: true,
+  firstSeenAt: new Date('2026-01-01T00:00:00Z'),
+  lastSeenAt: new Date('2026-10-19T00:00:00Z'),
+  nationConfig: { hasDra: true, discordHandle: 'ruler', notes: 'secret' },
+};
+
+const assignment = (id: number, attacker: { id: number; allianceId: number }) => ({
+  id,
+  attackerNation: { ...attacker, name: 'A', rulerName: 'A', alliance: 'A' },
+  defenderNation: { id: 99, name: 'D', rulerName: 'D', alliance: 'Enemy', allianceId: 30 },
+});
+
+// Nation 1 (alliance 10) attacks in assignment 1; nation 2 of alliance 20 attacks it in assignment 2
+const ASSIGNMENTS = [assignment(1, { id: 1, allianceId: 10 }), assignment(2, { id: 2, allianceId: 20 })];
+
+describe('getNationProfile', () => {
+  beforeEach(() => {
+    vi.mocked(prisma.nation.findUnique).mockReset().mockResolvedValue(NATION as any);
+    vi.mocked(prisma.aidOffer.findMany).mockReset().mockResolvedValue([]);
+    vi.mocked(prisma.war.findMany).mockReset().mockResolvedValue([]);
+    vi.mocked(prisma.event.findMany).mockReset().mockResolvedValue([]);
+    vi.mocked(WarAssignmentService.listActiveAssignmentsForNation).mockReset().mockResolvedValue(ASSIGNMENTS as any);
+    vi.mocked(getWarchestSubmissions).mockReset().mockResolvedValue({ submissions: [], total: 0 });
+    vi.mocked(hasCapability).mockReset().mockResolvedValue(false);
+  });
+
+  it('leaves out config and war assignments for anonymous visitors', async () => {
+    const profile = await getNationProfile(1);
+
+    expect(profile!.config).toBeNull();
+    expect(profile!.warAssignments).toBeNull();
+    expect(WarAssignmentService.listActiveAssignmentsForNation).not.toHaveBeenCalled();
+  });
+
+  it('only shows assignments made by alliances the viewer manages assignments for', async () => {
+    vi.mocked(hasCapability).mockImplementation(async (_userId, capability, options) =>
+      capability === 'manage_war_assignments' && options?.allianceId === 20);
+
+    const profile = await getNationProfile(1, { userId: 5 });
+
+    expect(profile!.warAssignments!.map((a) => a.id)).toEqual([2]);
+    expect(profile!.config).toBeNull();
+  });
+
+  it('shows a verified owner the assignments their nation attacks in', async () => {
+    const profile = await getNationProfile(1, { userId: 5, ownsNation: true });
+
+    expect(profile!.warAssignments!.map((a) => a.id)).toEqual([1]);
+  });
+
+  it("includes config for viewers who can manage the nation's alliance", async () => {
+    vi.mocked(hasCapability).mockImplementation(async (_userId, capability, options) =>
+      capability === 'manage_alliance' && options?.allianceId === 10);
+
+    const profile = await getNationProfile(1, { userId: 5 });
+
+    expect(profile!.config).toMatchObject({ notes: 'secret' });
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../utils/prisma.js', () => ({
+  prisma: {
+    $queryRaw: vi.fn(),
+    nationSnapshot: {
+      createMany: vi.fn(),
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+import { prisma } from '../../utils/prisma.js';
+import { getNationHistory, parseHistoryDate, recordNationSnapshots } from '../nationSnapshotService.js';
+
+const input = (nationId: number, strength: number) => ({
+  nationId,
+  strength,
+  technology: '1,000.50',
+  infrastructure: '2000',
+  land: '500',
+  nuclearWeapons: 3,
+  defcon: 5,
+  warchest: null,
+});
+
+// Latest stored snapshot matching input(nationId, strength)
+const latest = (nationId: number, strength: number) => ({
+  nationId,
+  strength,
+  technology: 1000.5,
+  infrastructure: 2000,
+  land: 500,
+  nuclearWeapons: 3,
+  defcon: 5,
+  warchest: null,
+});
+
+describe('recordNationSnapshots', () => {
+  beforeEach(() => {
+    vi.mocked(prisma.$queryRaw).mockReset();
+    vi.mocked(prisma.nationSnapshot.createMany).mockReset().mockResolvedValue({ count: 0 });
+  });
+
+  it('skips nations whose stats have not changed since their latest snapshot', async () => {
+    vi.mocked(prisma.$queryRaw).mockResolvedValue([latest(1, 1000), latest(2, 1000)]);
+
+    const written = await recordNationSnapshots([input(1, 1000.001), input(2, 1250), input(3, 800)]);
+
+    expect(written).toBe(2);
+    const data = vi.mocked(prisma.nationSnapshot.createMany).mock.calls[0][0]!.data as Array<{ nationId: number }>;
+    expect(data.map((row) => row.nationId)).toEqual([2, 3]);
+  });
+
+  it('writes nothing when every nation is unchanged', async () => {
+    vi.mocked(prisma.$queryRaw).mockResolvedValue([latest(1, 1000)]);
+
+    expect(await recordNationSnapshots([input(1, 1000)])).toBe(0);
+    expect(prisma.nationSnapshot.createMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('parseHistoryDate', () => {
+  it('leaves out empty values and rejects invalid ones', () => {
+    expect(parseHistoryDate(undefined)).toBeUndefined();
+    expect(parseHistoryDate('')).toBeUndefined();
+    expect(parseHistoryDate('not a date')).toBeNull();
+  });
+
+  it('extends a date-only upper bound to the end of that day', () => {
+    expect(parseHistoryDate('2026-02-01')!.toISOString()).toBe('2026-02-01T00:00:00.000Z');
+    expect(parseHistoryDate('2026-02-01', true)!.toISOString()).toBe('2026-02-01T23:59:59.999Z');
+    expect(parseHistoryDate('2026-02-01T12:00:00Z', true)!.toISOString()).toBe('2026-02-01T12:00:00.000Z');
+  });
+});
+
+describe('getNationHistory', () => {
+  beforeEach(() => {
+    vi.mocked(prisma.nationSnapshot.findMany).mockReset().mockResolvedValue([
+      { snapshotAt: new Date('2026-02-01T18:00:00Z'), ...latest(1, 1000) },
+    ] as any);
+  });
+
+  it('filters snapshots to the requested range and fields', async () => {
+    const history = await getNationHistory(1, {
+      from: parseHistoryDate('2026-01-01')!,
+      to: parseHistoryDate('2026-02-01', true)!,
+      fields: ['strength'],
+    });
+
+    expect(vi.mocked(prisma.nationSnapshot.findMany).mock.calls[0][0]!.where).toEqual({
+      nationId: 1,
+      snapshotAt: { gte: new Date('2026-01-01T00:00:00Z'), lte: new Date('2026-02-01T23:59:59.999Z') },
+    });
+    expect(history.points).toEqual([{ snapshotAt: '2026-02-01T18:00:00.000Z', values: { strength: 1000 } }]);
+  });
+
+  it('does not filter by time without a range', async () => {
+    await getNationHistory(1);
+
+    expect(vi.mocked(prisma.nationSnapshot.findMany).mock.calls[0][0]!.where).toEqual({ nationId: 1 });
+  });
+});
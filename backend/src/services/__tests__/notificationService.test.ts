@@ -0,0 +1,213 @@
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from 'vitest';
+import http from 'http';
+import { AddressInfo } from 'net';
+
+vi.mock('../../utils/prisma.js', () => ({
+  prisma: {
+    notificationDelivery: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+  },
+}));
+
+import { prisma } from '../../utils/prisma.js';
+import {
+  buildDiscordPayload,
+  eventMatchesSubscription,
+  getRetryDelayMs,
+  isDiscordWebhookPayload,
+  postDiscordWebhook,
+  retryDueDeliveries,
+  NotificationEvent,
+  SubscriptionFilter,
+} from '../notificationService.js';
+
+const makeEvent = (overrides: Partial<NotificationEvent> = {}): NotificationEvent => ({
+  id: 1,
+  eventType: 'defcon_change',
+  allianceId: 100,
+  description: 'Ruler (Nation) from Alliance changed from DEFCON 5 to DEFCON 1',
+  metadata: {},
+  createdAt: new Date('2026-10-19T12:00:00Z'),
+  nation: { strength: 50000 },
+  ...overrides,
+});
+
+const subscription: SubscriptionFilter = {
+  allianceId: 100,
+  eventTypes: ['defcon_change', 'alliance_change'],
+  targetAllianceIds: [],
+  minStrength: null,
+};
+
+describe('notificationService', () => {
+  describe('eventMatchesSubscription', () => {
+    it('matches events from the owning alliance when no targets are set', () => {
+      expect(eventMatchesSubscription(makeEvent(), subscription)).toBe(true);
+      expect(eventMatchesSubscription(makeEvent({ allianceId: 200 }), subscription)).toBe(false);
+    });
+
+    it('only matches subscribed event types', () => {
+      expect(eventMatchesSubscription(makeEvent({ eventType: 'new_nation' }), subscription)).toBe(false);
+    });
+
+    it('uses target alliances instead of the owning alliance when set', () => {
+      const targeted = { ...subscription, targetAllianceIds: [200, 300] };
+      expect(eventMatchesSubscription(makeEvent({ allianceId: 300 }), targeted)).toBe(true);
+      expect(eventMatchesSubscription(makeEvent({ allianceId: 100 }), targeted)).toBe(false);
+    });
+
+    it('matches alliance changes leaving a watched alliance', () => {
+      const event = makeEvent({
+        eventType: 'alliance_change',
+        allianceId: 999,
+        metadata: { oldAllianceId: 100, newAllianceId: 999 },
+      });
+      expect(eventMatchesSubscription(event, subscription)).toBe(true);
+    });
+
+    it('applies the minimum strength filter', () => {
+      const strong = { ...subscription, minStrength: 60000 };
+      expect(eventMatchesSubscription(makeEvent(), strong)).toBe(false);
+      expect(eventMatchesSubscription(makeEvent({ nation: { strength: 75000 } }), strong)).toBe(true);
+      expect(eventMatchesSubscription(makeEvent({ nation: null }), strong)).toBe(false);
+    });
+  });
+
+  describe('buildDiscordPayload', () => {
+    it('creates one embed per event, capped at 10', () => {
+      const events = Array.from({ length: 12 }, (_, i) => makeEvent({ id: i + 1 }));
+      const payload = buildDiscordPayload('Defcon watch', events);
+      expect(payload.embeds).toHaveLength(10);
+      expect(payload.embeds[0].title).toBe('DEFCON change');
+      expect(payload.embeds[0].timestamp).toBe('2026-10-19T12:00:00.000Z');
+      expect(payload.content).toContain('Defcon watch');
+    });
+  });
+
+  describe('isDiscordWebhookPayload', () => {
+    it('accepts built payloads and rejects other JSON', () => {
+      expect(isDiscordWebhookPayload(buildDiscordPayload('Test', [makeEvent()]))).toBe(true);
+      expect(isDiscordWebhookPayload(null)).toBe(false);
+      expect(isDiscordWebhookPayload({ username: 'x' })).toBe(false);
+      expect(isDiscordWebhookPayload({ username: 'x', embeds: [{ title: 'only a title' }] })).toBe(false);
+    });
+  });
+
+  describe('getRetryDelayMs', () => {
+    it('doubles the delay with each attempt', () => {
+      expect(getRetryDelayMs(1)).toBe(60_000);
+      expect(getRetryDelayMs(2)).toBe(120_000);
+      expect(getRetryDelayMs(4)).toBe(480_000);
+    });
+  });
+
+  describe('postDiscordWebhook', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    const received: Array<{ url?: string; body: any }> = [];
+
+    beforeAll(async () => {
+      // Local stand-in for the Discord webhook endpoint
+      server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => {
+          received.push({ url: req.url, body: body ? JSON.parse(body) : null });
+          if (req.url === '/ok') {
+            res.statusCode = 204;
+            res.end();
+          } else {
+            res.statusCode = 429;
+            res.setHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify({ message: 'You are being rate limited.', retry_after: 1.5 }));
+          }
+        });
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    });
+
+    it('posts the payload as JSON and reports success', async () => {
+      const payload = buildDiscordPayload('Test', [makeEvent()]);
+      const result = await postDiscordWebhook(`${baseUrl}/ok`, payload);
+
+      expect(result).toEqual({ ok: true, status: 204 });
+      expect(received.at(-1)?.body).toEqual(JSON.parse(JSON.stringify(payload)));
+    });
+
+    it('reports the status and body of a failed delivery', async () => {
+      const result = await postDiscordWebhook(`${baseUrl}/rate-limited`, buildDiscordPayload('Test', [makeEvent()]));
+
+      expect(result.ok).toBe(false);
+      expect(result.status).toBe(429);
+      expect(result.error).toContain('rate limited');
+    });
+
+    it('does not throw when the host is unreachable', async () => {
+      const result = await postDiscordWebhook('http://127.0.0.1:1/unreachable', buildDiscordPayload('Test', []));
+
+      expect(result.ok).toBe(false);
+      expect(result.status).toBeNull();
+      expect(result.error).toBeTruthy();
+    });
+  });
+
+  describe('retryDueDeliveries', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('sends due deliveries at the same time rather than one after another', async () => {
+      vi.mocked(prisma.notificationDelivery.findMany).mockResolvedValue([{ id: 1 }, { id: 2 }] as any);
+      vi.mocked(prisma.notificationDelivery.findUnique).mockImplementation((async ({ where }: any) => ({
+        id: where.id,
+        status: 'pending',
+        attempts: 1,
+        payload: buildDiscordPayload('Test', []),
+        subscription: { webhookUrl: `https://discord.test/${where.id}` },
+      })) as any);
+      vi.mocked(prisma.notificationDelivery.update).mockResolvedValue({} as any);
+
+      // Each webhook only answers once both requests are in flight
+      let inFlight = 0;
+      let release: () => void = () => {};
+      const bothStarted = new Promise<void>(resolve => { release = resolve; });
+      vi.stubGlobal('fetch', vi.fn(async () => {
+        if (++inFlight === 2) release();
+        await bothStarted;
+        return new Response(null, { status: 204 });
+      }));
+
+      expect(await retryDueDeliveries()).toBe(2);
+    });
+
+    it('fails deliveries with an invalid payload without sending them', async () => {
+      vi.mocked(prisma.notificationDelivery.findMany).mockResolvedValue([{ id: 3 }] as any);
+      vi.mocked(prisma.notificationDelivery.findUnique).mockResolvedValue({
+        id: 3,
+        status: 'pending',
+        attempts: 2,
+        payload: { text: 'not a webhook message' },
+        subscription: { webhookUrl: 'https://discord.test/3' },
+      } as any);
+      vi.mocked(prisma.notificationDelivery.update).mockReset().mockResolvedValue({} as any);
+      const fetchMock = vi.fn();
+      vi.stubGlobal('fetch', fetchMock);
+
+      expect(await retryDueDeliveries()).toBe(0);
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(vi.mocked(prisma.notificationDelivery.update).mock.calls[0][0].data).toMatchObject({
+        status: 'failed',
+        attempts: 3,
+        nextAttemptAt: null,
+      });
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { buildNuclearSuccessStats, inferSdi, type NuclearNationInfo, type ResolvedNuclearHit } from '../nuclearHitsService.js';
+
+const nations = new Map<number, NuclearNationInfo>([
+  [1, { id: 1, nationName: 'Attackia', rulerName: 'Ann', allianceId: 10, allianceName: 'Red' }],
+  [2, { id: 2, nationName: 'Defendia', rulerName: 'Dan', allianceId: 20, allianceName: 'Blue' }],
+  [3, { id: 3, nationName: 'Openland', rulerName: 'Olga', allianceId: 20, allianceName: 'Blue' }],
+]);
+
+const hit = (attackingNationId: number | null, defendingNationId: number | null, result: string, sentAt: string): ResolvedNuclearHit => ({
+  attackingNationId,
+  defendingNationId,
+  result,
+  sentAt,
+});
+
+describe('inferSdi', () => {
+  it('calls an SDI likely after repeated thwarts and unlikely after a run of landed nukes', () => {
+    expect(inferSdi(0, 2)).toBe('likely');
+    expect(inferSdi(5, 1)).toBe('possible');
+    expect(inferSdi(3, 0)).toBe('unlikely');
+    expect(inferSdi(1, 0)).toBe('unknown');
+  });
+});
+
+describe('buildNuclearSuccessStats', () => {
+  const hits = [
+    hit(1, 2, 'Thwarted', '10/7/2025 8:00:00 AM'),
+    hit(1, 2, 'Thwarted', '10/7/2025 8:05:00 AM'),
+    hit(1, 2, 'Direct Hit', '10/7/2025 8:10:00 AM'),
+    hit(1, 3, 'Direct Hit', '10/8/2025 9:00:00 AM'),
+    hit(1, 3, 'Direct Hit', '10/8/2025 9:30:00 AM'),
+    hit(1, null, 'Direct Hit', '10/9/2025 9:00:00 AM'),
+  ];
+
+  it('rates attackers and defenders and infers SDIs from thwarts', () => {
+    const { nations: stats } = buildNuclearSuccessStats(hits, nations);
+    const byId = new Map(stats.map(s => [s.id, s]));
+
+    expect(byId.get(1)).toMatchObject({ launched: 6, landed: 4, thwarted: 2, maxLandedInDay: 2 });
+    expect(byId.get(1)!.successRate).toBeCloseTo(4 / 6);
+    expect(byId.get(2)).toMatchObject({ received: 3, receivedLanded: 1, receivedThwarted: 2, sdi: 'likely' });
+    expect(byId.get(3)).toMatchObject({ received: 2, receivedLanded: 2, maxLandedOnInDay: 2, sdi: 'unknown' });
+  });
+
+  it('groups nations into their alliances and reports the daily caps seen', () => {
+    const { alliances, dailyCaps } = buildNuclearSuccessStats(hits, nations);
+
+    expect(alliances.find(a => a.allianceId === 20)).toMatchObject({
+      nations: 2,
+      received: 5,
+      receivedLanded: 3,
+      receivedThwarted: 2,
+      likelySdi: 1,
+    });
+    expect(dailyCaps).toEqual({ launchedPerAttacker: 3, landedPerAttacker: 2, landedPerDefender: 2 });
+  });
+});
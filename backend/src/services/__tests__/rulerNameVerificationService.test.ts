@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../../utils/prisma.js', () => {
+  const prisma: any = {
+    user: {
+      findUnique: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      findFirst: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  };
+  prisma.$transaction = vi.fn((fn: (tx: any) => unknown) => fn(prisma));
+  return { prisma };
+});
+
+vi.mock('../userDashboardService.js', () => ({
+  findNationByRulerName: vi.fn(),
+}));
+
+import { prisma } from '../../utils/prisma.js';
+import { findNationByRulerName } from '../userDashboardService.js';
+import {
+  checkVerificationCode,
+  nationPageUrl,
+  pageContainsCode,
+  setRulerNameVerified,
+} from '../rulerNameVerificationService.js';
+
+const pendingUser = (issuedAt: Date) => ({
+  rulerName: 'Ruler One',
+  rulerNameVerificationCode: 'CNV-1A2B3C4D',
+  rulerNameCodeIssuedAt: issuedAt,
+  rulerNameVerifiedAt: null,
+  rulerNameVerifiedBy: null,
+});
+
+describe('pageContainsCode', () => {
+  it('finds the code in bio HTML regardless of case and markup around it', () => {
+    expect(pageContainsCode('<td>My bio:&nbsp;<b>cnv-1a2b3c4d</b></td>', 'CNV-1A2B3C4D')).toBe(true);
+    expect(pageContainsCode('<td>CNV-1A2B</td>', 'CNV-1A2B3C4D')).toBe(false);
+  });
+});
+
+describe('nationPageUrl', () => {
+  it('links to the in-game id', () => {
+    expect(nationPageUrl(1_000_000_123)).toBe('https://www.cybernations.net/nation_drill_display.asp?Nation_ID=123');
+  });
+});
+
+const resetUserMocks = () => {
+  vi.mocked(prisma.user.findUnique).mockReset();
+  vi.mocked(prisma.user.findUniqueOrThrow).mockReset().mockResolvedValue({ rulerName: 'Ruler One' } as any);
+  vi.mocked(prisma.user.findFirst).mockReset().mockResolvedValue(null);
+  vi.mocked(prisma.user.updateMany).mockReset().mockResolvedValue({ count: 0 });
+  vi.mocked(prisma.user.update).mockReset().mockImplementation((async (args: any) => ({
+    ...pendingUser(new Date()),
+    ...args.data,
+  })) as any);
+};
+
+describe('checkVerificationCode', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    resetUserMocks();
+    vi.mocked(findNationByRulerName).mockReset().mockResolvedValue({ id: 123, allianceId: 10 });
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('verifies the ruler name and uses up the code when the bio has it', async () => {
+    vi.mocked(prisma.user.findUnique).mockResolvedValue(pendingUser(new Date()) as any);
+    fetchMock.mockResolvedValue(new Response('<p>Bio: CNV-1A2B3C4D</p>'));
+
+    const result = await checkVerificationCode(7);
+
+    expect(result.status).toBe('verified');
+    expect(vi.mocked(prisma.user.update).mock.calls[0][0].data).toMatchObject({
+      rulerNameVerifiedBy: 'bio',
+      rulerNameVerificationCode: null,
+    });
+  });
+
+  it('leaves the claim unverified when the code is missing from the page', async () => {
+    vi.mocked(prisma.user.findUnique).mockResolvedValue(pendingUser(new Date()) as any);
+    fetchMock.mockResolvedValue(new Response('<p>Bio: nothing here</p>'));
+
+    expect((await checkVerificationCode(7)).status).toBe('code_not_found');
+    expect(prisma.user.update).not.toHaveBeenCalled();
+  });
+
+  it('refuses expired codes without loading the page', async () => {
+    vi.mocked(prisma.user.findUnique).mockResolvedValue(
+      pendingUser(new Date(Date.now() - 49 * 60 * 60 * 1000)) as any
+    );
+
+    await expect(checkVerificationCode(7)).rejects.toThrow('Get a verification code first');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe('setRulerNameVerified', () => {
+  beforeEach(() => {
+    resetUserMocks();
+    vi.mocked(prisma.user.findUnique).mockResolvedValue(pendingUser(new Date()) as any);
+  });
+
+  it('clears unverified claims of the same name by other accounts', async () => {
+    const verification = await setRulerNameVerified(7, true);
+
+    expect(verification.verified).toBe(true);
+    expect(vi.mocked(prisma.user.updateMany).mock.calls[0][0]).toMatchObject({
+      where: { id: { not: 7 }, rulerName: { equals: 'Ruler One', mode: 'insensitive' } },
+      data: { rulerName: null, rulerNameVerifiedAt: null },
+    });
+  });
+
+  it('refuses a name another account has already verified', async () => {
+    vi.mocked(prisma.user.findFirst).mockResolvedValue({ id: 8 } as any);
+
+    await expect(setRulerNameVerified(7, true)).rejects.toThrow('Another account has already verified');
+    expect(prisma.user.updateMany).not.toHaveBeenCalled();
+    expect(prisma.user.update).not.toHaveBeenCalled();
+  });
+});
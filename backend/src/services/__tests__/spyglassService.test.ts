@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { parseSpyglassText, getSpyglassDataForNation, spyglassObservedAt } from '../spyglassService.js';
+
+const EXPORT = `Spyglass Results
+
+1. Roof of the World
+Ruler: Regent Talryn
+Alliance: The Order of the Black Rose
+Strength: 123,456.789
+Warchest: $12,345,678,901.00
+Last Updated: 4 days old
+
+2. SouthSea
+Ruler: rakbors
+Alliance: World Task Force
+Strength: 98,765.4
+Warchest: $500,000
+Last Updated: 1 day old
+`;
+
+describe('parseSpyglassText', () => {
+  it('reads each numbered nation with its warchest and age', () => {
+    const data = parseSpyglassText(EXPORT);
+
+    expect(data.size).toBe(2);
+    expect(getSpyglassDataForNation(data, 'regent talryn', 'ROOF OF THE WORLD')).toEqual({
+      nationName: 'Roof of the World',
+      ruler: 'Regent Talryn',
+      alliance: 'The Order of the Black Rose',
+      strength: 123456.789,
+      warchest: 12345678901,
+      daysOld: 4,
+    });
+    expect(getSpyglassDataForNation(data, 'rakbors', 'SouthSea')?.daysOld).toBe(1);
+  });
+
+  it('returns nothing for text that is not a spyglass export', () => {
+    expect(parseSpyglassText('hello\nworld').size).toBe(0);
+  });
+});
+
+describe('spyglassObservedAt', () => {
+  it('dates a reading to the UTC day it was taken', () => {
+    const uploadedAt = new Date('2026-10-19T03:30:00Z');
+    expect(spyglassObservedAt(uploadedAt, 0).toISOString()).toBe('2026-10-19T00:00:00.000Z');
+    expect(spyglassObservedAt(uploadedAt, 4).toISOString()).toBe('2026-10-15T00:00:00.000Z');
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { scheduleStagger, StaggerAttacker, StaggerTarget, WAR_DURATION_DAYS } from '../staggerScheduler.js';
+
+const target = (id: number, eligibleAttackerIds: number[], warDaysLeft: number[] = []): StaggerTarget => ({
+  id,
+  rulerName: `Defender ${id}`,
+  nationName: `Defending Nation ${id}`,
+  strength: 100000,
+  warDaysLeft,
+  eligibleAttackerIds,
+});
+
+const attacker = (id: number, nuclearWeapons = 0, warDaysLeft: number[] = []): StaggerAttacker => ({
+  id,
+  rulerName: `Attacker ${id}`,
+  nationName: `Attacking Nation ${id}`,
+  strength: 100000,
+  nuclearWeapons,
+  warDaysLeft,
+});
+
+const dates = (count: number) => Array.from({ length: count }, (_, i) => `day-${i}`);
+
+describe('scheduleStagger', () => {
+  it('declares one war per target per day so expirations are staggered', () => {
+    const schedule = scheduleStagger([target(10, [1, 2, 3])], [attacker(1), attacker(2), attacker(3)], dates(5));
+
+    expect(schedule.waves.map(wave => wave.assignments.length)).toEqual([1, 1, 1, 0, 0]);
+    const expiries = schedule.waves.flatMap(wave => wave.assignments.map(a => a.expiresOnDay));
+    expect(expiries).toEqual([WAR_DURATION_DAYS, WAR_DURATION_DAYS + 1, WAR_DURATION_DAYS + 2]);
+    expect(new Set(schedule.waves.flatMap(wave => wave.assignments.map(a => a.attackerId))).size).toBe(3);
+    expect(schedule.unfilledTargetIds).toEqual([]);
+  });
+
+  it('waits for current wars to free a slot and avoids their expiry day', () => {
+    // Full until day 2; a day-2 war would expire on day 9 alongside a current war
+    const schedule = scheduleStagger([target(10, [1, 2], [2, 9, 12])], [attacker(1), attacker(2)], dates(4));
+
+    expect(schedule.waves.slice(0, 3).every(wave => wave.assignments.length === 0)).toBe(true);
+    expect(schedule.waves[3].assignments).toEqual([
+      { attackerId: 1, defenderId: 10, expiresOnDay: 3 + WAR_DURATION_DAYS },
+    ]);
+  });
+
+  it('respects attacker offensive slots and prefers nukes', () => {
+    const schedule = scheduleStagger(
+      [target(10, [1, 2]), target(11, [1, 2])],
+      [attacker(1, 0, [5, 5]), attacker(2, 30, [5, 5])],
+      dates(1)
+    );
+
+    const day0 = schedule.waves[0].assignments;
+    expect(day0).toHaveLength(2);
+    // Each attacker has one free slot; attacker 2 brings nukes so the first target gets it
+    expect(day0.filter(a => a.attackerId === 1)).toHaveLength(1);
+    expect(day0.filter(a => a.attackerId === 2)).toHaveLength(1);
+    expect(day0[0].attackerId).toBe(2);
+  });
+});
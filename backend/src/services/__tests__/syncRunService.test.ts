@@ -0,0 +1,70 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../utils/prisma.js', () => ({
+  prisma: {},
+}));
+
+import { computeSyncDiff, SyncState } from '../syncRunService.js';
+
+const nation = (id: number, allianceId: number, allianceName: string) => ({
+  id,
+  nationName: `Nation ${id}`,
+  rulerName: `Ruler ${id}`,
+  allianceId,
+  allianceName,
+});
+
+const state = (partial: Partial<Record<keyof SyncState, any[]>>): SyncState => ({
+  nations: new Map((partial.nations ?? []).map(n => [n.id, n])),
+  wars: new Map((partial.wars ?? []).map(w => [w.warId, w])),
+  aidOffers: new Map((partial.aidOffers ?? []).map(a => [a.aidId, a])),
+});
+
+describe('computeSyncDiff', () => {
+  it('reports new, inactive and switched nations', () => {
+    const before = state({ nations: [nation(1, 10, 'Alpha'), nation(2, 10, 'Alpha')] });
+    const after = state({ nations: [nation(1, 20, 'Beta'), nation(3, 10, 'Alpha')] });
+
+    const diff = computeSyncDiff(before, after);
+
+    expect(diff.newNations.map(n => n.id)).toEqual([3]);
+    expect(diff.inactiveNations.map(n => n.id)).toEqual([2]);
+    expect(diff.allianceSwitches).toEqual([
+      {
+        id: 1,
+        nationName: 'Nation 1',
+        rulerName: 'Ruler 1',
+        fromAllianceId: 10,
+        fromAlliance: 'Alpha',
+        toAllianceId: 20,
+        toAlliance: 'Beta',
+      },
+    ]);
+  });
+
+  it('reports new and ended wars and aid offers with nation names', () => {
+    const nations = [nation(1, 10, 'Alpha'), nation(2, 20, 'Beta')];
+    const before = state({
+      nations,
+      wars: [{ warId: 100, declaringNationId: 1, receivingNationId: 2 }],
+      aidOffers: [{ aidId: 500, declaringNationId: 1, receivingNationId: 2, money: 3000000, technology: 0, soldiers: 0 }],
+    });
+    const after = state({
+      nations,
+      wars: [{ warId: 101, declaringNationId: 2, receivingNationId: 1 }],
+      aidOffers: [
+        { aidId: 500, declaringNationId: 1, receivingNationId: 2, money: 3000000, technology: 0, soldiers: 0 },
+        { aidId: 501, declaringNationId: 2, receivingNationId: 1, money: 0, technology: 100, soldiers: 0 },
+      ],
+    });
+
+    const diff = computeSyncDiff(before, after);
+
+    expect(diff.newWars).toEqual([
+      { warId: 101, declaringNationId: 2, declaringNation: 'Nation 2', receivingNationId: 1, receivingNation: 'Nation 1' },
+    ]);
+    expect(diff.endedWars.map(w => w.warId)).toEqual([100]);
+    expect(diff.newAidOffers.map(a => a.aidId)).toEqual([501]);
+    expect(diff.expiredAidOffers).toEqual([]);
+  });
+});
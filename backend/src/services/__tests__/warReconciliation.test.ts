@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { reconcileWarFields, WAR_SOURCES, type ReconciledWarFields } from '../warReconciliation.js';
+
+const war = (overrides: Partial<ReconciledWarFields> = {}): ReconciledWarFields => ({
+  status: 'Active',
+  destruction: '1,000.00',
+  attackPercent: 50,
+  defendPercent: 50,
+  ...overrides,
+});
+
+describe('reconcileWarFields', () => {
+  it('reports nothing when the sources agree', () => {
+    const { resolved, discrepancies } = reconcileWarFields(war(), war({ attackPercent: 50.005 }), WAR_SOURCES.DYNAMIC);
+
+    expect(discrepancies).toEqual([]);
+    expect(resolved).toEqual(war());
+  });
+
+  it('keeps an ended status over a live one whichever source is newer', () => {
+    const { resolved, discrepancies } = reconcileWarFields(war({ status: 'Peace' }), war(), WAR_SOURCES.DYNAMIC);
+
+    expect(resolved.status).toBe('Peace');
+    expect(discrepancies).toEqual([{
+      field: 'status',
+      csvValue: 'Peace',
+      dynamicValue: 'Active',
+      resolvedValue: 'Peace',
+      resolvedFrom: WAR_SOURCES.CSV,
+    }]);
+  });
+
+  it('keeps the larger destruction and the newer percentages', () => {
+    const { resolved, discrepancies } = reconcileWarFields(
+      war({ destruction: '2,500.00', attackPercent: 40 }),
+      war({ destruction: '1,500.00', attackPercent: 60 }),
+      WAR_SOURCES.DYNAMIC
+    );
+
+    expect(resolved.destruction).toBe('2,500.00');
+    expect(resolved.attackPercent).toBe(60);
+    expect(discrepancies.map(d => [d.field, d.resolvedFrom])).toEqual([
+      ['destruction', WAR_SOURCES.CSV],
+      ['attackPercent', WAR_SOURCES.DYNAMIC],
+    ]);
+  });
+
+  it('takes a field only one source reported without a discrepancy', () => {
+    const { resolved, discrepancies } = reconcileWarFields(war({ destruction: null }), war(), WAR_SOURCES.CSV);
+
+    expect(resolved.destruction).toBe('1,000.00');
+    expect(discrepancies).toEqual([]);
+  });
+});
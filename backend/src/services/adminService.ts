@@ -1,4 +1,5 @@
 import { prisma } from '../utils/prisma.js';
+import { currentGameServer, toStoredId } from '../utils/gameServer.js';
 
 export interface NationSearchResult {
   id: number;
@@ -30,6 +31,45 @@ export interface WarSearchResult {
   excludedFromStats: boolean;
 }
 
+export interface WarDiscrepancyResult {
+  id: number;
+  warId: number;
+  field: string;
+  csvValue: string | null;
+  dynamicValue: string | null;
+  resolvedValue: string | null;
+  resolvedFrom: string;
+  detectedBy: string;
+  detectedAt: string;
+  declaringNationName: string;
+  declaringRulerName: string;
+  receivingNationName: string;
+  receivingRulerName: string;
+  source: string;
+  confirmedAt: string | null;
+}
+
+export interface UnconfirmedWarResult {
+  warId: number;
+  declaringNationName: string;
+  declaringRulerName: string;
+  receivingNationName: string;
+  receivingRulerName: string;
+  status: string;
+  date: string;
+  firstSeenAt: string;
+  scrapedAt: string | null;
+}
+
+export interface WarReconciliationReport {
+  since: string;
+  /** Discrepancy counts by field */
+  counts: Record<string, number>;
+  discrepancies: WarDiscrepancyResult[];
+  /** Active scraped wars no war file has listed yet */
+  unconfirmed: UnconfirmedWarResult[];
+}
+
 export class AdminService {
   /**
    * Search for nations by name or ruler name
@@ -38,6 +78,7 @@ export class AdminService {
     const nations = await prisma.nation.findMany({
       where: {
         isActive: true,
+        gameServer: currentGameServer(),
         OR: [
           { nationName: { contains: query, mode: 'insensitive' } },
           { rulerName: { contains: query, mode: 'insensitive' } }
@@ -148,9 +189,10 @@ export class AdminService {
     const wars = await prisma.war.findMany({
       where: {
         AND: [
+          { gameServer: currentGameServer() },
           {
             OR: [
-              ...(isNumeric ? [{ warId: queryNum }] : []),
+              ...(isNumeric ? [{ warId: toStoredId(queryNum) }] : []),
               {
                 declaringNation: {
                   OR: [
@@ -414,5 +456,76 @@ export class AdminService {
       excludedFromStats: updated.excludedFromStats,
     };
   }
-}
 
+  /**
+   * Disagreements between the war file and scraped wars over the last few days, and the
+   * scraped wars still waiting for a file to confirm them
+   */
+  static async getWarReconciliation(days: number, field?: string, limit: number = 200): Promise<WarReconciliationReport> {
+    const gameServer = currentGameServer();
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const where = { gameServer, detectedAt: { gte: since }, ...(field ? { field } : {}) };
+    const nationSelect = { select: { nationName: true, rulerName: true } };
+
+    const [grouped, discrepancies, unconfirmed] = await Promise.all([
+      prisma.warDiscrepancy.groupBy({
+        by: ['field'],
+        where: { gameServer, detectedAt: { gte: since } },
+        _count: { _all: true },
+      }),
+      prisma.warDiscrepancy.findMany({
+        where,
+        include: {
+          war: {
+            select: {
+              source: true,
+              confirmedAt: true,
+              declaringNation: nationSelect,
+              receivingNation: nationSelect,
+            },
+          },
+        },
+        orderBy: { detectedAt: 'desc' },
+        take: limit,
+      }),
+      prisma.war.findMany({
+        where: { gameServer, isActive: true, confirmedAt: null },
+        include: { declaringNation: nationSelect, receivingNation: nationSelect },
+        orderBy: { firstSeenAt: 'desc' },
+      }),
+    ]);
+
+    return {
+      since: since.toISOString(),
+      counts: Object.fromEntries(grouped.map(g => [g.field, g._count._all])),
+      discrepancies: discrepancies.map(d => ({
+        id: d.id,
+        warId: d.warId,
+        field: d.field,
+        csvValue: d.csvValue,
+        dynamicValue: d.dynamicValue,
+        resolvedValue: d.resolvedValue,
+        resolvedFrom: d.resolvedFrom,
+        detectedBy: d.detectedBy,
+        detectedAt: d.detectedAt.toISOString(),
+        declaringNationName: d.war.declaringNation.nationName,
+        declaringRulerName: d.war.declaringNation.rulerName,
+        receivingNationName: d.war.receivingNation.nationName,
+        receivingRulerName: d.war.receivingNation.rulerName,
+        source: d.war.source,
+        confirmedAt: d.war.confirmedAt?.toISOString() ?? null,
+      })),
+      unconfirmed: unconfirmed.map(w => ({
+        warId: w.warId,
+        declaringNationName: w.declaringNation.nationName,
+        declaringRulerName: w.declaringNation.rulerName,
+        receivingNationName: w.receivingNation.nationName,
+        receivingRulerName: w.receivingNation.rulerName,
+        status: w.status,
+        date: w.date,
+        firstSeenAt: w.firstSeenAt.toISOString(),
+        scrapedAt: w.scrapedAt?.toISOString() ?? null,
+      })),
+    };
+  }
+}
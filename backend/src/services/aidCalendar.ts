@@ -0,0 +1,258 @@
+/**
+ * Aid slot calendar projection.
+ *
+ * Walks forward day by day from the current aid offers: each offer frees one slot on the
+ * sender and one on the recipient the day it expires, and the freed (plus already open)
+ * slots are filled with the same pairing rules and slot solver the recommender uses in
+ * `optimal` mode. Pairings scheduled on an earlier day occupy their slots for the full
+ * offer duration, so later days only see what is really free. Used by AidService.getAidCalendar.
+ */
+
+import { AidSlots } from '../models/Nation.js';
+import { AidSlotCapacity, AidSlotCandidate, AidSlotType, solveAidSlotAssignment } from './aidSlotSolver.js';
+
+export const AID_OFFER_DURATION_DAYS = 10;
+
+// Every nation has 6 aid slots regardless of DRA (see getAidSlotsForAlliance)
+const AID_SLOTS_PER_NATION = 6;
+
+// Same tier ordering as the recommender: re-establish first, then cash before tech
+const REESTABLISH_TIER = 0;
+const NEW_CASH_TIER = 1;
+const NEW_TECH_TIER = 3;
+const TIER_COST = 10000;
+
+export interface AidCalendarNation {
+  id: number;
+  rulerName: string;
+  nationName: string;
+  inWarMode: boolean;
+  slots: AidSlots;
+}
+
+/**
+ * An active offer involving at least one alliance nation.
+ * `type` is null for external offers, which only take a slot from the nation's 6 total.
+ */
+export interface AidCalendarOffer {
+  aidId: number;
+  declaringId: number;
+  receivingId: number;
+  type: AidSlotType | null;
+  daysUntilExpiration: number;
+}
+
+export interface AidCalendarFreedSlots {
+  nationId: number;
+  rulerName: string;
+  nationName: string;
+  send: number;
+  receive: number;
+}
+
+export interface AidCalendarPairing {
+  kind: 'reestablish' | 'new';
+  type: AidSlotType;
+  sender: { id: number; rulerName: string; nationName: string };
+  recipient: { id: number; rulerName: string; nationName: string };
+  expiresInDays: number;
+}
+
+export interface AidCalendarDay {
+  dayOffset: number;
+  date: string;
+  expiringOffers: number;
+  freedSlots: AidCalendarFreedSlots[];
+  openSendSlots: number;
+  openReceiveSlots: number;
+  pairings: AidCalendarPairing[];
+}
+
+interface SlotUsage {
+  sendCash: number;
+  sendTech: number;
+  getCash: number;
+  getTech: number;
+  tracked: number;
+  total: number;
+}
+
+interface ProjectedOffer {
+  senderId: number;
+  recipientId: number;
+  type: AidSlotType | null;
+  expiresOnDay: number;
+}
+
+const pairKey = (a: number, b: number) => `${Math.min(a, b)}-${Math.max(a, b)}`;
+
+/**
+ * Project the next `dates.length` days of aid slots. `dates[0]` is today.
+ */
+export function projectAidCalendar(
+  nations: AidCalendarNation[],
+  offers: AidCalendarOffer[],
+  dates: string[]
+): AidCalendarDay[] {
+  const nationsById = new Map(nations.map(n => [n.id, n]));
+  const usage = new Map<number, SlotUsage>(nations.map(n => [n.id, {
+    sendCash: 0, sendTech: 0, getCash: 0, getTech: 0, tracked: 0, total: 0
+  }]));
+
+  const applyOffer = (offer: ProjectedOffer, delta: 1 | -1) => {
+    const sender = usage.get(offer.senderId);
+    const recipient = usage.get(offer.recipientId);
+    if (sender) {
+      sender.total += delta;
+      if (offer.type === 'cash') sender.sendCash += delta;
+      if (offer.type === 'tech') sender.sendTech += delta;
+      if (offer.type) sender.tracked += delta;
+    }
+    if (recipient) {
+      recipient.total += delta;
+      if (offer.type === 'cash') recipient.getCash += delta;
+      if (offer.type === 'tech') recipient.getTech += delta;
+      if (offer.type) recipient.tracked += delta;
+    }
+  };
+
+  const activeOffers: ProjectedOffer[] = offers.map(offer => ({
+    senderId: offer.declaringId,
+    recipientId: offer.receivingId,
+    type: offer.type,
+    expiresOnDay: offer.daysUntilExpiration,
+  }));
+  activeOffers.forEach(offer => applyOffer(offer, 1));
+
+  const calendar: AidCalendarDay[] = [];
+
+  dates.forEach((date, day) => {
+    // Release everything expiring today
+    const expiring = activeOffers.filter(offer => offer.expiresOnDay === day);
+    const freed = new Map<number, { send: number; receive: number }>();
+    expiring.forEach(offer => {
+      applyOffer(offer, -1);
+      activeOffers.splice(activeOffers.indexOf(offer), 1);
+      if (nationsById.has(offer.senderId)) {
+        const entry = freed.get(offer.senderId) ?? { send: 0, receive: 0 };
+        entry.send++;
+        freed.set(offer.senderId, entry);
+      }
+      if (nationsById.has(offer.recipientId)) {
+        const entry = freed.get(offer.recipientId) ?? { send: 0, receive: 0 };
+        entry.receive++;
+        freed.set(offer.recipientId, entry);
+      }
+    });
+
+    const capacities: AidSlotCapacity[] = nations.map(nation => {
+      const used = usage.get(nation.id)!;
+      const trackedTotal = nation.slots.sendCash + nation.slots.sendTech + nation.slots.getCash + nation.slots.getTech;
+      return {
+        nationId: nation.id,
+        sendCash: nation.inWarMode ? nation.slots.sendCash - used.sendCash : 0,
+        sendTech: nation.inWarMode ? nation.slots.sendTech - used.sendTech : 0,
+        getCash: nation.slots.getCash - used.getCash,
+        getTech: nation.slots.getTech - used.getTech,
+        total: Math.min(trackedTotal - used.tracked, AID_SLOTS_PER_NATION - used.total),
+      };
+    });
+    const capacityById = new Map(capacities.map(c => [c.nationId, c]));
+    const hasRoom = (nationId: number, field: 'sendCash' | 'sendTech' | 'getCash' | 'getTech') => {
+      const capacity = capacityById.get(nationId);
+      return !!capacity && capacity.total > 0 && capacity[field] > 0;
+    };
+
+    const activePairs = new Set(activeOffers.map(offer => pairKey(offer.senderId, offer.recipientId)));
+    const candidates: Array<AidSlotCandidate & { kind: AidCalendarPairing['kind'] }> = [];
+    const candidateKeys = new Set<string>();
+    const addCandidate = (kind: AidCalendarPairing['kind'], tier: number, type: AidSlotType, sender: AidCalendarNation, recipient: AidCalendarNation) => {
+      const key = `${sender.id}-${recipient.id}-${type}`;
+      if (candidateKeys.has(key)) return;
+      candidateKeys.add(key);
+      candidates.push({
+        kind,
+        senderId: sender.id,
+        recipientId: recipient.id,
+        type,
+        cost: tier * TIER_COST + (sender.slots.send_priority ?? 999) + (recipient.slots.receive_priority ?? 999),
+      });
+    };
+
+    // Offers that expired today can be re-sent between the same pair
+    expiring.forEach(offer => {
+      const sender = nationsById.get(offer.senderId);
+      const recipient = nationsById.get(offer.recipientId);
+      if (!sender || !recipient || !offer.type || activePairs.has(pairKey(sender.id, recipient.id))) return;
+      addCandidate('reestablish', REESTABLISH_TIER, offer.type, sender, recipient);
+    });
+
+    // New pairings between nations that have room of the matching type
+    (['cash', 'tech'] as const).forEach(type => {
+      const sendField = type === 'cash' ? 'sendCash' : 'sendTech';
+      const getField = type === 'cash' ? 'getCash' : 'getTech';
+      const senders = nations.filter(n => hasRoom(n.id, sendField));
+      const recipients = nations.filter(n => hasRoom(n.id, getField));
+      senders.forEach(sender => {
+        recipients.forEach(recipient => {
+          if (sender.id === recipient.id || activePairs.has(pairKey(sender.id, recipient.id))) return;
+          addCandidate('new', type === 'cash' ? NEW_CASH_TIER : NEW_TECH_TIER, type, sender, recipient);
+        });
+      });
+    });
+
+    const pairings: AidCalendarPairing[] = solveAidSlotAssignment(capacities, candidates).map(candidate => {
+      const scheduled: ProjectedOffer = {
+        senderId: candidate.senderId,
+        recipientId: candidate.recipientId,
+        type: candidate.type,
+        expiresOnDay: day + AID_OFFER_DURATION_DAYS,
+      };
+      activeOffers.push(scheduled);
+      applyOffer(scheduled, 1);
+
+      const sender = nationsById.get(candidate.senderId)!;
+      const recipient = nationsById.get(candidate.recipientId)!;
+      return {
+        kind: candidate.kind,
+        type: candidate.type,
+        sender: { id: sender.id, rulerName: sender.rulerName, nationName: sender.nationName },
+        recipient: { id: recipient.id, rulerName: recipient.rulerName, nationName: recipient.nationName },
+        expiresInDays: day + AID_OFFER_DURATION_DAYS,
+      };
+    });
+
+    // Slots still open after scheduling. Send and receive share the nation's total,
+    // so each figure is what could be used if the other side stayed empty.
+    let openSendSlots = 0;
+    let openReceiveSlots = 0;
+    nations.forEach(nation => {
+      const used = usage.get(nation.id)!;
+      const trackedTotal = nation.slots.sendCash + nation.slots.sendTech + nation.slots.getCash + nation.slots.getTech;
+      const total = Math.max(0, Math.min(trackedTotal - used.tracked, AID_SLOTS_PER_NATION - used.total));
+      const send = nation.inWarMode
+        ? Math.max(0, nation.slots.sendCash - used.sendCash) + Math.max(0, nation.slots.sendTech - used.sendTech)
+        : 0;
+      const receive = Math.max(0, nation.slots.getCash - used.getCash) + Math.max(0, nation.slots.getTech - used.getTech);
+      openSendSlots += Math.min(total, send);
+      openReceiveSlots += Math.min(total, receive);
+    });
+
+    calendar.push({
+      dayOffset: day,
+      date,
+      expiringOffers: expiring.length,
+      freedSlots: Array.from(freed.entries())
+        .map(([nationId, counts]) => {
+          const nation = nationsById.get(nationId)!;
+          return { nationId, rulerName: nation.rulerName, nationName: nation.nationName, ...counts };
+        })
+        .sort((a, b) => (b.send + b.receive) - (a.send + a.receive) || a.nationName.localeCompare(b.nationName)),
+      openSendSlots,
+      openReceiveSlots,
+      pairings,
+    });
+  });
+
+  return calendar;
+}
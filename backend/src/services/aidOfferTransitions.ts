@@ -0,0 +1,170 @@
+/**
+ * Aid offer transitions.
+ *
+ * Each aid import records a transition when an offer first appears, changes status or leaves
+ * the aid file (see loadAidOffers). A transition that ends a live (Pending or Approved) offer
+ * gets an outcome: offers that reach their 10-day expiry expired, anything earlier was
+ * cancelled (still Pending) or reneged (already Approved). The export doesn't say which side
+ * ended an offer, so outcomes are reported against both nations.
+ */
+
+import { parseCentralTimeDate } from '../utils/dateUtils.js';
+import { AID_OFFER_DURATION_DAYS } from './aidCalendar.js';
+
+/**
+ * Status recorded when an offer is missing from the aid file
+ */
+export const AID_OFFER_DISAPPEARED = 'Disappeared';
+
+export const AID_OFFER_OUTCOMES = {
+  CANCELLED: 'cancelled',
+  RENEGED: 'reneged',
+  EXPIRED: 'expired',
+} as const;
+
+export type AidOfferOutcome = (typeof AID_OFFER_OUTCOMES)[keyof typeof AID_OFFER_OUTCOMES];
+
+const LIVE_STATUSES = new Set(['Pending', 'Approved']);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Days from the offer date to when the transition was observed, or null if the date doesn't parse
+ */
+export function aidOfferDaysActive(offerDate: string, observedAt: Date): number | null {
+  try {
+    const offeredAt = parseCentralTimeDate(offerDate);
+    if (isNaN(offeredAt.getTime())) return null;
+    return Math.max(0, (observedAt.getTime() - offeredAt.getTime()) / DAY_MS);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * How a transition ended an offer, or null if the offer was already over (or just appeared)
+ * or is still live. An unparseable offer date counts as early, since we can't show it expired.
+ */
+export function classifyAidOfferTransition(
+  fromStatus: string | null,
+  toStatus: string,
+  offerDate: string,
+  observedAt: Date
+): AidOfferOutcome | null {
+  if (fromStatus === null || !LIVE_STATUSES.has(fromStatus) || LIVE_STATUSES.has(toStatus)) {
+    return null;
+  }
+  const daysActive = aidOfferDaysActive(offerDate, observedAt);
+  if (toStatus === 'Expired' || (daysActive !== null && daysActive >= AID_OFFER_DURATION_DAYS)) {
+    return AID_OFFER_OUTCOMES.EXPIRED;
+  }
+  return fromStatus === 'Approved' ? AID_OFFER_OUTCOMES.RENEGED : AID_OFFER_OUTCOMES.CANCELLED;
+}
+
+/**
+ * An ended offer as stored in aid_offer_transitions, with the offer's amounts
+ */
+export interface EndedAidOfferTransition {
+  aidId: number;
+  declaringNationId: number;
+  receivingNationId: number;
+  declaringAllianceId: number | null;
+  receivingAllianceId: number | null;
+  fromStatus: string | null;
+  toStatus: string;
+  outcome: string | null;
+  date: string;
+  observedAt: Date;
+  money: number;
+  technology: number;
+  soldiers: number;
+}
+
+export interface AidOfferNationRef {
+  id: number;
+  rulerName: string;
+  nationName: string;
+}
+
+export interface EarlyEndedAidOffer {
+  aidId: number;
+  outcome: AidOfferOutcome;
+  direction: 'sent' | 'received';
+  otherNation: AidOfferNationRef;
+  money: number;
+  technology: number;
+  soldiers: number;
+  fromStatus: string | null;
+  toStatus: string;
+  offerDate: string;
+  endedAt: string;
+  daysActive: number | null;
+}
+
+export interface NationEarlyAidCancellations {
+  nationId: number;
+  rulerName: string;
+  nationName: string;
+  /** Pending offers that ended before expiring */
+  cancelled: number;
+  /** Approved offers that ended before expiring */
+  reneged: number;
+  /** All offers that ended, including ones that expired */
+  ended: number;
+  offers: EarlyEndedAidOffer[];
+}
+
+/**
+ * Per-nation counts of offers an alliance's nations had end early, from the ended-offer
+ * transitions involving the alliance. A nation counts an offer when it was in the alliance
+ * at the time, on either side. Nations without early ends are left out; most early ends first.
+ */
+export function summarizeEarlyAidCancellations(
+  allianceId: number,
+  transitions: EndedAidOfferTransition[],
+  nations: Map<number, AidOfferNationRef>
+): NationEarlyAidCancellations[] {
+  const byNation = new Map<number, NationEarlyAidCancellations>();
+  const nationRef = (id: number): AidOfferNationRef =>
+    nations.get(id) ?? { id, rulerName: 'Unknown', nationName: 'Unknown' };
+
+  for (const transition of transitions) {
+    const sides = [
+      { nationId: transition.declaringNationId, allianceId: transition.declaringAllianceId, direction: 'sent' as const, otherId: transition.receivingNationId },
+      { nationId: transition.receivingNationId, allianceId: transition.receivingAllianceId, direction: 'received' as const, otherId: transition.declaringNationId },
+    ];
+    for (const side of sides) {
+      if (side.allianceId !== allianceId || !transition.outcome) continue;
+
+      let summary = byNation.get(side.nationId);
+      if (!summary) {
+        const nation = nationRef(side.nationId);
+        summary = { nationId: nation.id, rulerName: nation.rulerName, nationName: nation.nationName, cancelled: 0, reneged: 0, ended: 0, offers: [] };
+        byNation.set(side.nationId, summary);
+      }
+      summary.ended++;
+      if (transition.outcome !== AID_OFFER_OUTCOMES.CANCELLED && transition.outcome !== AID_OFFER_OUTCOMES.RENEGED) continue;
+
+      summary[transition.outcome]++;
+      summary.offers.push({
+        aidId: transition.aidId,
+        outcome: transition.outcome,
+        direction: side.direction,
+        otherNation: nationRef(side.otherId),
+        money: transition.money,
+        technology: transition.technology,
+        soldiers: transition.soldiers,
+        fromStatus: transition.fromStatus,
+        toStatus: transition.toStatus,
+        offerDate: transition.date,
+        endedAt: transition.observedAt.toISOString(),
+        daysActive: aidOfferDaysActive(transition.date, transition.observedAt),
+      });
+    }
+  }
+
+  return Array.from(byNation.values())
+    .filter((summary) => summary.offers.length > 0)
+    .map((summary) => ({ ...summary, offers: summary.offers.sort((a, b) => b.endedAt.localeCompare(a.endedAt)) }))
+    .sort((a, b) => (b.cancelled + b.reneged) - (a.cancelled + a.reneged) || b.ended - a.ended);
+}
@@ -12,7 +12,20 @@ import { AllianceService } from './allianceService.js';
 import { AidOffer, NationAidSlots } from '../models/index.js';
 import { CategorizedNation, Nation } from '../models/Nation.js';
 import { prisma } from '../utils/prisma.js';
-import { isAidOfferExpired, calculateAidDateInfo, getAidDaysUntilExpiration, parseCentralTimeDate } from '../utils/dateUtils.js';
+import { isAidOfferExpired, calculateAidDateInfo, getAidDaysUntilExpiration, parseCentralTimeDate, formatCentralTimeDate } from '../utils/dateUtils.js';
+import { solveAidSlotAssignment, AidSlotCandidate, AidSlotCapacity } from './aidSlotSolver.js';
+import { projectAidCalendar, AidCalendarOffer } from './aidCalendar.js';
+import { AID_OFFER_OUTCOMES, summarizeEarlyAidCancellations } from './aidOfferTransitions.js';
+
+/**
+ * How aid recommendations are generated:
+ * - greedy: sequential passes by priority (default)
+ * - optimal: global min-cost flow assignment over all open slots (see aidSlotSolver)
+ */
+export type AidRecommendationMode = 'greedy' | 'optimal';
+
+// Cost added per recommendation priority tier so the solver prefers re-establishing and internal aid
+const OPTIMAL_PRIORITY_TIER_COST = 10000;
 
 // Cache for alliance aid totals
 interface AllianceAidTotalsCache {
@@ -779,10 +792,91 @@ export class AidService {
     };
   }
 
+  /**
+   * Project aid slots for the next `days` days: slots freed per nation as offers expire
+   * and the pairings that could be scheduled into them (see aidCalendar)
+   */
+  static async getAidCalendar(allianceId: number, days: number) {
+    const { nations, aidOffers, useJsonData } = await AllianceService.getAllianceData(allianceId);
+    const categorizedNations: CategorizedNation[] = (useJsonData ? (nations as CategorizedNation[]) : await categorizeNations(nations))
+      .filter(nation => nation.allianceId === allianceId);
+    const allianceNationIds = new Set(categorizedNations.map(nation => nation.id));
+
+    const offers: AidCalendarOffer[] = aidOffers
+      .filter((offer: AidOffer) =>
+        !this.isOfferExpired(offer) &&
+        offer.daysUntilExpiration !== undefined &&
+        (allianceNationIds.has(offer.declaringId) || allianceNationIds.has(offer.receivingId))
+      )
+      .map((offer: AidOffer) => {
+        // Same rule as the recommender: tech if any tech, cash only if no tech
+        const isTracked = offer.declaringAllianceId === allianceId && offer.receivingAllianceId === allianceId;
+        const type = !isTracked ? null : offer.technology > 0 ? 'tech' : offer.money > 0 ? 'cash' : null;
+        return {
+          aidId: offer.aidId,
+          declaringId: offer.declaringId,
+          receivingId: offer.receivingId,
+          type,
+          daysUntilExpiration: offer.daysUntilExpiration!
+        };
+      });
+
+    const now = Date.now();
+    const dates = Array.from({ length: days }, (_, day) =>
+      formatCentralTimeDate(new Date(now + day * 24 * 60 * 60 * 1000))
+    );
+
+    return {
+      days: projectAidCalendar(categorizedNations, offers, dates),
+      activeOffers: offers.length,
+      nations: categorizedNations.length
+    };
+  }
+
+  /**
+   * Per-nation report of aid offers the alliance's nations had cancelled or reneged on before
+   * their 10-day expiry over the last `days` days (see aidOfferTransitions)
+   */
+  static async getEarlyAidCancellations(allianceId: number, days: number) {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const transitions = await prisma.aidOfferTransition.findMany({
+      where: {
+        outcome: { in: Object.values(AID_OFFER_OUTCOMES) },
+        observedAt: { gte: since },
+        OR: [{ declaringAllianceId: allianceId }, { receivingAllianceId: allianceId }],
+      },
+      include: { aidOffer: { select: { money: true, technology: true, soldiers: true } } },
+    });
+
+    const nationIds = new Set(transitions.flatMap(t => [t.declaringNationId, t.receivingNationId]));
+    const nations = await prisma.nation.findMany({
+      where: { id: { in: Array.from(nationIds) } },
+      select: { id: true, rulerName: true, nationName: true },
+    });
+
+    const summaries = summarizeEarlyAidCancellations(
+      allianceId,
+      transitions.map(({ aidOffer, ...transition }) => ({ ...transition, ...aidOffer })),
+      new Map(nations.map(nation => [nation.id, nation]))
+    );
+
+    return {
+      since: since.toISOString(),
+      nations: summaries,
+      cancelled: summaries.reduce((sum, nation) => sum + nation.cancelled, 0),
+      reneged: summaries.reduce((sum, nation) => sum + nation.reneged, 0)
+    };
+  }
+
   /**
    * Get aid recommendations for an alliance
+   * In optimal mode the greedy result is still computed so the response can compare fill rates.
    */
-  static async getAidRecommendations(allianceId: number, crossAllianceEnabled: boolean = false) {
+  static async getAidRecommendations(
+    allianceId: number,
+    crossAllianceEnabled: boolean = false,
+    mode: AidRecommendationMode = 'greedy'
+  ) {
     const { nations, aidOffers, useJsonData } = await AllianceService.getAllianceData(allianceId);
     
     if (nations.length === 0) {
@@ -1398,6 +1492,169 @@ export class AidService {
       }
     }
 
+    // Optimal mode: replace the greedy passes with a global assignment over the same candidates
+    let fillRateComparison: {
+      openSlots: number;
+      greedy: { recommendations: number; filledSlots: number; fillRate: number };
+      optimal: { recommendations: number; filledSlots: number; fillRate: number };
+    } | undefined;
+
+    if (mode === 'optimal') {
+      // Remaining capacity per nation, before any recommendations (mirrors the can* checks above)
+      const capacities: AidSlotCapacity[] = activeNations.map(nation => {
+        const remainingTracked = (totalTrackedSlotsByNation.get(nation.id) || 0) - (nationAidCounts.get(nation.id) || 0);
+        const remainingActual = (totalAvailableSlotsByNation.get(nation.id) || 0) - (actualFilledSlotsByNation.get(nation.id) || 0);
+        return {
+          nationId: nation.id,
+          sendCash: nation.inWarMode ? nation.slots.sendCash - (outgoingCashExisting.get(nation.id) || 0) : 0,
+          sendTech: nation.inWarMode ? nation.slots.sendTech - (outgoingTechExisting.get(nation.id) || 0) : 0,
+          getCash: nation.slots.getCash - (incomingCashExisting.get(nation.id) || 0),
+          getTech: nation.slots.getTech - (incomingTechExisting.get(nation.id) || 0),
+          total: Math.min(remainingTracked, remainingActual)
+        };
+      });
+
+      const openSlots = capacities.reduce((sum, c) => {
+        const send = Math.max(0, c.sendCash) + Math.max(0, c.sendTech);
+        const receive = Math.max(0, c.getCash) + Math.max(0, c.getTech);
+        return sum + Math.max(0, Math.min(c.total, send + receive));
+      }, 0);
+      const fillRate = (count: number) => ({
+        recommendations: count,
+        filledSlots: count * 2,
+        fillRate: openSlots > 0 ? Math.round((count * 2 / openSlots) * 1000) / 1000 : 0
+      });
+      const greedyFill = fillRate(recommendations.length);
+
+      type OptimalCandidate = AidSlotCandidate & {
+        priority: number;
+        recommendationType: string;
+        sender: CategorizedNation;
+        recipient: CategorizedNation;
+        reason: string;
+        previousOffer?: { money: number; technology: number; soldiers: number; reason: string };
+      };
+      const candidates: OptimalCandidate[] = [];
+      const addCandidate = (
+        priority: number,
+        recommendationType: string,
+        type: 'cash' | 'tech',
+        sender: CategorizedNation,
+        recipient: CategorizedNation,
+        reason: string,
+        previousOffer?: OptimalCandidate['previousOffer']
+      ) => {
+        candidates.push({
+          senderId: sender.id,
+          recipientId: recipient.id,
+          type,
+          cost: priority * OPTIMAL_PRIORITY_TIER_COST + (sender.slots.send_priority ?? 999) + (recipient.slots.receive_priority ?? 999),
+          priority,
+          recommendationType,
+          sender,
+          recipient,
+          reason,
+          previousOffer
+        });
+      };
+      const isNewPair = (senderId: number, recipientId: number) => {
+        const pair = `${Math.min(senderId, recipientId)}-${Math.max(senderId, recipientId)}`;
+        return !existingPairs.has(pair) && !expiredPairs.has(pair);
+      };
+
+      expiredOffers.forEach(offer => {
+        if (offer.declaringAllianceId !== allianceId) return;
+        const sender = activeNations.find(n => n.id === offer.declaringId);
+        const recipient = activeNations.find(n => n.id === offer.receivingId);
+        const pair = `${Math.min(offer.declaringId, offer.receivingId)}-${Math.max(offer.declaringId, offer.receivingId)}`;
+        if (!sender || !recipient || !sender.inWarMode || existingPairs.has(pair)) return;
+        const previousOffer = {
+          money: offer.money,
+          technology: offer.technology,
+          soldiers: offer.soldiers,
+          reason: offer.reason
+        };
+        if (sender.slots.sendCash > 0 && recipient.slots.getCash > 0 && offer.money > 0) {
+          addCandidate(0, 'reestablish_cash', 'cash', sender, recipient,
+            `Re-establish expired cash aid: ${sender.nationName} → ${recipient.nationName}`, previousOffer);
+        }
+        if (sender.slots.sendTech > 0 && recipient.slots.getTech > 0 && offer.technology > 0) {
+          addCandidate(0, 'reestablish_tech', 'tech', sender, recipient,
+            `Re-establish expired tech aid: ${sender.nationName} → ${recipient.nationName}`, previousOffer);
+        }
+      });
+
+      activeInternalNationsThatShouldSendCash.forEach(sender => {
+        internalNationsThatShouldGetCash.forEach(recipient => {
+          if (isNewPair(sender.id, recipient.id)) {
+            addCandidate(1, 'new_cash', 'cash', sender, recipient,
+              `New internal cash aid: ${sender.nationName} → ${recipient.nationName}`);
+          }
+        });
+        crossAllianceNationsThatShouldGetCash.forEach(recipient => {
+          if (isNewPair(sender.id, recipient.id)) {
+            addCandidate(2, 'cross_alliance_cash', 'cash', sender, recipient,
+              `Cross-alliance cash aid: ${sender.nationName} → ${recipient.nationName}`);
+          }
+        });
+      });
+
+      activeInternalNationsThatShouldSendTechnology.forEach(sender => {
+        internalNationsThatShouldGetTechnology.forEach(recipient => {
+          if (isNewPair(sender.id, recipient.id)) {
+            addCandidate(3, 'new_tech', 'tech', sender, recipient,
+              `New internal tech aid: ${sender.nationName} → ${recipient.nationName}`);
+          }
+        });
+        crossAllianceNationsThatShouldGetTechnology.forEach(recipient => {
+          if (isNewPair(sender.id, recipient.id)) {
+            addCandidate(4, 'cross_alliance_tech', 'tech', sender, recipient,
+              `Cross-alliance tech aid: ${sender.nationName} → ${recipient.nationName}`);
+          }
+        });
+      });
+
+      // Reset greedy state so slot availability below reflects the optimal assignment
+      recommendations.length = 0;
+      recommendationPairs.clear();
+      [recommendationCounts, recOutgoingCash, recIncomingCash, recOutgoingTech, recIncomingTech].forEach(m => m.clear());
+
+      solveAidSlotAssignment(capacities, candidates).forEach(candidate => {
+        const { sender, recipient } = candidate;
+        recommendations.push({
+          priority: candidate.priority,
+          type: candidate.recommendationType,
+          sender: {
+            id: sender.id,
+            rulerName: sender.rulerName,
+            nationName: sender.nationName,
+            discord_handle: sender.discord_handle,
+            slots: sender.slots,
+            currentAidCount: nationAidCounts.get(sender.id) || 0,
+            inWarMode: sender.inWarMode
+          },
+          recipient: {
+            id: recipient.id,
+            rulerName: recipient.rulerName,
+            nationName: recipient.nationName,
+            slots: recipient.slots,
+            currentAidCount: nationAidCounts.get(recipient.id) || 0,
+            inWarMode: recipient.inWarMode
+          },
+          reason: candidate.reason,
+          ...(candidate.previousOffer ? { previousOffer: candidate.previousOffer } : {})
+        });
+        incrementCounts(sender.id, recipient.id, candidate.type);
+        recommendationPairs.add(`${Math.min(sender.id, recipient.id)}-${Math.max(sender.id, recipient.id)}`);
+      });
+
+      fillRateComparison = {
+        openSlots,
+        greedy: greedyFill,
+        optimal: fillRate(recommendations.length)
+      };
+    }
+
     // Sort recommendations by priority (lower number = higher priority)
     recommendations.sort((a, b) => a.priority - b.priority);
 
@@ -2291,7 +2548,8 @@ export class AidService {
         nationsWithUnacceptedTech,
         nationsWithOldReceivedOffers,
         nationsWithOldTechOffers
-      }
+      },
+      ...(fillRateComparison ? { fillRateComparison } : {})
     };
   }
 
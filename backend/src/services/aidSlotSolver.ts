@@ -0,0 +1,208 @@
+/**
+ * Global aid slot assignment solver.
+ *
+ * Builds a flow network over the remaining send/receive slots of every nation and runs
+ * min-cost max-flow, so the number of filled slots is maximised first and the total
+ * priority cost is minimised second. Used by AidService.getAidRecommendations in
+ * `optimal` mode as an alternative to the sequential greedy passes.
+ */
+
+export type AidSlotType = 'cash' | 'tech';
+
+/**
+ * Remaining (unused) slot capacity for one nation.
+ * `total` is what is left of the nation's 5/6 slots once existing offers are counted.
+ */
+export interface AidSlotCapacity {
+  nationId: number;
+  sendCash: number;
+  sendTech: number;
+  getCash: number;
+  getTech: number;
+  total: number;
+}
+
+/**
+ * A sender → recipient pairing that may be recommended. Lower cost is preferred.
+ */
+export interface AidSlotCandidate {
+  senderId: number;
+  recipientId: number;
+  type: AidSlotType;
+  cost: number;
+}
+
+interface FlowEdge {
+  to: number;
+  capacity: number;
+  cost: number;
+  reverse: number;
+}
+
+class FlowNetwork {
+  readonly edges: FlowEdge[][] = [];
+
+  addNode(): number {
+    this.edges.push([]);
+    return this.edges.length - 1;
+  }
+
+  /**
+   * Add an edge and return its index in the `from` adjacency list
+   */
+  addEdge(from: number, to: number, capacity: number, cost: number): number {
+    this.edges[from].push({ to, capacity, cost, reverse: this.edges[to].length });
+    this.edges[to].push({ to: from, capacity: 0, cost: -cost, reverse: this.edges[from].length - 1 });
+    return this.edges[from].length - 1;
+  }
+
+  /**
+   * Successive shortest augmenting paths (SPFA, so negative residual costs are fine)
+   */
+  minCostMaxFlow(source: number, sink: number): void {
+    const nodeCount = this.edges.length;
+    for (;;) {
+      const distance = new Array<number>(nodeCount).fill(Infinity);
+      const inQueue = new Array<boolean>(nodeCount).fill(false);
+      const previousNode = new Array<number>(nodeCount).fill(-1);
+      const previousEdge = new Array<number>(nodeCount).fill(-1);
+      distance[source] = 0;
+      const queue: number[] = [source];
+      inQueue[source] = true;
+
+      while (queue.length > 0) {
+        const node = queue.shift()!;
+        inQueue[node] = false;
+        this.edges[node].forEach((edge, index) => {
+          if (edge.capacity > 0 && distance[node] + edge.cost < distance[edge.to]) {
+            distance[edge.to] = distance[node] + edge.cost;
+            previousNode[edge.to] = node;
+            previousEdge[edge.to] = index;
+            if (!inQueue[edge.to]) {
+              queue.push(edge.to);
+              inQueue[edge.to] = true;
+            }
+          }
+        });
+      }
+
+      if (distance[sink] === Infinity) {
+        return;
+      }
+
+      let pathCapacity = Infinity;
+      for (let node = sink; node !== source; node = previousNode[node]) {
+        pathCapacity = Math.min(pathCapacity, this.edges[previousNode[node]][previousEdge[node]].capacity);
+      }
+      for (let node = sink; node !== source; node = previousNode[node]) {
+        const edge = this.edges[previousNode[node]][previousEdge[node]];
+        edge.capacity -= pathCapacity;
+        this.edges[node][edge.reverse].capacity += pathCapacity;
+      }
+    }
+  }
+}
+
+const pairKey = (a: number, b: number): string => `${Math.min(a, b)}-${Math.max(a, b)}`;
+
+/**
+ * Pick the set of candidates that fills the most slots at the lowest total cost.
+ *
+ * Constraints honoured:
+ * - per-type send/receive capacity and the per-nation total capacity
+ * - at most one recommendation per nation pair (in either direction)
+ *
+ * The total capacity is shared between a nation's sending and receiving side, which a
+ * flow network cannot express directly, so the flow result is re-checked in cost order
+ * and any leftover capacity is topped up from the remaining candidates.
+ * Returns the chosen candidates sorted by cost.
+ */
+export function solveAidSlotAssignment<T extends AidSlotCandidate>(
+  capacities: AidSlotCapacity[],
+  candidates: T[]
+): T[] {
+  const capacityByNation = new Map(capacities.map(c => [c.nationId, c]));
+  const usable = candidates.filter(c =>
+    c.senderId !== c.recipientId &&
+    capacityByNation.has(c.senderId) &&
+    capacityByNation.has(c.recipientId)
+  );
+
+  if (usable.length === 0) {
+    return [];
+  }
+
+  const network = new FlowNetwork();
+  const source = network.addNode();
+  const sink = network.addNode();
+
+  // source → send[nation] → send[nation][type] → receive[nation][type] → receive[nation] → sink
+  const sendNodes = new Map<number, Record<AidSlotType, number>>();
+  const receiveNodes = new Map<number, Record<AidSlotType, number>>();
+  for (const capacity of capacities) {
+    const send = network.addNode();
+    const receive = network.addNode();
+    network.addEdge(source, send, Math.max(0, capacity.total), 0);
+    network.addEdge(receive, sink, Math.max(0, capacity.total), 0);
+
+    const sendByType = { cash: network.addNode(), tech: network.addNode() };
+    const receiveByType = { cash: network.addNode(), tech: network.addNode() };
+    network.addEdge(send, sendByType.cash, Math.max(0, capacity.sendCash), 0);
+    network.addEdge(send, sendByType.tech, Math.max(0, capacity.sendTech), 0);
+    network.addEdge(receiveByType.cash, receive, Math.max(0, capacity.getCash), 0);
+    network.addEdge(receiveByType.tech, receive, Math.max(0, capacity.getTech), 0);
+
+    sendNodes.set(capacity.nationId, sendByType);
+    receiveNodes.set(capacity.nationId, receiveByType);
+  }
+
+  const candidateEdges = usable.map(candidate => {
+    const from = sendNodes.get(candidate.senderId)![candidate.type];
+    const to = receiveNodes.get(candidate.recipientId)![candidate.type];
+    return { candidate, from, index: network.addEdge(from, to, 1, candidate.cost) };
+  });
+
+  network.minCostMaxFlow(source, sink);
+
+  const byCost = (a: T, b: T) => a.cost - b.cost;
+  const flowChosen = candidateEdges
+    .filter(({ from, index }) => network.edges[from][index].capacity === 0)
+    .map(({ candidate }) => candidate)
+    .sort(byCost);
+
+  const remaining = new Map(capacities.map(c => [c.nationId, { ...c }]));
+  const usedPairs = new Set<string>();
+  const selected: T[] = [];
+  const trySelect = (candidate: T): boolean => {
+    const sender = remaining.get(candidate.senderId)!;
+    const recipient = remaining.get(candidate.recipientId)!;
+    const pair = pairKey(candidate.senderId, candidate.recipientId);
+    const sendField = candidate.type === 'cash' ? 'sendCash' : 'sendTech';
+    const getField = candidate.type === 'cash' ? 'getCash' : 'getTech';
+    if (usedPairs.has(pair) || sender.total <= 0 || recipient.total <= 0 ||
+        sender[sendField] <= 0 || recipient[getField] <= 0) {
+      return false;
+    }
+    sender.total--;
+    recipient.total--;
+    sender[sendField]--;
+    recipient[getField]--;
+    usedPairs.add(pair);
+    selected.push(candidate);
+    return true;
+  };
+
+  const chosenSet = new Set<T>();
+  for (const candidate of flowChosen) {
+    if (trySelect(candidate)) {
+      chosenSet.add(candidate);
+    }
+  }
+  for (const candidate of [...usable].sort(byCost)) {
+    if (!chosenSet.has(candidate)) {
+      trySelect(candidate);
+    }
+  }
+
+  return selected.sort(byCost);
+}
@@ -0,0 +1,127 @@
+import crypto from 'crypto';
+import { prisma } from '../utils/prisma.js';
+import { getCapabilityScope } from './authService.js';
+
+/**
+ * Capabilities an API key can carry. Keys are for userscripts posting game data, so they are
+ * limited to the ingest and sync endpoints rather than everything their user can do.
+ */
+export const API_KEY_SCOPES = ['ingest_nuclear', 'ingest_wars', 'ingest_warchest', 'sync_data'] as const;
+
+const API_KEY_PREFIX = 'cnk_';
+// Characters of the key kept in the clear so users can tell their keys apart
+const DISPLAYED_PREFIX_LENGTH = API_KEY_PREFIX.length + 8;
+// Only record a key's use again after this long, so busy userscripts don't write on every call
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export interface ApiKeySummary {
+  id: number;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  createdAt: Date;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+}
+
+export interface AuthenticatedApiKey {
+  id: number;
+  userId: number;
+  scopes: string[];
+}
+
+const summarySelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  createdAt: true,
+  lastUsedAt: true,
+  revokedAt: true,
+} as const;
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Create a key for a user. Every scope must be a key scope the user holds, globally or through a
+ * role in any alliance (the ingest routes accept either). The key is
+ * returned once; only its hash is stored.
+ */
+export async function createApiKey(
+  userId: number,
+  name: string,
+  scopes: string[]
+): Promise<{ key: string; apiKey: ApiKeySummary }> {
+  const uniqueScopes = Array.from(new Set(scopes));
+  if (uniqueScopes.length === 0) {
+    throw new Error('Choose at least one scope');
+  }
+  const invalid = uniqueScopes.filter((scope) => !(API_KEY_SCOPES as readonly string[]).includes(scope));
+  if (invalid.length > 0) {
+    throw new Error(`Unknown scopes: ${invalid.join(', ')}. Keys can use: ${API_KEY_SCOPES.join(', ')}`);
+  }
+  for (const scope of uniqueScopes) {
+    const held = await getCapabilityScope(userId, scope);
+    if (!held.global && held.allianceIds.length === 0) {
+      throw new Error(`You don't have the ${scope} capability`);
+    }
+  }
+
+  const key = `${API_KEY_PREFIX}${crypto.randomBytes(24).toString('base64url')}`;
+  const apiKey = await prisma.apiKey.create({
+    data: {
+      userId,
+      name,
+      prefix: key.slice(0, DISPLAYED_PREFIX_LENGTH),
+      keyHash: hashApiKey(key),
+      scopes: uniqueScopes,
+    },
+    select: summarySelect,
+  });
+
+  return { key, apiKey };
+}
+
+/**
+ * A user's keys, revoked ones included, newest first
+ */
+export async function listApiKeys(userId: number): Promise<ApiKeySummary[]> {
+  return prisma.apiKey.findMany({
+    where: { userId },
+    select: summarySelect,
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+/**
+ * Revoke one of a user's keys. Returns false if the user has no such active key.
+ */
+export async function revokeApiKey(userId: number, keyId: number): Promise<boolean> {
+  const { count } = await prisma.apiKey.updateMany({
+    where: { id: keyId, userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  return count > 0;
+}
+
+/**
+ * Look up an active key and record that it was used. Returns null for unknown or revoked keys.
+ */
+export async function authenticateApiKey(key: string): Promise<AuthenticatedApiKey | null> {
+  if (!key.startsWith(API_KEY_PREFIX)) return null;
+
+  const apiKey = await prisma.apiKey.findUnique({
+    where: { keyHash: hashApiKey(key) },
+    select: { id: true, userId: true, scopes: true, lastUsedAt: true, revokedAt: true },
+  });
+  if (!apiKey || apiKey.revokedAt) return null;
+
+  const now = new Date();
+  if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() >= LAST_USED_RESOLUTION_MS) {
+    await prisma.apiKey.update({ where: { id: apiKey.id }, data: { lastUsedAt: now } });
+  }
+
+  return { id: apiKey.id, userId: apiKey.userId, scopes: apiKey.scopes };
+}
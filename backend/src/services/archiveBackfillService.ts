@@ -0,0 +1,178 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { prisma } from '../utils/prisma.js';
+import { runAtImportTime } from '../utils/importClock.js';
+import { runOnGameServer, type GameServer } from '../utils/gameServer.js';
+import { FileType, extractCsvToStandardFile, parseArchiveFilename, type ArchiveSlug } from '../utils/dataDownloader.js';
+import { beginSyncRun, finishSyncRun, type SyncRunFile } from './syncRunService.js';
+
+/** Nations first so aid offers and wars can resolve their nations' alliances */
+const IMPORT_ORDER: FileType[] = [FileType.NATION_STATS, FileType.AID_STATS, FileType.WAR_STATS];
+
+export interface ArchiveFile {
+  path: string;
+  slug: ArchiveSlug;
+}
+
+/**
+ * The files one server published for one half-day, replayed together
+ */
+export interface BackfillSlot {
+  server: GameServer;
+  timestamp: Date;
+  files: ArchiveFile[];
+}
+
+export interface BackfillOptions {
+  from?: Date;
+  to?: Date;
+  /** List what would be replayed without importing anything */
+  dryRun?: boolean;
+  /** Replay even when the database already has data newer than the first archive */
+  allowOverlap?: boolean;
+}
+
+export interface BackfillSummary {
+  slots: number;
+  filesImported: number;
+  filesFailed: number;
+  eventsCreated: number;
+}
+
+/**
+ * Group archives into per-server half-day slots in chronological order, each slot's files in import order.
+ * When a slot has the same file type twice, the later path wins.
+ */
+export function groupArchivesBySlot(archives: ArchiveFile[]): BackfillSlot[] {
+  const slots = new Map<string, { server: GameServer; timestamp: number; files: Map<FileType, ArchiveFile> }>();
+  for (const archive of archives) {
+    const timestamp = archive.slug.timestamp.getTime();
+    const key = `${archive.slug.server}:${timestamp}`;
+    const slot = slots.get(key) ?? { server: archive.slug.server, timestamp, files: new Map<FileType, ArchiveFile>() };
+    slot.files.set(archive.slug.fileType, archive);
+    slots.set(key, slot);
+  }
+
+  return Array.from(slots.values())
+    .sort((a, b) => a.timestamp - b.timestamp || a.server.localeCompare(b.server))
+    .map(({ server, timestamp, files }) => ({
+      server,
+      timestamp: new Date(timestamp),
+      files: IMPORT_ORDER.filter((fileType) => files.has(fileType)).map((fileType) => files.get(fileType)!),
+    }));
+}
+
+/**
+ * Archived CyberNations_SE_*_*.zip and CyberNations_TE_*_*.zip downloads in a directory. Names that don't parse are skipped.
+ */
+export function findArchives(directory: string): ArchiveFile[] {
+  const archives: ArchiveFile[] = [];
+  for (const name of fs.readdirSync(directory)) {
+    if (!name.endsWith('.zip')) continue;
+    const filePath = path.join(directory, name);
+    const slug = parseArchiveFilename(name, fs.statSync(filePath).mtime);
+    if (!slug) {
+      console.warn(`[Backfill] Skipping ${name}: not a CyberNations_SE/TE download name`);
+      continue;
+    }
+    archives.push({ path: filePath, slug });
+  }
+  return archives;
+}
+
+async function replaySlot(slot: BackfillSlot, workDir: string): Promise<SyncRunFile[]> {
+  const { importCsvFileSafely } = await import('./csvImportService.js');
+  const syncRun = await beginSyncRun('backfill', true);
+  const files: SyncRunFile[] = [];
+
+  for (const archive of slot.files) {
+    const filename = path.basename(archive.path);
+    const outputPath = path.join(workDir, `${archive.slug.fileType}.csv`);
+    try {
+      await extractCsvToStandardFile(archive.path, outputPath, archive.slug.fileType, archive.slug.server);
+      files.push(await importCsvFileSafely(archive.slug.fileType, outputPath, { syncRunId: syncRun.id, filename }));
+    } catch (error) {
+      console.error(`[Backfill] Failed to replay ${filename}:`, error);
+      files.push({
+        fileType: archive.slug.fileType,
+        filename,
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  // Aid utilization snapshots, as the daily sync does once every file is in
+  if (files.length === IMPORT_ORDER.length && files.every((file) => file.success)) {
+    const { executePostProcessingIfConfigured } = await import('./postProcessingService.js');
+    await executePostProcessingIfConfigured(slot.timestamp);
+  }
+
+  await finishSyncRun(syncRun, files);
+  return files;
+}
+
+/**
+ * Replay a directory of archived downloads through the importers in chronological order,
+ * each at its own half-day, so events and snapshots are dated as if we had been syncing then.
+ */
+export async function replayArchives(directory: string, options: BackfillOptions = {}): Promise<BackfillSummary> {
+  const slots = groupArchivesBySlot(findArchives(directory)).filter(
+    (slot) =>
+      (!options.from || slot.timestamp >= options.from) &&
+      (!options.to || slot.timestamp <= options.to)
+  );
+
+  const summary: BackfillSummary = { slots: slots.length, filesImported: 0, filesFailed: 0, eventsCreated: 0 };
+  if (slots.length === 0) {
+    console.log('[Backfill] No archives to replay');
+    return summary;
+  }
+
+  console.log(`[Backfill] ${slots.length} half-day slots from ${slots[0].timestamp.toISOString()} to ${slots[slots.length - 1].timestamp.toISOString()}`);
+  if (options.dryRun) {
+    for (const slot of slots) {
+      console.log(`  ${slot.server} ${slot.timestamp.toISOString()}  ${slot.files.map((file) => path.basename(file.path)).join(', ')}`);
+    }
+    return summary;
+  }
+
+  // Replaying old files over newer data would roll nations back and emit bogus events
+  for (const server of new Set(slots.map((slot) => slot.server))) {
+    const first = slots.find((slot) => slot.server === server)!;
+    const latest = await prisma.nation.aggregate({ where: { gameServer: server }, _max: { lastSeenAt: true } });
+    const latestSeen = latest._max.lastSeenAt;
+    if (latestSeen && latestSeen >= first.timestamp && !options.allowOverlap) {
+      throw new Error(
+        `The database already has ${server} data from ${latestSeen.toISOString()}, after the first ${server} archive ` +
+        `(${first.timestamp.toISOString()}). Replay into an empty database, use --from to skip older archives, or pass --allow-overlap.`
+      );
+    }
+  }
+
+  const lastEventBefore = await prisma.event.findFirst({ orderBy: { id: 'desc' }, select: { id: true } });
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cn-backfill-'));
+  try {
+    for (const [index, slot] of slots.entries()) {
+      console.log(`[Backfill] (${index + 1}/${slots.length}) Replaying ${slot.server} ${slot.timestamp.toISOString()}`);
+      const files = await runOnGameServer(slot.server, () => runAtImportTime(slot.timestamp, () => replaySlot(slot, workDir)));
+      summary.filesImported += files.filter((file) => file.success).length;
+      summary.filesFailed += files.filter((file) => !file.success).length;
+    }
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+
+  // Historical events must not be posted to Discord on the next sync
+  const lastEventAfter = await prisma.event.findFirst({ orderBy: { id: 'desc' }, select: { id: true } });
+  if (lastEventAfter) {
+    summary.eventsCreated = await prisma.event.count({ where: { id: { gt: lastEventBefore?.id ?? 0 } } });
+    await prisma.notificationSubscription.updateMany({
+      where: { lastEventId: { lt: lastEventAfter.id } },
+      data: { lastEventId: lastEventAfter.id },
+    });
+  }
+
+  return summary;
+}
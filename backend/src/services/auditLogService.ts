@@ -0,0 +1,125 @@
+import { prisma } from '../utils/prisma.js';
+
+/**
+ * Changes made by managers and admins that are recorded in the audit log
+ */
+export const AUDIT_ACTIONS = {
+  NATION_CONFIG_UPDATE: 'nation_config.update',
+  NATION_TARGETING_ALLIANCE: 'nation.targeting_alliance',
+  WAR_ALLIANCE_IDS: 'war.alliance_ids',
+  WAR_EXCLUDED_FROM_STATS: 'war.excluded_from_stats',
+  WAR_ASSIGNMENT_CREATE: 'war_assignment.create',
+  WAR_ASSIGNMENT_DELETE: 'war_assignment.delete',
+  ROLE_CAPABILITIES: 'role.capabilities',
+  USER_UPDATE: 'user.update',
+  USER_RULER_NAME_VERIFICATION: 'user.ruler_name_verification',
+  NOTIFICATION_SUBSCRIPTION_CREATE: 'notification_subscription.create',
+  NOTIFICATION_SUBSCRIPTION_UPDATE: 'notification_subscription.update',
+  NOTIFICATION_SUBSCRIPTION_DELETE: 'notification_subscription.delete',
+  IMPORT_QUARANTINE_IMPORT: 'import_quarantine.import',
+  IMPORT_QUARANTINE_DISCARD: 'import_quarantine.discard',
+  NUCLEAR_NAME_RESOLVE: 'nuclear_name.resolve',
+} as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[keyof typeof AUDIT_ACTIONS];
+
+export interface AuditEntry {
+  action: AuditAction;
+  targetType: string;
+  targetId?: string | number | null;
+  /** Alliances the change concerns, so alliance filters find it */
+  allianceIds?: Array<number | null | undefined>;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface AuditLogFilters {
+  actorUserId?: number;
+  allianceId?: number;
+  action?: string;
+  /** Only entries older than this id, for paging back through the log */
+  beforeId?: number;
+  limit?: number;
+}
+
+export interface AuditLogRecord {
+  id: number;
+  action: string;
+  targetType: string;
+  targetId: string | null;
+  allianceIds: number[];
+  before: unknown;
+  after: unknown;
+  createdAt: Date;
+  actor: { id: number; discordUsername: string | null; rulerName: string | null } | null;
+}
+
+// Dates and other non-JSON values are stored the way they'd be sent to the browser
+function toJson(value: unknown): any {
+  return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Record one or more changes made by a user. The change has already happened by the time this
+ * runs, so a failure to write the log is reported but doesn't fail the request.
+ */
+export async function recordAudit(actorUserId: number | null | undefined, entries: AuditEntry | AuditEntry[]): Promise<void> {
+  const list = Array.isArray(entries) ? entries : [entries];
+  if (list.length === 0) return;
+
+  try {
+    await prisma.auditLog.createMany({
+      data: list.map((entry) => ({
+        actorUserId: actorUserId ?? null,
+        action: entry.action,
+        targetType: entry.targetType,
+        targetId: entry.targetId == null ? null : String(entry.targetId),
+        allianceIds: Array.from(
+          new Set((entry.allianceIds ?? []).filter((id): id is number => typeof id === 'number'))
+        ),
+        before: toJson(entry.before),
+        after: toJson(entry.after),
+      })),
+    });
+  } catch (error) {
+    console.error(`[Audit] Failed to record ${list.map((e) => e.action).join(', ')} by user ${actorUserId}:`, error);
+  }
+}
+
+/**
+ * Audit log entries, newest first
+ */
+export async function listAuditLogs(filters: AuditLogFilters = {}): Promise<AuditLogRecord[]> {
+  return prisma.auditLog.findMany({
+    where: {
+      ...(filters.actorUserId !== undefined ? { actorUserId: filters.actorUserId } : {}),
+      ...(filters.allianceId !== undefined ? { allianceIds: { has: filters.allianceId } } : {}),
+      ...(filters.action ? { action: filters.action } : {}),
+      ...(filters.beforeId !== undefined ? { id: { lt: filters.beforeId } } : {}),
+    },
+    select: {
+      id: true,
+      action: true,
+      targetType: true,
+      targetId: true,
+      allianceIds: true,
+      before: true,
+      after: true,
+      createdAt: true,
+      actor: { select: { id: true, discordUsername: true, rulerName: true } },
+    },
+    orderBy: { id: 'desc' },
+    take: filters.limit ?? 100,
+  });
+}
+
+/**
+ * Users who appear in the audit log, for the actor filter
+ */
+export async function listAuditActors(): Promise<Array<{ id: number; discordUsername: string | null; rulerName: string | null }>> {
+  return prisma.user.findMany({
+    where: { auditLogs: { some: {} } },
+    select: { id: true, discordUsername: true, rulerName: true },
+    orderBy: { discordUsername: 'asc' },
+  });
+}
@@ -113,8 +113,57 @@ export async function removeAllianceManager(
 }
 
 /**
- * Check if user has a capability. For unscoped capabilities, checks all roles' capabilities from DB.
- * For manage_alliance with allianceId, returns true if user has manage_all_alliance or is alliance manager for that alliance.
+ * Get the roles a user holds only in specific alliances
+ */
+export async function getAllianceRoles(
+  userId: number
+): Promise<{ allianceId: number; role: UserRole }[]> {
+  return prisma.userAllianceRole.findMany({
+    where: { userId },
+    select: { allianceId: true, role: true },
+    orderBy: [{ allianceId: 'asc' }, { role: 'asc' }],
+  });
+}
+
+/**
+ * Get capabilities a user holds through alliance-scoped roles, keyed by alliance ID
+ */
+export async function getAllianceCapabilities(userId: number): Promise<Record<number, string[]>> {
+  const grants = await getAllianceRoles(userId);
+  const rolesByAlliance = new Map<number, UserRole[]>();
+  for (const { allianceId, role } of grants) {
+    rolesByAlliance.set(allianceId, [...(rolesByAlliance.get(allianceId) ?? []), role]);
+  }
+
+  const allianceCapabilities: Record<number, string[]> = {};
+  for (const [allianceId, roles] of rolesByAlliance) {
+    allianceCapabilities[allianceId] = await getCapabilitiesForRoles(roles);
+  }
+  return allianceCapabilities;
+}
+
+/**
+ * Check if any of the user's roles in one alliance grants one of the capabilities
+ */
+async function hasAllianceCapability(
+  userId: number,
+  allianceId: number,
+  capabilities: string[]
+): Promise<boolean> {
+  const grants = await prisma.userAllianceRole.findMany({
+    where: { userId, allianceId },
+    select: { role: true },
+  });
+  if (grants.length === 0) return false;
+  const allianceCapabilities = await getCapabilitiesForRoles(grants.map((g) => g.role));
+  return capabilities.some((capability) => allianceCapabilities.includes(capability));
+}
+
+/**
+ * Check if user has a capability. Roles assigned to the user grant their capabilities everywhere.
+ * With an allianceId, roles the user holds only in that alliance count too.
+ * For manage_alliance with allianceId, global roles need manage_all_alliance, or manage_alliance and
+ * being alliance manager for that alliance.
  */
 export async function hasCapability(
   userId: number,
@@ -127,27 +176,51 @@ export async function hasCapability(
   if (capability === 'manage_alliance' && options?.allianceId != null) {
     const allianceId = options.allianceId;
     if (roleCapabilities.includes('manage_all_alliance')) return true;
-    if (roleCapabilities.includes('manage_alliance')) {
-      return isAllianceManager(userId, allianceId);
+    if (roleCapabilities.includes('manage_alliance') && (await isAllianceManager(userId, allianceId))) {
+      return true;
     }
-    return false;
+    return hasAllianceCapability(userId, allianceId, ['manage_alliance', 'manage_all_alliance']);
+  }
+
+  if (roleCapabilities.includes(capability)) return true;
+  if (options?.allianceId != null) {
+    return hasAllianceCapability(userId, options.allianceId, [capability]);
   }
+  return false;
+}
 
-  return roleCapabilities.includes(capability);
+/**
+ * Where a user holds a capability: everywhere through a global role, or only in the alliances
+ * whose alliance-scoped roles grant it
+ */
+export async function getCapabilityScope(
+  userId: number,
+  capability: string
+): Promise<{ global: boolean; allianceIds: number[] }> {
+  const roleCapabilities = await getCapabilitiesForRoles(await getUserRoles(userId));
+  if (roleCapabilities.includes(capability)) {
+    return { global: true, allianceIds: [] };
+  }
+  const allianceCapabilities = await getAllianceCapabilities(userId);
+  const allianceIds = Object.entries(allianceCapabilities)
+    .filter(([, capabilities]) => capabilities.includes(capability))
+    .map(([allianceId]) => Number(allianceId));
+  return { global: false, allianceIds };
 }
 
 /**
- * Get effective capabilities and managed alliance IDs for /me and UI.
+ * Get effective capabilities, managed alliance IDs and alliance-scoped capabilities for /me and UI.
  */
 export async function getEffectiveCapabilities(userId: number): Promise<{
   capabilities: string[];
   managedAllianceIds: number[];
+  allianceCapabilities: Record<number, string[]>;
 }> {
-  const [roles, managedAllianceIds] = await Promise.all([
+  const [roles, managedAllianceIds, allianceCapabilities] = await Promise.all([
     getUserRoles(userId),
     getManagedAlliances(userId),
+    getAllianceCapabilities(userId),
   ]);
   const capabilities = await getCapabilitiesForRoles(roles);
-  return { capabilities, managedAllianceIds };
+  return { capabilities, managedAllianceIds, allianceCapabilities };
 }
-
@@ -0,0 +1,568 @@
+import crypto from 'crypto';
+import { prisma } from '../utils/prisma.js';
+import { parseCentralTimeDate } from '../utils/dateUtils.js';
+
+/**
+ * Battle report ingestion and aggregates.
+ *
+ * Parsing follows utility_scripts/parse-battle-results.ts: inbox messages start with a
+ * "TO: ... | FROM: ..." line followed by "TYPE: ... | DATE: ...". The FROM nation is the
+ * attacker and the message body is written from the defender's side, so "You lost" are
+ * defender losses and "You killed" are attacker losses.
+ */
+
+export type BattleType = 'ground' | 'air' | 'naval';
+
+export interface BattleMessage {
+  to: string;
+  from: string;
+  type: string;
+  date: string;
+  content: string;
+}
+
+export interface GroundBattleResult {
+  soldiersLost: number;
+  soldiersKilled: number;
+  tanksLost: number;
+  tanksKilled: number;
+  landRazed: number;
+  landDestroyed: number;
+  technologyStolen: number;
+  technologyDestroyed: number;
+  infrastructureDestroyed: number;
+  moneyLooted: number;
+  moneyDestroyed: number;
+  equipmentGained: number;
+  result: 'Victory' | 'Defeat';
+}
+
+export interface AirAttackResult {
+  defendingTanksLost: number;
+  cruiseMissilesLost: number;
+  infrastructureLost: number;
+  attackingBombersDestroyed: number;
+  fighterAircraftLost: number;
+  enemyFighterAircraftDestroyed: number;
+  isEscorted: boolean;
+  isBombingRun: boolean;
+}
+
+export interface ParsedBattleReport {
+  key: string;
+  attackerName: string;
+  defenderName: string;
+  battleType: BattleType;
+  messageType: string;
+  attackerWon: boolean | null;
+  attackerSoldiersLost: number;
+  attackerTanksLost: number;
+  defenderSoldiersLost: number;
+  defenderTanksLost: number;
+  infrastructureDestroyed: number;
+  landDestroyed: number;
+  technologyDestroyed: number;
+  moneyLooted: number;
+  moneyDestroyed: number;
+  details: GroundBattleResult | AirAttackResult | null;
+  sentAt: string;
+  battleAt: Date;
+}
+
+const parseNumber = (str: string | undefined): number => {
+  if (!str) return 0;
+  return parseInt(str.replace(/,/g, '')) || 0;
+};
+
+const parseDecimal = (str: string | undefined): number => {
+  if (!str) return 0;
+  return parseFloat(str.replace(/,/g, '')) || 0;
+};
+
+/**
+ * Split pasted inbox text into battle messages
+ */
+export function parseBattleMessages(text: string): BattleMessage[] {
+  const lines = text.split('\n');
+  const messages: BattleMessage[] = [];
+  let current: BattleMessage | null = null;
+  let content: string[] = [];
+
+  const flush = () => {
+    if (current) {
+      current.content = content.join('\n');
+      messages.push(current);
+    }
+    current = null;
+    content = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const trimmedLine = lines[i].trim();
+
+    if (trimmedLine.startsWith('TO:')) {
+      flush();
+      const toMatch = trimmedLine.match(/TO:\s*([^|]+)/);
+      const fromMatch = trimmedLine.match(/FROM:\s*([^|]+)/);
+      const nextLine = i + 1 < lines.length ? lines[i + 1].trim() : '';
+      if (!toMatch || !fromMatch || !nextLine.startsWith('TYPE:')) continue;
+
+      const typeMatch = nextLine.match(/TYPE:\s*(.+?)(?:\s*\|\s*DATE:|\s*DATE:)/);
+      const dateMatch = nextLine.match(/DATE:\s*(.+)/);
+      if (!typeMatch || !dateMatch) continue;
+
+      current = {
+        to: toMatch[1].trim(),
+        from: fromMatch[1].trim(),
+        type: typeMatch[1].trim(),
+        date: dateMatch[1].trim(),
+        content: '',
+      };
+      content = [trimmedLine, nextLine];
+      i++;
+    } else if (current && trimmedLine) {
+      content.push(trimmedLine);
+    }
+  }
+  flush();
+
+  return messages;
+}
+
+export function getBattleType(messageType: string): BattleType | null {
+  if (messageType.includes('Ground Battle')) return 'ground';
+  if (messageType.includes('Bombing Attack') || messageType.includes('Aircraft Dog Fight')) return 'air';
+  if (messageType.includes('Naval')) return 'naval';
+  return null;
+}
+
+export function parseGroundBattle(content: string): GroundBattleResult | null {
+  const lines = content.split('\n');
+  const resultLine = lines.find(line => line.includes('battle was a'));
+  if (!resultLine) return null;
+  const statsLine = lines.find(line => line.includes('You lost') && line.includes('soldiers'));
+  if (!statsLine) return null;
+
+  return {
+    soldiersLost: parseNumber(statsLine.match(/You lost ([\d,]+) soldiers/)?.[1]),
+    soldiersKilled: parseNumber(statsLine.match(/You killed ([\d,]+) soldiers/)?.[1]),
+    tanksLost: parseNumber(statsLine.match(/You lost [\d,]+ soldiers and ([\d,]+) tanks/)?.[1]),
+    tanksKilled: parseNumber(statsLine.match(/You killed [\d,]+ soldiers and ([\d,]+) tanks/)?.[1]),
+    landRazed: parseDecimal(content.match(/razed ([\d.]+) miles of (?:your|your enemy's) land/)?.[1]),
+    landDestroyed: parseDecimal(content.match(/destroyed ([\d.]+) miles of (?:your|your enemy's) land/)?.[1]),
+    technologyStolen: parseDecimal(content.match(/stole ([\d.]+) technology/)?.[1]),
+    technologyDestroyed: parseDecimal(content.match(/destroyed ([\d.]+) technology/)?.[1]),
+    infrastructureDestroyed: parseDecimal(content.match(/destroyed ([\d.]+) infrastructure/)?.[1]),
+    moneyLooted: parseDecimal(content.match(/looted \$([\d,]+\.?\d*)/)?.[1]),
+    moneyDestroyed: parseDecimal(content.match(/destroyed \$([\d,]+\.?\d*)/)?.[1]),
+    equipmentGained: parseDecimal(content.match(/gained \$([\d,]+\.?\d*)/)?.[1]),
+    result: resultLine.includes('Victory') ? 'Victory' : 'Defeat',
+  };
+}
+
+export function parseAirAttack(content: string): AirAttackResult {
+  return {
+    defendingTanksLost: parseNumber(content.match(/you lost ([\d,]+) defending tanks/)?.[1]),
+    cruiseMissilesLost: parseNumber(content.match(/you lost [\d,]+ defending tanks, ([\d,]+) cruise missiles/)?.[1]),
+    infrastructureLost: parseDecimal(content.match(/and ([\d.]+) infrastructure/)?.[1]),
+    attackingBombersDestroyed: parseNumber(content.match(/You destroyed ([\d,]+) attacking bombers/)?.[1]),
+    fighterAircraftLost: parseNumber(content.match(/You lost ([\d,]+) fighter aircraft/)?.[1]),
+    enemyFighterAircraftDestroyed: parseNumber(content.match(/destroyed ([\d,]+) fighter aircraft launched by/)?.[1]),
+    isEscorted: content.includes('escorted'),
+    isBombingRun: content.includes('bombing run') || content.includes('bombing attack'),
+  };
+}
+
+/**
+ * Turn one inbox message into a battle report, or null when it is not a battle we understand
+ */
+export function toBattleReport(message: BattleMessage): ParsedBattleReport | null {
+  const battleType = getBattleType(message.type);
+  if (!battleType) return null;
+
+  let battleAt: Date;
+  try {
+    battleAt = parseCentralTimeDate(message.date);
+  } catch {
+    return null;
+  }
+  if (isNaN(battleAt.getTime())) return null;
+
+  const contentHash = crypto.createHash('sha1').update(message.content).digest('hex').slice(0, 12);
+  const report: ParsedBattleReport = {
+    key: `${message.from}_${message.to}_${battleType}_${battleAt.getTime()}_${contentHash}`,
+    attackerName: message.from,
+    defenderName: message.to,
+    battleType,
+    messageType: message.type,
+    attackerWon: null,
+    attackerSoldiersLost: 0,
+    attackerTanksLost: 0,
+    defenderSoldiersLost: 0,
+    defenderTanksLost: 0,
+    infrastructureDestroyed: 0,
+    landDestroyed: 0,
+    technologyDestroyed: 0,
+    moneyLooted: 0,
+    moneyDestroyed: 0,
+    details: null,
+    sentAt: message.date,
+    battleAt,
+  };
+
+  if (battleType === 'ground') {
+    const result = parseGroundBattle(message.content);
+    if (!result) return null;
+    // The defender's "Defeat" is the attacker's win
+    report.attackerWon = result.result === 'Defeat';
+    report.attackerSoldiersLost = result.soldiersKilled;
+    report.attackerTanksLost = result.tanksKilled;
+    report.defenderSoldiersLost = result.soldiersLost;
+    report.defenderTanksLost = result.tanksLost;
+    report.infrastructureDestroyed = result.infrastructureDestroyed;
+    report.landDestroyed = result.landRazed + result.landDestroyed;
+    report.technologyDestroyed = result.technologyStolen + result.technologyDestroyed;
+    report.moneyLooted = result.moneyLooted;
+    report.moneyDestroyed = result.moneyDestroyed;
+    report.details = result;
+  } else if (battleType === 'air') {
+    const result = parseAirAttack(message.content);
+    const hasDamage = result.defendingTanksLost > 0 || result.cruiseMissilesLost > 0 || result.infrastructureLost > 0;
+    // Same rule as the script: damage done, or an unescorted run that met no resistance
+    report.attackerWon = hasDamage || !result.isEscorted;
+    report.defenderTanksLost = result.defendingTanksLost;
+    report.infrastructureDestroyed = result.infrastructureLost;
+    report.details = result;
+  }
+  // Naval messages are stored and counted, but have no casualty breakdown yet
+
+  return report;
+}
+
+/**
+ * Resolve a name from a battle message to a nation (ruler name first, then nation name)
+ */
+export async function findNationIdByName(name: string): Promise<number | null> {
+  const byRuler = await prisma.nation.findFirst({
+    where: { rulerName: { equals: name, mode: 'insensitive' } },
+    select: { id: true },
+    orderBy: { isActive: 'desc' },
+  });
+  if (byRuler) return byRuler.id;
+
+  const byNation = await prisma.nation.findFirst({
+    where: { nationName: { equals: name, mode: 'insensitive' } },
+    select: { id: true },
+    orderBy: { isActive: 'desc' },
+  });
+  return byNation?.id ?? null;
+}
+
+/**
+ * Find the war between two nations (either direction) that was running at `battleAt`
+ */
+async function findWarForBattle(attackingNationId: number, defendingNationId: number, battleAt: Date): Promise<number | null> {
+  const wars = await prisma.war.findMany({
+    where: {
+      OR: [
+        { declaringNationId: attackingNationId, receivingNationId: defendingNationId },
+        { declaringNationId: defendingNationId, receivingNationId: attackingNationId },
+      ],
+    },
+    select: { warId: true, date: true, endDate: true },
+    orderBy: { warId: 'desc' },
+  });
+
+  for (const war of wars) {
+    try {
+      const start = parseCentralTimeDate(war.date);
+      const end = parseCentralTimeDate(war.endDate);
+      if (battleAt >= start && battleAt <= end) {
+        return war.warId;
+      }
+    } catch {
+      // Unparseable war dates can't be matched by time
+    }
+  }
+  return null;
+}
+
+export interface BattleIngestResult {
+  parsed: number;
+  added: number;
+  skipped: number;
+  unrecognized: number;
+  unmatchedNations: number;
+  unmatchedWars: number;
+}
+
+/**
+ * Store battle messages (pasted inbox text or already-split messages).
+ * Reports are keyed, so pasting the same inbox twice only adds the new battles.
+ */
+export async function ingestBattleMessages(
+  messages: BattleMessage[],
+  submittedByUserId?: number
+): Promise<BattleIngestResult> {
+  const reports = messages
+    .map(toBattleReport)
+    .filter((report): report is ParsedBattleReport => report !== null);
+  const unrecognized = messages.length - reports.length;
+
+  if (reports.length === 0) {
+    return { parsed: 0, added: 0, skipped: 0, unrecognized, unmatchedNations: 0, unmatchedWars: 0 };
+  }
+
+  const existing = await prisma.battleReport.findMany({
+    where: { key: { in: reports.map(r => r.key) } },
+    select: { key: true },
+  });
+  const existingKeys = new Set(existing.map(r => r.key));
+  const newReports = reports.filter((report, index) =>
+    !existingKeys.has(report.key) && reports.findIndex(r => r.key === report.key) === index
+  );
+
+  const nationIds = new Map<string, number | null>();
+  const resolveNation = async (name: string) => {
+    const cacheKey = name.toLowerCase();
+    if (!nationIds.has(cacheKey)) {
+      nationIds.set(cacheKey, await findNationIdByName(name));
+    }
+    return nationIds.get(cacheKey)!;
+  };
+
+  let unmatchedNations = 0;
+  let unmatchedWars = 0;
+  const data = [];
+  for (const report of newReports) {
+    const attackingNationId = await resolveNation(report.attackerName);
+    const defendingNationId = await resolveNation(report.defenderName);
+    let warId: number | null = null;
+    if (attackingNationId && defendingNationId) {
+      warId = await findWarForBattle(attackingNationId, defendingNationId, report.battleAt);
+      if (!warId) unmatchedWars++;
+    } else {
+      unmatchedNations++;
+    }
+
+    data.push({
+      ...report,
+      details: report.details ? { ...report.details } : undefined,
+      warId,
+      attackingNationId,
+      defendingNationId,
+      submittedByUserId: submittedByUserId ?? null,
+    });
+  }
+
+  if (data.length > 0) {
+    await prisma.battleReport.createMany({ data, skipDuplicates: true });
+  }
+
+  console.log(`[Battle Reports] Ingested ${reports.length} battles: ${data.length} added, ${reports.length - data.length} skipped, ${unrecognized} unrecognized messages`);
+
+  return {
+    parsed: reports.length,
+    added: data.length,
+    skipped: reports.length - data.length,
+    unrecognized,
+    unmatchedNations,
+    unmatchedWars,
+  };
+}
+
+export interface BattleTotals {
+  battles: number;
+  wins: number;
+  soldiersKilled: number;
+  tanksKilled: number;
+  soldiersLost: number;
+  tanksLost: number;
+  infrastructureDestroyed: number;
+  infrastructureLost: number;
+  landDestroyed: number;
+  technologyDestroyed: number;
+  moneyLooted: number;
+  moneyLost: number;
+}
+
+const emptyTotals = (): BattleTotals => ({
+  battles: 0,
+  wins: 0,
+  soldiersKilled: 0,
+  tanksKilled: 0,
+  soldiersLost: 0,
+  tanksLost: 0,
+  infrastructureDestroyed: 0,
+  infrastructureLost: 0,
+  landDestroyed: 0,
+  technologyDestroyed: 0,
+  moneyLooted: 0,
+  moneyLost: 0,
+});
+
+type StoredReport = {
+  warId: number | null;
+  attackingNationId: number | null;
+  defendingNationId: number | null;
+  attackerWon: boolean | null;
+  attackerSoldiersLost: number;
+  attackerTanksLost: number;
+  defenderSoldiersLost: number;
+  defenderTanksLost: number;
+  infrastructureDestroyed: number;
+  landDestroyed: number;
+  technologyDestroyed: number;
+  moneyLooted: number;
+};
+
+/**
+ * Add one battle to a side's totals. Infrastructure and money count as destroyed/looted
+ * for the attacker and as lost for the defender.
+ */
+export function addBattleToTotals(totals: BattleTotals, report: StoredReport, asAttacker: boolean): void {
+  totals.battles++;
+  if (report.attackerWon !== null && report.attackerWon === asAttacker) {
+    totals.wins++;
+  }
+  if (asAttacker) {
+    totals.soldiersKilled += report.defenderSoldiersLost;
+    totals.tanksKilled += report.defenderTanksLost;
+    totals.soldiersLost += report.attackerSoldiersLost;
+    totals.tanksLost += report.attackerTanksLost;
+    totals.infrastructureDestroyed += report.infrastructureDestroyed;
+    totals.landDestroyed += report.landDestroyed;
+    totals.technologyDestroyed += report.technologyDestroyed;
+    totals.moneyLooted += report.moneyLooted;
+  } else {
+    totals.soldiersKilled += report.attackerSoldiersLost;
+    totals.tanksKilled += report.attackerTanksLost;
+    totals.soldiersLost += report.defenderSoldiersLost;
+    totals.tanksLost += report.defenderTanksLost;
+    totals.infrastructureLost += report.infrastructureDestroyed;
+    totals.moneyLost += report.moneyLooted;
+  }
+}
+
+const storedReportSelect = {
+  warId: true,
+  attackingNationId: true,
+  defendingNationId: true,
+  attackerWon: true,
+  attackerSoldiersLost: true,
+  attackerTanksLost: true,
+  defenderSoldiersLost: true,
+  defenderTanksLost: true,
+  infrastructureDestroyed: true,
+  landDestroyed: true,
+  technologyDestroyed: true,
+  moneyLooted: true,
+} as const;
+
+const nationSelect = {
+  id: true,
+  nationName: true,
+  rulerName: true,
+  allianceId: true,
+  alliance: { select: { name: true } },
+} as const;
+
+/**
+ * Per-nation battle totals (as attacker and defender combined)
+ */
+export async function getBattleNationStats() {
+  const reports = await prisma.battleReport.findMany({ select: storedReportSelect });
+
+  const totalsByNation = new Map<number, { attacking: BattleTotals; defending: BattleTotals }>();
+  const entryFor = (nationId: number) => {
+    if (!totalsByNation.has(nationId)) {
+      totalsByNation.set(nationId, { attacking: emptyTotals(), defending: emptyTotals() });
+    }
+    return totalsByNation.get(nationId)!;
+  };
+
+  for (const report of reports) {
+    if (report.attackingNationId) addBattleToTotals(entryFor(report.attackingNationId).attacking, report, true);
+    if (report.defendingNationId) addBattleToTotals(entryFor(report.defendingNationId).defending, report, false);
+  }
+
+  const nations = await prisma.nation.findMany({
+    where: { id: { in: Array.from(totalsByNation.keys()) } },
+    select: nationSelect,
+  });
+
+  return nations
+    .map(nation => {
+      const { attacking, defending } = totalsByNation.get(nation.id)!;
+      return {
+        nationId: nation.id,
+        nationName: nation.nationName,
+        rulerName: nation.rulerName,
+        allianceId: nation.allianceId,
+        allianceName: nation.alliance.name,
+        attacking,
+        defending,
+      };
+    })
+    .sort((a, b) => b.attacking.infrastructureDestroyed - a.attacking.infrastructureDestroyed);
+}
+
+/**
+ * Per-war battle totals, split into the declaring and receiving side
+ */
+export async function getBattleWarStats() {
+  const reports = await prisma.battleReport.findMany({
+    where: { warId: { not: null } },
+    select: storedReportSelect,
+  });
+
+  const wars = await prisma.war.findMany({
+    where: { warId: { in: Array.from(new Set(reports.map(r => r.warId!))) } },
+    select: {
+      warId: true,
+      status: true,
+      date: true,
+      endDate: true,
+      declaringNation: { select: nationSelect },
+      receivingNation: { select: nationSelect },
+    },
+  });
+  const warsById = new Map(wars.map(war => [war.warId, war]));
+
+  const totalsByWar = new Map<number, { declaring: BattleTotals; receiving: BattleTotals }>();
+  for (const report of reports) {
+    const war = warsById.get(report.warId!);
+    if (!war) continue;
+    if (!totalsByWar.has(war.warId)) {
+      totalsByWar.set(war.warId, { declaring: emptyTotals(), receiving: emptyTotals() });
+    }
+    const totals = totalsByWar.get(war.warId)!;
+    const declaringAttacked = report.attackingNationId === war.declaringNation.id;
+    addBattleToTotals(declaringAttacked ? totals.declaring : totals.receiving, report, true);
+    addBattleToTotals(declaringAttacked ? totals.receiving : totals.declaring, report, false);
+  }
+
+  const toNationRef = (nation: typeof wars[number]['declaringNation']) => ({
+    id: nation.id,
+    nationName: nation.nationName,
+    rulerName: nation.rulerName,
+    allianceId: nation.allianceId,
+    allianceName: nation.alliance.name,
+  });
+
+  return Array.from(totalsByWar.entries())
+    .map(([warId, totals]) => {
+      const war = warsById.get(warId)!;
+      return {
+        warId,
+        status: war.status,
+        date: war.date,
+        endDate: war.endDate,
+        declaringNation: toNationRef(war.declaringNation),
+        receivingNation: toNationRef(war.receivingNation),
+        declaring: totals.declaring,
+        receiving: totals.receiving,
+      };
+    })
+    .sort((a, b) => b.warId - a.warId);
+}
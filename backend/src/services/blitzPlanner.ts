@@ -0,0 +1,139 @@
+import { StaggerEligibilityService } from './staggerEligibilityService.js';
+
+/** Attackers each defender should receive in a full blitz */
+export const BLITZ_ATTACKERS_PER_DEFENDER = 3;
+
+/** Offensive war slots every nation has */
+export const MAX_OFFENSIVE_WARS = 3;
+
+/** Defensive war slots every nation has */
+export const MAX_DEFENSIVE_WARS = 3;
+
+export interface BlitzAttacker {
+  id: number;
+  rulerName: string;
+  nationName: string;
+  strength: number;
+  technology: string;
+  nuclearWeapons: number;
+  infrastructure?: string;
+  land?: string;
+  rank?: number;
+  /** Offensive slots still free on the blitz date */
+  openSlots: number;
+}
+
+export interface BlitzDefender {
+  id: number;
+  rulerName: string;
+  nationName: string;
+  strength: number;
+  technology: string;
+  nuclearWeapons: number;
+  rank?: number;
+  /** Defensive slots still free on the blitz date */
+  openSlots: number;
+}
+
+export interface BlitzPlannedAttacker {
+  attackerId: number;
+  strengthRatio: number;
+  hasNukes: boolean;
+}
+
+export interface BlitzPlanTarget {
+  defender: BlitzDefender;
+  attackers: BlitzPlannedAttacker[];
+  /** Every attacker in range of this defender, for swapping attackers by hand */
+  candidateIds: number[];
+}
+
+export interface BlitzPlan {
+  targets: BlitzPlanTarget[];
+  attackers: BlitzAttacker[];
+  /** Attacker id -> offensive slots left unused by the plan */
+  remainingSlots: Record<number, number>;
+  totalAssignments: number;
+}
+
+/** Key used in `excludedPairs` */
+export const blitzPairKey = (attackerId: number, defenderId: number) => `${attackerId}:${defenderId}`;
+
+/**
+ * Propose a blitz: up to three attackers per defender, filled round by round so every
+ * defender gets a first attacker before any gets a second. Within a round the defenders
+ * with the fewest candidates pick first, and each picks the in-range attacker that brings
+ * nukes (if the defender has none yet) and the highest strength ratio.
+ *
+ * `excludedPairs` holds attacker/defender pairs that are already at war or already assigned.
+ */
+export function planBlitz(
+  attackers: BlitzAttacker[],
+  defenders: BlitzDefender[],
+  excludedPairs: Set<string> = new Set(),
+  attackersPerDefender: number = BLITZ_ATTACKERS_PER_DEFENDER
+): BlitzPlan {
+  const remainingSlots: Record<number, number> = {};
+  for (const attacker of attackers) {
+    remainingSlots[attacker.id] = Math.max(0, attacker.openSlots);
+  }
+
+  const targets: BlitzPlanTarget[] = defenders
+    .filter(defender => defender.openSlots > 0)
+    .sort((a, b) => b.strength - a.strength)
+    .map(defender => ({
+      defender,
+      attackers: [],
+      candidateIds: attackers
+        .filter(attacker =>
+          !excludedPairs.has(blitzPairKey(attacker.id, defender.id)) &&
+          StaggerEligibilityService.isAttackerEligibleForDefender(attacker, defender)
+        )
+        .map(attacker => attacker.id),
+    }));
+
+  const attackersById = new Map(attackers.map(attacker => [attacker.id, attacker]));
+  const wanted = (target: BlitzPlanTarget) =>
+    Math.min(attackersPerDefender, target.defender.openSlots);
+
+  for (let round = 0; round < attackersPerDefender; round++) {
+    const open = targets
+      .filter(target => target.attackers.length === round && round < wanted(target))
+      .map(target => ({
+        target,
+        available: target.candidateIds.filter(id => remainingSlots[id] > 0).length,
+      }))
+      .sort((a, b) => a.available - b.available);
+
+    for (const { target } of open) {
+      const taken = new Set(target.attackers.map(a => a.attackerId));
+      const needsNukes = !target.attackers.some(a => a.hasNukes);
+      let best: BlitzPlannedAttacker | null = null;
+      let bestScore = -Infinity;
+
+      for (const id of target.candidateIds) {
+        if (taken.has(id) || remainingSlots[id] <= 0) continue;
+        const attacker = attackersById.get(id)!;
+        const strengthRatio = attacker.strength / target.defender.strength;
+        const hasNukes = attacker.nuclearWeapons > 0;
+        const score = (needsNukes && hasNukes ? 10 : 0) + strengthRatio;
+        if (score > bestScore) {
+          bestScore = score;
+          best = { attackerId: id, strengthRatio, hasNukes };
+        }
+      }
+
+      if (best) {
+        target.attackers.push(best);
+        remainingSlots[best.attackerId]--;
+      }
+    }
+  }
+
+  return {
+    targets,
+    attackers,
+    remainingSlots,
+    totalAssignments: targets.reduce((count, target) => count + target.attackers.length, 0),
+  };
+}
@@ -0,0 +1,695 @@
+import { prisma, Prisma } from '../utils/prisma.js';
+import type { GameServer } from '../utils/gameServer.js';
+import type { DeactivatedNation, EndedAidOffer, NationChange, WarChange } from './eventService.js';
+import { AID_OFFER_DISAPPEARED, aidOfferDaysActive, classifyAidOfferTransition } from './aidOfferTransitions.js';
+import { ENDED_WAR_STATUSES } from './eventService.js';
+import {
+  DYNAMIC_WAR_CONFIRMATION_HOURS,
+  reconcileWarFields,
+  WAR_DISCREPANCY_FIELDS,
+  WAR_SOURCES,
+  type WarFieldDiscrepancy,
+} from './warReconciliation.js';
+
+/**
+ * Staged bulk loads for the CSV importers. Each load copies the parsed file into a temporary
+ * staging table, then diffs and upserts it with a handful of set-based statements in one
+ * transaction, instead of a Prisma call per row.
+ */
+
+/** Rows per INSERT ... SELECT FROM unnest(...) when filling a staging table */
+const STAGE_CHUNK_SIZE = 5000;
+
+/** A full nation file takes a few seconds on a remote database; Prisma's default is 5s */
+const TRANSACTION_OPTIONS = { maxWait: 10_000, timeout: 120_000 };
+
+type StagingValue = string | number | boolean | null;
+
+interface StagingColumn<T> {
+  name: string;
+  type: 'int' | 'float8' | 'text' | 'boolean';
+  value: (row: T) => StagingValue;
+}
+
+/**
+ * Create a temporary table dropped at commit and fill it with one unnest() insert per chunk
+ */
+async function stageRows<T>(
+  tx: Prisma.TransactionClient,
+  table: string,
+  columns: StagingColumn<T>[],
+  rows: T[]
+): Promise<void> {
+  await tx.$executeRawUnsafe(
+    `CREATE TEMP TABLE ${table} (${columns.map((c) => `${c.name} ${c.type}`).join(', ')}) ON COMMIT DROP`
+  );
+  const insert = `INSERT INTO ${table} (${columns.map((c) => c.name).join(', ')})
+    SELECT * FROM unnest(${columns.map((c, i) => `$${i + 1}::${c.type}[]`).join(', ')})`;
+  for (let i = 0; i < rows.length; i += STAGE_CHUNK_SIZE) {
+    const chunk = rows.slice(i, i + STAGE_CHUNK_SIZE);
+    await tx.$executeRawUnsafe(insert, ...columns.map((c) => chunk.map(c.value)));
+  }
+  await tx.$executeRawUnsafe(`ANALYZE ${table}`);
+}
+
+/**
+ * Keep the first row for each key; the game's exports occasionally repeat a row
+ */
+function uniqueBy<T>(rows: T[], key: (row: T) => number): T[] {
+  const seen = new Map<number, T>();
+  for (const row of rows) {
+    if (!seen.has(key(row))) seen.set(key(row), row);
+  }
+  return Array.from(seen.values());
+}
+
+export interface NationImportRow {
+  id: number;
+  rulerName: string;
+  nationName: string;
+  alliance: string;
+  allianceId: number;
+  team: string;
+  rank: number;
+  strength: number;
+  activity: string;
+  technology: string;
+  infrastructure: string;
+  land: string;
+  nuclearWeapons: number;
+  governmentType: string;
+  inWarMode: boolean;
+  defcon: number | null;
+  attackingCasualties: number | null;
+  defensiveCasualties: number | null;
+}
+
+export interface AidOfferImportRow {
+  aidId: number;
+  declaringNationId: number;
+  receivingNationId: number;
+  declaringAllianceId: number | null;
+  receivingAllianceId: number | null;
+  status: string;
+  money: number;
+  technology: number;
+  soldiers: number;
+  date: string;
+  reason: string;
+}
+
+export interface WarImportRow {
+  warId: number;
+  declaringNationId: number;
+  receivingNationId: number;
+  status: string;
+  date: string;
+  endDate: string;
+  reason: string | null;
+  destruction: string | null;
+  attackPercent: number | null;
+  defendPercent: number | null;
+}
+
+export interface BulkLoadResult {
+  imported: number;
+  updated: number;
+  /** Rows left out because they reference an alliance or nation that doesn't exist */
+  skipped: number;
+}
+
+export interface NationLoadResult extends BulkLoadResult {
+  /** New nations, and existing ones whose alliance, war mode, DEFCON or stats changed */
+  changes: NationChange[];
+  /** Nations that were active but are missing from this file */
+  deactivated: DeactivatedNation[];
+  /** The rows that were upserted: one per nation id, without the skipped ones */
+  loaded: NationImportRow[];
+}
+
+const NATION_COLUMNS: StagingColumn<NationImportRow>[] = [
+  { name: 'id', type: 'int', value: (n) => n.id },
+  { name: 'ruler_name', type: 'text', value: (n) => n.rulerName },
+  { name: 'nation_name', type: 'text', value: (n) => n.nationName },
+  { name: 'alliance', type: 'text', value: (n) => n.alliance },
+  { name: 'alliance_id', type: 'int', value: (n) => n.allianceId },
+  { name: 'team', type: 'text', value: (n) => n.team },
+  { name: 'rank', type: 'int', value: (n) => n.rank },
+  { name: 'strength', type: 'float8', value: (n) => n.strength },
+  { name: 'activity', type: 'text', value: (n) => n.activity },
+  { name: 'technology', type: 'text', value: (n) => n.technology },
+  { name: 'infrastructure', type: 'text', value: (n) => n.infrastructure },
+  { name: 'land', type: 'text', value: (n) => n.land },
+  { name: 'nuclear_weapons', type: 'int', value: (n) => n.nuclearWeapons },
+  { name: 'government_type', type: 'text', value: (n) => n.governmentType },
+  { name: 'in_war_mode', type: 'boolean', value: (n) => n.inWarMode },
+  { name: 'defcon', type: 'int', value: (n) => n.defcon },
+  { name: 'attacking_casualties', type: 'int', value: (n) => n.attackingCasualties },
+  { name: 'defensive_casualties', type: 'int', value: (n) => n.defensiveCasualties },
+];
+
+/**
+ * Load a parsed nation file: upsert alliances and nations, mark nations missing from the file
+ * inactive, and return the diff the nation events are built from
+ */
+export async function loadNations(
+  rows: NationImportRow[],
+  server: GameServer,
+  now: Date
+): Promise<NationLoadResult> {
+  const nations = uniqueBy(rows, (n) => n.id);
+
+  return prisma.$transaction(async (tx) => {
+    await stageRows(tx, 'staged_nations', NATION_COLUMNS, nations);
+
+    // Alliance 0 stands for "no alliance". The last name listed for an alliance wins.
+    await tx.$executeRawUnsafe(
+      `INSERT INTO alliances (id, name, game_server, updated_at)
+      SELECT id, name, $1, $2::timestamp FROM (
+        SELECT 0 AS id, 'No Alliance' AS name
+        UNION ALL
+        (SELECT DISTINCT ON (alliance_id) alliance_id, alliance
+        FROM staged_nations
+        WHERE alliance_id > 0 AND btrim(alliance) <> ''
+        ORDER BY alliance_id, rank DESC)
+      ) named
+      ON CONFLICT (id) DO UPDATE SET name = EXCLUDED.name, updated_at = EXCLUDED.updated_at
+      WHERE alliances.name IS DISTINCT FROM EXCLUDED.name`,
+      server,
+      now
+    );
+
+    // An alliance id without a name anywhere in the file has nothing to create it from
+    const skippedRows = await tx.$queryRawUnsafe<{ id: number }[]>(
+      `DELETE FROM staged_nations s
+      WHERE s.alliance_id > 0 AND NOT EXISTS (
+        SELECT 1 FROM staged_nations t WHERE t.alliance_id = s.alliance_id AND btrim(t.alliance) <> ''
+      )
+      RETURNING s.id`
+    );
+    const skippedIds = new Set(skippedRows.map((r) => r.id));
+    const skipped = skippedIds.size;
+
+    const changes = await tx.$queryRawUnsafe<NationChange[]>(
+      `SELECT
+        s.id AS "nationId", s.ruler_name AS "rulerName", s.nation_name AS "nationName",
+        s.alliance_id AS "allianceId", a.name AS "allianceName", s.strength,
+        n.id IS NULL AS "isNew",
+        n.alliance_id AS "oldAllianceId", oa.name AS "oldAllianceName",
+        n.in_war_mode AS "oldInWarMode", s.in_war_mode AS "inWarMode",
+        n.defcon AS "oldDefcon", s.defcon,
+        n.technology AS "oldTechnology", n.infrastructure AS "oldInfrastructure", n.land AS "oldLand",
+        s.technology, s.infrastructure, s.land
+      FROM staged_nations s
+      JOIN alliances a ON a.id = s.alliance_id
+      LEFT JOIN nations n ON n.id = s.id
+      LEFT JOIN alliances oa ON oa.id = n.alliance_id
+      WHERE n.id IS NULL
+        OR n.alliance_id <> s.alliance_id
+        OR n.in_war_mode <> s.in_war_mode
+        OR n.defcon IS DISTINCT FROM s.defcon
+        OR (n.technology, n.infrastructure, n.land) IS DISTINCT FROM (s.technology, s.infrastructure, s.land)`
+    );
+
+    await tx.$executeRawUnsafe(
+      `INSERT INTO nations (
+        id, game_server, ruler_name, nation_name, alliance_id, team, rank, strength, activity,
+        technology, infrastructure, land, nuclear_weapons, government_type, in_war_mode, defcon,
+        attacking_casualties, defensive_casualties, first_seen_at, last_seen_at, is_active, updated_at
+      )
+      SELECT
+        id, $1, ruler_name, nation_name, alliance_id, team, rank, strength, activity,
+        technology, infrastructure, land, nuclear_weapons, government_type, in_war_mode, defcon,
+        attacking_casualties, defensive_casualties, $2::timestamp, $2::timestamp, true, $2::timestamp
+      FROM staged_nations
+      ON CONFLICT (id) DO UPDATE SET
+        ruler_name = EXCLUDED.ruler_name,
+        nation_name = EXCLUDED.nation_name,
+        alliance_id = EXCLUDED.alliance_id,
+        team = EXCLUDED.team,
+        rank = EXCLUDED.rank,
+        strength = EXCLUDED.strength,
+        activity = EXCLUDED.activity,
+        technology = EXCLUDED.technology,
+        infrastructure = EXCLUDED.infrastructure,
+        land = EXCLUDED.land,
+        nuclear_weapons = EXCLUDED.nuclear_weapons,
+        government_type = EXCLUDED.government_type,
+        in_war_mode = EXCLUDED.in_war_mode,
+        defcon = EXCLUDED.defcon,
+        attacking_casualties = EXCLUDED.attacking_casualties,
+        defensive_casualties = EXCLUDED.defensive_casualties,
+        last_seen_at = EXCLUDED.last_seen_at,
+        is_active = true,
+        updated_at = EXCLUDED.updated_at`,
+      server,
+      now
+    );
+
+    // A nation is "inactive" when it's missing from the file, whatever its activity field says
+    const deactivated = await tx.$queryRawUnsafe<DeactivatedNation[]>(
+      `UPDATE nations n SET is_active = false, updated_at = $2::timestamp
+      FROM alliances a
+      WHERE a.id = n.alliance_id
+        AND n.game_server = $1
+        AND n.is_active
+        AND NOT EXISTS (SELECT 1 FROM staged_nations s WHERE s.id = n.id)
+      RETURNING
+        n.id AS "nationId", n.ruler_name AS "rulerName", n.nation_name AS "nationName",
+        n.alliance_id AS "allianceId", a.name AS "allianceName", n.strength, n.last_seen_at AS "lastSeenAt"`,
+      server,
+      now
+    );
+
+    const imported = changes.filter((c) => c.isNew).length;
+    return {
+      imported,
+      updated: nations.length - skipped - imported,
+      skipped,
+      changes,
+      deactivated,
+      loaded: nations.filter((n) => !skippedIds.has(n.id)),
+    };
+  }, TRANSACTION_OPTIONS);
+}
+
+export interface AidOfferLoadResult extends BulkLoadResult {
+  /** Live offers this file ended (see classifyAidOfferTransition) */
+  ended: EndedAidOffer[];
+}
+
+/** An existing offer whose status changed or that left the file, before it's classified */
+type AidOfferStatusChange = Omit<EndedAidOffer, 'outcome' | 'daysActive'>;
+
+/** Rows per createMany when recording aid offer transitions */
+const TRANSITION_BATCH_SIZE = 1000;
+
+/**
+ * Columns of an AidOfferStatusChange for an offer row aliased `o`, with its nations and alliances
+ */
+const AID_OFFER_CHANGE_COLUMNS = `
+  o.aid_id AS "aidId",
+  o.declaring_nation_id AS "declaringNationId", dn.ruler_name AS "declaringRulerName", dn.nation_name AS "declaringNationName",
+  o.declaring_alliance_id AS "declaringAllianceId", da.name AS "declaringAllianceName",
+  o.receiving_nation_id AS "receivingNationId", rn.ruler_name AS "receivingRulerName", rn.nation_name AS "receivingNationName",
+  o.receiving_alliance_id AS "receivingAllianceId", ra.name AS "receivingAllianceName",
+  o.money, o.technology, o.soldiers, o.aid_timestamp AS "date"`;
+
+const AID_OFFER_CHANGE_JOINS = `
+  JOIN nations dn ON dn.id = o.declaring_nation_id
+  JOIN nations rn ON rn.id = o.receiving_nation_id
+  LEFT JOIN alliances da ON da.id = o.declaring_alliance_id
+  LEFT JOIN alliances ra ON ra.id = o.receiving_alliance_id`;
+
+const AID_OFFER_COLUMNS: StagingColumn<AidOfferImportRow>[] = [
+  { name: 'aid_id', type: 'int', value: (a) => a.aidId },
+  { name: 'declaring_nation_id', type: 'int', value: (a) => a.declaringNationId },
+  { name: 'receiving_nation_id', type: 'int', value: (a) => a.receivingNationId },
+  { name: 'declaring_alliance_id', type: 'int', value: (a) => a.declaringAllianceId },
+  { name: 'receiving_alliance_id', type: 'int', value: (a) => a.receivingAllianceId },
+  { name: 'status', type: 'text', value: (a) => a.status },
+  { name: 'money', type: 'float8', value: (a) => a.money },
+  { name: 'technology', type: 'float8', value: (a) => a.technology },
+  { name: 'soldiers', type: 'int', value: (a) => a.soldiers },
+  { name: 'aid_timestamp', type: 'text', value: (a) => a.date },
+  { name: 'reason', type: 'text', value: (a) => a.reason },
+];
+
+/**
+ * Load a parsed aid file. Offers whose data changed (or that reappear after going missing) get
+ * their version bumped; unchanged offers only have last_seen_at moved forward. Every new offer,
+ * status change and disappearance is recorded as an aid offer transition.
+ */
+export async function loadAidOffers(
+  rows: AidOfferImportRow[],
+  server: GameServer,
+  now: Date
+): Promise<AidOfferLoadResult> {
+  const offers = uniqueBy(rows, (a) => a.aidId);
+
+  return prisma.$transaction(async (tx) => {
+    await stageRows(tx, 'staged_aid_offers', AID_OFFER_COLUMNS, offers);
+
+    const skipped = await tx.$executeRawUnsafe(
+      `DELETE FROM staged_aid_offers s
+      WHERE NOT EXISTS (SELECT 1 FROM nations WHERE id = s.declaring_nation_id)
+        OR NOT EXISTS (SELECT 1 FROM nations WHERE id = s.receiving_nation_id)`
+    );
+
+    // Alliance ids missing from the file come from the nations' current alliances
+    await tx.$executeRawUnsafe(
+      `UPDATE staged_aid_offers s SET
+        declaring_alliance_id = COALESCE(s.declaring_alliance_id, (SELECT alliance_id FROM nations WHERE id = s.declaring_nation_id)),
+        receiving_alliance_id = COALESCE(s.receiving_alliance_id, (SELECT alliance_id FROM nations WHERE id = s.receiving_nation_id))
+      WHERE s.declaring_alliance_id IS NULL OR s.receiving_alliance_id IS NULL`
+    );
+
+    // An offer back in the file after going missing transitions from Disappeared
+    const statusChanges = await tx.$queryRawUnsafe<AidOfferStatusChange[]>(
+      `SELECT ${AID_OFFER_CHANGE_COLUMNS},
+        CASE WHEN a.is_active THEN a.status ELSE $1::text END AS "fromStatus", o.status AS "toStatus"
+      FROM staged_aid_offers o
+      JOIN aid_offers a ON a.aid_id = o.aid_id
+      ${AID_OFFER_CHANGE_JOINS}
+      WHERE a.status <> o.status OR NOT a.is_active`,
+      AID_OFFER_DISAPPEARED
+    );
+
+    const updated = await tx.$executeRawUnsafe(
+      `UPDATE aid_offers a SET
+        declaring_nation_id = s.declaring_nation_id,
+        receiving_nation_id = s.receiving_nation_id,
+        declaring_alliance_id = s.declaring_alliance_id,
+        receiving_alliance_id = s.receiving_alliance_id,
+        status = s.status,
+        money = s.money,
+        technology = s.technology,
+        soldiers = s.soldiers,
+        aid_timestamp = s.aid_timestamp,
+        reason = s.reason,
+        version = a.version + 1,
+        is_active = true,
+        last_seen_at = $1::timestamp,
+        updated_at = $1::timestamp
+      FROM staged_aid_offers s
+      WHERE a.aid_id = s.aid_id AND (
+        NOT a.is_active
+        OR a.declaring_nation_id <> s.declaring_nation_id
+        OR a.receiving_nation_id <> s.receiving_nation_id
+        OR a.declaring_alliance_id IS DISTINCT FROM s.declaring_alliance_id
+        OR a.receiving_alliance_id IS DISTINCT FROM s.receiving_alliance_id
+        OR a.status <> s.status
+        OR abs(a.money - s.money) > 0.01
+        OR abs(a.technology - s.technology) > 0.01
+        OR a.soldiers <> s.soldiers
+        OR a.aid_timestamp <> s.aid_timestamp
+        OR a.reason <> s.reason
+      )`,
+      now
+    );
+
+    await tx.$executeRawUnsafe(
+      `UPDATE aid_offers a SET last_seen_at = $1::timestamp
+      FROM staged_aid_offers s
+      WHERE a.aid_id = s.aid_id AND a.last_seen_at <> $1::timestamp`,
+      now
+    );
+
+    // New offers start their history with a transition from no status
+    const imported = await tx.$executeRawUnsafe(
+      `WITH inserted AS (
+        INSERT INTO aid_offers (
+          aid_id, game_server, declaring_nation_id, receiving_nation_id, declaring_alliance_id,
+          receiving_alliance_id, status, money, technology, soldiers, aid_timestamp, reason,
+          first_seen_at, last_seen_at, is_active, version, updated_at
+        )
+        SELECT
+          aid_id, $1, declaring_nation_id, receiving_nation_id, declaring_alliance_id,
+          receiving_alliance_id, status, money, technology, soldiers, aid_timestamp, reason,
+          $2::timestamp, $2::timestamp, true, 1, $2::timestamp
+        FROM staged_aid_offers
+        ON CONFLICT (aid_id) DO NOTHING
+        RETURNING aid_id, declaring_nation_id, receiving_nation_id, declaring_alliance_id,
+          receiving_alliance_id, status, aid_timestamp
+      )
+      INSERT INTO aid_offer_transitions (
+        aid_id, game_server, declaring_nation_id, receiving_nation_id, declaring_alliance_id,
+        receiving_alliance_id, from_status, to_status, aid_timestamp, observed_at
+      )
+      SELECT
+        aid_id, $1, declaring_nation_id, receiving_nation_id, declaring_alliance_id,
+        receiving_alliance_id, NULL, status, aid_timestamp, $2::timestamp
+      FROM inserted`,
+      server,
+      now
+    );
+
+    const disappeared = await tx.$queryRawUnsafe<AidOfferStatusChange[]>(
+      `WITH gone AS (
+        UPDATE aid_offers a SET is_active = false, updated_at = $2::timestamp
+        WHERE a.game_server = $1 AND a.is_active
+          AND NOT EXISTS (SELECT 1 FROM staged_aid_offers s WHERE s.aid_id = a.aid_id)
+        RETURNING a.*
+      )
+      SELECT ${AID_OFFER_CHANGE_COLUMNS},
+        o.status AS "fromStatus", $3::text AS "toStatus"
+      FROM gone o
+      ${AID_OFFER_CHANGE_JOINS}`,
+      server,
+      now,
+      AID_OFFER_DISAPPEARED
+    );
+
+    const transitions = [...statusChanges, ...disappeared].map((change) => ({
+      ...change,
+      outcome: classifyAidOfferTransition(change.fromStatus, change.toStatus, change.date, now),
+    }));
+    for (let i = 0; i < transitions.length; i += TRANSITION_BATCH_SIZE) {
+      await tx.aidOfferTransition.createMany({
+        data: transitions.slice(i, i + TRANSITION_BATCH_SIZE).map((t) => ({
+          aidId: t.aidId,
+          gameServer: server,
+          declaringNationId: t.declaringNationId,
+          receivingNationId: t.receivingNationId,
+          declaringAllianceId: t.declaringAllianceId,
+          receivingAllianceId: t.receivingAllianceId,
+          fromStatus: t.fromStatus,
+          toStatus: t.toStatus,
+          outcome: t.outcome,
+          date: t.date,
+          observedAt: now,
+        })),
+      });
+    }
+
+    const ended: EndedAidOffer[] = [];
+    for (const transition of transitions) {
+      if (transition.outcome) {
+        ended.push({ ...transition, outcome: transition.outcome, daysActive: aidOfferDaysActive(transition.date, now) });
+      }
+    }
+
+    return { imported, updated, skipped, ended };
+  }, TRANSACTION_OPTIONS);
+}
+
+export interface WarLoadResult extends BulkLoadResult {
+  /** New wars, and existing ones whose status changed */
+  changes: WarChange[];
+  /** Fields where the file disagreed with a scrape (see warReconciliation) */
+  discrepancies: number;
+  /** Scraped wars not in the file, kept active while they wait for confirmation */
+  unconfirmed: number;
+}
+
+const ENDED_WAR_STATUS_LIST = Array.from(ENDED_WAR_STATUSES).map((status) => `'${status}'`).join(', ');
+
+/**
+ * The status a file row leaves a war with: a scrape that saw the war end wins over a file
+ * that still lists it as live, since the export lags the game
+ */
+const RESOLVED_WAR_STATUS = `CASE
+  WHEN w.scraped_at IS NOT NULL AND w.status IN (${ENDED_WAR_STATUS_LIST}) AND s.status NOT IN (${ENDED_WAR_STATUS_LIST})
+  THEN w.status ELSE s.status END`;
+
+interface ScrapedWarRow {
+  warId: number;
+  status: string;
+  destruction: string | null;
+  attackPercent: number | null;
+  defendPercent: number | null;
+  scrapedStatus: string;
+  scrapedDestruction: string | null;
+  scrapedAttackPercent: number | null;
+  scrapedDefendPercent: number | null;
+}
+
+const WAR_COLUMNS: StagingColumn<WarImportRow>[] = [
+  { name: 'war_id', type: 'int', value: (w) => w.warId },
+  { name: 'declaring_nation_id', type: 'int', value: (w) => w.declaringNationId },
+  { name: 'receiving_nation_id', type: 'int', value: (w) => w.receivingNationId },
+  { name: 'status', type: 'text', value: (w) => w.status },
+  { name: 'date', type: 'text', value: (w) => w.date },
+  { name: 'end_date', type: 'text', value: (w) => w.endDate },
+  { name: 'reason', type: 'text', value: (w) => w.reason },
+  { name: 'destruction', type: 'text', value: (w) => w.destruction },
+  { name: 'attack_percent', type: 'float8', value: (w) => w.attackPercent },
+  { name: 'defend_percent', type: 'float8', value: (w) => w.defendPercent },
+];
+
+/**
+ * Load a parsed war file. Alliance ids aren't in the file: new wars take the nations' current
+ * alliances and existing wars keep theirs, so a war stays with the alliances that fought it.
+ * Wars scraped since the last file are reconciled field by field, and scraped wars the file
+ * doesn't list yet stay active for DYNAMIC_WAR_CONFIRMATION_HOURS.
+ */
+export async function loadWars(
+  rows: WarImportRow[],
+  server: GameServer,
+  now: Date
+): Promise<WarLoadResult> {
+  const wars = uniqueBy(rows, (w) => w.warId);
+
+  return prisma.$transaction(async (tx) => {
+    await stageRows(tx, 'staged_wars', WAR_COLUMNS, wars);
+
+    const skipped = await tx.$executeRawUnsafe(
+      `DELETE FROM staged_wars s
+      WHERE NOT EXISTS (SELECT 1 FROM nations WHERE id = s.declaring_nation_id)
+        OR NOT EXISTS (SELECT 1 FROM nations WHERE id = s.receiving_nation_id)`
+    );
+
+    // Wars scraped since the last file, or scraped and never confirmed by one
+    const scraped = await tx.$queryRawUnsafe<ScrapedWarRow[]>(
+      `SELECT
+        s.war_id AS "warId", s.status, s.destruction, s.attack_percent AS "attackPercent", s.defend_percent AS "defendPercent",
+        w.status AS "scrapedStatus", w.destruction AS "scrapedDestruction",
+        w.attack_percent AS "scrapedAttackPercent", w.defend_percent AS "scrapedDefendPercent"
+      FROM staged_wars s
+      JOIN wars w ON w.war_id = s.war_id
+      WHERE w.scraped_at IS NOT NULL AND (w.confirmed_at IS NULL OR w.scraped_at > w.last_seen_at)`
+    );
+
+    const changes = await tx.$queryRawUnsafe<WarChange[]>(
+      `SELECT
+        s.war_id AS "warId", w.status AS "oldStatus", ${RESOLVED_WAR_STATUS} AS status, s.date, s.end_date AS "endDate", s.reason,
+        s.declaring_nation_id AS "declaringNationId", dn.ruler_name AS "declaringRulerName", dn.nation_name AS "declaringNationName",
+        da.id AS "declaringAllianceId", da.name AS "declaringAllianceName",
+        s.receiving_nation_id AS "receivingNationId", rn.ruler_name AS "receivingRulerName", rn.nation_name AS "receivingNationName",
+        ra.id AS "receivingAllianceId", ra.name AS "receivingAllianceName"
+      FROM staged_wars s
+      LEFT JOIN wars w ON w.war_id = s.war_id
+      JOIN nations dn ON dn.id = s.declaring_nation_id
+      JOIN nations rn ON rn.id = s.receiving_nation_id
+      LEFT JOIN alliances da ON da.id = COALESCE(w.declaring_alliance_id, dn.alliance_id)
+      LEFT JOIN alliances ra ON ra.id = COALESCE(w.receiving_alliance_id, rn.alliance_id)
+      WHERE w.war_id IS NULL OR w.status <> ${RESOLVED_WAR_STATUS}`
+    );
+
+    const updated = await tx.$executeRawUnsafe(
+      `UPDATE wars w SET
+        declaring_nation_id = s.declaring_nation_id,
+        receiving_nation_id = s.receiving_nation_id,
+        declaring_alliance_id = COALESCE(w.declaring_alliance_id, dn.alliance_id),
+        receiving_alliance_id = COALESCE(w.receiving_alliance_id, rn.alliance_id),
+        status = ${RESOLVED_WAR_STATUS},
+        date = s.date,
+        end_date = s.end_date,
+        reason = s.reason,
+        destruction = s.destruction,
+        attack_percent = s.attack_percent,
+        defend_percent = s.defend_percent,
+        version = w.version + 1,
+        is_active = true,
+        confirmed_at = COALESCE(w.confirmed_at, $1::timestamp),
+        last_seen_at = $1::timestamp,
+        updated_at = $1::timestamp
+      FROM staged_wars s
+      JOIN nations dn ON dn.id = s.declaring_nation_id
+      JOIN nations rn ON rn.id = s.receiving_nation_id
+      WHERE w.war_id = s.war_id AND (
+        NOT w.is_active
+        OR w.declaring_nation_id <> s.declaring_nation_id
+        OR w.receiving_nation_id <> s.receiving_nation_id
+        OR w.status <> ${RESOLVED_WAR_STATUS}
+        OR w.date <> s.date
+        OR w.end_date <> s.end_date
+        OR w.reason IS DISTINCT FROM s.reason
+        OR w.destruction IS DISTINCT FROM s.destruction
+        OR (w.attack_percent IS NULL) <> (s.attack_percent IS NULL)
+        OR abs(w.attack_percent - s.attack_percent) > 0.01
+        OR (w.defend_percent IS NULL) <> (s.defend_percent IS NULL)
+        OR abs(w.defend_percent - s.defend_percent) > 0.01
+      )`,
+      now
+    );
+
+    await tx.$executeRawUnsafe(
+      `UPDATE wars w SET last_seen_at = $1::timestamp, confirmed_at = COALESCE(w.confirmed_at, $1::timestamp)
+      FROM staged_wars s
+      WHERE w.war_id = s.war_id AND (w.last_seen_at <> $1::timestamp OR w.confirmed_at IS NULL)`,
+      now
+    );
+
+    // The file is the newer source for scraped wars, except where the reconciliation rules
+    // keep the scrape (an ended status, more destruction)
+    const discrepancies: Array<WarFieldDiscrepancy & { warId: number }> = [];
+    for (const row of scraped) {
+      const file = { status: row.status, destruction: row.destruction, attackPercent: row.attackPercent, defendPercent: row.defendPercent };
+      const { resolved, discrepancies: found } = reconcileWarFields(
+        file,
+        { status: row.scrapedStatus, destruction: row.scrapedDestruction, attackPercent: row.scrapedAttackPercent, defendPercent: row.scrapedDefendPercent },
+        WAR_SOURCES.CSV
+      );
+      discrepancies.push(...found.map((d) => ({ ...d, warId: row.warId })));
+      if (found.some((d) => d.resolvedFrom === WAR_SOURCES.DYNAMIC)) {
+        await tx.war.update({
+          where: { warId: row.warId },
+          data: {
+            status: resolved.status,
+            destruction: resolved.destruction,
+            attackPercent: resolved.attackPercent,
+            defendPercent: resolved.defendPercent,
+          },
+        });
+      }
+    }
+
+    const imported = await tx.$executeRawUnsafe(
+      `INSERT INTO wars (
+        war_id, game_server, declaring_nation_id, receiving_nation_id, declaring_alliance_id,
+        receiving_alliance_id, status, date, end_date, reason, destruction, attack_percent,
+        defend_percent, first_seen_at, last_seen_at, is_active, version, updated_at, source, confirmed_at
+      )
+      SELECT
+        s.war_id, $1, s.declaring_nation_id, s.receiving_nation_id, dn.alliance_id,
+        rn.alliance_id, s.status, s.date, s.end_date, s.reason, s.destruction, s.attack_percent,
+        s.defend_percent, $2::timestamp, $2::timestamp, true, 1, $2::timestamp, '${WAR_SOURCES.CSV}', $2::timestamp
+      FROM staged_wars s
+      JOIN nations dn ON dn.id = s.declaring_nation_id
+      JOIN nations rn ON rn.id = s.receiving_nation_id
+      ON CONFLICT (war_id) DO NOTHING`,
+      server,
+      now
+    );
+
+    // Scraped wars the file hasn't confirmed yet stay active until their grace period runs out
+    const confirmationCutoff = new Date(now.getTime() - DYNAMIC_WAR_CONFIRMATION_HOURS * 60 * 60 * 1000);
+    const deactivated = await tx.$queryRawUnsafe<Array<{ warId: number; status: string; unconfirmed: boolean }>>(
+      `UPDATE wars w SET is_active = false, updated_at = $2::timestamp
+      WHERE w.game_server = $1 AND w.is_active
+        AND NOT EXISTS (SELECT 1 FROM staged_wars s WHERE s.war_id = w.war_id)
+        AND (w.confirmed_at IS NOT NULL OR w.first_seen_at <= $3::timestamp)
+      RETURNING w.war_id AS "warId", w.status, w.confirmed_at IS NULL AS unconfirmed`,
+      server,
+      now,
+      confirmationCutoff
+    );
+    for (const war of deactivated) {
+      if (war.unconfirmed) {
+        discrepancies.push({
+          warId: war.warId,
+          field: WAR_DISCREPANCY_FIELDS.MISSING_FROM_EXPORT,
+          csvValue: null,
+          dynamicValue: war.status,
+          resolvedValue: 'inactive',
+          resolvedFrom: WAR_SOURCES.CSV,
+        });
+      }
+    }
+
+    const [{ unconfirmed }] = await tx.$queryRawUnsafe<Array<{ unconfirmed: number }>>(
+      `SELECT count(*)::int AS unconfirmed FROM wars
+      WHERE game_server = $1 AND is_active AND confirmed_at IS NULL`,
+      server
+    );
+
+    if (discrepancies.length > 0) {
+      await tx.warDiscrepancy.createMany({
+        data: discrepancies.map((d) => ({ ...d, gameServer: server, detectedBy: WAR_SOURCES.CSV, detectedAt: now })),
+      });
+    }
+
+    return { imported, updated, skipped, changes, discrepancies: discrepancies.length, unconfirmed };
+  }, TRANSACTION_OPTIONS);
+}
@@ -1,4 +1,6 @@
 import { prisma } from '../utils/prisma.js';
+import { importNow } from '../utils/importClock.js';
+import { GAME_SERVERS, currentGameServer, storedIdRange } from '../utils/gameServer.js';
 import { warStatsCache } from '../utils/warStatsCache.js';
 import { STATS_EVENT_TYPE, STATS_EVENT_TYPES } from './eventService.js';
 
@@ -89,8 +91,10 @@ export async function getAllianceMembersCasualtiesStats(allianceId: number): Pro
  * Invalidate the casualties cache
  */
 export function invalidateCasualtiesCache(): void {
-  warStatsCache.invalidate(CASUALTIES_CACHE_KEY);
-  warStatsCache.invalidate(ALLIANCE_CASUALTIES_CACHE_KEY);
+  for (const server of GAME_SERVERS) {
+    warStatsCache.invalidate(`${CASUALTIES_CACHE_KEY}_${server}`);
+    warStatsCache.invalidate(`${ALLIANCE_CASUALTIES_CACHE_KEY}_${server}`);
+  }
 }
 
 /**
@@ -100,7 +104,8 @@ export function invalidateCasualtiesCache(): void {
  */
 export async function getCasualtiesStats(): Promise<CasualtyStat[]> {
   // Check cache first
-  const cached = warStatsCache.get<CasualtyStat[]>(CASUALTIES_CACHE_KEY);
+  const cacheKey = `${CASUALTIES_CACHE_KEY}_${currentGameServer()}`;
+  const cached = warStatsCache.get<CasualtyStat[]>(cacheKey);
   if (cached) {
     return cached;
   }
@@ -108,6 +113,7 @@ export async function getCasualtiesStats(): Promise<CasualtyStat[]> {
   const nations = await prisma.nation.findMany({
     where: {
       isActive: true,
+      gameServer: currentGameServer(),
       OR: [
         { attackingCasualties: { not: null } },
         { defensiveCasualties: { not: null } }
@@ -146,7 +152,7 @@ export async function getCasualtiesStats(): Promise<CasualtyStat[]> {
     }));
 
   // Cache the results (60 minute TTL)
-  warStatsCache.set(CASUALTIES_CACHE_KEY, stats, CASUALTIES_CACHE_TTL_MS);
+  warStatsCache.set(cacheKey, stats, CASUALTIES_CACHE_TTL_MS);
 
   return stats;
 }
@@ -158,7 +164,9 @@ export async function getCasualtiesStats(): Promise<CasualtyStat[]> {
  */
 export async function getAllianceCasualtiesStats(): Promise<AllianceCasualtyStat[]> {
   // Check cache first
-  const cached = warStatsCache.get<AllianceCasualtyStat[]>(ALLIANCE_CASUALTIES_CACHE_KEY);
+  const server = currentGameServer();
+  const cacheKey = `${ALLIANCE_CASUALTIES_CACHE_KEY}_${server}`;
+  const cached = warStatsCache.get<AllianceCasualtyStat[]>(cacheKey);
   if (cached) {
     return cached;
   }
@@ -174,7 +182,7 @@ export async function getAllianceCasualtiesStats(): Promise<AllianceCasualtyStat
       (COALESCE(SUM(n.attacking_casualties), 0) + COALESCE(SUM(n.defensive_casualties), 0))::bigint AS total_casualties
     FROM nations n
     INNER JOIN alliances a ON n.alliance_id = a.id
-    WHERE n.is_active = true
+    WHERE n.is_active = true AND n.game_server = $1
     GROUP BY n.alliance_id, a.name
     HAVING COUNT(*) >= 10
     ORDER BY total_casualties DESC
@@ -190,7 +198,7 @@ export async function getAllianceCasualtiesStats(): Promise<AllianceCasualtyStat
       total_attacking_casualties: bigint | number;
       total_defensive_casualties: bigint | number;
       total_casualties: bigint | number;
-    }>>(sqlQuery);
+    }>>(sqlQuery, server);
 
     const queryTime = Date.now() - startTime;
     console.log(`[Query Performance] Alliance casualties stats: ${queryTime}ms, ${results.length} rows`);
@@ -218,7 +226,7 @@ export async function getAllianceCasualtiesStats(): Promise<AllianceCasualtyStat
     });
 
     // Cache the results (60 minute TTL)
-    warStatsCache.set(ALLIANCE_CASUALTIES_CACHE_KEY, stats, CASUALTIES_CACHE_TTL_MS);
+    warStatsCache.set(cacheKey, stats, CASUALTIES_CACHE_TTL_MS);
 
     return stats;
   } catch (error: any) {
@@ -237,6 +245,7 @@ async function getCurrentCasualtiesStatsUncached(): Promise<CasualtyStat[]> {
   const nations = await prisma.nation.findMany({
     where: {
       isActive: true,
+      gameServer: currentGameServer(),
       OR: [
         { attackingCasualties: { not: null } },
         { defensiveCasualties: { not: null } }
@@ -293,6 +302,9 @@ export async function detectCasualtyRankingChanges(): Promise<{
 
     // Fetch most recent snapshot
     const mostRecentSnapshot = await prisma.casualtyRankingSnapshot.findFirst({
+      where: {
+        nationId: storedIdRange()
+      },
       orderBy: {
         snapshotDate: 'desc'
       },
@@ -301,7 +313,7 @@ export async function detectCasualtyRankingChanges(): Promise<{
 
     // If no previous snapshot exists, create one but don't generate events
     if (!mostRecentSnapshot) {
-      const snapshotDate = new Date();
+      const snapshotDate = importNow();
       // Create snapshot for current rankings
       await prisma.casualtyRankingSnapshot.createMany({
         data: currentStats.map(stat => ({
@@ -320,7 +332,8 @@ export async function detectCasualtyRankingChanges(): Promise<{
     // Fetch all entries from the most recent snapshot
     const previousSnapshot = await prisma.casualtyRankingSnapshot.findMany({
       where: {
-        snapshotDate: mostRecentSnapshot.snapshotDate
+        snapshotDate: mostRecentSnapshot.snapshotDate,
+        nationId: storedIdRange()
       },
       include: {
         nation: {
@@ -356,7 +369,7 @@ export async function detectCasualtyRankingChanges(): Promise<{
     }
 
     // Create events for changes
-    const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000);
+    const oneHourAgo = new Date(importNow().getTime() - 60 * 60 * 1000);
     let enteredCount = 0;
     let exitedCount = 0;
     let changedCount = 0;
@@ -387,6 +400,7 @@ export async function detectCasualtyRankingChanges(): Promise<{
       if (nation) {
         await prisma.event.create({
           data: {
+            createdAt: importNow(),
             type: STATS_EVENT_TYPE,
             eventType: STATS_EVENT_TYPES.CASUALTY_RANKING_ENTERED,
             nationId: stat.nation_id,
@@ -436,6 +450,7 @@ export async function detectCasualtyRankingChanges(): Promise<{
       if (nation) {
         await prisma.event.create({
           data: {
+            createdAt: importNow(),
             type: STATS_EVENT_TYPE,
             eventType: STATS_EVENT_TYPES.CASUALTY_RANKING_EXITED,
             nationId: snap.nationId,
@@ -488,6 +503,7 @@ export async function detectCasualtyRankingChanges(): Promise<{
         
         await prisma.event.create({
           data: {
+            createdAt: importNow(),
             type: STATS_EVENT_TYPE,
             eventType: STATS_EVENT_TYPES.CASUALTY_RANKING_CHANGED,
             nationId: current.nation_id,
@@ -513,7 +529,7 @@ export async function detectCasualtyRankingChanges(): Promise<{
     }
 
     // Create new snapshot with current rankings
-    const snapshotDate = new Date();
+    const snapshotDate = importNow();
     await prisma.casualtyRankingSnapshot.createMany({
       data: currentStats.map(stat => ({
         snapshotDate,
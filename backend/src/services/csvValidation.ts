@@ -0,0 +1,162 @@
+/**
+ * Sanity checks for extracted data files, run before an import is allowed to mark
+ * every existing row inactive. A truncated or malformed file would otherwise
+ * deactivate most of the game.
+ */
+
+/** Reject when a file has fewer than this share of the previous import's rows */
+export const MIN_ROW_RATIO = 0.8;
+
+/** Reject when more than this share of rows are malformed or out of range */
+export const MAX_INVALID_ROW_RATIO = 0.02;
+
+interface NumericRule {
+  column: string;
+  min: number;
+  max?: number;
+}
+
+interface CsvFileRules {
+  headers: string[];
+  /** Column that must hold a positive integer on every row */
+  idColumn: string;
+  numeric: NumericRule[];
+  /** Files smaller than this are never legitimate */
+  minRows: number;
+}
+
+export const CSV_FILE_RULES: Record<string, CsvFileRules> = {
+  Nation_Stats: {
+    headers: ['Nation ID', 'Ruler Name', 'Nation Name', 'Alliance', 'Alliance ID', 'Alliance Date', 'Alliance Status', 'Government Type', 'Religion', 'Team', 'Created', 'Technology', 'Infrastructure', 'Base Land', 'War Status', 'Resource 1', 'Resource 2', 'Votes', 'Strength', 'DEFCON', 'Base Soldiers', 'Tanks', 'Cruise', 'Nukes', 'Activity', 'Connected Resource 1', 'Connected Resource 2', 'Connected Resource 3', 'Connected Resource 4', 'Connected Resource 5', 'Connected Resource 6', 'Connected Resource 7', 'Connected Resource 8', 'Connected Resource 9', 'Connected Resource 10', 'Attacking Casualties', 'Defensive Casualties'],
+    idColumn: 'Nation ID',
+    numeric: [
+      { column: 'Strength', min: 0 },
+      { column: 'Technology', min: 0 },
+      { column: 'Infrastructure', min: 0 },
+      { column: 'Nukes', min: 0 },
+    ],
+    minRows: 100,
+  },
+  Aid_Stats: {
+    headers: ['Declaring ID', 'Declaring Ruler', 'Declaring Nation', 'Declaring Alliance', 'Declaring Alliance ID', 'Declaring Team', 'Receiving ID', 'Receiving Ruler', 'Receiving Nation', 'Receiving Alliance', 'Receiving Alliance ID', 'Receiving Team', 'Status', 'Money', 'Technology', 'Soldiers', 'Date', 'Reason', 'Aid ID'],
+    idColumn: 'Aid ID',
+    numeric: [
+      { column: 'Money', min: 0 },
+      { column: 'Technology', min: 0 },
+      { column: 'Soldiers', min: 0 },
+    ],
+    minRows: 1,
+  },
+  War_Stats: {
+    headers: ['Declaring ID', 'Declaring Ruler', 'Declaring Nation', 'Declaring Alliance', 'Declaring Alliance ID', 'Declaring Team', 'Receiving ID', 'Receiving Ruler', 'Receiving Nation', 'Receiving Alliance', 'Receiving Alliance ID', 'Receiving Team', 'War Status', 'Begin Date', 'End Date', 'Reason', 'War ID', 'Destruction', 'Attack Percent', 'Defend Percent'],
+    idColumn: 'War ID',
+    numeric: [
+      { column: 'Attack Percent', min: 0, max: 100 },
+      { column: 'Defend Percent', min: 0, max: 100 },
+    ],
+    minRows: 1,
+  },
+};
+
+export interface CsvValidationResult {
+  valid: boolean;
+  /** Data rows in the file (header excluded) */
+  rows: number;
+  previousRows: number | null;
+  invalidRows: number;
+  issues: string[];
+}
+
+/** Pipe-separated fields of one line; every line in the game's files ends with a trailing pipe */
+function splitLine(line: string): string[] {
+  const fields = line.split('|');
+  if (fields.length > 0 && fields[fields.length - 1].trim() === '') {
+    fields.pop();
+  }
+  return fields.map((field) => field.trim());
+}
+
+/**
+ * Check an extracted data file's header, row count and values
+ * @param fileType - Nation_Stats, Aid_Stats or War_Stats
+ * @param content - Raw file contents
+ * @param previousRows - Rows in the last successful import of this file type, if known
+ */
+export function validateCsvContent(fileType: string, content: string, previousRows: number | null): CsvValidationResult {
+  const rules = CSV_FILE_RULES[fileType];
+  const lines = content.split(/\r?\n/).filter((line) => line.trim().length > 0);
+  const rows = Math.max(0, lines.length - 1);
+  const issues: string[] = [];
+  let invalidRows = 0;
+
+  if (!rules) {
+    return { valid: false, rows, previousRows, invalidRows, issues: [`Unknown file type ${fileType}`] };
+  }
+
+  if (lines.length === 0) {
+    return { valid: false, rows: 0, previousRows, invalidRows, issues: ['File is empty'] };
+  }
+
+  const header = splitLine(lines[0]);
+  const missing = rules.headers.filter((column) => !header.includes(column));
+  if (missing.length > 0 || header.length !== rules.headers.length) {
+    issues.push(
+      missing.length > 0
+        ? `Header is missing ${missing.join(', ')}`
+        : `Header has ${header.length} columns, expected ${rules.headers.length}`
+    );
+    return { valid: false, rows, previousRows, invalidRows, issues };
+  }
+
+  if (rows < rules.minRows) {
+    issues.push(`Only ${rows} rows, expected at least ${rules.minRows}`);
+  }
+  if (previousRows !== null && previousRows > 0 && rows < previousRows * MIN_ROW_RATIO) {
+    issues.push(
+      `${rows} rows is ${Math.round((1 - rows / previousRows) * 100)}% fewer than the previous import (${previousRows})`
+    );
+  }
+
+  const idIndex = header.indexOf(rules.idColumn);
+  const numericIndexes = rules.numeric.map((rule) => ({ ...rule, index: header.indexOf(rule.column) }));
+  const seenIds = new Set<string>();
+  let duplicateIds = 0;
+
+  for (const line of lines.slice(1)) {
+    const fields = splitLine(line);
+    // Trailing empty columns are dropped with the trailing pipe, so allow short rows
+    if (fields.length > header.length || fields.length <= idIndex) {
+      invalidRows++;
+      continue;
+    }
+
+    const id = fields[idIndex];
+    if (!/^\d+$/.test(id) || parseInt(id, 10) <= 0) {
+      invalidRows++;
+      continue;
+    }
+    if (seenIds.has(id)) {
+      duplicateIds++;
+    }
+    seenIds.add(id);
+
+    const outOfRange = numericIndexes.some(({ index, min, max }) => {
+      const raw = fields[index];
+      if (raw === undefined || raw === '') return false;
+      const value = parseFloat(raw.replace(/,/g, ''));
+      return isNaN(value) || value < min || (max !== undefined && value > max);
+    });
+    if (outOfRange) {
+      invalidRows++;
+    }
+  }
+
+  if (rows > 0 && invalidRows / rows > MAX_INVALID_ROW_RATIO) {
+    issues.push(`${invalidRows} of ${rows} rows are malformed or out of range`);
+  }
+  if (rows > 0 && duplicateIds / rows > MAX_INVALID_ROW_RATIO) {
+    issues.push(`${duplicateIds} rows repeat an ${rules.idColumn}`);
+  }
+
+  return { valid: issues.length === 0, rows, previousRows, invalidRows, issues };
+}
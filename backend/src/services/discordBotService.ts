@@ -0,0 +1,422 @@
+import crypto from 'crypto';
+import { prisma } from '../utils/prisma.js';
+import { AidService } from './aidService.js';
+import { WarManagementService } from './warManagementService.js';
+import { StaggerEligibilityService } from './staggerEligibilityService.js';
+import { getVerifiedRulerName } from './rulerNameVerificationService.js';
+
+/**
+ * Discord interaction and response types we use
+ * https://discord.com/developers/docs/interactions/receiving-and-responding
+ */
+export const INTERACTION_TYPE = {
+  PING: 1,
+  APPLICATION_COMMAND: 2,
+} as const;
+
+export const INTERACTION_RESPONSE_TYPE = {
+  PONG: 1,
+  CHANNEL_MESSAGE_WITH_SOURCE: 4,
+  DEFERRED_CHANNEL_MESSAGE_WITH_SOURCE: 5,
+} as const;
+
+// Only the invoking user sees the reply
+const EPHEMERAL_FLAG = 1 << 6;
+const DISCORD_API_BASE = 'https://discord.com/api/v10';
+const MAX_MESSAGE_LENGTH = 2000;
+const MAX_LIST_ITEMS = 10;
+
+// Signed requests older (or further in the future) than this are refused as replays
+const MAX_SIGNATURE_AGE_SECONDS = 5 * 60;
+
+// ASN.1 prefix that turns a raw 32-byte Ed25519 public key into an SPKI DER key
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+/**
+ * Slash command definitions (registered with scripts/register-discord-commands.ts)
+ */
+export const DISCORD_COMMANDS = [
+  {
+    name: 'aid',
+    description: 'Aid lookups',
+    options: [{ type: 1, name: 'me', description: 'Your pending aid recommendations' }],
+  },
+  {
+    name: 'wars',
+    description: 'War lookups',
+    options: [{ type: 1, name: 'me', description: 'Your active offensive and defensive wars' }],
+  },
+  {
+    name: 'target',
+    description: 'Check a nation as a war target',
+    options: [{ type: 3, name: 'nation', description: 'Nation name, ruler name or nation ID', required: true }],
+  },
+  {
+    name: 'stagger',
+    description: 'Targets in an alliance you are eligible to hit',
+    options: [{ type: 3, name: 'alliance', description: 'Alliance name or ID', required: true }],
+  },
+];
+
+export interface DiscordUser {
+  id: string;
+  username: string;
+}
+
+export interface DiscordCommandOption {
+  name: string;
+  type: number;
+  value?: string | number;
+  /** Options of a subcommand */
+  options?: DiscordCommandOption[];
+}
+
+export interface DiscordInteraction {
+  id: string;
+  application_id: string;
+  type: number;
+  token: string;
+  data?: {
+    name: string;
+    options?: DiscordCommandOption[];
+  };
+  member?: { user: DiscordUser };
+  user?: DiscordUser;
+}
+
+export interface InteractionResponse {
+  type: number;
+  data?: { content: string; flags?: number };
+}
+
+// The parts of a war and its opponent that /wars me shows
+interface ListedWar {
+  status: string;
+  daysUntilExpiration?: number | null;
+}
+
+interface WarOpponent {
+  name: string;
+  alliance: string;
+}
+
+interface LinkedNation {
+  id: number;
+  rulerName: string;
+  nationName: string;
+  allianceId: number;
+  strength: number;
+  rank: number | null;
+}
+
+/**
+ * Verify the Ed25519 signature Discord sends with every interaction
+ * (signature over timestamp + raw request body, using the application's public key).
+ */
+export function verifyDiscordSignature(
+  publicKeyHex: string,
+  signatureHex: string,
+  timestamp: string,
+  rawBody: Buffer | string
+): boolean {
+  try {
+    const publicKey = crypto.createPublicKey({
+      key: Buffer.concat([ED25519_SPKI_PREFIX, Buffer.from(publicKeyHex, 'hex')]),
+      format: 'der',
+      type: 'spki',
+    });
+    const message = Buffer.concat([Buffer.from(timestamp), Buffer.isBuffer(rawBody) ? rawBody : Buffer.from(rawBody)]);
+    return crypto.verify(null, message, publicKey, Buffer.from(signatureHex, 'hex'));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether the signature timestamp (Unix seconds) is recent enough to accept, so a captured
+ * request can't be replayed later
+ */
+export function isFreshSignatureTimestamp(timestamp: string, now: Date = new Date()): boolean {
+  const seconds = Number(timestamp);
+  return Number.isFinite(seconds) && Math.abs(now.getTime() / 1000 - seconds) <= MAX_SIGNATURE_AGE_SECONDS;
+}
+
+const normalizeHandle = (handle: string): string => handle.trim().replace(/^@/, '').toLowerCase();
+
+const truncate = (content: string): string =>
+  content.length <= MAX_MESSAGE_LENGTH ? content : `${content.slice(0, MAX_MESSAGE_LENGTH - 3)}...`;
+
+const reply = (content: string): InteractionResponse => ({
+  type: INTERACTION_RESPONSE_TYPE.CHANNEL_MESSAGE_WITH_SOURCE,
+  data: { content: truncate(content), flags: EPHEMERAL_FLAG },
+});
+
+const NOT_LINKED_MESSAGE =
+  'I could not find your nation. Log in to the site with Discord and set and verify your ruler name, ' +
+  'or ask an alliance manager to set your Discord handle on your nation.';
+
+/**
+ * Find the nation that belongs to a Discord user: first via the site account
+ * (User.discordId → User.rulerName, once verified), then via NationConfig.discordHandle
+ * matched against the Discord username.
+ */
+export async function resolveNationForDiscordUser(discordUser: DiscordUser): Promise<LinkedNation | null> {
+  const select = {
+    id: true,
+    rulerName: true,
+    nationName: true,
+    allianceId: true,
+    strength: true,
+    rank: true,
+  } as const;
+
+  const rulerName = await getVerifiedRulerName({ discordId: discordUser.id });
+  if (rulerName) {
+    const nation = await prisma.nation.findFirst({
+      where: { rulerName: { equals: rulerName, mode: 'insensitive' }, isActive: true },
+      select,
+    });
+    if (nation) {
+      return nation;
+    }
+  }
+
+  // Only the username: display names can be set to anything and are not unique
+  const handle = normalizeHandle(discordUser.username);
+  const configs = await prisma.nationConfig.findMany({
+    where: {
+      discordHandle: { not: null },
+      nation: { isActive: true },
+    },
+    select: { discordHandle: true, nation: { select } },
+  });
+  const match = configs.find(config => normalizeHandle(config.discordHandle!) === handle);
+  return match?.nation ?? null;
+}
+
+/**
+ * Find a nation by ID, nation name or ruler name (case-insensitive)
+ */
+async function findNation(query: string) {
+  const trimmed = query.trim();
+  const id = /^\d+$/.test(trimmed) ? parseInt(trimmed, 10) : null;
+  return prisma.nation.findFirst({
+    where: {
+      isActive: true,
+      OR: [
+        ...(id !== null ? [{ id }] : []),
+        { nationName: { equals: trimmed, mode: 'insensitive' as const } },
+        { rulerName: { equals: trimmed, mode: 'insensitive' as const } },
+      ],
+    },
+    include: { alliance: true },
+  });
+}
+
+/**
+ * Find an alliance by ID or name (case-insensitive)
+ */
+async function findAlliance(query: string) {
+  const trimmed = query.trim();
+  const id = /^\d+$/.test(trimmed) ? parseInt(trimmed, 10) : null;
+  return prisma.alliance.findFirst({
+    where: {
+      OR: [
+        ...(id !== null ? [{ id }] : []),
+        { name: { equals: trimmed, mode: 'insensitive' as const } },
+      ],
+    },
+  });
+}
+
+/**
+ * /aid me — recommendations where the user's nation is sender or recipient
+ */
+async function handleAidMe(nation: LinkedNation): Promise<string> {
+  const { recommendations } = await AidService.getAidRecommendations(nation.allianceId);
+  const mine = recommendations.filter(rec => rec.sender.id === nation.id || rec.recipient.id === nation.id);
+
+  if (mine.length === 0) {
+    return `**${nation.nationName}**: no pending aid recommendations.`;
+  }
+
+  const lines = mine.slice(0, MAX_LIST_ITEMS).map(rec => {
+    const kind = String(rec.type).includes('tech') ? 'tech' : 'cash';
+    return rec.sender.id === nation.id
+      ? `• Send ${kind} to **${rec.recipient.nationName}** (${rec.recipient.rulerName})`
+      : `• Receive ${kind} from **${rec.sender.nationName}** (${rec.sender.rulerName})`;
+  });
+  if (mine.length > MAX_LIST_ITEMS) {
+    lines.push(`…and ${mine.length - MAX_LIST_ITEMS} more`);
+  }
+  return [`**${nation.nationName}** aid recommendations:`, ...lines].join('\n');
+}
+
+/**
+ * /wars me — the user's active wars with days until expiration
+ */
+async function handleWarsMe(nation: LinkedNation): Promise<string> {
+  const nationWars = await WarManagementService.getNationWars(nation.allianceId, true);
+  const entry = nationWars.find(nw => nw.nation.id === nation.id);
+
+  if (!entry || (entry.attackingWars.length === 0 && entry.defendingWars.length === 0)) {
+    return `**${nation.nationName}**: no active wars.`;
+  }
+
+  const formatWar = (war: ListedWar, opponent: WarOpponent) =>
+    `• **${opponent.name}** (${opponent.alliance}) — ${war.status}, expires in ${war.daysUntilExpiration ?? '?'} day(s)`;
+
+  const lines = [`**${nation.nationName}** wars:`];
+  if (entry.attackingWars.length > 0) {
+    lines.push(`__Offensive (${entry.attackingWars.length})__`);
+    entry.attackingWars.forEach(war => lines.push(formatWar(war, war.defendingNation)));
+  }
+  if (entry.defendingWars.length > 0) {
+    lines.push(`__Defensive (${entry.defendingWars.length}/3)__ — ${entry.staggeredStatus.status}`);
+    entry.defendingWars.forEach(war => lines.push(formatWar(war, war.attackingNation)));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * /target <nation> — target stats, open defensive slots and whether the user is in range
+ */
+async function handleTarget(nation: LinkedNation | null, query: string): Promise<string> {
+  const target = await findNation(query);
+  if (!target) {
+    return `No active nation found for "${query}".`;
+  }
+
+  const defensiveWars = await prisma.war.count({
+    where: {
+      receivingNationId: target.id,
+      isActive: true,
+      status: { notIn: ['Ended', 'Peace'] },
+    },
+  });
+  const openSlots = Math.max(0, 3 - defensiveWars);
+
+  const lines = [
+    `**${target.nationName}** (${target.rulerName}) — ${target.alliance.name}`,
+    `NS ${Math.round(target.strength).toLocaleString()} · Tech ${target.technology} · Nukes ${target.nuclearWeapons} · ${target.inWarMode ? 'War mode' : 'Peace mode'}`,
+    `Defensive slots open: ${openSlots}/3`,
+  ];
+
+  if (nation) {
+    const eligible = StaggerEligibilityService.isAttackerEligibleForDefender(
+      { strength: nation.strength, rank: nation.rank },
+      { strength: target.strength, rank: target.rank }
+    );
+    const ratio = target.strength > 0 ? nation.strength / target.strength : 0;
+    lines.push(`You (${nation.nationName}): ${eligible ? 'in range' : 'out of range'} (strength ratio ${ratio.toFixed(2)})`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * /stagger <alliance> — defenders in the alliance the user is eligible to attack
+ */
+async function handleStagger(nation: LinkedNation, query: string): Promise<string> {
+  const alliance = await findAlliance(query);
+  if (!alliance) {
+    return `No alliance found for "${query}".`;
+  }
+
+  const eligibility = await StaggerEligibilityService.getStaggerEligibility(nation.allianceId, alliance.id);
+  const targets = eligibility
+    .filter(entry => entry.eligibleAttackers.some(attacker => attacker.id === nation.id))
+    .sort((a, b) => b.defendingNation.openWarSlots - a.defendingNation.openWarSlots || b.defendingNation.strength - a.defendingNation.strength);
+
+  if (targets.length === 0) {
+    return `**${nation.nationName}**: no targets in ${alliance.name} with open slots in your range.`;
+  }
+
+  const lines = targets.slice(0, MAX_LIST_ITEMS).map(({ defendingNation: d }) =>
+    `• **${d.name}** (${d.ruler}) — NS ${Math.round(d.strength).toLocaleString()}, ${d.openWarSlots} open slot(s)${d.inWarMode ? '' : ', peace mode'}`
+  );
+  if (targets.length > MAX_LIST_ITEMS) {
+    lines.push(`…and ${targets.length - MAX_LIST_ITEMS} more`);
+  }
+  return [`**${nation.nationName}** targets in ${alliance.name}:`, ...lines].join('\n');
+}
+
+/**
+ * Run a slash command and return the reply text
+ */
+export async function runCommand(interaction: DiscordInteraction): Promise<string> {
+  const discordUser = interaction.member?.user ?? interaction.user;
+  const command = interaction.data?.name;
+  const options = interaction.data?.options ?? [];
+  const optionValue = (name: string) => String(options.find(o => o.name === name)?.value ?? '');
+
+  if (!discordUser || !command) {
+    return 'Unsupported interaction.';
+  }
+
+  const nation = await resolveNationForDiscordUser(discordUser);
+
+  switch (command) {
+    case 'aid':
+      return nation ? handleAidMe(nation) : NOT_LINKED_MESSAGE;
+    case 'wars':
+      return nation ? handleWarsMe(nation) : NOT_LINKED_MESSAGE;
+    case 'target':
+      return handleTarget(nation, optionValue('nation'));
+    case 'stagger':
+      return nation ? handleStagger(nation, optionValue('alliance')) : NOT_LINKED_MESSAGE;
+    default:
+      return `Unknown command: ${command}`;
+  }
+}
+
+/**
+ * Replace the deferred "thinking..." message with the command result
+ */
+export async function editOriginalResponse(interaction: DiscordInteraction, content: string): Promise<void> {
+  const url = `${DISCORD_API_BASE}/webhooks/${interaction.application_id}/${interaction.token}/messages/@original`;
+  const response = await fetch(url, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ content: truncate(content) }),
+  });
+  if (!response.ok) {
+    throw new Error(`Discord responded with ${response.status} when editing interaction response`);
+  }
+}
+
+/**
+ * Immediate response for an interaction. Commands are deferred because aid and stagger
+ * lookups can take longer than Discord's 3 second limit; the caller finishes them with
+ * completeDeferredCommand.
+ */
+export function getInitialResponse(interaction: DiscordInteraction): InteractionResponse {
+  if (interaction.type === INTERACTION_TYPE.PING) {
+    return { type: INTERACTION_RESPONSE_TYPE.PONG };
+  }
+  if (interaction.type === INTERACTION_TYPE.APPLICATION_COMMAND) {
+    return {
+      type: INTERACTION_RESPONSE_TYPE.DEFERRED_CHANNEL_MESSAGE_WITH_SOURCE,
+      data: { content: '', flags: EPHEMERAL_FLAG },
+    };
+  }
+  return reply('Unsupported interaction.');
+}
+
+/**
+ * Run a deferred command and post its result. Errors are reported back to the user.
+ */
+export async function completeDeferredCommand(interaction: DiscordInteraction): Promise<void> {
+  let content: string;
+  try {
+    content = await runCommand(interaction);
+  } catch (error) {
+    console.error(`[Discord] Error running /${interaction.data?.name}:`, error instanceof Error ? error.message : String(error));
+    content = 'Something went wrong while running that command. Please try again later.';
+  }
+  try {
+    await editOriginalResponse(interaction, content);
+  } catch (error) {
+    console.error('[Discord] Error sending command response:', error instanceof Error ? error.message : String(error));
+  }
+}
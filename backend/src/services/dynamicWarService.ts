@@ -1,4 +1,7 @@
 import { prisma } from '../utils/prisma.js';
+import { currentGameServer, toStoredId } from '../utils/gameServer.js';
+import { detectWarEvents, ENDED_WAR_STATUSES, type WarChange } from './eventService.js';
+import { reconcileWarFields, WAR_SOURCES } from './warReconciliation.js';
 
 export interface DynamicWarInput {
   warId: number;
@@ -16,20 +19,40 @@ export interface DynamicWarInput {
 export interface DynamicWarResult {
   war: any;
   wasNew: boolean;
+  /** An existing war the scrape changed */
+  wasUpdated: boolean;
+  /** Fields where the scrape disagreed with the war file */
+  discrepancies: number;
 }
 
+const WAR_INCLUDE = {
+  declaringNation: {
+    include: { alliance: true },
+  },
+  receivingNation: {
+    include: { alliance: true },
+  },
+} as const;
+
 export class DynamicWarService {
   /**
-   * Add a war to the War table - only creates new wars, does not update existing ones
-   * This prevents overwriting accurate CSV data with potentially incomplete scraper data
+   * Add or reconcile a scraped war. New wars are stored as unconfirmed scrapes until a war file
+   * lists them (see warReconciliation). For wars we already have, the scrape is the newer source:
+   * fields are resolved one by one and disagreements with the file are recorded.
+   * Ids are the game's, stored per currentGameServer() (see toStoredId).
    */
   static async addDynamicWar(warData: DynamicWarInput): Promise<DynamicWarResult> {
+    const gameServer = currentGameServer();
+    const warId = toStoredId(warData.warId, gameServer);
+    const declaringId = toStoredId(warData.declaringId, gameServer);
+    const receivingId = toStoredId(warData.receivingId, gameServer);
+
     // Ensure nations exist
     const declaringNation = await prisma.nation.findUnique({
-      where: { id: warData.declaringId },
+      where: { id: declaringId, gameServer },
     });
     const receivingNation = await prisma.nation.findUnique({
-      where: { id: warData.receivingId },
+      where: { id: receivingId, gameServer },
     });
 
     if (!declaringNation || !receivingNation) {
@@ -38,69 +61,122 @@ export class DynamicWarService {
 
     const now = new Date();
 
-    // Check if war already exists
     const existingWar = await prisma.war.findUnique({
-      where: { warId: warData.warId },
-      select: { warId: true },
+      where: { warId, gameServer },
+      select: { status: true, destruction: true, attackPercent: true, defendPercent: true, confirmedAt: true },
     });
 
-    // If war already exists, skip it - only create new wars
     if (existingWar) {
-      console.log(`War ${warData.warId} already exists, skipping update`);
-      // Return the existing war without modification
-      const war = await prisma.war.findUnique({
-        where: { warId: warData.warId },
-        include: {
-          declaringNation: {
-            include: { alliance: true },
-          },
-          receivingNation: {
-            include: { alliance: true },
-          },
+      const { resolved, discrepancies } = reconcileWarFields(
+        existingWar,
+        {
+          status: warData.status,
+          destruction: warData.destruction ?? null,
+          attackPercent: warData.attackPercent ?? null,
+          defendPercent: warData.defendPercent ?? null,
         },
+        WAR_SOURCES.DYNAMIC
+      );
+      // Until a file confirms the war, the stored values are an older scrape, not a disagreement
+      const fileDiscrepancies = existingWar.confirmedAt ? discrepancies : [];
+      const wasUpdated = resolved.status !== existingWar.status
+        || resolved.destruction !== existingWar.destruction
+        || resolved.attackPercent !== existingWar.attackPercent
+        || resolved.defendPercent !== existingWar.defendPercent;
+
+      const war = await prisma.$transaction(async (tx) => {
+        if (fileDiscrepancies.length > 0) {
+          await tx.warDiscrepancy.createMany({
+            data: fileDiscrepancies.map((d) => ({
+              ...d,
+              warId,
+              gameServer,
+              detectedBy: WAR_SOURCES.DYNAMIC,
+              detectedAt: now,
+            })),
+          });
+        }
+        return tx.war.update({
+          where: { warId },
+          data: wasUpdated ? { ...resolved, scrapedAt: now } : { scrapedAt: now },
+          include: WAR_INCLUDE,
+        });
       });
+
+      if (wasUpdated) {
+        console.log(`Updated war ${war.warId} from scrape (${fileDiscrepancies.length} discrepancies with the war file)`);
+      }
+      if (!ENDED_WAR_STATUSES.has(existingWar.status) && ENDED_WAR_STATUSES.has(war.status)) {
+        await detectWarEvents([this.toWarChange(war, existingWar.status)], 'dynamic');
+      }
+
       return {
         war: this.mapToWarModel(war),
-        wasNew: false
+        wasNew: false,
+        wasUpdated,
+        discrepancies: fileDiscrepancies.length,
       };
     }
 
-    // Create new war only if it doesn't exist
-    const warDataToCreate = {
-      warId: warData.warId,
-      declaringNationId: warData.declaringId,
-      receivingNationId: warData.receivingId,
-      declaringAllianceId: declaringNation.allianceId,
-      receivingAllianceId: receivingNation.allianceId,
-      status: warData.status,
-      date: warData.date,
-      endDate: warData.endDate,
-      reason: warData.reason ?? null,
-      destruction: warData.destruction ?? null,
-      attackPercent: warData.attackPercent ?? null,
-      defendPercent: warData.defendPercent ?? null,
-      lastSeenAt: now,
-      firstSeenAt: now,
-      isActive: true,
-      version: 1,
-    };
-
     const war = await prisma.war.create({
-      data: warDataToCreate,
-      include: {
-        declaringNation: {
-          include: { alliance: true },
-        },
-        receivingNation: {
-          include: { alliance: true },
-        },
+      data: {
+        warId,
+        gameServer,
+        declaringNationId: declaringId,
+        receivingNationId: receivingId,
+        declaringAllianceId: declaringNation.allianceId,
+        receivingAllianceId: receivingNation.allianceId,
+        status: warData.status,
+        date: warData.date,
+        endDate: warData.endDate,
+        reason: warData.reason ?? null,
+        destruction: warData.destruction ?? null,
+        attackPercent: warData.attackPercent ?? null,
+        defendPercent: warData.defendPercent ?? null,
+        lastSeenAt: now,
+        firstSeenAt: now,
+        isActive: true,
+        version: 1,
+        source: WAR_SOURCES.DYNAMIC,
+        scrapedAt: now,
       },
+      include: WAR_INCLUDE,
     });
 
     console.log(`Created new war ${war.warId}`);
+
+    // The war file won't see this war as new, so the declaration event comes from here
+    await detectWarEvents([this.toWarChange(war, null)], 'dynamic');
+
     return {
       war: this.mapToWarModel(war),
-      wasNew: true
+      wasNew: true,
+      wasUpdated: false,
+      discrepancies: 0,
+    };
+  }
+
+  /**
+   * Describe a scraped war's status change for the war events
+   */
+  private static toWarChange(war: any, oldStatus: string | null): WarChange {
+    return {
+      warId: war.warId,
+      oldStatus,
+      status: war.status,
+      date: war.date,
+      endDate: war.endDate,
+      reason: war.reason,
+      declaringNationId: war.declaringNationId,
+      declaringRulerName: war.declaringNation.rulerName,
+      declaringNationName: war.declaringNation.nationName,
+      declaringAllianceId: war.declaringNation.allianceId,
+      declaringAllianceName: war.declaringNation.alliance.name,
+      receivingNationId: war.receivingNationId,
+      receivingRulerName: war.receivingNation.rulerName,
+      receivingNationName: war.receivingNation.nationName,
+      receivingAllianceId: war.receivingNation.allianceId,
+      receivingAllianceName: war.receivingNation.alliance.name,
     };
   }
 
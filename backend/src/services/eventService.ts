@@ -1,7 +1,21 @@
-import { prisma } from '../utils/prisma.js';
+import { prisma, Prisma } from '../utils/prisma.js';
+import { importNow } from '../utils/importClock.js';
+import { AID_OFFER_OUTCOMES, AidOfferOutcome } from './aidOfferTransitions.js';
 
+/**
+ * Alliance changes are only reported for nations at or above this strength
+ */
 const MIN_NS_THRESHOLD = 1000;
 
+const ONE_HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * A nation last seen longer ago than this was already gone, so going inactive isn't news
+ */
+const INACTIVE_EVENT_WINDOW_MS = 48 * ONE_HOUR_MS;
+
+const EVENT_BATCH_SIZE = 1000;
+
 /**
  * Event types for nation events
  */
@@ -59,20 +73,6 @@ export function findHighestDonationTierAtLeast(
   return null;
 }
 
-export type PossibleDonationEventInput = {
-  nationId: number;
-  beforeInfrastructure: number;
-  afterInfrastructure: number;
-  beforeLand: number;
-  afterLand: number;
-  beforeTechnology: number;
-  afterTechnology: number;
-  deltaInfrastructure: number;
-  deltaLand: number;
-  deltaTechnology: number;
-  tier: DonationTier;
-};
-
 /**
  * Top-level event type for stats events
  */
@@ -88,407 +88,538 @@ export const STATS_EVENT_TYPES = {
 } as const;
 
 /**
- * Detect and create events for new nations
- * Called when a nation is first created
- * Tracks all nations regardless of strength
+ * Top-level event type for aid offer events
  */
-export async function detectNewNationEvent(nationId: number, strength: number): Promise<void> {
-  try {
-    // Check if this is truly the first time we're seeing this nation
-    // by checking if there's already an event for this nation
-    const existingEvent = await prisma.event.findFirst({
-      where: {
-        nationId,
-        eventType: NATION_EVENT_TYPES.NEW_NATION,
-      },
-    });
-
-    if (existingEvent) {
-      return; // Event already exists
-    }
+export const AID_EVENT_TYPE = 'aid';
 
-    // Get nation details for the description
-    const nation = await prisma.nation.findUnique({
-      where: { id: nationId },
-      include: { alliance: true },
-    });
+/**
+ * Event types for aid offers that ended, by outcome (see aidOfferTransitions)
+ */
+export const AID_EVENT_TYPES = {
+  AID_OFFER_CANCELLED: 'aid_offer_cancelled',
+  AID_OFFER_RENEGED: 'aid_offer_reneged',
+  AID_OFFER_EXPIRED: 'aid_offer_expired',
+} as const;
 
-    if (!nation) {
-      return;
-    }
+/**
+ * Top-level event type for war events
+ */
+export const WAR_EVENT_TYPE = 'war';
 
-    // Create the event
-    await prisma.event.create({
-      data: {
-        type: 'nation',
-        eventType: NATION_EVENT_TYPES.NEW_NATION,
-        nationId,
-        allianceId: nation.allianceId,
-        description: `${nation.rulerName} (${nation.nationName}) from ${nation.alliance.name} appeared with ${strength.toLocaleString()} NS`,
-        metadata: {
-          strength,
-          rulerName: nation.rulerName,
-          nationName: nation.nationName,
-          allianceName: nation.alliance.name,
-        },
-      },
-    });
-  } catch (error: any) {
-    console.error(`Error creating new nation event for nation ${nationId}:`, error.message);
-    // Don't throw - event creation failure shouldn't break the import
-  }
-}
+/**
+ * Event types for wars being declared and ending
+ */
+export const WAR_EVENT_TYPES = {
+  WAR_DECLARED: 'war_declared',
+  WAR_PEACE: 'war_peace',
+  WAR_EXPIRED: 'war_expired',
+} as const;
 
 /**
- * Detect and create events for nations that go inactive
- * A nation is considered "inactive" when it no longer appears in the nation data file,
- * not based on the nation's activity status field.
- * Called when a nation is marked as inactive (isActive = false)
- * Tracks all nations regardless of strength
+ * War statuses that mean the war is over
  */
-export async function detectNationInactiveEvent(nationId: number): Promise<void> {
-  try {
-    // Get the nation
-    // Note: "inactive" here means the nation is not in the current data file (isActive = false),
-    // not based on the nation's activity status field
-    const nation = await prisma.nation.findUnique({
-      where: { id: nationId },
-      include: { alliance: true },
-    });
+export const ENDED_WAR_STATUSES = new Set(['Peace', 'Expired', 'Ended']);
 
-    if (!nation) {
-      return;
-    }
+const AID_EVENT_TYPE_BY_OUTCOME: Record<AidOfferOutcome, string> = {
+  [AID_OFFER_OUTCOMES.CANCELLED]: AID_EVENT_TYPES.AID_OFFER_CANCELLED,
+  [AID_OFFER_OUTCOMES.RENEGED]: AID_EVENT_TYPES.AID_OFFER_RENEGED,
+  [AID_OFFER_OUTCOMES.EXPIRED]: AID_EVENT_TYPES.AID_OFFER_EXPIRED,
+};
 
-    // Only create an event if the nation was previously active (recently seen)
-    // If lastSeenAt is old, the nation was already inactive, so don't create a duplicate event
-    // Use 48 hours as the threshold - if last seen more than 48 hours ago, consider it already inactive
-    const twoDaysAgo = new Date(Date.now() - 48 * 60 * 60 * 1000);
-    if (nation.lastSeenAt < twoDaysAgo) {
-      return; // Nation was already inactive (not seen recently)
-    }
 
-    // Check if there's already an event for this nation going inactive
-    // that was created after the nation's lastSeenAt timestamp
-    // This means we already processed this transition from active to inactive
-    const existingEvent = await prisma.event.findFirst({
-      where: {
-        nationId,
-        eventType: NATION_EVENT_TYPES.NATION_INACTIVE,
-        createdAt: {
-          gte: nation.lastSeenAt, // Event created after the nation was last seen
-        },
-      },
-      orderBy: {
-        createdAt: 'desc',
-      },
-    });
+/**
+ * The nation fields every nation event is described with
+ */
+export interface NationEventSubject {
+  nationId: number;
+  rulerName: string;
+  nationName: string;
+  allianceId: number;
+  allianceName: string;
+  strength: number;
+}
 
-    if (existingEvent) {
-      return; // Already processed this nation going inactive
-    }
+/**
+ * One row of the nation import diff: a new nation, or an existing nation whose alliance,
+ * war mode, DEFCON or stats changed. The old* fields are null for new nations.
+ */
+export interface NationChange extends NationEventSubject {
+  isNew: boolean;
+  oldAllianceId: number | null;
+  oldAllianceName: string | null;
+  oldInWarMode: boolean | null;
+  inWarMode: boolean;
+  oldDefcon: number | null;
+  defcon: number | null;
+  oldTechnology: string | null;
+  oldInfrastructure: string | null;
+  oldLand: string | null;
+  technology: string;
+  infrastructure: string;
+  land: string;
+}
 
-    // Also check if there's a recent event (within 1 hour) to avoid spam if nation flickers
-    const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000);
-    const recentEvent = await prisma.event.findFirst({
-      where: {
-        nationId,
-        eventType: NATION_EVENT_TYPES.NATION_INACTIVE,
-        createdAt: {
-          gte: oneHourAgo,
-        },
-      },
-    });
+/**
+ * A nation that was active but is missing from the latest nation file
+ */
+export interface DeactivatedNation extends NationEventSubject {
+  lastSeenAt: Date;
+}
 
-    if (recentEvent) {
-      return; // Recently created event exists (avoid spam)
-    }
+/**
+ * An aid offer that one aid import ended, with both nations as they are now
+ */
+export interface EndedAidOffer {
+  aidId: number;
+  outcome: AidOfferOutcome;
+  fromStatus: string;
+  toStatus: string;
+  declaringNationId: number;
+  declaringRulerName: string;
+  declaringNationName: string;
+  declaringAllianceId: number | null;
+  declaringAllianceName: string | null;
+  receivingNationId: number;
+  receivingRulerName: string;
+  receivingNationName: string;
+  receivingAllianceId: number | null;
+  receivingAllianceName: string | null;
+  money: number;
+  technology: number;
+  soldiers: number;
+  date: string;
+  daysActive: number | null;
+}
 
-    // Create the event
-    await prisma.event.create({
-      data: {
-        type: 'nation',
-        eventType: NATION_EVENT_TYPES.NATION_INACTIVE,
-        nationId,
-        allianceId: nation.allianceId,
-        description: `${nation.rulerName} (${nation.nationName}) from ${nation.alliance.name} is no longer active (was ${nation.strength.toLocaleString()} NS)`,
-        metadata: {
-          strength: nation.strength,
-          rulerName: nation.rulerName,
-          nationName: nation.nationName,
-          allianceName: nation.alliance.name,
-          lastSeenAt: nation.lastSeenAt.toISOString(),
-        },
-      },
-    });
-  } catch (error: any) {
-    console.error(`Error creating nation inactive event for nation ${nationId}:`, error.message);
-    // Don't throw - event creation failure shouldn't break the import
-  }
+/**
+ * A new war, or a war whose status changed, with both nations as they are now. oldStatus is
+ * null for new wars. Alliances are the ones the war is recorded against.
+ */
+export interface WarChange {
+  warId: number;
+  oldStatus: string | null;
+  status: string;
+  date: string;
+  endDate: string;
+  reason: string | null;
+  declaringNationId: number;
+  declaringRulerName: string;
+  declaringNationName: string;
+  declaringAllianceId: number | null;
+  declaringAllianceName: string | null;
+  receivingNationId: number;
+  receivingRulerName: string;
+  receivingNationName: string;
+  receivingAllianceId: number | null;
+  receivingAllianceName: string | null;
 }
 
 /**
- * Detect and create events for nations that change alliance
- * Called when a nation's allianceId changes
- * Tracks all nations regardless of strength
+ * Where a war change came from: the war file or a war reported between imports
  */
-export async function detectAllianceChangeEvent(
-  nationId: number,
-  oldAllianceId: number,
-  newAllianceId: number
-): Promise<void> {
-  // Skip if alliance hasn't actually changed
-  if (oldAllianceId === newAllianceId) {
-    return;
+export type WarEventSource = 'csv' | 'dynamic';
+
+function nationEvent(
+  nation: NationEventSubject,
+  eventType: string,
+  description: string,
+  metadata: Prisma.InputJsonObject,
+  createdAt: Date
+): Prisma.EventCreateManyInput {
+  return {
+    createdAt,
+    type: 'nation',
+    eventType,
+    nationId: nation.nationId,
+    allianceId: nation.allianceId,
+    description,
+    metadata: {
+      strength: nation.strength,
+      rulerName: nation.rulerName,
+      nationName: nation.nationName,
+      ...metadata,
+    },
+  };
+}
+
+function possibleDonationEvent(change: NationChange, createdAt: Date): Prisma.EventCreateManyInput | null {
+  if (change.oldTechnology === null || change.oldInfrastructure === null || change.oldLand === null) {
+    return null;
+  }
+  const beforeInfrastructure = parseNationStatField(change.oldInfrastructure);
+  const beforeLand = parseNationStatField(change.oldLand);
+  const beforeTechnology = parseNationStatField(change.oldTechnology);
+  const afterInfrastructure = parseNationStatField(change.infrastructure);
+  const afterLand = parseNationStatField(change.land);
+  const afterTechnology = parseNationStatField(change.technology);
+  const deltaInfrastructure = Math.round(afterInfrastructure - beforeInfrastructure);
+  const deltaLand = Math.round(afterLand - beforeLand);
+  const deltaTechnology = Math.round(afterTechnology - beforeTechnology);
+  const tier = findHighestDonationTierAtLeast(deltaInfrastructure, deltaLand, deltaTechnology);
+  if (!tier) {
+    return null;
   }
 
-  try {
-    // Get the nation
-    const nation = await prisma.nation.findUnique({
-      where: { id: nationId },
-      include: { alliance: true },
-    });
+  const label = `$${tier.usd.toFixed(2)} tier`;
+  return nationEvent(
+    change,
+    NATION_EVENT_TYPES.POSSIBLE_DONATION,
+    `${change.rulerName} (${change.nationName}) from ${change.allianceName}: possible donation (${label}, ≥ tier mins) — infra/land/tech +${deltaInfrastructure}/+${deltaLand}/+${deltaTechnology}`,
+    {
+      allianceName: change.allianceName,
+      suspectedDonationUsd: tier.usd,
+      tierMinimumInfrastructure: tier.deltaInfrastructure,
+      tierMinimumLand: tier.deltaLand,
+      tierMinimumTechnology: tier.deltaTechnology,
+      deltaInfrastructure,
+      deltaLand,
+      deltaTechnology,
+      beforeInfrastructure,
+      afterInfrastructure,
+      beforeLand,
+      afterLand,
+      beforeTechnology,
+      afterTechnology,
+    },
+    createdAt
+  );
+}
 
-    if (!nation) {
-      return;
-    }
+/**
+ * Build the nation events for one nation import from its diff, before checking for
+ * duplicates of events already recorded. Pure, so the rules can be tested without a database.
+ */
+export function buildNationEvents(
+  changes: NationChange[],
+  deactivated: DeactivatedNation[],
+  createdAt: Date
+): Prisma.EventCreateManyInput[] {
+  const events: Prisma.EventCreateManyInput[] = [];
+
+  for (const change of changes.filter((c) => c.isNew)) {
+    events.push(nationEvent(
+      change,
+      NATION_EVENT_TYPES.NEW_NATION,
+      `${change.rulerName} (${change.nationName}) from ${change.allianceName} appeared with ${change.strength.toLocaleString()} NS`,
+      { allianceName: change.allianceName },
+      createdAt
+    ));
+  }
 
-    // Get old and new alliance information
-    const [oldAlliance, newAlliance] = await Promise.all([
-      oldAllianceId ? prisma.alliance.findUnique({ where: { id: oldAllianceId } }) : null,
-      newAllianceId ? prisma.alliance.findUnique({ where: { id: newAllianceId } }) : null,
-    ]);
-
-    const oldAllianceName = oldAlliance?.name || 'No Alliance';
-    const newAllianceName = newAlliance?.name || 'No Alliance';
-
-    // Create the event
-    await prisma.event.create({
-      data: {
-        type: 'nation',
-        eventType: NATION_EVENT_TYPES.ALLIANCE_CHANGE,
-        nationId,
-        allianceId: newAllianceId, // Set to new alliance
-        description: `${nation.rulerName} (${nation.nationName}) changed from ${oldAllianceName} to ${newAllianceName}`,
-        metadata: {
-          strength: nation.strength,
-          rulerName: nation.rulerName,
-          nationName: nation.nationName,
-          oldAllianceId,
-          oldAllianceName,
-          newAllianceId,
-          newAllianceName,
-        },
+  const existing = changes.filter((c) => !c.isNew);
+  for (const change of existing) {
+    if (change.oldAllianceId === null || change.oldAllianceId === change.allianceId || change.strength < MIN_NS_THRESHOLD) {
+      continue;
+    }
+    const oldAllianceName = (change.oldAllianceId && change.oldAllianceName) || 'No Alliance';
+    const newAllianceName = (change.allianceId && change.allianceName) || 'No Alliance';
+    events.push(nationEvent(
+      change,
+      NATION_EVENT_TYPES.ALLIANCE_CHANGE,
+      `${change.rulerName} (${change.nationName}) changed from ${oldAllianceName} to ${newAllianceName}`,
+      {
+        oldAllianceId: change.oldAllianceId,
+        oldAllianceName,
+        newAllianceId: change.allianceId,
+        newAllianceName,
       },
-    });
-  } catch (error: any) {
-    console.error(`Error creating alliance change event for nation ${nationId}:`, error.message);
-    // Don't throw - event creation failure shouldn't break the import
+      createdAt
+    ));
   }
-}
 
-/**
- * Detect and create events when a nation's war mode status changes (inWarMode)
- * Called when nation data is updated and inWarMode differs from previous value
- */
-export async function detectWarModeChangeEvent(
-  nationId: number,
-  oldInWarMode: boolean,
-  newInWarMode: boolean
-): Promise<void> {
-  if (oldInWarMode === newInWarMode) {
-    return;
+  for (const change of existing) {
+    if (change.oldInWarMode === null || change.oldInWarMode === change.inWarMode) {
+      continue;
+    }
+    const status = change.inWarMode ? 'entered war mode' : 'left war mode';
+    events.push(nationEvent(
+      change,
+      NATION_EVENT_TYPES.WAR_MODE_CHANGE,
+      `${change.rulerName} (${change.nationName}) from ${change.allianceName} ${status}`,
+      { allianceName: change.allianceName, oldInWarMode: change.oldInWarMode, newInWarMode: change.inWarMode },
+      createdAt
+    ));
   }
 
-  try {
-    const nation = await prisma.nation.findUnique({
-      where: { id: nationId },
-      include: { alliance: true },
-    });
+  for (const change of existing) {
+    if (change.oldDefcon === change.defcon) {
+      continue;
+    }
+    const oldStr = change.oldDefcon != null ? `DEFCON ${change.oldDefcon}` : 'unknown';
+    const newStr = change.defcon != null ? `DEFCON ${change.defcon}` : 'unknown';
+    events.push(nationEvent(
+      change,
+      NATION_EVENT_TYPES.DEFCON_CHANGE,
+      `${change.rulerName} (${change.nationName}) from ${change.allianceName} changed from ${oldStr} to ${newStr}`,
+      { allianceName: change.allianceName, oldDefcon: change.oldDefcon, newDefcon: change.defcon },
+      createdAt
+    ));
+  }
 
-    if (!nation) {
-      return;
+  for (const change of existing) {
+    const event = possibleDonationEvent(change, createdAt);
+    if (event) {
+      events.push(event);
     }
+  }
 
-    const status = newInWarMode ? 'entered war mode' : 'left war mode';
-    await prisma.event.create({
-      data: {
-        type: 'nation',
-        eventType: NATION_EVENT_TYPES.WAR_MODE_CHANGE,
-        nationId,
-        allianceId: nation.allianceId,
-        description: `${nation.rulerName} (${nation.nationName}) from ${nation.alliance.name} ${status}`,
-        metadata: {
-          strength: nation.strength,
-          rulerName: nation.rulerName,
-          nationName: nation.nationName,
-          allianceName: nation.alliance.name,
-          oldInWarMode,
-          newInWarMode,
-        },
-      },
-    });
-  } catch (error: any) {
-    console.error(`Error creating war mode change event for nation ${nationId}:`, error.message);
+  const inactiveSince = new Date(createdAt.getTime() - INACTIVE_EVENT_WINDOW_MS);
+  for (const nation of deactivated) {
+    if (nation.lastSeenAt < inactiveSince) {
+      continue;
+    }
+    events.push(nationEvent(
+      nation,
+      NATION_EVENT_TYPES.NATION_INACTIVE,
+      `${nation.rulerName} (${nation.nationName}) from ${nation.allianceName} is no longer active (was ${nation.strength.toLocaleString()} NS)`,
+      { allianceName: nation.allianceName, lastSeenAt: nation.lastSeenAt.toISOString() },
+      createdAt
+    ));
   }
+
+  return events;
+}
+
+function describeAidOffer(offer: EndedAidOffer): string {
+  const parts = [
+    offer.money > 0 ? `$${offer.money.toLocaleString()}` : null,
+    offer.technology > 0 ? `${offer.technology.toLocaleString()} tech` : null,
+    offer.soldiers > 0 ? `${offer.soldiers.toLocaleString()} soldiers` : null,
+  ].filter(Boolean);
+  const from = `${offer.declaringRulerName} (${offer.declaringNationName}) of ${offer.declaringAllianceName || 'No Alliance'}`;
+  const to = `${offer.receivingRulerName} (${offer.receivingNationName}) of ${offer.receivingAllianceName || 'No Alliance'}`;
+  return `from ${from} to ${to}${parts.length > 0 ? ` (${parts.join(', ')})` : ''}`;
 }
 
 /**
- * Detect and create events when a nation's DEFCON level changes
- * Called when nation data is updated and defcon differs from previous value
+ * Build one event per ended aid offer, on the declaring nation. Offers only end once, so
+ * there are no duplicates to check for.
  */
-export async function detectDefconChangeEvent(
-  nationId: number,
-  oldDefcon: number | null,
-  newDefcon: number | null
-): Promise<void> {
-  if (oldDefcon === newDefcon) {
-    return;
-  }
+export function buildAidOfferEvents(offers: EndedAidOffer[], createdAt: Date): Prisma.EventCreateManyInput[] {
+  return offers.map((offer) => {
+    const after = offer.daysActive !== null ? ` after ${offer.daysActive.toFixed(1)} days` : '';
+    let description: string;
+    switch (offer.outcome) {
+      case AID_OFFER_OUTCOMES.CANCELLED:
+        description = `Pending aid offer ${describeAidOffer(offer)} was cancelled${after}`;
+        break;
+      case AID_OFFER_OUTCOMES.RENEGED:
+        description = `Approved aid offer ${describeAidOffer(offer)} was cancelled${after}, before its 10-day expiry`;
+        break;
+      default:
+        description = `Aid offer ${describeAidOffer(offer)} expired`;
+    }
 
-  try {
-    const nation = await prisma.nation.findUnique({
-      where: { id: nationId },
-      include: { alliance: true },
-    });
+    return {
+      createdAt,
+      type: AID_EVENT_TYPE,
+      eventType: AID_EVENT_TYPE_BY_OUTCOME[offer.outcome],
+      nationId: offer.declaringNationId,
+      // The file can name an alliance we have no row for (no name), which the event can't reference
+      allianceId: offer.declaringAllianceName !== null ? offer.declaringAllianceId : null,
+      description,
+      metadata: {
+        aidId: offer.aidId,
+        fromStatus: offer.fromStatus,
+        toStatus: offer.toStatus,
+        offerDate: offer.date,
+        daysActive: offer.daysActive,
+        money: offer.money,
+        technology: offer.technology,
+        soldiers: offer.soldiers,
+        declaringRulerName: offer.declaringRulerName,
+        declaringNationName: offer.declaringNationName,
+        declaringAllianceName: offer.declaringAllianceName,
+        receivingNationId: offer.receivingNationId,
+        receivingRulerName: offer.receivingRulerName,
+        receivingNationName: offer.receivingNationName,
+        receivingAllianceId: offer.receivingAllianceId,
+        receivingAllianceName: offer.receivingAllianceName,
+      },
+    };
+  });
+}
+
+function describeWarSide(ruler: string, nation: string, allianceName: string | null): string {
+  return `${ruler} (${nation}) of ${allianceName || 'No Alliance'}`;
+}
 
-    if (!nation) {
-      return;
+/**
+ * Build the war events for a batch of war changes: new active wars were declared, and wars
+ * going from active to Peace or Expired ended. Wars first seen already over are history, not
+ * news. Events go on the declaring nation, with the receiving side in metadata.
+ */
+export function buildWarEvents(
+  changes: WarChange[],
+  source: WarEventSource,
+  createdAt: Date
+): Prisma.EventCreateManyInput[] {
+  const events: Prisma.EventCreateManyInput[] = [];
+
+  for (const change of changes) {
+    const declaring = describeWarSide(change.declaringRulerName, change.declaringNationName, change.declaringAllianceName);
+    const receiving = describeWarSide(change.receivingRulerName, change.receivingNationName, change.receivingAllianceName);
+    let eventType: string;
+    let description: string;
+
+    if (change.oldStatus === null) {
+      if (ENDED_WAR_STATUSES.has(change.status)) continue;
+      eventType = WAR_EVENT_TYPES.WAR_DECLARED;
+      description = `${declaring} declared war on ${receiving}${change.reason ? `: ${change.reason}` : ''}`;
+    } else if (ENDED_WAR_STATUSES.has(change.oldStatus)) {
+      // Already over: a status change now (say Expired to Peace) isn't news
+      continue;
+    } else if (change.status === 'Peace') {
+      eventType = WAR_EVENT_TYPES.WAR_PEACE;
+      description = `${declaring} and ${receiving} made peace`;
+    } else if (ENDED_WAR_STATUSES.has(change.status)) {
+      eventType = WAR_EVENT_TYPES.WAR_EXPIRED;
+      description = `War declared by ${declaring} on ${receiving} expired`;
+    } else {
+      continue;
     }
 
-    const oldStr = oldDefcon != null ? `DEFCON ${oldDefcon}` : 'unknown';
-    const newStr = newDefcon != null ? `DEFCON ${newDefcon}` : 'unknown';
-    await prisma.event.create({
-      data: {
-        type: 'nation',
-        eventType: NATION_EVENT_TYPES.DEFCON_CHANGE,
-        nationId,
-        allianceId: nation.allianceId,
-        description: `${nation.rulerName} (${nation.nationName}) from ${nation.alliance.name} changed from ${oldStr} to ${newStr}`,
-        metadata: {
-          strength: nation.strength,
-          rulerName: nation.rulerName,
-          nationName: nation.nationName,
-          allianceName: nation.alliance.name,
-          oldDefcon,
-          newDefcon,
-        },
+    events.push({
+      createdAt,
+      type: WAR_EVENT_TYPE,
+      eventType,
+      nationId: change.declaringNationId,
+      allianceId: change.declaringAllianceId,
+      description,
+      metadata: {
+        warId: change.warId,
+        source,
+        oldStatus: change.oldStatus,
+        status: change.status,
+        date: change.date,
+        endDate: change.endDate,
+        reason: change.reason,
+        declaringRulerName: change.declaringRulerName,
+        declaringNationName: change.declaringNationName,
+        declaringAllianceName: change.declaringAllianceName,
+        receivingNationId: change.receivingNationId,
+        receivingRulerName: change.receivingRulerName,
+        receivingNationName: change.receivingNationName,
+        receivingAllianceId: change.receivingAllianceId,
+        receivingAllianceName: change.receivingAllianceName,
       },
     });
-  } catch (error: any) {
-    console.error(`Error creating DEFCON change event for nation ${nationId}:`, error.message);
   }
+
+  return events;
 }
 
 /**
- * Heuristic: one-tick deltas meet or exceed a known donation package on all three stats (highest qualifying USD tier).
+ * Drop events already recorded: a second new_nation for a nation, a nation_inactive since the
+ * nation was last seen or within the hour, or the same donation tier within the hour
  */
-export async function detectPossibleDonationEvent(input: PossibleDonationEventInput): Promise<void> {
-  const {
-    nationId,
-    beforeInfrastructure,
-    afterInfrastructure,
-    beforeLand,
-    afterLand,
-    beforeTechnology,
-    afterTechnology,
-    deltaInfrastructure,
-    deltaLand,
-    deltaTechnology,
-    tier,
-  } = input;
-
-  try {
-    const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000);
-    const recent = await prisma.event.findMany({
+async function withoutRecordedEvents(
+  events: Prisma.EventCreateManyInput[],
+  deactivated: DeactivatedNation[],
+  createdAt: Date
+): Promise<Prisma.EventCreateManyInput[]> {
+  const idsOfType = (eventType: string) =>
+    events.filter((e) => e.eventType === eventType).map((e) => e.nationId as number);
+  const oneHourAgo = new Date(createdAt.getTime() - ONE_HOUR_MS);
+
+  const [newNationEvents, inactiveEvents, donationEvents] = await Promise.all([
+    prisma.event.findMany({
+      where: { eventType: NATION_EVENT_TYPES.NEW_NATION, nationId: { in: idsOfType(NATION_EVENT_TYPES.NEW_NATION) } },
+      select: { nationId: true },
+    }),
+    prisma.event.groupBy({
+      by: ['nationId'],
+      where: { eventType: NATION_EVENT_TYPES.NATION_INACTIVE, nationId: { in: idsOfType(NATION_EVENT_TYPES.NATION_INACTIVE) } },
+      _max: { createdAt: true },
+    }),
+    prisma.event.findMany({
       where: {
-        nationId,
         eventType: NATION_EVENT_TYPES.POSSIBLE_DONATION,
+        nationId: { in: idsOfType(NATION_EVENT_TYPES.POSSIBLE_DONATION) },
         createdAt: { gte: oneHourAgo },
       },
-      select: { metadata: true },
-    });
-    const isDup = recent.some((e) => {
-      const m = e.metadata as Record<string, unknown> | null;
-      if (!m) return false;
-      return m.suspectedDonationUsd === tier.usd;
-    });
-    if (isDup) {
-      return;
+      select: { nationId: true, metadata: true },
+    }),
+  ]);
+
+  const hasNewNationEvent = new Set(newNationEvents.map((e) => e.nationId));
+  const lastInactiveEvent = new Map(inactiveEvents.map((e) => [e.nationId, e._max.createdAt]));
+  const lastSeenAt = new Map(deactivated.map((n) => [n.nationId, n.lastSeenAt]));
+  const recentDonationTiers = new Set(
+    donationEvents.map((e) => `${e.nationId}:${(e.metadata as Record<string, unknown> | null)?.suspectedDonationUsd}`)
+  );
+
+  return events.filter((event) => {
+    const nationId = event.nationId as number;
+    switch (event.eventType) {
+      case NATION_EVENT_TYPES.NEW_NATION:
+        return !hasNewNationEvent.has(nationId);
+      case NATION_EVENT_TYPES.NATION_INACTIVE: {
+        const last = lastInactiveEvent.get(nationId);
+        return !last || (last < lastSeenAt.get(nationId)! && last < oneHourAgo);
+      }
+      case NATION_EVENT_TYPES.POSSIBLE_DONATION: {
+        const usd = (event.metadata as Record<string, unknown>).suspectedDonationUsd;
+        return !recentDonationTiers.has(`${nationId}:${usd}`);
+      }
+      default:
+        return true;
     }
+  });
+}
 
-    const nation = await prisma.nation.findUnique({
-      where: { id: nationId },
-      include: { alliance: true },
-    });
-
-    if (!nation) {
-      return;
+/**
+ * Record the nation events for one nation import, driven by its diff (see loadNations).
+ * Returns the number of events created. Never throws: a failure here shouldn't fail the import.
+ */
+export async function detectNationEvents(
+  changes: NationChange[],
+  deactivated: DeactivatedNation[]
+): Promise<number> {
+  try {
+    const createdAt = importNow();
+    const events = await withoutRecordedEvents(buildNationEvents(changes, deactivated, createdAt), deactivated, createdAt);
+    for (let i = 0; i < events.length; i += EVENT_BATCH_SIZE) {
+      await prisma.event.createMany({ data: events.slice(i, i + EVENT_BATCH_SIZE) });
     }
-
-    const label = `$${tier.usd.toFixed(2)} tier`;
-    await prisma.event.create({
-      data: {
-        type: 'nation',
-        eventType: NATION_EVENT_TYPES.POSSIBLE_DONATION,
-        nationId,
-        allianceId: nation.allianceId,
-        description: `${nation.rulerName} (${nation.nationName}) from ${nation.alliance.name}: possible donation (${label}, ≥ tier mins) — infra/land/tech +${deltaInfrastructure}/+${deltaLand}/+${deltaTechnology}`,
-        metadata: {
-          strength: nation.strength,
-          rulerName: nation.rulerName,
-          nationName: nation.nationName,
-          allianceName: nation.alliance.name,
-          suspectedDonationUsd: tier.usd,
-          tierMinimumInfrastructure: tier.deltaInfrastructure,
-          tierMinimumLand: tier.deltaLand,
-          tierMinimumTechnology: tier.deltaTechnology,
-          deltaInfrastructure,
-          deltaLand,
-          deltaTechnology,
-          beforeInfrastructure,
-          afterInfrastructure,
-          beforeLand,
-          afterLand,
-          beforeTechnology,
-          afterTechnology,
-        },
-      },
-    });
+    return events.length;
   } catch (error: any) {
-    console.error(`Error creating possible donation event for nation ${nationId}:`, error.message);
+    console.error('Error creating nation events:', error.message);
+    return 0;
   }
 }
 
 /**
- * Process events for nations that became inactive during import
- * A nation is considered "inactive" when it no longer appears in the nation data file.
- * This is called after marking all nations as inactive (isActive = false), before reactivating
- * those that appear in the current data file.
- * Tracks all nations regardless of strength
+ * Record an event for each aid offer that one aid import ended (see loadAidOffers).
+ * Returns the number of events created. Never throws: a failure here shouldn't fail the import.
  */
-export async function processInactiveNations(): Promise<void> {
+export async function detectAidOfferEvents(offers: EndedAidOffer[]): Promise<number> {
   try {
-    // Find all nations that are inactive (not in current data file)
-    // Note: isActive = false means the nation is not present in the current data file
-    const inactiveNations = await prisma.nation.findMany({
-      where: {
-        isActive: false,
-      },
-      include: {
-        alliance: true,
-      },
-    });
-
-    // Process inactive events in parallel batches to improve performance
-    const batchSize = 50;
-    for (let i = 0; i < inactiveNations.length; i += batchSize) {
-      const batch = inactiveNations.slice(i, i + batchSize);
-      await Promise.all(batch.map(nation => detectNationInactiveEvent(nation.id)));
+    const events = buildAidOfferEvents(offers, importNow());
+    for (let i = 0; i < events.length; i += EVENT_BATCH_SIZE) {
+      await prisma.event.createMany({ data: events.slice(i, i + EVENT_BATCH_SIZE) });
     }
+    return events.length;
   } catch (error: any) {
-    console.error('Error processing inactive nations for events:', error.message);
-    // Don't throw - event processing failure shouldn't break the import
+    console.error('Error creating aid offer events:', error.message);
+    return 0;
   }
 }
 
+/**
+ * Record the war events for a batch of war changes, from a war import (see loadWars) or a
+ * dynamic war. Returns the number of events created. Never throws: a failure here shouldn't
+ * fail the import.
+ */
+export async function detectWarEvents(changes: WarChange[], source: WarEventSource): Promise<number> {
+  try {
+    const events = buildWarEvents(changes, source, importNow());
+    for (let i = 0; i < events.length; i += EVENT_BATCH_SIZE) {
+      await prisma.event.createMany({ data: events.slice(i, i + EVENT_BATCH_SIZE) });
+    }
+    return events.length;
+  } catch (error: any) {
+    console.error('Error creating war events:', error.message);
+    return 0;
+  }
+}
@@ -1,5 +1,6 @@
 import { prisma } from '../utils/prisma.js';
 import { FileType } from '../utils/dataDownloader.js';
+import { currentGameServer } from '../utils/gameServer.js';
 
 export interface FileDownloadRecord {
   fileType: string;
@@ -8,12 +9,21 @@ export interface FileDownloadRecord {
   downloadTime: Date;
 }
 
+/**
+ * Tracker row for a file type on the current server: SE rows are keyed by the file type alone,
+ * other servers' rows are prefixed (e.g. TE:Nation_Stats)
+ */
+function trackerKey(fileType: FileType | string): string {
+  const server = currentGameServer();
+  return server === 'SE' ? fileType : `${server}:${fileType}`;
+}
+
 /**
  * Get file download record for a specific file type
  */
 export async function getFileDownload(fileType: FileType): Promise<FileDownloadRecord | null> {
   const record = await prisma.fileDownload.findUnique({
-    where: { fileType }
+    where: { fileType: trackerKey(fileType) }
   });
 
   if (!record) {
@@ -21,7 +31,7 @@ export async function getFileDownload(fileType: FileType): Promise<FileDownloadR
   }
 
   return {
-    fileType: record.fileType,
+    fileType,
     originalFile: record.originalFile,
     timestamp: record.timestamp,
     downloadTime: record.downloadTime
@@ -29,15 +39,17 @@ export async function getFileDownload(fileType: FileType): Promise<FileDownloadR
 }
 
 /**
- * Get all file download records
+ * Get all file download records for the current server, keyed by file type
  */
 export async function getAllFileDownloads(): Promise<Record<string, FileDownloadRecord>> {
   const records = await prisma.fileDownload.findMany();
   
   const result: Record<string, FileDownloadRecord> = {};
   for (const record of records) {
-    result[record.fileType] = {
-      fileType: record.fileType,
+    const fileType = Object.values(FileType).find((type) => trackerKey(type) === record.fileType);
+    if (!fileType) continue;
+    result[fileType] = {
+      fileType,
       originalFile: record.originalFile,
       timestamp: record.timestamp,
       downloadTime: record.downloadTime
@@ -55,15 +67,16 @@ export async function upsertFileDownload(
   originalFile: string,
   timestamp: number = Date.now()
 ): Promise<FileDownloadRecord> {
+  const key = trackerKey(fileType);
   const record = await prisma.fileDownload.upsert({
-    where: { fileType },
+    where: { fileType: key },
     update: {
       originalFile,
       timestamp: BigInt(timestamp),
       downloadTime: new Date()
     },
     create: {
-      fileType,
+      fileType: key,
       originalFile,
       timestamp: BigInt(timestamp),
       downloadTime: new Date()
@@ -71,7 +84,7 @@ export async function upsertFileDownload(
   });
 
   return {
-    fileType: record.fileType,
+    fileType,
     originalFile: record.originalFile,
     timestamp: record.timestamp,
     downloadTime: record.downloadTime
@@ -0,0 +1,210 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { prisma } from '../utils/prisma.js';
+import { currentGameServer, parseGameServer, runOnGameServer } from '../utils/gameServer.js';
+import { validateCsvContent, type CsvValidationResult } from './csvValidation.js';
+import { beginSyncRun, finishSyncRun, type SyncRunFile } from './syncRunService.js';
+
+/** How many recent sync runs to search for the previous row count of a file type */
+const PREVIOUS_RUN_LOOKBACK = 20;
+
+export interface CsvFileCheck {
+  validation: CsvValidationResult;
+  /** Set when the file was rejected and stored for review */
+  quarantineId: number | null;
+}
+
+/**
+ * Rows imported for a file type by the current server's most recent sync run that actually imported it
+ */
+export async function getPreviousRowCount(fileType: string): Promise<number | null> {
+  const runs = await prisma.syncRun.findMany({
+    where: { status: { in: ['success', 'partial'] }, gameServer: currentGameServer() },
+    orderBy: { startedAt: 'desc' },
+    take: PREVIOUS_RUN_LOOKBACK,
+    select: { files: true },
+  });
+
+  for (const run of runs) {
+    const file = (run.files as unknown as SyncRunFile[]).find(
+      (f) => f.fileType === fileType && f.success && !f.skipped && typeof f.rows === 'number'
+    );
+    if (file) return file.rows as number;
+  }
+  return null;
+}
+
+/**
+ * Validate an extracted data file before import. A file that fails validation is
+ * stored in the quarantine table so an admin can review it and import it anyway.
+ */
+export async function checkCsvFile(
+  fileType: string,
+  filePath: string,
+  options: { syncRunId?: number | null; filename?: string | null } = {}
+): Promise<CsvFileCheck> {
+  const content = fs.readFileSync(filePath, 'utf-8');
+
+  let previousRows: number | null = null;
+  try {
+    previousRows = await getPreviousRowCount(fileType);
+  } catch (error) {
+    console.warn(`[Import Safeguard] Could not look up previous row count for ${fileType}:`, error);
+  }
+
+  const validation = validateCsvContent(fileType, content, previousRows);
+  if (validation.valid) {
+    return { validation, quarantineId: null };
+  }
+
+  console.warn(`[Import Safeguard] Rejected ${fileType} (${validation.rows} rows): ${validation.issues.join('; ')}`);
+
+  try {
+    const contentHash = createHash('sha256').update(content).digest('hex');
+    // The same bad file is often seen again by the next sync before anyone reviews it
+    const existing = await prisma.importQuarantine.findFirst({
+      where: { fileType, gameServer: currentGameServer(), contentHash, status: 'quarantined' },
+      select: { id: true },
+    });
+    if (existing) {
+      return { validation, quarantineId: existing.id };
+    }
+
+    const record = await prisma.importQuarantine.create({
+      data: {
+        syncRunId: options.syncRunId ?? null,
+        fileType,
+        gameServer: currentGameServer(),
+        filename: options.filename ?? null,
+        contentHash,
+        content,
+        rows: validation.rows,
+        previousRows: validation.previousRows,
+        issues: validation.issues,
+      },
+      select: { id: true },
+    });
+    return { validation, quarantineId: record.id };
+  } catch (error) {
+    console.error(`[Import Safeguard] Failed to quarantine ${fileType}:`, error);
+    return { validation, quarantineId: null };
+  }
+}
+
+/**
+ * Error message recorded for a rejected file
+ */
+export function describeRejection(check: CsvFileCheck): string {
+  const reference = check.quarantineId !== null ? ` (quarantine #${check.quarantineId})` : '';
+  return `Rejected by import validation${reference}: ${check.validation.issues.join('; ')}`;
+}
+
+/**
+ * Quarantined files, newest first, without their contents
+ */
+export async function listQuarantinedImports(status?: string) {
+  const records = await prisma.importQuarantine.findMany({
+    where: status ? { status } : undefined,
+    orderBy: { createdAt: 'desc' },
+    take: 100,
+    select: {
+      id: true,
+      syncRunId: true,
+      fileType: true,
+      gameServer: true,
+      filename: true,
+      rows: true,
+      previousRows: true,
+      issues: true,
+      status: true,
+      resolvedByUserId: true,
+      resolvedAt: true,
+      createdAt: true,
+    },
+  });
+
+  return records.map((record) => ({
+    ...record,
+    issues: record.issues as unknown as string[],
+    resolvedAt: record.resolvedAt?.toISOString() ?? null,
+    createdAt: record.createdAt.toISOString(),
+  }));
+}
+
+async function getPendingQuarantine(id: number) {
+  const record = await prisma.importQuarantine.findUnique({ where: { id } });
+  if (!record) {
+    throw new Error('Quarantined import not found');
+  }
+  if (record.status !== 'quarantined') {
+    throw new Error(`Quarantined import was already ${record.status}`);
+  }
+  return record;
+}
+
+/**
+ * Admin override: import a quarantined file without validation, recorded as its own sync run
+ * on the server the file came from
+ */
+export async function importQuarantinedFile(id: number, userId: number): Promise<SyncRunFile> {
+  const record = await getPendingQuarantine(id);
+  return runOnGameServer(parseGameServer(record.gameServer), () => importQuarantinedRecord(record, userId));
+}
+
+async function importQuarantinedRecord(
+  record: Awaited<ReturnType<typeof getPendingQuarantine>>,
+  userId: number
+): Promise<SyncRunFile> {
+  const { importCsvFile } = await import('./csvImportService.js');
+
+  const tempPath = path.join(os.tmpdir(), `quarantine-${record.id}-${Date.now()}.csv`);
+  fs.writeFileSync(tempPath, record.content, 'utf-8');
+
+  const syncRun = await beginSyncRun('admin-override', true);
+  try {
+    const startTime = Date.now();
+    const { imported, updated } = await importCsvFile(record.fileType, tempPath);
+    const result: SyncRunFile = {
+      fileType: record.fileType,
+      filename: record.filename,
+      success: true,
+      rows: record.rows,
+      imported,
+      updated,
+      durationMs: Date.now() - startTime,
+      quarantineId: record.id,
+    };
+    await finishSyncRun(syncRun, [result]);
+
+    await prisma.importQuarantine.update({
+      where: { id: record.id },
+      data: { status: 'imported', resolvedByUserId: userId, resolvedAt: new Date() },
+    });
+    return result;
+  } catch (error) {
+    await finishSyncRun(syncRun, [{
+      fileType: record.fileType,
+      filename: record.filename,
+      success: false,
+      quarantineId: record.id,
+      error: error instanceof Error ? error.message : String(error),
+    }]);
+    throw error;
+  } finally {
+    fs.rmSync(tempPath, { force: true });
+  }
+}
+
+/**
+ * Dismiss a quarantined file without importing it
+ */
+export async function discardQuarantinedFile(id: number, userId: number): Promise<void> {
+  const record = await getPendingQuarantine(id);
+  await prisma.importQuarantine.update({
+    where: { id: record.id },
+    // The contents are only kept so the file can still be imported
+    data: { status: 'discarded', content: '', resolvedByUserId: userId, resolvedAt: new Date() },
+  });
+}
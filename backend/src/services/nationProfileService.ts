@@ -0,0 +1,395 @@
+import { prisma } from '../utils/prisma.js';
+import { hasCapability } from './authService.js';
+import { calculateAidDateInfo, calculateWarDateInfo, isWarExpired, parseCentralTimeDate } from '../utils/dateUtils.js';
+import { WarAssignmentService, WarAssignmentDto } from './warAssignmentService.js';
+import { getWarchestSubmissions } from './warchestSubmissionService.js';
+
+const RECENT_EVENTS_LIMIT = 25;
+const EXPIRED_AID_OFFERS_LIMIT = 30;
+const WARCHEST_SUBMISSIONS_LIMIT = 20;
+
+export interface NationProfileAidOffer {
+  aidId: number;
+  direction: 'sent' | 'received';
+  otherNation: {
+    id: number;
+    rulerName: string;
+    nationName: string;
+    allianceId: number;
+    allianceName: string;
+  };
+  status: string;
+  money: number;
+  technology: number;
+  soldiers: number;
+  date: string;
+  reason: string;
+  expirationDate: string;
+  daysUntilExpiration: number;
+}
+
+export interface NationProfileWar {
+  warId: number;
+  direction: 'offensive' | 'defensive';
+  opponent: {
+    id: number;
+    rulerName: string;
+    nationName: string;
+    allianceId: number;
+    allianceName: string;
+  };
+  status: string;
+  date: string;
+  endDate: string;
+  formattedEndDate: string;
+  daysUntilExpiration: number;
+  destruction: string | null;
+  attackPercent: number | null;
+  defendPercent: number | null;
+}
+
+export interface NationProfileWarchestSubmission {
+  id: number;
+  nationId: number | null;
+  nationName: string;
+  totalMoney: number;
+  armyXP: number | null;
+  navyXP: number | null;
+  airForceXP: number | null;
+  intelligenceXP: number | null;
+  hasAssignedGenerals: boolean;
+  assignedGenerals: string | null;
+  killedGenerals: string | null;
+  capturedAt: Date;
+  createdAt: Date;
+  nation: {
+    id: number;
+    nationName: string;
+    rulerName: string;
+    alliance: { id: number; name: string };
+  } | null;
+}
+
+export interface NationProfileViewer {
+  /** Logged-in user asking for the profile, if any */
+  userId?: number | null;
+  /** The viewer has verified this nation is theirs, so they see the assignments it attacks in */
+  ownsNation?: boolean;
+}
+
+export interface NationProfile {
+  nation: {
+    id: number;
+    rulerName: string;
+    nationName: string;
+    allianceId: number;
+    allianceName: string;
+    team: string;
+    strength: number;
+    activity: string;
+    technology: string;
+    infrastructure: string;
+    land: string;
+    nuclearWeapons: number;
+    governmentType: string;
+    inWarMode: boolean;
+    defcon: number | null;
+    warchest: number | null;
+    rank: number | null;
+    attackingCasualties: number | null;
+    defensiveCasualties: number | null;
+    isActive: boolean;
+    firstSeenAt: string;
+    lastSeenAt: string;
+  };
+  config: {
+    hasDra: boolean;
+    discordHandle: string | null;
+    notes: string | null;
+    sendTechSlots: number;
+    sendCashSlots: number;
+    getTechSlots: number;
+    getCashSlots: number;
+    externalSlots: number;
+    sendPriority: number;
+    receivePriority: number;
+  } | null;
+  aidOffers: {
+    active: NationProfileAidOffer[];
+    expired: NationProfileAidOffer[];
+  };
+  wars: NationProfileWar[];
+  /** Null for anonymous viewers; otherwise only assignments the viewer may see */
+  warAssignments: WarAssignmentDto[] | null;
+  warchestSubmissions: NationProfileWarchestSubmission[];
+  recentEvents: Array<{
+    id: number;
+    type: string;
+    eventType: string;
+    description: string;
+    metadata: unknown;
+    createdAt: string;
+  }>;
+  casualties: {
+    rank: number | null;
+    totalCasualties: number;
+  };
+}
+
+const sortByCentralDateDesc = <T extends { date: string }>(items: T[]): T[] => {
+  const toMs = (value: string): number => {
+    try {
+      return parseCentralTimeDate(value).getTime();
+    } catch {
+      return 0;
+    }
+  };
+  return [...items].sort((a, b) => toMs(b.date) - toMs(a.date));
+};
+
+/**
+ * Global rank by total casualties among active nations (1 = most casualties).
+ * Null when the nation has no casualties at all.
+ */
+async function getCasualtyRank(totalCasualties: number): Promise<number | null> {
+  if (totalCasualties <= 0) {
+    return null;
+  }
+  const rows = await prisma.$queryRaw<Array<{ ahead: bigint | number }>>`
+    SELECT COUNT(*) AS ahead
+    FROM nations
+    WHERE is_active = true
+      AND COALESCE(attacking_casualties, 0) + COALESCE(defensive_casualties, 0) > ${totalCasualties}
+  `;
+  return Number(rows[0]?.ahead ?? 0) + 1;
+}
+
+/**
+ * War assignments the viewer may see: those made by alliances they can manage war assignments
+ * for, plus the ones their own nation attacks in
+ */
+async function visibleAssignments(
+  nationId: number,
+  viewer: NationProfileViewer
+): Promise<WarAssignmentDto[] | null> {
+  if (!viewer.userId) {
+    return null;
+  }
+  const userId = viewer.userId;
+  const assignments = await WarAssignmentService.listActiveAssignmentsForNation(nationId);
+
+  const canManage = new Map<number, Promise<boolean>>();
+  const canManageAlliance = (allianceId: number) => {
+    if (!canManage.has(allianceId)) {
+      canManage.set(allianceId, hasCapability(userId, 'manage_war_assignments', { allianceId }));
+    }
+    return canManage.get(allianceId)!;
+  };
+
+  const visible: WarAssignmentDto[] = [];
+  for (const assignment of assignments) {
+    const ownAttack = viewer.ownsNation && assignment.attackerNation.id === nationId;
+    if (ownAttack || (await canManageAlliance(assignment.attackerNation.allianceId))) {
+      visible.push(assignment);
+    }
+  }
+  return visible;
+}
+
+/**
+ * Aggregate everything we know about one nation: current stats, config, aid, wars,
+ * war assignments, warchest submissions, recent events and casualty rank.
+ * NationConfig (slots, notes, Discord handle) is only included for viewers who can manage the
+ * nation's alliance, and war assignments only as far as the viewer may see them.
+ * Returns null if the nation does not exist.
+ */
+export async function getNationProfile(
+  nationId: number,
+  viewer: NationProfileViewer = {}
+): Promise<NationProfile | null> {
+  const nation = await prisma.nation.findUnique({
+    where: { id: nationId },
+    include: { alliance: true, nationConfig: true },
+  });
+
+  if (!nation) {
+    return null;
+  }
+
+  const nationSummary = { include: { alliance: true } } as const;
+
+  const [aidOfferRecords, warRecords, warAssignments, warchest, events] = await Promise.all([
+    prisma.aidOffer.findMany({
+      where: {
+        OR: [
+          { declaringNationId: nationId },
+          { receivingNationId: nationId },
+        ],
+      },
+      include: {
+        declaringNation: nationSummary,
+        receivingNation: nationSummary,
+      },
+    }),
+    prisma.war.findMany({
+      where: {
+        isActive: true,
+        status: { notIn: ['Ended', 'Peace'] },
+        OR: [
+          { declaringNationId: nationId },
+          { receivingNationId: nationId },
+        ],
+      },
+      include: {
+        declaringNation: nationSummary,
+        receivingNation: nationSummary,
+      },
+    }),
+    visibleAssignments(nationId, viewer),
+    getWarchestSubmissions({ nationId, limit: WARCHEST_SUBMISSIONS_LIMIT }),
+    prisma.event.findMany({
+      where: { nationId },
+      orderBy: { createdAt: 'desc' },
+      take: RECENT_EVENTS_LIMIT,
+    }),
+  ]);
+
+  const activeAid: NationProfileAidOffer[] = [];
+  const expiredAid: NationProfileAidOffer[] = [];
+  for (const offer of aidOfferRecords) {
+    const isSender = offer.declaringNationId === nationId;
+    const other = isSender ? offer.receivingNation : offer.declaringNation;
+    let dateInfo;
+    try {
+      dateInfo = calculateAidDateInfo(offer.date);
+    } catch {
+      dateInfo = { expirationDate: '', daysUntilExpiration: 0, isExpired: true };
+    }
+    const mapped: NationProfileAidOffer = {
+      aidId: offer.aidId,
+      direction: isSender ? 'sent' : 'received',
+      otherNation: {
+        id: other.id,
+        rulerName: other.rulerName,
+        nationName: other.nationName,
+        allianceId: other.allianceId,
+        allianceName: other.alliance.name,
+      },
+      status: offer.status,
+      money: offer.money,
+      technology: offer.technology,
+      soldiers: offer.soldiers,
+      date: offer.date,
+      reason: offer.reason,
+      expirationDate: dateInfo.expirationDate,
+      daysUntilExpiration: dateInfo.daysUntilExpiration,
+    };
+    const isStatusExpired = offer.status === 'Expired' || offer.status === 'Cancelled';
+    if (offer.isActive && !isStatusExpired && !dateInfo.isExpired) {
+      activeAid.push(mapped);
+    } else {
+      expiredAid.push(mapped);
+    }
+  }
+
+  const wars: NationProfileWar[] = warRecords
+    .filter((war) => {
+      try {
+        return !isWarExpired(war.endDate);
+      } catch {
+        return false;
+      }
+    })
+    .map((war) => {
+      const isAttacker = war.declaringNationId === nationId;
+      const opponent = isAttacker ? war.receivingNation : war.declaringNation;
+      const dateInfo = calculateWarDateInfo(war.endDate);
+      return {
+        warId: war.warId,
+        direction: isAttacker ? 'offensive' : 'defensive',
+        opponent: {
+          id: opponent.id,
+          rulerName: opponent.rulerName,
+          nationName: opponent.nationName,
+          allianceId: opponent.allianceId,
+          allianceName: opponent.alliance.name,
+        },
+        status: war.status,
+        date: war.date,
+        endDate: war.endDate,
+        formattedEndDate: dateInfo.formattedEndDate,
+        daysUntilExpiration: dateInfo.daysUntilExpiration,
+        destruction: war.destruction,
+        attackPercent: war.attackPercent,
+        defendPercent: war.defendPercent,
+      };
+    });
+
+  const totalCasualties = (nation.attackingCasualties ?? 0) + (nation.defensiveCasualties ?? 0);
+  const casualtyRank = await getCasualtyRank(totalCasualties);
+
+  const includeConfig = viewer.userId
+    ? await hasCapability(viewer.userId, 'manage_alliance', { allianceId: nation.allianceId })
+    : false;
+  const config = includeConfig ? nation.nationConfig : null;
+
+  return {
+    nation: {
+      id: nation.id,
+      rulerName: nation.rulerName,
+      nationName: nation.nationName,
+      allianceId: nation.allianceId,
+      allianceName: nation.alliance.name,
+      team: nation.team,
+      strength: nation.strength,
+      activity: nation.activity,
+      technology: nation.technology,
+      infrastructure: nation.infrastructure,
+      land: nation.land,
+      nuclearWeapons: nation.nuclearWeapons,
+      governmentType: nation.governmentType,
+      inWarMode: nation.inWarMode,
+      defcon: nation.defcon,
+      warchest: nation.warchest,
+      rank: nation.rank,
+      attackingCasualties: nation.attackingCasualties,
+      defensiveCasualties: nation.defensiveCasualties,
+      isActive: nation.isActive,
+      firstSeenAt: nation.firstSeenAt.toISOString(),
+      lastSeenAt: nation.lastSeenAt.toISOString(),
+    },
+    config: config
+      ? {
+          hasDra: config.hasDra,
+          discordHandle: config.discordHandle,
+          notes: config.notes,
+          sendTechSlots: config.sendTechSlots,
+          sendCashSlots: config.sendCashSlots,
+          getTechSlots: config.getTechSlots,
+          getCashSlots: config.getCashSlots,
+          externalSlots: config.externalSlots,
+          sendPriority: config.sendPriority,
+          receivePriority: config.receivePriority,
+        }
+      : null,
+    aidOffers: {
+      active: sortByCentralDateDesc(activeAid),
+      expired: sortByCentralDateDesc(expiredAid).slice(0, EXPIRED_AID_OFFERS_LIMIT),
+    },
+    wars,
+    warAssignments,
+    warchestSubmissions: warchest.submissions,
+    recentEvents: events.map((event) => ({
+      id: event.id,
+      type: event.type,
+      eventType: event.eventType,
+      description: event.description,
+      metadata: event.metadata,
+      createdAt: event.createdAt.toISOString(),
+    })),
+    casualties: {
+      rank: casualtyRank,
+      totalCasualties,
+    },
+  };
+}
@@ -0,0 +1,216 @@
+import { prisma } from '../utils/prisma.js';
+import { parseNationStatField } from './eventService.js';
+
+/**
+ * Stat fields captured on every nation snapshot (and selectable via the history API)
+ */
+export const NATION_SNAPSHOT_FIELDS = [
+  'strength',
+  'technology',
+  'infrastructure',
+  'land',
+  'nuclearWeapons',
+  'defcon',
+  'warchest',
+] as const;
+
+export type NationSnapshotField = (typeof NATION_SNAPSHOT_FIELDS)[number];
+
+/**
+ * Raw nation stats as they come out of the CSV import (tech/infra/land are still strings there)
+ */
+export interface NationSnapshotInput {
+  nationId: number;
+  strength: number;
+  technology: string;
+  infrastructure: string;
+  land: string;
+  nuclearWeapons: number;
+  defcon: number | null;
+  warchest: number | null;
+}
+
+type SnapshotValues = Record<NationSnapshotField, number | null>;
+
+export interface NationHistoryPoint {
+  snapshotAt: string;
+  values: Partial<SnapshotValues>;
+}
+
+export interface NationHistoryResult {
+  nationId: number;
+  fields: NationSnapshotField[];
+  from: string | null;
+  to: string | null;
+  points: NationHistoryPoint[];
+}
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Parse an optional ISO date query parameter. Returns null for an invalid value.
+ * With `endOfDay`, a date without a time means the last moment of that (UTC) day, so a `to`
+ * bound includes snapshots taken later that day.
+ */
+export function parseHistoryDate(value: unknown, endOfDay: boolean = false): Date | undefined | null {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const text = String(value);
+  const date = new Date(text);
+  if (isNaN(date.getTime())) {
+    return null;
+  }
+  if (endOfDay && DATE_ONLY.test(text)) {
+    date.setUTCHours(23, 59, 59, 999);
+  }
+  return date;
+}
+
+function toSnapshotValues(input: NationSnapshotInput): SnapshotValues {
+  return {
+    strength: input.strength,
+    technology: parseNationStatField(input.technology),
+    infrastructure: parseNationStatField(input.infrastructure),
+    land: parseNationStatField(input.land),
+    nuclearWeapons: input.nuclearWeapons,
+    defcon: input.defcon,
+    warchest: input.warchest,
+  };
+}
+
+/**
+ * True when any captured stat differs from the previous snapshot (floats compared with a small tolerance)
+ */
+function hasSnapshotChanged(previous: SnapshotValues, next: SnapshotValues): boolean {
+  return NATION_SNAPSHOT_FIELDS.some((field) => {
+    const before = previous[field];
+    const after = next[field];
+    if (before === null || after === null) {
+      return before !== after;
+    }
+    return Math.abs(before - after) > 0.005;
+  });
+}
+
+/**
+ * Record a snapshot for every nation whose stats changed since its latest snapshot.
+ * Nations without any prior snapshot always get one. Returns the number of snapshots written.
+ */
+export async function recordNationSnapshots(
+  inputs: NationSnapshotInput[],
+  snapshotAt: Date = new Date()
+): Promise<number> {
+  if (inputs.length === 0) {
+    return 0;
+  }
+
+  const nationIds = inputs.map((n) => n.nationId);
+  const latestRows = await prisma.$queryRaw<Array<{
+    nationId: number;
+    strength: number;
+    technology: number;
+    infrastructure: number;
+    land: number;
+    nuclearWeapons: number;
+    defcon: number | null;
+    warchest: number | null;
+  }>>`
+    SELECT DISTINCT ON (nation_id)
+      nation_id AS "nationId",
+      strength,
+      technology,
+      infrastructure,
+      land,
+      nuclear_weapons AS "nuclearWeapons",
+      defcon,
+      warchest
+    FROM nation_snapshots
+    WHERE nation_id = ANY(${nationIds}::int[])
+    ORDER BY nation_id, snapshot_at DESC
+  `;
+
+  const latestByNationId = new Map<number, SnapshotValues>(
+    latestRows.map((row) => [
+      Number(row.nationId),
+      {
+        strength: row.strength,
+        technology: row.technology,
+        infrastructure: row.infrastructure,
+        land: row.land,
+        nuclearWeapons: Number(row.nuclearWeapons),
+        defcon: row.defcon,
+        warchest: row.warchest,
+      },
+    ])
+  );
+
+  const toCreate = [];
+  for (const input of inputs) {
+    const values = toSnapshotValues(input);
+    const previous = latestByNationId.get(input.nationId);
+    if (previous && !hasSnapshotChanged(previous, values)) {
+      continue;
+    }
+    toCreate.push({
+      nationId: input.nationId,
+      snapshotAt,
+      strength: values.strength ?? 0,
+      technology: values.technology ?? 0,
+      infrastructure: values.infrastructure ?? 0,
+      land: values.land ?? 0,
+      nuclearWeapons: values.nuclearWeapons ?? 0,
+      defcon: values.defcon,
+      warchest: values.warchest,
+    });
+  }
+
+  const batchSize = 1000;
+  for (let i = 0; i < toCreate.length; i += batchSize) {
+    await prisma.nationSnapshot.createMany({
+      data: toCreate.slice(i, i + batchSize),
+    });
+  }
+
+  return toCreate.length;
+}
+
+/**
+ * Get the snapshot time series for a nation, oldest first.
+ * `fields` limits which stats are returned (defaults to all of NATION_SNAPSHOT_FIELDS).
+ */
+export async function getNationHistory(
+  nationId: number,
+  options: { from?: Date; to?: Date; fields?: NationSnapshotField[] } = {}
+): Promise<NationHistoryResult> {
+  const fields = options.fields && options.fields.length > 0 ? options.fields : [...NATION_SNAPSHOT_FIELDS];
+
+  const snapshotAt: { gte?: Date; lte?: Date } = {};
+  if (options.from) snapshotAt.gte = options.from;
+  if (options.to) snapshotAt.lte = options.to;
+
+  const snapshots = await prisma.nationSnapshot.findMany({
+    where: {
+      nationId,
+      ...(options.from || options.to ? { snapshotAt } : {}),
+    },
+    orderBy: { snapshotAt: 'asc' },
+  });
+
+  return {
+    nationId,
+    fields,
+    from: options.from ? options.from.toISOString() : null,
+    to: options.to ? options.to.toISOString() : null,
+    points: snapshots.map((snapshot) => {
+      const values: Partial<SnapshotValues> = {};
+      for (const field of fields) {
+        values[field] = snapshot[field];
+      }
+      return {
+        snapshotAt: snapshot.snapshotAt.toISOString(),
+        values,
+      };
+    }),
+  };
+}
@@ -0,0 +1,498 @@
+import { prisma } from '../utils/prisma.js';
+import { AID_EVENT_TYPES, NATION_EVENT_TYPES, STATS_EVENT_TYPES, WAR_EVENT_TYPES } from './eventService.js';
+
+/**
+ * Event types a notification subscription can listen to
+ */
+export const NOTIFIABLE_EVENT_TYPES: string[] = [
+  ...Object.values(NATION_EVENT_TYPES),
+  ...Object.values(STATS_EVENT_TYPES),
+  ...Object.values(AID_EVENT_TYPES),
+  ...Object.values(WAR_EVENT_TYPES),
+];
+
+const EVENT_TYPE_LABELS: Record<string, string> = {
+  [NATION_EVENT_TYPES.NEW_NATION]: 'New nation',
+  [NATION_EVENT_TYPES.NATION_INACTIVE]: 'Nation inactive',
+  [NATION_EVENT_TYPES.ALLIANCE_CHANGE]: 'Alliance change',
+  [NATION_EVENT_TYPES.WAR_MODE_CHANGE]: 'War mode change',
+  [NATION_EVENT_TYPES.DEFCON_CHANGE]: 'DEFCON change',
+  [NATION_EVENT_TYPES.POSSIBLE_DONATION]: 'Possible donation',
+  [STATS_EVENT_TYPES.CASUALTY_RANKING_ENTERED]: 'Entered casualty ranking',
+  [STATS_EVENT_TYPES.CASUALTY_RANKING_EXITED]: 'Left casualty ranking',
+  [STATS_EVENT_TYPES.CASUALTY_RANKING_CHANGED]: 'Casualty ranking change',
+  [AID_EVENT_TYPES.AID_OFFER_CANCELLED]: 'Aid offer cancelled',
+  [AID_EVENT_TYPES.AID_OFFER_RENEGED]: 'Aid offer reneged',
+  [AID_EVENT_TYPES.AID_OFFER_EXPIRED]: 'Aid offer expired',
+  [WAR_EVENT_TYPES.WAR_DECLARED]: 'War declared',
+  [WAR_EVENT_TYPES.WAR_PEACE]: 'War ended in peace',
+  [WAR_EVENT_TYPES.WAR_EXPIRED]: 'War expired',
+};
+
+const EVENT_TYPE_COLORS: Record<string, number> = {
+  [NATION_EVENT_TYPES.NEW_NATION]: 0x2ecc71,
+  [NATION_EVENT_TYPES.NATION_INACTIVE]: 0x95a5a6,
+  [NATION_EVENT_TYPES.ALLIANCE_CHANGE]: 0x3498db,
+  [NATION_EVENT_TYPES.WAR_MODE_CHANGE]: 0xe74c3c,
+  [NATION_EVENT_TYPES.DEFCON_CHANGE]: 0xe67e22,
+  [NATION_EVENT_TYPES.POSSIBLE_DONATION]: 0xf1c40f,
+  [AID_EVENT_TYPES.AID_OFFER_CANCELLED]: 0xe67e22,
+  [AID_EVENT_TYPES.AID_OFFER_RENEGED]: 0xc0392b,
+  [WAR_EVENT_TYPES.WAR_DECLARED]: 0x992d22,
+  [WAR_EVENT_TYPES.WAR_PEACE]: 0x1abc9c,
+  [WAR_EVENT_TYPES.WAR_EXPIRED]: 0x7f8c8d,
+};
+
+// Discord allows at most 10 embeds per webhook message
+const EMBEDS_PER_MESSAGE = 10;
+// Upper bound of new events read per subscription per dispatch
+const EVENTS_PER_DISPATCH = 500;
+export const MAX_DELIVERY_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+
+export interface NotificationEvent {
+  id: number;
+  eventType: string;
+  allianceId: number | null;
+  description: string;
+  metadata: unknown;
+  createdAt: Date;
+  nation: { strength: number } | null;
+}
+
+export interface SubscriptionFilter {
+  allianceId: number;
+  eventTypes: string[];
+  targetAllianceIds: number[];
+  minStrength: number | null;
+}
+
+export interface SubscriptionInput {
+  name: string;
+  webhookUrl: string;
+  eventTypes: string[];
+  targetAllianceIds?: number[];
+  minStrength?: number | null;
+  isActive?: boolean;
+}
+
+// A type rather than an interface so it can be stored as JSON
+export type DiscordWebhookPayload = {
+  username: string;
+  content?: string;
+  embeds: Array<{
+    title: string;
+    description: string;
+    color?: number;
+    timestamp: string;
+  }>;
+};
+
+/**
+ * Whether a stored delivery payload has the shape buildDiscordPayload produces
+ */
+export function isDiscordWebhookPayload(value: unknown): value is DiscordWebhookPayload {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const payload = value as Record<string, unknown>;
+  return typeof payload.username === 'string'
+    && (payload.content === undefined || typeof payload.content === 'string')
+    && Array.isArray(payload.embeds)
+    && payload.embeds.every((embed: unknown) => {
+      const e = (embed ?? {}) as Record<string, unknown>;
+      return typeof e.title === 'string'
+        && typeof e.description === 'string'
+        && (e.color === undefined || typeof e.color === 'number')
+        && typeof e.timestamp === 'string';
+    });
+}
+
+export interface WebhookResult {
+  ok: boolean;
+  status: number | null;
+  error?: string;
+}
+
+/**
+ * Whether an event should be sent for a subscription.
+ * Alliance changes match when either the old or the new alliance is watched.
+ */
+export function eventMatchesSubscription(event: NotificationEvent, subscription: SubscriptionFilter): boolean {
+  if (!subscription.eventTypes.includes(event.eventType)) {
+    return false;
+  }
+
+  const watched = subscription.targetAllianceIds.length > 0
+    ? subscription.targetAllianceIds
+    : [subscription.allianceId];
+  const metadata = (event.metadata ?? {}) as Record<string, unknown>;
+  // Alliance changes involve both alliances, as do aid and war events (declaring on the event, receiving in metadata)
+  const involvedAllianceIds = [event.allianceId, metadata.oldAllianceId, metadata.newAllianceId, metadata.receivingAllianceId]
+    .filter((id): id is number => typeof id === 'number');
+  if (!involvedAllianceIds.some(id => watched.includes(id))) {
+    return false;
+  }
+
+  if (subscription.minStrength != null) {
+    const strength = event.nation?.strength ?? (typeof metadata.strength === 'number' ? metadata.strength : null);
+    if (strength == null || strength < subscription.minStrength) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Format events as a Discord webhook message (one embed per event)
+ */
+export function buildDiscordPayload(subscriptionName: string, events: NotificationEvent[]): DiscordWebhookPayload {
+  return {
+    username: 'CyberNations Tools',
+    content: `**${subscriptionName}**: ${events.length} new event${events.length === 1 ? '' : 's'}`,
+    embeds: events.slice(0, EMBEDS_PER_MESSAGE).map(event => ({
+      title: EVENT_TYPE_LABELS[event.eventType] ?? event.eventType,
+      description: event.description,
+      color: EVENT_TYPE_COLORS[event.eventType],
+      timestamp: event.createdAt.toISOString(),
+    })),
+  };
+}
+
+/**
+ * POST a payload to a Discord webhook. Never throws; failures are reported in the result.
+ */
+export async function postDiscordWebhook(url: string, payload: DiscordWebhookPayload): Promise<WebhookResult> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+      signal: controller.signal,
+    });
+    if (response.ok) {
+      return { ok: true, status: response.status };
+    }
+    const body = await response.text().catch(() => '');
+    return {
+      ok: false,
+      status: response.status,
+      error: `Webhook responded with ${response.status}${body ? `: ${body.slice(0, 500)}` : ''}`,
+    };
+  } catch (error: any) {
+    return {
+      ok: false,
+      status: null,
+      error: error?.name === 'AbortError' ? 'Webhook request timed out' : (error?.message || String(error)),
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * Delay before the next attempt: 1, 2, 4, 8... minutes
+ */
+export function getRetryDelayMs(attempts: number): number {
+  return RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1));
+}
+
+/**
+ * Send one delivery and record the outcome. Deliveries that keep failing are
+ * marked 'failed' after MAX_DELIVERY_ATTEMPTS, otherwise they stay 'pending' until nextAttemptAt.
+ */
+async function attemptDelivery(deliveryId: number): Promise<boolean> {
+  const delivery = await prisma.notificationDelivery.findUnique({
+    where: { id: deliveryId },
+    include: { subscription: true },
+  });
+  if (!delivery || delivery.status === 'delivered') {
+    return false;
+  }
+
+  const attempts = delivery.attempts + 1;
+  // Retrying won't fix a payload Discord can't read
+  if (!isDiscordWebhookPayload(delivery.payload)) {
+    await prisma.notificationDelivery.update({
+      where: { id: deliveryId },
+      data: {
+        status: 'failed',
+        attempts,
+        responseStatus: null,
+        lastError: 'Stored payload is not a Discord webhook message',
+        nextAttemptAt: null,
+      },
+    });
+    console.warn(`[Notifications] Delivery ${deliveryId} has an invalid payload`);
+    return false;
+  }
+
+  const result = await postDiscordWebhook(delivery.subscription.webhookUrl, delivery.payload);
+
+  if (result.ok) {
+    await prisma.notificationDelivery.update({
+      where: { id: deliveryId },
+      data: {
+        status: 'delivered',
+        attempts,
+        responseStatus: result.status,
+        lastError: null,
+        nextAttemptAt: null,
+        deliveredAt: new Date(),
+      },
+    });
+    return true;
+  }
+
+  const givenUp = attempts >= MAX_DELIVERY_ATTEMPTS;
+  await prisma.notificationDelivery.update({
+    where: { id: deliveryId },
+    data: {
+      status: givenUp ? 'failed' : 'pending',
+      attempts,
+      responseStatus: result.status,
+      lastError: result.error ?? null,
+      nextAttemptAt: givenUp ? null : new Date(Date.now() + getRetryDelayMs(attempts)),
+    },
+  });
+  console.warn(`[Notifications] Delivery ${deliveryId} failed (attempt ${attempts}): ${result.error}`);
+  return false;
+}
+
+/**
+ * Queue and send notifications for events created since the subscription last ran
+ */
+async function dispatchSubscription(subscription: {
+  id: number;
+  name: string;
+  allianceId: number;
+  eventTypes: string[];
+  targetAllianceIds: number[];
+  minStrength: number | null;
+  lastEventId: number;
+}): Promise<{ events: number; deliveries: number }> {
+  const events = await prisma.event.findMany({
+    where: {
+      id: { gt: subscription.lastEventId },
+      eventType: { in: subscription.eventTypes },
+    },
+    include: { nation: { select: { strength: true } } },
+    orderBy: { id: 'asc' },
+    take: EVENTS_PER_DISPATCH,
+  });
+
+  if (events.length === 0) {
+    return { events: 0, deliveries: 0 };
+  }
+
+  const matching = events.filter(event => eventMatchesSubscription(event, subscription));
+  const deliveryIds: number[] = [];
+  for (let i = 0; i < matching.length; i += EMBEDS_PER_MESSAGE) {
+    const chunk = matching.slice(i, i + EMBEDS_PER_MESSAGE);
+    const delivery = await prisma.notificationDelivery.create({
+      data: {
+        subscriptionId: subscription.id,
+        eventIds: chunk.map(event => event.id),
+        payload: buildDiscordPayload(subscription.name, chunk),
+      },
+    });
+    deliveryIds.push(delivery.id);
+  }
+
+  // Advance the cursor before sending so a crash mid-send never re-queues the same events
+  await prisma.notificationSubscription.update({
+    where: { id: subscription.id },
+    data: { lastEventId: events[events.length - 1].id },
+  });
+
+  for (const deliveryId of deliveryIds) {
+    await attemptDelivery(deliveryId);
+  }
+
+  return { events: matching.length, deliveries: deliveryIds.length };
+}
+
+/**
+ * Retry pending deliveries whose next attempt is due, all at once so slow webhooks
+ * don't add up
+ */
+export async function retryDueDeliveries(): Promise<number> {
+  const due = await prisma.notificationDelivery.findMany({
+    where: {
+      status: 'pending',
+      attempts: { gt: 0 },
+      nextAttemptAt: { lte: new Date() },
+    },
+    select: { id: true },
+    orderBy: { id: 'asc' },
+  });
+  const results = await Promise.allSettled(due.map(delivery => attemptDelivery(delivery.id)));
+  let delivered = 0;
+  results.forEach((result, i) => {
+    if (result.status === 'rejected') {
+      console.error(`[Notifications] Error retrying delivery ${due[i].id}:`, result.reason?.message || String(result.reason));
+    } else if (result.value) {
+      delivered++;
+    }
+  });
+  return delivered;
+}
+
+/**
+ * Run after each sync: retry due deliveries, then post new events for every active subscription.
+ * Subscriptions are dispatched in parallel (each posts its own messages in order), so a slow
+ * webhook only holds up its own messages instead of every subscription after it.
+ * Errors are logged per subscription and never thrown, so notifications can't break a sync.
+ */
+export async function dispatchNotifications(): Promise<void> {
+  try {
+    const retried = await retryDueDeliveries();
+    if (retried > 0) {
+      console.log(`[Notifications] Retried and delivered ${retried} pending notification(s)`);
+    }
+
+    const subscriptions = await prisma.notificationSubscription.findMany({
+      where: { isActive: true },
+    });
+    await Promise.all(subscriptions.map(async subscription => {
+      try {
+        const { events, deliveries } = await dispatchSubscription(subscription);
+        if (deliveries > 0) {
+          console.log(`[Notifications] Subscription ${subscription.id} (${subscription.name}): ${events} event(s) in ${deliveries} message(s)`);
+        }
+      } catch (error: any) {
+        console.error(`[Notifications] Error dispatching subscription ${subscription.id}:`, error?.message || String(error));
+      }
+    }));
+  } catch (error: any) {
+    console.error('[Notifications] Error dispatching notifications:', error?.message || String(error));
+  }
+}
+
+/**
+ * Get all notification subscriptions owned by an alliance
+ */
+export async function getSubscriptions(allianceId: number) {
+  return prisma.notificationSubscription.findMany({
+    where: { allianceId },
+    orderBy: { createdAt: 'asc' },
+  });
+}
+
+/**
+ * Create a subscription. It starts from the latest existing event so old history isn't replayed.
+ */
+export async function createSubscription(allianceId: number, input: SubscriptionInput) {
+  const latestEvent = await prisma.event.findFirst({
+    orderBy: { id: 'desc' },
+    select: { id: true },
+  });
+  return prisma.notificationSubscription.create({
+    data: {
+      allianceId,
+      name: input.name,
+      webhookUrl: input.webhookUrl,
+      eventTypes: input.eventTypes,
+      targetAllianceIds: input.targetAllianceIds ?? [],
+      minStrength: input.minStrength ?? null,
+      isActive: input.isActive ?? true,
+      lastEventId: latestEvent?.id ?? 0,
+    },
+  });
+}
+
+/**
+ * Update a subscription. Returns null if it doesn't belong to the alliance.
+ */
+export async function updateSubscription(
+  allianceId: number,
+  subscriptionId: number,
+  input: Partial<SubscriptionInput>
+) {
+  const existing = await prisma.notificationSubscription.findFirst({
+    where: { id: subscriptionId, allianceId },
+  });
+  if (!existing) {
+    return null;
+  }
+  return prisma.notificationSubscription.update({
+    where: { id: subscriptionId },
+    data: {
+      ...(input.name !== undefined && { name: input.name }),
+      ...(input.webhookUrl !== undefined && { webhookUrl: input.webhookUrl }),
+      ...(input.eventTypes !== undefined && { eventTypes: input.eventTypes }),
+      ...(input.targetAllianceIds !== undefined && { targetAllianceIds: input.targetAllianceIds }),
+      ...(input.minStrength !== undefined && { minStrength: input.minStrength }),
+      ...(input.isActive !== undefined && { isActive: input.isActive }),
+    },
+  });
+}
+
+/**
+ * Delete a subscription and its delivery log. Returns false if it doesn't belong to the alliance.
+ */
+export async function deleteSubscription(allianceId: number, subscriptionId: number): Promise<boolean> {
+  const result = await prisma.notificationSubscription.deleteMany({
+    where: { id: subscriptionId, allianceId },
+  });
+  return result.count > 0;
+}
+
+/**
+ * Get the most recent deliveries for an alliance's subscriptions
+ */
+export async function getDeliveries(allianceId: number, options: { subscriptionId?: number; limit?: number } = {}) {
+  return prisma.notificationDelivery.findMany({
+    where: {
+      subscription: { allianceId },
+      ...(options.subscriptionId !== undefined && { subscriptionId: options.subscriptionId }),
+    },
+    include: { subscription: { select: { id: true, name: true } } },
+    orderBy: { createdAt: 'desc' },
+    take: options.limit ?? 100,
+  });
+}
+
+/**
+ * Retry a single delivery right away (manual retry from the UI, also for deliveries that gave up).
+ * Returns null if the delivery doesn't belong to the alliance.
+ */
+export async function retryDelivery(allianceId: number, deliveryId: number) {
+  const delivery = await prisma.notificationDelivery.findFirst({
+    where: { id: deliveryId, subscription: { allianceId } },
+  });
+  if (!delivery) {
+    return null;
+  }
+  if (delivery.status === 'failed') {
+    // Give a manually retried delivery one more automatic retry cycle
+    await prisma.notificationDelivery.update({
+      where: { id: deliveryId },
+      data: { status: 'pending', attempts: MAX_DELIVERY_ATTEMPTS - 1 },
+    });
+  }
+  await attemptDelivery(deliveryId);
+  return prisma.notificationDelivery.findUnique({ where: { id: deliveryId } });
+}
+
+/**
+ * Post a test message to a subscription's webhook without touching the delivery log.
+ * Returns null if the subscription doesn't belong to the alliance.
+ */
+export async function sendTestNotification(allianceId: number, subscriptionId: number): Promise<WebhookResult | null> {
+  const subscription = await prisma.notificationSubscription.findFirst({
+    where: { id: subscriptionId, allianceId },
+  });
+  if (!subscription) {
+    return null;
+  }
+  return postDiscordWebhook(subscription.webhookUrl, {
+    username: 'CyberNations Tools',
+    content: `Test notification for **${subscription.name}**. Event types: ${subscription.eventTypes.join(', ') || 'none'}`,
+    embeds: [],
+  });
+}
@@ -1,5 +1,7 @@
 import { parseCentralTimeDate } from '../utils/dateUtils.js';
+import { currentGameServer, toStoredId } from '../utils/gameServer.js';
 import { prisma } from '../utils/prisma.js';
+import { findNationIdByName } from './battleReportService.js';
 
 export interface NuclearReportInput {
   AttackingNation: string | number;
@@ -11,6 +13,8 @@ export interface NuclearReportInput {
 export interface NuclearHitRecord {
   attackingNation: string;
   defendingNation: string;
+  attackingNationId?: number | null; // resolved nation, null while unmatched
+  defendingNationId?: number | null;
   result?: string;
   sentAt: string; // original sent date string from input
 }
@@ -50,6 +54,8 @@ export async function readNuclearHits(): Promise<NuclearHitStore> {
       store[hit.key] = {
         attackingNation: hit.attackingNation,
         defendingNation: hit.defendingNation,
+        attackingNationId: hit.attackingNationId,
+        defendingNationId: hit.defendingNationId,
         result: hit.result || undefined,
         sentAt: hit.sentAt,
       };
@@ -181,9 +187,32 @@ export async function writeNuclearHits(store: NuclearHitStore): Promise<boolean>
   }
 }
 
-export async function upsertNuclearReports(inputs: NuclearReportInput[]): Promise<{ added: number; skipped: number; addedKeys: string[] }> {
+/**
+ * Resolve a nation named in a nuclear report. Numbers are in-game nation ids on the current
+ * server; anything else is matched as a ruler or nation name.
+ */
+export async function resolveNuclearNation(value: string): Promise<number | null> {
+  if (/^\d+$/.test(value)) {
+    const nation = await prisma.nation.findUnique({
+      where: { id: toStoredId(parseInt(value, 10)) },
+      select: { id: true },
+    });
+    return nation?.id ?? null;
+  }
+  return findNationIdByName(value);
+}
+
+export interface NuclearIngestResult {
+  added: number;
+  skipped: number;
+  addedKeys: string[];
+  /** Added reports with an attacker or defender that matched no nation */
+  unmatched: number;
+}
+
+export async function upsertNuclearReports(inputs: NuclearReportInput[]): Promise<NuclearIngestResult> {
   if (!Array.isArray(inputs)) {
-    return { added: 0, skipped: 0, addedKeys: [] };
+    return { added: 0, skipped: 0, addedKeys: [], unmatched: 0 };
   }
 
   console.log(`[Nuclear Data] Processing ${inputs.length} nuclear report inputs`);
@@ -200,7 +229,7 @@ export async function upsertNuclearReports(inputs: NuclearReportInput[]): Promis
   }
 
   if (normalizedInputs.length === 0) {
-    return { added: 0, skipped: inputs.length, addedKeys: [] };
+    return { added: 0, skipped: inputs.length, addedKeys: [], unmatched: 0 };
   }
 
   // Only fetch records for the keys we're actually processing
@@ -216,17 +245,29 @@ export async function upsertNuclearReports(inputs: NuclearReportInput[]): Promis
 
   const existingKeys = new Set(existingHits.map(hit => hit.key));
 
+  const nationIds = new Map<string, number | null>();
+  const resolveNation = async (value: string) => {
+    const cacheKey = value.toLowerCase();
+    if (!nationIds.has(cacheKey)) {
+      nationIds.set(cacheKey, await resolveNuclearNation(value));
+    }
+    return nationIds.get(cacheKey)!;
+  };
+
   // Separate new records from duplicates
   const recordsToCreate: Array<{
     key: string;
     attackingNation: string;
     defendingNation: string;
+    attackingNationId: number | null;
+    defendingNationId: number | null;
     result: string | null;
     sentAt: string;
   }> = [];
 
   let added = 0;
   let skipped = 0;
+  let unmatched = 0;
   const addedKeys: string[] = [];
 
   for (const { key, record } of normalizedInputs) {
@@ -234,11 +275,17 @@ export async function upsertNuclearReports(inputs: NuclearReportInput[]): Promis
       skipped += 1;
       continue;
     }
-    
+
+    const attackingNationId = await resolveNation(record.attackingNation);
+    const defendingNationId = await resolveNation(record.defendingNation);
+    if (!attackingNationId || !defendingNationId) unmatched += 1;
+
     recordsToCreate.push({
       key,
       attackingNation: record.attackingNation,
       defendingNation: record.defendingNation,
+      attackingNationId,
+      defendingNationId,
       result: record.result || null,
       sentAt: record.sentAt,
     });
@@ -255,8 +302,126 @@ export async function upsertNuclearReports(inputs: NuclearReportInput[]): Promis
     console.log(`[Nuclear Data] Created ${recordsToCreate.length} new nuclear hit records`);
   }
 
-  console.log(`[Nuclear Data] Processed reports: ${added} added, ${skipped} skipped (duplicates or invalid)`);
-  return { added, skipped, addedKeys };
+  console.log(`[Nuclear Data] Processed reports: ${added} added, ${skipped} skipped (duplicates or invalid), ${unmatched} with unmatched nations`);
+  return { added, skipped, addedKeys, unmatched };
+}
+
+export interface UnmatchedNuclearName {
+  /** The attacker or defender as it appeared in the reports */
+  name: string;
+  asAttacker: number;
+  asDefender: number;
+}
+
+/**
+ * Attacker and defender names from stored reports that matched no nation, most reports first
+ */
+export async function getUnmatchedNuclearNames(): Promise<UnmatchedNuclearName[]> {
+  const [attackers, defenders] = await Promise.all([
+    prisma.nuclearHit.groupBy({
+      by: ['attackingNation'],
+      where: { attackingNationId: null },
+      _count: { _all: true },
+    }),
+    prisma.nuclearHit.groupBy({
+      by: ['defendingNation'],
+      where: { defendingNationId: null },
+      _count: { _all: true },
+    }),
+  ]);
+
+  const byName = new Map<string, UnmatchedNuclearName>();
+  const entryFor = (name: string) => {
+    if (!byName.has(name)) byName.set(name, { name, asAttacker: 0, asDefender: 0 });
+    return byName.get(name)!;
+  };
+  for (const row of attackers) entryFor(row.attackingNation).asAttacker = row._count._all;
+  for (const row of defenders) entryFor(row.defendingNation).asDefender = row._count._all;
+
+  return Array.from(byName.values())
+    .sort((a, b) => (b.asAttacker + b.asDefender) - (a.asAttacker + a.asDefender) || a.name.localeCompare(b.name));
+}
+
+/**
+ * Alliances involved in resolving a name: the nation it resolves to and the other side of
+ * each report that still uses the name
+ */
+async function unmatchedNameAllianceIds(name: string, nationId: number): Promise<number[]> {
+  const [nation, reports] = await Promise.all([
+    prisma.nation.findUnique({ where: { id: nationId }, select: { allianceId: true } }),
+    prisma.nuclearHit.findMany({
+      where: {
+        OR: [
+          { attackingNation: name, attackingNationId: null },
+          { defendingNation: name, defendingNationId: null },
+        ],
+      },
+      select: {
+        attacker: { select: { allianceId: true } },
+        defender: { select: { allianceId: true } },
+      },
+    }),
+  ]);
+  return [nation, ...reports.flatMap(report => [report.attacker, report.defender])]
+    .filter((n): n is { allianceId: number } => !!n)
+    .map(n => n.allianceId);
+}
+
+/**
+ * Attach an unmatched name to a nation on every report that uses it. Without a nation id the
+ * name is looked up again, for nations that appeared in a later export.
+ * With allianceIds (a war manager's alliances; null for everywhere), the nation or a nation
+ * on the other side of the reports has to be in one of them.
+ */
+export async function resolveUnmatchedNuclearName(
+  name: string,
+  nationId?: number,
+  allianceIds: number[] | null = null
+): Promise<{ nationId: number | null; updated: number }> {
+  let resolvedId: number | null;
+  if (nationId !== undefined) {
+    const nation = await prisma.nation.findUnique({ where: { id: nationId }, select: { id: true } });
+    if (!nation) {
+      throw new Error(`Nation ${nationId} not found`);
+    }
+    resolvedId = nation.id;
+  } else {
+    resolvedId = await resolveNuclearNation(name);
+  }
+  if (!resolvedId) {
+    return { nationId: null, updated: 0 };
+  }
+  if (allianceIds && !(await unmatchedNameAllianceIds(name, resolvedId)).some(id => allianceIds.includes(id))) {
+    throw new Error(`You can't resolve "${name}": none of its nations are in your war assignment alliances`);
+  }
+
+  const [attacking, defending] = await prisma.$transaction([
+    prisma.nuclearHit.updateMany({
+      where: { attackingNation: name, attackingNationId: null },
+      data: { attackingNationId: resolvedId },
+    }),
+    prisma.nuclearHit.updateMany({
+      where: { defendingNation: name, defendingNationId: null },
+      data: { defendingNationId: resolvedId },
+    }),
+  ]);
+
+  console.log(`[Nuclear Data] Resolved "${name}" to nation ${resolvedId} on ${attacking.count + defending.count} reports`);
+  return { nationId: resolvedId, updated: attacking.count + defending.count };
+}
+
+// Date key (YYYY-MM-DD) of a report's sent time in Central Time
+function sentAtDateKey(sentAt: string): string {
+  try {
+    const dt = parseCentralTimeDate(sentAt);
+    const y = dt.getFullYear();
+    const m = String(dt.getMonth() + 1).padStart(2, '0');
+    const d = String(dt.getDate()).padStart(2, '0');
+    return `${y}-${m}-${d}`;
+  } catch {
+    // Grouped together; unlikely for reports that passed normalizeReport
+    return 'invalid-date';
+  }
 }
 
 // Classify a result string into thwarted/hit/unknown
@@ -342,17 +507,7 @@ export async function computeNuclearAttemptDistribution(): Promise<NuclearAttemp
     // Now split into daily sequences (Central Time date of sentAt)
     const byDate: Record<string, { t: number; sentAt: string; result?: string }[]> = {};
     for (const ev of events) {
-      // Build date key in Central Time
-      let dateKey = 'invalid-date';
-      try {
-        const dt = parseCentralTimeDate(ev.sentAt);
-        const y = dt.getFullYear();
-        const m = String(dt.getMonth() + 1).padStart(2, '0');
-        const d2 = String(dt.getDate()).padStart(2, '0');
-        dateKey = `${y}-${m}-${d2}`;
-      } catch {
-        // keep invalid-date; will still group but unlikely
-      }
+      const dateKey = sentAtDateKey(ev.sentAt);
       if (!byDate[dateKey]) byDate[dateKey] = [];
       byDate[dateKey].push(ev);
     }
@@ -521,3 +676,246 @@ export async function computeNuclearTimeline(intervalMinutes: number = 5): Promi
     lastEvent: undefined
   };
 }
+
+export type SdiInference = 'likely' | 'possible' | 'unlikely' | 'unknown';
+
+// Thwarts against a defender before an SDI counts as likely; one thwart is only a hint
+const SDI_LIKELY_THWARTS = 2;
+// Nukes landed on a defender without a single thwart before an SDI counts as unlikely
+const SDI_UNLIKELY_LANDED = 3;
+
+/**
+ * Guess whether a defender has an SDI from the nukes sent at it: repeated thwarts point to
+ * one, a run of landed nukes with no thwart points away from one
+ */
+export function inferSdi(landed: number, thwarted: number): SdiInference {
+  if (thwarted >= SDI_LIKELY_THWARTS) return 'likely';
+  if (thwarted > 0) return 'possible';
+  if (landed >= SDI_UNLIKELY_LANDED) return 'unlikely';
+  return 'unknown';
+}
+
+export interface NuclearNationInfo {
+  id: number;
+  nationName: string;
+  rulerName: string;
+  allianceId: number;
+  allianceName: string;
+}
+
+export interface ResolvedNuclearHit {
+  attackingNationId: number | null;
+  defendingNationId: number | null;
+  result: string | null;
+  sentAt: string;
+}
+
+export interface NuclearNationStats extends NuclearNationInfo {
+  /** Nukes sent, including ones with an unknown result */
+  launched: number;
+  landed: number;
+  thwarted: number;
+  /** Landed share of nukes with a known result, null without any */
+  successRate: number | null;
+  received: number;
+  receivedLanded: number;
+  receivedThwarted: number;
+  receivedSuccessRate: number | null;
+  /** Most nukes this nation landed in one day */
+  maxLandedInDay: number;
+  /** Most nukes that landed on this nation in one day */
+  maxLandedOnInDay: number;
+  sdi: SdiInference;
+}
+
+export interface NuclearAllianceStats {
+  allianceId: number;
+  allianceName: string;
+  /** Nations with at least one report */
+  nations: number;
+  launched: number;
+  landed: number;
+  thwarted: number;
+  successRate: number | null;
+  received: number;
+  receivedLanded: number;
+  receivedThwarted: number;
+  receivedSuccessRate: number | null;
+  /** Nations of this alliance with a likely SDI */
+  likelySdi: number;
+}
+
+/**
+ * The most nukes seen for one nation in one (Central Time) day. The game limits how many nukes
+ * a nation can send and take per day, so these show the caps as they play out in the reports.
+ */
+export interface NuclearDailyCaps {
+  launchedPerAttacker: number;
+  landedPerAttacker: number;
+  landedPerDefender: number;
+}
+
+export interface NuclearSuccessStats {
+  nations: NuclearNationStats[];
+  alliances: NuclearAllianceStats[];
+  dailyCaps: NuclearDailyCaps;
+}
+
+const successRate = (landed: number, thwarted: number): number | null =>
+  landed + thwarted > 0 ? landed / (landed + thwarted) : null;
+
+/**
+ * Nuke success per nation and alliance from reports with resolved nations. Nations are counted
+ * in their current alliance.
+ */
+export function buildNuclearSuccessStats(
+  hits: ResolvedNuclearHit[],
+  nations: Map<number, NuclearNationInfo>
+): NuclearSuccessStats {
+  const stats = new Map<number, NuclearNationStats>();
+  const statsFor = (nationId: number | null): NuclearNationStats | null => {
+    const nation = nationId === null ? undefined : nations.get(nationId);
+    if (!nation) return null;
+    if (!stats.has(nation.id)) {
+      stats.set(nation.id, {
+        ...nation,
+        launched: 0,
+        landed: 0,
+        thwarted: 0,
+        successRate: null,
+        received: 0,
+        receivedLanded: 0,
+        receivedThwarted: 0,
+        receivedSuccessRate: null,
+        maxLandedInDay: 0,
+        maxLandedOnInDay: 0,
+        sdi: 'unknown',
+      });
+    }
+    return stats.get(nation.id)!;
+  };
+
+  // Counts per nation and day, keyed "nationId|date"
+  const launchedByDay = new Map<string, number>();
+  const landedByDay = new Map<string, number>();
+  const landedOnByDay = new Map<string, number>();
+  const bump = (counts: Map<string, number>, key: string) => {
+    const count = (counts.get(key) ?? 0) + 1;
+    counts.set(key, count);
+    return count;
+  };
+  const dailyCaps: NuclearDailyCaps = { launchedPerAttacker: 0, landedPerAttacker: 0, landedPerDefender: 0 };
+
+  for (const hit of hits) {
+    const cls = classifyResult(hit.result ?? undefined);
+    const date = sentAtDateKey(hit.sentAt);
+    const attacker = statsFor(hit.attackingNationId);
+    const defender = statsFor(hit.defendingNationId);
+
+    if (attacker) {
+      attacker.launched++;
+      dailyCaps.launchedPerAttacker = Math.max(dailyCaps.launchedPerAttacker, bump(launchedByDay, `${attacker.id}|${date}`));
+      if (cls === 'hit') {
+        attacker.landed++;
+        const landed = bump(landedByDay, `${attacker.id}|${date}`);
+        attacker.maxLandedInDay = Math.max(attacker.maxLandedInDay, landed);
+        dailyCaps.landedPerAttacker = Math.max(dailyCaps.landedPerAttacker, landed);
+      } else if (cls === 'thwarted') {
+        attacker.thwarted++;
+      }
+    }
+
+    if (defender) {
+      defender.received++;
+      if (cls === 'hit') {
+        defender.receivedLanded++;
+        const landed = bump(landedOnByDay, `${defender.id}|${date}`);
+        defender.maxLandedOnInDay = Math.max(defender.maxLandedOnInDay, landed);
+        dailyCaps.landedPerDefender = Math.max(dailyCaps.landedPerDefender, landed);
+      } else if (cls === 'thwarted') {
+        defender.receivedThwarted++;
+      }
+    }
+  }
+
+  const alliances = new Map<number, NuclearAllianceStats>();
+  for (const nation of stats.values()) {
+    nation.successRate = successRate(nation.landed, nation.thwarted);
+    nation.receivedSuccessRate = successRate(nation.receivedLanded, nation.receivedThwarted);
+    nation.sdi = inferSdi(nation.receivedLanded, nation.receivedThwarted);
+
+    if (!alliances.has(nation.allianceId)) {
+      alliances.set(nation.allianceId, {
+        allianceId: nation.allianceId,
+        allianceName: nation.allianceName,
+        nations: 0,
+        launched: 0,
+        landed: 0,
+        thwarted: 0,
+        successRate: null,
+        received: 0,
+        receivedLanded: 0,
+        receivedThwarted: 0,
+        receivedSuccessRate: null,
+        likelySdi: 0,
+      });
+    }
+    const alliance = alliances.get(nation.allianceId)!;
+    alliance.nations++;
+    alliance.launched += nation.launched;
+    alliance.landed += nation.landed;
+    alliance.thwarted += nation.thwarted;
+    alliance.received += nation.received;
+    alliance.receivedLanded += nation.receivedLanded;
+    alliance.receivedThwarted += nation.receivedThwarted;
+    if (nation.sdi === 'likely') alliance.likelySdi++;
+  }
+  for (const alliance of alliances.values()) {
+    alliance.successRate = successRate(alliance.landed, alliance.thwarted);
+    alliance.receivedSuccessRate = successRate(alliance.receivedLanded, alliance.receivedThwarted);
+  }
+
+  return {
+    nations: Array.from(stats.values()).sort((a, b) => b.launched - a.launched || b.received - a.received),
+    alliances: Array.from(alliances.values()).sort((a, b) => b.launched - a.launched || b.received - a.received),
+    dailyCaps,
+  };
+}
+
+/**
+ * Nuke success stats for nations on the current game server
+ */
+export async function computeNuclearSuccessStats(): Promise<NuclearSuccessStats> {
+  const gameServer = currentGameServer();
+  const nationSelect = {
+    select: { id: true, nationName: true, rulerName: true, allianceId: true, alliance: { select: { name: true } } },
+  };
+  const hits = await prisma.nuclearHit.findMany({
+    where: { OR: [{ attacker: { gameServer } }, { defender: { gameServer } }] },
+    select: {
+      attackingNationId: true,
+      defendingNationId: true,
+      result: true,
+      sentAt: true,
+      attacker: nationSelect,
+      defender: nationSelect,
+    },
+  });
+
+  const nations = new Map<number, NuclearNationInfo>();
+  for (const hit of hits) {
+    for (const nation of [hit.attacker, hit.defender]) {
+      if (nation && !nations.has(nation.id)) {
+        nations.set(nation.id, {
+          id: nation.id,
+          nationName: nation.nationName,
+          rulerName: nation.rulerName,
+          allianceId: nation.allianceId,
+          allianceName: nation.alliance.name,
+        });
+      }
+    }
+  }
+
+  return buildNuclearSuccessStats(hits, nations);
+}
@@ -94,8 +94,9 @@ export async function executePostProcessingQuery(sqlQuery: string): Promise<void
  * Execute post-processing SQL query if configured
  * This should be called after all data files for a day have been successfully processed
  * Reads the SQL query from prisma/post-processing.sql
+ * @param asOf - Run the query as if now() were this time (used when replaying archived files)
  */
-export async function executePostProcessingIfConfigured(): Promise<boolean> {
+export async function executePostProcessingIfConfigured(asOf?: Date): Promise<boolean> {
   const sqlQuery = getPostProcessingSqlQuery();
   
   if (!sqlQuery) {
@@ -104,7 +105,9 @@ export async function executePostProcessingIfConfigured(): Promise<boolean> {
   }
   
   try {
-    await executePostProcessingQuery(sqlQuery);
+    await executePostProcessingQuery(
+      asOf ? sqlQuery.replace(/\bnow\(\)/gi, `'${asOf.toISOString()}'::timestamptz`) : sqlQuery
+    );
     return true;
   } catch (error: any) {
     console.error('[Post-Processing] Failed to execute post-processing query:', error?.message || String(error));
@@ -0,0 +1,258 @@
+import crypto from 'crypto';
+import { prisma } from '../utils/prisma.js';
+import { toGameId } from '../utils/gameServer.js';
+import { findNationByRulerName } from './userDashboardService.js';
+
+export const DEFAULT_NATION_PAGE_URL = 'https://www.cybernations.net/nation_drill_display.asp';
+
+// How long a code can be used for before the user has to ask for a new one
+const CODE_TTL_MS = 48 * 60 * 60 * 1000;
+const NATION_PAGE_TIMEOUT_MS = 15000;
+const CODE_PREFIX = 'CNV-';
+
+export type RulerNameVerifiedBy = 'bio' | 'admin';
+
+export interface RulerNameVerification {
+  rulerName: string | null;
+  verified: boolean;
+  verifiedAt: Date | null;
+  verifiedBy: string | null;
+  /** The code waiting to be found, while it is still usable */
+  code: string | null;
+  codeExpiresAt: Date | null;
+}
+
+export type RulerNameCheckResult =
+  | { status: 'verified'; verification: RulerNameVerification }
+  | { status: 'code_not_found'; verification: RulerNameVerification }
+  | { status: 'page_unavailable'; error: string };
+
+/**
+ * User fields that reset a ruler name to an unverified claim. Applied whenever the name changes.
+ */
+export const UNVERIFIED_RULER_NAME = {
+  rulerNameVerificationCode: null,
+  rulerNameCodeIssuedAt: null,
+  rulerNameVerifiedAt: null,
+  rulerNameVerifiedBy: null,
+} as const;
+
+export const verificationSelect = {
+  rulerName: true,
+  rulerNameVerificationCode: true,
+  rulerNameCodeIssuedAt: true,
+  rulerNameVerifiedAt: true,
+  rulerNameVerifiedBy: true,
+} as const;
+
+type VerificationFields = {
+  rulerName: string | null;
+  rulerNameVerificationCode: string | null;
+  rulerNameCodeIssuedAt: Date | null;
+  rulerNameVerifiedAt: Date | null;
+  rulerNameVerifiedBy: string | null;
+};
+
+const codeExpiry = (issuedAt: Date) => new Date(issuedAt.getTime() + CODE_TTL_MS);
+
+export function toRulerNameVerification(user: VerificationFields, now: Date = new Date()): RulerNameVerification {
+  const expiresAt = user.rulerNameCodeIssuedAt ? codeExpiry(user.rulerNameCodeIssuedAt) : null;
+  const codeUsable = !!user.rulerNameVerificationCode && !!expiresAt && expiresAt > now && !user.rulerNameVerifiedAt;
+  return {
+    rulerName: user.rulerName,
+    verified: !!user.rulerName && !!user.rulerNameVerifiedAt,
+    verifiedAt: user.rulerNameVerifiedAt,
+    verifiedBy: user.rulerNameVerifiedBy,
+    code: codeUsable ? user.rulerNameVerificationCode : null,
+    codeExpiresAt: codeUsable ? expiresAt : null,
+  };
+}
+
+/**
+ * Whether a nation page contains the code. Bios are HTML, so tags and entity-encoded
+ * whitespace between the code and its surroundings are ignored, as is case.
+ */
+export function pageContainsCode(html: string, code: string): boolean {
+  const text = html
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/gi, ' ')
+    .toUpperCase();
+  return text.includes(code.toUpperCase());
+}
+
+export function nationPageUrl(nationId: number): string {
+  const base = process.env.NATION_PAGE_URL || DEFAULT_NATION_PAGE_URL;
+  return `${base}?Nation_ID=${toGameId(nationId)}`;
+}
+
+async function loadUser(userId: number): Promise<VerificationFields> {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: verificationSelect });
+  if (!user) {
+    throw new Error('User not found');
+  }
+  return user;
+}
+
+export async function getRulerNameVerification(userId: number): Promise<RulerNameVerification> {
+  return toRulerNameVerification(await loadUser(userId));
+}
+
+/**
+ * Issue a new one-time code for the user's current ruler name, replacing any earlier code
+ */
+export async function issueVerificationCode(userId: number): Promise<RulerNameVerification> {
+  const user = await loadUser(userId);
+  if (!user.rulerName) {
+    throw new Error('Set your ruler name before verifying it');
+  }
+  if (user.rulerNameVerifiedAt) {
+    throw new Error('Your ruler name is already verified');
+  }
+  if (!(await findNationByRulerName(user.rulerName))) {
+    throw new Error(`No active nation found for ruler name "${user.rulerName}"`);
+  }
+
+  const updated = await prisma.user.update({
+    where: { id: userId },
+    data: {
+      rulerNameVerificationCode: `${CODE_PREFIX}${crypto.randomBytes(4).toString('hex').toUpperCase()}`,
+      rulerNameCodeIssuedAt: new Date(),
+    },
+    select: verificationSelect,
+  });
+  return toRulerNameVerification(updated);
+}
+
+async function fetchNationPage(nationId: number): Promise<string> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), NATION_PAGE_TIMEOUT_MS);
+  try {
+    const response = await fetch(nationPageUrl(nationId), { signal: controller.signal });
+    if (!response.ok) {
+      throw new Error(`Nation page returned HTTP ${response.status}`);
+    }
+    return await response.text();
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * Look for the user's code on their nation's page. Finding it verifies the ruler name and
+ * uses up the code.
+ */
+export async function checkVerificationCode(userId: number): Promise<RulerNameCheckResult> {
+  const user = await loadUser(userId);
+  const verification = toRulerNameVerification(user);
+  if (verification.verified) {
+    return { status: 'verified', verification };
+  }
+  if (!user.rulerName || !verification.code) {
+    throw new Error('Get a verification code first (codes expire after 48 hours)');
+  }
+  const nation = await findNationByRulerName(user.rulerName);
+  if (!nation) {
+    throw new Error(`No active nation found for ruler name "${user.rulerName}"`);
+  }
+
+  let html: string;
+  try {
+    html = await fetchNationPage(nation.id);
+  } catch (error) {
+    console.error(`[RulerNameVerification] Could not load nation ${nation.id} for user ${userId}:`, error);
+    return { status: 'page_unavailable', error: "Couldn't load your nation page from the game site. Try again later." };
+  }
+  if (!pageContainsCode(html, verification.code)) {
+    return { status: 'code_not_found', verification };
+  }
+
+  return { status: 'verified', verification: await markVerified(userId, 'bio') };
+}
+
+/**
+ * Another account that has verified the same ruler name (case-insensitive), if any
+ */
+export async function findVerifiedRulerNameHolder(
+  rulerName: string,
+  exceptUserId: number,
+  client: Pick<typeof prisma, 'user'> = prisma
+): Promise<{ id: number } | null> {
+  return client.user.findFirst({
+    where: {
+      id: { not: exceptUserId },
+      rulerName: { equals: rulerName, mode: 'insensitive' },
+      rulerNameVerifiedAt: { not: null },
+    },
+    select: { id: true },
+  });
+}
+
+const ALREADY_VERIFIED_ERROR = 'Another account has already verified this ruler name';
+
+/**
+ * Verify the user's ruler name. Unverified claims of the same name by other accounts are only
+ * claims, so they are cleared rather than blocking the owner.
+ */
+async function markVerified(userId: number, verifiedBy: RulerNameVerifiedBy): Promise<RulerNameVerification> {
+  try {
+    const updated = await prisma.$transaction(async (tx) => {
+      const { rulerName } = await tx.user.findUniqueOrThrow({ where: { id: userId }, select: { rulerName: true } });
+      if (!rulerName) {
+        throw new Error('This user has no ruler name to verify');
+      }
+      if (await findVerifiedRulerNameHolder(rulerName, userId, tx)) {
+        throw new Error(ALREADY_VERIFIED_ERROR);
+      }
+      await tx.user.updateMany({
+        where: { id: { not: userId }, rulerName: { equals: rulerName, mode: 'insensitive' } },
+        data: { rulerName: null, ...UNVERIFIED_RULER_NAME },
+      });
+      return tx.user.update({
+        where: { id: userId },
+        data: {
+          rulerNameVerifiedAt: new Date(),
+          rulerNameVerifiedBy: verifiedBy,
+          rulerNameVerificationCode: null,
+          rulerNameCodeIssuedAt: null,
+        },
+        select: verificationSelect,
+      });
+    });
+    return toRulerNameVerification(updated);
+  } catch (error: any) {
+    // Someone else verified the name at the same moment
+    if (error.code === 'P2002') {
+      throw new Error(ALREADY_VERIFIED_ERROR);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Admin confirmation, e.g. after receiving the code by in-game message, or withdrawal of a
+ * verification
+ */
+export async function setRulerNameVerified(userId: number, verified: boolean): Promise<RulerNameVerification> {
+  // Throws 'User not found' rather than letting the update fail on an unknown id
+  await loadUser(userId);
+  if (verified) {
+    return markVerified(userId, 'admin');
+  }
+  const updated = await prisma.user.update({
+    where: { id: userId },
+    data: UNVERIFIED_RULER_NAME,
+    select: verificationSelect,
+  });
+  return toRulerNameVerification(updated);
+}
+
+/**
+ * The user's ruler name if it has been verified, looked up by user or Discord ID
+ */
+export async function getVerifiedRulerName(where: { id: number } | { discordId: string }): Promise<string | null> {
+  const user = await prisma.user.findUnique({
+    where,
+    select: { rulerName: true, rulerNameVerifiedAt: true },
+  });
+  return user?.rulerName && user.rulerNameVerifiedAt ? user.rulerName : null;
+}
@@ -1,6 +1,6 @@
-import { readFileSync, existsSync } from 'fs';
-import { join, dirname } from 'path';
-import { fileURLToPath } from 'url';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../utils/prisma.js';
+import { currentGameServer } from '../utils/gameServer.js';
 
 export interface SpyglassData {
   nationName: string;
@@ -11,115 +11,77 @@ export interface SpyglassData {
   daysOld: number;
 }
 
-/**
- * Get the path to the spyglass data file, trying multiple locations
- */
-function getSpyglassFilePath(): string {
-  const candidates: string[] = [];
-  
-  // 1) dist relative (when running compiled code)
-  try {
-    const __filename = fileURLToPath(import.meta.url);
-    const __dirname = dirname(__filename);
-    candidates.push(join(__dirname, '..', 'data', 'spyglass.txt')); // dist/services -> dist/data
-    candidates.push(join(__dirname, '..', '..', 'src', 'data', 'spyglass.txt')); // fallback to src from dist
-  } catch {}
-  
-  // 2) process cwd variants
-  candidates.push(join(process.cwd(), 'dist', 'data', 'spyglass.txt'));
-  candidates.push(join(process.cwd(), 'src', 'data', 'spyglass.txt'));
-  candidates.push(join(process.cwd(), 'data', 'spyglass.txt'));
-
-  for (const p of candidates) {
-    try {
-      if (existsSync(p)) return p;
-    } catch {}
-  }
-  
-  // Default to src path as fallback
-  return join(process.cwd(), 'src', 'data', 'spyglass.txt');
+export interface SpyglassUploadResult {
+  /** Nations in the export */
+  parsed: number;
+  /** Nations matched to a known nation by ruler and nation name */
+  matched: number;
+  /** New observations stored; readings already stored for that day are skipped */
+  recorded: number;
+  /** "Ruler / Nation" for entries that matched no nation */
+  unmatched: string[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function spyglassKey(ruler: string, nationName: string): string {
+  return `${ruler}|${nationName}`.toLowerCase();
 }
 
 /**
- * Parse the spyglass.txt file to extract warchest information
+ * Parse a spyglass export to extract warchest information, keyed by ruler and nation name
  */
-export function parseSpyglassData(filePath?: string): Map<string, SpyglassData> {
-  // Use provided path or auto-detect
-  const resolvedPath = filePath || getSpyglassFilePath();
-  
-  try {
-    // Check if file exists before trying to read
-    if (!existsSync(resolvedPath)) {
-      console.log(`Spyglass file not found at ${resolvedPath}, returning empty data`);
-      return new Map();
+export function parseSpyglassText(content: string): Map<string, SpyglassData> {
+  const lines = content.split('\n');
+  const spyglassMap = new Map<string, SpyglassData>();
+
+  let currentEntry: Partial<SpyglassData> = {};
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+
+    // Skip empty lines and the header
+    if (!line || line.startsWith('Spyglass Results')) {
+      continue;
     }
-    
-    const content = readFileSync(resolvedPath, 'utf-8');
-    const lines = content.split('\n');
-    const spyglassMap = new Map<string, SpyglassData>();
-    
-    let currentEntry: Partial<SpyglassData> = {};
-    
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim();
-      
-      // Skip empty lines and the header
-      if (!line || line.startsWith('Spyglass Results')) {
-        continue;
-      }
-      
-      // Check if this is a numbered entry (start of new nation)
-      const numberMatch = line.match(/^\d+\.\s+(.+)$/);
-      if (numberMatch) {
-        // Save previous entry if complete
-        if (currentEntry.nationName && currentEntry.ruler) {
-          const key = `${currentEntry.ruler}|${currentEntry.nationName}`.toLowerCase();
-          spyglassMap.set(key, currentEntry as SpyglassData);
-        }
-        
-        // Start new entry
-        currentEntry = {
-          nationName: numberMatch[1],
-        };
-      } else if (line.startsWith('Ruler:')) {
-        currentEntry.ruler = line.replace('Ruler:', '').trim();
-      } else if (line.startsWith('Alliance:')) {
-        currentEntry.alliance = line.replace('Alliance:', '').trim();
-      } else if (line.startsWith('Strength:')) {
-        const strengthStr = line.replace('Strength:', '').trim().replace(/,/g, '');
-        currentEntry.strength = parseFloat(strengthStr) || 0;
-      } else if (line.startsWith('Warchest:')) {
-        const warchestStr = line.replace('Warchest:', '').trim()
-          .replace(/\$/g, '')
-          .replace(/,/g, '')
-          .replace(/\.00$/, ''); // Remove trailing .00 if present
-        currentEntry.warchest = parseFloat(warchestStr) || 0;
-      } else if (line.startsWith('Last Updated:')) {
-        const daysMatch = line.match(/(\d+)\s+days?\s+old/);
-        currentEntry.daysOld = daysMatch ? parseInt(daysMatch[1]) : 0;
+
+    // Check if this is a numbered entry (start of new nation)
+    const numberMatch = line.match(/^\d+\.\s+(.+)$/);
+    if (numberMatch) {
+      // Save previous entry if complete
+      if (currentEntry.nationName && currentEntry.ruler) {
+        spyglassMap.set(spyglassKey(currentEntry.ruler, currentEntry.nationName), currentEntry as SpyglassData);
       }
+
+      // Start new entry
+      currentEntry = {
+        nationName: numberMatch[1],
+      };
+    } else if (line.startsWith('Ruler:')) {
+      currentEntry.ruler = line.replace('Ruler:', '').trim();
+    } else if (line.startsWith('Alliance:')) {
+      currentEntry.alliance = line.replace('Alliance:', '').trim();
+    } else if (line.startsWith('Strength:')) {
+      const strengthStr = line.replace('Strength:', '').trim().replace(/,/g, '');
+      currentEntry.strength = parseFloat(strengthStr) || 0;
+    } else if (line.startsWith('Warchest:')) {
+      const warchestStr = line.replace('Warchest:', '').trim()
+        .replace(/\$/g, '')
+        .replace(/,/g, '')
+        .replace(/\.00$/, ''); // Remove trailing .00 if present
+      currentEntry.warchest = parseFloat(warchestStr) || 0;
+    } else if (line.startsWith('Last Updated:')) {
+      const daysMatch = line.match(/(\d+)\s+days?\s+old/);
+      currentEntry.daysOld = daysMatch ? parseInt(daysMatch[1]) : 0;
     }
-    
-    // Save last entry if complete
-    if (currentEntry.nationName && currentEntry.ruler) {
-      const key = `${currentEntry.ruler}|${currentEntry.nationName}`.toLowerCase();
-      spyglassMap.set(key, currentEntry as SpyglassData);
-    }
-    
-    console.log(`Parsed ${spyglassMap.size} nations from spyglass data`);
-    return spyglassMap;
-  } catch (error) {
-    console.error('Error parsing spyglass data:', error);
-    return new Map();
   }
-}
 
-/**
- * Load spyglass data from the standard location
- */
-export function loadSpyglassData(): Map<string, SpyglassData> {
-  // Auto-detect the correct path
-  return parseSpyglassData();
+  // Save last entry if complete
+  if (currentEntry.nationName && currentEntry.ruler) {
+    spyglassMap.set(spyglassKey(currentEntry.ruler, currentEntry.nationName), currentEntry as SpyglassData);
+  }
+
+  return spyglassMap;
 }
 
 /**
@@ -130,7 +92,88 @@ export function getSpyglassDataForNation(
   ruler: string,
   nationName: string
 ): SpyglassData | undefined {
-  const key = `${ruler}|${nationName}`.toLowerCase();
-  return spyglassMap.get(key);
+  return spyglassMap.get(spyglassKey(ruler, nationName));
+}
+
+/**
+ * UTC day a reading was taken: the upload day minus its age. Readings only carry whole days,
+ * so a nation gets at most one observation per day.
+ */
+export function spyglassObservedAt(uploadedAt: Date, daysOld: number): Date {
+  const day = new Date(uploadedAt.getTime() - daysOld * DAY_MS);
+  return new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate()));
 }
 
+/**
+ * Store the warchest readings from a spyglass export as dated observations for nations on the
+ * current game server, then point each nation's warchest at its latest observation.
+ */
+export async function recordSpyglassUpload(
+  content: string,
+  uploadedAt: Date,
+  uploadedByUserId?: number
+): Promise<SpyglassUploadResult> {
+  const entries = Array.from(parseSpyglassText(content).values())
+    .filter(entry => typeof entry.warchest === 'number');
+
+  const nations = entries.length === 0 ? [] : await prisma.$queryRawUnsafe<Array<{ id: number; rulerName: string; nationName: string }>>(
+    `SELECT id, ruler_name AS "rulerName", nation_name AS "nationName"
+    FROM nations
+    WHERE game_server = $1 AND lower(nation_name) = ANY($2::text[])`,
+    currentGameServer(),
+    entries.map(entry => entry.nationName.toLowerCase())
+  );
+  const nationIdByKey = new Map(nations.map(n => [spyglassKey(n.rulerName, n.nationName), n.id]));
+
+  const observations: Prisma.WarchestObservationCreateManyInput[] = [];
+  const unmatched: string[] = [];
+  for (const entry of entries) {
+    const nationId = nationIdByKey.get(spyglassKey(entry.ruler, entry.nationName));
+    if (nationId === undefined) {
+      unmatched.push(`${entry.ruler} / ${entry.nationName}`);
+      continue;
+    }
+    const daysOld = entry.daysOld ?? 0;
+    observations.push({
+      nationId,
+      warchest: entry.warchest,
+      daysOld,
+      observedAt: spyglassObservedAt(uploadedAt, daysOld),
+      uploadedAt,
+      uploadedByUserId: uploadedByUserId ?? null,
+    });
+  }
+
+  let recorded = 0;
+  if (observations.length > 0) {
+    const nationIds = observations.map(o => o.nationId);
+    recorded = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.warchestObservation.createMany({ data: observations, skipDuplicates: true });
+
+      // The latest observation wins, whichever upload it came from; its age is as of this upload
+      await tx.$executeRawUnsafe(
+        `UPDATE nations n SET
+          warchest = o.warchest,
+          spyglass_last_updated = GREATEST(0, FLOOR(EXTRACT(EPOCH FROM ($2::timestamp - o.observed_at)) / 86400))::int
+        FROM (
+          SELECT DISTINCT ON (nation_id) nation_id, warchest, observed_at
+          FROM warchest_observations
+          WHERE nation_id = ANY($1::int[])
+          ORDER BY nation_id, observed_at DESC
+        ) o
+        WHERE n.id = o.nation_id`,
+        nationIds,
+        uploadedAt
+      );
+      return count;
+    });
+  }
+
+  console.log(`Spyglass upload: ${entries.length} nations, ${observations.length} matched, ${recorded} new observations`);
+  return {
+    parsed: entries.length,
+    matched: observations.length,
+    recorded,
+    unmatched,
+  };
+}
@@ -256,7 +256,7 @@ export class StaggerEligibilityService {
   /**
    * Get cached or query wars for nations in an alliance
    */
-  private static async getWarsForAlliance(
+  static async getWarsForAlliance(
     allianceId: number,
     nationIds: number[],
     prisma: any
@@ -0,0 +1,125 @@
+import { MAX_DEFENSIVE_WARS, MAX_OFFENSIVE_WARS } from './blitzPlanner.js';
+
+/** Days a declared war lasts before it expires */
+export const WAR_DURATION_DAYS = 7;
+
+export interface StaggerTarget {
+  id: number;
+  rulerName: string;
+  nationName: string;
+  strength: number;
+  /** Days until each current defensive war expires */
+  warDaysLeft: number[];
+  /** Attackers in range of this target */
+  eligibleAttackerIds: number[];
+}
+
+export interface StaggerAttacker {
+  id: number;
+  rulerName: string;
+  nationName: string;
+  strength: number;
+  nuclearWeapons: number;
+  /** Days until each current offensive war expires */
+  warDaysLeft: number[];
+}
+
+export interface StaggerWaveAssignment {
+  attackerId: number;
+  defenderId: number;
+  /** Day offset on which the new war expires */
+  expiresOnDay: number;
+}
+
+export interface StaggerWave {
+  dayOffset: number;
+  date: string;
+  assignments: StaggerWaveAssignment[];
+}
+
+export interface StaggerSchedule {
+  waves: StaggerWave[];
+  totalAssignments: number;
+  /** Targets that still have fewer than three wars by the end of the schedule */
+  unfilledTargetIds: number[];
+}
+
+/** Number of wars still running on the given day out of a list of expiry offsets */
+const activeOn = (expiries: number[], day: number) => expiries.filter(expiry => expiry > day).length;
+
+/**
+ * Plan wars over several days so every target's defensive wars expire on different days.
+ *
+ * Each day is one wave. A target gets at most one new war per wave, and only when a
+ * defensive slot is free that day and none of its wars (current or planned) already
+ * expires on the day the new war would. Attackers are limited by their free offensive
+ * slots on the day, are never sent at the same target twice, and are picked by nukes
+ * first (when the target has no nuclear attacker yet) then highest strength ratio.
+ *
+ * `dates` holds one label per day, day 0 first.
+ */
+export function scheduleStagger(
+  targets: StaggerTarget[],
+  attackers: StaggerAttacker[],
+  dates: string[]
+): StaggerSchedule {
+  const attackersById = new Map(attackers.map(attacker => [attacker.id, attacker]));
+  const attackerExpiries = new Map(attackers.map(attacker => [attacker.id, [...attacker.warDaysLeft]]));
+  const targetExpiries = new Map(targets.map(target => [target.id, [...target.warDaysLeft]]));
+  const targetAttackers = new Map(targets.map(target => [target.id, new Set<number>()]));
+  const targetHasNukes = new Map(targets.map(target => [target.id, false]));
+
+  // Strongest targets first: they have the fewest attackers in range
+  const ordered = [...targets].sort((a, b) => b.strength - a.strength);
+
+  const waves: StaggerWave[] = dates.map((date, day) => {
+    const assignments: StaggerWaveAssignment[] = [];
+    const expiresOnDay = day + WAR_DURATION_DAYS;
+
+    for (const target of ordered) {
+      const expiries = targetExpiries.get(target.id)!;
+      if (activeOn(expiries, day) >= MAX_DEFENSIVE_WARS) continue;
+      if (expiries.includes(expiresOnDay)) continue;
+
+      const used = targetAttackers.get(target.id)!;
+      const needsNukes = !targetHasNukes.get(target.id);
+      let bestId: number | null = null;
+      let bestScore = -Infinity;
+
+      for (const attackerId of target.eligibleAttackerIds) {
+        const attacker = attackersById.get(attackerId);
+        if (!attacker || used.has(attackerId)) continue;
+        if (activeOn(attackerExpiries.get(attackerId)!, day) >= MAX_OFFENSIVE_WARS) continue;
+        const hasNukes = attacker.nuclearWeapons > 0;
+        const score = (needsNukes && hasNukes ? 10 : 0) + attacker.strength / target.strength;
+        if (score > bestScore) {
+          bestScore = score;
+          bestId = attackerId;
+        }
+      }
+
+      if (bestId === null) continue;
+
+      expiries.push(expiresOnDay);
+      attackerExpiries.get(bestId)!.push(expiresOnDay);
+      used.add(bestId);
+      if (attackersById.get(bestId)!.nuclearWeapons > 0) {
+        targetHasNukes.set(target.id, true);
+      }
+      assignments.push({ attackerId: bestId, defenderId: target.id, expiresOnDay });
+    }
+
+    return { dayOffset: day, date, assignments };
+  });
+
+  const lastDay = dates.length - 1;
+  const unfilledTargetIds = ordered
+    .filter(target => activeOn(targetExpiries.get(target.id)!, lastDay) < MAX_DEFENSIVE_WARS)
+    .map(target => target.id);
+
+  return {
+    waves,
+    totalAssignments: waves.reduce((count, wave) => count + wave.assignments.length, 0),
+    unfilledTargetIds,
+  };
+}
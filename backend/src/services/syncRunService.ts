@@ -0,0 +1,342 @@
+import * as fs from 'fs';
+import { prisma } from '../utils/prisma.js';
+import { currentGameServer } from '../utils/gameServer.js';
+
+/**
+ * What happened to one file during a sync run
+ */
+export interface SyncRunFile {
+  fileType: string;
+  filename?: string | null;
+  success: boolean;
+  /** Data rows in the extracted CSV (header excluded) */
+  rows?: number | null;
+  imported?: number;
+  updated?: number;
+  /** True when the file was already current and nothing was imported */
+  skipped?: boolean;
+  durationMs?: number;
+  error?: string | null;
+  /** Set when import validation rejected the file */
+  quarantineId?: number | null;
+}
+
+interface SnapshotNation {
+  id: number;
+  nationName: string;
+  rulerName: string;
+  allianceId: number;
+  allianceName: string;
+}
+
+interface SnapshotWar {
+  warId: number;
+  declaringNationId: number;
+  receivingNationId: number;
+}
+
+interface SnapshotAidOffer {
+  aidId: number;
+  declaringNationId: number;
+  receivingNationId: number;
+  money: number;
+  technology: number;
+  soldiers: number;
+}
+
+/**
+ * Active nations, open wars and active aid offers at one point in time
+ */
+export interface SyncState {
+  nations: Map<number, SnapshotNation>;
+  wars: Map<number, SnapshotWar>;
+  aidOffers: Map<number, SnapshotAidOffer>;
+}
+
+interface DiffNation {
+  id: number;
+  nationName: string;
+  rulerName: string;
+  allianceName: string;
+}
+
+interface DiffWar {
+  warId: number;
+  declaringNationId: number;
+  declaringNation: string | null;
+  receivingNationId: number;
+  receivingNation: string | null;
+}
+
+interface DiffAidOffer extends DiffWar {
+  aidId: number;
+  money: number;
+  technology: number;
+  soldiers: number;
+}
+
+export interface SyncDiff {
+  newNations: DiffNation[];
+  inactiveNations: DiffNation[];
+  allianceSwitches: {
+    id: number;
+    nationName: string;
+    rulerName: string;
+    fromAllianceId: number;
+    fromAlliance: string;
+    toAllianceId: number;
+    toAlliance: string;
+  }[];
+  newWars: DiffWar[];
+  endedWars: DiffWar[];
+  newAidOffers: Omit<DiffAidOffer, 'warId'>[];
+  expiredAidOffers: Omit<DiffAidOffer, 'warId'>[];
+}
+
+const CLOSED_WAR_STATUSES = ['Ended', 'Peace', 'Expired'];
+
+/**
+ * Capture the state a sync of the current server can change, so it can be diffed once the imports finish
+ */
+export async function captureSyncState(): Promise<SyncState> {
+  const gameServer = currentGameServer();
+  const [nations, wars, aidOffers] = await Promise.all([
+    prisma.nation.findMany({
+      where: { isActive: true, gameServer },
+      select: {
+        id: true,
+        nationName: true,
+        rulerName: true,
+        allianceId: true,
+        alliance: { select: { name: true } },
+      },
+    }),
+    prisma.war.findMany({
+      where: { isActive: true, gameServer, status: { notIn: CLOSED_WAR_STATUSES } },
+      select: { warId: true, declaringNationId: true, receivingNationId: true },
+    }),
+    prisma.aidOffer.findMany({
+      where: { isActive: true, gameServer },
+      select: {
+        aidId: true,
+        declaringNationId: true,
+        receivingNationId: true,
+        money: true,
+        technology: true,
+        soldiers: true,
+      },
+    }),
+  ]);
+
+  return {
+    nations: new Map(nations.map((n) => [n.id, {
+      id: n.id,
+      nationName: n.nationName,
+      rulerName: n.rulerName,
+      allianceId: n.allianceId,
+      allianceName: n.alliance?.name ?? 'None',
+    }])),
+    wars: new Map(wars.map((w) => [w.warId, w])),
+    aidOffers: new Map(aidOffers.map((a) => [a.aidId, a])),
+  };
+}
+
+function added<T>(before: Map<number, T>, after: Map<number, T>): T[] {
+  return Array.from(after.entries()).filter(([id]) => !before.has(id)).map(([, value]) => value);
+}
+
+function removed<T>(before: Map<number, T>, after: Map<number, T>): T[] {
+  return added(after, before);
+}
+
+/**
+ * Compare the state before and after a sync
+ */
+export function computeSyncDiff(before: SyncState, after: SyncState): SyncDiff {
+  const nationName = (id: number) =>
+    (after.nations.get(id) ?? before.nations.get(id))?.nationName ?? null;
+  const toDiffNation = (n: SnapshotNation): DiffNation => ({
+    id: n.id,
+    nationName: n.nationName,
+    rulerName: n.rulerName,
+    allianceName: n.allianceName,
+  });
+  const toDiffWar = (w: SnapshotWar): DiffWar => ({
+    warId: w.warId,
+    declaringNationId: w.declaringNationId,
+    declaringNation: nationName(w.declaringNationId),
+    receivingNationId: w.receivingNationId,
+    receivingNation: nationName(w.receivingNationId),
+  });
+  const toDiffAid = (a: SnapshotAidOffer): Omit<DiffAidOffer, 'warId'> => ({
+    aidId: a.aidId,
+    declaringNationId: a.declaringNationId,
+    declaringNation: nationName(a.declaringNationId),
+    receivingNationId: a.receivingNationId,
+    receivingNation: nationName(a.receivingNationId),
+    money: a.money,
+    technology: a.technology,
+    soldiers: a.soldiers,
+  });
+
+  const allianceSwitches: SyncDiff['allianceSwitches'] = [];
+  for (const [id, current] of after.nations) {
+    const previous = before.nations.get(id);
+    if (previous && previous.allianceId !== current.allianceId) {
+      allianceSwitches.push({
+        id,
+        nationName: current.nationName,
+        rulerName: current.rulerName,
+        fromAllianceId: previous.allianceId,
+        fromAlliance: previous.allianceName,
+        toAllianceId: current.allianceId,
+        toAlliance: current.allianceName,
+      });
+    }
+  }
+
+  return {
+    newNations: added(before.nations, after.nations).map(toDiffNation),
+    inactiveNations: removed(before.nations, after.nations).map(toDiffNation),
+    allianceSwitches,
+    newWars: added(before.wars, after.wars).map(toDiffWar),
+    endedWars: removed(before.wars, after.wars).map(toDiffWar),
+    newAidOffers: added(before.aidOffers, after.aidOffers).map(toDiffAid),
+    expiredAidOffers: removed(before.aidOffers, after.aidOffers).map(toDiffAid),
+  };
+}
+
+/**
+ * Number of data rows in a CSV file (lines after the header)
+ */
+export function countCsvRows(filePath: string): number | null {
+  try {
+    const content = fs.readFileSync(filePath, 'utf-8');
+    const lines = content.split(/\r?\n/).filter((line) => line.trim().length > 0);
+    return Math.max(0, lines.length - 1);
+  } catch {
+    return null;
+  }
+}
+
+export interface ActiveSyncRun {
+  /** Null when the run could not be recorded */
+  id: number | null;
+  before: SyncState | null;
+}
+
+/**
+ * Record the start of a sync run on the current server and snapshot its state for the diff.
+ * Never throws: a failure to record must not fail the sync.
+ */
+export async function beginSyncRun(trigger: string, force: boolean): Promise<ActiveSyncRun> {
+  let id: number;
+  try {
+    id = (await prisma.syncRun.create({ data: { trigger, force, gameServer: currentGameServer() } })).id;
+  } catch (error) {
+    console.error('[SyncRun] Failed to start sync run record:', error);
+    return { id: null, before: null };
+  }
+
+  try {
+    return { id, before: await captureSyncState() };
+  } catch (error) {
+    console.warn(`[SyncRun] Could not snapshot state for run ${id}, it will have no diff:`, error);
+    return { id, before: null };
+  }
+}
+
+/**
+ * Record the outcome of a sync run. Never throws, like beginSyncRun.
+ */
+export async function finishSyncRun(
+  run: ActiveSyncRun,
+  files: SyncRunFile[],
+  errors: string[] = []
+): Promise<void> {
+  if (run.id === null) return;
+  try {
+    const fileErrors = files.filter((f) => !f.success);
+    const allErrors = [
+      ...errors,
+      ...fileErrors.map((f) => `${f.fileType}: ${f.error || 'failed'}`),
+    ];
+    const anySucceeded = files.some((f) => f.success);
+    const status = allErrors.length === 0
+      ? 'success'
+      : anySucceeded ? 'partial' : 'failed';
+
+    let diff: SyncDiff | null = null;
+    if (run.before && anySucceeded) {
+      diff = computeSyncDiff(run.before, await captureSyncState());
+    }
+
+    await prisma.syncRun.update({
+      where: { id: run.id },
+      data: {
+        status,
+        finishedAt: new Date(),
+        files: files as any,
+        errors: allErrors,
+        diff: diff ? (diff as any) : undefined,
+        imported: files.reduce((sum, f) => sum + (f.imported ?? 0), 0),
+        updated: files.reduce((sum, f) => sum + (f.updated ?? 0), 0),
+      },
+    });
+  } catch (error) {
+    console.error(`[SyncRun] Failed to record result of run ${run.id}:`, error);
+  }
+}
+
+/**
+ * Recent sync runs without their diffs, newest first
+ */
+export async function listSyncRuns(limit: number = 50) {
+  const runs = await prisma.syncRun.findMany({
+    orderBy: { startedAt: 'desc' },
+    take: limit,
+  });
+
+  return runs.map((run) => {
+    const diff = run.diff as SyncDiff | null;
+    return {
+      id: run.id,
+      gameServer: run.gameServer,
+      trigger: run.trigger,
+      status: run.status,
+      force: run.force,
+      startedAt: run.startedAt.toISOString(),
+      finishedAt: run.finishedAt?.toISOString() ?? null,
+      files: run.files as unknown as SyncRunFile[],
+      errors: run.errors as unknown as string[],
+      imported: run.imported,
+      updated: run.updated,
+      diffCounts: diff
+        ? Object.fromEntries(Object.entries(diff).map(([key, items]) => [key, items.length]))
+        : null,
+    };
+  });
+}
+
+/**
+ * A single sync run including its full diff
+ */
+export async function getSyncRun(id: number) {
+  const run = await prisma.syncRun.findUnique({ where: { id } });
+  if (!run) return null;
+
+  return {
+    id: run.id,
+    gameServer: run.gameServer,
+    trigger: run.trigger,
+    status: run.status,
+    force: run.force,
+    startedAt: run.startedAt.toISOString(),
+    finishedAt: run.finishedAt?.toISOString() ?? null,
+    files: run.files as unknown as SyncRunFile[],
+    errors: run.errors as unknown as string[],
+    imported: run.imported,
+    updated: run.updated,
+    diff: run.diff as SyncDiff | null,
+  };
+}
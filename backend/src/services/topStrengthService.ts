@@ -1,5 +1,6 @@
 import { prisma } from '../utils/prisma.js';
 import { warStatsCache } from '../utils/warStatsCache.js';
+import { currentGameServer } from '../utils/gameServer.js';
 
 export interface TopStrengthNationStat {
   rank: number;
@@ -35,7 +36,8 @@ export interface TopStrengthResponseData {
  */
 export async function getTopStrengthStats(limit: number = 250): Promise<TopStrengthResponseData> {
   const normalizedLimit = Number.isFinite(limit) && limit > 0 ? Math.min(Math.floor(limit), 1000) : 250;
-  const cacheKey = `${TOP_STRENGTH_CACHE_KEY}_${normalizedLimit}`;
+  const server = currentGameServer();
+  const cacheKey = `${TOP_STRENGTH_CACHE_KEY}_${server}_${normalizedLimit}`;
 
   const cached = warStatsCache.get<TopStrengthResponseData>(cacheKey);
   if (cached) {
@@ -45,6 +47,7 @@ export async function getTopStrengthStats(limit: number = 250): Promise<TopStren
   const nations = await prisma.nation.findMany({
     where: {
       isActive: true,
+      gameServer: server,
       strength: {
         gt: 0,
       },
@@ -0,0 +1,116 @@
+import { prisma } from '../utils/prisma.js';
+import { AidService } from './aidService.js';
+import { getNationProfile, NationProfile, NationProfileAidOffer, NationProfileWar } from './nationProfileService.js';
+import { WarAssignmentDto } from './warAssignmentService.js';
+
+// Active aid offers with this many days or fewer left are flagged as expiring
+const AID_EXPIRING_SOON_DAYS = 3;
+
+export interface UserDashboard {
+  rulerName: string;
+  /** Unverified ruler names only get the nation's public game data */
+  rulerNameVerified: boolean;
+  nation: NationProfile['nation'];
+  aidRecommendations: Array<{
+    direction: 'send' | 'receive';
+    type: string;
+    reason: string;
+    otherNation: { id: number; rulerName: string; nationName: string };
+  }>;
+  aidOffers: NationProfileAidOffer[];
+  expiringAidOffers: NationProfileAidOffer[];
+  wars: {
+    offensive: NationProfileWar[];
+    defensive: NationProfileWar[];
+  };
+  warAssignments: WarAssignmentDto[];
+  lastWarchestSubmission: any | null;
+}
+
+export type UserDashboardResult =
+  | { status: 'ok'; dashboard: UserDashboard }
+  | { status: 'no_ruler_name' }
+  | { status: 'nation_not_found'; rulerName: string };
+
+/**
+ * Find the active nation for a ruler name (case-insensitive)
+ */
+export async function findNationByRulerName(rulerName: string) {
+  return prisma.nation.findFirst({
+    where: {
+      rulerName: { equals: rulerName.trim(), mode: 'insensitive' },
+      isActive: true,
+    },
+    select: { id: true, allianceId: true },
+  });
+}
+
+/**
+ * Personal dashboard for a logged-in user, resolved through User.rulerName:
+ * pending aid recommendations, active/expiring aid offers, active wars,
+ * war assignments where they are the attacker and their latest warchest submission.
+ * Until the ruler name is verified, the alliance's recommendations, assignments and
+ * warchest data are left out.
+ */
+export async function getUserDashboard(userId: number): Promise<UserDashboardResult> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { rulerName: true, rulerNameVerifiedAt: true },
+  });
+  if (!user?.rulerName) {
+    return { status: 'no_ruler_name' };
+  }
+
+  const nation = await findNationByRulerName(user.rulerName);
+  if (!nation) {
+    return { status: 'nation_not_found', rulerName: user.rulerName };
+  }
+
+  const verified = !!user.rulerNameVerifiedAt;
+  const [profile, { recommendations }] = await Promise.all([
+    getNationProfile(nation.id, { userId, ownsNation: verified }),
+    verified ? AidService.getAidRecommendations(nation.allianceId) : { recommendations: [] },
+  ]);
+  if (!profile) {
+    return { status: 'nation_not_found', rulerName: user.rulerName };
+  }
+
+  const aidRecommendations = (recommendations as any[])
+    .filter(rec => rec.sender.id === nation.id || rec.recipient.id === nation.id)
+    .map(rec => {
+      const isSender = rec.sender.id === nation.id;
+      const other = isSender ? rec.recipient : rec.sender;
+      return {
+        direction: isSender ? 'send' as const : 'receive' as const,
+        type: rec.type,
+        reason: rec.reason,
+        otherNation: {
+          id: other.id,
+          rulerName: other.rulerName,
+          nationName: other.nationName,
+        },
+      };
+    });
+
+  const aidOffers = [...profile.aidOffers.active].sort((a, b) => a.daysUntilExpiration - b.daysUntilExpiration);
+
+  return {
+    status: 'ok',
+    dashboard: {
+      rulerName: user.rulerName,
+      rulerNameVerified: verified,
+      nation: profile.nation,
+      aidRecommendations,
+      aidOffers,
+      expiringAidOffers: aidOffers.filter(offer => offer.daysUntilExpiration <= AID_EXPIRING_SOON_DAYS),
+      wars: {
+        offensive: profile.wars.filter(war => war.direction === 'offensive'),
+        defensive: profile.wars.filter(war => war.direction === 'defensive'),
+      },
+      warAssignments: verified
+        ? (profile.warAssignments ?? []).filter(assignment => assignment.attackerNation.id === nation.id)
+        : [],
+      lastWarchestSubmission: verified ? profile.warchestSubmissions[0] ?? null : null,
+    },
+  };
+}
@@ -1,5 +1,13 @@
-import { isWarExpired } from '../utils/dateUtils.js';
-import { StaggerEligibilityService } from './staggerEligibilityService.js';
+import { formatCentralTimeDate, getWarDaysUntilExpiration, isWarExpired } from '../utils/dateUtils.js';
+import { StaggerEligibilityService, StaggerEligibilityData } from './staggerEligibilityService.js';
+import {
+  planBlitz,
+  blitzPairKey,
+  BlitzPlan,
+  MAX_DEFENSIVE_WARS,
+  MAX_OFFENSIVE_WARS,
+} from './blitzPlanner.js';
+import { scheduleStagger, StaggerSchedule } from './staggerScheduler.js';
 
 interface CreateAssignmentInput {
   allianceId: number;
@@ -8,8 +16,31 @@ interface CreateAssignmentInput {
   assignmentDate: string; // YYYY-MM-DD
   note?: string;
   createdByUserId: number;
+  attackerAllianceIds?: AttackerAllianceScope;
 }
 
+interface CreateAssignmentsBatchInput {
+  allianceId: number;
+  attackerAllianceIds?: AttackerAllianceScope;
+  assignmentDate?: string; // YYYY-MM-DD, default for rows without their own date
+  assignments: {
+    attackerNationId: number;
+    defenderNationId: number;
+    assignmentDate?: string; // YYYY-MM-DD
+    note?: string;
+  }[];
+  createdByUserId: number;
+}
+
+/**
+ * Alliances whose nations a user may assign as attackers (and whose assignments they may see and
+ * delete); null or omitted for every alliance
+ */
+export type AttackerAllianceScope = number[] | null;
+
+export const inAttackerScope = (allianceId: number, scope: AttackerAllianceScope | undefined): boolean =>
+  scope == null || scope.includes(allianceId);
+
 export interface WarAssignmentDto {
   id: number;
   assignmentDate: string; // YYYY-MM-DD
@@ -115,6 +146,26 @@ const mapAssignmentToDto = (assignment: any): WarAssignmentDto => {
   };
 };
 
+const parseAssignmentDate = (assignmentDate: string): Date => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(assignmentDate)) {
+    throw new Error('Invalid assignment date format, expected YYYY-MM-DD');
+  }
+  const date = new Date(`${assignmentDate}T00:00:00Z`);
+  if (isNaN(date.getTime())) {
+    throw new Error('Invalid assignment date');
+  }
+  return date;
+};
+
+/**
+ * Days from today (Central) until the given assignment date; negative for past dates
+ */
+const daysUntilAssignmentDate = (date: Date): number => {
+  const [month, day, year] = formatCentralTimeDate(new Date()).split('/').map(Number);
+  const todayUtc = Date.UTC(year, month - 1, day);
+  return Math.round((date.getTime() - todayUtc) / (24 * 60 * 60 * 1000));
+};
+
 async function hasActiveWarBetween(
   nationAId: number,
   nationBId: number
@@ -162,6 +213,7 @@ export class WarAssignmentService {
       assignmentDate,
       note,
       createdByUserId,
+      attackerAllianceIds,
     } = input;
 
     if (attackerNationId === defenderNationId) {
@@ -189,15 +241,12 @@ export class WarAssignmentService {
     if (!attacker || !attacker.isActive) {
       throw new Error('Attacker nation not found or inactive');
     }
+    if (!inAttackerScope(attacker.allianceId, attackerAllianceIds)) {
+      throw new Error(`You can't assign ${attacker.nationName}: their alliance is outside your war assignment alliances`);
+    }
 
     // Parse assignment date (expecting YYYY-MM-DD)
-    if (!/^\d{4}-\d{2}-\d{2}$/.test(assignmentDate)) {
-      throw new Error('Invalid assignment date format, expected YYYY-MM-DD');
-    }
-    const date = new Date(`${assignmentDate}T00:00:00Z`);
-    if (isNaN(date.getTime())) {
-      throw new Error('Invalid assignment date');
-    }
+    const date = parseAssignmentDate(assignmentDate);
 
     // Ensure there is no active war between the nations
     if (await hasActiveWarBetween(attackerNationId, defenderNationId)) {
@@ -227,7 +276,8 @@ export class WarAssignmentService {
   }
 
   static async listActiveAssignmentsForAlliance(
-    allianceId: number
+    allianceId: number,
+    attackerAllianceIds?: AttackerAllianceScope
   ): Promise<WarAssignmentDto[]> {
     const { prisma } = await import('../utils/prisma.js');
     // Load all non-archived assignments where defender belongs to this alliance
@@ -242,6 +292,7 @@ export class WarAssignmentService {
           ],
           isActive: true,
         },
+        ...(attackerAllianceIds != null ? { attackerNation: { allianceId: { in: attackerAllianceIds } } } : {}),
       },
       include: {
         attackerNation: {
@@ -279,16 +330,362 @@ export class WarAssignmentService {
     return activeAssignments.map(mapAssignmentToDto);
   }
 
-  static async deleteAssignment(assignmentId: number, allianceId: number): Promise<void> {
+  /**
+   * Non-archived assignments where the nation is either the attacker or the defender
+   */
+  static async listActiveAssignmentsForNation(nationId: number): Promise<WarAssignmentDto[]> {
+    const { prisma } = await import('../utils/prisma.js');
+    const assignments = await prisma.warAssignment.findMany({
+      where: {
+        archivedAt: null,
+        OR: [
+          { attackerNationId: nationId },
+          { defenderNationId: nationId },
+        ],
+      },
+      include: {
+        attackerNation: {
+          include: { alliance: true },
+        },
+        defenderNation: {
+          include: { alliance: true },
+        },
+        createdByUser: true,
+      },
+      orderBy: { assignmentDate: 'asc' },
+    });
+
+    return assignments.map(mapAssignmentToDto);
+  }
+
+  /**
+   * Propose a blitz of the attacking alliance against the defending alliance for a date.
+   * Wars still running on that date and assignments already made for it use up slots.
+   */
+  static async planBlitz(
+    defendingAllianceId: number,
+    attackingAllianceId: number,
+    assignmentDate: string
+  ): Promise<BlitzPlan & { assignmentDate: string }> {
+    const { prisma } = await import('../utils/prisma.js');
+    const date = parseAssignmentDate(assignmentDate);
+    const daysAhead = daysUntilAssignmentDate(date);
+    if (daysAhead < 0) {
+      throw new Error('Assignment date is in the past');
+    }
+
+    const [attackerRecords, defenderRecords] = await Promise.all([
+      prisma.nation.findMany({
+        where: { allianceId: attackingAllianceId, isActive: true, inWarMode: true },
+      }),
+      prisma.nation.findMany({
+        where: {
+          OR: [
+            { allianceId: defendingAllianceId },
+            { targetingAllianceId: defendingAllianceId },
+          ],
+          isActive: true,
+          inWarMode: true,
+        },
+      }),
+    ]);
+
+    // Nations in anarchy cannot declare wars
+    const attackerNations = attackerRecords.filter(
+      (n) => n.governmentType.toLowerCase() !== 'anarchy'
+    );
+    const attackerIds = attackerNations.map((n) => n.id);
+    const defenderIds = defenderRecords.map((n) => n.id);
+
+    const [wars, assignments] = await Promise.all([
+      prisma.war.findMany({
+        where: {
+          isActive: true,
+          status: { notIn: ['Ended', 'Peace'] },
+          OR: [
+            { declaringNationId: { in: attackerIds } },
+            { receivingNationId: { in: defenderIds } },
+          ],
+        },
+        select: { declaringNationId: true, receivingNationId: true, endDate: true },
+      }),
+      prisma.warAssignment.findMany({
+        where: {
+          archivedAt: null,
+          assignmentDate: date,
+          OR: [
+            { attackerNationId: { in: attackerIds } },
+            { defenderNationId: { in: defenderIds } },
+          ],
+        },
+        select: { attackerNationId: true, defenderNationId: true },
+      }),
+    ]);
+
+    const offensiveCounts = new Map<number, number>();
+    const defensiveCounts = new Map<number, number>();
+    const excludedPairs = new Set<string>();
+    const addPair = (attackerId: number, defenderId: number) => {
+      offensiveCounts.set(attackerId, (offensiveCounts.get(attackerId) || 0) + 1);
+      defensiveCounts.set(defenderId, (defensiveCounts.get(defenderId) || 0) + 1);
+      excludedPairs.add(blitzPairKey(attackerId, defenderId));
+    };
+
+    for (const war of wars) {
+      try {
+        // Wars that expire before the blitz date free their slots
+        if (getWarDaysUntilExpiration(war.endDate) <= daysAhead) continue;
+      } catch {
+        continue;
+      }
+      addPair(war.declaringNationId, war.receivingNationId);
+    }
+    for (const assignment of assignments) {
+      addPair(assignment.attackerNationId, assignment.defenderNationId);
+    }
+
+    const plan = planBlitz(
+      attackerNations.map((n) => ({
+        id: n.id,
+        rulerName: n.rulerName,
+        nationName: n.nationName,
+        strength: n.strength,
+        technology: n.technology,
+        nuclearWeapons: n.nuclearWeapons,
+        infrastructure: n.infrastructure,
+        land: n.land,
+        rank: n.rank ?? undefined,
+        openSlots: Math.max(0, MAX_OFFENSIVE_WARS - (offensiveCounts.get(n.id) || 0)),
+      })),
+      defenderRecords.map((n) => ({
+        id: n.id,
+        rulerName: n.rulerName,
+        nationName: n.nationName,
+        strength: n.strength,
+        technology: n.technology,
+        nuclearWeapons: n.nuclearWeapons,
+        rank: n.rank ?? undefined,
+        openSlots: Math.max(0, MAX_DEFENSIVE_WARS - (defensiveCounts.get(n.id) || 0)),
+      })),
+      excludedPairs
+    );
+
+    return { ...plan, assignmentDate: toYmd(date) };
+  }
+
+  /**
+   * Plan a multi-day stagger of the attacking alliance against the defending alliance,
+   * starting on startDate. Targets and attackers come from stagger eligibility; current
+   * wars keep their slots until they expire.
+   */
+  static async planStaggerSchedule(
+    defendingAllianceId: number,
+    attackingAllianceId: number,
+    startDate: string,
+    days: number
+  ): Promise<StaggerSchedule & {
+    startDate: string;
+    targets: { id: number; rulerName: string; nationName: string; strength: number; currentWars: number }[];
+    attackers: { id: number; rulerName: string; nationName: string; strength: number; nuclearWeapons: number }[];
+  }> {
+    const { prisma } = await import('../utils/prisma.js');
+    const start = parseAssignmentDate(startDate);
+    const daysAhead = daysUntilAssignmentDate(start);
+    if (daysAhead < 0) {
+      throw new Error('Start date is in the past');
+    }
+
+    const eligibility = (
+      await StaggerEligibilityService.getStaggerEligibility(
+        attackingAllianceId,
+        defendingAllianceId,
+        true,  // attackers in anarchy cannot declare
+        true,  // nor can attackers in peace mode
+        false,
+        true   // full targets still get waves once their wars expire
+      )
+    ).filter((entry) => entry.defendingNation.inWarMode);
+
+    const attackersById = new Map<number, StaggerEligibilityData['eligibleAttackers'][number]>();
+    for (const entry of eligibility) {
+      for (const attacker of entry.eligibleAttackers) {
+        attackersById.set(attacker.id, attacker);
+      }
+    }
+
+    const targetIds = eligibility.map((entry) => entry.defendingNation.id);
+    const attackerIds = Array.from(attackersById.keys());
+    const [defendingWars, attackingWars] = await Promise.all([
+      StaggerEligibilityService.getWarsForAlliance(defendingAllianceId, targetIds, prisma),
+      StaggerEligibilityService.getWarsForAlliance(attackingAllianceId, attackerIds, prisma),
+    ]);
+
+    // Days each war still runs, counted from the start date
+    const daysLeftFromStart = (endDate: string): number | null => {
+      try {
+        const left = getWarDaysUntilExpiration(endDate) - daysAhead;
+        return left > 0 ? left : null;
+      } catch {
+        return null;
+      }
+    };
+    const warDaysLeft = (wars: any[], key: 'declaringId' | 'receivingId', nationId: number): number[] =>
+      wars
+        .filter((war) => war[key] === nationId)
+        .map((war) => daysLeftFromStart(war.endDate))
+        .filter((left): left is number => left !== null);
+
+    const dates = Array.from({ length: days }, (_, i) =>
+      toYmd(new Date(start.getTime() + i * 24 * 60 * 60 * 1000))
+    );
+
+    const schedule = scheduleStagger(
+      eligibility.map((entry) => ({
+        id: entry.defendingNation.id,
+        rulerName: entry.defendingNation.ruler,
+        nationName: entry.defendingNation.name,
+        strength: entry.defendingNation.strength,
+        warDaysLeft: warDaysLeft(defendingWars, 'receivingId', entry.defendingNation.id),
+        eligibleAttackerIds: entry.eligibleAttackers.map((attacker) => attacker.id),
+      })),
+      Array.from(attackersById.values()).map((attacker) => ({
+        id: attacker.id,
+        rulerName: attacker.ruler,
+        nationName: attacker.name,
+        strength: attacker.strength,
+        nuclearWeapons: attacker.nuclearWeapons,
+        warDaysLeft: warDaysLeft(attackingWars, 'declaringId', attacker.id),
+      })),
+      dates
+    );
+
+    return {
+      ...schedule,
+      startDate: toYmd(start),
+      targets: eligibility.map((entry) => ({
+        id: entry.defendingNation.id,
+        rulerName: entry.defendingNation.ruler,
+        nationName: entry.defendingNation.name,
+        strength: entry.defendingNation.strength,
+        currentWars: entry.defendingNation.currentWars,
+      })),
+      attackers: Array.from(attackersById.values()).map((attacker) => ({
+        id: attacker.id,
+        rulerName: attacker.ruler,
+        nationName: attacker.name,
+        strength: attacker.strength,
+        nuclearWeapons: attacker.nuclearWeapons,
+      })),
+    };
+  }
+
+  /**
+   * Create a set of assignments (e.g. a reviewed blitz plan or stagger schedule).
+   * Rows use their own assignmentDate, falling back to the batch date. Every row is validated before anything is written, so the batch is all or nothing.
+   */
+  static async createAssignmentsBatch(input: CreateAssignmentsBatchInput): Promise<WarAssignmentDto[]> {
+    const { prisma } = await import('../utils/prisma.js');
+    const { allianceId, assignmentDate, assignments, createdByUserId, attackerAllianceIds } = input;
+
+    if (assignments.length === 0) {
+      throw new Error('No assignments to create');
+    }
+    const dates = assignments.map((row) => {
+      const rowDate = row.assignmentDate ?? assignmentDate;
+      if (!rowDate) {
+        throw new Error('Every assignment needs an assignmentDate');
+      }
+      return parseAssignmentDate(rowDate);
+    });
+
+    const seen = new Set<string>();
+    const nationIds = new Set<number>();
+    for (const { attackerNationId, defenderNationId } of assignments) {
+      if (attackerNationId === defenderNationId) {
+        throw new Error('Attacker and defender must be different nations');
+      }
+      const key = blitzPairKey(attackerNationId, defenderNationId);
+      if (seen.has(key)) {
+        throw new Error(`Nation ${attackerNationId} is assigned to nation ${defenderNationId} more than once`);
+      }
+      seen.add(key);
+      nationIds.add(attackerNationId);
+      nationIds.add(defenderNationId);
+    }
+
+    const nations = await prisma.nation.findMany({
+      where: { id: { in: Array.from(nationIds) } },
+    });
+    const nationsById = new Map(nations.map((n) => [n.id, n]));
+
+    for (const { attackerNationId, defenderNationId } of assignments) {
+      const defender = nationsById.get(defenderNationId);
+      if (!defender || !defender.isActive) {
+        throw new Error(`Defender nation ${defenderNationId} not found or inactive`);
+      }
+      const effectiveAllianceId = defender.targetingAllianceId || defender.allianceId;
+      if (effectiveAllianceId !== allianceId) {
+        throw new Error(`Defender nation ${defender.nationName} does not belong to this alliance`);
+      }
+      const attacker = nationsById.get(attackerNationId);
+      if (!attacker || !attacker.isActive) {
+        throw new Error(`Attacker nation ${attackerNationId} not found or inactive`);
+      }
+      if (!inAttackerScope(attacker.allianceId, attackerAllianceIds)) {
+        throw new Error(`You can't assign ${attacker.nationName}: their alliance is outside your war assignment alliances`);
+      }
+      if (await hasActiveWarBetween(attackerNationId, defenderNationId)) {
+        throw new Error(`There is already an active war between ${attacker.nationName} and ${defender.nationName}`);
+      }
+    }
+
+    const created = await prisma.$transaction(
+      assignments.map(({ attackerNationId, defenderNationId, note }, index) =>
+        prisma.warAssignment.create({
+          data: {
+            attackerNationId,
+            defenderNationId,
+            assignmentDate: dates[index],
+            note: note ?? null,
+            createdByUserId,
+          },
+          include: {
+            attackerNation: {
+              include: { alliance: true },
+            },
+            defenderNation: {
+              include: { alliance: true },
+            },
+            createdByUser: true,
+          },
+        })
+      )
+    );
+
+    return created.map(mapAssignmentToDto);
+  }
+
+  /**
+   * Delete an alliance's assignment, returning it as it was
+   */
+  static async deleteAssignment(
+    assignmentId: number,
+    allianceId: number,
+    attackerAllianceIds?: AttackerAllianceScope
+  ): Promise<WarAssignmentDto> {
     const { prisma } = await import('../utils/prisma.js');
     
     // Verify the assignment exists and belongs to the alliance
     const assignment = await prisma.warAssignment.findUnique({
       where: { id: assignmentId },
       include: {
+        attackerNation: {
+          include: { alliance: true },
+        },
         defenderNation: {
           include: { alliance: true },
         },
+        createdByUser: true,
       },
     });
 
@@ -300,11 +697,16 @@ export class WarAssignmentService {
     if (effectiveAllianceId !== allianceId) {
       throw new Error('Assignment does not belong to this alliance');
     }
+    if (!inAttackerScope(assignment.attackerNation.allianceId, attackerAllianceIds)) {
+      throw new Error(`You can't delete this assignment: ${assignment.attackerNation.nationName}'s alliance is outside your war assignment alliances`);
+    }
 
     // Delete the assignment
     await prisma.warAssignment.delete({
       where: { id: assignmentId },
     });
+
+    return mapAssignmentToDto(assignment);
   }
 }
 
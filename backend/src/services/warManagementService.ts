@@ -145,7 +145,7 @@ export class WarManagementService {
     for (const record of Object.values(nuclearStore)) {
       // Only count successful nuclear hits
       if ((record.result || '').toLowerCase() !== 'direct hit') continue;
-      const defendingId = parseInt(String(record.defendingNation).trim(), 10);
+      const defendingId = record.defendingNationId;
       if (!defendingId) continue;
       try {
         const sentDate = parseCentralTimeDate(record.sentAt);
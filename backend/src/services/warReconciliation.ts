@@ -0,0 +1,139 @@
+/**
+ * War reconciliation.
+ *
+ * Wars reach the wars table from the war export (loadWars) and from in-game scrapes posted to
+ * /dynamic-wars/ingest. A scraped war the export hasn't listed yet is unconfirmed: it stays
+ * active until an export includes it, or until DYNAMIC_WAR_CONFIRMATION_HOURS pass without one.
+ * When the two sources disagree about a war, each field is resolved on its own and the
+ * disagreement is recorded as a war discrepancy for the admin view.
+ */
+
+import { ENDED_WAR_STATUSES } from './eventService.js';
+
+export const WAR_SOURCES = {
+  CSV: 'csv',
+  DYNAMIC: 'dynamic',
+} as const;
+
+export type WarSource = (typeof WAR_SOURCES)[keyof typeof WAR_SOURCES];
+
+/**
+ * How long a scraped war stays active without an export listing it. Exports lag the game by
+ * hours, so a war scraped after the export was generated only shows up in the next one.
+ */
+export const DYNAMIC_WAR_CONFIRMATION_HOURS = 48;
+
+export const WAR_DISCREPANCY_FIELDS = {
+  STATUS: 'status',
+  DESTRUCTION: 'destruction',
+  ATTACK_PERCENT: 'attackPercent',
+  DEFEND_PERCENT: 'defendPercent',
+  /** A scraped war no export listed within DYNAMIC_WAR_CONFIRMATION_HOURS */
+  MISSING_FROM_EXPORT: 'missingFromExport',
+} as const;
+
+export type WarDiscrepancyField = (typeof WAR_DISCREPANCY_FIELDS)[keyof typeof WAR_DISCREPANCY_FIELDS];
+
+/**
+ * The war fields the two sources can disagree on
+ */
+export interface ReconciledWarFields {
+  status: string;
+  destruction: string | null;
+  attackPercent: number | null;
+  defendPercent: number | null;
+}
+
+export interface WarFieldDiscrepancy {
+  field: WarDiscrepancyField;
+  csvValue: string | null;
+  dynamicValue: string | null;
+  resolvedValue: string | null;
+  resolvedFrom: WarSource;
+}
+
+// Percentages that differ by less than this are the same reading, as in loadWars
+const PERCENT_TOLERANCE = 0.01;
+
+function parseDestruction(value: string | null): number | null {
+  if (value === null) return null;
+  const parsed = parseFloat(value.replace(/,/g, ''));
+  return isNaN(parsed) ? null : parsed;
+}
+
+function formatValue(value: string | number | null): string | null {
+  return value === null ? null : String(value);
+}
+
+/**
+ * Resolve the fields where the export and a scrape disagree about the same war:
+ * - status: an ended status (Peace, Expired) wins over a live one, since wars don't restart;
+ *   otherwise the newer source wins
+ * - destruction: the larger amount wins, since destruction only accumulates
+ * - attack and defend percentages: the newer source wins
+ * A field only one source reported takes that value without counting as a discrepancy.
+ */
+export function reconcileWarFields(
+  csv: ReconciledWarFields,
+  dynamic: ReconciledWarFields,
+  newer: WarSource
+): { resolved: ReconciledWarFields; discrepancies: WarFieldDiscrepancy[] } {
+  const discrepancies: WarFieldDiscrepancy[] = [];
+  const pick = <T extends string | number>(
+    field: WarDiscrepancyField,
+    csvValue: T | null,
+    dynamicValue: T | null,
+    preferred: WarSource
+  ): T | null => {
+    // A source that didn't report the field isn't disagreeing
+    if (csvValue === null || dynamicValue === null) {
+      return csvValue ?? dynamicValue;
+    }
+    const resolvedValue = preferred === WAR_SOURCES.CSV ? csvValue : dynamicValue;
+    discrepancies.push({
+      field,
+      csvValue: formatValue(csvValue),
+      dynamicValue: formatValue(dynamicValue),
+      resolvedValue: formatValue(resolvedValue),
+      resolvedFrom: preferred,
+    });
+    return resolvedValue;
+  };
+
+  const resolved: ReconciledWarFields = { ...csv };
+
+  if (csv.status !== dynamic.status) {
+    const csvEnded = ENDED_WAR_STATUSES.has(csv.status);
+    const dynamicEnded = ENDED_WAR_STATUSES.has(dynamic.status);
+    const preferred = csvEnded !== dynamicEnded ? (csvEnded ? WAR_SOURCES.CSV : WAR_SOURCES.DYNAMIC) : newer;
+    resolved.status = pick(WAR_DISCREPANCY_FIELDS.STATUS, csv.status, dynamic.status, preferred) as string;
+  }
+
+  if ((csv.destruction ?? null) !== (dynamic.destruction ?? null)) {
+    const csvAmount = parseDestruction(csv.destruction);
+    const dynamicAmount = parseDestruction(dynamic.destruction);
+    const preferred = csvAmount !== null && dynamicAmount !== null
+      ? (dynamicAmount > csvAmount ? WAR_SOURCES.DYNAMIC : WAR_SOURCES.CSV)
+      : newer;
+    if (csvAmount === null || dynamicAmount === null || csvAmount !== dynamicAmount) {
+      resolved.destruction = pick(WAR_DISCREPANCY_FIELDS.DESTRUCTION, csv.destruction, dynamic.destruction, preferred);
+    }
+  }
+
+  const percentFields = [
+    { field: WAR_DISCREPANCY_FIELDS.ATTACK_PERCENT, key: 'attackPercent' as const },
+    { field: WAR_DISCREPANCY_FIELDS.DEFEND_PERCENT, key: 'defendPercent' as const },
+  ];
+  for (const { field, key } of percentFields) {
+    const csvValue = csv[key];
+    const dynamicValue = dynamic[key];
+    const same = csvValue === null || dynamicValue === null
+      ? csvValue === dynamicValue
+      : Math.abs(csvValue - dynamicValue) <= PERCENT_TOLERANCE;
+    if (!same) {
+      resolved[key] = pick(field, csvValue, dynamicValue, newer);
+    }
+  }
+
+  return { resolved, discrepancies };
+}
@@ -291,3 +291,109 @@ export async function getWarchestSubmissions(options?: {
   };
 }
 
+
+export interface WarchestTimelineEntry {
+  source: 'spyglass' | 'spy_operation';
+  observedAt: string;
+  warchest: number;
+  /** Spyglass readings: age of the reading when it was uploaded */
+  daysOld: number | null;
+  /** Spy operations: the submission, for its XP and generals */
+  submission: {
+    id: number;
+    armyXP: number | null;
+    navyXP: number | null;
+    airForceXP: number | null;
+    intelligenceXP: number | null;
+    assignedGenerals: string | null;
+    killedGenerals: string | null;
+  } | null;
+}
+
+type TimelineObservation = { warchest: number; daysOld: number; observedAt: Date };
+type TimelineSubmission = {
+  id: number;
+  totalMoney: number;
+  capturedAt: Date;
+  armyXP: number | null;
+  navyXP: number | null;
+  airForceXP: number | null;
+  intelligenceXP: number | null;
+  hasAssignedGenerals: boolean;
+  assignedGenerals: string | null;
+  killedGenerals: string | null;
+};
+
+/**
+ * Merge spyglass observations and spy operation submissions into one warchest timeline,
+ * newest first. Spy operations are exact to the minute, so they sort ahead of a spyglass
+ * reading from the same day.
+ */
+export function mergeWarchestTimeline(
+  observations: TimelineObservation[],
+  submissions: TimelineSubmission[]
+): WarchestTimelineEntry[] {
+  const entries: Array<WarchestTimelineEntry & { sortAt: number }> = [
+    ...observations.map((o) => ({
+      source: 'spyglass' as const,
+      observedAt: o.observedAt.toISOString(),
+      warchest: o.warchest,
+      daysOld: o.daysOld,
+      submission: null,
+      sortAt: o.observedAt.getTime(),
+    })),
+    ...submissions.map((s) => ({
+      source: 'spy_operation' as const,
+      observedAt: s.capturedAt.toISOString(),
+      warchest: s.totalMoney,
+      daysOld: null,
+      submission: {
+        id: s.id,
+        armyXP: s.armyXP,
+        navyXP: s.navyXP,
+        airForceXP: s.airForceXP,
+        intelligenceXP: s.intelligenceXP,
+        assignedGenerals: s.hasAssignedGenerals ? s.assignedGenerals : null,
+        killedGenerals: s.killedGenerals,
+      },
+      sortAt: s.capturedAt.getTime(),
+    })),
+  ];
+
+  return entries
+    .sort((a, b) => b.sortAt - a.sortAt || (a.source === 'spy_operation' ? -1 : 1))
+    .map(({ sortAt: _sortAt, ...entry }) => entry);
+}
+
+/**
+ * Warchest timeline for a nation from spyglass uploads and spy operation submissions
+ */
+export async function getWarchestTimeline(nationId: number, limit: number = 200): Promise<WarchestTimelineEntry[]> {
+  const [observations, submissions] = await Promise.all([
+    prisma.warchestObservation.findMany({
+      where: { nationId },
+      select: { warchest: true, daysOld: true, observedAt: true },
+      orderBy: { observedAt: 'desc' },
+      take: limit,
+    }),
+    prisma.warchestSubmission.findMany({
+      where: { nationId },
+      select: {
+        id: true,
+        totalMoney: true,
+        capturedAt: true,
+        armyXP: true,
+        navyXP: true,
+        airForceXP: true,
+        intelligenceXP: true,
+        hasAssignedGenerals: true,
+        assignedGenerals: true,
+        killedGenerals: true,
+      },
+      orderBy: { capturedAt: 'desc' },
+      take: limit,
+    }),
+  ]);
+
+  return mergeWarchestTimeline(observations, submissions).slice(0, limit);
+}
@@ -0,0 +1,9 @@
+import 'express-serve-static-core';
+import type { AuthenticatedApiKey } from '../services/apiKeyService.js';
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    /** Set by requireCapability when the request was made with an API key */
+    apiKey?: AuthenticatedApiKey;
+  }
+}
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { FileType, getFileInfo } from '../dataDownloader.js';
+import { FileType, getFileInfo, parseArchiveFilename } from '../dataDownloader.js';
+import { runOnGameServer } from '../gameServer.js';
 
 describe('dataDownloader', () => {
   beforeEach(() => {
@@ -38,6 +39,11 @@ describe('dataDownloader', () => {
       expect(result.isRecent).toBe(true);
     });
 
+    it('should use the TE prefix on the Tournament Edition server', () => {
+      expect(getFileInfo(FileType.NATION_STATS, 'TE').name).toBe('CyberNations_TE_Nation_Stats_9192025510001.zip');
+      expect(runOnGameServer('TE', () => getFileInfo(FileType.WAR_STATS)).name).toBe('CyberNations_TE_War_Stats_9192025525001.zip');
+    });
+
     it('should generate correct filename for nighttime (6pm-6am)', () => {
       // Set time to 2 AM UTC = 8 PM CST (nighttime)
       vi.setSystemTime(new Date('2025-09-20T02:00:00Z'));
@@ -113,4 +119,36 @@ describe('dataDownloader', () => {
       expect(result1.timestamp).toBe(result2.timestamp);
     });
   });
+
+  describe('parseArchiveFilename', () => {
+    it('should read the file type and half-day from a download name', () => {
+      const result = parseArchiveFilename('CyberNations_SE_War_Stats_12252025525002.zip');
+
+      expect(result).toMatchObject({ fileType: FileType.WAR_STATS, year: 2025, month: 12, day: 25, half: 2 });
+      expect(result?.timestamp.toISOString()).toBe('2025-12-26T00:00:00.000Z');
+    });
+
+    it('should round-trip names from getFileInfo', () => {
+      const { name } = getFileInfo(FileType.AID_STATS);
+
+      expect(parseArchiveFilename(name)).toMatchObject({ fileType: FileType.AID_STATS, month: 9, day: 19, half: 1 });
+    });
+
+    it('should use the hint to pick between ambiguous month and day', () => {
+      const name = 'CyberNations_SE_Nation_Stats_1112026510001.zip';
+
+      expect(parseArchiveFilename(name, new Date('2026-01-11T12:00:00Z'))).toMatchObject({ month: 1, day: 11 });
+      expect(parseArchiveFilename(name, new Date('2026-11-01T12:00:00Z'))).toMatchObject({ month: 11, day: 1 });
+    });
+
+    it('should read the server from the prefix', () => {
+      expect(parseArchiveFilename('CyberNations_SE_Aid_Stats_9192025520001.zip')?.server).toBe('SE');
+      expect(parseArchiveFilename('CyberNations_TE_Aid_Stats_9192025520001.zip')?.server).toBe('TE');
+    });
+
+    it('should reject names with the wrong flag for their type', () => {
+      expect(parseArchiveFilename('CyberNations_SE_Nation_Stats_9192025520001.zip')).toBeNull();
+      expect(parseArchiveFilename('nations.csv')).toBeNull();
+    });
+  });
 });
@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileType, downloadFileWithFallback, extractCsvToStandardFile } from '../dataDownloader.js';
+import { FixtureServerDataSource, LocalDirectoryDataSource, startFixtureServer } from '../dataSources.js';
+
+const FIXTURES = path.join(__dirname, '..', '..', '..', 'fixtures', 'exports');
+
+describe('dataSources', () => {
+  let workDir: string;
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'data-source-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it('serves the fixture archive for the current download name from a local directory', async () => {
+    const zipPath = path.join(workDir, 'nations.zip');
+    const csvPath = path.join(workDir, 'nations.csv');
+
+    const result = await downloadFileWithFallback(FileType.NATION_STATS, zipPath, new LocalDirectoryDataSource(FIXTURES));
+    await extractCsvToStandardFile(zipPath, csvPath, FileType.NATION_STATS);
+
+    expect(result.filename).toMatch(/^CyberNations_SE_Nation_Stats_\d+\.zip$/);
+    expect(fs.readFileSync(csvPath, 'utf-8').startsWith('Nation ID|Ruler Name|')).toBe(true);
+  });
+
+  it('downloads over HTTP from the fixture server', async () => {
+    const source = new FixtureServerDataSource(FIXTURES);
+    const zipPath = path.join(workDir, 'wars.zip');
+    const csvPath = path.join(workDir, 'wars.csv');
+
+    try {
+      await source.fetch('CyberNations_SE_War_Stats_1012026525001.zip', zipPath);
+      await extractCsvToStandardFile(zipPath, csvPath, FileType.WAR_STATS);
+    } finally {
+      await source.close();
+    }
+
+    expect(fs.readFileSync(csvPath, 'utf-8').split('\n')[0]).toContain('War ID');
+  });
+
+  it('answers 404 for archives the fixture server does not have', async () => {
+    const server = await startFixtureServer(workDir);
+    try {
+      const response = await fetch(`${server.url}CyberNations_SE_Aid_Stats_1012026520001.zip`);
+      expect(response.status).toBe(404);
+    } finally {
+      await server.close();
+    }
+  });
+});
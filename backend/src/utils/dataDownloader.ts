@@ -1,10 +1,12 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import * as https from 'https';
 import * as yauzl from 'yauzl';
 import { extractZipFile } from './zipExtractor.js';
 // Alliance sync is now handled via database - no file sync needed
 import { isInBlackoutWindow } from './dateUtils.js';
+import type { SyncRunFile } from '../services/syncRunService.js';
+import { getDataSource, type DataSource } from './dataSources.js';
+import { currentGameServer, gameServerDataPath, type GameServer } from './gameServer.js';
 
 export enum FileType {
   NATION_STATS = 'Nation_Stats',
@@ -18,6 +20,21 @@ interface FileInfo {
   isRecent: boolean;
 }
 
+// TE exports use the same file identifiers as SE under their own prefix;
+// CUSTOM_TE_*_FILE overrides the name if a round publishes something else
+const DOWNLOAD_FILE_FLAGS: Record<FileType, string> = {
+  [FileType.NATION_STATS]: '51000',
+  [FileType.AID_STATS]: '52000',
+  [FileType.WAR_STATS]: '52500'
+};
+
+/**
+ * Prefix of a server's export archives and the text files inside them
+ */
+export function archivePrefix(server: GameServer = currentGameServer()): string {
+  return `CyberNations_${server}_`;
+}
+
 function getDownloadNumberSlug(file_flag: string, hoursOffset: number = 0): string {
   const now = new Date();
   const offsetDate = new Date(now.getTime() - (hoursOffset * 60 * 60 * 1000));
@@ -52,16 +69,70 @@ function getDownloadNumberSlug(file_flag: string, hoursOffset: number = 0): stri
 }
 
 
-export function getFileInfo(fileType: FileType): FileInfo {
-  const flag_map = {
-    [FileType.NATION_STATS]: '51000',
-    [FileType.AID_STATS]: '52000',
-    [FileType.WAR_STATS]: '52500'
-  };
+export interface ArchiveSlug {
+  server: GameServer;
+  fileType: FileType;
+  year: number;
+  month: number;
+  day: number;
+  /** 1 for the 6am-6pm Central file, 2 for the 6pm-6am file */
+  half: 1 | 2;
+  /** Start of the half-day the file covers */
+  timestamp: Date;
+}
 
-  const flag = flag_map[fileType];
+/**
+ * Read the file type and half-day back out of an archived download name
+ * (the reverse of getDownloadNumberSlug).
+ * Month and day are not zero padded, so a three digit month and day such as 1112026
+ * reads as 1/11 or 11/1; `hint` (e.g. the file's modified time) picks the closer reading.
+ * @returns null when the name isn't a CyberNations_<SE|TE>_<type>_<slug>.zip download
+ */
+export function parseArchiveFilename(filename: string, hint?: Date): ArchiveSlug | null {
+  const match = /CyberNations_(SE|TE)_(Nation_Stats|Aid_Stats|War_Stats)_(\d+)\.zip$/.exec(filename);
+  if (!match) return null;
+
+  const server = match[1] as GameServer;
+  const fileType = match[2] as FileType;
+  const slug = match[3];
+  const flag = DOWNLOAD_FILE_FLAGS[fileType];
+  const suffix = slug.slice(-1);
+  if (slug.slice(-(flag.length + 1), -1) !== flag || (suffix !== '1' && suffix !== '2')) return null;
+
+  const datePart = slug.slice(0, -(flag.length + 1));
+  const year = parseInt(datePart.slice(-4), 10);
+  const monthDay = datePart.slice(0, -4);
+  const half = suffix === '1' ? 1 : 2;
+
+  const candidates: ArchiveSlug[] = [];
+  for (let i = 1; i < monthDay.length; i++) {
+    const monthText = monthDay.slice(0, i);
+    const dayText = monthDay.slice(i);
+    if (monthText.startsWith('0') || dayText.startsWith('0') || monthText.length > 2 || dayText.length > 2) continue;
+    const month = parseInt(monthText, 10);
+    const day = parseInt(dayText, 10);
+    const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    if (month < 1 || month > 12 || day < 1 || day > daysInMonth) continue;
+
+    // Same fixed Central offset as parseCentralTimeDate
+    const hour = half === 1 ? '06' : '18';
+    const timestamp = new Date(`${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}T${hour}:00:00-06:00`);
+    candidates.push({ server, fileType, year, month, day, half, timestamp });
+  }
+
+  if (candidates.length === 0) return null;
+  if (!hint) return candidates[0];
+  return candidates.reduce((best, candidate) =>
+    Math.abs(candidate.timestamp.getTime() - hint.getTime()) < Math.abs(best.timestamp.getTime() - hint.getTime())
+      ? candidate
+      : best
+  );
+}
+
+export function getFileInfo(fileType: FileType, server: GameServer = currentGameServer()): FileInfo {
+  const flag = DOWNLOAD_FILE_FLAGS[fileType];
   const currentTimestamp = getDownloadNumberSlug(flag);
-  const filename = `CyberNations_SE_${fileType}_${currentTimestamp}.zip`;
+  const filename = `${archivePrefix(server)}${fileType}_${currentTimestamp}.zip`;
   
   return {
     name: filename,
@@ -70,66 +141,6 @@ export function getFileInfo(fileType: FileType): FileInfo {
   };
 }
 
-function downloadFile(url: string, filePath: string): Promise<void> {
-  return new Promise((resolve, reject) => {
-    const file = fs.createWriteStream(filePath);
-    let rejected = false;
-    
-    const cleanup = () => {
-      try {
-        if (fs.existsSync(filePath)) {
-          fs.unlinkSync(filePath);
-        }
-      } catch (e) {
-        // Ignore cleanup errors
-      }
-    };
-    
-    const handleError = (err: Error) => {
-      if (!rejected) {
-        rejected = true;
-        try {
-          file.destroy();
-        } catch (e) {
-          // Ignore destroy errors
-        }
-        cleanup();
-        reject(err);
-      }
-    };
-    
-    // Suppress unhandled errors on file stream
-    file.on('error', handleError);
-    
-    const req = https.get(url, (response) => {
-      if (rejected) {
-        response.destroy();
-        return;
-      }
-      
-      // Handle any errors during the response
-      response.on('error', handleError);
-      
-      if (response.statusCode !== 200) {
-        response.destroy();
-        handleError(new Error(`Failed to download file from ${url}: ${response.statusCode}`));
-        return;
-      }
-      
-      response.pipe(file);
-      
-      file.on('finish', () => {
-        if (!rejected) {
-          file.close();
-          resolve();
-        }
-      });
-    });
-    
-    req.on('error', handleError);
-  });
-}
-
 async function extractZip(zipPath: string, extractDir: string): Promise<void> {
   const result = await extractZipFile(zipPath, extractDir);
   
@@ -231,7 +242,7 @@ async function getStaleFileTypesFromLatestDownloads(force: boolean = false): Pro
     { key: FileType.WAR_STATS, type: FileType.WAR_STATS, csv: 'wars.csv' }
   ];
 
-  const dataPath = path.join(process.cwd(), 'src', 'data');
+  const dataPath = gameServerDataPath(path.join(process.cwd(), 'src', 'data'));
   const nowUtcMs = Date.now();
   const lastScheduledUtcMs = getLastScheduledUpdateUtcMs(new Date(nowUtcMs));
 
@@ -412,11 +423,11 @@ function getDataPath(): string {
   
   if (isVercel) {
     // Vercel serverless functions can only write to /tmp
-    return '/tmp/cybernations_data';
+    return gameServerDataPath('/tmp/cybernations_data');
   } else {
     // Local development: use project directory
     const projectRoot = process.cwd();
-    return path.join(projectRoot, 'src', 'data');
+    return gameServerDataPath(path.join(projectRoot, 'src', 'data'));
   }
 }
 
@@ -439,7 +450,6 @@ async function performDownloadWithSharedResults(sharedResults: DownloadResult[])
 
 async function performDownload(sharedResults?: DownloadResult[]): Promise<DownloadResult[]> {
   const overallStartTime = Date.now();
-  const baseUrl = 'https://www.cybernations.net/assets/';
   
   // Get appropriate data path for environment
   const dataPath = getDataPath();
@@ -480,7 +490,7 @@ async function performDownload(sharedResults?: DownloadResult[]): Promise<Downlo
     const fileDownloadStartTime = Date.now();
     
     try {
-      const result = await downloadFileWithFallback(baseUrl, file.type, tempZipPath);
+      const result = await downloadFileWithFallback(file.type, tempZipPath);
       const downloadTime = Date.now() - fileDownloadStartTime;
       const fileSize = fs.existsSync(tempZipPath) ? fs.statSync(tempZipPath).size : 0;
       const fileSizeMB = (fileSize / (1024 * 1024)).toFixed(2);
@@ -636,7 +646,13 @@ async function performDownload(sharedResults?: DownloadResult[]): Promise<Downlo
 /**
  * Extract CSV content from zip file directly to standardized filename (optimized)
  */
-export async function extractCsvToStandardFile(zipPath: string, outputPath: string, fileType: FileType): Promise<void> {
+export async function extractCsvToStandardFile(
+  zipPath: string,
+  outputPath: string,
+  fileType: FileType,
+  server: GameServer = currentGameServer()
+): Promise<void> {
+  const prefix = archivePrefix(server);
   const extractStartTime = Date.now();
   console.log(`[${fileType}] Starting extraction...`);
   
@@ -670,7 +686,7 @@ export async function extractCsvToStandardFile(zipPath: string, outputPath: stri
         
         // Check if this is the CSV file we want
         const isTargetFile = entry.fileName.endsWith('.txt') && 
-                            entry.fileName.includes('CyberNations_SE') && 
+                            entry.fileName.includes(prefix) && 
                             entry.fileName.includes(fileType);
         
         if (!isTargetFile) {
@@ -719,7 +735,7 @@ export async function extractCsvToStandardFile(zipPath: string, outputPath: stri
         if (!foundCsvFile) {
           writeStream.destroy();
           const extractTime = Date.now() - extractStartTime;
-          reject(new Error(`No CSV file found in ${fileType} zip after checking ${entryCount} entries (expected file containing 'CyberNations_SE' and '${fileType}' with .txt extension)`));
+          reject(new Error(`No CSV file found in ${fileType} zip after checking ${entryCount} entries (expected file containing '${prefix}' and '${fileType}' with .txt extension)`));
         }
       });
 
@@ -731,7 +747,13 @@ export async function extractCsvToStandardFile(zipPath: string, outputPath: stri
   });
 }
 
-export async function ensureRecentFiles(force: boolean = false): Promise<DownloadResult[]> {
+/**
+ * Download stale files and import them, recording the attempt as a sync run.
+ * Works on currentGameServer(); wrap in runOnGameServer to sync TE.
+ * @param force - Reprocess every file regardless of freshness
+ * @param trigger - What started the sync, stored on the sync run
+ */
+export async function ensureRecentFiles(force: boolean = false, trigger: string = 'ensure-recent-files'): Promise<DownloadResult[]> {
   // Check if we're in the blackout window before doing anything
   if (isInBlackoutWindow() && !force) {
     // Don't spam logs - only check staleness if we would actually try to download
@@ -756,6 +778,14 @@ export async function ensureRecentFiles(force: boolean = false): Promise<Downloa
   }
 
   let downloadResults: DownloadResult[] = [];
+  const { beginSyncRun, finishSyncRun } = await import('../services/syncRunService.js');
+  const syncRun = await beginSyncRun(trigger, force);
+  const downloadFiles = (): SyncRunFile[] => downloadResults.map(result => ({
+    fileType: result.fileType,
+    filename: result.filename ?? null,
+    success: result.success,
+    error: result.error ?? null,
+  }));
 
   if (isProd) {
     console.log('Production environment detected, attempting download with timeout protection for stale files:', staleTypes.join(', '));
@@ -766,6 +796,7 @@ export async function ensureRecentFiles(force: boolean = false): Promise<Downloa
     } catch (error: any) {
       const errorMsg = error?.message || String(error);
       console.warn(`Download failed in production, gracefully falling back to existing data: ${errorMsg}`);
+      await finishSyncRun(syncRun, [], [`Download failed: ${errorMsg}`]);
       // Return empty results to indicate no downloads succeeded
       return [];
     }
@@ -777,6 +808,7 @@ export async function ensureRecentFiles(force: boolean = false): Promise<Downloa
     } catch (error: any) {
       const errorMsg = error?.message || String(error);
       console.warn(`Selective standardized download failed in development, gracefully falling back to existing data: ${errorMsg}`);
+      await finishSyncRun(syncRun, [], [`Download failed: ${errorMsg}`]);
       // Return empty results to indicate no downloads succeeded
       return [];
     }
@@ -785,6 +817,7 @@ export async function ensureRecentFiles(force: boolean = false): Promise<Downloa
   // After refreshing standardized files, import CSV data into database
   // If force is enabled, always import even if no new files were downloaded
   if (force || downloadResults.length > 0) {
+    let recorded = false;
     try {
       const csvImportStartTime = Date.now();
       console.log('Importing CSV data into database...');
@@ -792,7 +825,7 @@ export async function ensureRecentFiles(force: boolean = false): Promise<Downloa
         console.log('Force mode: Importing CSV data regardless of download status');
       }
       const { importAllCsvFiles } = await import('../services/csvImportService.js');
-      await importAllCsvFiles();
+      const importResults = await importAllCsvFiles(syncRun.id);
       const csvImportTime = Date.now() - csvImportStartTime;
       console.log(`CSV data imported into database successfully in ${csvImportTime}ms (${(csvImportTime / 1000).toFixed(2)}s)`);
       
@@ -803,8 +836,11 @@ export async function ensureRecentFiles(force: boolean = false): Promise<Downloa
         const result = downloadResults.find(r => r.fileType === fileType);
         return result?.success === true;
       });
+      const rejectedFiles = importResults.filter(r => !r.success).map(r => r.fileType);
       
-      if ((allFilesSucceeded && downloadResults.length > 0) || force) {
+      if (rejectedFiles.length > 0) {
+        console.log(`[Post-Processing] Skipping post-processing SQL query - import validation rejected: ${rejectedFiles.join(', ')}`);
+      } else if ((allFilesSucceeded && downloadResults.length > 0) || force) {
         if (force) {
           console.log('[Post-Processing] Force mode: Executing post-processing SQL query');
         } else {
@@ -828,11 +864,40 @@ export async function ensureRecentFiles(force: boolean = false): Promise<Downloa
           console.log('[Post-Processing] Skipping post-processing SQL query - no files were processed');
         }
       }
+
+      // Record per-file import counts and the diff on the sync run
+      const files = downloadFiles();
+      for (const result of importResults) {
+        const file = files.find(f => f.fileType === result.fileType);
+        if (file) {
+          Object.assign(file, {
+            success: file.success && result.success,
+            rows: result.rows,
+            imported: result.imported,
+            updated: result.updated,
+            durationMs: result.durationMs,
+            error: result.error ?? file.error,
+            quarantineId: result.quarantineId,
+          });
+        } else {
+          files.push(result);
+        }
+      }
+      await finishSyncRun(syncRun, files);
+      recorded = true;
+
+      // Post Discord webhook notifications for events created by this sync
+      const { dispatchNotifications } = await import('../services/notificationService.js');
+      await dispatchNotifications();
     } catch (error) {
       console.warn('Error importing CSV data into database:', error);
+      if (!recorded) {
+        await finishSyncRun(syncRun, downloadFiles(), [`Import failed: ${error instanceof Error ? error.message : String(error)}`]);
+      }
     }
   } else {
     console.log('No files downloaded and force mode disabled - skipping CSV import');
+    await finishSyncRun(syncRun, downloadFiles());
   }
 
   // Alliance data is now stored in the database via CSV imports
@@ -862,7 +927,9 @@ function getCustomFilename(fileType: FileType): string | undefined {
     [FileType.WAR_STATS]: 'CUSTOM_WAR_STATS_FILE'
   };
   
-  const envVar = envVarMap[fileType];
+  // TE overrides are CUSTOM_TE_NATION_STATS_FILE etc.
+  const server = currentGameServer();
+  const envVar = server === 'SE' ? envVarMap[fileType] : envVarMap[fileType].replace('CUSTOM_', `CUSTOM_${server}_`);
   const customFilename = process.env[envVar];
   
   if (customFilename) {
@@ -876,19 +943,19 @@ function getCustomFilename(fileType: FileType): string | undefined {
  * Try to download a file based on current timestamp
  * Supports custom filename override via environment variables
  * Tries current timestamp first, then falls back to recent timestamps to get newest available file
+ * @param source - Where archives come from; defaults to the one configured by DATA_SOURCE
  */
 export async function downloadFileWithFallback(
-  baseUrl: string,
   fileType: FileType,
-  tempZipPath: string
+  tempZipPath: string,
+  source: DataSource = getDataSource()
 ): Promise<{ success: boolean; filename: string }> {
   // Check for custom filename override first
   const customFilename = getCustomFilename(fileType);
   if (customFilename) {
-    const url = `${baseUrl}${customFilename}`;
     try {
       console.log(`Trying to download custom file: ${customFilename}...`);
-      await downloadFile(url, tempZipPath);
+      await source.fetch(customFilename, tempZipPath);
       console.log(`✓ Successfully downloaded ${customFilename}`);
       return { success: true, filename: customFilename };
     } catch (error: any) {
@@ -897,13 +964,7 @@ export async function downloadFileWithFallback(
     }
   }
 
-  const flag_map = {
-    [FileType.NATION_STATS]: '51000',
-    [FileType.AID_STATS]: '52000',
-    [FileType.WAR_STATS]: '52500'
-  };
-
-  const flag = flag_map[fileType];
+  const flag = DOWNLOAD_FILE_FLAGS[fileType];
   
   // Try current timestamp first, then fall back to recent timestamps
   // Files are updated at 6am and 6pm Central, so we try offsets that align with those boundaries
@@ -922,8 +983,7 @@ export async function downloadFileWithFallback(
     
     for (const suffix of suffixesToTry) {
       const timestamp = `${baseWithoutSuffix}${suffix}`;
-      const filename = `CyberNations_SE_${fileType}_${timestamp}.zip`;
-      const url = `${baseUrl}${filename}`;
+      const filename = `${archivePrefix()}${fileType}_${timestamp}.zip`;
 
       try {
         if (hoursOffset === 0 && suffix === baseTimestamp.slice(-1)) {
@@ -933,7 +993,7 @@ export async function downloadFileWithFallback(
         } else {
           console.log(`Trying recent file (${hoursOffset}h back, suffix ${suffix}): ${filename}`);
         }
-        await downloadFile(url, tempZipPath);
+        await source.fetch(filename, tempZipPath);
         console.log(`✓ Successfully downloaded ${filename}`);
         return { success: true, filename };
       } catch (error: any) {
@@ -955,13 +1015,12 @@ export async function downloadFileWithFallback(
  * Download only the specified file types and update the tracker
  */
 async function performSelectiveDownload(staleTypes: FileType[]): Promise<DownloadResult[]> {
-  const baseUrl = 'https://www.cybernations.net/assets/';
 
   // Setup data path
   let dataPath: string;
   try {
     const projectRoot = process.cwd();
-    dataPath = path.join(projectRoot, 'src', 'data');
+    dataPath = gameServerDataPath(path.join(projectRoot, 'src', 'data'));
   } catch (error) {
     console.error('Error setting up paths:', error);
     throw error;
@@ -985,7 +1044,7 @@ async function performSelectiveDownload(staleTypes: FileType[]): Promise<Downloa
     const outputPath = path.join(dataPath, mapping[type].outputFile);
 
     try {
-      const result = await downloadFileWithFallback(baseUrl, type, tempZipPath);
+      const result = await downloadFileWithFallback(type, tempZipPath);
       await extractCsvToStandardFile(tempZipPath, outputPath, type);
       // Update database tracker
       await upsertFileDownload(type, result.filename);
@@ -0,0 +1,236 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+import * as path from 'path';
+import type { AddressInfo } from 'net';
+
+/**
+ * Where the game's export zips come from. The downloader asks for archives by their
+ * CyberNations_<SE|TE>_<type>_<slug>.zip name and falls back through older names on failure.
+ */
+export interface DataSource {
+  /** Short name for logs */
+  readonly name: string;
+  /**
+   * Copy the named archive to destPath
+   * @throws when the archive isn't available
+   */
+  fetch(filename: string, destPath: string): Promise<void>;
+}
+
+export const DEFAULT_EXPORT_BASE_URL = 'https://www.cybernations.net/assets/';
+
+function downloadFile(url: string, filePath: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const file = fs.createWriteStream(filePath);
+    let rejected = false;
+
+    const cleanup = () => {
+      try {
+        if (fs.existsSync(filePath)) {
+          fs.unlinkSync(filePath);
+        }
+      } catch (e) {
+        // Ignore cleanup errors
+      }
+    };
+
+    const handleError = (err: Error) => {
+      if (!rejected) {
+        rejected = true;
+        try {
+          file.destroy();
+        } catch (e) {
+          // Ignore destroy errors
+        }
+        cleanup();
+        reject(err);
+      }
+    };
+
+    // Suppress unhandled errors on file stream
+    file.on('error', handleError);
+
+    // Plain http is only used for the local fixture server
+    const client = url.startsWith('http:') ? http : https;
+    const req = client.get(url, (response) => {
+      if (rejected) {
+        response.destroy();
+        return;
+      }
+
+      // Handle any errors during the response
+      response.on('error', handleError);
+
+      if (response.statusCode !== 200) {
+        response.destroy();
+        handleError(new Error(`Failed to download file from ${url}: ${response.statusCode}`));
+        return;
+      }
+
+      response.pipe(file);
+
+      file.on('finish', () => {
+        if (!rejected) {
+          file.close();
+          resolve();
+        }
+      });
+    });
+
+    req.on('error', handleError);
+  });
+}
+
+/**
+ * The game's export URLs (or anything serving the same layout)
+ */
+export class HttpsDataSource implements DataSource {
+  readonly name: string;
+
+  constructor(private readonly baseUrl: string = DEFAULT_EXPORT_BASE_URL) {
+    this.name = `https (${baseUrl})`;
+  }
+
+  async fetch(filename: string, destPath: string): Promise<void> {
+    await downloadFile(`${this.baseUrl}${filename}`, destPath);
+  }
+}
+
+/**
+ * Path of the archive to serve for a requested name: the exact file if present, otherwise
+ * the most recently modified archive of the same server and file type. Fixture directories hold one old
+ * export per type, so this lets the downloader's current-slug names resolve offline.
+ */
+export function resolveArchiveInDirectory(directory: string, filename: string): string | null {
+  const exact = path.join(directory, path.basename(filename));
+  if (fs.existsSync(exact)) return exact;
+
+  const match = /^CyberNations_(?:SE|TE)_[A-Za-z]+_Stats_/.exec(path.basename(filename));
+  if (!match || !fs.existsSync(directory)) return null;
+
+  const prefix = match[0];
+  const candidates = fs.readdirSync(directory)
+    .filter((name) => name.startsWith(prefix) && name.endsWith('.zip'))
+    .map((name) => path.join(directory, name))
+    .sort((a, b) => fs.statSync(b).mtimeMs - fs.statSync(a).mtimeMs);
+  return candidates[0] ?? null;
+}
+
+/**
+ * Archives in a local directory (an offline mirror or fixtures)
+ */
+export class LocalDirectoryDataSource implements DataSource {
+  readonly name: string;
+
+  constructor(private readonly directory: string) {
+    this.name = `local directory (${directory})`;
+  }
+
+  async fetch(filename: string, destPath: string): Promise<void> {
+    const source = resolveArchiveInDirectory(this.directory, filename);
+    if (!source) {
+      throw new Error(`${filename} not found in ${this.directory} (404)`);
+    }
+    if (path.basename(source) !== filename) {
+      console.log(`[DataSource] Serving ${path.basename(source)} for ${filename}`);
+    }
+    await fs.promises.copyFile(source, destPath);
+  }
+}
+
+export interface FixtureServer {
+  /** Base URL ending in a slash, like DEFAULT_EXPORT_BASE_URL */
+  url: string;
+  close(): Promise<void>;
+}
+
+/**
+ * Serve a directory of archives over HTTP with the same name resolution as
+ * LocalDirectoryDataSource. Port 0 picks a free port.
+ */
+export function startFixtureServer(directory: string, port: number = 0): Promise<FixtureServer> {
+  const server = http.createServer((req, res) => {
+    const filename = decodeURIComponent((req.url || '/').split('?')[0].replace(/^\/+/, ''));
+    const source = filename ? resolveArchiveInDirectory(directory, filename) : null;
+    if (req.method !== 'GET' || !source) {
+      res.writeHead(404);
+      res.end();
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'application/zip' });
+    fs.createReadStream(source).pipe(res);
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, '127.0.0.1', () => {
+      // Don't keep a script alive just for the fixture server
+      server.unref();
+      const { port: boundPort } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${boundPort}/`,
+        close: () => new Promise<void>((done) => server.close(() => done())),
+      });
+    });
+  });
+}
+
+/**
+ * Downloads over HTTP from an in-process fixture server, so the network path
+ * (status codes, streaming, fallbacks) runs without the live site
+ */
+export class FixtureServerDataSource implements DataSource {
+  readonly name: string;
+  private server: Promise<FixtureServer> | null = null;
+
+  constructor(private readonly directory: string) {
+    this.name = `fixture server (${directory})`;
+  }
+
+  async fetch(filename: string, destPath: string): Promise<void> {
+    if (!this.server) {
+      this.server = startFixtureServer(this.directory);
+    }
+    const { url } = await this.server;
+    await new HttpsDataSource(url).fetch(filename, destPath);
+  }
+
+  async close(): Promise<void> {
+    if (this.server) {
+      await (await this.server).close();
+      this.server = null;
+    }
+  }
+}
+
+let configuredSource: DataSource | null = null;
+
+/**
+ * The data source selected by DATA_SOURCE: 'https' (default), 'local' or 'fixture-server'.
+ * DATA_SOURCE_URL overrides the export base URL; DATA_SOURCE_DIR is the archive directory
+ * for the other two (defaults to fixtures/exports).
+ */
+export function getDataSource(): DataSource {
+  if (configuredSource) return configuredSource;
+
+  const kind = (process.env.DATA_SOURCE || 'https').toLowerCase();
+  const directory = process.env.DATA_SOURCE_DIR || path.join(process.cwd(), 'fixtures', 'exports');
+
+  switch (kind) {
+    case 'https':
+      configuredSource = new HttpsDataSource(process.env.DATA_SOURCE_URL || DEFAULT_EXPORT_BASE_URL);
+      break;
+    case 'local':
+      configuredSource = new LocalDirectoryDataSource(directory);
+      break;
+    case 'fixture-server':
+      configuredSource = new FixtureServerDataSource(directory);
+      break;
+    default:
+      throw new Error(`Unknown DATA_SOURCE "${kind}" (expected https, local or fixture-server)`);
+  }
+
+  console.log(`[DataSource] Using ${configuredSource.name}`);
+  return configuredSource;
+}
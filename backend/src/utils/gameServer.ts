@@ -0,0 +1,90 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import * as path from 'path';
+
+/**
+ * CyberNations game servers: Standard Edition and Tournament Edition
+ */
+export type GameServer = 'SE' | 'TE';
+
+export const GAME_SERVERS: GameServer[] = ['SE', 'TE'];
+
+export const DEFAULT_GAME_SERVER: GameServer = 'SE';
+
+/**
+ * TE nations, alliances, wars and aid offers are numbered independently of SE, so they are
+ * stored at this offset to keep both servers in the same tables without id collisions.
+ * SE ids are stored as-is. Id 0 ("no alliance") is shared.
+ */
+export const TE_ID_OFFSET = 1_000_000_000;
+
+const gameServerContext = new AsyncLocalStorage<GameServer>();
+
+export function isGameServer(value: unknown): value is GameServer {
+  return typeof value === 'string' && (GAME_SERVERS as string[]).includes(value.toUpperCase());
+}
+
+/**
+ * Parse a server name from a header, query string or env var; anything else falls back to SE
+ */
+export function parseGameServer(value: unknown): GameServer {
+  return isGameServer(value) ? (value.toUpperCase() as GameServer) : DEFAULT_GAME_SERVER;
+}
+
+/**
+ * The server the current request or import is working on (SE outside runOnGameServer)
+ */
+export function currentGameServer(): GameServer {
+  return gameServerContext.getStore() ?? DEFAULT_GAME_SERVER;
+}
+
+/**
+ * Run fn with currentGameServer() returning the given server
+ */
+export function runOnGameServer<T>(server: GameServer, fn: () => T): T {
+  return gameServerContext.run(server, fn);
+}
+
+/**
+ * Servers the sync job downloads, from GAME_SERVERS (comma separated, default SE)
+ */
+export function enabledGameServers(): GameServer[] {
+  const configured = (process.env.GAME_SERVERS || DEFAULT_GAME_SERVER)
+    .split(',')
+    .map((name) => name.trim())
+    .filter(isGameServer)
+    .map((name) => name.toUpperCase() as GameServer);
+  return configured.length > 0 ? Array.from(new Set(configured)) : [DEFAULT_GAME_SERVER];
+}
+
+/**
+ * Database id for an id read from a server's export
+ */
+export function toStoredId(gameId: number, server: GameServer = currentGameServer()): number {
+  return server === 'TE' && gameId > 0 ? gameId + TE_ID_OFFSET : gameId;
+}
+
+/**
+ * The in-game id for a database id (what the game site's links expect)
+ */
+export function toGameId(storedId: number): number {
+  return storedId >= TE_ID_OFFSET ? storedId - TE_ID_OFFSET : storedId;
+}
+
+export function gameServerOfId(storedId: number): GameServer {
+  return storedId >= TE_ID_OFFSET ? 'TE' : 'SE';
+}
+
+/**
+ * Where a server's standardized CSVs live: SE files stay in the base directory, TE files go in te/
+ */
+export function gameServerDataPath(basePath: string, server: GameServer = currentGameServer()): string {
+  return server === DEFAULT_GAME_SERVER ? basePath : path.join(basePath, server.toLowerCase());
+}
+
+/**
+ * Prisma filter matching the current server's stored ids, for tables keyed by nation or
+ * alliance id that don't carry a game_server column (events, snapshots)
+ */
+export function storedIdRange(server: GameServer = currentGameServer()): { gte?: number; lt?: number } {
+  return server === 'TE' ? { gte: TE_ID_OFFSET } : { lt: TE_ID_OFFSET };
+}
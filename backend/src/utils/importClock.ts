@@ -0,0 +1,19 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+const importTime = new AsyncLocalStorage<Date>();
+
+/**
+ * Current time as seen by the importers. Inside runAtImportTime this is the time of the
+ * data being replayed, so events, snapshots and seen-at timestamps land on that date.
+ */
+export function importNow(): Date {
+  const time = importTime.getStore();
+  return time ? new Date(time.getTime()) : new Date();
+}
+
+/**
+ * Run an import as if it happened at the given time (used when replaying archived data files)
+ */
+export function runAtImportTime<T>(time: Date, fn: () => Promise<T>): Promise<T> {
+  return importTime.run(time, fn);
+}
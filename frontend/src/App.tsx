@@ -5,6 +5,8 @@ import AllianceRedirect from './components/AllianceRedirect'
 import { RecommendationsRedirect } from './components/LegacyRedirects'
 import GlobalWarsPage from './pages/GlobalWarsPage'
 import AidPage from './pages/AidPage'
+import AidCalendarPage from './pages/AidCalendarPage'
+import AidCancellationsPage from './pages/AidCancellationsPage'
 import InterallianceAidPage from './pages/InterallianceAidPage'
 import NationsPage from './pages/NationsPage'
 import WarManagementPage from './pages/WarManagementPage'
@@ -21,10 +23,16 @@ import CasualtiesPage from './pages/CasualtiesPage'
 import AdminPage from './pages/AdminPage'
 import UserManagementPage from './pages/UserManagementPage'
 import RoleCapabilitiesPage from './pages/RoleCapabilitiesPage'
+import SyncRunsPage from './pages/SyncRunsPage'
+import WarReconciliationPage from './pages/WarReconciliationPage'
+import AuditLogPage from './pages/AuditLogPage'
 import UpdateRulerNamePage from './pages/UpdateRulerNamePage'
 import SpyOperationSubmissionPage from './pages/SpyOperationSubmissionPage'
 import MobilizationEventsPage from './pages/MobilizationEventsPage'
+import NationProfilePage from './pages/NationProfilePage'
+import MePage from './pages/MePage'
 import { useAuth } from './contexts/AuthContext'
+import { useAlliances } from './contexts/AlliancesContext'
 
 function App() {
   const [selectedAllianceId, setSelectedAllianceId] = useState<number | null>(null);
@@ -32,6 +40,7 @@ function App() {
   const navigate = useNavigate();
   const hasInitializedNationAidEfficiency = useRef(false);
   const { user, isAuthenticated, isLoading } = useAuth();
+  const { gameServer } = useAlliances();
 
   // Redirect authenticated users without rulerName to update page
   useEffect(() => {
@@ -58,12 +67,12 @@ function App() {
     const allianceIdParam = pathParts[2];
     
     // Check if we're on an alliance-specific page with an alliance ID in the URL
-    if (allianceIdParam && ['aid', 'nations', 'wars', 'mobilization'].includes(tabName)) {
+    if (allianceIdParam && ['aid', 'aid-calendar', 'aid-cancellations', 'nations', 'wars', 'mobilization'].includes(tabName)) {
       const allianceId = parseInt(allianceIdParam);
       if (!isNaN(allianceId)) {
         setSelectedAllianceId(allianceId);
       }
-    } else if (!allianceIdParam && ['aid', 'nations', 'wars', 'mobilization'].includes(tabName)) {
+    } else if (!allianceIdParam && ['aid', 'aid-calendar', 'aid-cancellations', 'nations', 'wars', 'mobilization'].includes(tabName)) {
       // If we're on an alliance-specific page but no alliance ID in URL, clear selection
       setSelectedAllianceId(null);
     } else if (tabName === 'casualties') {
@@ -122,13 +131,18 @@ function App() {
         setSelectedAllianceId={setSelectedAllianceId}
       />
       
-      <Routes>
+      {/* Keyed by server so pages refetch their data when the server changes */}
+      <Routes key={gameServer}>
         {/* Default redirect to aid */}
         <Route path="/" element={<Navigate to="/aid" replace />} />
         
         {/* Alliance-specific routes */}
         <Route path="/aid/:allianceId" element={<AidPage />} />
         <Route path="/aid" element={<AllianceRedirect tabName="aid" />} />
+        <Route path="/aid-calendar/:allianceId" element={<AidCalendarPage />} />
+        <Route path="/aid-calendar" element={<AllianceRedirect tabName="aid-calendar" />} />
+        <Route path="/aid-cancellations/:allianceId" element={<AidCancellationsPage />} />
+        <Route path="/aid-cancellations" element={<AllianceRedirect tabName="aid-cancellations" />} />
         
         {/* Interalliance Aid - Top-level aid tool */}
         <Route path="/interalliance-aid" element={<InterallianceAidPage selectedAllianceId={selectedAllianceId} />} />
@@ -142,6 +156,12 @@ function App() {
         <Route path="/mobilization/:allianceId" element={<MobilizationEventsPage />} />
         <Route path="/mobilization" element={<AllianceRedirect tabName="mobilization" />} />
         
+        {/* Nation profile - everything we know about one nation */}
+        <Route path="/nation/:nationId" element={<NationProfilePage />} />
+
+        {/* Personal dashboard for the logged-in user */}
+        <Route path="/me" element={<MePage />} />
+        
         {/* Spy Operation Submission - authenticated users only */}
         <Route path="/warchest-submission" element={<SpyOperationSubmissionPage />} />
         
@@ -166,6 +186,10 @@ function App() {
         <Route path="/admin" element={<AdminPage />} />
         <Route path="/admin/users" element={<UserManagementPage />} />
         <Route path="/admin/role-capabilities" element={<RoleCapabilitiesPage />} />
+        <Route path="/admin/sync-runs" element={<SyncRunsPage />} />
+        <Route path="/admin/sync-runs/:runId" element={<SyncRunsPage />} />
+        <Route path="/admin/war-reconciliation" element={<WarReconciliationPage />} />
+        <Route path="/admin/audit-log" element={<AuditLogPage />} />
         
         {/* Ruler name update page */}
         <Route path="/update-rulername" element={<UpdateRulerNamePage />} />
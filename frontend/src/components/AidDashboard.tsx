@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { apiCall, API_ENDPOINTS } from '../utils/api';
 import { tableClasses } from '../styles/tableClasses';
+import { gameId } from '../utils/gameServer';
 
 interface SmallAidOffer {
   aidId: number;
@@ -117,7 +118,7 @@ const AidDashboard: React.FC = () => {
                 <tr key={offer.aidId} className="bg-gray-800 hover:bg-gray-700">
                   <td className="p-2.5 border border-gray-600">
                     <a 
-                      href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${offer.declaringNation?.id || ''}`}
+                      href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${offer.declaringNation ? gameId(offer.declaringNation.id) : ''}`}
                       target="_blank"
                       rel="noopener noreferrer"
                       className="text-primary no-underline font-bold hover:underline"
@@ -132,7 +133,7 @@ const AidDashboard: React.FC = () => {
                   </td>
                   <td className="p-2.5 border border-gray-600">
                     <a 
-                      href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${offer.receivingNation?.id || ''}`}
+                      href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${offer.receivingNation ? gameId(offer.receivingNation.id) : ''}`}
                       target="_blank"
                       rel="noopener noreferrer"
                       className="text-primary no-underline font-bold hover:underline"
@@ -3,6 +3,7 @@ import SlotCountsSummary from './SlotCountsSummary';
 import WarStatusBadge from './WarStatusBadge';
 import { apiCall, API_ENDPOINTS } from '../utils/api';
 import { useAlliances } from '../contexts/AlliancesContext';
+import { gameId } from '../utils/gameServer';
 
 interface AidOffer {
   aidId: number;
@@ -404,7 +405,7 @@ const AllianceDashboard: React.FC<AllianceDashboardProps> = ({
         
         // Add cross-alliance indicator
         const crossAllianceIndicator = rec.type && rec.type.includes('cross_alliance') ? ' (Cross-Alliance)' : '';
-        const aidUrl = `https://www.cybernations.net/aid_form.asp?Nation_ID=${rec.recipient.id}&bynation=${rec.sender.id}`;
+        const aidUrl = `https://www.cybernations.net/aid_form.asp?Nation_ID=${gameId(rec.recipient.id)}&bynation=${gameId(rec.sender.id)}`;
         discordLines.push(`send ${aidType} to [${rec.recipient.rulerName}](${aidUrl})${crossAllianceIndicator}`)
       });
       discordLines.push('');
@@ -656,7 +657,7 @@ const AllianceDashboard: React.FC<AllianceDashboardProps> = ({
                           <div>
                             <strong>
                               <a 
-                                href={`https://www.cybernations.net/search_aid.asp?search=${nationAidSlots.nation.id}&Extended=1`}
+                                href={`https://www.cybernations.net/search_aid.asp?search=${gameId(nationAidSlots.nation.id)}&Extended=1`}
                                 target="_blank"
                                 rel="noopener noreferrer"
                                 className="text-primary no-underline hover:underline"
@@ -694,7 +695,7 @@ const AllianceDashboard: React.FC<AllianceDashboardProps> = ({
                                 >
                                   {slot.isOutgoing ? '→ ' : '← '}
                                   <a 
-                                    href={`https://www.cybernations.net/search_aid.asp?search=${slot.aidOffer.targetId || 'undefined'}&Extended=1`}
+                                    href={`https://www.cybernations.net/search_aid.asp?search=${slot.aidOffer.targetId ? gameId(slot.aidOffer.targetId) : 'undefined'}&Extended=1`}
                                     target="_blank"
                                     rel="noopener noreferrer"
                                     className="no-underline hover:underline"
@@ -803,7 +804,7 @@ const AllianceDashboard: React.FC<AllianceDashboardProps> = ({
                             <div>
                               <strong>
                                 <a 
-                                  href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${group.sender.id}`}
+                                  href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(group.sender.id)}`}
                                   target="_blank"
                                   rel="noopener noreferrer"
                                   className="text-primary no-underline hover:underline"
@@ -842,7 +843,7 @@ const AllianceDashboard: React.FC<AllianceDashboardProps> = ({
                                     </span>
                                     <strong className="text-xs mr-1.5">
                                       <a 
-                                        href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${rec.recipient.id}`}
+                                        href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(rec.recipient.id)}`}
                                         target="_blank"
                                         rel="noopener noreferrer"
                                         className="text-primary no-underline hover:underline"
@@ -890,7 +891,7 @@ const AllianceDashboard: React.FC<AllianceDashboardProps> = ({
                       {alerts.nationsNeedingAcceptance.map((nation) => (
                         <div key={nation.offerId} className="text-sm text-slate-900">
                           <a 
-                            href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${nation.nationId}`}
+                            href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(nation.nationId)}`}
                             target="_blank"
                             rel="noopener noreferrer"
                             className="text-blue-700 font-medium hover:underline"
@@ -912,7 +913,7 @@ const AllianceDashboard: React.FC<AllianceDashboardProps> = ({
                       {alerts.nationsWithUnacceptedTech.map((nation) => (
                         <div key={nation.offerId} className="text-sm text-slate-900">
                           <a 
-                            href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${nation.nationId}`}
+                            href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(nation.nationId)}`}
                             target="_blank"
                             rel="noopener noreferrer"
                             className="text-blue-700 font-medium hover:underline"
@@ -948,7 +949,7 @@ const AllianceDashboard: React.FC<AllianceDashboardProps> = ({
                           <div key={slot.nation.id} className="text-sm flex items-center justify-between gap-3">
                             <span className="text-slate-900">
                               <a 
-                                href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${slot.nation.id}`}
+                                href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(slot.nation.id)}`}
                                 target="_blank"
                                 rel="noopener noreferrer"
                                 className="text-blue-700 font-medium no-underline hover:underline"
@@ -973,7 +974,7 @@ const AllianceDashboard: React.FC<AllianceDashboardProps> = ({
                           <div key={slot.nation.id} className="text-sm flex items-center justify-between gap-3">
                             <span className="text-slate-900">
                               <a 
-                                href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${slot.nation.id}`}
+                                href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(slot.nation.id)}`}
                                 target="_blank"
                                 rel="noopener noreferrer"
                                 className="text-blue-700 font-medium no-underline hover:underline"
@@ -1004,7 +1005,7 @@ const AllianceDashboard: React.FC<AllianceDashboardProps> = ({
                           <div key={slot.nation.id} className="text-sm flex items-center justify-between gap-3">
                             <span className="text-slate-900">
                               <a 
-                                href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${slot.nation.id}`}
+                                href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(slot.nation.id)}`}
                                 target="_blank"
                                 rel="noopener noreferrer"
                                 className="text-blue-700 font-medium no-underline hover:underline"
@@ -1029,7 +1030,7 @@ const AllianceDashboard: React.FC<AllianceDashboardProps> = ({
                           <div key={slot.nation.id} className="text-sm flex items-center justify-between gap-3">
                             <span className="text-slate-900">
                               <a 
-                                href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${slot.nation.id}`}
+                                href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(slot.nation.id)}`}
                                 target="_blank"
                                 rel="noopener noreferrer"
                                 className="text-blue-700 font-medium no-underline hover:underline"
@@ -1058,7 +1059,7 @@ const AllianceDashboard: React.FC<AllianceDashboardProps> = ({
                         <div key={slot.nation.id} className="text-sm flex items-center justify-between gap-3">
                           <span className="text-slate-900">
                             <a 
-                              href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${slot.nation.id}`}
+                              href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(slot.nation.id)}`}
                               target="_blank"
                               rel="noopener noreferrer"
                               className="text-blue-700 font-medium no-underline hover:underline"
@@ -1105,7 +1106,7 @@ const AllianceDashboard: React.FC<AllianceDashboardProps> = ({
                       <div key={item.nation.id} className="mb-3 last:mb-0">
                         <div className="font-semibold text-sm text-slate-900 mb-1">
                           <a 
-                            href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${item.nation.id}`}
+                            href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(item.nation.id)}`}
                             target="_blank"
                             rel="noopener noreferrer"
                             className="text-blue-700 hover:underline"
@@ -1119,7 +1120,7 @@ const AllianceDashboard: React.FC<AllianceDashboardProps> = ({
                             <div key={offer.aidId} className="text-xs text-slate-700">
                               <span className="font-medium">Sent</span> to{' '}
                               <a 
-                                href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${offer.receivingId}`}
+                                href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(offer.receivingId)}`}
                                 target="_blank"
                                 rel="noopener noreferrer"
                                 className="text-blue-600 hover:underline"
@@ -1146,7 +1147,7 @@ const AllianceDashboard: React.FC<AllianceDashboardProps> = ({
                       <div key={item.nation.id} className="mb-3 last:mb-0">
                         <div className="font-semibold text-sm text-slate-900 mb-1">
                           <a 
-                            href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${item.nation.id}`}
+                            href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(item.nation.id)}`}
                             target="_blank"
                             rel="noopener noreferrer"
                             className="text-blue-700 hover:underline"
@@ -1160,7 +1161,7 @@ const AllianceDashboard: React.FC<AllianceDashboardProps> = ({
                             <div key={offer.aidId} className="text-xs text-slate-700">
                               <span className="font-medium">Sent</span> to{' '}
                               <a 
-                                href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${offer.receivingId}`}
+                                href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(offer.receivingId)}`}
                                 target="_blank"
                                 rel="noopener noreferrer"
                                 className="text-blue-600 hover:underline"
@@ -1187,7 +1188,7 @@ const AllianceDashboard: React.FC<AllianceDashboardProps> = ({
                       <div key={item.nation.id} className="mb-3 last:mb-0">
                         <div className="font-semibold text-sm text-slate-900 mb-1">
                           <a 
-                            href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${item.nation.id}`}
+                            href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(item.nation.id)}`}
                             target="_blank"
                             rel="noopener noreferrer"
                             className="text-blue-700 hover:underline"
@@ -1201,7 +1202,7 @@ const AllianceDashboard: React.FC<AllianceDashboardProps> = ({
                             <div key={offer.aidId} className="text-xs text-slate-700">
                               <span className="font-medium">Received</span> from{' '}
                               <a 
-                                href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${offer.declaringId}`}
+                                href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(offer.declaringId)}`}
                                 target="_blank"
                                 rel="noopener noreferrer"
                                 className="text-blue-600 hover:underline"
@@ -1228,7 +1229,7 @@ const AllianceDashboard: React.FC<AllianceDashboardProps> = ({
                       <div key={item.nation.id} className="mb-3 last:mb-0">
                         <div className="font-semibold text-sm text-slate-900 mb-1">
                           <a 
-                            href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${item.nation.id}`}
+                            href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(item.nation.id)}`}
                             target="_blank"
                             rel="noopener noreferrer"
                             className="text-blue-700 hover:underline"
@@ -1242,7 +1243,7 @@ const AllianceDashboard: React.FC<AllianceDashboardProps> = ({
                             <div key={offer.aidId} className="text-xs text-slate-700">
                               <span className="font-medium">Received</span> from{' '}
                               <a 
-                                href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${offer.declaringId}`}
+                                href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(offer.declaringId)}`}
                                 target="_blank"
                                 rel="noopener noreferrer"
                                 className="text-blue-600 hover:underline"
@@ -1274,7 +1275,7 @@ const AllianceDashboard: React.FC<AllianceDashboardProps> = ({
                       <div key={item.nation.id} className="mb-3 last:mb-0">
                         <div className="font-semibold text-sm text-slate-900 mb-1">
                           <a 
-                            href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${item.nation.id}`}
+                            href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(item.nation.id)}`}
                             target="_blank"
                             rel="noopener noreferrer"
                             className="text-blue-700 hover:underline"
@@ -1289,7 +1290,7 @@ const AllianceDashboard: React.FC<AllianceDashboardProps> = ({
                               <span className="font-medium">{offer.direction === 'sent' ? 'Sent' : 'Received'}</span>{' '}
                               {offer.direction === 'sent' ? 'to' : 'from'}{' '}
                               <a 
-                                href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${offer.direction === 'sent' ? offer.receivingId : offer.declaringId}`}
+                                href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(offer.direction === 'sent' ? offer.receivingId : offer.declaringId)}`}
                                 target="_blank"
                                 rel="noopener noreferrer"
                                 className="text-blue-600 hover:underline"
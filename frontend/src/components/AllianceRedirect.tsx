@@ -8,7 +8,7 @@ interface AllianceRedirectProps {
 
 const AllianceRedirect: React.FC<AllianceRedirectProps> = ({ tabName }) => {
   const { alliances, loading } = useAlliances();
-  const { user, isAuthenticated, isLoading, hasCapability } = useAuth();
+  const { user, isAuthenticated, isLoading, hasCapability, manageableAllianceIds } = useAuth();
 
   if (tabName === 'nations') {
     if (isLoading) {
@@ -22,7 +22,7 @@ const AllianceRedirect: React.FC<AllianceRedirectProps> = ({ tabName }) => {
       return <Navigate to="/nations" replace />;
     }
     const canManageAll = hasCapability('manage_all_alliance');
-    const managedIds = user.managedAllianceIds ?? [];
+    const managedIds = manageableAllianceIds;
     const hasManageableAlliances = canManageAll || managedIds.length > 0;
     if (!hasManageableAlliances) {
       return <Navigate to="/nations" replace />;
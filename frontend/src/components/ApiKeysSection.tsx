@@ -0,0 +1,197 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { apiCallWithErrorHandling, API_ENDPOINTS } from '../utils/api';
+
+interface ApiKey {
+  id: number;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  createdAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+}
+
+const SCOPE_LABELS: Record<string, string> = {
+  ingest_nuclear: 'Nuclear reports',
+  ingest_wars: 'Scraped wars and battle reports',
+  ingest_warchest: 'Spy operation warchests',
+  sync_data: 'Data file syncs',
+};
+
+const thClass = 'p-2 border-b border-gray-600 text-left text-gray-300 font-semibold';
+const tdClass = 'p-2 border-b border-gray-700/50 text-gray-200';
+
+const formatDateTime = (iso: string | null) => (iso ? new Date(iso).toLocaleString() : '—');
+
+/**
+ * The logged-in user's API keys, for userscripts that post reports without a browser session
+ */
+const ApiKeysSection: React.FC = () => {
+  const { hasCapabilityAnywhere } = useAuth();
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [scopes, setScopes] = useState<string[]>([]);
+  const [name, setName] = useState('');
+  const [selectedScopes, setSelectedScopes] = useState<string[]>([]);
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadKeys = useCallback(async () => {
+    try {
+      const response = await apiCallWithErrorHandling(API_ENDPOINTS.meApiKeys);
+      setApiKeys(response.apiKeys || []);
+      setScopes(response.scopes || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load API keys');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadKeys();
+  }, [loadKeys]);
+
+  const availableScopes = scopes.filter((scope) => hasCapabilityAnywhere(scope));
+
+  const toggleScope = (scope: string) => {
+    setSelectedScopes((current) =>
+      current.includes(scope) ? current.filter((s) => s !== scope) : [...current, scope]
+    );
+  };
+
+  const createKey = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || selectedScopes.length === 0) {
+      setError('Give the key a name and at least one scope');
+      return;
+    }
+
+    setBusy(true);
+    setError(null);
+    setCreatedKey(null);
+    try {
+      const response = await apiCallWithErrorHandling(API_ENDPOINTS.meApiKeys, {
+        method: 'POST',
+        body: JSON.stringify({ name: name.trim(), scopes: selectedScopes }),
+      });
+      setCreatedKey(response.key);
+      setName('');
+      setSelectedScopes([]);
+      await loadKeys();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create API key');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const revokeKey = async (apiKey: ApiKey) => {
+    if (!window.confirm(`Revoke "${apiKey.name}"? Scripts using it will stop working.`)) return;
+
+    setBusy(true);
+    setError(null);
+    try {
+      await apiCallWithErrorHandling(API_ENDPOINTS.meApiKey(apiKey.id), { method: 'DELETE' });
+      await loadKeys();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke API key');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-lg p-4 mb-4">
+      <h2 className="text-lg font-bold text-gray-200 mb-1">API Keys</h2>
+      <p className="text-sm text-gray-400 mb-3">
+        Userscripts send a key in the <code className="text-gray-300">X-API-Key</code> header to post reports as you.
+        A key only works for the scopes you pick, and only while you still have them.
+      </p>
+      {error && (
+        <div className="mb-3 p-2 bg-red-900/30 border border-red-700 rounded text-sm text-red-200">{error}</div>
+      )}
+      {createdKey && (
+        <div className="mb-3 p-2 bg-green-900/30 border border-green-700 rounded text-sm text-green-200">
+          Copy your new key now; it won't be shown again:
+          <div className="mt-1 font-mono text-gray-100 break-all select-all">{createdKey}</div>
+        </div>
+      )}
+
+      {availableScopes.length > 0 && (
+        <form onSubmit={createKey} className="flex flex-wrap items-center gap-3 mb-4 text-sm">
+          <input
+            type="text"
+            value={name}
+            maxLength={100}
+            placeholder="Key name, e.g. Nuke reporter"
+            onChange={(e) => setName(e.target.value)}
+            className="px-2 py-1 border border-gray-600 rounded bg-gray-900 text-gray-200 w-56"
+          />
+          {availableScopes.map((scope) => (
+            <label key={scope} className="flex items-center gap-1 text-gray-300">
+              <input
+                type="checkbox"
+                checked={selectedScopes.includes(scope)}
+                onChange={() => toggleScope(scope)}
+              />
+              {SCOPE_LABELS[scope] || scope}
+            </label>
+          ))}
+          <button
+            type="submit"
+            disabled={busy}
+            className="px-3 py-1 rounded bg-primary text-white font-semibold disabled:opacity-60"
+          >
+            Create Key
+          </button>
+        </form>
+      )}
+
+      {apiKeys.length === 0 ? (
+        <div className="text-sm text-gray-500">No API keys yet.</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr>
+                <th className={thClass}>Name</th>
+                <th className={thClass}>Key</th>
+                <th className={thClass}>Scopes</th>
+                <th className={thClass}>Created</th>
+                <th className={thClass}>Last Used</th>
+                <th className={thClass}></th>
+              </tr>
+            </thead>
+            <tbody>
+              {apiKeys.map((apiKey) => (
+                <tr key={apiKey.id} className={apiKey.revokedAt ? 'opacity-60' : ''}>
+                  <td className={tdClass}>{apiKey.name}</td>
+                  <td className={`${tdClass} font-mono`}>{apiKey.prefix}…</td>
+                  <td className={tdClass}>{apiKey.scopes.map((scope) => SCOPE_LABELS[scope] || scope).join(', ')}</td>
+                  <td className={tdClass}>{formatDateTime(apiKey.createdAt)}</td>
+                  <td className={tdClass}>{formatDateTime(apiKey.lastUsedAt)}</td>
+                  <td className={`${tdClass} text-right`}>
+                    {apiKey.revokedAt ? (
+                      <span className="text-gray-400">Revoked {formatDateTime(apiKey.revokedAt)}</span>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => revokeKey(apiKey)}
+                        disabled={busy}
+                        className="px-2 py-1 rounded border border-gray-600 text-gray-200 hover:bg-gray-700 disabled:opacity-60"
+                      >
+                        Revoke
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ApiKeysSection;
@@ -0,0 +1,284 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { apiCallWithErrorHandling, API_ENDPOINTS } from '../utils/api';
+import NationLink from './NationLink';
+
+interface BattleTotals {
+  battles: number;
+  wins: number;
+  soldiersKilled: number;
+  tanksKilled: number;
+  soldiersLost: number;
+  tanksLost: number;
+  infrastructureDestroyed: number;
+  infrastructureLost: number;
+  landDestroyed: number;
+  technologyDestroyed: number;
+  moneyLooted: number;
+  moneyLost: number;
+}
+
+interface BattleNationRef {
+  id: number;
+  nationName: string;
+  rulerName: string;
+  allianceId: number;
+  allianceName: string;
+}
+
+interface NationBattleStats {
+  nationId: number;
+  nationName: string;
+  rulerName: string;
+  allianceId: number;
+  allianceName: string;
+  attacking: BattleTotals;
+  defending: BattleTotals;
+}
+
+interface WarBattleStats {
+  warId: number;
+  status: string;
+  date: string;
+  endDate: string;
+  declaringNation: BattleNationRef;
+  receivingNation: BattleNationRef;
+  declaring: BattleTotals;
+  receiving: BattleTotals;
+}
+
+interface IngestResult {
+  parsed: number;
+  added: number;
+  skipped: number;
+  unrecognized: number;
+  unmatchedNations: number;
+  unmatchedWars: number;
+}
+
+interface BattleReportsProps {
+  filter: string;
+}
+
+const formatNumber = (value: number, digits = 0): string =>
+  new Intl.NumberFormat('en-US', { minimumFractionDigits: 0, maximumFractionDigits: digits }).format(value);
+
+const thClass = 'px-2 py-2 border-b border-gray-600 text-left text-gray-300 font-semibold whitespace-nowrap';
+const tdClass = 'px-2 py-2 border-b border-gray-700/50 text-gray-200 whitespace-nowrap';
+
+/**
+ * Battle reports pasted from the game inbox: ingest form plus per-nation and per-war totals
+ */
+const BattleReports: React.FC<BattleReportsProps> = ({ filter }) => {
+  const { hasCapabilityAnywhere } = useAuth();
+  const canIngest = hasCapabilityAnywhere('ingest_wars');
+  const [nationStats, setNationStats] = useState<NationBattleStats[]>([]);
+  const [warStats, setWarStats] = useState<WarBattleStats[]>([]);
+  const [text, setText] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<IngestResult | null>(null);
+  const [view, setView] = useState<'nations' | 'wars'>('nations');
+
+  const load = useCallback(async () => {
+    try {
+      const [nationsRes, warsRes] = await Promise.all([
+        apiCallWithErrorHandling(API_ENDPOINTS.battleNationStats),
+        apiCallWithErrorHandling(API_ENDPOINTS.battleWarStats),
+      ]);
+      setNationStats(nationsRes.data || []);
+      setWarStats(warsRes.data || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load battle reports');
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleIngest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    setResult(null);
+    try {
+      const response = await apiCallWithErrorHandling(API_ENDPOINTS.battleIngest, {
+        method: 'POST',
+        body: JSON.stringify({ text }),
+      });
+      setResult(response.data);
+      setText('');
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to ingest battle reports');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const normalizedFilter = filter.trim().toLowerCase();
+  const filteredNations = useMemo(() => {
+    if (!normalizedFilter) return nationStats;
+    return nationStats.filter((row) => row.allianceName.toLowerCase().includes(normalizedFilter));
+  }, [nationStats, normalizedFilter]);
+  const filteredWars = useMemo(() => {
+    if (!normalizedFilter) return warStats;
+    return warStats.filter((row) =>
+      row.declaringNation.allianceName.toLowerCase().includes(normalizedFilter) ||
+      row.receivingNation.allianceName.toLowerCase().includes(normalizedFilter)
+    );
+  }, [warStats, normalizedFilter]);
+
+  const tabClass = (active: boolean) =>
+    `px-3 py-1.5 rounded text-sm font-medium ${active ? 'bg-primary text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`;
+
+  return (
+    <div className="mt-8 pt-6 border-t border-gray-700">
+      <h2 className="text-xl font-bold text-gray-200 mb-1">Battle Reports</h2>
+      {canIngest ? (
+        <p className="text-sm text-gray-400 mb-4">
+          Paste ground, air and naval battle messages from your inbox. Each battle is matched to its nations and war;
+          pasting the same messages again does not double count them.
+        </p>
+      ) : (
+        <p className="text-sm text-gray-400 mb-4">Admins, alliance managers and war managers can submit battle messages here.</p>
+      )}
+
+      {canIngest && (
+        <form onSubmit={handleIngest} className="mb-4">
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            rows={5}
+            placeholder={'TO: ... | FROM: ...\nTYPE: Ground Battle ... | DATE: ...'}
+            className="w-full p-2 rounded border border-gray-600 bg-gray-900 text-gray-200 text-sm font-mono"
+          />
+          <button
+            type="submit"
+            disabled={submitting || !text.trim()}
+            className="mt-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white px-4 py-2 rounded text-sm font-bold"
+          >
+            {submitting ? 'Submitting...' : 'Submit Battles'}
+          </button>
+        </form>
+      )}
+
+      {error && <div className="mb-3 p-2 rounded bg-red-900/40 border border-red-700 text-red-300 text-sm">{error}</div>}
+      {result && (
+        <div className="mb-3 p-2 rounded bg-green-900/40 border border-green-700 text-green-300 text-sm">
+          {result.added} new battles stored, {result.skipped} already known
+          {result.unrecognized > 0 && `, ${result.unrecognized} messages were not battles`}
+          {result.unmatchedNations > 0 && `, ${result.unmatchedNations} with unknown nations`}
+          {result.unmatchedWars > 0 && `, ${result.unmatchedWars} without a matching war`}
+        </div>
+      )}
+
+      <div className="flex gap-2 mb-3">
+        <button type="button" className={tabClass(view === 'nations')} onClick={() => setView('nations')}>
+          By Nation ({filteredNations.length})
+        </button>
+        <button type="button" className={tabClass(view === 'wars')} onClick={() => setView('wars')}>
+          By War ({filteredWars.length})
+        </button>
+      </div>
+
+      {view === 'nations' && (
+        <div className="overflow-x-auto max-h-[65vh] overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr>
+                <th className={thClass}>Nation</th>
+                <th className={thClass}>Alliance</th>
+                <th className={`${thClass} text-right`}>Attacks (W)</th>
+                <th className={`${thClass} text-right`}>Defenses (W)</th>
+                <th className={`${thClass} text-right`}>Soldiers Killed</th>
+                <th className={`${thClass} text-right`}>Tanks Killed</th>
+                <th className={`${thClass} text-right`}>Infra Destroyed</th>
+                <th className={`${thClass} text-right`}>Infra Lost</th>
+                <th className={`${thClass} text-right`}>Money Looted</th>
+              </tr>
+            </thead>
+            <tbody>
+              {filteredNations.length === 0 && (
+                <tr>
+                  <td colSpan={9} className="p-3 text-center text-gray-400">No battle reports yet.</td>
+                </tr>
+              )}
+              {filteredNations.map((row) => (
+                <tr key={row.nationId} className="hover:bg-gray-700/30">
+                  <td className={tdClass}>
+                    <NationLink nationId={row.nationId} nationName={row.nationName} />
+                    <div className="text-xs text-gray-400">{row.rulerName}</div>
+                  </td>
+                  <td className={tdClass}>{row.allianceName}</td>
+                  <td className={`${tdClass} text-right`}>{row.attacking.battles} ({row.attacking.wins})</td>
+                  <td className={`${tdClass} text-right`}>{row.defending.battles} ({row.defending.wins})</td>
+                  <td className={`${tdClass} text-right`}>{formatNumber(row.attacking.soldiersKilled + row.defending.soldiersKilled)}</td>
+                  <td className={`${tdClass} text-right`}>{formatNumber(row.attacking.tanksKilled + row.defending.tanksKilled)}</td>
+                  <td className={`${tdClass} text-right`}>{formatNumber(row.attacking.infrastructureDestroyed, 2)}</td>
+                  <td className={`${tdClass} text-right`}>{formatNumber(row.defending.infrastructureLost, 2)}</td>
+                  <td className={`${tdClass} text-right`}>${formatNumber(row.attacking.moneyLooted)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {view === 'wars' && (
+        <div className="overflow-x-auto max-h-[65vh] overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr>
+                <th className={thClass}>War</th>
+                <th className={thClass}>Declaring</th>
+                <th className={thClass}>Receiving</th>
+                <th className={`${thClass} text-right`}>Battles</th>
+                <th className={`${thClass} text-right`}>Soldiers Killed</th>
+                <th className={`${thClass} text-right`}>Infra Destroyed</th>
+                <th className={`${thClass} text-right`}>Money Looted</th>
+              </tr>
+            </thead>
+            <tbody>
+              {filteredWars.length === 0 && (
+                <tr>
+                  <td colSpan={7} className="p-3 text-center text-gray-400">No battles matched to wars yet.</td>
+                </tr>
+              )}
+              {filteredWars.map((row) => (
+                <tr key={row.warId} className="hover:bg-gray-700/30">
+                  <td className={tdClass}>
+                    #{row.warId}
+                    <div className="text-xs text-gray-400">{row.status} · {row.date}</div>
+                  </td>
+                  <td className={tdClass}>
+                    <NationLink nationId={row.declaringNation.id} nationName={row.declaringNation.nationName} />
+                    <div className="text-xs text-gray-400">{row.declaringNation.allianceName}</div>
+                  </td>
+                  <td className={tdClass}>
+                    <NationLink nationId={row.receivingNation.id} nationName={row.receivingNation.nationName} />
+                    <div className="text-xs text-gray-400">{row.receivingNation.allianceName}</div>
+                  </td>
+                  <td className={`${tdClass} text-right`}>{row.declaring.battles}</td>
+                  <td className={`${tdClass} text-right`}>
+                    {formatNumber(row.declaring.soldiersKilled)} / {formatNumber(row.receiving.soldiersKilled)}
+                  </td>
+                  <td className={`${tdClass} text-right`}>
+                    {formatNumber(row.declaring.infrastructureDestroyed, 2)} / {formatNumber(row.receiving.infrastructureDestroyed, 2)}
+                  </td>
+                  <td className={`${tdClass} text-right`}>
+                    ${formatNumber(row.declaring.moneyLooted)} / ${formatNumber(row.receiving.moneyLooted)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="mt-2 text-xs text-gray-500">Figures are declaring / receiving side.</div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BattleReports;
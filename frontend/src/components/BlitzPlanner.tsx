@@ -0,0 +1,291 @@
+import React, { useMemo, useState } from 'react';
+import { apiCallWithErrorHandling, API_ENDPOINTS } from '../utils/api';
+import { useAlliances } from '../contexts/AlliancesContext';
+import NationLink from './NationLink';
+import { getCentralTodayYmd } from '../utils/dates';
+
+interface BlitzAttacker {
+  id: number;
+  rulerName: string;
+  nationName: string;
+  strength: number;
+  nuclearWeapons: number;
+  openSlots: number;
+}
+
+interface BlitzPlanTarget {
+  defender: {
+    id: number;
+    rulerName: string;
+    nationName: string;
+    strength: number;
+    nuclearWeapons: number;
+    openSlots: number;
+  };
+  attackers: { attackerId: number; strengthRatio: number; hasNukes: boolean }[];
+  candidateIds: number[];
+}
+
+interface BlitzPlan {
+  assignmentDate: string;
+  targets: BlitzPlanTarget[];
+  attackers: BlitzAttacker[];
+  totalAssignments: number;
+}
+
+interface BlitzPlannerProps {
+  /** Alliance being attacked (the War Management page alliance) */
+  allianceId: number;
+  /** Alliances selected under "Assign Alliances" */
+  attackingAllianceIds: number[];
+  onCommitted: () => void;
+}
+
+const SLOTS_PER_DEFENDER = 3;
+
+const formatNumber = (value: number): string =>
+  new Intl.NumberFormat('en-US', { maximumFractionDigits: 0 }).format(value);
+
+const thClass = 'p-2 border-b border-gray-600 text-left text-gray-300 font-semibold whitespace-nowrap';
+const tdClass = 'p-2 border-b border-gray-700/50 text-gray-200 align-top';
+const inputClass = 'px-2 py-1 rounded border border-gray-600 bg-gray-800 text-gray-200 text-sm focus:outline-none focus:border-secondary';
+
+/**
+ * Blitz planner: proposes up to three attackers for every open defender, lets war managers
+ * swap or drop attackers, and commits the result as war assignments for the chosen date.
+ */
+const BlitzPlanner: React.FC<BlitzPlannerProps> = ({ allianceId, attackingAllianceIds, onCommitted }) => {
+  const { alliances } = useAlliances();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [selectedAttackingId, setSelectedAttackingId] = useState<number | null>(null);
+  const [date, setDate] = useState(getCentralTodayYmd);
+  const [plan, setPlan] = useState<BlitzPlan | null>(null);
+  const [picks, setPicks] = useState<Record<number, (number | null)[]>>({});
+  const [loading, setLoading] = useState(false);
+  const [committing, setCommitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const attackingAllianceId =
+    selectedAttackingId !== null && attackingAllianceIds.includes(selectedAttackingId)
+      ? selectedAttackingId
+      : attackingAllianceIds[0] ?? null;
+
+  const attackersById = useMemo(
+    () => new Map((plan?.attackers || []).map((attacker) => [attacker.id, attacker])),
+    [plan]
+  );
+
+  // How many planned wars each attacker currently has in the edited plan
+  const usage = useMemo(() => {
+    const counts = new Map<number, number>();
+    Object.values(picks).forEach((slots) =>
+      slots.forEach((id) => {
+        if (id !== null) counts.set(id, (counts.get(id) || 0) + 1);
+      })
+    );
+    return counts;
+  }, [picks]);
+
+  const pickedCount = Array.from(usage.values()).reduce((sum, count) => sum + count, 0);
+  const idleAttackers = (plan?.attackers || []).filter((attacker) => (usage.get(attacker.id) || 0) < attacker.openSlots);
+
+  const generatePlan = async () => {
+    if (attackingAllianceId === null) return;
+    setLoading(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const data = await apiCallWithErrorHandling(API_ENDPOINTS.blitzPlan(allianceId, attackingAllianceId, date));
+      const nextPlan: BlitzPlan = data.plan;
+      const nextPicks: Record<number, (number | null)[]> = {};
+      nextPlan.targets.forEach((target) => {
+        const slots = Math.min(SLOTS_PER_DEFENDER, target.defender.openSlots);
+        nextPicks[target.defender.id] = Array.from({ length: slots }, (_, i) => target.attackers[i]?.attackerId ?? null);
+      });
+      setPlan(nextPlan);
+      setPicks(nextPicks);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to plan blitz');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const setPick = (defenderId: number, slot: number, attackerId: number | null) => {
+    setPicks((prev) => {
+      const slots = [...(prev[defenderId] || [])];
+      slots[slot] = attackerId;
+      return { ...prev, [defenderId]: slots };
+    });
+  };
+
+  const commitPlan = async () => {
+    if (!plan) return;
+    const assignments = Object.entries(picks).flatMap(([defenderId, slots]) =>
+      slots
+        .filter((id): id is number => id !== null)
+        .map((attackerNationId) => ({ attackerNationId, defenderNationId: Number(defenderId) }))
+    );
+    if (assignments.length === 0) return;
+
+    setCommitting(true);
+    setError(null);
+    try {
+      const data = await apiCallWithErrorHandling(API_ENDPOINTS.warAssignmentsBatch(allianceId), {
+        method: 'POST',
+        body: JSON.stringify({ assignmentDate: plan.assignmentDate, assignments }),
+      });
+      setMessage(`Created ${data.assignments.length} assignments for ${plan.assignmentDate}`);
+      setPlan(null);
+      setPicks({});
+      onCommitted();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to commit blitz plan');
+    } finally {
+      setCommitting(false);
+    }
+  };
+
+  const allianceName = (id: number) => alliances.find((alliance) => alliance.id === id)?.name || `Alliance ${id}`;
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-lg">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full p-4 text-left flex items-center justify-between hover:bg-gray-700 transition-colors rounded-t-lg"
+      >
+        <h4 className="m-0 text-sm font-bold text-gray-200">Blitz Planner</h4>
+        <span className="text-gray-400 text-lg">{isExpanded ? '▼' : '▶'}</span>
+      </button>
+      {isExpanded && (
+        <div className="p-4 pt-0 text-sm">
+          {attackingAllianceIds.length === 0 ? (
+            <div className="text-gray-400">Select one of your alliances under Assign Alliances to plan a blitz.</div>
+          ) : (
+            <div className="flex flex-wrap items-center gap-3 mb-3">
+              <label className="text-gray-200 font-medium">
+                Attacking alliance{' '}
+                <select
+                  value={attackingAllianceId ?? ''}
+                  onChange={(e) => setSelectedAttackingId(parseInt(e.target.value, 10))}
+                  className={inputClass}
+                >
+                  {attackingAllianceIds.map((id) => (
+                    <option key={id} value={id}>{allianceName(id)}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-gray-200 font-medium">
+                Blitz date{' '}
+                <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={inputClass} />
+              </label>
+              <button
+                type="button"
+                onClick={generatePlan}
+                disabled={loading || !date || attackingAllianceId === null}
+                className="px-3 py-1.5 rounded bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white font-semibold"
+              >
+                {loading ? 'Planning...' : plan ? 'Re-plan' : 'Generate Plan'}
+              </button>
+            </div>
+          )}
+
+          {error && <div className="mb-3 p-2 rounded bg-red-900/40 border border-red-700 text-red-300">{error}</div>}
+          {message && <div className="mb-3 p-2 rounded bg-green-900/40 border border-green-700 text-green-300">{message}</div>}
+
+          {plan && (
+            <>
+              <div className="mb-2 text-gray-400">
+                {pickedCount} wars planned against {plan.targets.length} targets for {plan.assignmentDate}
+                {idleAttackers.length > 0 && `, ${idleAttackers.length} attackers with unused slots`}
+              </div>
+              <div className="overflow-x-auto max-h-[60vh] overflow-y-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr>
+                      <th className={thClass}>Defender</th>
+                      <th className={`${thClass} text-right`}>NS</th>
+                      <th className={`${thClass} text-right`}>Open</th>
+                      {Array.from({ length: SLOTS_PER_DEFENDER }, (_, i) => (
+                        <th key={i} className={thClass}>Attacker {i + 1}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {plan.targets.map((target) => {
+                      const slots = picks[target.defender.id] || [];
+                      return (
+                        <tr key={target.defender.id} className="hover:bg-gray-700/30">
+                          <td className={tdClass}>
+                            <NationLink nationId={target.defender.id} nationName={target.defender.nationName} />
+                            <div className="text-xs text-gray-400">{target.defender.rulerName}</div>
+                          </td>
+                          <td className={`${tdClass} text-right`}>{formatNumber(target.defender.strength)}</td>
+                          <td className={`${tdClass} text-right`}>{target.defender.openSlots}</td>
+                          {Array.from({ length: SLOTS_PER_DEFENDER }, (_, slot) => (
+                            <td key={slot} className={tdClass}>
+                              {slot < slots.length ? (
+                                <select
+                                  value={slots[slot] ?? ''}
+                                  onChange={(e) =>
+                                    setPick(target.defender.id, slot, e.target.value ? parseInt(e.target.value, 10) : null)
+                                  }
+                                  className={`${inputClass} max-w-[220px]`}
+                                >
+                                  <option value="">— none —</option>
+                                  {target.candidateIds.map((id) => {
+                                    const attacker = attackersById.get(id);
+                                    if (!attacker) return null;
+                                    const selectedHere = slots.includes(id);
+                                    const full = (usage.get(id) || 0) >= attacker.openSlots;
+                                    const ratio = Math.round((attacker.strength / target.defender.strength) * 100);
+                                    return (
+                                      <option
+                                        key={id}
+                                        value={id}
+                                        disabled={slots[slot] !== id && (selectedHere || full)}
+                                      >
+                                        {attacker.nationName} ({ratio}%{attacker.nuclearWeapons > 0 ? `, ${attacker.nuclearWeapons} nukes` : ''})
+                                        {slots[slot] !== id && full ? ' — full' : ''}
+                                      </option>
+                                    );
+                                  })}
+                                </select>
+                              ) : (
+                                <span className="text-gray-500">—</span>
+                              )}
+                            </td>
+                          ))}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+              {idleAttackers.length > 0 && (
+                <div className="mt-2 text-xs text-gray-400">
+                  Unused: {idleAttackers.map((attacker) =>
+                    `${attacker.nationName} (${attacker.openSlots - (usage.get(attacker.id) || 0)})`
+                  ).join(', ')}
+                </div>
+              )}
+              <div className="mt-3 flex justify-end">
+                <button
+                  type="button"
+                  onClick={commitPlan}
+                  disabled={committing || pickedCount === 0}
+                  className="px-3 py-1.5 rounded bg-green-700 hover:bg-green-600 disabled:opacity-60 text-white font-semibold"
+                >
+                  {committing ? 'Assigning...' : `Assign ${pickedCount} Wars`}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BlitzPlanner;
@@ -3,6 +3,7 @@ import { useState, useEffect } from 'react';
 import { tableClasses } from '../styles/tableClasses';
 import WarStatusBadge from './WarStatusBadge';
 import clsx from 'clsx';
+import { gameId } from '../utils/gameServer';
 
 // Custom hook for debouncing values
 function useDebounce<T>(value: T, delay: number): T {
@@ -156,7 +157,7 @@ interface NationCellProps {
 export const NationCell: React.FC<NationCellProps> = ({ nation }) => (
   <div>
     <a 
-      href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${nation.nation_id}`}
+      href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(nation.nation_id)}`}
       target="_blank" 
       rel="noopener noreferrer"
       className="text-secondary no-underline font-semibold text-[15px] transition-colors hover:text-blue-700"
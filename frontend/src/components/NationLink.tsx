@@ -1,4 +1,5 @@
 import React from 'react';
+import { Link } from 'react-router-dom';
 import clsx from 'clsx';
 
 export interface NationLinkProps {
@@ -9,6 +10,10 @@ export interface NationLinkProps {
   showId?: boolean;
 }
 
+/**
+ * Link to our nation profile page (/nation/:nationId).
+ * The profile page links out to the nation on the game site.
+ */
 const NationLink: React.FC<NationLinkProps> = ({ 
   nationId, 
   nationName, 
@@ -17,18 +22,15 @@ const NationLink: React.FC<NationLinkProps> = ({
   showId = false
 }) => {
   return (
-    <a 
-      href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${nationId}`}
-      target="_blank"
-      rel="noopener noreferrer"
+    <Link 
+      to={`/nation/${nationId}`}
       className={clsx('text-primary no-underline font-semibold hover:underline', className)}
       style={style}
     >
       {nationName}
       {showId && <span className="text-gray-600 font-normal ml-1">({nationId})</span>}
-    </a>
+    </Link>
   );
 };
 
 export default NationLink;
-
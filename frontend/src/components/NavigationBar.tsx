@@ -6,6 +6,7 @@ import { useAuth } from '../contexts/AuthContext';
 import LoginButton from './LoginButton';
 import NavigationDropdown, { MobileNavigationDropdown } from './NavigationDropdown';
 import UpdateRulerNameModal from './UpdateRulerNameModal';
+import { GAME_SERVER_OPTIONS, type GameServer } from '../utils/gameServer';
 
 interface NavigationBarProps {
   selectedAllianceId: number | null;
@@ -16,19 +17,21 @@ const NavigationBar: React.FC<NavigationBarProps> = ({
   selectedAllianceId, 
   setSelectedAllianceId 
 }) => {
-  const { alliances, loading, error } = useAlliances();
-  const { isAuthenticated, user, logout, isLoading: authLoading, hasCapability } = useAuth();
+  const { alliances, loading, error, gameServer, setGameServer } = useAlliances();
+  const { isAuthenticated, user, logout, isLoading: authLoading, hasCapability, manageableAllianceIds } = useAuth();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const [showRulerNameModal, setShowRulerNameModal] = useState(false);
   const location = useLocation();
   const navigate = useNavigate();
 
-  const canManageNations = isAuthenticated && user && (hasCapability('manage_all_alliance') || (user.managedAllianceIds?.length ?? 0) > 0);
+  const canManageNations = isAuthenticated && user && (hasCapability('manage_all_alliance') || manageableAllianceIds.length > 0);
   const showAdminMenu = isAuthenticated && user && (hasCapability('manage_users') || hasCapability('manage_all_alliance') || canManageNations);
 
   // Define navigation structure
   const aidToolsItems = [
     { label: 'Aid', path: selectedAllianceId ? `/aid/${selectedAllianceId}` : '/aid' },
+    { label: 'Aid Calendar', path: selectedAllianceId ? `/aid-calendar/${selectedAllianceId}` : '/aid-calendar' },
+    { label: 'Aid Cancellations', path: selectedAllianceId ? `/aid-cancellations/${selectedAllianceId}` : '/aid-cancellations' },
     { label: 'Interalliance Aid', path: '/interalliance-aid' },
   ];
 
@@ -56,7 +59,8 @@ const NavigationBar: React.FC<NavigationBarProps> = ({
 
   const adminItems = [
     ...(user && hasCapability('manage_users') ? [{ label: 'User Management', path: '/admin/users' }, { label: 'Role Capabilities', path: '/admin/role-capabilities' }] : []),
-    ...(user && hasCapability('manage_all_alliance') ? [{ label: 'Nation & War Management', path: '/admin' }] : []),
+    ...(user && hasCapability('manage_all_alliance') ? [{ label: 'Nation & War Management', path: '/admin' }, { label: 'Sync Runs', path: '/admin/sync-runs' }, { label: 'War Reconciliation', path: '/admin/war-reconciliation' }] : []),
+    ...(user && hasCapability('view_audit_log') ? [{ label: 'Audit Log', path: '/admin/audit-log' }] : []),
     ...(canManageNations ? [{ label: 'Alliance Manager', path: selectedAllianceId ? `/nations/${selectedAllianceId}` : '/nations' }] : []),
   ].sort((a, b) => a.label.localeCompare(b.label));
 
@@ -89,6 +93,12 @@ const NavigationBar: React.FC<NavigationBarProps> = ({
       case 'aid':
         pageTitle = 'Aid Tools - Aid';
         break;
+      case 'aid-calendar':
+        pageTitle = 'Aid Tools - Aid Calendar';
+        break;
+      case 'aid-cancellations':
+        pageTitle = 'Aid Tools - Aid Cancellations';
+        break;
       case 'interalliance-aid':
         pageTitle = 'Aid Tools - Interalliance Aid';
         break;
@@ -137,12 +147,21 @@ const NavigationBar: React.FC<NavigationBarProps> = ({
       case 'events':
         pageTitle = 'Events';
         break;
+      case 'me':
+        pageTitle = 'My Nation';
+        break;
       case 'admin':
         pageTitle = subPath === 'users'
           ? 'Admin - User Management'
           : subPath === 'role-capabilities'
             ? 'Admin - Role Capabilities'
-            : 'Admin - Nation & War Management';
+            : subPath === 'sync-runs'
+              ? 'Admin - Sync Runs'
+              : subPath === 'war-reconciliation'
+                ? 'Admin - War Reconciliation'
+                : subPath === 'audit-log'
+                  ? 'Admin - Audit Log'
+                  : 'Admin - Nation & War Management';
         break;
       default:
         pageTitle = 'CyberNations';
@@ -164,7 +183,7 @@ const NavigationBar: React.FC<NavigationBarProps> = ({
     const tabName = pathParts[1];
     const searchParams = new URLSearchParams(location.search);
     
-    if (allianceId && tabName && ['aid', 'nations', 'wars', 'mobilization'].includes(tabName)) {
+    if (allianceId && tabName && ['aid', 'aid-calendar', 'aid-cancellations', 'nations', 'wars', 'mobilization'].includes(tabName)) {
       navigate(`/${tabName}/${allianceId}`);
     } else if (allianceId && tabName === 'aid') {
       navigate(`/${tabName}/${allianceId}`);
@@ -198,6 +217,20 @@ const NavigationBar: React.FC<NavigationBarProps> = ({
     }
   };
 
+  // Alliance ids differ between servers, so drop the selection and any alliance in the URL
+  const handleGameServerChange = (server: GameServer) => {
+    setGameServer(server);
+    setSelectedAllianceId(null);
+
+    const pathParts = location.pathname.split('/');
+    const tabName = pathParts[1];
+    if (pathParts[2] && ['aid', 'aid-calendar', 'aid-cancellations', 'nations', 'wars', 'mobilization'].includes(tabName)) {
+      navigate(`/${tabName}`);
+    } else if (tabName === 'nation') {
+      navigate('/');
+    }
+  };
+
   const isActiveTab = (tabName: string): boolean => {
     const pathParts = location.pathname.split('/');
     return pathParts[1] === tabName;
@@ -211,6 +244,10 @@ const NavigationBar: React.FC<NavigationBarProps> = ({
     switch(tabName) {
       case 'aid':
         return 'Aid Tools - Aid';
+      case 'aid-calendar':
+        return 'Aid Tools - Aid Calendar';
+      case 'aid-cancellations':
+        return 'Aid Tools - Aid Cancellations';
       case 'interalliance-aid':
         return 'Aid Tools - Interalliance Aid';
       case 'nations':
@@ -243,10 +280,18 @@ const NavigationBar: React.FC<NavigationBarProps> = ({
         return 'Stats - Donations (Estimated)';
       case 'events':
         return 'Events';
+      case 'me':
+        return 'My Nation';
       case 'admin':
         return subPath === 'users'
           ? 'Admin - User Management'
-          : 'Admin - Nation & War Management';
+          : subPath === 'sync-runs'
+            ? 'Admin - Sync Runs'
+            : subPath === 'war-reconciliation'
+              ? 'Admin - War Reconciliation'
+              : subPath === 'audit-log'
+                ? 'Admin - Audit Log'
+                : 'Admin - Nation & War Management';
       default:
         return 'CyberNations';
     }
@@ -265,7 +310,7 @@ const NavigationBar: React.FC<NavigationBarProps> = ({
     }
     
     // Only these pages use the alliance selector (events has its own filter, so excluded)
-    return ['aid', 'nations', 'wars', 'mobilization', 'nation-aid-efficiency', 'interalliance-aid'].includes(tabName);
+    return ['aid', 'aid-calendar', 'aid-cancellations', 'nations', 'wars', 'mobilization', 'nation-aid-efficiency', 'interalliance-aid'].includes(tabName);
   };
 
   // Check if we're on the nations page
@@ -280,7 +325,7 @@ const NavigationBar: React.FC<NavigationBarProps> = ({
       if (hasCapability('manage_all_alliance')) {
         return alliances;
       }
-      return alliances.filter((alliance) => (user.managedAllianceIds ?? []).includes(alliance.id));
+      return alliances.filter((alliance) => manageableAllianceIds.includes(alliance.id));
     }
     return alliances;
   };
@@ -322,6 +367,19 @@ const NavigationBar: React.FC<NavigationBarProps> = ({
           >
             Events
           </Link>
+          {isAuthenticated && (
+            <Link 
+              to="/me"
+              className={clsx(
+                'no-underline px-4 py-2.5 rounded-lg transition-all duration-200 font-medium text-sm whitespace-nowrap',
+                isActiveTab('me') 
+                  ? 'bg-primary text-white font-semibold shadow-md' 
+                  : 'text-gray-300 hover:bg-gray-800 hover:text-white'
+              )}
+            >
+              My Nation
+            </Link>
+          )}
           {showAdminMenu && (
             <NavigationDropdown label="Admin" items={adminItems} />
           )}
@@ -332,8 +390,21 @@ const NavigationBar: React.FC<NavigationBarProps> = ({
           {getCurrentTabName()}
         </div>
 
-        {/* Alliance Selector and Auth - responsive sizing to prevent overlap */}
+        {/* Server and Alliance Selectors and Auth - responsive sizing to prevent overlap */}
         <div className="flex items-center gap-1 sm:gap-2 lg:gap-3 flex-shrink-0 min-w-0">
+          <select
+            value={gameServer}
+            onChange={(e) => handleGameServerChange(e.target.value as GameServer)}
+            title={GAME_SERVER_OPTIONS.find((option) => option.value === gameServer)?.label}
+            aria-label="Game server"
+            className="px-1 sm:px-2 py-1.5 sm:py-2 lg:py-2.5 text-xs sm:text-sm rounded-lg border-2 border-gray-600 bg-gray-800 text-gray-200 font-medium hover:border-gray-500 focus:outline-none focus:border-primary focus:ring-2 focus:ring-primary/20 cursor-pointer transition-all duration-200 flex-shrink-0"
+          >
+            {GAME_SERVER_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.value}
+              </option>
+            ))}
+          </select>
           <label className="hidden md:block font-semibold text-xs lg:text-sm text-gray-300 whitespace-nowrap">
             Alliance:
           </label>
@@ -425,6 +496,20 @@ const NavigationBar: React.FC<NavigationBarProps> = ({
             >
               Events
             </Link>
+            {isAuthenticated && (
+              <Link 
+                to="/me"
+                onClick={() => setMobileMenuOpen(false)}
+                className={clsx(
+                  'no-underline px-4 py-3 rounded-lg transition-all duration-200 font-medium text-sm',
+                  isActiveTab('me') 
+                    ? 'bg-primary text-white font-semibold shadow-md' 
+                    : 'text-gray-300 hover:bg-gray-800 hover:text-white'
+                )}
+              >
+                My Nation
+              </Link>
+            )}
             {showAdminMenu && (
               <MobileNavigationDropdown 
                 label="Admin" 
@@ -0,0 +1,338 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { apiCallWithErrorHandling, API_ENDPOINTS } from '../utils/api';
+
+interface Subscription {
+  id: number;
+  name: string;
+  webhookUrl: string;
+  eventTypes: string[];
+  targetAllianceIds: number[];
+  minStrength: number | null;
+  isActive: boolean;
+  createdAt: string;
+}
+
+interface Delivery {
+  id: number;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  eventIds: number[];
+  responseStatus: number | null;
+  lastError: string | null;
+  nextAttemptAt: string | null;
+  deliveredAt: string | null;
+  createdAt: string;
+  subscription: { id: number; name: string };
+}
+
+interface NotificationSubscriptionsProps {
+  allianceId: number;
+}
+
+const emptyForm = {
+  name: '',
+  webhookUrl: '',
+  eventTypes: [] as string[],
+  targetAllianceIds: '',
+  minStrength: '',
+};
+
+const STATUS_CLASSES: Record<Delivery['status'], string> = {
+  delivered: 'text-green-400',
+  pending: 'text-yellow-400',
+  failed: 'text-red-400',
+};
+
+/**
+ * Discord webhook subscriptions and delivery log for an alliance (alliance managers only)
+ */
+const NotificationSubscriptions: React.FC<NotificationSubscriptionsProps> = ({ allianceId }) => {
+  const [eventTypes, setEventTypes] = useState<string[]>([]);
+  const [subscriptions, setSubscriptions] = useState<Subscription[]>([]);
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      setError(null);
+      const [typesData, subscriptionsData, deliveriesData] = await Promise.all([
+        apiCallWithErrorHandling(API_ENDPOINTS.notificationEventTypes),
+        apiCallWithErrorHandling(API_ENDPOINTS.notificationSubscriptions(allianceId)),
+        apiCallWithErrorHandling(`${API_ENDPOINTS.notificationDeliveries(allianceId)}?limit=50`),
+      ]);
+      setEventTypes(typesData.eventTypes || []);
+      setSubscriptions(subscriptionsData.subscriptions || []);
+      setDeliveries(deliveriesData.deliveries || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load notifications');
+    }
+  }, [allianceId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const toggleFormEventType = (eventType: string) => {
+    setForm((prev) => ({
+      ...prev,
+      eventTypes: prev.eventTypes.includes(eventType)
+        ? prev.eventTypes.filter((t) => t !== eventType)
+        : [...prev.eventTypes, eventType],
+    }));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await apiCallWithErrorHandling(API_ENDPOINTS.notificationSubscriptions(allianceId), {
+        method: 'POST',
+        body: JSON.stringify({
+          name: form.name,
+          webhookUrl: form.webhookUrl,
+          eventTypes: form.eventTypes,
+          targetAllianceIds: form.targetAllianceIds
+            .split(',')
+            .map((id) => id.trim())
+            .filter(Boolean),
+          minStrength: form.minStrength === '' ? null : form.minStrength,
+        }),
+      });
+      setForm(emptyForm);
+      setMessage('Subscription created');
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create subscription');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (subscription: Subscription) => {
+    try {
+      await apiCallWithErrorHandling(API_ENDPOINTS.notificationSubscription(allianceId, subscription.id), {
+        method: 'PUT',
+        body: JSON.stringify({ isActive: !subscription.isActive }),
+      });
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update subscription');
+    }
+  };
+
+  const handleDelete = async (subscription: Subscription) => {
+    if (!window.confirm(`Delete subscription "${subscription.name}" and its delivery log?`)) {
+      return;
+    }
+    try {
+      await apiCallWithErrorHandling(API_ENDPOINTS.notificationSubscription(allianceId, subscription.id), {
+        method: 'DELETE',
+      });
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete subscription');
+    }
+  };
+
+  const handleTest = async (subscription: Subscription) => {
+    setError(null);
+    setMessage(null);
+    try {
+      await apiCallWithErrorHandling(API_ENDPOINTS.notificationSubscriptionTest(allianceId, subscription.id), {
+        method: 'POST',
+      });
+      setMessage(`Test message sent to "${subscription.name}"`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Test message failed');
+    }
+  };
+
+  const handleRetry = async (delivery: Delivery) => {
+    try {
+      await apiCallWithErrorHandling(API_ENDPOINTS.notificationDeliveryRetry(allianceId, delivery.id), {
+        method: 'POST',
+      });
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Retry failed');
+    }
+  };
+
+  const inputClass = 'w-full p-2 rounded border border-gray-600 bg-gray-900 text-gray-200 text-sm';
+
+  return (
+    <div className="mt-8 p-4 bg-gray-800 rounded-lg border border-gray-700 text-gray-200">
+      <h3 className="text-lg font-bold mb-1">Discord Notifications</h3>
+      <p className="text-sm text-gray-400 mb-4">
+        Events are posted to the webhook after each data sync. Leave target alliances empty to watch this alliance.
+      </p>
+
+      {error && <div className="mb-3 p-2 rounded bg-red-900/40 border border-red-700 text-red-300 text-sm">{error}</div>}
+      {message && <div className="mb-3 p-2 rounded bg-green-900/40 border border-green-700 text-green-300 text-sm">{message}</div>}
+
+      <table className="w-full border-collapse text-sm mb-6">
+        <thead>
+          <tr className="bg-gray-700 text-left">
+            <th className="p-2 border border-gray-600">Name</th>
+            <th className="p-2 border border-gray-600">Event Types</th>
+            <th className="p-2 border border-gray-600">Target Alliances</th>
+            <th className="p-2 border border-gray-600">Min NS</th>
+            <th className="p-2 border border-gray-600">Active</th>
+            <th className="p-2 border border-gray-600"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {subscriptions.length === 0 && (
+            <tr>
+              <td colSpan={6} className="p-3 text-center text-gray-400 border border-gray-700">
+                No subscriptions yet.
+              </td>
+            </tr>
+          )}
+          {subscriptions.map((subscription) => (
+            <tr key={subscription.id}>
+              <td className="p-2 border border-gray-700">{subscription.name}</td>
+              <td className="p-2 border border-gray-700">{subscription.eventTypes.join(', ')}</td>
+              <td className="p-2 border border-gray-700">
+                {subscription.targetAllianceIds.length > 0 ? subscription.targetAllianceIds.join(', ') : 'This alliance'}
+              </td>
+              <td className="p-2 border border-gray-700">{subscription.minStrength?.toLocaleString() ?? '—'}</td>
+              <td className="p-2 border border-gray-700">
+                <input
+                  type="checkbox"
+                  checked={subscription.isActive}
+                  onChange={() => handleToggleActive(subscription)}
+                  className="cursor-pointer"
+                />
+              </td>
+              <td className="p-2 border border-gray-700 whitespace-nowrap">
+                <button onClick={() => handleTest(subscription)} className="text-blue-400 hover:underline mr-3">
+                  Test
+                </button>
+                <button onClick={() => handleDelete(subscription)} className="text-red-400 hover:underline">
+                  Delete
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <form onSubmit={handleCreate} className="grid gap-3 mb-6 md:grid-cols-2">
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Name</label>
+          <input
+            className={inputClass}
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder="Enemy DEFCON watch"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Discord Webhook URL</label>
+          <input
+            className={inputClass}
+            value={form.webhookUrl}
+            onChange={(e) => setForm({ ...form, webhookUrl: e.target.value })}
+            placeholder="https://discord.com/api/webhooks/..."
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Target Alliance IDs (comma separated)</label>
+          <input
+            className={inputClass}
+            value={form.targetAllianceIds}
+            onChange={(e) => setForm({ ...form, targetAllianceIds: e.target.value })}
+            placeholder={String(allianceId)}
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Minimum Strength</label>
+          <input
+            className={inputClass}
+            type="number"
+            min={0}
+            value={form.minStrength}
+            onChange={(e) => setForm({ ...form, minStrength: e.target.value })}
+          />
+        </div>
+        <div className="md:col-span-2 flex flex-wrap gap-3">
+          {eventTypes.map((eventType) => (
+            <label key={eventType} className="flex items-center gap-1 text-sm cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={form.eventTypes.includes(eventType)}
+                onChange={() => toggleFormEventType(eventType)}
+              />
+              {eventType}
+            </label>
+          ))}
+        </div>
+        <div className="md:col-span-2">
+          <button
+            type="submit"
+            disabled={saving}
+            className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white px-4 py-2 rounded text-sm font-bold"
+          >
+            {saving ? 'Saving...' : 'Add Subscription'}
+          </button>
+        </div>
+      </form>
+
+      <h4 className="font-bold mb-2">Recent Deliveries</h4>
+      <table className="w-full border-collapse text-sm">
+        <thead>
+          <tr className="bg-gray-700 text-left">
+            <th className="p-2 border border-gray-600">Created</th>
+            <th className="p-2 border border-gray-600">Subscription</th>
+            <th className="p-2 border border-gray-600">Events</th>
+            <th className="p-2 border border-gray-600">Status</th>
+            <th className="p-2 border border-gray-600">Attempts</th>
+            <th className="p-2 border border-gray-600">Last Error</th>
+            <th className="p-2 border border-gray-600"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {deliveries.length === 0 && (
+            <tr>
+              <td colSpan={7} className="p-3 text-center text-gray-400 border border-gray-700">
+                No deliveries yet.
+              </td>
+            </tr>
+          )}
+          {deliveries.map((delivery) => (
+            <tr key={delivery.id}>
+              <td className="p-2 border border-gray-700 whitespace-nowrap">{new Date(delivery.createdAt).toLocaleString()}</td>
+              <td className="p-2 border border-gray-700">{delivery.subscription.name}</td>
+              <td className="p-2 border border-gray-700">{delivery.eventIds.length}</td>
+              <td className={`p-2 border border-gray-700 font-bold ${STATUS_CLASSES[delivery.status]}`}>
+                {delivery.status}
+                {delivery.status === 'pending' && delivery.nextAttemptAt && (
+                  <span className="block text-xs font-normal text-gray-400">
+                    retry {new Date(delivery.nextAttemptAt).toLocaleString()}
+                  </span>
+                )}
+              </td>
+              <td className="p-2 border border-gray-700">{delivery.attempts}</td>
+              <td className="p-2 border border-gray-700 text-xs text-gray-400 max-w-xs break-words">{delivery.lastError ?? ''}</td>
+              <td className="p-2 border border-gray-700">
+                {delivery.status !== 'delivered' && (
+                  <button onClick={() => handleRetry(delivery)} className="text-blue-400 hover:underline">
+                    Retry
+                  </button>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default NotificationSubscriptions;
@@ -0,0 +1,142 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { apiCallWithErrorHandling, API_ENDPOINTS } from '../utils/api';
+
+interface RulerNameVerification {
+  rulerName: string | null;
+  verified: boolean;
+  code: string | null;
+  codeExpiresAt: string | null;
+}
+
+interface RulerNameVerificationSectionProps {
+  /** Called once the ruler name has been verified */
+  onVerified?: () => void;
+}
+
+/**
+ * Lets the logged-in user prove they own the nation their ruler name points at, with a one-time
+ * code placed in their nation bio or sent to an admin by in-game message
+ */
+const RulerNameVerificationSection: React.FC<RulerNameVerificationSectionProps> = ({ onVerified }) => {
+  const { fetchAuthState } = useAuth();
+  const [verification, setVerification] = useState<RulerNameVerification | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const response = await apiCallWithErrorHandling(API_ENDPOINTS.meRulerNameVerification);
+      setVerification(response.verification);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load verification status');
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const verified = async () => {
+    await fetchAuthState();
+    onVerified?.();
+  };
+
+  const issueCode = async () => {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await apiCallWithErrorHandling(API_ENDPOINTS.meRulerNameVerification, { method: 'POST' });
+      setVerification(response.verification);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to get a verification code');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const checkCode = async () => {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await apiCallWithErrorHandling(API_ENDPOINTS.meRulerNameVerificationCheck, { method: 'POST' });
+      setVerification(response.verification);
+      if (response.found) {
+        await verified();
+      } else {
+        setMessage("The code isn't in your nation bio yet. Game pages can take a few minutes to update.");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to check your nation bio');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!verification || verification.verified) return null;
+
+  return (
+    <div className="bg-gray-800 border border-yellow-700 rounded-lg p-4 mb-4">
+      <h2 className="text-lg font-bold text-gray-200 mb-1">Verify your ruler name</h2>
+      <p className="text-sm text-gray-400 mb-3">
+        Until you show that {verification.rulerName ? <span className="text-gray-200">{verification.rulerName}</span> : 'this nation'} is
+        yours, your alliance's aid recommendations, war assignments and warchest data stay hidden here, and the Discord
+        bot won't recognise you by your ruler name.
+      </p>
+      {error && (
+        <div className="mb-3 p-2 bg-red-900/30 border border-red-700 rounded text-sm text-red-200">{error}</div>
+      )}
+      {message && (
+        <div className="mb-3 p-2 bg-yellow-900/30 border border-yellow-700 rounded text-sm text-yellow-200">{message}</div>
+      )}
+
+      {verification.code ? (
+        <>
+          <div className="mb-3">
+            <div className="text-xs text-gray-400">Your code</div>
+            <div className="font-mono text-xl text-gray-100 select-all">{verification.code}</div>
+            {verification.codeExpiresAt && (
+              <div className="text-xs text-gray-500">Expires {new Date(verification.codeExpiresAt).toLocaleString()}</div>
+            )}
+          </div>
+          <ol className="list-decimal list-inside text-sm text-gray-300 space-y-1 mb-3">
+            <li>Add the code anywhere in your nation bio in game, then check it here. You can remove it afterwards.</li>
+            <li>Or send the code to an admin by in-game message and they will confirm it for you.</li>
+          </ol>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={checkCode}
+              disabled={busy}
+              className="px-3 py-1.5 rounded bg-primary text-white text-sm font-semibold disabled:opacity-60"
+            >
+              {busy ? 'Checking...' : 'Check my nation bio'}
+            </button>
+            <button
+              type="button"
+              onClick={issueCode}
+              disabled={busy}
+              className="px-3 py-1.5 rounded border border-gray-600 text-gray-200 text-sm hover:bg-gray-700 disabled:opacity-60"
+            >
+              New code
+            </button>
+          </div>
+        </>
+      ) : (
+        <button
+          type="button"
+          onClick={issueCode}
+          disabled={busy}
+          className="px-3 py-1.5 rounded bg-primary text-white text-sm font-semibold disabled:opacity-60"
+        >
+          {busy ? 'Working...' : 'Get a verification code'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default RulerNameVerificationSection;
@@ -0,0 +1,305 @@
+import React, { useMemo, useState } from 'react';
+import { apiCallWithErrorHandling, API_ENDPOINTS } from '../utils/api';
+import { useAlliances } from '../contexts/AlliancesContext';
+import NationLink from './NationLink';
+import { getCentralTodayYmd } from '../utils/dates';
+
+interface ScheduleNation {
+  id: number;
+  rulerName: string;
+  nationName: string;
+  strength: number;
+}
+
+interface StaggerWave {
+  dayOffset: number;
+  date: string;
+  assignments: { attackerId: number; defenderId: number; expiresOnDay: number }[];
+}
+
+interface StaggerScheduleResponse {
+  startDate: string;
+  waves: StaggerWave[];
+  totalAssignments: number;
+  unfilledTargetIds: number[];
+  targets: (ScheduleNation & { currentWars: number })[];
+  attackers: (ScheduleNation & { nuclearWeapons: number })[];
+}
+
+interface ScheduleRow {
+  key: string;
+  date: string;
+  wave: number;
+  attacker: ScheduleNation & { nuclearWeapons: number };
+  defender: ScheduleNation;
+  expiresOn: string;
+}
+
+interface StaggerScheduleProps {
+  /** Alliance being attacked (the War Management page alliance) */
+  allianceId: number;
+  /** Alliances selected under "Assign Alliances" */
+  attackingAllianceIds: number[];
+  onCommitted: () => void;
+}
+
+const DAY_OPTIONS = [3, 5, 7, 10, 14];
+
+const addDays = (ymd: string, days: number): string => {
+  const date = new Date(`${ymd}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+
+const csvCell = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const downloadCsv = (rows: ScheduleRow[], filename: string) => {
+  const header = ['Wave', 'Declare On', 'Attacker Ruler', 'Attacker Nation', 'Defender Ruler', 'Defender Nation', 'Expires On'];
+  const lines = rows.map((row) =>
+    [row.wave, row.date, row.attacker.rulerName, row.attacker.nationName, row.defender.rulerName, row.defender.nationName, row.expiresOn]
+      .map(csvCell)
+      .join(',')
+  );
+  const blob = new Blob([[header.join(','), ...lines].join('\n')], { type: 'text/csv' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const thClass = 'p-2 border-b border-gray-600 text-left text-gray-300 font-semibold whitespace-nowrap';
+const tdClass = 'p-2 border-b border-gray-700/50 text-gray-200';
+const inputClass = 'px-2 py-1 rounded border border-gray-600 bg-gray-800 text-gray-200 text-sm focus:outline-none focus:border-secondary';
+
+/**
+ * Stagger schedule: one wave of declarations per day so each target's defensive wars
+ * expire on different days. Rows can be dropped, exported as CSV, or saved as dated assignments.
+ */
+const StaggerSchedule: React.FC<StaggerScheduleProps> = ({ allianceId, attackingAllianceIds, onCommitted }) => {
+  const { alliances } = useAlliances();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [selectedAttackingId, setSelectedAttackingId] = useState<number | null>(null);
+  const [startDate, setStartDate] = useState(getCentralTodayYmd);
+  const [days, setDays] = useState(7);
+  const [schedule, setSchedule] = useState<StaggerScheduleResponse | null>(null);
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(false);
+  const [committing, setCommitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const attackingAllianceId =
+    selectedAttackingId !== null && attackingAllianceIds.includes(selectedAttackingId)
+      ? selectedAttackingId
+      : attackingAllianceIds[0] ?? null;
+
+  const rows = useMemo((): ScheduleRow[] => {
+    if (!schedule) return [];
+    const attackers = new Map(schedule.attackers.map((attacker) => [attacker.id, attacker]));
+    const targets = new Map(schedule.targets.map((target) => [target.id, target]));
+    return schedule.waves.flatMap((wave) =>
+      wave.assignments.map((assignment) => ({
+        key: `${wave.dayOffset}-${assignment.attackerId}-${assignment.defenderId}`,
+        date: wave.date,
+        wave: wave.dayOffset + 1,
+        attacker: attackers.get(assignment.attackerId)!,
+        defender: targets.get(assignment.defenderId)!,
+        expiresOn: addDays(schedule.startDate, assignment.expiresOnDay),
+      }))
+    );
+  }, [schedule]);
+
+  const selectedRows = rows.filter((row) => !excluded.has(row.key));
+  const unfilledTargets = schedule
+    ? schedule.targets.filter((target) => schedule.unfilledTargetIds.includes(target.id))
+    : [];
+
+  const generateSchedule = async () => {
+    if (attackingAllianceId === null) return;
+    setLoading(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const data = await apiCallWithErrorHandling(
+        API_ENDPOINTS.staggerSchedule(allianceId, attackingAllianceId, startDate, days)
+      );
+      setSchedule(data.schedule);
+      setExcluded(new Set());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to plan stagger schedule');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleRow = (key: string) => {
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const commitSchedule = async () => {
+    if (selectedRows.length === 0) return;
+    setCommitting(true);
+    setError(null);
+    try {
+      const data = await apiCallWithErrorHandling(API_ENDPOINTS.warAssignmentsBatch(allianceId), {
+        method: 'POST',
+        body: JSON.stringify({
+          assignments: selectedRows.map((row) => ({
+            attackerNationId: row.attacker.id,
+            defenderNationId: row.defender.id,
+            assignmentDate: row.date,
+            note: `Stagger wave ${row.wave}`,
+          })),
+        }),
+      });
+      setMessage(`Created ${data.assignments.length} dated assignments`);
+      setSchedule(null);
+      onCommitted();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save stagger schedule');
+    } finally {
+      setCommitting(false);
+    }
+  };
+
+  const allianceName = (id: number) => alliances.find((alliance) => alliance.id === id)?.name || `Alliance ${id}`;
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-lg">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full p-4 text-left flex items-center justify-between hover:bg-gray-700 transition-colors rounded-t-lg"
+      >
+        <h4 className="m-0 text-sm font-bold text-gray-200">Stagger Schedule</h4>
+        <span className="text-gray-400 text-lg">{isExpanded ? '▼' : '▶'}</span>
+      </button>
+      {isExpanded && (
+        <div className="p-4 pt-0 text-sm">
+          {attackingAllianceIds.length === 0 ? (
+            <div className="text-gray-400">Select one of your alliances under Assign Alliances to plan a stagger.</div>
+          ) : (
+            <div className="flex flex-wrap items-center gap-3 mb-3">
+              <label className="text-gray-200 font-medium">
+                Attacking alliance{' '}
+                <select
+                  value={attackingAllianceId ?? ''}
+                  onChange={(e) => setSelectedAttackingId(parseInt(e.target.value, 10))}
+                  className={inputClass}
+                >
+                  {attackingAllianceIds.map((id) => (
+                    <option key={id} value={id}>{allianceName(id)}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-gray-200 font-medium">
+                First wave{' '}
+                <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={inputClass} />
+              </label>
+              <label className="text-gray-200 font-medium">
+                Days{' '}
+                <select value={days} onChange={(e) => setDays(parseInt(e.target.value, 10))} className={inputClass}>
+                  {DAY_OPTIONS.map((option) => (
+                    <option key={option} value={option}>{option}</option>
+                  ))}
+                </select>
+              </label>
+              <button
+                type="button"
+                onClick={generateSchedule}
+                disabled={loading || !startDate || attackingAllianceId === null}
+                className="px-3 py-1.5 rounded bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white font-semibold"
+              >
+                {loading ? 'Planning...' : 'Generate Schedule'}
+              </button>
+            </div>
+          )}
+
+          {error && <div className="mb-3 p-2 rounded bg-red-900/40 border border-red-700 text-red-300">{error}</div>}
+          {message && <div className="mb-3 p-2 rounded bg-green-900/40 border border-green-700 text-green-300">{message}</div>}
+
+          {schedule && (
+            <>
+              <div className="mb-2 text-gray-400">
+                {selectedRows.length} of {rows.length} declarations selected across {schedule.waves.filter((w) => w.assignments.length > 0).length} waves
+                {unfilledTargets.length > 0 && `; ${unfilledTargets.length} targets still have open slots at the end`}
+              </div>
+              <div className="overflow-x-auto max-h-[60vh] overflow-y-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr>
+                      <th className={thClass}></th>
+                      <th className={thClass}>Wave</th>
+                      <th className={thClass}>Declare On</th>
+                      <th className={thClass}>Attacker</th>
+                      <th className={thClass}>Defender</th>
+                      <th className={thClass}>Expires On</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.length === 0 && (
+                      <tr>
+                        <td colSpan={6} className="p-3 text-center text-gray-400">No declarations fit this window.</td>
+                      </tr>
+                    )}
+                    {rows.map((row) => (
+                      <tr key={row.key} className={`hover:bg-gray-700/30 ${excluded.has(row.key) ? 'opacity-40' : ''}`}>
+                        <td className={tdClass}>
+                          <input type="checkbox" checked={!excluded.has(row.key)} onChange={() => toggleRow(row.key)} />
+                        </td>
+                        <td className={tdClass}>{row.wave}</td>
+                        <td className={`${tdClass} whitespace-nowrap`}>{row.date}</td>
+                        <td className={tdClass}>
+                          <NationLink nationId={row.attacker.id} nationName={row.attacker.nationName} />
+                          {row.attacker.nuclearWeapons > 0 && (
+                            <span className="ml-2 text-xs text-yellow-300">{row.attacker.nuclearWeapons} nukes</span>
+                          )}
+                        </td>
+                        <td className={tdClass}>
+                          <NationLink nationId={row.defender.id} nationName={row.defender.nationName} />
+                        </td>
+                        <td className={`${tdClass} whitespace-nowrap`}>{row.expiresOn}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <div className="mt-3 flex justify-end gap-2">
+                <button
+                  type="button"
+                  onClick={() => downloadCsv(selectedRows, `stagger-${allianceId}-${schedule.startDate}.csv`)}
+                  disabled={selectedRows.length === 0}
+                  className="px-3 py-1.5 rounded border border-gray-600 text-gray-200 hover:bg-gray-700 disabled:opacity-60"
+                >
+                  Export CSV
+                </button>
+                <button
+                  type="button"
+                  onClick={commitSchedule}
+                  disabled={committing || selectedRows.length === 0}
+                  className="px-3 py-1.5 rounded bg-green-700 hover:bg-green-600 disabled:opacity-60 text-white font-semibold"
+                >
+                  {committing ? 'Assigning...' : `Assign ${selectedRows.length} Wars`}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StaggerSchedule;
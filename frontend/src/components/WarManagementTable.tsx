@@ -5,10 +5,13 @@ import FilterCheckbox from './FilterCheckbox';
 import NSPercentageBadge from './NSPercentageBadge';
 import AllianceMultiSelect from './AllianceMultiSelect';
 import WarchestHistoryDialog from './WarchestHistoryDialog';
+import BlitzPlanner from './BlitzPlanner';
+import StaggerSchedule from './StaggerSchedule';
 import { apiCall, apiCallWithErrorHandling, API_ENDPOINTS } from '../utils/api';
 import { tableClasses, EMPTY_CELL_BG } from '../styles/tableClasses';
 import { useAlliances } from '../contexts/AlliancesContext';
 import { useAuth } from '../contexts/AuthContext';
+import { gameId } from '../utils/gameServer';
 
 interface StaggerRecommendationsCellProps {
   rawRecommendations: any[]; // Pre-fetched recommendations passed from parent
@@ -106,7 +109,7 @@ const StaggerRecommendationsCell: React.FC<StaggerRecommendationsCellProps> = ({
             )}
             <div className="flex items-center min-w-0">
               <a 
-                href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${attacker.id}`}
+                href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(attacker.id)}`}
                 target="_blank"
                 rel="noopener noreferrer"
                 className={`no-underline font-bold hover:underline overflow-hidden overflow-ellipsis whitespace-nowrap flex-1 min-w-0 ${
@@ -278,7 +281,7 @@ const WarManagementTable: React.FC<WarManagementTableProps> = ({ allianceId }) =
   const [allWarsEndingInDays, setAllWarsEndingInDays] = useState<boolean>(false);
   const [warsEndingInDays, setWarsEndingInDays] = useState<number>(7);
   const { alliances } = useAlliances();
-  const { user, hasCapability } = useAuth();
+  const { user, capabilityAllianceIds } = useAuth();
   const [assignAllianceIds, setAssignAllianceIds] = useState<number[]>([]);
   const [staggerRecommendationsMap, setStaggerRecommendationsMap] = useState<Map<number, any[]>>(new Map());
   const fetchingStaggerRecommendationsRef = useRef(false);
@@ -365,7 +368,12 @@ const WarManagementTable: React.FC<WarManagementTableProps> = ({ allianceId }) =
     setSearchParams(newSearchParams, { replace: true });
   }, [searchParams, setSearchParams]);
 
-  const canManageAssignments = !!user && hasCapability('manage_war_assignments');
+  // Assignments are scoped to the attacking alliance: null means every alliance
+  const assignmentAllianceIds = capabilityAllianceIds('manage_war_assignments');
+  const canManageAssignments = !!user && (assignmentAllianceIds === null || assignmentAllianceIds.length > 0);
+  const plannableAllianceIds = assignmentAllianceIds === null
+    ? assignAllianceIds
+    : assignAllianceIds.filter((id) => assignmentAllianceIds.includes(id));
 
   const fetchAssignments = useCallback(async () => {
     if (!canManageAssignments || !allianceId) {
@@ -1574,6 +1582,22 @@ const WarManagementTable: React.FC<WarManagementTableProps> = ({ allianceId }) =
           )}
         </div>
         
+        {canManageAssignments && (
+          <BlitzPlanner
+            allianceId={allianceId}
+            attackingAllianceIds={plannableAllianceIds}
+            onCommitted={fetchAssignments}
+          />
+        )}
+
+        {canManageAssignments && (
+          <StaggerSchedule
+            allianceId={allianceId}
+            attackingAllianceIds={plannableAllianceIds}
+            onCommitted={fetchAssignments}
+          />
+        )}
+
         {/* Defending Nations Filter Section */}
         <div className="bg-gray-800 border border-gray-700 rounded-lg">
           <button
@@ -1723,7 +1747,7 @@ const WarManagementTable: React.FC<WarManagementTableProps> = ({ allianceId }) =
                       <div className="text-xs">
                         <strong>
                           <a 
-                            href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${nationWar.nation.id}`}
+                            href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(nationWar.nation.id)}`}
                             target="_blank"
                             rel="noopener noreferrer"
                             className={`no-underline hover:underline ${nationWar.nation.governmentType.toLowerCase() === 'anarchy' ? 'text-red-600' : 'text-primary'}`}
@@ -1808,7 +1832,7 @@ const WarManagementTable: React.FC<WarManagementTableProps> = ({ allianceId }) =
                           <div className="text-[11px]">
                             <div className="font-bold mb-0.5 text-blue-400">
                               <a 
-                                href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${defendingNation.id}`}
+                                href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(defendingNation.id)}`}
                                 target="_blank"
                                 rel="noopener noreferrer"
                                 className="text-blue-400 no-underline hover:underline"
@@ -1846,7 +1870,7 @@ const WarManagementTable: React.FC<WarManagementTableProps> = ({ allianceId }) =
                           <div className="text-[11px]">
                             <div className="font-bold mb-0.5 text-red-400">
                               <a 
-                                href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${attackingNation.id}`}
+                                href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(attackingNation.id)}`}
                                 target="_blank"
                                 rel="noopener noreferrer"
                                 className="text-red-400 no-underline hover:underline"
@@ -1,20 +1,20 @@
 import React, { useState, useEffect } from 'react';
-import { apiCall } from '../utils/api';
+import { apiCall, API_ENDPOINTS } from '../utils/api';
 
-interface WarchestSubmission {
-  id: number;
-  nationId: number | null;
-  nationName: string;
-  totalMoney: number;
-  armyXP?: number | null;
-  navyXP?: number | null;
-  airForceXP?: number | null;
-  intelligenceXP?: number | null;
-  hasAssignedGenerals: boolean;
-  assignedGenerals?: string | null;
-  killedGenerals?: string | null;
-  capturedAt: string;
-  createdAt: string;
+interface WarchestTimelineEntry {
+  source: 'spyglass' | 'spy_operation';
+  observedAt: string;
+  warchest: number;
+  daysOld: number | null;
+  submission: {
+    id: number;
+    armyXP: number | null;
+    navyXP: number | null;
+    airForceXP: number | null;
+    intelligenceXP: number | null;
+    assignedGenerals: string | null;
+    killedGenerals: string | null;
+  } | null;
 }
 
 interface WarchestHistoryDialogProps {
@@ -32,7 +32,7 @@ const WarchestHistoryDialog: React.FC<WarchestHistoryDialogProps> = ({
   nationName,
   rulerName
 }) => {
-  const [submissions, setSubmissions] = useState<WarchestSubmission[]>([]);
+  const [entries, setEntries] = useState<WarchestTimelineEntry[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -62,11 +62,11 @@ const WarchestHistoryDialog: React.FC<WarchestHistoryDialogProps> = ({
     try {
       setLoading(true);
       setError(null);
-      const response = await apiCall(`/api/warchest-submissions?nationId=${nationId}`);
+      const response = await apiCall(API_ENDPOINTS.warchestTimeline(nationId));
       const data = await response.json();
       
-      if (data.success && data.data && data.data.submissions) {
-        setSubmissions(data.data.submissions);
+      if (data.success && Array.isArray(data.data)) {
+        setEntries(data.data);
       } else {
         setError('Failed to load warchest history');
       }
@@ -88,8 +88,17 @@ const WarchestHistoryDialog: React.FC<WarchestHistoryDialogProps> = ({
     return `$${amount.toFixed(2)}`;
   };
 
-  const formatDate = (dateString: string): string => {
-    const date = new Date(dateString);
+  const formatDate = (entry: WarchestTimelineEntry): string => {
+    const date = new Date(entry.observedAt);
+    // Spyglass readings are only dated to the day
+    if (entry.source === 'spyglass') {
+      return date.toLocaleDateString('en-US', {
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric',
+        timeZone: 'UTC'
+      });
+    }
     return date.toLocaleDateString('en-US', {
       year: 'numeric',
       month: 'short',
@@ -130,82 +139,87 @@ const WarchestHistoryDialog: React.FC<WarchestHistoryDialogProps> = ({
             <div className="text-center text-red-400 py-8">{error}</div>
           )}
           
-          {!loading && !error && submissions.length === 0 && (
+          {!loading && !error && entries.length === 0 && (
             <div className="text-center text-gray-400 py-8">No warchest history found</div>
           )}
           
-          {!loading && !error && submissions.length > 0 && (
+          {!loading && !error && entries.length > 0 && (
             <div className="space-y-2 overflow-x-auto">
               <table className="w-full border-collapse min-w-[600px]">
                 <thead>
                   <tr className="border-b border-gray-700">
-                    <th className="text-left p-2 text-gray-300 font-semibold text-sm">Submitted</th>
+                    <th className="text-left p-2 text-gray-300 font-semibold text-sm">Observed</th>
+                    <th className="text-left p-2 text-gray-300 font-semibold text-sm">Source</th>
                     <th className="text-right p-2 text-gray-300 font-semibold text-sm">Amount</th>
                     <th className="text-left p-2 text-gray-300 font-semibold text-sm">XP</th>
                     <th className="text-left p-2 text-gray-300 font-semibold text-sm">Generals</th>
                   </tr>
                 </thead>
                 <tbody>
-                  {submissions.map((submission) => (
-                    <tr key={submission.id} className="border-b border-gray-700/50 hover:bg-gray-700/30">
-                      <td className="p-2 text-gray-300 text-sm">{formatDate(submission.createdAt)}</td>
-                      <td className="p-2 text-green-400 text-sm font-semibold text-right">
-                        {formatMoney(submission.totalMoney)}
-                      </td>
-                      <td className="p-2 text-gray-300 text-sm">
-                        {(submission.armyXP !== null && submission.armyXP !== undefined) ||
-                         (submission.navyXP !== null && submission.navyXP !== undefined) ||
-                         (submission.airForceXP !== null && submission.airForceXP !== undefined) ||
-                         (submission.intelligenceXP !== null && submission.intelligenceXP !== undefined) ? (
-                          <div className="text-xs space-y-0.5">
-                            {submission.armyXP !== null && submission.armyXP !== undefined && (
-                              <div>Army: {submission.armyXP}</div>
-                            )}
-                            {submission.navyXP !== null && submission.navyXP !== undefined && (
-                              <div>Navy: {submission.navyXP}</div>
-                            )}
-                            {submission.airForceXP !== null && submission.airForceXP !== undefined && (
-                              <div>Air: {submission.airForceXP}</div>
-                            )}
-                            {submission.intelligenceXP !== null && submission.intelligenceXP !== undefined && (
-                              <div>Intel: {submission.intelligenceXP}</div>
-                            )}
-                          </div>
-                        ) : (
-                          <span className="text-gray-500 text-xs">—</span>
-                        )}
-                      </td>
-                      <td className="p-2 text-gray-300 text-sm">
-                        {(submission.hasAssignedGenerals && submission.assignedGenerals) ||
-                         submission.killedGenerals ? (
-                          <div className="text-xs space-y-1">
-                            {submission.hasAssignedGenerals && submission.assignedGenerals && (
-                              <div
-                                className="text-blue-300"
-                                title={submission.assignedGenerals}
-                              >
-                                {submission.assignedGenerals.length > 50
-                                  ? `${submission.assignedGenerals.substring(0, 50)}...`
-                                  : submission.assignedGenerals}
-                              </div>
-                            )}
-                            {submission.killedGenerals && (
-                              <div
-                                className="text-red-300"
-                                title={submission.killedGenerals}
-                              >
-                                {submission.killedGenerals.length > 50
-                                  ? `${submission.killedGenerals.substring(0, 50)}...`
-                                  : submission.killedGenerals}
-                              </div>
-                            )}
-                          </div>
-                        ) : (
-                          <span className="text-gray-500 text-xs">—</span>
-                        )}
-                      </td>
-                    </tr>
-                  ))}
+                  {entries.map((entry) => {
+                    const submission = entry.submission;
+                    return (
+                      <tr
+                        key={submission ? `spy-${submission.id}` : `spyglass-${entry.observedAt}`}
+                        className="border-b border-gray-700/50 hover:bg-gray-700/30"
+                      >
+                        <td className="p-2 text-gray-300 text-sm">{formatDate(entry)}</td>
+                        <td className="p-2 text-gray-400 text-sm">
+                          {entry.source === 'spyglass' ? (
+                            <span title={`Reading was ${entry.daysOld} days old when uploaded`}>Spyglass</span>
+                          ) : (
+                            'Spy operation'
+                          )}
+                        </td>
+                        <td className="p-2 text-green-400 text-sm font-semibold text-right">
+                          {formatMoney(entry.warchest)}
+                        </td>
+                        <td className="p-2 text-gray-300 text-sm">
+                          {submission && (submission.armyXP !== null ||
+                           submission.navyXP !== null ||
+                           submission.airForceXP !== null ||
+                           submission.intelligenceXP !== null) ? (
+                            <div className="text-xs space-y-0.5">
+                              {submission.armyXP !== null && <div>Army: {submission.armyXP}</div>}
+                              {submission.navyXP !== null && <div>Navy: {submission.navyXP}</div>}
+                              {submission.airForceXP !== null && <div>Air: {submission.airForceXP}</div>}
+                              {submission.intelligenceXP !== null && <div>Intel: {submission.intelligenceXP}</div>}
+                            </div>
+                          ) : (
+                            <span className="text-gray-500 text-xs">—</span>
+                          )}
+                        </td>
+                        <td className="p-2 text-gray-300 text-sm">
+                          {submission && (submission.assignedGenerals || submission.killedGenerals) ? (
+                            <div className="text-xs space-y-1">
+                              {submission.assignedGenerals && (
+                                <div
+                                  className="text-blue-300"
+                                  title={submission.assignedGenerals}
+                                >
+                                  {submission.assignedGenerals.length > 50
+                                    ? `${submission.assignedGenerals.substring(0, 50)}...`
+                                    : submission.assignedGenerals}
+                                </div>
+                              )}
+                              {submission.killedGenerals && (
+                                <div
+                                  className="text-red-300"
+                                  title={submission.killedGenerals}
+                                >
+                                  {submission.killedGenerals.length > 50
+                                    ? `${submission.killedGenerals.substring(0, 50)}...`
+                                    : submission.killedGenerals}
+                                </div>
+                              )}
+                            </div>
+                          ) : (
+                            <span className="text-gray-500 text-xs">—</span>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
                 </tbody>
               </table>
             </div>
@@ -1,5 +1,6 @@
-import { createContext, useContext, useState, useEffect, type ReactNode } from 'react';
+import { createContext, useCallback, useContext, useState, useEffect, type ReactNode } from 'react';
 import { apiCall, API_ENDPOINTS } from '../utils/api';
+import { getGameServer, storeGameServer, type GameServer } from '../utils/gameServer';
 
 interface Alliance {
   id: number;
@@ -12,6 +13,9 @@ interface AlliancesContextType {
   loading: boolean;
   error: string | null;
   refresh: () => Promise<void>;
+  /** Game server the alliances (and every API call) are for */
+  gameServer: GameServer;
+  setGameServer: (server: GameServer) => void;
 }
 
 const AlliancesContext = createContext<AlliancesContextType | undefined>(undefined);
@@ -26,8 +30,9 @@ export function AlliancesProvider({ children }: { children: ReactNode }) {
   const [alliances, setAlliances] = useState<Alliance[]>(cachedAlliances || []);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [gameServer, setGameServerState] = useState<GameServer>(getGameServer);
 
-  const fetchAlliances = async (): Promise<Alliance[]> => {
+  const fetchAlliances = useCallback(async (): Promise<Alliance[]> => {
     // Check cache first
     const now = Date.now();
     if (cachedAlliances && (now - cacheTimestamp) < CACHE_TTL_MS) {
@@ -72,9 +77,9 @@ export function AlliancesProvider({ children }: { children: ReactNode }) {
     })();
 
     return await loadingPromise;
-  };
+  }, []);
 
-  const refresh = async () => {
+  const refresh = useCallback(async () => {
     // Invalidate cache
     cachedAlliances = null;
     cacheTimestamp = 0;
@@ -92,15 +97,22 @@ export function AlliancesProvider({ children }: { children: ReactNode }) {
     } finally {
       setLoading(false);
     }
+  }, [fetchAlliances]);
+
+  // Alliances are per server, so switching reloads the list
+  const setGameServer = (server: GameServer) => {
+    storeGameServer(server);
+    setGameServerState(server);
+    setAlliances([]);
   };
 
   useEffect(() => {
-    // Load alliances on mount
+    // Load alliances on mount and whenever the server changes
     refresh();
-  }, []);
+  }, [gameServer, refresh]);
 
   return (
-    <AlliancesContext.Provider value={{ alliances, loading, error, refresh }}>
+    <AlliancesContext.Provider value={{ alliances, loading, error, refresh, gameServer, setGameServer }}>
       {children}
     </AlliancesContext.Provider>
   );
@@ -16,8 +16,12 @@ export interface User {
   discordUsername: string | null;
   roles: UserRole[];
   rulerName: string | null;
+  /** Whether the user has proven they own the nation their ruler name points at */
+  rulerNameVerified: boolean;
   capabilities: string[];
   managedAllianceIds: number[];
+  /** Capabilities from roles held only in specific alliances, by alliance ID */
+  allianceCapabilities: Record<number, string[]>;
 }
 
 interface AuthContextType {
@@ -31,6 +35,12 @@ interface AuthContextType {
   getUserRoles: () => UserRole[];
   hasCapability: (capability: string, allianceId?: number) => boolean;
   isAllianceManager: (allianceId: number) => boolean;
+  /** Alliances the user manages, as alliance manager or through a role held in that alliance */
+  manageableAllianceIds: number[];
+  /** Alliances where roles held only there grant the capability; null when a global role grants it */
+  capabilityAllianceIds: (capability: string) => number[] | null;
+  /** Whether a global role or a role in any alliance grants the capability */
+  hasCapabilityAnywhere: (capability: string) => boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -67,6 +77,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
             ...u,
             roles: Array.isArray(u.roles) ? u.roles : [],
             capabilities: Array.isArray(u.capabilities) ? u.capabilities : [],
+            allianceCapabilities: u.allianceCapabilities ?? {},
+            rulerNameVerified: !!u.rulerNameVerified,
           });
         } else {
           setUser(null);
@@ -119,10 +131,36 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const hasCapability = (capability: string, allianceId?: number): boolean => {
     if (!user) return false;
     const caps = user.capabilities ?? [];
+    const allianceCaps = allianceId != null ? user.allianceCapabilities?.[allianceId] ?? [] : [];
     if (capability === 'manage_alliance' && allianceId != null) {
-      return caps.includes('manage_all_alliance') || (caps.includes('manage_alliance') && (user.managedAllianceIds ?? []).includes(allianceId));
+      return caps.includes('manage_all_alliance')
+        || (caps.includes('manage_alliance') && (user.managedAllianceIds ?? []).includes(allianceId))
+        || allianceCaps.includes('manage_alliance')
+        || allianceCaps.includes('manage_all_alliance');
     }
-    return caps.includes(capability);
+    return caps.includes(capability) || allianceCaps.includes(capability);
+  };
+
+  const manageableAllianceIds = user
+    ? Array.from(new Set([
+        ...(user.managedAllianceIds ?? []),
+        ...Object.entries(user.allianceCapabilities ?? {})
+          .filter(([, caps]) => caps.includes('manage_alliance') || caps.includes('manage_all_alliance'))
+          .map(([allianceId]) => Number(allianceId)),
+      ]))
+    : [];
+
+  const capabilityAllianceIds = (capability: string): number[] | null => {
+    if (user?.capabilities?.includes(capability)) return null;
+    return Object.entries(user?.allianceCapabilities ?? {})
+      .filter(([, caps]) => caps.includes(capability))
+      .map(([allianceId]) => Number(allianceId));
+  };
+
+  const hasCapabilityAnywhere = (capability: string): boolean => {
+    if (!user) return false;
+    const allianceIds = capabilityAllianceIds(capability);
+    return allianceIds === null || allianceIds.length > 0;
   };
 
   const isAllianceManager = (allianceId: number): boolean => {
@@ -168,6 +206,9 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     getUserRoles,
     hasCapability,
     isAllianceManager,
+    manageableAllianceIds,
+    capabilityAllianceIds,
+    hasCapabilityAnywhere,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
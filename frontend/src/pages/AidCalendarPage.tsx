@@ -0,0 +1,220 @@
+import React, { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { apiCallWithErrorHandling, API_ENDPOINTS } from '../utils/api';
+import TableContainer from '../components/TableContainer';
+import NationLink from '../components/NationLink';
+
+interface CalendarNationRef {
+  id: number;
+  rulerName: string;
+  nationName: string;
+}
+
+interface FreedSlots {
+  nationId: number;
+  rulerName: string;
+  nationName: string;
+  send: number;
+  receive: number;
+}
+
+interface CalendarPairing {
+  kind: 'reestablish' | 'new';
+  type: 'cash' | 'tech';
+  sender: CalendarNationRef;
+  recipient: CalendarNationRef;
+  expiresInDays: number;
+}
+
+interface CalendarDay {
+  dayOffset: number;
+  date: string;
+  expiringOffers: number;
+  freedSlots: FreedSlots[];
+  openSendSlots: number;
+  openReceiveSlots: number;
+  pairings: CalendarPairing[];
+}
+
+interface AidCalendarResponse {
+  days: CalendarDay[];
+  activeOffers: number;
+  nations: number;
+}
+
+const DAY_OPTIONS = [7, 14, 21, 30];
+
+const thClass = 'p-2 border-b border-gray-600 text-left text-gray-300 font-semibold';
+const tdClass = 'p-2 border-b border-gray-700/50 text-gray-200 align-top';
+
+/**
+ * Projected aid slot calendar: slots freed per day as offers expire and the pairings
+ * that could be scheduled into them, so coordinators can plan aid cycles ahead.
+ */
+const AidCalendarPage: React.FC = () => {
+  const { allianceId: allianceIdParam } = useParams<{ allianceId: string }>();
+  const allianceId = allianceIdParam ? parseInt(allianceIdParam, 10) : NaN;
+  const [days, setDays] = useState(14);
+  const [data, setData] = useState<AidCalendarResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedDay, setExpandedDay] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (isNaN(allianceId)) return;
+    let cancelled = false;
+    const load = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const response = await apiCallWithErrorHandling(API_ENDPOINTS.aidCalendar(allianceId, days));
+        if (!cancelled) {
+          setData(response);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load aid calendar');
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [allianceId, days]);
+
+  if (isNaN(allianceId)) {
+    return (
+      <TableContainer>
+        <div className="text-center p-10 text-gray-400">No alliance selected.</div>
+      </TableContainer>
+    );
+  }
+
+  return (
+    <TableContainer>
+      <div className="mb-4">
+        <h1 className="text-2xl font-bold text-gray-200 mb-1">Aid Calendar</h1>
+        <p className="text-sm text-gray-400">
+          Slots freed each day as current offers expire, and the pairings that could be sent into them.
+          Pairings scheduled on earlier days are assumed to be sent and keep their slots for 10 days.
+        </p>
+      </div>
+
+      <div className="mb-4 flex flex-wrap items-center gap-3">
+        <label htmlFor="aid-calendar-days" className="text-sm font-semibold text-gray-300">Days ahead</label>
+        <select
+          id="aid-calendar-days"
+          value={days}
+          onChange={(e) => setDays(parseInt(e.target.value, 10))}
+          className="px-3 py-1.5 rounded border border-gray-600 bg-gray-800 text-gray-200 text-sm"
+        >
+          {DAY_OPTIONS.map((option) => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+        {data && (
+          <span className="text-sm text-gray-400">
+            {data.activeOffers} active offers across {data.nations} nations
+          </span>
+        )}
+      </div>
+
+      {error && <div className="mb-3 p-2 rounded bg-red-900/40 border border-red-700 text-red-300 text-sm">{error}</div>}
+      {loading && <div className="text-center p-10 text-gray-400">Loading...</div>}
+
+      {!loading && data && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr>
+                <th className={thClass}>Date</th>
+                <th className={`${thClass} text-right`}>Expiring Offers</th>
+                <th className={`${thClass} text-right`}>Nations Freed</th>
+                <th className={`${thClass} text-right`}>Schedulable Pairings</th>
+                <th className={`${thClass} text-right`}>Open Send</th>
+                <th className={`${thClass} text-right`}>Open Receive</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.days.map((day) => (
+                <React.Fragment key={day.dayOffset}>
+                  <tr
+                    className="hover:bg-gray-700/30 cursor-pointer"
+                    onClick={() => setExpandedDay(expandedDay === day.dayOffset ? null : day.dayOffset)}
+                  >
+                    <td className={tdClass}>
+                      <span className="mr-2 text-gray-500">{expandedDay === day.dayOffset ? '▾' : '▸'}</span>
+                      {day.date}
+                      {day.dayOffset === 0 && <span className="ml-2 text-xs text-gray-400">(today)</span>}
+                    </td>
+                    <td className={`${tdClass} text-right`}>{day.expiringOffers}</td>
+                    <td className={`${tdClass} text-right`}>{day.freedSlots.length}</td>
+                    <td className={`${tdClass} text-right font-semibold`}>{day.pairings.length}</td>
+                    <td className={`${tdClass} text-right`}>{day.openSendSlots}</td>
+                    <td className={`${tdClass} text-right`}>{day.openReceiveSlots}</td>
+                  </tr>
+                  {expandedDay === day.dayOffset && (
+                    <tr>
+                      <td colSpan={6} className="p-3 bg-gray-900/50 border-b border-gray-700">
+                        <div className="grid gap-4 md:grid-cols-2">
+                          <div>
+                            <h3 className="font-bold text-gray-200 mb-2">Freed Slots</h3>
+                            {day.freedSlots.length === 0 ? (
+                              <div className="text-gray-500">No offers expire this day</div>
+                            ) : (
+                              <ul className="space-y-1">
+                                {day.freedSlots.map((freed) => (
+                                  <li key={freed.nationId}>
+                                    <NationLink nationId={freed.nationId} nationName={freed.nationName} />
+                                    <span className="ml-2 text-gray-400">
+                                      {freed.send > 0 && `${freed.send} send`}
+                                      {freed.send > 0 && freed.receive > 0 && ', '}
+                                      {freed.receive > 0 && `${freed.receive} receive`}
+                                    </span>
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                          </div>
+                          <div>
+                            <h3 className="font-bold text-gray-200 mb-2">Schedulable Pairings</h3>
+                            {day.pairings.length === 0 ? (
+                              <div className="text-gray-500">Nothing to schedule</div>
+                            ) : (
+                              <ul className="space-y-1">
+                                {day.pairings.map((pairing) => (
+                                  <li key={`${pairing.sender.id}-${pairing.recipient.id}`}>
+                                    <NationLink nationId={pairing.sender.id} nationName={pairing.sender.nationName} />
+                                    <span className="mx-2 text-gray-500">→</span>
+                                    <NationLink nationId={pairing.recipient.id} nationName={pairing.recipient.nationName} />
+                                    <span className={`ml-2 text-xs ${pairing.type === 'tech' ? 'text-blue-300' : 'text-green-300'}`}>
+                                      {pairing.type}
+                                    </span>
+                                    {pairing.kind === 'reestablish' && (
+                                      <span className="ml-2 text-xs text-yellow-300">re-establish</span>
+                                    )}
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                          </div>
+                        </div>
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </TableContainer>
+  );
+};
+
+export default AidCalendarPage;
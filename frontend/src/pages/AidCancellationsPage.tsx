@@ -0,0 +1,224 @@
+import React, { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { apiCallWithErrorHandling, API_ENDPOINTS } from '../utils/api';
+import TableContainer from '../components/TableContainer';
+import NationLink from '../components/NationLink';
+
+interface NationRef {
+  id: number;
+  rulerName: string;
+  nationName: string;
+}
+
+interface EarlyEndedOffer {
+  aidId: number;
+  outcome: 'cancelled' | 'reneged';
+  direction: 'sent' | 'received';
+  otherNation: NationRef;
+  money: number;
+  technology: number;
+  soldiers: number;
+  fromStatus: string | null;
+  toStatus: string;
+  offerDate: string;
+  endedAt: string;
+  daysActive: number | null;
+}
+
+interface NationEarlyCancellations {
+  nationId: number;
+  rulerName: string;
+  nationName: string;
+  cancelled: number;
+  reneged: number;
+  ended: number;
+  offers: EarlyEndedOffer[];
+}
+
+interface AidCancellationsResponse {
+  since: string;
+  cancelled: number;
+  reneged: number;
+  nations: NationEarlyCancellations[];
+}
+
+const DAY_OPTIONS = [7, 30, 90, 180];
+
+const thClass = 'p-2 border-b border-gray-600 text-left text-gray-300 font-semibold';
+const tdClass = 'p-2 border-b border-gray-700/50 text-gray-200 align-top';
+
+const formatAmounts = (offer: EarlyEndedOffer): string =>
+  [
+    offer.money > 0 ? `$${offer.money.toLocaleString()}` : null,
+    offer.technology > 0 ? `${offer.technology.toLocaleString()} tech` : null,
+    offer.soldiers > 0 ? `${offer.soldiers.toLocaleString()} soldiers` : null,
+  ].filter(Boolean).join(', ') || '-';
+
+/**
+ * Aid offers the alliance's nations had end before their 10-day expiry: pending offers that were
+ * cancelled and approved offers that were reneged on, so coordinators can spot members who break deals.
+ */
+const AidCancellationsPage: React.FC = () => {
+  const { allianceId: allianceIdParam } = useParams<{ allianceId: string }>();
+  const allianceId = allianceIdParam ? parseInt(allianceIdParam, 10) : NaN;
+  const [days, setDays] = useState(30);
+  const [data, setData] = useState<AidCancellationsResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedNation, setExpandedNation] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (isNaN(allianceId)) return;
+    let cancelled = false;
+    const load = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const response = await apiCallWithErrorHandling(API_ENDPOINTS.earlyAidCancellations(allianceId, days));
+        if (!cancelled) {
+          setData(response);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load aid cancellations');
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [allianceId, days]);
+
+  if (isNaN(allianceId)) {
+    return (
+      <TableContainer>
+        <div className="text-center p-10 text-gray-400">No alliance selected.</div>
+      </TableContainer>
+    );
+  }
+
+  return (
+    <TableContainer>
+      <div className="mb-4">
+        <h1 className="text-2xl font-bold text-gray-200 mb-1">Aid Cancellations</h1>
+        <p className="text-sm text-gray-400">
+          Offers that ended before their 10-day expiry. Cancelled offers were still pending; reneged offers had
+          been approved. The game doesn't say which side ended an offer, so it counts against both nations.
+        </p>
+      </div>
+
+      <div className="mb-4 flex flex-wrap items-center gap-3">
+        <label htmlFor="aid-cancellations-days" className="text-sm font-semibold text-gray-300">Last</label>
+        <select
+          id="aid-cancellations-days"
+          value={days}
+          onChange={(e) => setDays(parseInt(e.target.value, 10))}
+          className="px-3 py-1.5 rounded border border-gray-600 bg-gray-800 text-gray-200 text-sm"
+        >
+          {DAY_OPTIONS.map((option) => (
+            <option key={option} value={option}>{option} days</option>
+          ))}
+        </select>
+        {data && (
+          <span className="text-sm text-gray-400">
+            {data.cancelled} cancelled and {data.reneged} reneged across {data.nations.length} nations
+          </span>
+        )}
+      </div>
+
+      {error && <div className="mb-3 p-2 rounded bg-red-900/40 border border-red-700 text-red-300 text-sm">{error}</div>}
+      {loading && <div className="text-center p-10 text-gray-400">Loading...</div>}
+
+      {!loading && data && data.nations.length === 0 && (
+        <div className="text-center p-10 text-gray-400">No offers ended early in this period.</div>
+      )}
+
+      {!loading && data && data.nations.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr>
+                <th className={thClass}>Nation</th>
+                <th className={`${thClass} text-right`}>Cancelled</th>
+                <th className={`${thClass} text-right`}>Reneged</th>
+                <th className={`${thClass} text-right`}>Offers Ended</th>
+                <th className={`${thClass} text-right`}>Ended Early</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.nations.map((nation) => (
+                <React.Fragment key={nation.nationId}>
+                  <tr
+                    className="hover:bg-gray-700/30 cursor-pointer"
+                    onClick={() => setExpandedNation(expandedNation === nation.nationId ? null : nation.nationId)}
+                  >
+                    <td className={tdClass}>
+                      <span className="mr-2 text-gray-500">{expandedNation === nation.nationId ? '▾' : '▸'}</span>
+                      <NationLink nationId={nation.nationId} nationName={nation.nationName} />
+                      <span className="ml-2 text-gray-400">{nation.rulerName}</span>
+                    </td>
+                    <td className={`${tdClass} text-right`}>{nation.cancelled}</td>
+                    <td className={`${tdClass} text-right font-semibold`}>{nation.reneged}</td>
+                    <td className={`${tdClass} text-right`}>{nation.ended}</td>
+                    <td className={`${tdClass} text-right`}>
+                      {Math.round(((nation.cancelled + nation.reneged) / nation.ended) * 100)}%
+                    </td>
+                  </tr>
+                  {expandedNation === nation.nationId && (
+                    <tr>
+                      <td colSpan={5} className="p-3 bg-gray-900/50 border-b border-gray-700">
+                        <table className="w-full text-sm">
+                          <thead>
+                            <tr>
+                              <th className={thClass}>Ended</th>
+                              <th className={thClass}>Outcome</th>
+                              <th className={thClass}>Other Nation</th>
+                              <th className={thClass}>Aid</th>
+                              <th className={thClass}>Offered</th>
+                              <th className={`${thClass} text-right`}>Days Active</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {nation.offers.map((offer) => (
+                              <tr key={`${offer.aidId}-${offer.direction}`}>
+                                <td className={tdClass}>{new Date(offer.endedAt).toLocaleString()}</td>
+                                <td className={tdClass}>
+                                  <span className={offer.outcome === 'reneged' ? 'text-red-300' : 'text-yellow-300'}>
+                                    {offer.outcome}
+                                  </span>
+                                  <span className="ml-2 text-xs text-gray-500">
+                                    {offer.fromStatus} → {offer.toStatus}
+                                  </span>
+                                </td>
+                                <td className={tdClass}>
+                                  <span className="mr-2 text-gray-500">{offer.direction === 'sent' ? 'to' : 'from'}</span>
+                                  <NationLink nationId={offer.otherNation.id} nationName={offer.otherNation.nationName} />
+                                </td>
+                                <td className={tdClass}>{formatAmounts(offer)}</td>
+                                <td className={tdClass}>{offer.offerDate}</td>
+                                <td className={`${tdClass} text-right`}>
+                                  {offer.daysActive !== null ? offer.daysActive.toFixed(1) : '-'}
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </TableContainer>
+  );
+};
+
+export default AidCancellationsPage;
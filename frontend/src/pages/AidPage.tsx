@@ -5,6 +5,7 @@ import { useAlliances } from '../contexts/AlliancesContext';
 import PageContainer from '../components/PageContainer';
 import { EMPTY_CELL_BG } from '../styles/tableClasses';
 import RecommendationsPage from './RecommendationsPage';
+import { gameId } from '../utils/gameServer';
 
 interface Alliance {
   id: number;
@@ -1112,7 +1113,7 @@ const AidPage: React.FC = () => {
                       <div>
                         <strong>
                           <a 
-                            href={`https://www.cybernations.net/search_aid.asp?search=${nationAidSlots.nation.id}&Extended=1`}
+                            href={`https://www.cybernations.net/search_aid.asp?search=${gameId(nationAidSlots.nation.id)}&Extended=1`}
                             target="_blank"
                             rel="noopener noreferrer"
                             className="text-primary no-underline hover:underline"
@@ -1276,7 +1277,7 @@ const AidPage: React.FC = () => {
                               ) : (
                                 <>
                                   <a 
-                                    href={`https://www.cybernations.net/search_aid.asp?search=${slot.aidOffer.targetId || 'undefined'}&Extended=1`}
+                                    href={`https://www.cybernations.net/search_aid.asp?search=${slot.aidOffer.targetId ? gameId(slot.aidOffer.targetId) : 'undefined'}&Extended=1`}
                                     target="_blank"
                                     rel="noopener noreferrer"
                                     className="no-underline hover:underline"
@@ -1427,7 +1428,7 @@ const AidPage: React.FC = () => {
                       <div className="flex-1">
                         <div className="font-bold text-base">
                           <a 
-                            href={`https://www.cybernations.net/search_aid.asp?search=${nationAidSlots.nation.id}&Extended=1`}
+                            href={`https://www.cybernations.net/search_aid.asp?search=${gameId(nationAidSlots.nation.id)}&Extended=1`}
                             target="_blank"
                             rel="noopener noreferrer"
                             className="text-blue-400 hover:underline"
@@ -1601,7 +1602,7 @@ const AidPage: React.FC = () => {
                                     ) : (
                                       <>
                                         <a 
-                                          href={`https://www.cybernations.net/search_aid.asp?search=${slot.aidOffer.targetId || 'undefined'}&Extended=1`}
+                                          href={`https://www.cybernations.net/search_aid.asp?search=${slot.aidOffer.targetId ? gameId(slot.aidOffer.targetId) : 'undefined'}&Extended=1`}
                                           target="_blank"
                                           rel="noopener noreferrer"
                                           className="hover:underline"
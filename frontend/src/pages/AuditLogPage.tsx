@@ -0,0 +1,238 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { apiCallWithErrorHandling, API_ENDPOINTS } from '../utils/api';
+import PageContainer from '../components/PageContainer';
+import { useAuth } from '../contexts/AuthContext';
+import { useAlliances } from '../contexts/AlliancesContext';
+
+interface AuditActor {
+  id: number;
+  discordUsername: string | null;
+  rulerName: string | null;
+}
+
+interface AuditLogEntry {
+  id: number;
+  action: string;
+  targetType: string;
+  targetId: string | null;
+  allianceIds: number[];
+  before: unknown;
+  after: unknown;
+  createdAt: string;
+  actor: AuditActor | null;
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  'nation_config.update': 'Nation config edited',
+  'nation.targeting_alliance': 'Targeting alliance set',
+  'war.alliance_ids': 'War alliance IDs fixed',
+  'war.excluded_from_stats': 'War stats exclusion',
+  'war_assignment.create': 'War assignment created',
+  'war_assignment.delete': 'War assignment deleted',
+  'role.capabilities': 'Role capabilities set',
+  'user.update': 'User updated',
+  'user.ruler_name_verification': 'Ruler name verification',
+  'notification_subscription.create': 'Notification subscription created',
+  'notification_subscription.update': 'Notification subscription edited',
+  'notification_subscription.delete': 'Notification subscription deleted',
+  'import_quarantine.import': 'Quarantined file imported',
+  'import_quarantine.discard': 'Quarantined file discarded',
+  'nuclear_name.resolve': 'Nuclear report name matched',
+};
+
+const PAGE_SIZE = 100;
+
+const thClass = 'p-2 border-b border-gray-600 text-left text-gray-300 font-semibold whitespace-nowrap';
+const tdClass = 'p-2 border-b border-gray-700/50 text-gray-200 align-top';
+const selectClass = 'px-3 py-1.5 bg-gray-800 text-white border border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-primary/50 text-sm';
+
+const actionLabel = (action: string) => ACTION_LABELS[action] ?? action;
+
+const actorLabel = (actor: AuditActor | null) =>
+  actor ? actor.discordUsername || actor.rulerName || `User #${actor.id}` : 'Deleted user';
+
+const formatValue = (value: unknown) => (value === null || value === undefined ? '—' : typeof value === 'string' ? value : JSON.stringify(value));
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * The fields an entry changed, as before/after pairs. Creations list every field as new and
+ * deletions every field as removed.
+ */
+const changedFields = (before: unknown, after: unknown): { field: string; before: unknown; after: unknown }[] => {
+  const from = isRecord(before) ? before : {};
+  const to = isRecord(after) ? after : {};
+  const fields = Array.from(new Set([...Object.keys(from), ...Object.keys(to)]));
+  return fields
+    .filter((field) => JSON.stringify(from[field]) !== JSON.stringify(to[field]))
+    .map((field) => ({ field, before: from[field], after: to[field] }));
+};
+
+/**
+ * Admin view of changes made by managers and admins, filterable by user, alliance and action
+ */
+const AuditLogPage: React.FC = () => {
+  const { isAuthenticated, isLoading: authLoading, hasCapability } = useAuth();
+  const { alliances } = useAlliances();
+  const navigate = useNavigate();
+  const [userId, setUserId] = useState('');
+  const [allianceId, setAllianceId] = useState('');
+  const [action, setAction] = useState('');
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [actors, setActors] = useState<AuditActor[]>([]);
+  const [actions, setActions] = useState<string[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const canView = isAuthenticated && hasCapability('view_audit_log');
+
+  useEffect(() => {
+    if (authLoading) return;
+    if (!canView) {
+      navigate('/aid');
+    }
+  }, [canView, authLoading, navigate]);
+
+  const load = useCallback(async (beforeId?: number) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await apiCallWithErrorHandling(API_ENDPOINTS.adminAuditLog({
+        userId: userId || undefined,
+        allianceId: allianceId || undefined,
+        action: action || undefined,
+        beforeId,
+        limit: PAGE_SIZE,
+      }));
+      const page: AuditLogEntry[] = data.entries || [];
+      setEntries((current) => (beforeId ? [...current, ...page] : page));
+      setActors(data.actors || []);
+      setActions(data.actions || []);
+      setHasMore(page.length === PAGE_SIZE);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load audit log');
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, allianceId, action]);
+
+  useEffect(() => {
+    if (!canView) return;
+    load();
+  }, [canView, load]);
+
+  if (authLoading || !canView) return null;
+
+  const allianceName = (id: number) => alliances.find((a) => a.id === id)?.name ?? `#${id}`;
+
+  return (
+    <PageContainer>
+      <h1 className="text-2xl font-bold text-gray-100 mb-2">Audit log</h1>
+      <p className="text-gray-400 text-sm mb-4">
+        Changes made by managers and admins: nation configs, war fixes and exclusions, war assignments, notification
+        subscriptions, roles and users.
+      </p>
+      {error && (
+        <div className="mb-4 p-3 bg-red-900/30 border border-red-700 rounded text-red-200">{error}</div>
+      )}
+
+      <div className="mb-4 flex items-center gap-4 flex-wrap">
+        <div className="flex items-center gap-2">
+          <label className="text-sm text-gray-300">User:</label>
+          <select value={userId} onChange={(e) => setUserId(e.target.value)} className={selectClass}>
+            <option value="">All users</option>
+            {actors.map((actor) => (
+              <option key={actor.id} value={actor.id}>{actorLabel(actor)}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="text-sm text-gray-300">Alliance:</label>
+          <select value={allianceId} onChange={(e) => setAllianceId(e.target.value)} className={selectClass}>
+            <option value="">All alliances</option>
+            {alliances.map((alliance) => (
+              <option key={alliance.id} value={alliance.id}>{alliance.name}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="text-sm text-gray-300">Action:</label>
+          <select value={action} onChange={(e) => setAction(e.target.value)} className={selectClass}>
+            <option value="">All actions</option>
+            {actions.map((a) => (
+              <option key={a} value={a}>{actionLabel(a)}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr>
+              <th className={thClass}>When</th>
+              <th className={thClass}>User</th>
+              <th className={thClass}>Action</th>
+              <th className={thClass}>Target</th>
+              <th className={thClass}>Alliances</th>
+              <th className={thClass}>Changes</th>
+            </tr>
+          </thead>
+          <tbody>
+            {!loading && entries.length === 0 && (
+              <tr>
+                <td colSpan={6} className="p-3 text-center text-gray-400">No changes match these filters.</td>
+              </tr>
+            )}
+            {entries.map((entry) => {
+              const changes = changedFields(entry.before, entry.after);
+              return (
+                <tr key={entry.id}>
+                  <td className={`${tdClass} whitespace-nowrap`}>{new Date(entry.createdAt).toLocaleString()}</td>
+                  <td className={tdClass}>{actorLabel(entry.actor)}</td>
+                  <td className={tdClass}>{actionLabel(entry.action)}</td>
+                  <td className={`${tdClass} whitespace-nowrap`}>
+                    {entry.targetType.replace(/_/g, ' ')} {entry.targetId && <span className="text-gray-400">{entry.targetId}</span>}
+                  </td>
+                  <td className={tdClass}>{entry.allianceIds.map(allianceName).join(', ') || '—'}</td>
+                  <td className={tdClass}>
+                    {changes.length === 0 ? (
+                      <span className="text-gray-500">No changes</span>
+                    ) : (
+                      <ul className="space-y-0.5">
+                        {changes.map((change) => (
+                          <li key={change.field} className="break-all">
+                            <span className="text-gray-400">{change.field}:</span>{' '}
+                            <span className="text-red-300">{formatValue(change.before)}</span>
+                            <span className="mx-1 text-gray-500">→</span>
+                            <span className="text-green-300">{formatValue(change.after)}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {loading ? (
+        <div className="mt-3 text-gray-400">Loading...</div>
+      ) : hasMore && (
+        <button
+          type="button"
+          onClick={() => load(entries[entries.length - 1].id)}
+          className="mt-3 px-3 py-1.5 rounded border border-gray-600 text-gray-200 text-sm hover:bg-gray-700"
+        >
+          Load older changes
+        </button>
+      )}
+    </PageContainer>
+  );
+};
+
+export default AuditLogPage;
@@ -2,6 +2,7 @@ import React, { useEffect, useMemo, useState, useCallback } from 'react';
 import { useSearchParams } from 'react-router-dom';
 import { apiCallWithErrorHandling, API_ENDPOINTS } from '../utils/api';
 import TableContainer from '../components/TableContainer';
+import { gameId } from '../utils/gameServer';
 
 interface CasualtyStat {
   rank: number;
@@ -402,7 +403,7 @@ const CasualtiesPage: React.FC<CasualtiesPageProps> = ({ selectedAllianceId }) =
                     <td className="p-2 border border-gray-700 font-bold text-gray-200">
                       <div>
                         <a
-                          href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${row.nation_id}`}
+                          href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(row.nation_id)}`}
                           target="_blank"
                           rel="noopener noreferrer"
                           className="text-primary no-underline hover:underline"
@@ -449,7 +450,7 @@ const CasualtiesPage: React.FC<CasualtiesPageProps> = ({ selectedAllianceId }) =
                               </span>
                               <div className="min-w-0 flex-1">
                                 <a
-                                  href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${row.nation_id}`}
+                                  href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(row.nation_id)}`}
                                   target="_blank"
                                   rel="noopener noreferrer"
                                   className="text-primary no-underline font-bold hover:underline truncate block text-sm"
@@ -1,6 +1,7 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { apiCallWithErrorHandling, API_ENDPOINTS } from '../utils/api';
 import TableContainer from '../components/TableContainer';
+import { gameId } from '../utils/gameServer';
 
 interface DeltaBucket {
   infra: number;
@@ -754,7 +755,7 @@ const DonationsPage: React.FC = () => {
                             <td className="p-2 border border-gray-700 text-left">
                               <div className="min-w-0 pl-4">
                                 <a
-                                  href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${nation.nationId}`}
+                                  href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(nation.nationId)}`}
                                   target="_blank"
                                   rel="noopener noreferrer"
                                   className="text-primary no-underline font-semibold hover:underline truncate block"
@@ -872,7 +873,7 @@ const DonationsPage: React.FC = () => {
                     </div>
                   </div>
                   <a
-                    href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${c.nationId}`}
+                    href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(c.nationId)}`}
                     target="_blank"
                     rel="noopener noreferrer"
                     className="inline-block text-primary no-underline text-xs hover:underline"
@@ -902,7 +903,7 @@ const DonationsPage: React.FC = () => {
                         >
                           <div className="min-w-0 flex-1">
                             <a
-                              href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${n.nationId}`}
+                              href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(n.nationId)}`}
                               target="_blank"
                               rel="noopener noreferrer"
                               className="text-primary no-underline font-medium hover:underline truncate block text-xs"
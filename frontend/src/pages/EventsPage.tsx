@@ -54,7 +54,8 @@ type EventsResponse = {
   offset: number;
 };
 
-type FilterType = 'all' | 'nation' | 'alliance' | 'stats';
+type FilterType = 'all' | 'nation' | 'alliance' | 'stats' | 'aid' | 'war';
+type DirectionFilter = 'all' | 'offensive' | 'defensive';
 type EventTypeFilter =
   | 'all'
   | 'new_nation'
@@ -65,7 +66,13 @@ type EventTypeFilter =
   | 'possible_donation'
   | 'casualty_ranking_entered'
   | 'casualty_ranking_exited'
-  | 'casualty_ranking_changed';
+  | 'casualty_ranking_changed'
+  | 'aid_offer_cancelled'
+  | 'aid_offer_reneged'
+  | 'aid_offer_expired'
+  | 'war_declared'
+  | 'war_peace'
+  | 'war_expired';
 
 const EventsPage: React.FC = () => {
   const [searchParams, setSearchParams] = useSearchParams();
@@ -93,6 +100,8 @@ const EventsPage: React.FC = () => {
   const [searchQuery, setSearchQuery] = useState<string>(
     searchParams.get('search') || ''
   );
+  // Offensive/defensive only applies to an alliance's war events
+  const [directionFilter, setDirectionFilter] = useState<DirectionFilter>(getFilterFromUrl('direction', 'all') as DirectionFilter);
   
   // Debounce search query with 300ms delay
   const debouncedSearchQuery = useDebounce(searchQuery, 300);
@@ -112,6 +121,10 @@ const EventsPage: React.FC = () => {
         ];
       case 'stats':
         return ['all', 'casualty_ranking_entered', 'casualty_ranking_exited', 'casualty_ranking_changed'];
+      case 'aid':
+        return ['all', 'aid_offer_cancelled', 'aid_offer_reneged', 'aid_offer_expired'];
+      case 'war':
+        return ['all', 'war_declared', 'war_peace', 'war_expired'];
       case 'alliance':
         return ['all']; // Alliance events would go here if we add them
       case 'all':
@@ -127,6 +140,12 @@ const EventsPage: React.FC = () => {
           'casualty_ranking_entered',
           'casualty_ranking_exited',
           'casualty_ranking_changed',
+          'aid_offer_cancelled',
+          'aid_offer_reneged',
+          'aid_offer_expired',
+          'war_declared',
+          'war_peace',
+          'war_expired',
         ];
     }
   };
@@ -141,7 +160,7 @@ const EventsPage: React.FC = () => {
   }, [filterType]); // eslint-disable-line react-hooks/exhaustive-deps
   
   // Update URL when filters change
-  const updateUrlParams = (updates: { type?: FilterType; eventType?: EventTypeFilter; allianceId?: number | null; minStrength?: number | null; offset?: number; search?: string }) => {
+  const updateUrlParams = (updates: { type?: FilterType; eventType?: EventTypeFilter; allianceId?: number | null; minStrength?: number | null; offset?: number; search?: string; direction?: DirectionFilter }) => {
     const newParams = new URLSearchParams(searchParams);
     
     if (updates.type !== undefined) {
@@ -192,6 +211,14 @@ const EventsPage: React.FC = () => {
         newParams.set('search', updates.search);
       }
     }
+
+    if (updates.direction !== undefined) {
+      if (updates.direction === 'all') {
+        newParams.delete('direction');
+      } else {
+        newParams.set('direction', updates.direction);
+      }
+    }
     
     setSearchParams(newParams, { replace: true });
   };
@@ -205,6 +232,7 @@ const EventsPage: React.FC = () => {
     const urlMinStrength = searchParams.get('minStrength') ? parseInt(searchParams.get('minStrength')!) : 2000;
     const urlOffset = parseInt(searchParams.get('offset') || '0');
     const urlSearch = searchParams.get('search') || '';
+    const urlDirection = getFilterFromUrl('direction', 'all') as DirectionFilter;
     
     // Only update state if URL params differ from current state
     if (urlFilterType !== filterType) {
@@ -225,6 +253,9 @@ const EventsPage: React.FC = () => {
     if (urlSearch !== searchQuery) {
       setSearchQuery(urlSearch);
     }
+    if (urlDirection !== directionFilter) {
+      setDirectionFilter(urlDirection);
+    }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [searchParams.toString()]); // Only run when searchParams change externally
 
@@ -251,6 +282,9 @@ const EventsPage: React.FC = () => {
         // Apply alliance filter if selected
         if (selectedAllianceId !== null) {
           params.allianceId = selectedAllianceId;
+          if (directionFilter !== 'all') {
+            params.direction = directionFilter;
+          }
         }
         
         // Always include minStrength (defaults to 2000)
@@ -287,7 +321,7 @@ const EventsPage: React.FC = () => {
     return () => {
       cancelled = true;
     };
-  }, [limit, offset, filterType, eventTypeFilter, selectedAllianceId, minStrength, debouncedSearchQuery]);
+  }, [limit, offset, filterType, eventTypeFilter, selectedAllianceId, directionFilter, minStrength, debouncedSearchQuery]);
 
   const formatDate = (dateString: string): string => {
     const date = new Date(dateString);
@@ -334,6 +368,18 @@ const EventsPage: React.FC = () => {
         return 'Casualty Ranking Exited';
       case 'casualty_ranking_changed':
         return 'Casualty Ranking Changed';
+      case 'aid_offer_cancelled':
+        return 'Aid Offer Cancelled';
+      case 'aid_offer_reneged':
+        return 'Aid Offer Reneged';
+      case 'aid_offer_expired':
+        return 'Aid Offer Expired';
+      case 'war_declared':
+        return 'War Declared';
+      case 'war_peace':
+        return 'War Peace';
+      case 'war_expired':
+        return 'War Expired';
       default:
         return eventType;
     }
@@ -359,6 +405,18 @@ const EventsPage: React.FC = () => {
         return 'bg-orange-600';
       case 'casualty_ranking_changed':
         return 'bg-yellow-600';
+      case 'aid_offer_cancelled':
+        return 'bg-orange-700';
+      case 'aid_offer_reneged':
+        return 'bg-red-700';
+      case 'aid_offer_expired':
+        return 'bg-slate-600';
+      case 'war_declared':
+        return 'bg-red-800';
+      case 'war_peace':
+        return 'bg-teal-600';
+      case 'war_expired':
+        return 'bg-stone-600';
       default:
         return 'bg-gray-600';
     }
@@ -497,6 +555,8 @@ const EventsPage: React.FC = () => {
               <option value="nation">Nation</option>
               <option value="alliance">Alliance</option>
               <option value="stats">Stats</option>
+              <option value="aid">Aid</option>
+              <option value="war">War</option>
             </select>
           </div>
           
@@ -573,6 +633,26 @@ const EventsPage: React.FC = () => {
               ))}
             </select>
           </div>
+
+          <div className="flex items-center gap-2">
+            <label className="text-sm text-gray-300">Wars:</label>
+            <select
+              value={directionFilter}
+              disabled={selectedAllianceId === null}
+              title={selectedAllianceId === null ? 'Pick an alliance to filter its wars by direction' : undefined}
+              onChange={(e) => {
+                const newDirection = e.target.value as DirectionFilter;
+                setDirectionFilter(newDirection);
+                setOffset(0);
+                updateUrlParams({ direction: newDirection, offset: 0 });
+              }}
+              className="px-3 py-1.5 bg-gray-800 text-white border border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-primary/50 text-sm disabled:opacity-50"
+            >
+              <option value="all">All events</option>
+              <option value="offensive">Offensive only</option>
+              <option value="defensive">Defensive only</option>
+            </select>
+          </div>
         </div>
       </div>
 
@@ -3,6 +3,7 @@ import { useSearchParams } from 'react-router-dom';
 import { apiCallWithErrorHandling, API_ENDPOINTS } from '../utils/api';
 import { useAlliances } from '../contexts/AlliancesContext';
 import PageContainer from '../components/PageContainer';
+import { gameId } from '../utils/gameServer';
 
 interface Alliance {
   id: number;
@@ -264,7 +265,7 @@ const InterallianceAidPage: React.FC<InterallianceAidPageProps> = ({ selectedAll
                   <td className="p-2 border border-gray-700 text-gray-200 w-[16%] overflow-hidden">
                     <div className="overflow-hidden text-ellipsis whitespace-nowrap">
                       <a
-                        href={`https://www.cybernations.net/search_aid.asp?search=${offer.senderId}&Extended=1`}
+                        href={`https://www.cybernations.net/search_aid.asp?search=${gameId(offer.senderId)}&Extended=1`}
                         target="_blank"
                         rel="noopener noreferrer"
                         className="text-blue-400 hover:underline font-bold"
@@ -280,7 +281,7 @@ const InterallianceAidPage: React.FC<InterallianceAidPageProps> = ({ selectedAll
                   <td className="p-2 border border-gray-700 text-gray-200 w-[16%] overflow-hidden">
                     <div className="overflow-hidden text-ellipsis whitespace-nowrap">
                       <a
-                        href={`https://www.cybernations.net/search_aid.asp?search=${offer.recipientId}&Extended=1`}
+                        href={`https://www.cybernations.net/search_aid.asp?search=${gameId(offer.recipientId)}&Extended=1`}
                         target="_blank"
                         rel="noopener noreferrer"
                         className="text-blue-400 hover:underline font-bold"
@@ -333,7 +334,7 @@ const InterallianceAidPage: React.FC<InterallianceAidPageProps> = ({ selectedAll
               <div className="flex justify-between items-start gap-2 mb-1">
                 <div className="flex-1 min-w-0">
                   <a
-                    href={`https://www.cybernations.net/search_aid.asp?search=${offer.senderId}&Extended=1`}
+                    href={`https://www.cybernations.net/search_aid.asp?search=${gameId(offer.senderId)}&Extended=1`}
                     target="_blank"
                     rel="noopener noreferrer"
                     className="text-blue-400 hover:underline font-bold text-sm truncate block"
@@ -342,7 +343,7 @@ const InterallianceAidPage: React.FC<InterallianceAidPageProps> = ({ selectedAll
                   </a>
                   <div className="text-xs text-gray-400">→</div>
                   <a
-                    href={`https://www.cybernations.net/search_aid.asp?search=${offer.recipientId}&Extended=1`}
+                    href={`https://www.cybernations.net/search_aid.asp?search=${gameId(offer.recipientId)}&Extended=1`}
                     target="_blank"
                     rel="noopener noreferrer"
                     className="text-blue-400 hover:underline text-sm truncate block"
@@ -710,7 +711,7 @@ const InterallianceAidPage: React.FC<InterallianceAidPageProps> = ({ selectedAll
                         <tr key={nation.nationId} className="bg-gray-800 hover:bg-gray-700">
                           <td className="p-2 border border-gray-700 text-gray-200">
                             <a
-                              href={`https://www.cybernations.net/search_aid.asp?search=${nation.nationId}&Extended=1`}
+                              href={`https://www.cybernations.net/search_aid.asp?search=${gameId(nation.nationId)}&Extended=1`}
                               target="_blank"
                               rel="noopener noreferrer"
                               className="text-blue-400 hover:underline"
@@ -821,7 +822,7 @@ const InterallianceAidPage: React.FC<InterallianceAidPageProps> = ({ selectedAll
                       <div className="flex justify-between items-center mb-1">
                         <div className="flex-1 min-w-0">
                           <a
-                            href={`https://www.cybernations.net/search_aid.asp?search=${nation.nationId}&Extended=1`}
+                            href={`https://www.cybernations.net/search_aid.asp?search=${gameId(nation.nationId)}&Extended=1`}
                             target="_blank"
                             rel="noopener noreferrer"
                             className="text-blue-400 hover:underline font-bold text-sm truncate block"
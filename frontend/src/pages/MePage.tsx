@@ -0,0 +1,383 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { apiCallWithErrorHandling, API_ENDPOINTS } from '../utils/api';
+import PageContainer from '../components/PageContainer';
+import NationLink from '../components/NationLink';
+import ApiKeysSection from '../components/ApiKeysSection';
+import RulerNameVerificationSection from '../components/RulerNameVerificationSection';
+
+interface DashboardNationRef {
+  id: number;
+  rulerName: string;
+  nationName: string;
+  allianceName?: string;
+}
+
+interface DashboardAidOffer {
+  aidId: number;
+  direction: 'sent' | 'received';
+  otherNation: DashboardNationRef;
+  status: string;
+  money: number;
+  technology: number;
+  soldiers: number;
+  date: string;
+  daysUntilExpiration: number;
+}
+
+interface DashboardWar {
+  warId: number;
+  direction: 'offensive' | 'defensive';
+  opponent: DashboardNationRef;
+  status: string;
+  date: string;
+  formattedEndDate: string;
+  daysUntilExpiration: number;
+}
+
+interface DashboardWarAssignment {
+  id: number;
+  assignmentDate: string;
+  note?: string | null;
+  isOutOfRange: boolean;
+  defenderNation: { id: number; name: string; rulerName: string; alliance: string };
+}
+
+interface DashboardAidRecommendation {
+  direction: 'send' | 'receive';
+  type: string;
+  reason: string;
+  otherNation: DashboardNationRef;
+}
+
+interface UserDashboard {
+  rulerName: string;
+  rulerNameVerified: boolean;
+  nation: {
+    id: number;
+    rulerName: string;
+    nationName: string;
+    allianceName: string;
+    strength: number;
+    technology: string;
+    infrastructure: string;
+    nuclearWeapons: number;
+    inWarMode: boolean;
+    rank: number | null;
+  };
+  aidRecommendations: DashboardAidRecommendation[];
+  aidOffers: DashboardAidOffer[];
+  expiringAidOffers: DashboardAidOffer[];
+  wars: {
+    offensive: DashboardWar[];
+    defensive: DashboardWar[];
+  };
+  warAssignments: DashboardWarAssignment[];
+  lastWarchestSubmission: {
+    totalMoney: number;
+    capturedAt: string;
+  } | null;
+}
+
+const formatNumber = (value: number, digits = 0): string =>
+  new Intl.NumberFormat('en-US', { minimumFractionDigits: 0, maximumFractionDigits: digits }).format(value);
+
+const formatMoney = (amount: number): string => {
+  if (amount >= 1000000000) return `$${(amount / 1000000000).toFixed(2)}B`;
+  if (amount >= 1000000) return `$${(amount / 1000000).toFixed(2)}M`;
+  if (amount >= 1000) return `$${(amount / 1000).toFixed(2)}K`;
+  return `$${amount.toFixed(2)}`;
+};
+
+const Section: React.FC<{ title: string; count?: number; children: React.ReactNode }> = ({ title, count, children }) => (
+  <div className="bg-gray-800 border border-gray-700 rounded-lg p-4 mb-4">
+    <h2 className="text-lg font-bold text-gray-200 mb-3">
+      {title}
+      {count !== undefined && <span className="ml-2 text-sm font-normal text-gray-400">({count})</span>}
+    </h2>
+    {children}
+  </div>
+);
+
+const EmptyRow: React.FC<{ text: string }> = ({ text }) => (
+  <div className="text-sm text-gray-500">{text}</div>
+);
+
+const thClass = 'p-2 border-b border-gray-600 text-left text-gray-300 font-semibold';
+const tdClass = 'p-2 border-b border-gray-700/50 text-gray-200';
+
+const WarTable: React.FC<{ wars: DashboardWar[] }> = ({ wars }) => (
+  <div className="overflow-x-auto">
+    <table className="w-full text-sm">
+      <thead>
+        <tr>
+          <th className={thClass}>Opponent</th>
+          <th className={thClass}>Alliance</th>
+          <th className={thClass}>Status</th>
+          <th className={thClass}>Ends</th>
+          <th className={`${thClass} text-right`}>Days Left</th>
+        </tr>
+      </thead>
+      <tbody>
+        {wars.map((war) => (
+          <tr key={war.warId} className="hover:bg-gray-700/30">
+            <td className={tdClass}>
+              <NationLink nationId={war.opponent.id} nationName={war.opponent.nationName} />
+              <div className="text-xs text-gray-400">{war.opponent.rulerName}</div>
+            </td>
+            <td className={tdClass}>{war.opponent.allianceName}</td>
+            <td className={tdClass}>{war.status}</td>
+            <td className={tdClass}>{war.formattedEndDate}</td>
+            <td className={`${tdClass} text-right`}>{war.daysUntilExpiration}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+/**
+ * Personal dashboard: everything the logged-in user needs to act on for their own nation
+ */
+const MePage: React.FC = () => {
+  const { user, isAuthenticated, isLoading: authLoading } = useAuth();
+  const [dashboard, setDashboard] = useState<UserDashboard | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchDashboard = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await apiCallWithErrorHandling(API_ENDPOINTS.meDashboard);
+      setDashboard(response.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load dashboard');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isAuthenticated && user?.rulerName) {
+      fetchDashboard();
+    }
+  }, [isAuthenticated, user?.rulerName, fetchDashboard]);
+
+  if (authLoading || loading) {
+    return <PageContainer className="text-center p-10 text-gray-400">Loading...</PageContainer>;
+  }
+
+  if (!isAuthenticated) {
+    return (
+      <PageContainer className="text-center p-10 text-gray-400">
+        Log in to see your nation dashboard.
+      </PageContainer>
+    );
+  }
+
+  if (!user?.rulerName) {
+    return (
+      <PageContainer className="p-5 max-w-7xl mx-auto">
+        <div className="text-center p-10 text-gray-400">
+          Set your ruler name to see your nation dashboard.{' '}
+          <Link to="/update-rulername" className="text-primary hover:underline">Set ruler name</Link>
+        </div>
+        <ApiKeysSection />
+      </PageContainer>
+    );
+  }
+
+  if (error || !dashboard) {
+    return (
+      <PageContainer className="p-5 max-w-7xl mx-auto">
+        <div className="text-center p-10 text-red-400">
+          {error || 'Dashboard not available'}
+        </div>
+        {!user.rulerNameVerified && <RulerNameVerificationSection onVerified={fetchDashboard} />}
+        <ApiKeysSection />
+      </PageContainer>
+    );
+  }
+
+  const { nation, wars, lastWarchestSubmission, rulerNameVerified } = dashboard;
+  const stats: Array<{ label: string; value: string }> = [
+    { label: 'Strength', value: formatNumber(nation.strength, 2) },
+    { label: 'Rank', value: nation.rank ? `#${nation.rank}` : '—' },
+    { label: 'Technology', value: nation.technology },
+    { label: 'Infrastructure', value: nation.infrastructure },
+    { label: 'Nukes', value: formatNumber(nation.nuclearWeapons) },
+    { label: 'Mode', value: nation.inWarMode ? 'War' : 'Peace' },
+  ];
+  if (rulerNameVerified) {
+    stats.push({
+      label: 'Last Warchest',
+      value: lastWarchestSubmission ? formatMoney(lastWarchestSubmission.totalMoney) : '—',
+    });
+  }
+
+  return (
+    <PageContainer className="p-5 max-w-7xl mx-auto">
+      <div className="mb-4">
+        <h1 className="text-2xl font-bold text-gray-200">
+          <NationLink nationId={nation.id} nationName={nation.nationName} />
+        </h1>
+        <div className="text-gray-400">
+          Ruled by {nation.rulerName} · {nation.allianceName}
+        </div>
+      </div>
+
+      {!rulerNameVerified && <RulerNameVerificationSection onVerified={fetchDashboard} />}
+
+      <Section title="My Stats">
+        <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-3">
+          {stats.map((stat) => (
+            <div key={stat.label} className="bg-gray-900/50 rounded p-2">
+              <div className="text-xs text-gray-400">{stat.label}</div>
+              <div className="text-gray-200 font-semibold">{stat.value}</div>
+            </div>
+          ))}
+        </div>
+        {!rulerNameVerified ? null : lastWarchestSubmission ? (
+          <div className="mt-2 text-xs text-gray-400">
+            Warchest submitted {new Date(lastWarchestSubmission.capturedAt).toLocaleString()}
+          </div>
+        ) : (
+          <div className="mt-2 text-xs text-gray-400">
+            No warchest submitted yet.{' '}
+            <Link to="/warchest-submission" className="text-primary hover:underline">Submit one</Link>
+          </div>
+        )}
+      </Section>
+
+      {rulerNameVerified && (
+        <Section title="Pending Aid Recommendations" count={dashboard.aidRecommendations.length}>
+          {dashboard.aidRecommendations.length === 0 ? (
+            <EmptyRow text="No pending aid recommendations" />
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr>
+                    <th className={thClass}>Direction</th>
+                    <th className={thClass}>Nation</th>
+                    <th className={thClass}>Type</th>
+                    <th className={thClass}>Reason</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {dashboard.aidRecommendations.map((rec, index) => (
+                    <tr key={`${rec.otherNation.id}-${rec.type}-${index}`} className="hover:bg-gray-700/30">
+                      <td className={tdClass}>{rec.direction === 'send' ? 'Send to' : 'Receive from'}</td>
+                      <td className={tdClass}>
+                        <NationLink nationId={rec.otherNation.id} nationName={rec.otherNation.nationName} />
+                        <div className="text-xs text-gray-400">{rec.otherNation.rulerName}</div>
+                      </td>
+                      <td className={tdClass}>{rec.type}</td>
+                      <td className={tdClass}>{rec.reason}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </Section>
+      )}
+
+      <Section title="Active Aid Offers" count={dashboard.aidOffers.length}>
+        {dashboard.expiringAidOffers.length > 0 && (
+          <div className="mb-3 p-2 rounded bg-yellow-900/30 border border-yellow-700 text-yellow-300 text-sm">
+            {dashboard.expiringAidOffers.length} offer{dashboard.expiringAidOffers.length === 1 ? '' : 's'} expiring soon
+          </div>
+        )}
+        {dashboard.aidOffers.length === 0 ? (
+          <EmptyRow text="No active aid offers" />
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr>
+                  <th className={thClass}>Direction</th>
+                  <th className={thClass}>Nation</th>
+                  <th className={`${thClass} text-right`}>Money</th>
+                  <th className={`${thClass} text-right`}>Tech</th>
+                  <th className={`${thClass} text-right`}>Soldiers</th>
+                  <th className={thClass}>Date</th>
+                  <th className={`${thClass} text-right`}>Days Left</th>
+                </tr>
+              </thead>
+              <tbody>
+                {dashboard.aidOffers.map((offer) => {
+                  const expiring = dashboard.expiringAidOffers.some((o) => o.aidId === offer.aidId);
+                  return (
+                    <tr key={offer.aidId} className="hover:bg-gray-700/30">
+                      <td className={tdClass}>{offer.direction === 'sent' ? 'Sent to' : 'Received from'}</td>
+                      <td className={tdClass}>
+                        <NationLink nationId={offer.otherNation.id} nationName={offer.otherNation.nationName} />
+                        <div className="text-xs text-gray-400">{offer.otherNation.rulerName}</div>
+                      </td>
+                      <td className={`${tdClass} text-right`}>{formatMoney(offer.money)}</td>
+                      <td className={`${tdClass} text-right`}>{formatNumber(offer.technology)}</td>
+                      <td className={`${tdClass} text-right`}>{formatNumber(offer.soldiers)}</td>
+                      <td className={tdClass}>{offer.date}</td>
+                      <td className={`${tdClass} text-right ${expiring ? 'text-yellow-300 font-semibold' : ''}`}>
+                        {offer.daysUntilExpiration}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Section>
+
+      <Section title="Offensive Wars" count={wars.offensive.length}>
+        {wars.offensive.length === 0 ? <EmptyRow text="No offensive wars" /> : <WarTable wars={wars.offensive} />}
+      </Section>
+
+      <Section title="Defensive Wars" count={wars.defensive.length}>
+        {wars.defensive.length === 0 ? <EmptyRow text="No defensive wars" /> : <WarTable wars={wars.defensive} />}
+      </Section>
+
+      {rulerNameVerified && (
+        <Section title="My War Assignments" count={dashboard.warAssignments.length}>
+          {dashboard.warAssignments.length === 0 ? (
+            <EmptyRow text="No open war assignments" />
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr>
+                    <th className={thClass}>Date</th>
+                    <th className={thClass}>Target</th>
+                    <th className={thClass}>Alliance</th>
+                    <th className={thClass}>Note</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {dashboard.warAssignments.map((assignment) => (
+                    <tr key={assignment.id} className={assignment.isOutOfRange ? 'opacity-60' : 'hover:bg-gray-700/30'}>
+                      <td className={tdClass}>{assignment.assignmentDate}</td>
+                      <td className={tdClass}>
+                        <NationLink nationId={assignment.defenderNation.id} nationName={assignment.defenderNation.name} />
+                        <div className="text-xs text-gray-400">{assignment.defenderNation.rulerName}</div>
+                      </td>
+                      <td className={tdClass}>{assignment.defenderNation.alliance}</td>
+                      <td className={tdClass}>{assignment.note || '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </Section>
+      )}
+
+      <ApiKeysSection />
+    </PageContainer>
+  );
+};
+
+export default MePage;
@@ -3,6 +3,7 @@ import { useParams } from 'react-router-dom';
 import { apiCallWithErrorHandling, API_ENDPOINTS } from '../utils/api';
 import TableContainer from '../components/TableContainer';
 import { useAuth, UserRole } from '../contexts/AuthContext';
+import { gameId } from '../utils/gameServer';
 
 interface MobilizationNation {
   nationId: number;
@@ -725,7 +726,7 @@ const MobilizationEventsPage: React.FC = () => {
                 >
                   <div className="min-w-0 flex-1">
                     <a
-                      href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${n.nationId}`}
+                      href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(n.nationId)}`}
                       target="_blank"
                       rel="noopener noreferrer"
                       className="text-primary no-underline font-medium hover:underline truncate block text-xs"
@@ -3,6 +3,7 @@ import { useSearchParams } from 'react-router-dom';
 import { apiCall, API_ENDPOINTS } from '../utils/api';
 import { useAlliances } from '../contexts/AlliancesContext';
 import PageContainer from '../components/PageContainer';
+import { gameId } from '../utils/gameServer';
 
 // Shared labels for coalitions
 const BLUE_LABEL = 'Blue';
@@ -941,7 +942,7 @@ const Scatterplot: React.FC<{
               return (
                 <a
                   key={`pt-${idx}`}
-                  href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${p.nation_id}`}
+                  href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(p.nation_id)}`}
                   target="_blank"
                   rel="noopener noreferrer"
                 >
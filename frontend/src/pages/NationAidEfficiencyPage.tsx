@@ -2,6 +2,7 @@ import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { useSearchParams } from 'react-router-dom';
 import { apiCallWithErrorHandling, API_ENDPOINTS } from '../utils/api';
 import TableContainer from '../components/TableContainer';
+import { gameId } from '../utils/gameServer';
 
 interface NationEfficiencyData {
   nationId: number;
@@ -520,7 +521,7 @@ const NationAidEfficiencyPage: React.FC = () => {
                     >
                       <td className="p-2 border border-gray-700 font-bold text-gray-200">
                         <a 
-                          href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${nation.nationId}`}
+                          href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(nation.nationId)}`}
                           target="_blank"
                           rel="noopener noreferrer"
                           className="text-primary no-underline hover:underline"
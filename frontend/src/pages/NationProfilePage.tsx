@@ -0,0 +1,508 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { apiCallWithErrorHandling, API_ENDPOINTS } from '../utils/api';
+import PageContainer from '../components/PageContainer';
+import NationLink from '../components/NationLink';
+import { gameId } from '../utils/gameServer';
+
+interface ProfileNationRef {
+  id: number;
+  rulerName: string;
+  nationName: string;
+  allianceId: number;
+  allianceName: string;
+}
+
+interface ProfileAidOffer {
+  aidId: number;
+  direction: 'sent' | 'received';
+  otherNation: ProfileNationRef;
+  status: string;
+  money: number;
+  technology: number;
+  soldiers: number;
+  date: string;
+  reason: string;
+  expirationDate: string;
+  daysUntilExpiration: number;
+}
+
+interface ProfileWar {
+  warId: number;
+  direction: 'offensive' | 'defensive';
+  opponent: ProfileNationRef;
+  status: string;
+  date: string;
+  endDate: string;
+  formattedEndDate: string;
+  daysUntilExpiration: number;
+  destruction: string | null;
+  attackPercent: number | null;
+  defendPercent: number | null;
+}
+
+interface ProfileWarAssignment {
+  id: number;
+  assignmentDate: string;
+  note?: string | null;
+  isOutOfRange: boolean;
+  attackerNation: { id: number; name: string; rulerName: string; alliance: string; allianceId: number };
+  defenderNation: { id: number; name: string; rulerName: string; alliance: string; allianceId: number };
+}
+
+interface ProfileWarchestSubmission {
+  id: number;
+  totalMoney: number;
+  armyXP?: number | null;
+  navyXP?: number | null;
+  airForceXP?: number | null;
+  intelligenceXP?: number | null;
+  capturedAt: string;
+}
+
+interface ProfileEvent {
+  id: number;
+  eventType: string;
+  description: string;
+  createdAt: string;
+}
+
+interface NationProfile {
+  nation: {
+    id: number;
+    rulerName: string;
+    nationName: string;
+    allianceId: number;
+    allianceName: string;
+    team: string;
+    strength: number;
+    activity: string;
+    technology: string;
+    infrastructure: string;
+    land: string;
+    nuclearWeapons: number;
+    governmentType: string;
+    inWarMode: boolean;
+    defcon: number | null;
+    warchest: number | null;
+    rank: number | null;
+    isActive: boolean;
+    lastSeenAt: string;
+  };
+  config: {
+    hasDra: boolean;
+    discordHandle: string | null;
+    notes: string | null;
+    sendTechSlots: number;
+    sendCashSlots: number;
+    getTechSlots: number;
+    getCashSlots: number;
+    externalSlots: number;
+    sendPriority: number;
+    receivePriority: number;
+  } | null;
+  aidOffers: {
+    active: ProfileAidOffer[];
+    expired: ProfileAidOffer[];
+  };
+  wars: ProfileWar[];
+  /** Null when the viewer isn't logged in */
+  warAssignments: ProfileWarAssignment[] | null;
+  warchestSubmissions: ProfileWarchestSubmission[];
+  recentEvents: ProfileEvent[];
+  casualties: {
+    rank: number | null;
+    totalCasualties: number;
+  };
+}
+
+interface HistoryPoint {
+  snapshotAt: string;
+  values: {
+    strength?: number | null;
+    technology?: number | null;
+    infrastructure?: number | null;
+    land?: number | null;
+    nuclearWeapons?: number | null;
+  };
+}
+
+const HISTORY_ROWS = 10;
+
+const formatNumber = (value: number | null | undefined, digits = 0): string => {
+  if (value === null || value === undefined) return '—';
+  return new Intl.NumberFormat('en-US', {
+    minimumFractionDigits: 0,
+    maximumFractionDigits: digits,
+  }).format(value);
+};
+
+const formatMoney = (amount: number): string => {
+  if (amount >= 1000000000) return `$${(amount / 1000000000).toFixed(2)}B`;
+  if (amount >= 1000000) return `$${(amount / 1000000).toFixed(2)}M`;
+  if (amount >= 1000) return `$${(amount / 1000).toFixed(2)}K`;
+  return `$${amount.toFixed(2)}`;
+};
+
+const formatDateTime = (value: string): string =>
+  new Date(value).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const Section: React.FC<{ title: string; count?: number; children: React.ReactNode }> = ({ title, count, children }) => (
+  <div className="bg-gray-800 border border-gray-700 rounded-lg p-4 mb-4">
+    <h2 className="text-lg font-bold text-gray-200 mb-3">
+      {title}
+      {count !== undefined && <span className="ml-2 text-sm font-normal text-gray-400">({count})</span>}
+    </h2>
+    {children}
+  </div>
+);
+
+const EmptyRow: React.FC<{ text: string }> = ({ text }) => (
+  <div className="text-sm text-gray-500">{text}</div>
+);
+
+const thClass = 'p-2 border-b border-gray-600 text-left text-gray-300 font-semibold';
+const tdClass = 'p-2 border-b border-gray-700/50 text-gray-200';
+
+const AidOfferTable: React.FC<{ offers: ProfileAidOffer[]; showExpiry: boolean }> = ({ offers, showExpiry }) => (
+  <div className="overflow-x-auto">
+    <table className="w-full text-sm">
+      <thead>
+        <tr>
+          <th className={thClass}>Direction</th>
+          <th className={thClass}>Nation</th>
+          <th className={thClass}>Alliance</th>
+          <th className={thClass}>Status</th>
+          <th className={`${thClass} text-right`}>Money</th>
+          <th className={`${thClass} text-right`}>Tech</th>
+          <th className={`${thClass} text-right`}>Soldiers</th>
+          <th className={thClass}>Date</th>
+          {showExpiry && <th className={`${thClass} text-right`}>Days Left</th>}
+        </tr>
+      </thead>
+      <tbody>
+        {offers.map((offer) => (
+          <tr key={offer.aidId} className="hover:bg-gray-700/30">
+            <td className={tdClass}>{offer.direction === 'sent' ? 'Sent to' : 'Received from'}</td>
+            <td className={tdClass}>
+              <NationLink nationId={offer.otherNation.id} nationName={offer.otherNation.nationName} />
+              <div className="text-xs text-gray-400">{offer.otherNation.rulerName}</div>
+            </td>
+            <td className={tdClass}>{offer.otherNation.allianceName}</td>
+            <td className={tdClass}>{offer.status}</td>
+            <td className={`${tdClass} text-right`}>{formatMoney(offer.money)}</td>
+            <td className={`${tdClass} text-right`}>{formatNumber(offer.technology)}</td>
+            <td className={`${tdClass} text-right`}>{formatNumber(offer.soldiers)}</td>
+            <td className={tdClass}>{offer.date}</td>
+            {showExpiry && <td className={`${tdClass} text-right`}>{offer.daysUntilExpiration}</td>}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+const NationProfilePage: React.FC = () => {
+  const { nationId } = useParams<{ nationId: string }>();
+  const parsedNationId = nationId ? parseInt(nationId) : NaN;
+  const [profile, setProfile] = useState<NationProfile | null>(null);
+  const [history, setHistory] = useState<HistoryPoint[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchProfile = useCallback(async (id: number) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [profileResponse, historyResponse] = await Promise.all([
+        apiCallWithErrorHandling(API_ENDPOINTS.nationProfile(id)),
+        apiCallWithErrorHandling(API_ENDPOINTS.nationHistory(id, {
+          fields: ['strength', 'technology', 'infrastructure', 'land', 'nuclearWeapons'],
+        })),
+      ]);
+      setProfile(profileResponse.data);
+      const points: HistoryPoint[] = historyResponse.data?.points || [];
+      setHistory(points.slice(-HISTORY_ROWS).reverse());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load nation profile');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isNaN(parsedNationId)) {
+      fetchProfile(parsedNationId);
+    }
+  }, [parsedNationId, fetchProfile]);
+
+  if (isNaN(parsedNationId)) {
+    return (
+      <PageContainer className="text-center p-10 text-gray-400">
+        Invalid nation ID.
+      </PageContainer>
+    );
+  }
+
+  if (loading) {
+    return <PageContainer className="text-center p-10 text-gray-400">Loading...</PageContainer>;
+  }
+
+  if (error || !profile) {
+    return (
+      <PageContainer className="text-center p-10 text-red-400">
+        {error || 'Nation not found'}
+      </PageContainer>
+    );
+  }
+
+  const { nation, config } = profile;
+  const stats: Array<{ label: string; value: string }> = [
+    { label: 'Strength', value: formatNumber(nation.strength, 2) },
+    { label: 'Rank', value: nation.rank ? `#${nation.rank}` : '—' },
+    { label: 'Technology', value: nation.technology },
+    { label: 'Infrastructure', value: nation.infrastructure },
+    { label: 'Land', value: nation.land },
+    { label: 'Nukes', value: formatNumber(nation.nuclearWeapons) },
+    { label: 'Mode', value: nation.inWarMode ? 'War' : 'Peace' },
+    { label: 'DEFCON', value: nation.defcon != null ? String(nation.defcon) : '—' },
+    { label: 'Warchest', value: nation.warchest != null ? formatMoney(nation.warchest) : '—' },
+    { label: 'Government', value: nation.governmentType },
+    { label: 'Team', value: nation.team },
+    { label: 'Activity', value: nation.activity },
+    { label: 'Casualties', value: formatNumber(profile.casualties.totalCasualties) },
+    { label: 'Casualty Rank', value: profile.casualties.rank ? `#${profile.casualties.rank}` : '—' },
+  ];
+
+  return (
+    <PageContainer className="p-5 max-w-7xl mx-auto">
+      <div className="mb-4">
+        <h1 className="text-2xl font-bold text-gray-200">
+          {nation.nationName}
+          {!nation.isActive && <span className="ml-3 text-sm font-normal text-red-400">(no longer in game data)</span>}
+        </h1>
+        <div className="text-gray-400">
+          Ruled by {nation.rulerName} · {nation.allianceName} ·{' '}
+          <a
+            href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(nation.id)}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-primary hover:underline"
+          >
+            View on CyberNations
+          </a>
+        </div>
+      </div>
+
+      <Section title="Current Stats">
+        <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-3">
+          {stats.map((stat) => (
+            <div key={stat.label} className="bg-gray-900/50 rounded p-2">
+              <div className="text-xs text-gray-400">{stat.label}</div>
+              <div className="text-gray-200 font-semibold">{stat.value}</div>
+            </div>
+          ))}
+        </div>
+      </Section>
+
+      {config && (
+        <Section title="Nation Config">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-sm">
+            <div><span className="text-gray-400">Send Tech:</span> {config.sendTechSlots}</div>
+            <div><span className="text-gray-400">Send Cash:</span> {config.sendCashSlots}</div>
+            <div><span className="text-gray-400">Get Tech:</span> {config.getTechSlots}</div>
+            <div><span className="text-gray-400">Get Cash:</span> {config.getCashSlots}</div>
+            <div><span className="text-gray-400">External:</span> {config.externalSlots}</div>
+            <div><span className="text-gray-400">Send Priority:</span> {config.sendPriority}</div>
+            <div><span className="text-gray-400">Receive Priority:</span> {config.receivePriority}</div>
+            <div><span className="text-gray-400">DRA:</span> {config.hasDra ? 'Yes' : 'No'}</div>
+            <div><span className="text-gray-400">Discord:</span> {config.discordHandle || '—'}</div>
+          </div>
+          {config.notes && <div className="mt-2 text-sm text-gray-300">{config.notes}</div>}
+        </Section>
+      )}
+
+      <Section title="Active Wars" count={profile.wars.length}>
+        {profile.wars.length === 0 ? (
+          <EmptyRow text="No active wars" />
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr>
+                  <th className={thClass}>Type</th>
+                  <th className={thClass}>Opponent</th>
+                  <th className={thClass}>Alliance</th>
+                  <th className={thClass}>Status</th>
+                  <th className={thClass}>Declared</th>
+                  <th className={thClass}>Ends</th>
+                  <th className={`${thClass} text-right`}>Days Left</th>
+                </tr>
+              </thead>
+              <tbody>
+                {profile.wars.map((war) => (
+                  <tr key={war.warId} className="hover:bg-gray-700/30">
+                    <td className={tdClass}>
+                      <span className={war.direction === 'offensive' ? 'text-red-300' : 'text-blue-300'}>
+                        {war.direction === 'offensive' ? 'Offensive' : 'Defensive'}
+                      </span>
+                    </td>
+                    <td className={tdClass}>
+                      <NationLink nationId={war.opponent.id} nationName={war.opponent.nationName} />
+                      <div className="text-xs text-gray-400">{war.opponent.rulerName}</div>
+                    </td>
+                    <td className={tdClass}>{war.opponent.allianceName}</td>
+                    <td className={tdClass}>{war.status}</td>
+                    <td className={tdClass}>{war.date}</td>
+                    <td className={tdClass}>{war.formattedEndDate}</td>
+                    <td className={`${tdClass} text-right`}>{war.daysUntilExpiration}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Section>
+
+      {profile.warAssignments && (
+        <Section title="War Assignments" count={profile.warAssignments.length}>
+          {profile.warAssignments.length === 0 ? (
+            <EmptyRow text="No open war assignments" />
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr>
+                    <th className={thClass}>Date</th>
+                    <th className={thClass}>Attacker</th>
+                    <th className={thClass}>Defender</th>
+                    <th className={thClass}>Note</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {profile.warAssignments.map((assignment) => (
+                    <tr key={assignment.id} className={assignment.isOutOfRange ? 'opacity-60' : 'hover:bg-gray-700/30'}>
+                      <td className={tdClass}>{assignment.assignmentDate}</td>
+                      <td className={tdClass}>
+                        <NationLink nationId={assignment.attackerNation.id} nationName={assignment.attackerNation.name} />
+                        <div className="text-xs text-gray-400">{assignment.attackerNation.alliance}</div>
+                      </td>
+                      <td className={tdClass}>
+                        <NationLink nationId={assignment.defenderNation.id} nationName={assignment.defenderNation.name} />
+                        <div className="text-xs text-gray-400">{assignment.defenderNation.alliance}</div>
+                      </td>
+                      <td className={tdClass}>{assignment.note || '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </Section>
+      )}
+
+      <Section title="Active Aid Offers" count={profile.aidOffers.active.length}>
+        {profile.aidOffers.active.length === 0 ? (
+          <EmptyRow text="No active aid offers" />
+        ) : (
+          <AidOfferTable offers={profile.aidOffers.active} showExpiry />
+        )}
+      </Section>
+
+      <Section title="Expired Aid Offers" count={profile.aidOffers.expired.length}>
+        {profile.aidOffers.expired.length === 0 ? (
+          <EmptyRow text="No expired aid offers" />
+        ) : (
+          <AidOfferTable offers={profile.aidOffers.expired} showExpiry={false} />
+        )}
+      </Section>
+
+      <Section title="Stat History" count={history.length}>
+        {history.length === 0 ? (
+          <EmptyRow text="No snapshots recorded yet" />
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr>
+                  <th className={thClass}>Snapshot</th>
+                  <th className={`${thClass} text-right`}>Strength</th>
+                  <th className={`${thClass} text-right`}>Technology</th>
+                  <th className={`${thClass} text-right`}>Infrastructure</th>
+                  <th className={`${thClass} text-right`}>Land</th>
+                  <th className={`${thClass} text-right`}>Nukes</th>
+                </tr>
+              </thead>
+              <tbody>
+                {history.map((point) => (
+                  <tr key={point.snapshotAt} className="hover:bg-gray-700/30">
+                    <td className={tdClass}>{formatDateTime(point.snapshotAt)}</td>
+                    <td className={`${tdClass} text-right`}>{formatNumber(point.values.strength, 2)}</td>
+                    <td className={`${tdClass} text-right`}>{formatNumber(point.values.technology, 2)}</td>
+                    <td className={`${tdClass} text-right`}>{formatNumber(point.values.infrastructure, 2)}</td>
+                    <td className={`${tdClass} text-right`}>{formatNumber(point.values.land, 2)}</td>
+                    <td className={`${tdClass} text-right`}>{formatNumber(point.values.nuclearWeapons)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Section>
+
+      <Section title="Warchest Submissions" count={profile.warchestSubmissions.length}>
+        {profile.warchestSubmissions.length === 0 ? (
+          <EmptyRow text="No warchest submissions" />
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr>
+                  <th className={thClass}>Captured</th>
+                  <th className={`${thClass} text-right`}>Total Money</th>
+                  <th className={thClass}>XP (Army / Navy / Air / Intel)</th>
+                </tr>
+              </thead>
+              <tbody>
+                {profile.warchestSubmissions.map((submission) => (
+                  <tr key={submission.id} className="hover:bg-gray-700/30">
+                    <td className={tdClass}>{formatDateTime(submission.capturedAt)}</td>
+                    <td className={`${tdClass} text-right text-green-400 font-semibold`}>{formatMoney(submission.totalMoney)}</td>
+                    <td className={tdClass}>
+                      {[submission.armyXP, submission.navyXP, submission.airForceXP, submission.intelligenceXP]
+                        .map((xp) => (xp ?? '—'))
+                        .join(' / ')}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Section>
+
+      <Section title="Recent Events" count={profile.recentEvents.length}>
+        {profile.recentEvents.length === 0 ? (
+          <EmptyRow text="No events recorded" />
+        ) : (
+          <ul className="space-y-1 text-sm">
+            {profile.recentEvents.map((event) => (
+              <li key={event.id} className="flex gap-3">
+                <span className="text-gray-400 whitespace-nowrap">{formatDateTime(event.createdAt)}</span>
+                <span className="text-gray-200">{event.description}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </Section>
+    </PageContainer>
+  );
+};
+
+export default NationProfilePage;
@@ -1,18 +1,19 @@
 import React, { useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import NationEditor from '../components/NationEditor';
+import NotificationSubscriptions from '../components/NotificationSubscriptions';
 import PageContainer from '../components/PageContainer';
 import { useAuth } from '../contexts/AuthContext';
 
 const NationsPage: React.FC = () => {
   const { allianceId } = useParams<{ allianceId: string }>();
   const navigate = useNavigate();
-  const { user, isAuthenticated, isLoading, hasCapability, isAllianceManager } = useAuth();
+  const { user, isAuthenticated, isLoading, hasCapability, isAllianceManager, manageableAllianceIds } = useAuth();
 
   useEffect(() => {
     if (isLoading || !isAuthenticated || !user) return;
     const canManageAll = hasCapability('manage_all_alliance');
-    const managedIds = user.managedAllianceIds ?? [];
+    const managedIds = manageableAllianceIds;
     const hasManageableAlliances = canManageAll || managedIds.length > 0;
     if (!hasManageableAlliances) return;
     if (!allianceId) {
@@ -25,7 +26,7 @@ const NationsPage: React.FC = () => {
     if (!isNaN(allianceIdNum) && !hasCapability('manage_alliance', allianceIdNum)) {
       return;
     }
-  }, [isLoading, isAuthenticated, user, allianceId, navigate, hasCapability, isAllianceManager]);
+  }, [isLoading, isAuthenticated, user, allianceId, navigate, hasCapability, isAllianceManager, manageableAllianceIds]);
 
   // Show loading state while checking auth
   if (isLoading) {
@@ -56,7 +57,7 @@ const NationsPage: React.FC = () => {
     );
   }
 
-  const hasManageableAlliances = hasCapability('manage_all_alliance') || (user.managedAllianceIds?.length ?? 0) > 0;
+  const hasManageableAlliances = hasCapability('manage_all_alliance') || manageableAllianceIds.length > 0;
   if (!hasManageableAlliances) {
     return (
       <PageContainer className="text-center p-10">
@@ -88,9 +89,9 @@ const NationsPage: React.FC = () => {
           <p className="text-gray-400 mb-6">
             You do not have permission to manage this alliance.
           </p>
-          {(user.managedAllianceIds?.length ?? 0) > 0 && (
+          {manageableAllianceIds.length > 0 && (
             <button
-              onClick={() => navigate(`/nations/${user.managedAllianceIds![0]}`)}
+              onClick={() => navigate(`/nations/${manageableAllianceIds[0]}`)}
               className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
             >
               Go to Your Alliance
@@ -104,6 +105,7 @@ const NationsPage: React.FC = () => {
   return (
     <PageContainer>
       <NationEditor allianceId={allianceIdNum} />
+      <NotificationSubscriptions allianceId={allianceIdNum} />
     </PageContainer>
   );
 };
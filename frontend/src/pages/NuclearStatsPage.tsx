@@ -4,6 +4,9 @@ import ReusableTable from '../components/ReusableTable';
 import type { TableColumn } from '../components/ReusableTable';
 import { tableClasses } from '../styles/tableClasses';
 import TableContainer from '../components/TableContainer';
+import NationLink from '../components/NationLink';
+import { gameId } from '../utils/gameServer';
+import { useAuth } from '../contexts/AuthContext';
 
 interface ByPairRow {
   attackingNation: string;
@@ -51,6 +54,70 @@ interface SummaryRow {
   noHit: number;
 }
 
+type SdiInference = 'likely' | 'possible' | 'unlikely' | 'unknown';
+
+interface NationSuccessRow {
+  id: number;
+  nationName: string;
+  rulerName: string;
+  allianceId: number;
+  allianceName: string;
+  launched: number;
+  landed: number;
+  thwarted: number;
+  successRate: number | null;
+  received: number;
+  receivedLanded: number;
+  receivedThwarted: number;
+  receivedSuccessRate: number | null;
+  maxLandedInDay: number;
+  maxLandedOnInDay: number;
+  sdi: SdiInference;
+}
+
+interface AllianceSuccessRow {
+  allianceId: number;
+  allianceName: string;
+  nations: number;
+  launched: number;
+  landed: number;
+  thwarted: number;
+  successRate: number | null;
+  received: number;
+  receivedLanded: number;
+  receivedThwarted: number;
+  receivedSuccessRate: number | null;
+  likelySdi: number;
+}
+
+interface DailyCaps {
+  launchedPerAttacker: number;
+  landedPerAttacker: number;
+  landedPerDefender: number;
+}
+
+interface UnmatchedName {
+  name: string;
+  asAttacker: number;
+  asDefender: number;
+}
+
+const formatRate = (rate: number | null) => (rate === null ? '—' : `${(rate * 100).toFixed(0)}%`);
+
+const SDI_LABELS: Record<SdiInference, string> = {
+  likely: 'Likely',
+  possible: 'Possible',
+  unlikely: 'Unlikely',
+  unknown: '—',
+};
+
+const SDI_CLASSES: Record<SdiInference, string> = {
+  likely: 'text-red-400 font-semibold',
+  possible: 'text-yellow-400',
+  unlikely: 'text-green-400',
+  unknown: 'text-gray-500',
+};
+
 const NuclearStatsPage: React.FC = () => {
   const [data, setData] = useState<ByPairRow[]>([]);
   const [summaryRows, setSummaryRows] = useState<SummaryRow[]>([]);
@@ -60,6 +127,19 @@ const NuclearStatsPage: React.FC = () => {
   const [missesFilter, setMissesFilter] = useState<string>('all'); // 'all' or a number as string
   const [timeline, setTimeline] = useState<NuclearTimelineResponse | null>(null);
   const [timelineError, setTimelineError] = useState<string | null>(null);
+  const [nationRows, setNationRows] = useState<NationSuccessRow[]>([]);
+  const [nationQuery, setNationQuery] = useState<string>('');
+  const [allianceRows, setAllianceRows] = useState<AllianceSuccessRow[]>([]);
+  const [dailyCaps, setDailyCaps] = useState<DailyCaps | null>(null);
+  const [unmatched, setUnmatched] = useState<UnmatchedName[]>([]);
+  const [resolveIds, setResolveIds] = useState<Record<string, string>>({});
+  const [resolvingName, setResolvingName] = useState<string | null>(null);
+  const [resolveMessage, setResolveMessage] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const { isAuthenticated, capabilityAllianceIds } = useAuth();
+  // War managers of any alliance; the server checks the reports involve one of theirs
+  const resolveAllianceIds = capabilityAllianceIds('manage_war_assignments');
+  const canResolve = isAuthenticated && (resolveAllianceIds === null || resolveAllianceIds.length > 0);
 
   useEffect(() => {
     const fetchAll = async () => {
@@ -68,9 +148,12 @@ const NuclearStatsPage: React.FC = () => {
         setError(null);
         setTimelineError(null);
 
-        const [statsRes, timelineRes] = await Promise.all([
+        const [statsRes, timelineRes, nationsRes, alliancesRes, unmatchedRes] = await Promise.all([
           apiCallWithErrorHandling(API_ENDPOINTS.nuclearStats),
           apiCallWithErrorHandling(API_ENDPOINTS.nuclearTimeline(5)),
+          apiCallWithErrorHandling(API_ENDPOINTS.nuclearNations),
+          apiCallWithErrorHandling(API_ENDPOINTS.nuclearAlliances),
+          apiCallWithErrorHandling(API_ENDPOINTS.nuclearUnmatched),
         ]);
 
         const res: NuclearStatsResponse = statsRes;
@@ -93,6 +176,10 @@ const NuclearStatsPage: React.FC = () => {
         setSummaryRows(rows);
 
         setTimeline(timelineRes as NuclearTimelineResponse);
+        setNationRows(nationsRes.nations || []);
+        setDailyCaps(nationsRes.dailyCaps || null);
+        setAllianceRows(alliancesRes.alliances || []);
+        setUnmatched(unmatchedRes.names || []);
       } catch (err) {
         const msg = err instanceof Error ? err.message : 'Failed to load nuclear stats';
         setError(msg);
@@ -102,7 +189,31 @@ const NuclearStatsPage: React.FC = () => {
       }
     };
     fetchAll();
-  }, []);
+  }, [reloadKey]);
+
+  const resolveName = async (name: string) => {
+    const idText = (resolveIds[name] || '').trim();
+    const nationId = idText ? parseInt(idText, 10) : undefined;
+    if (idText && (!nationId || nationId <= 0)) {
+      setResolveMessage('Nation ID must be a positive number');
+      return;
+    }
+
+    setResolvingName(name);
+    setResolveMessage(null);
+    try {
+      const result = await apiCallWithErrorHandling(API_ENDPOINTS.nuclearResolveUnmatched, {
+        method: 'POST',
+        body: JSON.stringify(nationId ? { name, nationId } : { name }),
+      });
+      setResolveMessage(`Matched "${name}" to nation ${result.nationId} on ${result.updated} reports`);
+      setReloadKey((key) => key + 1);
+    } catch (err) {
+      setResolveMessage(err instanceof Error ? err.message : `Failed to match "${name}"`);
+    } finally {
+      setResolvingName(null);
+    }
+  };
 
   const summaryColumns: TableColumn<SummaryRow>[] = useMemo(() => [
     { key: 'thwartedCount', header: 'Thwarted Count', align: 'center', width: '25%', sortable: true },
@@ -119,7 +230,7 @@ const NuclearStatsPage: React.FC = () => {
         row.attackerId ? (
           <div>
             <a
-              href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${row.attackerId}`}
+              href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(row.attackerId)}`}
               target="_blank"
               rel="noopener noreferrer"
               className="text-primary no-underline font-bold hover:underline"
@@ -143,7 +254,7 @@ const NuclearStatsPage: React.FC = () => {
         row.defenderId ? (
           <div>
             <a
-              href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${row.defenderId}`}
+              href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(row.defenderId)}`}
               target="_blank"
               rel="noopener noreferrer"
               className="text-primary no-underline font-bold hover:underline"
@@ -166,6 +277,62 @@ const NuclearStatsPage: React.FC = () => {
     { key: 'firstHitAt', header: 'First Hit Time', width: '12%' },
   ], []);
 
+  const nationColumns: TableColumn<NationSuccessRow>[] = useMemo(() => [
+    {
+      key: 'nationName',
+      header: 'Nation',
+      width: '22%',
+      render: (_v, row) => (
+        <div>
+          <NationLink nationId={row.id} nationName={row.nationName} />
+          <div className="text-xs text-gray-400">{row.rulerName} · {row.allianceName}</div>
+        </div>
+      )
+    },
+    { key: 'launched', header: 'Launched', align: 'center', sortable: true },
+    { key: 'landed', header: 'Landed', align: 'center', sortable: true },
+    { key: 'successRate', header: 'Success', align: 'center', sortable: true, render: (v) => formatRate(v) },
+    { key: 'received', header: 'Received', align: 'center', sortable: true },
+    { key: 'receivedLanded', header: 'Landed On', align: 'center', sortable: true },
+    { key: 'receivedThwarted', header: 'Thwarted', align: 'center', sortable: true },
+    {
+      key: 'sdi',
+      header: 'SDI',
+      align: 'center',
+      render: (v: SdiInference) => <span className={SDI_CLASSES[v]}>{SDI_LABELS[v]}</span>
+    },
+    {
+      key: 'maxLandedOnInDay',
+      header: 'Most Landed On / Day',
+      align: 'center',
+      sortable: true,
+      render: (v, row) => (
+        <span className={dailyCaps && v > 0 && v >= dailyCaps.landedPerDefender ? 'text-red-400 font-semibold' : ''}>
+          {row.receivedLanded > 0 ? v : '—'}
+        </span>
+      )
+    },
+  ], [dailyCaps]);
+
+  const allianceColumns: TableColumn<AllianceSuccessRow>[] = useMemo(() => [
+    { key: 'allianceName', header: 'Alliance', width: '22%' },
+    { key: 'nations', header: 'Nations', align: 'center', sortable: true },
+    { key: 'launched', header: 'Launched', align: 'center', sortable: true },
+    { key: 'landed', header: 'Landed', align: 'center', sortable: true },
+    { key: 'successRate', header: 'Success', align: 'center', sortable: true, render: (v) => formatRate(v) },
+    { key: 'received', header: 'Received', align: 'center', sortable: true },
+    { key: 'receivedSuccessRate', header: 'Landed On Rate', align: 'center', sortable: true, render: (v) => formatRate(v) },
+    { key: 'likelySdi', header: 'Likely SDIs', align: 'center', sortable: true },
+  ], []);
+
+  const filteredNationRows = useMemo(() => {
+    const q = nationQuery.trim().toLowerCase();
+    if (!q) return nationRows;
+    return nationRows.filter(row =>
+      [row.nationName, row.rulerName, row.allianceName].some(v => v.toLowerCase().includes(q))
+    );
+  }, [nationRows, nationQuery]);
+
   const uniqueMisses = useMemo(() => {
     const set = new Set<number>();
     data.forEach(r => set.add(r.thwartedBeforeHit));
@@ -414,6 +581,87 @@ const NuclearStatsPage: React.FC = () => {
         )}
       </div>
 
+      <div className="mb-6">
+        <h2 className="text-xl font-bold mb-2 text-gray-200">Success by Nation</h2>
+        <p className="text-sm text-gray-400 mb-3">
+          Success counts landed nukes against thwarted ones. Repeated thwarts against a defender suggest an SDI.
+          {dailyCaps && ` Most seen in one day: ${dailyCaps.launchedPerAttacker} launched and ${dailyCaps.landedPerAttacker} landed by one nation, ${dailyCaps.landedPerDefender} landed on one nation (highlighted).`}
+        </p>
+        <div className={tableClasses.filterContainer}>
+          <input
+            type="text"
+            value={nationQuery}
+            placeholder="Filter by nation, ruler or alliance"
+            onChange={(e) => setNationQuery(e.target.value)}
+            className={tableClasses.filterInput}
+          />
+        </div>
+        <ReusableTable<NationSuccessRow>
+          data={filteredNationRows}
+          columns={nationColumns}
+          loading={loading}
+          error={error}
+          emptyMessage="No reports matched to nations"
+          className={tableClasses.tableWrapper}
+          rowKey="id"
+        />
+      </div>
+
+      <div className="mb-6">
+        <h2 className="text-xl font-bold mb-2 text-gray-200">Success by Alliance</h2>
+        <ReusableTable<AllianceSuccessRow>
+          data={allianceRows}
+          columns={allianceColumns}
+          loading={loading}
+          error={error}
+          emptyMessage="No reports matched to nations"
+          className={tableClasses.tableWrapper}
+          rowKey="allianceId"
+        />
+      </div>
+
+      {unmatched.length > 0 && (
+        <div className="mb-6">
+          <h2 className="text-xl font-bold mb-2 text-gray-200">Unmatched Names ({unmatched.length})</h2>
+          <p className="text-sm text-gray-400 mb-3">
+            Attackers and defenders from reports that matched no nation. They are left out of the success stats until matched.
+          </p>
+          {resolveMessage && <div className="text-sm text-gray-300 mb-2">{resolveMessage}</div>}
+          <ul className="space-y-2 text-sm">
+            {unmatched.map((row) => (
+              <li key={row.name} className="flex flex-wrap items-center gap-3">
+                <span className="text-gray-200 font-medium">{row.name}</span>
+                <span className="text-gray-400">
+                  {row.asAttacker > 0 && `${row.asAttacker} as attacker`}
+                  {row.asAttacker > 0 && row.asDefender > 0 && ', '}
+                  {row.asDefender > 0 && `${row.asDefender} as defender`}
+                </span>
+                {canResolve && (
+                  <>
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      value={resolveIds[row.name] || ''}
+                      placeholder="Nation ID (optional)"
+                      onChange={(e) => setResolveIds((ids) => ({ ...ids, [row.name]: e.target.value }))}
+                      className="px-2 py-1 border border-gray-600 rounded bg-gray-800 text-gray-200 w-44"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => resolveName(row.name)}
+                      disabled={resolvingName !== null}
+                      className="px-3 py-1 rounded bg-primary text-white disabled:opacity-60"
+                    >
+                      {resolvingName === row.name ? 'Matching...' : resolveIds[row.name] ? 'Match' : 'Look Up Again'}
+                    </button>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       <div className="mb-2">
         <h2 className="text-xl font-bold mb-2 text-gray-200">Summary</h2>
         <ReusableTable<SummaryRow>
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { useParams } from 'react-router-dom';
 import { apiCall, API_ENDPOINTS } from '../utils/api';
+import { gameId } from '../utils/gameServer';
 
 interface Alliance {
   id: number;
@@ -504,7 +505,7 @@ const AidPage: React.FC = () => {
                       <div>
                         <strong>
                           <a 
-                            href={`https://www.cybernations.net/search_aid.asp?search=${nationAidSlots.nation.id}&Extended=1`}
+                            href={`https://www.cybernations.net/search_aid.asp?search=${gameId(nationAidSlots.nation.id)}&Extended=1`}
                             target="_blank"
                             rel="noopener noreferrer"
                             style={{ 
@@ -549,7 +550,7 @@ const AidPage: React.FC = () => {
                             }}>
                               {slot.isOutgoing ? '→ ' : '← '}
                               <a 
-                                href={`https://www.cybernations.net/search_aid.asp?search=${slot.aidOffer.targetId || 'undefined'}&Extended=1`}
+                                href={`https://www.cybernations.net/search_aid.asp?search=${slot.aidOffer.targetId ? gameId(slot.aidOffer.targetId) : 'undefined'}&Extended=1`}
                                 target="_blank"
                                 rel="noopener noreferrer"
                                 style={{ 
@@ -1,9 +1,10 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useParams } from 'react-router-dom';
 import SlotCountsSummary from '../components/SlotCountsSummary';
 import WarStatusBadge from '../components/WarStatusBadge';
 import { apiCall, API_ENDPOINTS } from '../utils/api';
 import PageContainer from '../components/PageContainer';
+import { gameId } from '../utils/gameServer';
 
 interface Alliance {
   id: number;
@@ -125,6 +126,18 @@ interface AlertNation {
   recipientRuler?: string;
 }
 
+interface FillRate {
+  recommendations: number;
+  filledSlots: number;
+  fillRate: number;
+}
+
+interface FillRateComparison {
+  openSlots: number;
+  greedy: FillRate;
+  optimal: FillRate;
+}
+
 interface Alerts {
   nationsNeedingAcceptance: AlertNation[];
   nationsWithUnacceptedTech: AlertNation[];
@@ -144,14 +157,10 @@ const RecommendationsPage: React.FC = () => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [crossAllianceEnabled, setCrossAllianceEnabled] = useState<boolean>(false);
+  const [optimalMode, setOptimalMode] = useState<boolean>(false);
+  const [fillRateComparison, setFillRateComparison] = useState<FillRateComparison | null>(null);
 
-  useEffect(() => {
-    if (allianceId) {
-      fetchAllianceData(parseInt(allianceId));
-    }
-  }, [allianceId, crossAllianceEnabled]);
-
-  const fetchAllianceData = async (id: number) => {
+  const fetchAllianceData = useCallback(async (id: number) => {
     try {
       setLoading(true);
       setError(null);
@@ -167,7 +176,8 @@ const RecommendationsPage: React.FC = () => {
 
       // Fetch recommendations
       try {
-        const recommendationsResponse = await apiCall(`${API_ENDPOINTS.allianceRecommendations(id)}?crossAlliance=${crossAllianceEnabled}`);
+        const mode = optimalMode ? 'optimal' : 'greedy';
+        const recommendationsResponse = await apiCall(`${API_ENDPOINTS.allianceRecommendations(id)}?crossAlliance=${crossAllianceEnabled}&mode=${mode}`);
         const recommendationsData = await recommendationsResponse.json();
         
         if (recommendationsData.success) {
@@ -177,6 +187,7 @@ const RecommendationsPage: React.FC = () => {
           setMismatchedOffers(recommendationsData.mismatchedOffers || null);
           setUnfilledSlots(recommendationsData.unfilledSlots || null);
           setAlerts(recommendationsData.alerts || null);
+          setFillRateComparison(recommendationsData.fillRateComparison || null);
         }
       } catch (err) {
         console.error('Failed to fetch recommendations:', err);
@@ -187,7 +198,13 @@ const RecommendationsPage: React.FC = () => {
     } finally {
       setLoading(false);
     }
-  };
+  }, [crossAllianceEnabled, optimalMode]);
+
+  useEffect(() => {
+    if (allianceId) {
+      fetchAllianceData(parseInt(allianceId));
+    }
+  }, [allianceId, fetchAllianceData]);
 
   const generateDiscordText = (): string => {
     const discordLines: string[] = [];
@@ -279,7 +296,7 @@ const RecommendationsPage: React.FC = () => {
         
         // Add cross-alliance indicator
         const crossAllianceIndicator = rec.type && rec.type.includes('cross_alliance') ? ' (Cross-Alliance)' : '';
-        const aidUrl = `https://www.cybernations.net/aid_form.asp?Nation_ID=${rec.recipient.id}&bynation=${rec.sender.id}`;
+        const aidUrl = `https://www.cybernations.net/aid_form.asp?Nation_ID=${gameId(rec.recipient.id)}&bynation=${gameId(rec.sender.id)}`;
         discordLines.push(`send ${aidType} to [${rec.recipient.rulerName}](${aidUrl})${crossAllianceIndicator}`)
       });
       discordLines.push('');
@@ -307,7 +324,7 @@ const RecommendationsPage: React.FC = () => {
         else if (rec.type.includes('tech')) aidType = 'TECH';
       }
       const crossAllianceIndicator = rec.type && rec.type.includes('cross_alliance') ? ' (Cross-Alliance)' : '';
-      const aidUrl = `https://www.cybernations.net/aid_form.asp?Nation_ID=${rec.recipient.id}&bynation=${sender.id}`;
+      const aidUrl = `https://www.cybernations.net/aid_form.asp?Nation_ID=${gameId(rec.recipient.id)}&bynation=${gameId(sender.id)}`;
       return `send ${aidType} to ${rec.recipient.rulerName}: ${aidUrl}${crossAllianceIndicator}`;
     });
     return ['Aid recipient list:', '', ...entries.flatMap((entry, i) => i < entries.length - 1 ? [entry, ''] : [entry])].join('\n');
@@ -320,7 +337,7 @@ const RecommendationsPage: React.FC = () => {
     } catch (err) {
       console.error('Failed to copy text: ', err);
     }
-    window.open(`https://www.cybernations.net/send_message.asp?Nation_ID=${sender.id}`, '_blank', 'noopener,noreferrer');
+    window.open(`https://www.cybernations.net/send_message.asp?Nation_ID=${gameId(sender.id)}`, '_blank', 'noopener,noreferrer');
   };
 
   if (loading) {
@@ -366,6 +383,29 @@ const RecommendationsPage: React.FC = () => {
         />
       )}
 
+      {/* Assignment mode */}
+      <div className="mb-5 flex flex-wrap items-center gap-4 text-sm text-gray-300">
+        <label className="flex items-center gap-2 cursor-pointer select-none">
+          <input
+            type="checkbox"
+            checked={optimalMode}
+            onChange={(e) => setOptimalMode(e.target.checked)}
+            className="m-0 cursor-pointer"
+          />
+          Optimal slot assignment
+        </label>
+        {fillRateComparison && (
+          <span className="text-gray-400">
+            Fill rate of {fillRateComparison.openSlots} open slots: greedy{' '}
+            {(fillRateComparison.greedy.fillRate * 100).toFixed(1)}% ({fillRateComparison.greedy.recommendations} recs) → optimal{' '}
+            <span className="text-green-400 font-bold">
+              {(fillRateComparison.optimal.fillRate * 100).toFixed(1)}%
+            </span>{' '}
+            ({fillRateComparison.optimal.recommendations} recs)
+          </span>
+        )}
+      </div>
+
       {/* Recommendations Table */}
       {recommendations.length > 0 && (
         <div className="mb-5 p-4 bg-transparent rounded-lg border border-gray-700">
@@ -412,7 +452,7 @@ const RecommendationsPage: React.FC = () => {
                           <div>
                             <strong>
                               <a
-                                href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${group.sender.id}`}
+                                href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(group.sender.id)}`}
                                 target="_blank"
                                 rel="noopener noreferrer"
                                 className="text-primary no-underline hover:underline"
@@ -456,7 +496,7 @@ const RecommendationsPage: React.FC = () => {
                                 </span>
                                 <strong className="text-xs mr-1.5">
                                   <a 
-                                    href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${rec.recipient.id}`}
+                                    href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(rec.recipient.id)}`}
                                     target="_blank"
                                     rel="noopener noreferrer"
                                     className="text-primary no-underline hover:underline"
@@ -503,7 +543,7 @@ const RecommendationsPage: React.FC = () => {
                   {alerts.nationsNeedingAcceptance.map((nation) => (
                     <div key={nation.offerId} className="text-sm text-gray-200">
                       <a 
-                        href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${nation.nationId}`}
+                        href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(nation.nationId)}`}
                         target="_blank"
                         rel="noopener noreferrer"
                         className="text-blue-400 font-medium hover:underline"
@@ -525,7 +565,7 @@ const RecommendationsPage: React.FC = () => {
                   {alerts.nationsWithUnacceptedTech.map((nation) => (
                     <div key={nation.offerId} className="text-sm text-gray-200">
                       <a 
-                        href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${nation.nationId}`}
+                        href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(nation.nationId)}`}
                         target="_blank"
                         rel="noopener noreferrer"
                         className="text-blue-400 font-medium hover:underline"
@@ -561,7 +601,7 @@ const RecommendationsPage: React.FC = () => {
                       <div key={slot.nation.id} className="text-sm flex items-center justify-between gap-3">
                         <span className="text-gray-200">
                           <a 
-                            href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${slot.nation.id}`}
+                            href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(slot.nation.id)}`}
                             target="_blank"
                             rel="noopener noreferrer"
                             className="text-blue-400 font-medium no-underline hover:underline"
@@ -586,7 +626,7 @@ const RecommendationsPage: React.FC = () => {
                       <div key={slot.nation.id} className="text-sm flex items-center justify-between gap-3">
                         <span className="text-gray-200">
                           <a 
-                            href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${slot.nation.id}`}
+                            href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(slot.nation.id)}`}
                             target="_blank"
                             rel="noopener noreferrer"
                             className="text-blue-400 font-medium no-underline hover:underline"
@@ -617,7 +657,7 @@ const RecommendationsPage: React.FC = () => {
                       <div key={slot.nation.id} className="text-sm flex items-center justify-between gap-3">
                         <span className="text-gray-200">
                           <a 
-                            href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${slot.nation.id}`}
+                            href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(slot.nation.id)}`}
                             target="_blank"
                             rel="noopener noreferrer"
                             className="text-blue-400 font-medium no-underline hover:underline"
@@ -642,7 +682,7 @@ const RecommendationsPage: React.FC = () => {
                       <div key={slot.nation.id} className="text-sm flex items-center justify-between gap-3">
                         <span className="text-gray-200">
                           <a 
-                            href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${slot.nation.id}`}
+                            href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(slot.nation.id)}`}
                             target="_blank"
                             rel="noopener noreferrer"
                             className="text-blue-400 font-medium no-underline hover:underline"
@@ -671,7 +711,7 @@ const RecommendationsPage: React.FC = () => {
                     <div key={slot.nation.id} className="text-sm flex items-center justify-between gap-3">
                       <span className="text-gray-200">
                         <a 
-                          href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${slot.nation.id}`}
+                          href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(slot.nation.id)}`}
                           target="_blank"
                           rel="noopener noreferrer"
                           className="text-blue-400 font-medium no-underline hover:underline"
@@ -718,7 +758,7 @@ const RecommendationsPage: React.FC = () => {
                   <div key={item.nation.id} className="mb-3 last:mb-0">
                     <div className="font-semibold text-sm text-gray-200 mb-1">
                       <a 
-                        href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${item.nation.id}`}
+                        href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(item.nation.id)}`}
                         target="_blank"
                         rel="noopener noreferrer"
                         className="text-blue-400 hover:underline"
@@ -732,7 +772,7 @@ const RecommendationsPage: React.FC = () => {
                         <div key={offer.aidId} className="text-xs text-gray-300">
                           <span className="font-medium">Sent</span> to{' '}
                           <a 
-                            href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${offer.receivingId}`}
+                            href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(offer.receivingId)}`}
                             target="_blank"
                             rel="noopener noreferrer"
                             className="text-blue-400 hover:underline"
@@ -759,7 +799,7 @@ const RecommendationsPage: React.FC = () => {
                   <div key={item.nation.id} className="mb-3 last:mb-0">
                     <div className="font-semibold text-sm text-gray-200 mb-1">
                       <a 
-                        href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${item.nation.id}`}
+                        href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(item.nation.id)}`}
                         target="_blank"
                         rel="noopener noreferrer"
                         className="text-blue-400 hover:underline"
@@ -773,7 +813,7 @@ const RecommendationsPage: React.FC = () => {
                         <div key={offer.aidId} className="text-xs text-gray-300">
                           <span className="font-medium">Sent</span> to{' '}
                           <a 
-                            href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${offer.receivingId}`}
+                            href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(offer.receivingId)}`}
                             target="_blank"
                             rel="noopener noreferrer"
                             className="text-blue-400 hover:underline"
@@ -800,7 +840,7 @@ const RecommendationsPage: React.FC = () => {
                   <div key={item.nation.id} className="mb-3 last:mb-0">
                     <div className="font-semibold text-sm text-gray-200 mb-1">
                       <a 
-                        href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${item.nation.id}`}
+                        href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(item.nation.id)}`}
                         target="_blank"
                         rel="noopener noreferrer"
                         className="text-blue-400 hover:underline"
@@ -814,7 +854,7 @@ const RecommendationsPage: React.FC = () => {
                         <div key={offer.aidId} className="text-xs text-gray-300">
                           <span className="font-medium">Received</span> from{' '}
                           <a 
-                            href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${offer.declaringId}`}
+                            href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(offer.declaringId)}`}
                             target="_blank"
                             rel="noopener noreferrer"
                             className="text-blue-400 hover:underline"
@@ -841,7 +881,7 @@ const RecommendationsPage: React.FC = () => {
                   <div key={item.nation.id} className="mb-3 last:mb-0">
                     <div className="font-semibold text-sm text-gray-200 mb-1">
                       <a 
-                        href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${item.nation.id}`}
+                        href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(item.nation.id)}`}
                         target="_blank"
                         rel="noopener noreferrer"
                         className="text-blue-400 hover:underline"
@@ -855,7 +895,7 @@ const RecommendationsPage: React.FC = () => {
                         <div key={offer.aidId} className="text-xs text-gray-300">
                           <span className="font-medium">Received</span> from{' '}
                           <a 
-                            href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${offer.declaringId}`}
+                            href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(offer.declaringId)}`}
                             target="_blank"
                             rel="noopener noreferrer"
                             className="text-blue-400 hover:underline"
@@ -887,7 +927,7 @@ const RecommendationsPage: React.FC = () => {
                   <div key={item.nation.id} className="mb-3 last:mb-0">
                     <div className="font-semibold text-sm text-gray-200 mb-1">
                       <a 
-                        href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${item.nation.id}`}
+                        href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(item.nation.id)}`}
                         target="_blank"
                         rel="noopener noreferrer"
                         className="text-blue-400 hover:underline"
@@ -902,7 +942,7 @@ const RecommendationsPage: React.FC = () => {
                           <span className="font-medium">{offer.direction === 'sent' ? 'Sent' : 'Received'}</span>{' '}
                           {offer.direction === 'sent' ? 'to' : 'from'}{' '}
                           <a 
-                            href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${offer.direction === 'sent' ? offer.receivingId : offer.declaringId}`}
+                            href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(offer.direction === 'sent' ? offer.receivingId : offer.declaringId)}`}
                             target="_blank"
                             rel="noopener noreferrer"
                             className="text-blue-400 hover:underline"
@@ -957,7 +997,7 @@ const RecommendationsPage: React.FC = () => {
                         <div className="flex items-center justify-between gap-3 mb-1">
                           <span className="text-gray-200">
                             <a 
-                              href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${slot.nation.id}`}
+                              href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(slot.nation.id)}`}
                               target="_blank"
                               rel="noopener noreferrer"
                               className="text-blue-400 font-medium no-underline hover:underline"
@@ -990,7 +1030,7 @@ const RecommendationsPage: React.FC = () => {
                         <div className="flex items-center justify-between gap-3 mb-1">
                           <span className="text-gray-200">
                             <a 
-                              href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${slot.nation.id}`}
+                              href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(slot.nation.id)}`}
                               target="_blank"
                               rel="noopener noreferrer"
                               className="text-blue-400 font-medium no-underline hover:underline"
@@ -1029,7 +1069,7 @@ const RecommendationsPage: React.FC = () => {
                         <div className="flex items-center justify-between gap-3 mb-1">
                           <span className="text-gray-200">
                             <a 
-                              href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${slot.nation.id}`}
+                              href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(slot.nation.id)}`}
                               target="_blank"
                               rel="noopener noreferrer"
                               className="text-blue-400 font-medium no-underline hover:underline"
@@ -1062,7 +1102,7 @@ const RecommendationsPage: React.FC = () => {
                         <div className="flex items-center justify-between gap-3 mb-1">
                           <span className="text-gray-200">
                             <a 
-                              href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${slot.nation.id}`}
+                              href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(slot.nation.id)}`}
                               target="_blank"
                               rel="noopener noreferrer"
                               className="text-blue-400 font-medium no-underline hover:underline"
@@ -1097,7 +1137,7 @@ const RecommendationsPage: React.FC = () => {
                       <div className="flex items-center justify-between gap-3 mb-1">
                         <span className="text-gray-200">
                           <a 
-                            href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${slot.nation.id}`}
+                            href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(slot.nation.id)}`}
                             target="_blank"
                             rel="noopener noreferrer"
                             className="text-blue-400 font-medium no-underline hover:underline"
@@ -11,6 +11,19 @@ interface Capability {
   description: string | null;
 }
 
+interface AllianceGrant {
+  userId: number;
+  discordUsername: string | null;
+  rulerName: string | null;
+  allianceId: number;
+  allianceName: string;
+}
+
+interface RoleHolders {
+  globalUserCount: number;
+  allianceGrants: AllianceGrant[];
+}
+
 const ROLES: UserRole[] = [UserRole.ADMIN, UserRole.ALLIANCE_MANAGER, UserRole.WAR_MANAGER, UserRole.USER];
 
 const RoleCapabilitiesPage: React.FC = () => {
@@ -18,6 +31,7 @@ const RoleCapabilitiesPage: React.FC = () => {
   const navigate = useNavigate();
   const [capabilities, setCapabilities] = useState<Capability[]>([]);
   const [roleCapabilityIds, setRoleCapabilityIds] = useState<Record<string, number[]>>({});
+  const [roleHolders, setRoleHolders] = useState<Record<string, RoleHolders>>({});
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
@@ -41,14 +55,20 @@ const RoleCapabilitiesPage: React.FC = () => {
         if (!capRes.success || !capRes.capabilities) throw new Error('Failed to load capabilities');
         setCapabilities(capRes.capabilities);
         const byRole: Record<string, number[]> = {};
+        const holders: Record<string, RoleHolders> = {};
         roleReses.forEach((res: any, i) => {
           if (res.success && Array.isArray(res.capabilityIds)) {
             byRole[ROLES[i]] = res.capabilityIds;
           } else {
             byRole[ROLES[i]] = [];
           }
+          holders[ROLES[i]] = {
+            globalUserCount: res.globalUserCount ?? 0,
+            allianceGrants: Array.isArray(res.allianceGrants) ? res.allianceGrants : [],
+          };
         });
         setRoleCapabilityIds(byRole);
+        setRoleHolders(holders);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to load');
       } finally {
@@ -91,6 +111,7 @@ const RoleCapabilitiesPage: React.FC = () => {
       <h1 className="text-2xl font-bold text-gray-100 mb-2">Role capabilities</h1>
       <p className="text-gray-400 text-sm mb-4">
         Assign capabilities to roles. Backend protects all routes; changing these affects what each role can do.
+        A role granted for a single alliance on the User Management page only gives its capabilities for that alliance.
       </p>
       {error && (
         <div className="mb-4 p-3 bg-red-900/30 border border-red-700 rounded text-red-200">{error}</div>
@@ -112,6 +133,17 @@ const RoleCapabilitiesPage: React.FC = () => {
                   {saving === role ? 'Saving...' : 'Save'}
                 </button>
               </div>
+              <div className="text-sm text-gray-400 mb-3">
+                Held everywhere by {roleHolders[role]?.globalUserCount ?? 0} user(s).
+                {(roleHolders[role]?.allianceGrants.length ?? 0) > 0 && (
+                  <>
+                    {' '}Held for one alliance by:{' '}
+                    {roleHolders[role].allianceGrants
+                      .map((g) => `${g.discordUsername || g.rulerName || `User #${g.userId}`} (${g.allianceName})`)
+                      .join(', ')}
+                  </>
+                )}
+              </div>
               <div className="flex flex-wrap gap-4">
                 {capabilities.map((cap) => (
                   <label key={cap.id} className="flex items-center gap-2 cursor-pointer">
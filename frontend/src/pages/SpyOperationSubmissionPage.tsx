@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { apiCallWithErrorHandling } from '../utils/api';
+import { apiCallWithErrorHandling, API_ENDPOINTS } from '../utils/api';
 import PageContainer from '../components/PageContainer';
 
 interface SpyOperationSubmission {
@@ -27,6 +27,13 @@ interface SpyOperationSubmission {
   } | null;
 }
 
+interface SpyglassUploadResult {
+  parsed: number;
+  matched: number;
+  recorded: number;
+  unmatched: string[];
+}
+
 const SpyOperationSubmissionPage: React.FC = () => {
   const [text, setText] = useState('');
   const [submitting, setSubmitting] = useState(false);
@@ -34,6 +41,10 @@ const SpyOperationSubmissionPage: React.FC = () => {
   const [success, setSuccess] = useState<string | null>(null);
   const [submissions, setSubmissions] = useState<SpyOperationSubmission[]>([]);
   const [loadingSubmissions, setLoadingSubmissions] = useState(false);
+  const [spyglassText, setSpyglassText] = useState('');
+  const [uploadingSpyglass, setUploadingSpyglass] = useState(false);
+  const [spyglassError, setSpyglassError] = useState<string | null>(null);
+  const [spyglassResult, setSpyglassResult] = useState<SpyglassUploadResult | null>(null);
 
   // Load submissions on mount
   useEffect(() => {
@@ -98,6 +109,46 @@ const SpyOperationSubmissionPage: React.FC = () => {
     }
   };
 
+  const handleSpyglassFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setSpyglassText(await file.text());
+    setSpyglassError(null);
+    setSpyglassResult(null);
+    e.target.value = '';
+  };
+
+  const handleSpyglassUpload = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!spyglassText.trim()) {
+      setSpyglassError('Please choose or paste a spyglass export');
+      return;
+    }
+
+    setUploadingSpyglass(true);
+    setSpyglassError(null);
+    setSpyglassResult(null);
+
+    try {
+      const response = await apiCallWithErrorHandling(API_ENDPOINTS.spyglassUpload, {
+        method: 'POST',
+        body: JSON.stringify({ text: spyglassText }),
+      });
+
+      if (response.success) {
+        setSpyglassResult(response.data);
+        setSpyglassText('');
+      } else {
+        setSpyglassError(response.error || 'Failed to upload spyglass data');
+      }
+    } catch (err) {
+      setSpyglassError(err instanceof Error ? err.message : 'An error occurred while uploading spyglass data');
+    } finally {
+      setUploadingSpyglass(false);
+    }
+  };
+
   const formatMoney = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -159,6 +210,62 @@ const SpyOperationSubmissionPage: React.FC = () => {
         </form>
       </div>
 
+      <div className="bg-gray-800 rounded-lg p-6 shadow-lg border border-gray-700 mb-6">
+        <h2 className="text-xl font-semibold text-gray-200 mb-2">Upload Spyglass Export</h2>
+        <p className="text-sm text-gray-400 mb-4">
+          Stores every listed nation's warchest as a dated reading. Requires war management access.
+        </p>
+
+        <form onSubmit={handleSpyglassUpload} className="space-y-4">
+          <div>
+            <input
+              type="file"
+              accept=".txt,text/plain"
+              onChange={handleSpyglassFile}
+              disabled={uploadingSpyglass}
+              className="block mb-3 text-sm text-gray-300"
+            />
+            <textarea
+              id="spyglassText"
+              value={spyglassText}
+              onChange={(e) => {
+                setSpyglassText(e.target.value);
+                setSpyglassError(null);
+                setSpyglassResult(null);
+              }}
+              className="w-full px-4 py-3 border-2 border-gray-600 rounded-lg text-sm font-medium bg-gray-900 text-gray-200 placeholder-gray-500 focus:outline-none focus:border-primary focus:ring-2 focus:ring-primary/20 hover:border-gray-500 transition-all font-mono"
+              placeholder="...or paste the spyglass export here"
+              rows={6}
+              disabled={uploadingSpyglass}
+            />
+            {spyglassError && (
+              <p className="mt-2 text-sm text-red-400">{spyglassError}</p>
+            )}
+            {spyglassResult && (
+              <div className="mt-2 text-sm">
+                <p className="text-green-400">
+                  Stored {spyglassResult.recorded} new readings for {spyglassResult.matched} of {spyglassResult.parsed} nations.
+                </p>
+                {spyglassResult.unmatched.length > 0 && (
+                  <p className="text-yellow-300 mt-1">
+                    No nation found for: {spyglassResult.unmatched.slice(0, 20).join(', ')}
+                    {spyglassResult.unmatched.length > 20 && ` and ${spyglassResult.unmatched.length - 20} more`}
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+
+          <button
+            type="submit"
+            disabled={uploadingSpyglass || !spyglassText.trim()}
+            className="bg-primary text-white border-none rounded-lg px-6 py-3 text-base font-semibold cursor-pointer transition-all shadow-md hover:shadow-lg disabled:opacity-60 disabled:cursor-not-allowed"
+          >
+            {uploadingSpyglass ? 'Uploading...' : 'Upload'}
+          </button>
+        </form>
+      </div>
+
       <div className="bg-gray-800 rounded-lg p-6 shadow-lg border border-gray-700">
         <h2 className="text-xl font-semibold text-gray-200 mb-4">Recent Submissions</h2>
         
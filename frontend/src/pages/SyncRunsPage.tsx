@@ -0,0 +1,446 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { apiCallWithErrorHandling, API_ENDPOINTS } from '../utils/api';
+import PageContainer from '../components/PageContainer';
+import NationLink from '../components/NationLink';
+import { useAuth } from '../contexts/AuthContext';
+
+interface SyncRunFile {
+  fileType: string;
+  filename?: string | null;
+  success: boolean;
+  rows?: number | null;
+  imported?: number;
+  updated?: number;
+  skipped?: boolean;
+  durationMs?: number;
+  error?: string | null;
+  quarantineId?: number | null;
+}
+
+interface QuarantinedImport {
+  id: number;
+  syncRunId: number | null;
+  gameServer: string;
+  fileType: string;
+  filename: string | null;
+  rows: number;
+  previousRows: number | null;
+  issues: string[];
+  createdAt: string;
+}
+
+interface DiffNation {
+  id: number;
+  nationName: string;
+  rulerName: string;
+  allianceName: string;
+}
+
+interface DiffPair {
+  declaringNationId: number;
+  declaringNation: string | null;
+  receivingNationId: number;
+  receivingNation: string | null;
+}
+
+interface SyncDiff {
+  newNations: DiffNation[];
+  inactiveNations: DiffNation[];
+  allianceSwitches: {
+    id: number;
+    nationName: string;
+    rulerName: string;
+    fromAlliance: string;
+    toAlliance: string;
+  }[];
+  newWars: (DiffPair & { warId: number })[];
+  endedWars: (DiffPair & { warId: number })[];
+  newAidOffers: (DiffPair & { aidId: number; money: number; technology: number; soldiers: number })[];
+  expiredAidOffers: (DiffPair & { aidId: number; money: number; technology: number; soldiers: number })[];
+}
+
+interface SyncRunSummary {
+  id: number;
+  gameServer: string;
+  trigger: string;
+  status: string;
+  force: boolean;
+  startedAt: string;
+  finishedAt: string | null;
+  files: SyncRunFile[];
+  errors: string[];
+  imported: number;
+  updated: number;
+  diffCounts: Record<keyof SyncDiff, number> | null;
+}
+
+interface SyncRunDetail extends Omit<SyncRunSummary, 'diffCounts'> {
+  diff: SyncDiff | null;
+}
+
+const DIFF_SECTIONS: { key: keyof SyncDiff; label: string }[] = [
+  { key: 'newNations', label: 'New Nations' },
+  { key: 'inactiveNations', label: 'Gone Inactive' },
+  { key: 'allianceSwitches', label: 'Alliance Switches' },
+  { key: 'newWars', label: 'New Wars' },
+  { key: 'endedWars', label: 'Ended Wars' },
+  { key: 'newAidOffers', label: 'New Aid' },
+  { key: 'expiredAidOffers', label: 'Expired Aid' },
+];
+
+const STATUS_CLASSES: Record<string, string> = {
+  success: 'bg-green-900/40 text-green-300 border-green-700',
+  partial: 'bg-yellow-900/40 text-yellow-300 border-yellow-700',
+  failed: 'bg-red-900/40 text-red-300 border-red-700',
+  running: 'bg-blue-900/40 text-blue-300 border-blue-700',
+};
+
+const thClass = 'p-2 border-b border-gray-600 text-left text-gray-300 font-semibold whitespace-nowrap';
+const tdClass = 'p-2 border-b border-gray-700/50 text-gray-200 align-top';
+
+const formatDateTime = (iso: string | null) => (iso ? new Date(iso).toLocaleString() : '—');
+
+const formatDuration = (run: { startedAt: string; finishedAt: string | null }) => {
+  if (!run.finishedAt) return '—';
+  const seconds = (new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime()) / 1000;
+  return `${seconds.toFixed(1)}s`;
+};
+
+const formatNumber = (value: number) => new Intl.NumberFormat('en-US', { maximumFractionDigits: 0 }).format(value);
+
+const StatusBadge: React.FC<{ status: string }> = ({ status }) => (
+  <span className={`px-2 py-0.5 rounded border text-xs font-semibold ${STATUS_CLASSES[status] || 'text-gray-300 border-gray-600'}`}>
+    {status}
+  </span>
+);
+
+const PairCell: React.FC<{ row: DiffPair }> = ({ row }) => (
+  <>
+    <NationLink nationId={row.declaringNationId} nationName={row.declaringNation || `#${row.declaringNationId}`} />
+    <span className="mx-2 text-gray-500">→</span>
+    <NationLink nationId={row.receivingNationId} nationName={row.receivingNation || `#${row.receivingNationId}`} />
+  </>
+);
+
+/**
+ * One diff section of a sync run as a list
+ */
+const DiffList: React.FC<{ diff: SyncDiff; section: keyof SyncDiff }> = ({ diff, section }) => {
+  const items = diff[section];
+  if (items.length === 0) {
+    return <div className="text-gray-500">Nothing changed.</div>;
+  }
+
+  return (
+    <ul className="space-y-1 max-h-[50vh] overflow-y-auto">
+      {section === 'newNations' || section === 'inactiveNations'
+        ? diff[section].map((n) => (
+          <li key={n.id}>
+            <NationLink nationId={n.id} nationName={n.nationName} />
+            <span className="ml-2 text-gray-400">{n.rulerName} · {n.allianceName}</span>
+          </li>
+        ))
+        : section === 'allianceSwitches'
+          ? diff.allianceSwitches.map((n) => (
+            <li key={n.id}>
+              <NationLink nationId={n.id} nationName={n.nationName} />
+              <span className="ml-2 text-gray-400">{n.fromAlliance} → {n.toAlliance}</span>
+            </li>
+          ))
+          : section === 'newWars' || section === 'endedWars'
+            ? diff[section].map((w) => (
+              <li key={w.warId}>
+                <span className="text-gray-400 mr-2">#{w.warId}</span>
+                <PairCell row={w} />
+              </li>
+            ))
+            : diff[section].map((a) => (
+              <li key={a.aidId}>
+                <span className="text-gray-400 mr-2">#{a.aidId}</span>
+                <PairCell row={a} />
+                <span className="ml-2 text-gray-400">
+                  {[
+                    a.money > 0 && `$${formatNumber(a.money)}`,
+                    a.technology > 0 && `${formatNumber(a.technology)} tech`,
+                    a.soldiers > 0 && `${formatNumber(a.soldiers)} soldiers`,
+                  ].filter(Boolean).join(', ')}
+                </span>
+              </li>
+            ))}
+    </ul>
+  );
+};
+
+/**
+ * Admin view of data sync runs: what each run imported, what failed and what changed
+ */
+const SyncRunsPage: React.FC = () => {
+  const { isAuthenticated, isLoading: authLoading, hasCapability } = useAuth();
+  const navigate = useNavigate();
+  const { runId: runIdParam } = useParams<{ runId: string }>();
+  const runId = runIdParam ? parseInt(runIdParam, 10) : null;
+  const [runs, setRuns] = useState<SyncRunSummary[]>([]);
+  const [quarantine, setQuarantine] = useState<QuarantinedImport[]>([]);
+  const [resolvingId, setResolvingId] = useState<number | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [detail, setDetail] = useState<SyncRunDetail | null>(null);
+  const [section, setSection] = useState<keyof SyncDiff>('newNations');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const canView = isAuthenticated && hasCapability('manage_all_alliance');
+
+  useEffect(() => {
+    if (authLoading) return;
+    if (!canView) {
+      navigate('/aid');
+    }
+  }, [canView, authLoading, navigate]);
+
+  useEffect(() => {
+    if (!canView) return;
+    const load = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const [runData, quarantineData] = await Promise.all([
+          apiCallWithErrorHandling(API_ENDPOINTS.adminSyncRuns),
+          apiCallWithErrorHandling(API_ENDPOINTS.adminImportQuarantine),
+        ]);
+        setRuns(runData.runs || []);
+        setQuarantine(quarantineData.quarantine || []);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load sync runs');
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [canView, reloadKey]);
+
+  useEffect(() => {
+    if (!canView || runId === null || isNaN(runId)) {
+      setDetail(null);
+      return;
+    }
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const data = await apiCallWithErrorHandling(API_ENDPOINTS.adminSyncRun(runId));
+        if (!cancelled) setDetail(data.run);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load sync run');
+      }
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [canView, runId]);
+
+  const resolveQuarantine = async (item: QuarantinedImport, action: 'import' | 'discard') => {
+    const prompt = action === 'import'
+      ? `Import ${item.fileType} anyway? Rows missing from this file will be marked inactive.`
+      : `Discard the quarantined ${item.fileType} file?`;
+    if (!window.confirm(prompt)) return;
+
+    setResolvingId(item.id);
+    setError(null);
+    try {
+      await apiCallWithErrorHandling(
+        action === 'import' ? API_ENDPOINTS.adminImportQuarantined(item.id) : API_ENDPOINTS.adminDiscardQuarantined(item.id),
+        { method: 'POST' }
+      );
+      setReloadKey((key) => key + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${action} quarantined file`);
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  if (authLoading || !canView) return null;
+
+  return (
+    <PageContainer>
+      <h1 className="text-2xl font-bold text-gray-100 mb-2">Sync runs</h1>
+      <p className="text-gray-400 text-sm mb-4">
+        Every data sync with the files it imported, errors, and what changed between before and after the import.
+      </p>
+      {error && (
+        <div className="mb-4 p-3 bg-red-900/30 border border-red-700 rounded text-red-200">{error}</div>
+      )}
+
+      {quarantine.length > 0 && (
+        <div className="mb-6 border border-yellow-700 rounded-lg p-4 bg-yellow-900/20">
+          <h2 className="text-lg font-semibold text-yellow-200 mb-1">Quarantined files</h2>
+          <p className="text-sm text-gray-400 mb-3">
+            These files failed import validation and were not imported. Import one anyway if the change is real.
+          </p>
+          <ul className="space-y-3 text-sm">
+            {quarantine.map((item) => (
+              <li key={item.id} className="flex flex-wrap items-start justify-between gap-3">
+                <div>
+                  <div className="text-gray-200 font-medium">
+                    #{item.id} {item.gameServer} {item.fileType}
+                    <span className="ml-2 text-gray-400 font-normal">
+                      {item.filename || 'unknown file'} · {formatNumber(item.rows)} rows
+                      {item.previousRows !== null && ` (previously ${formatNumber(item.previousRows)})`} · {formatDateTime(item.createdAt)}
+                    </span>
+                  </div>
+                  <ul className="list-disc list-inside text-yellow-300">
+                    {item.issues.map((issue, i) => <li key={i}>{issue}</li>)}
+                  </ul>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => resolveQuarantine(item, 'discard')}
+                    disabled={resolvingId !== null}
+                    className="px-3 py-1.5 rounded border border-gray-600 text-gray-200 hover:bg-gray-700 disabled:opacity-60"
+                  >
+                    Discard
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => resolveQuarantine(item, 'import')}
+                    disabled={resolvingId !== null}
+                    className="px-3 py-1.5 rounded bg-yellow-700 hover:bg-yellow-600 disabled:opacity-60 text-white font-semibold"
+                  >
+                    {resolvingId === item.id ? 'Working...' : 'Import Anyway'}
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {detail && (
+        <div className="mb-6 border border-gray-700 rounded-lg p-4 bg-gray-800/50">
+          <div className="flex items-center justify-between mb-3">
+            <h2 className="text-lg font-semibold text-gray-200">
+              Run #{detail.id} <StatusBadge status={detail.status} />
+            </h2>
+            <Link to="/admin/sync-runs" className="text-sm text-blue-300 hover:underline">Close</Link>
+          </div>
+          <div className="text-sm text-gray-400 mb-3">
+            {detail.gameServer} · {detail.trigger}{detail.force && ' (forced)'} · started {formatDateTime(detail.startedAt)} · took {formatDuration(detail)}
+          </div>
+
+          <table className="w-full text-sm mb-3">
+            <thead>
+              <tr>
+                <th className={thClass}>File</th>
+                <th className={thClass}>Filename</th>
+                <th className={`${thClass} text-right`}>Rows</th>
+                <th className={`${thClass} text-right`}>Imported</th>
+                <th className={`${thClass} text-right`}>Updated</th>
+                <th className={thClass}>Result</th>
+              </tr>
+            </thead>
+            <tbody>
+              {detail.files.map((file) => (
+                <tr key={file.fileType}>
+                  <td className={tdClass}>{file.fileType}</td>
+                  <td className={`${tdClass} text-gray-400`}>{file.filename || '—'}</td>
+                  <td className={`${tdClass} text-right`}>{file.rows != null ? formatNumber(file.rows) : '—'}</td>
+                  <td className={`${tdClass} text-right`}>{formatNumber(file.imported ?? 0)}</td>
+                  <td className={`${tdClass} text-right`}>{formatNumber(file.updated ?? 0)}</td>
+                  <td className={tdClass}>
+                    {file.success
+                      ? (file.skipped ? 'already current' : file.quarantineId ? `imported from quarantine #${file.quarantineId}` : 'ok')
+                      : <span className="text-red-300">{file.error || 'failed'}</span>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {detail.errors.length > 0 && (
+            <ul className="mb-3 text-sm text-red-300 list-disc list-inside">
+              {detail.errors.map((message, i) => <li key={i}>{message}</li>)}
+            </ul>
+          )}
+
+          {detail.diff ? (
+            <>
+              <div className="flex flex-wrap gap-2 mb-3">
+                {DIFF_SECTIONS.map(({ key, label }) => (
+                  <button
+                    key={key}
+                    type="button"
+                    onClick={() => setSection(key)}
+                    className={`px-3 py-1.5 rounded text-sm font-medium ${section === key ? 'bg-primary text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+                  >
+                    {label} ({detail.diff![key].length})
+                  </button>
+                ))}
+              </div>
+              <div className="text-sm">
+                <DiffList diff={detail.diff} section={section} />
+              </div>
+            </>
+          ) : (
+            <div className="text-sm text-gray-500">No diff recorded for this run.</div>
+          )}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="text-gray-400">Loading...</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr>
+                <th className={thClass}>Run</th>
+                <th className={thClass}>Started</th>
+                <th className={thClass}>Trigger</th>
+                <th className={thClass}>Status</th>
+                <th className={thClass}>Files</th>
+                <th className={`${thClass} text-right`}>Imported / Updated</th>
+                <th className={thClass}>Changes</th>
+                <th className={`${thClass} text-right`}>Duration</th>
+              </tr>
+            </thead>
+            <tbody>
+              {runs.length === 0 && (
+                <tr>
+                  <td colSpan={8} className="p-3 text-center text-gray-400">No sync runs recorded yet.</td>
+                </tr>
+              )}
+              {runs.map((run) => (
+                <tr
+                  key={run.id}
+                  onClick={() => navigate(`/admin/sync-runs/${run.id}`)}
+                  className={`cursor-pointer hover:bg-gray-700/30 ${run.id === runId ? 'bg-gray-700/40' : ''}`}
+                >
+                  <td className={tdClass}>#{run.id}</td>
+                  <td className={`${tdClass} whitespace-nowrap`}>{formatDateTime(run.startedAt)}</td>
+                  <td className={tdClass}>{run.gameServer} · {run.trigger}{run.force && ' (forced)'}</td>
+                  <td className={tdClass}><StatusBadge status={run.status} /></td>
+                  <td className={tdClass}>
+                    {run.files.length === 0 ? '—' : run.files.map((f) => f.fileType).join(', ')}
+                    {run.errors.length > 0 && <div className="text-xs text-red-300">{run.errors.length} errors</div>}
+                  </td>
+                  <td className={`${tdClass} text-right`}>{formatNumber(run.imported)} / {formatNumber(run.updated)}</td>
+                  <td className={`${tdClass} text-gray-400`}>
+                    {run.diffCounts
+                      ? DIFF_SECTIONS.filter(({ key }) => run.diffCounts![key] > 0)
+                        .map(({ key, label }) => `${run.diffCounts![key]} ${label.toLowerCase()}`)
+                        .join(', ') || 'no changes'
+                      : '—'}
+                  </td>
+                  <td className={`${tdClass} text-right`}>{formatDuration(run)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </PageContainer>
+  );
+};
+
+export default SyncRunsPage;
@@ -2,6 +2,7 @@ import React, { useEffect, useMemo, useState, useCallback } from 'react';
 import { useSearchParams } from 'react-router-dom';
 import { apiCallWithErrorHandling, API_ENDPOINTS } from '../utils/api';
 import TableContainer from '../components/TableContainer';
+import { gameId } from '../utils/gameServer';
 
 interface TopStrengthNationStat {
   rank: number;
@@ -229,7 +230,7 @@ const TopStrengthPage: React.FC = () => {
                                       </td>
                                       <td className="p-2 border border-gray-800 text-gray-200">
                                         <a
-                                          href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${nation.nation_id}`}
+                                          href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(nation.nation_id)}`}
                                           target="_blank"
                                           rel="noopener noreferrer"
                                           className="text-primary no-underline hover:underline"
@@ -311,7 +312,7 @@ const TopStrengthPage: React.FC = () => {
                                 </span>
                                 <div className="min-w-0 flex-1">
                                   <a
-                                    href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${nation.nation_id}`}
+                                    href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(nation.nation_id)}`}
                                     target="_blank"
                                     rel="noopener noreferrer"
                                     className="text-primary no-underline font-bold hover:underline truncate block text-xs"
@@ -12,15 +12,40 @@ const ALL_ROLES: UserRole[] = [
   UserRole.ADMIN,
 ];
 
+interface AllianceRole {
+  allianceId: number;
+  role: UserRole;
+}
+
+const roleBadgeClass = (role: UserRole) =>
+  role === UserRole.ADMIN
+    ? 'bg-red-900/50 text-red-200'
+    : role === UserRole.ALLIANCE_MANAGER
+    ? 'bg-blue-900/50 text-blue-200'
+    : role === UserRole.WAR_MANAGER
+    ? 'bg-orange-900/50 text-orange-200'
+    : 'bg-gray-700 text-gray-300';
+
+const allianceRoleKey = (grant: AllianceRole) => `${grant.role}@${grant.allianceId}`;
+
+interface RulerNameVerification {
+  verified: boolean;
+  verifiedBy: string | null;
+  /** The user's pending code, to compare with one they sent by in-game message */
+  code: string | null;
+}
+
 interface User {
   id: number;
   discordId: string | null;
   discordUsername: string | null;
   rulerName: string | null;
+  rulerNameVerification: RulerNameVerification;
   roles: UserRole[];
   createdAt: string;
   updatedAt: string;
   managedAllianceIds: number[];
+  allianceRoles: AllianceRole[];
 }
 
 const UserManagementPage: React.FC = () => {
@@ -35,6 +60,8 @@ const UserManagementPage: React.FC = () => {
   const [saving, setSaving] = useState<number | null>(null);
   const [allianceModalOpen, setAllianceModalOpen] = useState<number | null>(null);
   const [allianceSearchQuery, setAllianceSearchQuery] = useState<string>('');
+  const [grantAllianceId, setGrantAllianceId] = useState<string>('');
+  const [grantRole, setGrantRole] = useState<UserRole>(UserRole.WAR_MANAGER);
 
   useEffect(() => {
     if (authLoading) return;
@@ -118,6 +145,13 @@ const UserManagementPage: React.FC = () => {
       ) {
         updateData.managedAllianceIds = edited.managedAllianceIds;
       }
+      if (
+        edited.allianceRoles !== undefined &&
+        JSON.stringify(edited.allianceRoles.map(allianceRoleKey).sort()) !==
+          JSON.stringify(originalUser.allianceRoles.map(allianceRoleKey).sort())
+      ) {
+        updateData.allianceRoles = edited.allianceRoles;
+      }
 
       // Only send update if there are changes
       if (Object.keys(updateData).length === 0) {
@@ -145,6 +179,49 @@ const UserManagementPage: React.FC = () => {
     }
   };
 
+  const setRulerNameVerified = async (user: User, verified: boolean) => {
+    const name = user.rulerName ?? '';
+    const question = verified
+      ? `Confirm that this user owns the nation ruled by "${name}"?`
+      : `Withdraw the verification of "${name}"? The user will have to verify it again.`;
+    if (!window.confirm(question)) return;
+
+    try {
+      setSaving(user.id);
+      setError(null);
+      const response = await apiCallWithErrorHandling(API_ENDPOINTS.userRulerNameVerification(user.id), {
+        method: 'PUT',
+        body: JSON.stringify({ verified }),
+      });
+      setUsers((current) =>
+        current.map((u) => (u.id === user.id ? { ...u, rulerNameVerification: response.verification } : u))
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update ruler name verification');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const addAllianceRole = (userId: number) => {
+    const allianceId = parseInt(grantAllianceId, 10);
+    if (isNaN(allianceId)) return;
+    const edited = editedUsers.get(userId) || users.find((u) => u.id === userId)!;
+    const current = edited.allianceRoles || [];
+    if (current.some((grant) => grant.allianceId === allianceId && grant.role === grantRole)) return;
+    handleFieldChange(userId, 'allianceRoles', [...current, { allianceId, role: grantRole }]);
+    setGrantAllianceId('');
+  };
+
+  const removeAllianceRole = (userId: number, removed: AllianceRole) => {
+    const edited = editedUsers.get(userId) || users.find((u) => u.id === userId)!;
+    handleFieldChange(
+      userId,
+      'allianceRoles',
+      (edited.allianceRoles || []).filter((grant) => allianceRoleKey(grant) !== allianceRoleKey(removed))
+    );
+  };
+
   const toggleAlliance = (userId: number, allianceId: number) => {
     const edited = editedUsers.get(userId) || users.find((u) => u.id === userId)!;
     const currentIds = edited.managedAllianceIds || [];
@@ -249,7 +326,12 @@ const UserManagementPage: React.FC = () => {
   return (
     <PageContainer>
       <div className="max-w-7xl mx-auto">
-        <h1 className="text-2xl font-bold text-gray-100 mb-6">User Management</h1>
+        <h1 className="text-2xl font-bold text-gray-100 mb-2">User Management</h1>
+        <p className="text-gray-400 text-sm mb-6">
+          Roles apply to every alliance. Alliance roles grant a role's capabilities for one alliance only, e.g. a war
+          manager who should only assign that alliance's nations as attackers. Confirm a ruler name
+          once its user has sent you the code shown under it by in-game message.
+        </p>
         
         {error && (
           <div className="mb-4 p-4 bg-red-900/50 border border-red-700 rounded-lg text-red-200">
@@ -269,6 +351,7 @@ const UserManagementPage: React.FC = () => {
                     <th className="px-4 py-3 text-left text-sm font-semibold text-gray-200">Discord</th>
                     <th className="px-4 py-3 text-left text-sm font-semibold text-gray-200">Ruler Name</th>
                     <th className="px-4 py-3 text-left text-sm font-semibold text-gray-200">Roles</th>
+                    <th className="px-4 py-3 text-left text-sm font-semibold text-gray-200">Alliance Roles</th>
                     <th className="px-4 py-3 text-left text-sm font-semibold text-gray-200">Managed Alliances</th>
                     <th className="px-4 py-3 text-left text-sm font-semibold text-gray-200">Created</th>
                     <th className="px-4 py-3 text-left text-sm font-semibold text-gray-200">Actions</th>
@@ -301,7 +384,33 @@ const UserManagementPage: React.FC = () => {
                               className="w-full px-2 py-1 bg-gray-700 text-gray-200 border border-gray-600 rounded focus:outline-none focus:border-primary"
                             />
                           ) : (
-                            <span className="text-gray-300">{user.rulerName || '-'}</span>
+                            <>
+                              <span className="text-gray-300">{user.rulerName || '-'}</span>
+                              {user.rulerName && (
+                                <div className="mt-1 flex items-center gap-2 text-xs">
+                                  {user.rulerNameVerification.verified ? (
+                                    <span className="text-green-400">
+                                      Verified{user.rulerNameVerification.verifiedBy === 'bio' ? ' (bio)' : ' (admin)'}
+                                    </span>
+                                  ) : (
+                                    <span className="text-yellow-400">
+                                      Unverified
+                                      {user.rulerNameVerification.code && (
+                                        <span className="ml-1 font-mono text-gray-400">{user.rulerNameVerification.code}</span>
+                                      )}
+                                    </span>
+                                  )}
+                                  <button
+                                    type="button"
+                                    onClick={() => setRulerNameVerified(user, !user.rulerNameVerification.verified)}
+                                    disabled={saving === user.id}
+                                    className="text-primary hover:underline disabled:opacity-50"
+                                  >
+                                    {user.rulerNameVerification.verified ? 'Withdraw' : 'Confirm'}
+                                  </button>
+                                </div>
+                              )}
+                            </>
                           )}
                         </td>
                         <td className="px-4 py-3 text-sm">
@@ -339,15 +448,7 @@ const UserManagementPage: React.FC = () => {
                                 user.roles.map((role) => (
                                   <span
                                     key={role}
-                                    className={`inline-block px-2 py-1 rounded text-xs font-semibold ${
-                                      role === UserRole.ADMIN
-                                        ? 'bg-red-900/50 text-red-200'
-                                        : role === UserRole.ALLIANCE_MANAGER
-                                        ? 'bg-blue-900/50 text-blue-200'
-                                        : role === UserRole.WAR_MANAGER
-                                        ? 'bg-orange-900/50 text-orange-200'
-                                        : 'bg-gray-700 text-gray-300'
-                                    }`}
+                                    className={`inline-block px-2 py-1 rounded text-xs font-semibold ${roleBadgeClass(role)}`}
                                   >
                                     {role}
                                   </span>
@@ -356,6 +457,60 @@ const UserManagementPage: React.FC = () => {
                             </div>
                           )}
                         </td>
+                        <td className="px-4 py-3 text-sm">
+                          <div className="flex flex-wrap gap-1">
+                            {(edited.allianceRoles ?? user.allianceRoles).length === 0 && !isEditing && (
+                              <span className="text-gray-500 text-xs">None</span>
+                            )}
+                            {(edited.allianceRoles ?? user.allianceRoles).map((grant) => (
+                              <span
+                                key={allianceRoleKey(grant)}
+                                className={`inline-flex items-center gap-1 px-2 py-1 rounded text-xs font-semibold ${roleBadgeClass(grant.role)}`}
+                              >
+                                {grant.role} · {alliances.find((a) => a.id === grant.allianceId)?.name || `Alliance ${grant.allianceId}`}
+                                {isEditing && (
+                                  <button
+                                    onClick={() => removeAllianceRole(user.id, grant)}
+                                    className="ml-1 text-gray-300 hover:text-white"
+                                    aria-label="Remove alliance role"
+                                  >
+                                    ×
+                                  </button>
+                                )}
+                              </span>
+                            ))}
+                          </div>
+                          {isEditing && (
+                            <div className="mt-2 flex flex-wrap gap-1 items-center">
+                              <select
+                                value={grantRole}
+                                onChange={(e) => setGrantRole(e.target.value as UserRole)}
+                                className="px-1 py-1 bg-gray-700 text-gray-200 border border-gray-600 rounded text-xs"
+                              >
+                                {ALL_ROLES.map((role) => (
+                                  <option key={role} value={role}>{role}</option>
+                                ))}
+                              </select>
+                              <select
+                                value={grantAllianceId}
+                                onChange={(e) => setGrantAllianceId(e.target.value)}
+                                className="px-1 py-1 bg-gray-700 text-gray-200 border border-gray-600 rounded text-xs max-w-[10rem]"
+                              >
+                                <option value="">Alliance...</option>
+                                {alliances.map((alliance) => (
+                                  <option key={alliance.id} value={alliance.id}>{alliance.name}</option>
+                                ))}
+                              </select>
+                              <button
+                                onClick={() => addAllianceRole(user.id)}
+                                disabled={!grantAllianceId}
+                                className="px-2 py-1 text-xs bg-gray-700 text-gray-300 rounded hover:bg-gray-600 disabled:opacity-50"
+                              >
+                                Add
+                              </button>
+                            </div>
+                          )}
+                        </td>
                         <td className="px-4 py-3 text-sm">
                           <div className="flex flex-wrap gap-1 items-center">
                             {user.managedAllianceIds.length > 0 ? (
@@ -0,0 +1,228 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { apiCallWithErrorHandling, API_ENDPOINTS } from '../utils/api';
+import PageContainer from '../components/PageContainer';
+import { useAuth } from '../contexts/AuthContext';
+
+interface WarDiscrepancy {
+  id: number;
+  warId: number;
+  field: string;
+  csvValue: string | null;
+  dynamicValue: string | null;
+  resolvedValue: string | null;
+  resolvedFrom: string;
+  detectedBy: string;
+  detectedAt: string;
+  declaringNationName: string;
+  declaringRulerName: string;
+  receivingNationName: string;
+  receivingRulerName: string;
+  source: string;
+  confirmedAt: string | null;
+}
+
+interface UnconfirmedWar {
+  warId: number;
+  declaringNationName: string;
+  declaringRulerName: string;
+  receivingNationName: string;
+  receivingRulerName: string;
+  status: string;
+  date: string;
+  firstSeenAt: string;
+  scrapedAt: string | null;
+}
+
+const FIELDS: { key: string; label: string }[] = [
+  { key: 'status', label: 'Status' },
+  { key: 'destruction', label: 'Destruction' },
+  { key: 'attackPercent', label: 'Attack %' },
+  { key: 'defendPercent', label: 'Defend %' },
+  { key: 'missingFromExport', label: 'Missing from war file' },
+];
+
+const DAY_OPTIONS = [1, 7, 30, 90];
+
+const thClass = 'p-2 border-b border-gray-600 text-left text-gray-300 font-semibold whitespace-nowrap';
+const tdClass = 'p-2 border-b border-gray-700/50 text-gray-200 align-top';
+const selectClass = 'px-3 py-1.5 bg-gray-800 text-white border border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-primary/50 text-sm';
+
+const formatDateTime = (iso: string | null) => (iso ? new Date(iso).toLocaleString() : '—');
+
+const fieldLabel = (field: string) => FIELDS.find((f) => f.key === field)?.label ?? field;
+
+const SourceBadge: React.FC<{ source: string }> = ({ source }) => (
+  <span className={`px-2 py-0.5 rounded text-xs font-semibold ${source === 'dynamic' ? 'bg-purple-900/50 text-purple-200' : 'bg-gray-700 text-gray-200'}`}>
+    {source === 'dynamic' ? 'scrape' : 'war file'}
+  </span>
+);
+
+const WarPair: React.FC<{ row: { declaringNationName: string; declaringRulerName: string; receivingNationName: string; receivingRulerName: string } }> = ({ row }) => (
+  <span>
+    {row.declaringNationName} <span className="text-gray-400">({row.declaringRulerName})</span>
+    <span className="mx-1 text-gray-500">→</span>
+    {row.receivingNationName} <span className="text-gray-400">({row.receivingRulerName})</span>
+  </span>
+);
+
+/**
+ * Admin view of wars where the war file and in-game scrapes disagree, and scraped wars no
+ * war file has confirmed yet
+ */
+const WarReconciliationPage: React.FC = () => {
+  const { isAuthenticated, isLoading: authLoading, hasCapability } = useAuth();
+  const navigate = useNavigate();
+  const [days, setDays] = useState(7);
+  const [field, setField] = useState('');
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [discrepancies, setDiscrepancies] = useState<WarDiscrepancy[]>([]);
+  const [unconfirmed, setUnconfirmed] = useState<UnconfirmedWar[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const canView = isAuthenticated && hasCapability('manage_all_alliance');
+
+  useEffect(() => {
+    if (authLoading) return;
+    if (!canView) {
+      navigate('/aid');
+    }
+  }, [canView, authLoading, navigate]);
+
+  useEffect(() => {
+    if (!canView) return;
+    const load = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const data = await apiCallWithErrorHandling(API_ENDPOINTS.adminWarReconciliation(days, field || undefined));
+        setCounts(data.counts || {});
+        setDiscrepancies(data.discrepancies || []);
+        setUnconfirmed(data.unconfirmed || []);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load war reconciliation');
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [canView, days, field]);
+
+  if (authLoading || !canView) return null;
+
+  return (
+    <PageContainer>
+      <h1 className="text-2xl font-bold text-gray-100 mb-2">War reconciliation</h1>
+      <p className="text-gray-400 text-sm mb-4">
+        Wars where the war file and in-game scrapes disagreed, with the value that was kept. Ended statuses and larger
+        destruction always win; otherwise the newer source wins.
+      </p>
+      {error && (
+        <div className="mb-4 p-3 bg-red-900/30 border border-red-700 rounded text-red-200">{error}</div>
+      )}
+
+      <div className="mb-4 flex items-center gap-4 flex-wrap">
+        <div className="flex items-center gap-2">
+          <label className="text-sm text-gray-300">Period:</label>
+          <select value={days} onChange={(e) => setDays(parseInt(e.target.value, 10))} className={selectClass}>
+            {DAY_OPTIONS.map((d) => (
+              <option key={d} value={d}>Last {d === 1 ? 'day' : `${d} days`}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="text-sm text-gray-300">Field:</label>
+          <select value={field} onChange={(e) => setField(e.target.value)} className={selectClass}>
+            <option value="">All ({Object.values(counts).reduce((sum, n) => sum + n, 0)})</option>
+            {FIELDS.map(({ key, label }) => (
+              <option key={key} value={key}>{label} ({counts[key] ?? 0})</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="text-gray-400">Loading...</div>
+      ) : (
+        <>
+          {unconfirmed.length > 0 && (
+            <div className="mb-6 border border-gray-700 rounded-lg p-4 bg-gray-800/50">
+              <h2 className="text-lg font-semibold text-gray-200 mb-1">Awaiting the war file ({unconfirmed.length})</h2>
+              <p className="text-sm text-gray-400 mb-3">
+                Active wars seen only in scrapes. They stay active until a war file lists them, or are ended if none does within two days.
+              </p>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr>
+                      <th className={thClass}>War</th>
+                      <th className={thClass}>Nations</th>
+                      <th className={thClass}>Status</th>
+                      <th className={thClass}>Declared</th>
+                      <th className={thClass}>Last scraped</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {unconfirmed.map((war) => (
+                      <tr key={war.warId}>
+                        <td className={tdClass}>#{war.warId}</td>
+                        <td className={tdClass}><WarPair row={war} /></td>
+                        <td className={tdClass}>{war.status}</td>
+                        <td className={`${tdClass} whitespace-nowrap`}>{war.date}</td>
+                        <td className={`${tdClass} whitespace-nowrap`}>{formatDateTime(war.scrapedAt)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr>
+                  <th className={thClass}>Detected</th>
+                  <th className={thClass}>War</th>
+                  <th className={thClass}>Nations</th>
+                  <th className={thClass}>Field</th>
+                  <th className={thClass}>War file</th>
+                  <th className={thClass}>Scrape</th>
+                  <th className={thClass}>Kept</th>
+                </tr>
+              </thead>
+              <tbody>
+                {discrepancies.length === 0 && (
+                  <tr>
+                    <td colSpan={7} className="p-3 text-center text-gray-400">No discrepancies in this period.</td>
+                  </tr>
+                )}
+                {discrepancies.map((d) => (
+                  <tr key={d.id}>
+                    <td className={`${tdClass} whitespace-nowrap`}>
+                      {formatDateTime(d.detectedAt)}
+                      <div className="text-xs text-gray-400">during {d.detectedBy === 'dynamic' ? 'scrape' : 'war file import'}</div>
+                    </td>
+                    <td className={tdClass}>
+                      #{d.warId}
+                      {!d.confirmedAt && <div className="text-xs text-yellow-300">unconfirmed</div>}
+                    </td>
+                    <td className={tdClass}><WarPair row={d} /></td>
+                    <td className={tdClass}>{fieldLabel(d.field)}</td>
+                    <td className={tdClass}>{d.csvValue ?? '—'}</td>
+                    <td className={tdClass}>{d.dynamicValue ?? '—'}</td>
+                    <td className={tdClass}>
+                      {d.resolvedValue ?? '—'} <SourceBadge source={d.resolvedFrom} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </PageContainer>
+  );
+};
+
+export default WarReconciliationPage;
@@ -3,6 +3,8 @@ import { apiCallWithErrorHandling, API_ENDPOINTS } from '../utils/api';
 import type { TableColumn } from '../components/ReusableTable';
 import { tableClasses } from '../styles/tableClasses';
 import TableContainer from '../components/TableContainer';
+import BattleReports from '../components/BattleReports';
+import { gameId } from '../utils/gameServer';
 
 interface AllianceTotal {
   alliance_id: number;
@@ -646,7 +648,7 @@ const WarStatsPage: React.FC = () => {
                                         <td className="px-2 md:px-4 py-2 md:py-3 text-xs md:text-sm text-left">
                                           <div className="min-w-0">
                                             <a
-                                              href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${nationRow.nation_id}`}
+                                              href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(nationRow.nation_id)}`}
                                               target="_blank"
                                               rel="noopener noreferrer"
                                               className="text-primary no-underline font-bold hover:underline truncate block"
@@ -686,7 +688,7 @@ const WarStatsPage: React.FC = () => {
                                           <td className="px-2 md:px-4 py-2 md:py-3 text-xs md:text-sm text-left">
                                             <div className="min-w-0">
                                               <a
-                                                href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${war.opponent_nation_id}`}
+                                                href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(war.opponent_nation_id)}`}
                                                 target="_blank"
                                                 rel="noopener noreferrer"
                                                 className="text-blue-400 no-underline hover:underline text-[10px] md:text-xs truncate block"
@@ -712,7 +714,7 @@ const WarStatsPage: React.FC = () => {
                                           </td>
                                           <td className="px-2 md:px-4 py-2 md:py-3 text-xs md:text-sm text-center text-gray-500" colSpan={2}>
                                             <a
-                                              href={`https://www.cybernations.net/war_information.asp?ID=${war.war_id}`}
+                                              href={`https://www.cybernations.net/war_information.asp?ID=${gameId(war.war_id)}`}
                                               target="_blank"
                                               rel="noopener noreferrer"
                                               className="text-gray-500 hover:text-gray-300 text-[10px] md:text-xs no-underline hover:underline"
@@ -879,7 +881,7 @@ const WarStatsPage: React.FC = () => {
                                         </span>
                                         <div className="min-w-0 flex-1">
                                           <a
-                                            href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${nationRow.nation_id}`}
+                                            href={`https://www.cybernations.net/nation_drill_display.asp?Nation_ID=${gameId(nationRow.nation_id)}`}
                                             target="_blank"
                                             rel="noopener noreferrer"
                                             className="text-primary no-underline font-bold hover:underline truncate block text-xs"
@@ -912,7 +914,7 @@ const WarStatsPage: React.FC = () => {
                                           <span className="text-gray-700 text-sm flex-shrink-0">└</span>
                                           <div className="min-w-0 flex-1">
                                             <a
-                                              href={`https://www.cybernations.net/war_information.asp?ID=${war.war_id}`}
+                                              href={`https://www.cybernations.net/war_information.asp?ID=${gameId(war.war_id)}`}
                                               target="_blank"
                                               rel="noopener noreferrer"
                                               className="text-blue-400 no-underline hover:underline text-xs truncate block"
@@ -964,6 +966,7 @@ const WarStatsPage: React.FC = () => {
         )}
       </div>
 
+      <BattleReports filter={debouncedFilter} />
     </TableContainer>
   );
 };
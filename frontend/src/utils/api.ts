@@ -1,4 +1,5 @@
 // API configuration and utility functions
+import { getGameServer } from './gameServer';
 
 // Get the base URL for API calls.
 // In both dev and prod, use relative URLs so requests are same-origin:
@@ -20,6 +21,8 @@ export const apiCall = async (endpoint: string, options: RequestInit = {}): Prom
     credentials: 'include', // Always include cookies
     headers: {
       'Content-Type': 'application/json',
+      // Game server the backend should answer for (SE or TE)
+      'X-Game-Server': getGameServer(),
       ...options.headers,
     },
   });
@@ -86,6 +89,8 @@ export const API_ENDPOINTS = {
   nationsConfig: (id: number) => `/api/alliances/${id}/nations-config`,
   allianceNationStats: (allianceIds: number[]) => `/api/alliance-nation-stats?allianceIds=${allianceIds.join(',')}`,
   aidSlots: (id: number) => `/api/alliances/${id}/aid-slots`,
+  aidCalendar: (id: number, days: number) => `/api/alliances/${id}/aid-calendar?days=${days}`,
+  earlyAidCancellations: (id: number, days: number) => `/api/alliances/${id}/early-aid-cancellations?days=${days}`,
   updateNationSlots: (allianceId: number, nationId: number) => `/api/alliances/${allianceId}/nations/${nationId}`,
   nationWars: (id: number) => `/api/alliances/${id}/nation-wars`,
   defendingWarsStats: (id: number) => `/api/alliances/${id}/defending-wars-stats`,
@@ -97,15 +102,24 @@ export const API_ENDPOINTS = {
     return `/api/alliances/${id}/war-counts${q ? `?${q}` : ''}`;
   },
   warAssignments: (id: number) => `/api/alliances/${id}/war-assignments`,
+  warAssignmentsBatch: (id: number) => `/api/alliances/${id}/war-assignments/batch`,
+  blitzPlan: (id: number, attackingAllianceId: number, date: string) =>
+    `/api/alliances/${id}/blitz-plan?attackingAllianceId=${attackingAllianceId}&date=${encodeURIComponent(date)}`,
+  staggerSchedule: (id: number, attackingAllianceId: number, startDate: string, days: number) =>
+    `/api/alliances/${id}/stagger-schedule?attackingAllianceId=${attackingAllianceId}&startDate=${encodeURIComponent(startDate)}&days=${days}`,
   staggerEligibility: '/api/stagger-eligibility',
   smallAidOffers: '/api/small-aid-offers',
   statsDecode: '/api/stats/decode',
   nuclearStats: '/api/nuclear/stats',
   nuclearTimeline: (intervalMinutes: number = 5) => `/api/nuclear/timeline?intervalMinutes=${intervalMinutes}`,
+  nuclearNations: '/api/nuclear/nations',
+  nuclearAlliances: '/api/nuclear/alliances',
+  nuclearUnmatched: '/api/nuclear/unmatched',
+  nuclearResolveUnmatched: '/api/nuclear/unmatched/resolve',
   aidEfficiency: '/api/aid-efficiency',
   nationAidEfficiency: (allianceId: number, startDate: string, endDate: string) => `/api/alliances/${allianceId}/nation-aid-efficiency?startDate=${encodeURIComponent(startDate)}&endDate=${encodeURIComponent(endDate)}`,
   allianceAidTotals: (startDate: string, endDate: string) => `/api/alliance-aid-totals?startDate=${encodeURIComponent(startDate)}&endDate=${encodeURIComponent(endDate)}`,
-  events: (params?: { type?: string; eventType?: string; limit?: number; offset?: number; nationId?: number; allianceId?: number; minStrength?: number; search?: string }) => {
+  events: (params?: { type?: string; eventType?: string; limit?: number; offset?: number; nationId?: number; allianceId?: number; minStrength?: number; search?: string; direction?: 'offensive' | 'defensive' }) => {
     const queryParams = new URLSearchParams();
     if (params?.type) queryParams.set('type', params.type);
     if (params?.eventType) queryParams.set('eventType', params.eventType);
@@ -113,6 +127,7 @@ export const API_ENDPOINTS = {
     if (params?.offset) queryParams.set('offset', params.offset.toString());
     if (params?.nationId) queryParams.set('nationId', params.nationId.toString());
     if (params?.allianceId) queryParams.set('allianceId', params.allianceId.toString());
+    if (params?.direction) queryParams.set('direction', params.direction);
     if (params?.minStrength !== undefined) queryParams.set('minStrength', params.minStrength.toString());
     if (params?.search) queryParams.set('search', params.search);
     const query = queryParams.toString();
@@ -146,6 +161,9 @@ export const API_ENDPOINTS = {
     return `/api/war-statistics/war-records${query}`;
   },
   warStatisticsInvalidateCache: '/api/war-statistics/invalidate-cache',
+  battleIngest: '/api/battles/ingest',
+  battleNationStats: '/api/battles/nation-stats',
+  battleWarStats: '/api/battles/war-stats',
   casualties: '/api/casualties',
   casualtiesAlliances: '/api/casualties/alliances',
   casualtiesAllianceMembers: (allianceId: number) => `/api/casualties/alliance/${allianceId}`,
@@ -159,6 +177,28 @@ export const API_ENDPOINTS = {
     const query = nationId ? `?nationId=${nationId}` : '';
     return `/api/warchest-submissions${query}`;
   },
+  spyglassUpload: '/api/spyglass/upload',
+  warchestTimeline: (nationId: number) => `/api/nations/${nationId}/warchest-timeline`,
+  notificationEventTypes: '/api/notifications/event-types',
+  notificationSubscriptions: (allianceId: number) => `/api/alliances/${allianceId}/notification-subscriptions`,
+  notificationSubscription: (allianceId: number, subscriptionId: number) => `/api/alliances/${allianceId}/notification-subscriptions/${subscriptionId}`,
+  notificationSubscriptionTest: (allianceId: number, subscriptionId: number) => `/api/alliances/${allianceId}/notification-subscriptions/${subscriptionId}/test`,
+  notificationDeliveries: (allianceId: number) => `/api/alliances/${allianceId}/notification-deliveries`,
+  notificationDeliveryRetry: (allianceId: number, deliveryId: number) => `/api/alliances/${allianceId}/notification-deliveries/${deliveryId}/retry`,
+  meDashboard: '/api/me/dashboard',
+  meApiKeys: '/api/me/api-keys',
+  meApiKey: (keyId: number) => `/api/me/api-keys/${keyId}`,
+  meRulerNameVerification: '/api/me/ruler-name-verification',
+  meRulerNameVerificationCheck: '/api/me/ruler-name-verification/check',
+  nationProfile: (nationId: number) => `/api/nations/${nationId}/profile`,
+  nationHistory: (nationId: number, params?: { from?: string; to?: string; fields?: string[] }) => {
+    const searchParams = new URLSearchParams();
+    if (params?.from) searchParams.set('from', params.from);
+    if (params?.to) searchParams.set('to', params.to);
+    if (params?.fields && params.fields.length > 0) searchParams.set('fields', params.fields.join(','));
+    const query = searchParams.toString();
+    return query ? `/api/nations/${nationId}/history?${query}` : `/api/nations/${nationId}/history`;
+  },
   interallianceAid: (alliance1Id: number, alliance2Id: number, startDate?: string, endDate?: string) => {
     let url = `/api/interalliance-aid/${alliance1Id}/${alliance2Id}`;
     const params = new URLSearchParams();
@@ -175,6 +215,7 @@ export const API_ENDPOINTS = {
   // User management endpoints (ADMIN only)
   users: '/api/users',
   updateUser: (id: number) => `/api/users/${id}`,
+  userRulerNameVerification: (id: number) => `/api/users/${id}/ruler-name-verification`,
   // Admin endpoints (ADMIN only)
   adminAlliances: '/api/admin/alliances',
   adminSearchNations: (query: string, limit?: number) => {
@@ -196,4 +237,20 @@ export const API_ENDPOINTS = {
   // Role capabilities (manage_users)
   adminCapabilities: '/api/admin/capabilities',
   adminRoleCapabilities: (role: string) => `/api/admin/roles/${role}/capabilities`,
+  adminSyncRuns: '/api/admin/sync-runs',
+  adminSyncRun: (runId: number) => `/api/admin/sync-runs/${runId}`,
+  adminImportQuarantine: '/api/admin/import-quarantine?status=quarantined',
+  adminImportQuarantined: (quarantineId: number) => `/api/admin/import-quarantine/${quarantineId}/import`,
+  adminDiscardQuarantined: (quarantineId: number) => `/api/admin/import-quarantine/${quarantineId}/discard`,
+  adminWarReconciliation: (days: number, field?: string) =>
+    `/api/admin/war-reconciliation?days=${days}${field ? `&field=${encodeURIComponent(field)}` : ''}`,
+  adminAuditLog: (filters: { userId?: string; allianceId?: string; action?: string; beforeId?: number; limit?: number }) => {
+    const params = new URLSearchParams();
+    if (filters.userId) params.set('userId', filters.userId);
+    if (filters.allianceId) params.set('allianceId', filters.allianceId);
+    if (filters.action) params.set('action', filters.action);
+    if (filters.beforeId) params.set('beforeId', filters.beforeId.toString());
+    if (filters.limit) params.set('limit', filters.limit.toString());
+    return `/api/admin/audit-log?${params.toString()}`;
+  },
 } as const;
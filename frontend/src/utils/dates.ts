@@ -0,0 +1,12 @@
+/**
+ * Today's date in game time (US Central) as YYYY-MM-DD, for date inputs
+ */
+export const getCentralTodayYmd = (): string => {
+  const [month, day, year] = new Date().toLocaleDateString('en-US', {
+    timeZone: 'America/Chicago',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).split('/');
+  return `${year}-${month}-${day}`;
+};
@@ -0,0 +1,37 @@
+export type GameServer = 'SE' | 'TE';
+
+export const GAME_SERVER_OPTIONS: { value: GameServer; label: string }[] = [
+  { value: 'SE', label: 'Standard Edition' },
+  { value: 'TE', label: 'Tournament Edition' },
+];
+
+const GAME_SERVER_STORAGE_KEY = 'gameServer';
+
+/**
+ * The backend stores Tournament Edition ids at this offset so they don't collide with SE ids
+ */
+const TE_ID_OFFSET = 1_000_000_000;
+
+/**
+ * Server picked in the navigation bar, remembered across visits
+ */
+export const getGameServer = (): GameServer => {
+  try {
+    return localStorage.getItem(GAME_SERVER_STORAGE_KEY) === 'TE' ? 'TE' : 'SE';
+  } catch {
+    return 'SE';
+  }
+};
+
+export const storeGameServer = (server: GameServer): void => {
+  try {
+    localStorage.setItem(GAME_SERVER_STORAGE_KEY, server);
+  } catch {
+    // Private browsing without storage: the choice lasts until reload
+  }
+};
+
+/**
+ * The in-game id for an id from our API, for links to the game site
+ */
+export const gameId = (id: number): number => (id >= TE_ID_OFFSET ? id - TE_ID_OFFSET : id);